@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { sql, desc, asc, or, ilike, and, eq } from "drizzle-orm";
+import { sql, desc, asc, or, ilike, and, eq, isNull, type SQL } from "drizzle-orm";
 import { z } from "zod";
 import { unstable_cache } from "next/cache";
 import { contact } from "@/lib/db/schema";
+import {
+  requireRole,
+  solicitorDonorCondition,
+  solicitorScope,
+} from "@/lib/auth/guard";
+import { channelSearchCondition } from "@/lib/contact-channels";
+import { ALL_ROLES } from "@/lib/auth/roles";
 
 const CACHE_TTL_SECONDS = 60;
 
@@ -18,6 +25,9 @@ const querySchema = z.object({
 });
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const parsedParams = querySchema.safeParse({
@@ -47,9 +57,13 @@ export async function GET(request: NextRequest) {
       parsedParams.data;
     const offset = (page - 1) * limit;
 
+    // Solicitors see only their donors, so each gets their own cache entry
+    const scopedSolicitorId = solicitorScope(auth.user);
     const cacheKey = `contacts:${page}:${limit}:${
       search || ""
-    }:${sortBy}:${sortOrder}:${title || ""}:${gender || ""}`;
+    }:${sortBy}:${sortOrder}:${title || ""}:${gender || ""}:${
+      scopedSolicitorId ?? ""
+    }`;
     const cacheTags = [
       `contacts`,
       `contacts:page:${page}`,
@@ -60,7 +74,7 @@ export async function GET(request: NextRequest) {
 
     const cachedQuery = unstable_cache(
       async () => {
-        const conditions = [];
+        const conditions: (SQL | undefined)[] = [isNull(contact.deletedAt)];
 
         if (search) {
           conditions.push(
@@ -69,15 +83,19 @@ export async function GET(request: NextRequest) {
               ilike(contact.lastName, `%${search}%`),
               ilike(contact.email, `%${search}%`),
               ilike(contact.phone, `%${search}%`),
-              ilike(contact.address, `%${search}%`)
+              ilike(contact.address, `%${search}%`),
+              // Every address, phone and email, not just the primary ones
+              channelSearchCondition(`%${search}%`)
             )
           );
         }
+        if (scopedSolicitorId) {
+          conditions.push(solicitorDonorCondition(scopedSolicitorId, contact.id));
+        }
         if (title) conditions.push(eq(contact.title, title));
         if (gender) conditions.push(eq(contact.gender, gender));
 
-        const whereClause =
-          conditions.length > 0 ? and(...conditions) : undefined;
+        const whereClause = and(...conditions);
         let orderByClause;
         switch (sortBy) {
           case "id":
@@ -180,7 +198,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json(response, {
       headers: {
-        "Cache-Control": `public, s-maxage=${CACHE_TTL_SECONDS}`,
+        "Cache-Control": "private, no-cache",
         Vary: "Origin, Accept-Encoding",
         "X-Total-Count": response.pagination.totalCount.toString(),
       },
@@ -1,9 +1,18 @@
 import { db } from "@/lib/db";
 import { pledge, category, contact } from "@/lib/db/schema";
-import { sql, eq, and, or, gte, lte, ilike, SQL } from "drizzle-orm";
+import { sql, eq, and, or, gte, lte, ilike, isNull, SQL } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
+import {
+  requireRole,
+  solicitorDonorCondition,
+  solicitorScope,
+} from "@/lib/auth/guard";
+import { ALL_ROLES } from "@/lib/auth/roles";
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   const { searchParams } = new URL(request.url);
 
   const categoryId = searchParams.get("categoryId")
@@ -62,11 +71,15 @@ export async function GET(request: NextRequest) {
       .leftJoin(contact, eq(pledge.contactId, contact.id))
       .$dynamic();
 
-    const conditions: SQL<unknown>[] = [];
+    const conditions: SQL<unknown>[] = [isNull(pledge.deletedAt)];
 
     if (categoryId) {
       conditions.push(eq(pledge.categoryId, categoryId));
     }
+    const scopedSolicitorId = solicitorScope(auth.user);
+    if (scopedSolicitorId) {
+      conditions.push(solicitorDonorCondition(scopedSolicitorId, pledge.contactId));
+    }
     if (startDate) {
       conditions.push(gte(pledge.pledgeDate, startDate));
     }
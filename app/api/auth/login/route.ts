@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { staffUser } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { loginSchema } from "@/lib/form-schemas/staff-user";
+import { verifyPassword } from "@/lib/auth/password";
+import {
+  SESSION_COOKIE,
+  SESSION_MAX_AGE,
+  signSession,
+} from "@/lib/auth/session";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { email, password } = loginSchema.parse(body);
+
+    const [user] = await db
+      .select()
+      .from(staffUser)
+      .where(eq(staffUser.email, email.toLowerCase().trim()))
+      .limit(1);
+
+    const valid =
+      user && user.isActive && (await verifyPassword(password, user.passwordHash));
+
+    if (!valid) {
+      return NextResponse.json(
+        { error: "Invalid email or password" },
+        { status: 401 }
+      );
+    }
+
+    await db
+      .update(staffUser)
+      .set({ lastLoginAt: new Date() })
+      .where(eq(staffUser.id, user.id));
+
+    const token = await signSession({ sub: user.id, role: user.role });
+
+    const response = NextResponse.json({
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+      },
+    });
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      path: "/",
+      maxAge: SESSION_MAX_AGE,
+    });
+    return response;
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+}
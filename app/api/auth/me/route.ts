@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { getSessionUser } from "@/lib/auth/guard";
+
+export async function GET() {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: "Authentication required" },
+      { status: 401 }
+    );
+  }
+  return NextResponse.json({ user });
+}
@@ -2,8 +2,14 @@ import { db } from "@/lib/db";
 import { bonusCalculation } from "@/lib/db/schema";
 import { sql } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import { getSolicitorContactId, recordAudit } from "@/lib/audit";
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
     const { calculationIds } = body;
@@ -15,6 +21,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const existingCalculations = await db
+      .select()
+      .from(bonusCalculation)
+      .where(sql`${bonusCalculation.id} = ANY(${calculationIds})`);
+
+    const batched = existingCalculations.filter((c) => c.payoutBatchId);
+    if (batched.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Some bonuses are in payout batches; pay them through their batch",
+          calculationIds: batched.map((c) => c.id),
+        },
+        { status: 409 }
+      );
+    }
+
     const updatedCalculations = await db
       .update(bonusCalculation)
       .set({
@@ -24,6 +46,17 @@ export async function POST(request: NextRequest) {
       .where(sql`${bonusCalculation.id} = ANY(${calculationIds})`)
       .returning();
 
+    for (const updated of updatedCalculations) {
+      await recordAudit(auth.user, {
+        table: bonusCalculation,
+        recordId: updated.id,
+        action: "update",
+        before: existingCalculations.find((c) => c.id === updated.id),
+        after: updated,
+        contactId: await getSolicitorContactId(updated.solicitorId),
+      });
+    }
+
     return NextResponse.json({
       bonusCalculations: updatedCalculations,
       count: updatedCalculations.length,
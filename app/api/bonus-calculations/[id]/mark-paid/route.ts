@@ -2,14 +2,42 @@ import { db } from "@/lib/db";
 import { bonusCalculation } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import { getSolicitorContactId, recordAudit } from "@/lib/audit";
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
   const { id } = await params;
   const calculationId = parseInt(id, 10);
   try {
+    const [existingCalculation] = await db
+      .select()
+      .from(bonusCalculation)
+      .where(eq(bonusCalculation.id, calculationId))
+      .limit(1);
+
+    if (!existingCalculation) {
+      return NextResponse.json(
+        { error: "Bonus calculation not found" },
+        { status: 404 }
+      );
+    }
+
+    if (existingCalculation.payoutBatchId) {
+      return NextResponse.json(
+        {
+          error: `This bonus is in payout batch ${existingCalculation.payoutBatchId}; pay it through the batch`,
+        },
+        { status: 409 }
+      );
+    }
+
     const updatedCalculation = await db
       .update(bonusCalculation)
       .set({
@@ -26,6 +54,15 @@ export async function POST(
       );
     }
 
+    await recordAudit(auth.user, {
+      table: bonusCalculation,
+      recordId: calculationId,
+      action: "update",
+      before: existingCalculation,
+      after: updatedCalculation[0],
+      contactId: await getSolicitorContactId(updatedCalculation[0].solicitorId),
+    });
+
     return NextResponse.json({ bonusCalculation: updatedCalculation[0] });
   } catch (error) {
     console.error("Error marking bonus as paid:", error);
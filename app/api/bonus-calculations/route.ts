@@ -8,8 +8,13 @@ import {
   payment,
   bonusRule,
 } from "@/lib/db/schema";
+import { requireRole, solicitorScope } from "@/lib/auth/guard";
+import { ALL_ROLES } from "@/lib/auth/roles";
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const solicitorId = searchParams.get("solicitorId");
@@ -24,6 +29,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const scopedSolicitorId = solicitorScope(auth.user);
+    if (scopedSolicitorId) {
+      whereConditions.push(
+        eq(bonusCalculation.solicitorId, scopedSolicitorId)
+      );
+    }
+
     if (isPaid !== null) {
       whereConditions.push(eq(bonusCalculation.isPaid, isPaid === "true"));
     }
@@ -40,6 +52,7 @@ export async function GET(request: NextRequest) {
         calculatedAt: bonusCalculation.calculatedAt,
         isPaid: bonusCalculation.isPaid,
         paidAt: bonusCalculation.paidAt,
+        payoutBatchId: bonusCalculation.payoutBatchId,
         notes: bonusCalculation.notes,
         // Solicitor info
         solicitorFirstName: contact.firstName,
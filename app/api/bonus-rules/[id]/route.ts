@@ -1,24 +1,138 @@
-import { db } from "@/lib/db";
-import { bonusRule } from "@/lib/db/schema";
+import { db, txDb } from "@/lib/db";
+import { bonusRule, type BonusRuleTier } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { ADMIN_ROLES } from "@/lib/auth/roles";
+import { getSolicitorContactId, recordAudit } from "@/lib/audit";
+import {
+  findUnknownCategoryIds,
+  getRuleTiers,
+  replaceRuleTiers,
+} from "@/lib/bonus";
+import { moneyString } from "@/lib/currency";
+import {
+  bonusRuleTermsIssue,
+  bonusRuleUpdateSchema,
+} from "@/lib/form-schemas/bonus-rule";
+
+// Tiers as one comparable value, so the audit log shows a single change
+function tierSummary(tiers: BonusRuleTier[]) {
+  return tiers
+    .map((tier) => `${tier.minVolume}: ${tier.bonusPercentage}%`)
+    .join(", ");
+}
 
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
   const { id } = await params;
   const ruleId = parseInt(id, 10);
   try {
     const body = await request.json();
-    const updatedRule = await db
-      .update(bonusRule)
-      .set({
-        ...body,
-        updatedAt: new Date(),
-      })
+    const [existingRule] = await db
+      .select()
+      .from(bonusRule)
       .where(eq(bonusRule.id, ruleId))
-      .returning();
+      .limit(1);
+
+    if (!existingRule) {
+      return NextResponse.json(
+        { error: "Bonus rule not found" },
+        { status: 404 }
+      );
+    }
+
+    const parsed = bonusRuleUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid bonus rule",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { tiers, ...changes } = parsed.data;
+    const existingTiers = (await getRuleTiers([ruleId])).get(ruleId) ?? [];
+    const calculationType = changes.calculationType ?? existingRule.calculationType;
+    const nextTiers =
+      tiers ??
+      existingTiers.map((tier) => ({
+        minVolume: Number(tier.minVolume),
+        bonusPercentage: Number(tier.bonusPercentage),
+      }));
+
+    const termsIssue = bonusRuleTermsIssue({
+      calculationType,
+      bonusPercentage: changes.bonusPercentage ?? Number(existingRule.bonusPercentage),
+      flatAmount:
+        changes.flatAmount !== undefined
+          ? changes.flatAmount
+          : existingRule.flatAmount === null
+            ? null
+            : Number(existingRule.flatAmount),
+      tiers: nextTiers,
+    });
+    if (termsIssue) {
+      return NextResponse.json(
+        { error: "Invalid bonus rule", details: [{ field: "", message: termsIssue }] },
+        { status: 400 }
+      );
+    }
+
+    const unknownCategoryIds = await findUnknownCategoryIds(changes.categoryIds);
+    if (unknownCategoryIds.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Invalid bonus rule",
+          details: [
+            {
+              field: "categoryIds",
+              message: `Unknown category ids: ${unknownCategoryIds.join(", ")}`,
+            },
+          ],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Numeric columns take strings; null clears an optional amount
+    const money = (value: number | null | undefined) =>
+      value === undefined ? undefined : value === null ? null : moneyString(value);
+
+    const { updatedRule, updatedTiers } = await txDb.transaction(async (tx) => {
+      const updatedRule = await tx
+        .update(bonusRule)
+        .set({
+          ...changes,
+          bonusPercentage: money(changes.bonusPercentage) ?? undefined,
+          flatAmount: money(changes.flatAmount),
+          yearlyCap: money(changes.yearlyCap),
+          minAmount: money(changes.minAmount),
+          maxAmount: money(changes.maxAmount),
+          updatedAt: new Date(),
+        })
+        .where(eq(bonusRule.id, ruleId))
+        .returning();
+
+      // Only tiered rules keep tiers
+      const updatedTiers =
+        calculationType !== "tiered"
+          ? await replaceRuleTiers(ruleId, [], tx)
+          : tiers
+            ? await replaceRuleTiers(ruleId, tiers, tx)
+            : existingTiers;
+      return { updatedRule, updatedTiers };
+    });
 
     if (updatedRule.length === 0) {
       return NextResponse.json(
@@ -27,7 +141,18 @@ export async function PUT(
       );
     }
 
-    return NextResponse.json({ bonusRule: updatedRule[0] });
+    await recordAudit(auth.user, {
+      table: bonusRule,
+      recordId: ruleId,
+      action: "update",
+      before: { ...existingRule, tiers: tierSummary(existingTiers) },
+      after: { ...updatedRule[0], tiers: tierSummary(updatedTiers) },
+      contactId: await getSolicitorContactId(updatedRule[0].solicitorId),
+    });
+
+    return NextResponse.json({
+      bonusRule: { ...updatedRule[0], tiers: updatedTiers },
+    });
   } catch (error) {
     console.error("Error updating bonus rule:", error);
     return NextResponse.json(
@@ -41,6 +166,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
   const { id } = await params;
   const ruleId = parseInt(id, 10);
   try {
@@ -56,6 +184,14 @@ export async function DELETE(
       );
     }
 
+    await recordAudit(auth.user, {
+      table: bonusRule,
+      recordId: ruleId,
+      action: "delete",
+      before: deletedRule[0],
+      contactId: await getSolicitorContactId(deletedRule[0].solicitorId),
+    });
+
     return NextResponse.json({ message: "Bonus rule deleted successfully" });
   } catch (error) {
     console.error("Error deleting bonus rule:", error);
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole, solicitorScope } from "@/lib/auth/guard";
+import { ALL_ROLES } from "@/lib/auth/roles";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { category } from "@/lib/db/schema";
+import { calculateBonus, categoryPaymentType } from "@/lib/bonus";
+import { bonusPreviewSchema } from "@/lib/form-schemas/bonus-rule";
+
+// Shows what a hypothetical payment would earn the solicitor under the rules
+// in effect on its date, counting the volume and bonuses already recorded that
+// year. Nothing is written.
+export async function POST(request: NextRequest) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json();
+    const parsed = bonusPreviewSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid preview request",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { solicitorId, amountUsd, categoryId } = parsed.data;
+
+    const scopedSolicitorId = solicitorScope(auth.user);
+    if (scopedSolicitorId && scopedSolicitorId !== solicitorId) {
+      return NextResponse.json(
+        { error: "You do not have permission to perform this action" },
+        { status: 403 }
+      );
+    }
+
+    const paymentDate =
+      parsed.data.paymentDate ?? new Date().toISOString().split("T")[0];
+
+    let paymentType = parsed.data.paymentType ?? null;
+    if (categoryId) {
+      const [categoryData] = await db
+        .select({ bonusPaymentType: category.bonusPaymentType })
+        .from(category)
+        .where(eq(category.id, categoryId))
+        .limit(1);
+
+      if (!categoryData) {
+        return NextResponse.json(
+          { error: "Category not found" },
+          { status: 404 }
+        );
+      }
+      paymentType ??= categoryPaymentType(categoryData.bonusPaymentType);
+    }
+
+    const result = await calculateBonus({
+      solicitorId,
+      amountUsd,
+      paymentDate,
+      paymentType,
+      categoryId: categoryId ?? null,
+      campaignCode: parsed.data.campaignCode ?? null,
+      paymentMethod: parsed.data.paymentMethod ?? null,
+    });
+
+    return NextResponse.json({
+      solicitorId,
+      amountUsd,
+      paymentDate,
+      paymentType,
+      bonusRuleId: result.bonusRuleId,
+      ruleName: result.ruleName,
+      bonusPercentage: Number(result.bonusPercentage ?? 0),
+      bonusAmount: Number(result.bonusAmount ?? 0),
+      breakdown: result.breakdown,
+    });
+  } catch (error) {
+    console.error("Error previewing bonus:", error);
+    return NextResponse.json(
+      { error: "Failed to preview bonus" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,27 @@
 // app/api/bonus-rules/route.ts
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/lib/db";
-import { eq, desc } from "drizzle-orm";
+import { db, txDb } from "@/lib/db";
+import { eq, desc, and } from "drizzle-orm";
 import { bonusRule, contact, solicitor } from "@/lib/db/schema";
+import { requireRole, solicitorScope } from "@/lib/auth/guard";
+import { ADMIN_ROLES, ALL_ROLES } from "@/lib/auth/roles";
+import { getSolicitorContactId, recordAudit } from "@/lib/audit";
+import {
+  findUnknownCategoryIds,
+  getRuleTiers,
+  replaceRuleTiers,
+} from "@/lib/bonus";
+import { moneyString } from "@/lib/currency";
+import { bonusRuleSchema } from "@/lib/form-schemas/bonus-rule";
+
+function optionalMoney(value: number | null | undefined) {
+  return value === null || value === undefined ? null : moneyString(value);
+}
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const solicitorId = searchParams.get("solicitorId");
@@ -13,13 +30,24 @@ export async function GET(request: NextRequest) {
     if (solicitorId) {
       whereConditions.push(eq(bonusRule.solicitorId, parseInt(solicitorId)));
     }
+
+    const scopedSolicitorId = solicitorScope(auth.user);
+    if (scopedSolicitorId) {
+      whereConditions.push(eq(bonusRule.solicitorId, scopedSolicitorId));
+    }
     const query = db
       .select({
         id: bonusRule.id,
         solicitorId: bonusRule.solicitorId,
         ruleName: bonusRule.ruleName,
+        calculationType: bonusRule.calculationType,
         bonusPercentage: bonusRule.bonusPercentage,
+        flatAmount: bonusRule.flatAmount,
+        yearlyCap: bonusRule.yearlyCap,
         paymentType: bonusRule.paymentType,
+        categoryIds: bonusRule.categoryIds,
+        campaignCodes: bonusRule.campaignCodes,
+        paymentMethods: bonusRule.paymentMethods,
         minAmount: bonusRule.minAmount,
         maxAmount: bonusRule.maxAmount,
         effectiveFrom: bonusRule.effectiveFrom,
@@ -35,12 +63,18 @@ export async function GET(request: NextRequest) {
       .from(bonusRule)
       .innerJoin(solicitor, eq(bonusRule.solicitorId, solicitor.id))
       .innerJoin(contact, eq(solicitor.contactId, contact.id))
-      .where(whereConditions.length > 0 ? whereConditions[0] : undefined)
+      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
       .orderBy(desc(bonusRule.priority), desc(bonusRule.id));
 
     const rules = await query;
+    const tiers = await getRuleTiers(rules.map((rule) => rule.id));
 
-    return NextResponse.json({ bonusRules: rules });
+    return NextResponse.json({
+      bonusRules: rules.map((rule) => ({
+        ...rule,
+        tiers: tiers.get(rule.id) ?? [],
+      })),
+    });
   } catch (error) {
     console.error("Error fetching bonus rules:", error);
     return NextResponse.json(
@@ -51,35 +85,33 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
-    const {
-      solicitorId,
-      ruleName,
-      bonusPercentage,
-      paymentType = "both",
-      minAmount,
-      maxAmount,
-      effectiveFrom,
-      effectiveTo,
-      isActive = true,
-      priority = 1,
-      notes,
-    } = body;
-
-    // Validate required fields
-    if (!solicitorId || !ruleName || !bonusPercentage || !effectiveFrom) {
+    const parsed = bonusRuleSchema.safeParse(body);
+
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: "Missing required fields" },
+        {
+          error: "Invalid bonus rule",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
         { status: 400 }
       );
     }
 
+    const { tiers, ...rule } = parsed.data;
+
     // Check if solicitor exists
     const existingSolicitor = await db
       .select()
       .from(solicitor)
-      .where(eq(solicitor.id, solicitorId))
+      .where(eq(solicitor.id, rule.solicitorId))
       .limit(1);
 
     if (existingSolicitor.length === 0) {
@@ -89,24 +121,53 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const newRule = await db
-      .insert(bonusRule)
-      .values({
-        solicitorId,
-        ruleName,
-        bonusPercentage,
-        paymentType,
-        minAmount,
-        maxAmount,
-        effectiveFrom,
-        effectiveTo,
-        isActive,
-        priority,
-        notes,
-      })
-      .returning();
+    const unknownCategoryIds = await findUnknownCategoryIds(rule.categoryIds);
+    if (unknownCategoryIds.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Invalid bonus rule",
+          details: [
+            {
+              field: "categoryIds",
+              message: `Unknown category ids: ${unknownCategoryIds.join(", ")}`,
+            },
+          ],
+        },
+        { status: 400 }
+      );
+    }
 
-    return NextResponse.json({ bonusRule: newRule[0] }, { status: 201 });
+    const { newRule, newTiers } = await txDb.transaction(async (tx) => {
+      const newRule = await tx
+        .insert(bonusRule)
+        .values({
+          ...rule,
+          bonusPercentage: moneyString(rule.bonusPercentage),
+          flatAmount: optionalMoney(rule.flatAmount),
+          yearlyCap: optionalMoney(rule.yearlyCap),
+          minAmount: optionalMoney(rule.minAmount),
+          maxAmount: optionalMoney(rule.maxAmount),
+        })
+        .returning();
+      const newTiers =
+        rule.calculationType === "tiered"
+          ? await replaceRuleTiers(newRule[0].id, tiers, tx)
+          : [];
+      return { newRule, newTiers };
+    });
+
+    await recordAudit(auth.user, {
+      table: bonusRule,
+      recordId: newRule[0].id,
+      action: "create",
+      after: { ...newRule[0], tiers: newTiers },
+      contactId: await getSolicitorContactId(newRule[0].solicitorId),
+    });
+
+    return NextResponse.json(
+      { bonusRule: { ...newRule[0], tiers: newTiers } },
+      { status: 201 }
+    );
   } catch (error) {
     console.error("Error creating bonus rule:", error);
     return NextResponse.json(
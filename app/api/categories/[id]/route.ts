@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { and, eq, ne } from "drizzle-orm";
+import { category } from "@/lib/db/schema";
+import { categoryUpdateSchema } from "@/lib/form-schemas/category";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import { recordAudit } from "@/lib/audit";
+import { ErrorHandler } from "@/lib/error-handler";
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const categoryId = parseInt(id, 10);
+  if (isNaN(categoryId)) {
+    return NextResponse.json({ error: "Invalid category ID" }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json();
+    const parsed = categoryUpdateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Validation failed",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const [existingCategory] = await db
+      .select()
+      .from(category)
+      .where(eq(category.id, categoryId))
+      .limit(1);
+
+    if (!existingCategory) {
+      return NextResponse.json(
+        { error: "Category not found" },
+        { status: 404 }
+      );
+    }
+
+    if (parsed.data.name) {
+      const [duplicate] = await db
+        .select({ id: category.id })
+        .from(category)
+        .where(
+          and(eq(category.name, parsed.data.name), ne(category.id, categoryId))
+        )
+        .limit(1);
+
+      if (duplicate) {
+        return NextResponse.json(
+          {
+            error: "Duplicate category",
+            message: `Category with name '${parsed.data.name}' already exists`,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const [updatedCategory] = await db
+      .update(category)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(category.id, categoryId))
+      .returning();
+
+    await recordAudit(auth.user, {
+      table: category,
+      recordId: categoryId,
+      action: "update",
+      before: existingCategory,
+      after: updatedCategory,
+      contactId: null,
+    });
+
+    return NextResponse.json({
+      message: "Category updated successfully",
+      category: updatedCategory,
+    });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+}
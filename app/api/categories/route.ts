@@ -5,6 +5,8 @@ import { z } from "zod";
 import { ErrorHandler } from "@/lib/error-handler";
 import { category, NewCategory } from "@/lib/db/schema";
 import { categorySchema } from "@/lib/form-schemas/category";
+import { requireRole } from "@/lib/auth/guard";
+import { ALL_ROLES, FINANCE_ROLES } from "@/lib/auth/roles";
 
 const querySchema = z.object({
   page: z.coerce.number().min(1).default(1),
@@ -16,6 +18,9 @@ const querySchema = z.object({
 });
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const parsedParams = querySchema.safeParse({
@@ -149,6 +154,9 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
     const validatedData = categorySchema.parse(body);
@@ -5,6 +5,8 @@ import { z } from "zod";
 import { ErrorHandler } from "@/lib/error-handler";
 import { contactRoles, NewContactRole } from "@/lib/db/schema";
 import { contactRoleSchema } from "@/lib/form-schemas/contact-role";
+import { requireRole } from "@/lib/auth/guard";
+import { ALL_ROLES, FINANCE_ROLES } from "@/lib/auth/roles";
 
 const querySchema = z.object({
   page: z.coerce.number().min(1).default(1),
@@ -18,6 +20,9 @@ const querySchema = z.object({
 });
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const parsedParams = querySchema.safeParse({
@@ -185,6 +190,9 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
     const validatedData = contactRoleSchema.parse(body);
@@ -2,15 +2,25 @@ import { db } from "@/lib/db";
 import { category, pledge, payment } from "@/lib/db/schema";
 import { sql, eq, desc, and, isNull } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
+import { isSolicitorDonor, requireRole, solicitorScope } from "@/lib/auth/guard";
+import { ALL_ROLES } from "@/lib/auth/roles";
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   const { id } = await params;
   const contactId = parseInt(id, 10);
 
   try {
+    const scopedSolicitorId = solicitorScope(auth.user);
+    if (scopedSolicitorId && !(await isSolicitorDonor(scopedSolicitorId, contactId))) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+    }
+
     const categoriesWithTotals = await db
       .select({
         categoryId: category.id,
@@ -27,6 +37,8 @@ export async function GET(
            JOIN pledge pl_inner ON p_inner.pledge_id = pl_inner.id
            WHERE pl_inner.category_id = ${category.id}
            AND pl_inner.contact_id = ${contactId}
+           AND pl_inner.deleted_at IS NULL
+           AND p_inner.deleted_at IS NULL
            AND p_inner.received_date IS NULL
            AND p_inner.payment_status IN ('pending', 'processing')
           ), 0
@@ -34,7 +46,7 @@ export async function GET(
       })
       .from(category)
       .leftJoin(pledge, eq(category.id, pledge.categoryId))
-      .where(eq(pledge.contactId, contactId))
+      .where(and(eq(pledge.contactId, contactId), isNull(pledge.deletedAt)))
       .groupBy(category.id, category.name, category.description)
       .orderBy(desc(sql`SUM(${pledge.originalAmountUsd})`));
 
@@ -0,0 +1,106 @@
+import { db } from "@/lib/db";
+import { auditLog, staffUser } from "@/lib/db/schema";
+import { and, desc, eq, sql, SQL } from "drizzle-orm";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireRole } from "@/lib/auth/guard";
+import { STAFF_READ_ROLES } from "@/lib/auth/roles";
+
+const querySchema = z.object({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(25),
+  tableName: z.string().optional(),
+});
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(STAFF_READ_ROLES);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const contactId = parseInt(id, 10);
+  if (isNaN(contactId) || contactId <= 0) {
+    return NextResponse.json({ error: "Invalid contact ID" }, { status: 400 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const parsedParams = querySchema.safeParse({
+    page: searchParams.get("page") ?? undefined,
+    limit: searchParams.get("limit") ?? undefined,
+    tableName: searchParams.get("tableName") ?? undefined,
+  });
+
+  if (!parsedParams.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid query parameters",
+        details: parsedParams.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  const { page, limit, tableName } = parsedParams.data;
+  const offset = (page - 1) * limit;
+
+  try {
+    const conditions: SQL[] = [eq(auditLog.contactId, contactId)];
+    if (tableName) {
+      conditions.push(eq(auditLog.tableName, tableName));
+    }
+    const whereClause = and(...conditions);
+
+    const [history, countResult] = await Promise.all([
+      db
+        .select({
+          id: auditLog.id,
+          tableName: auditLog.tableName,
+          recordId: auditLog.recordId,
+          action: auditLog.action,
+          fieldName: auditLog.fieldName,
+          oldValue: auditLog.oldValue,
+          newValue: auditLog.newValue,
+          changedAt: auditLog.changedAt,
+          ipAddress: auditLog.ipAddress,
+          changedByName: staffUser.name,
+          changedByEmail: staffUser.email,
+        })
+        .from(auditLog)
+        .leftJoin(staffUser, eq(auditLog.staffUserId, staffUser.id))
+        .where(whereClause)
+        .orderBy(desc(auditLog.changedAt), desc(auditLog.id))
+        .limit(limit)
+        .offset(offset),
+      db
+        .select({ count: sql<number>`count(*)` })
+        .from(auditLog)
+        .where(whereClause),
+    ]);
+
+    const totalCount = Number(countResult[0]?.count || 0);
+    const totalPages = Math.ceil(totalCount / limit);
+
+    return NextResponse.json({
+      history,
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching contact history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch contact history" },
+      { status: 500 }
+    );
+  }
+}
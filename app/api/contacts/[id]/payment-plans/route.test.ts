@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { sql } from "drizzle-orm";
+import type { SessionUser } from "@/lib/auth/guard";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+const session = vi.hoisted(() => ({ user: null as unknown as SessionUser }));
+vi.mock("@/lib/auth/guard", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/auth/guard")>()),
+  requireRole: async () => ({ user: session.user }),
+}));
+
+import { db } from "@/lib/db";
+import { contact, payment, paymentPlan, pledge, solicitor } from "@/lib/db/schema";
+import { GET } from "./route";
+
+let donorId: number;
+let otherDonorId: number;
+
+async function addPlan(contactId: number, planName: string, deleted = false) {
+  const [owned] = await db
+    .insert(pledge)
+    .values({
+      contactId,
+      pledgeDate: "2025-01-01",
+      originalAmount: "1200.00",
+      balance: "1200.00",
+      deletedAt: deleted ? new Date() : null,
+    })
+    .returning();
+  await db.insert(paymentPlan).values({
+    pledgeId: owned.id,
+    planName,
+    frequency: "monthly",
+    totalPlannedAmount: "1200.00",
+    currency: "USD",
+    installmentAmount: "100.00",
+    numberOfInstallments: 12,
+    startDate: "2025-01-01",
+    remainingAmount: "1200.00",
+  });
+  return owned.id;
+}
+
+async function plans(query: string, contactId = donorId) {
+  const response = await GET(
+    new NextRequest(`http://localhost/api/contacts/${contactId}/payment-plans${query}`),
+    { params: Promise.resolve({ id: String(contactId) }) }
+  );
+  expect(response.status).toBe(200);
+  const { paymentPlans } = await response.json();
+  return paymentPlans.map((plan: { planName: string }) => plan.planName).sort();
+}
+
+beforeEach(async () => {
+  await db.execute(
+    sql`TRUNCATE ${contact}, ${solicitor}, ${pledge}, ${payment}
+      RESTART IDENTITY CASCADE`
+  );
+  [{ id: donorId }, { id: otherDonorId }] = await db
+    .insert(contact)
+    .values([
+      { firstName: "Dana", lastName: "Donor" },
+      { firstName: "Eli", lastName: "Other" },
+    ])
+    .returning();
+  const [person] = await db
+    .insert(contact)
+    .values({ firstName: "Sam", lastName: "Solicitor" })
+    .returning();
+  const [credited] = await db
+    .insert(solicitor)
+    .values({ contactId: person.id })
+    .returning();
+  session.user = {
+    id: 1,
+    email: "sam@example.org",
+    name: "Sam",
+    role: "solicitor",
+    contactId: person.id,
+    solicitorId: credited.id,
+  };
+
+  const pledgeId = await addPlan(donorId, "Dana monthly");
+  await addPlan(donorId, "Dana trashed", true);
+  await addPlan(otherDonorId, "Eli monthly");
+  await db.insert(payment).values({
+    pledgeId,
+    solicitorId: credited.id,
+    amount: "100.00",
+    currency: "USD",
+    paymentDate: "2025-01-01",
+    paymentMethod: "check",
+  });
+});
+
+describe("GET /api/contacts/[id]/payment-plans", () => {
+  it("lists only the contact's plans when filtered", async () => {
+    expect(await plans("")).toEqual(["Dana monthly"]);
+    expect(await plans("?planStatus=active")).toEqual(["Dana monthly"]);
+    expect(await plans("?search=monthly")).toEqual(["Dana monthly"]);
+  });
+
+  it("hides a contact who is not the solicitor's donor", async () => {
+    const response = await GET(
+      new NextRequest(
+        `http://localhost/api/contacts/${otherDonorId}/payment-plans?planStatus=active`
+      ),
+      { params: Promise.resolve({ id: String(otherDonorId) }) }
+    );
+    expect(response.status).toBe(404);
+  });
+});
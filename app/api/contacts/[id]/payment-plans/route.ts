@@ -1,8 +1,10 @@
 import { db } from "@/lib/db";
 import { paymentPlan, pledge } from "@/lib/db/schema";
-import { eq, desc, or, ilike, and, SQL, sql, inArray } from "drizzle-orm";
+import { eq, desc, or, ilike, and, SQL, sql, inArray, isNull } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { isSolicitorDonor, requireRole, solicitorScope } from "@/lib/auth/guard";
+import { ALL_ROLES } from "@/lib/auth/roles";
 
 const PlanStatusEnum = z.enum([
   "active",
@@ -26,6 +28,9 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { id } = await params;
     const { searchParams } = new URL(request.url);
@@ -46,11 +51,16 @@ export async function GET(
       planStatus,
     } = queryParams;
 
+    const scopedSolicitorId = solicitorScope(auth.user);
+    if (scopedSolicitorId && !(await isSolicitorDonor(scopedSolicitorId, contactIdNum))) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+    }
+
     // First, get all pledge IDs for this contact
     const pledges = await db
       .select({ id: pledge.id })
       .from(pledge)
-      .where(eq(pledge.contactId, contactIdNum));
+      .where(and(eq(pledge.contactId, contactIdNum), isNull(pledge.deletedAt)));
 
     if (pledges.length === 0) {
       return NextResponse.json({ paymentPlans: [] });
@@ -101,10 +111,9 @@ export async function GET(
       })
       .from(paymentPlan)
       .innerJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
-      .where(inArray(paymentPlan.pledgeId, pledgeIds))
       .$dynamic();
 
-    const conditions: SQL<unknown>[] = [];
+    const conditions: SQL<unknown>[] = [inArray(paymentPlan.pledgeId, pledgeIds)];
 
     if (planStatus) {
       conditions.push(eq(paymentPlan.planStatus, planStatus));
@@ -124,9 +133,7 @@ export async function GET(
       conditions.push(or(...searchConditions)!);
     }
 
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions));
-    }
+    query = query.where(and(...conditions));
 
     const offset = (page - 1) * limit;
     query = query
@@ -1,8 +1,10 @@
 import { db } from "@/lib/db";
 import { payment, pledge } from "@/lib/db/schema";
-import { eq, desc, or, ilike, and, SQL, sql, inArray } from "drizzle-orm";
+import { eq, desc, or, ilike, and, SQL, sql, inArray, isNull } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { requireRole, solicitorScope } from "@/lib/auth/guard";
+import { ALL_ROLES } from "@/lib/auth/roles";
 
 const PaymentStatusEnum = z.enum([
   "pending",
@@ -27,6 +29,9 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id?: string }> }
 ) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   const { id } = await params;
   const contactId = id ? parseInt(id, 10) : null;
   const { searchParams } = new URL(request.url);
@@ -49,14 +54,14 @@ export async function GET(
     const pledges = await db
       .select({ id: pledge.id })
       .from(pledge)
-      .where(eq(pledge.contactId, contactIdNum));
+      .where(and(eq(pledge.contactId, contactIdNum), isNull(pledge.deletedAt)));
 
     if (pledges.length === 0) {
       return NextResponse.json(
         { payments: [] },
         {
           headers: {
-            "Cache-Control": "public, s-maxage=60, stale-while-revalidate=300",
+            "Cache-Control": "private, no-cache",
           },
         }
       );
@@ -83,15 +88,22 @@ export async function GET(
         pledgeId: payment.pledgeId,
       })
       .from(payment)
-      .where(inArray(payment.pledgeId, pledgeIds))
+      .where(
+        and(inArray(payment.pledgeId, pledgeIds), isNull(payment.deletedAt))
+      )
       .$dynamic();
 
-    const conditions: SQL<unknown>[] = [];
+    const conditions: SQL<unknown>[] = [isNull(payment.deletedAt)];
 
     if (paymentStatus) {
       conditions.push(eq(payment.paymentStatus, paymentStatus));
     }
 
+    const scopedSolicitorId = solicitorScope(auth.user);
+    if (scopedSolicitorId) {
+      conditions.push(eq(payment.solicitorId, scopedSolicitorId));
+    }
+
     if (search) {
       const searchConditions: SQL<unknown>[] = [];
       searchConditions.push(
@@ -110,7 +122,9 @@ export async function GET(
     }
 
     if (conditions.length > 0) {
-      query = query.where(and(...conditions));
+      query = query.where(
+        and(inArray(payment.pledgeId, pledgeIds), ...conditions)
+      );
     }
 
     const offset = (page - 1) * limit;
@@ -125,7 +139,7 @@ export async function GET(
       { payments },
       {
         headers: {
-          "Cache-Control": "public, s-maxage=60, stale-while-revalidate=300",
+          "Cache-Control": "private, no-cache",
         },
       }
     );
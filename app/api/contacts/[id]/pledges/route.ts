@@ -1,12 +1,17 @@
 import { db } from "@/lib/db";
 import { pledge, category, contact, paymentPlan } from "@/lib/db/schema";
-import { sql, eq, and, or, gte, lte, ilike, SQL } from "drizzle-orm";
+import { sql, eq, and, or, gte, lte, ilike, isNull, SQL } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
+import { isSolicitorDonor, requireRole, solicitorScope } from "@/lib/auth/guard";
+import { ALL_ROLES } from "@/lib/auth/roles";
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { id } = await params;
     const contactId = parseInt(id, 10);
@@ -41,6 +46,11 @@ export async function GET(
       return NextResponse.json({ error: "Invalid category ID" }, { status: 400 });
     }
 
+    const scopedSolicitorId = solicitorScope(auth.user);
+    if (scopedSolicitorId && !(await isSolicitorDonor(scopedSolicitorId, contactId))) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+    }
+
     // Get payment plan data with more detailed information
     let paymentPlanData: Record<number, {
       totalScheduledAmount: string;
@@ -113,8 +123,9 @@ export async function GET(
 
     const conditions: SQL<unknown>[] = [];
 
-    // Always filter by contactId
+    // Always filter by contactId, leaving out pledges in the trash
     conditions.push(eq(pledge.contactId, contactId));
+    conditions.push(isNull(pledge.deletedAt));
 
     if (categoryId) {
       conditions.push(eq(pledge.categoryId, categoryId));
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { eq, sql } from "drizzle-orm";
+import type { SessionUser } from "@/lib/auth/guard";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+vi.mock("@/lib/auth/guard", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/auth/guard")>()),
+  requireRole: async () => ({ user: admin }),
+}));
+
+import { db } from "@/lib/db";
+import { auditLog, contact, pledge, staffUser } from "@/lib/db/schema";
+import { DELETE, PATCH, PUT } from "./route";
+
+const admin: SessionUser = {
+  id: 1,
+  email: "admin@example.org",
+  name: "Admin",
+  role: "admin",
+  contactId: null,
+  solicitorId: null,
+};
+
+let contactId: number;
+
+const params = (id: number) => ({ params: Promise.resolve({ id: String(id) }) });
+
+function send(
+  handler: typeof PUT,
+  body: Record<string, unknown>,
+  id = contactId
+) {
+  return handler(
+    new NextRequest(`http://localhost/api/contacts/${id}`, {
+      method: "PUT",
+      body: JSON.stringify(body),
+    }),
+    params(id)
+  );
+}
+
+async function stored(id = contactId) {
+  const [row] = await db.select().from(contact).where(eq(contact.id, id));
+  return row;
+}
+
+beforeEach(async () => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  await db.execute(
+    sql`TRUNCATE ${staffUser}, ${contact}, ${auditLog} RESTART IDENTITY CASCADE`
+  );
+  await db.insert(staffUser).values({
+    email: admin.email,
+    name: admin.name,
+    passwordHash: "x",
+    role: admin.role,
+  });
+  [{ id: contactId }] = await db
+    .insert(contact)
+    .values({
+      firstName: "Dana",
+      lastName: "Donor",
+      email: "dana@example.org",
+      title: "dr",
+      gender: "female",
+    })
+    .returning();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("PATCH /api/contacts/[id]", () => {
+  it("changes only the fields it is sent", async () => {
+    const response = await send(PATCH, { lastName: "Levi" });
+    expect(response.status).toBe(200);
+    expect(await stored()).toMatchObject({
+      firstName: "Dana",
+      lastName: "Levi",
+      email: "dana@example.org",
+      title: "dr",
+    });
+
+    const [entry] = await db.select().from(auditLog);
+    expect(entry).toMatchObject({
+      tableName: "contact",
+      action: "update",
+      fieldName: "lastName",
+      oldValue: "Donor",
+      newValue: "Levi",
+    });
+  });
+
+  it("validates with the contact form's rules", async () => {
+    const response = await send(PATCH, { firstName: "D", email: "not-an-email" });
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.type).toBe("VALIDATION_ERROR");
+    expect(body.errors.map((error: { field: string }) => error.field)).toEqual([
+      "firstName",
+      "email",
+    ]);
+  });
+
+  it("answers a taken email with a conflict", async () => {
+    await db
+      .insert(contact)
+      .values({ firstName: "Eli", lastName: "Other", email: "eli@example.org" });
+    const response = await send(PATCH, { email: "eli@example.org" });
+    expect(response.status).toBe(409);
+    expect((await response.json()).type).toBe("DUPLICATE_EMAIL");
+    expect((await stored()).email).toBe("dana@example.org");
+  });
+
+  it("answers for a contact in the trash", async () => {
+    await db
+      .update(contact)
+      .set({ deletedAt: new Date() })
+      .where(eq(contact.id, contactId));
+    expect((await send(PATCH, { lastName: "Levi" })).status).toBe(404);
+  });
+});
+
+describe("PUT /api/contacts/[id]", () => {
+  it("clears the optional fields it is not sent", async () => {
+    const response = await send(PUT, {
+      firstName: "Dana",
+      lastName: "Donor",
+      email: "dana@example.org",
+    });
+    expect(response.status).toBe(200);
+    expect(await stored()).toMatchObject({ title: null, gender: null });
+  });
+
+  it("needs an email", async () => {
+    const response = await send(PUT, { firstName: "Dana", lastName: "Donor" });
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("DELETE /api/contacts/[id]", () => {
+  it("moves the contact to the trash with its pledges", async () => {
+    const [owned] = await db
+      .insert(pledge)
+      .values({
+        contactId,
+        pledgeDate: "2025-01-01",
+        originalAmount: "100.00",
+        balance: "100.00",
+      })
+      .returning();
+
+    const response = await DELETE(
+      new NextRequest(`http://localhost/api/contacts/${contactId}`, {
+        method: "DELETE",
+      }),
+      params(contactId)
+    );
+    expect(response.status).toBe(200);
+    expect((await stored()).deletedAt).not.toBeNull();
+    const [trashed] = await db.select().from(pledge).where(eq(pledge.id, owned.id));
+    expect(trashed.deletedAt).not.toBeNull();
+
+    const again = await DELETE(
+      new NextRequest(`http://localhost/api/contacts/${contactId}`, {
+        method: "DELETE",
+      }),
+      params(contactId)
+    );
+    expect(again.status).toBe(404);
+  });
+});
@@ -1,12 +1,33 @@
-import { db } from "@/lib/db";
-import { contact, pledge, contactRoles, studentRoles } from "@/lib/db/schema";
-import { eq, sql } from "drizzle-orm";
+import { db, txDb } from "@/lib/db";
+import {
+  contact,
+  pledge,
+  contactRoles,
+  studentRoles,
+  NewContact,
+} from "@/lib/db/schema";
+import { and, eq, isNull, sql } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isSolicitorDonor, requireRole, solicitorScope } from "@/lib/auth/guard";
+import { ALL_ROLES, FINANCE_ROLES } from "@/lib/auth/roles";
+import { ErrorHandler } from "@/lib/error-handler";
+import { recordAudit } from "@/lib/audit";
+import { BonusAlreadyPaidError } from "@/lib/bonus";
+import {
+  contactFormSchema,
+  contactPatchSchema,
+} from "@/lib/form-schemas/contact";
+import { auditTrashChange, moveToTrash, TrashStateError } from "@/lib/trash";
+import { getContactChannels, saveContactChannels } from "@/lib/contact-channels";
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   const { id } = await params;
   const contactId = parseInt(id, 10);
   if (isNaN(contactId) || contactId <= 0) {
@@ -38,10 +59,14 @@ export async function GET(
         )`.as("studentRoles"),
       })
       .from(contact)
-      .where(eq(contact.id, contactId))
+      .where(and(eq(contact.id, contactId), isNull(contact.deletedAt)))
       .limit(1);
 
-    if (!contactData) {
+    const scopedSolicitorId = solicitorScope(auth.user);
+    if (
+      !contactData ||
+      (scopedSolicitorId && !(await isSolicitorDonor(scopedSolicitorId, contactId)))
+    ) {
       return NextResponse.json({ error: "Contact not found" }, { status: 404 });
     }
 
@@ -52,7 +77,7 @@ export async function GET(
         currentBalanceUsd: sql<number>`COALESCE(SUM(${pledge.balanceUsd}), 0)`,
       })
       .from(pledge)
-      .where(eq(pledge.contactId, contactId));
+      .where(and(eq(pledge.contactId, contactId), isNull(pledge.deletedAt)));
 
     const [roleCounts] = await db
       .select({
@@ -63,9 +88,12 @@ export async function GET(
       .where(eq(contactRoles.contactId, contactId))
       .fullJoin(studentRoles, eq(studentRoles.contactId, contactId));
 
+    const channels = await getContactChannels([contactData.contact]);
+
     const responseData = {
       contact: {
         ...contactData.contact,
+        ...channels.get(contactId),
         contactRoles: contactData.contactRoles,
         studentRoles: contactData.studentRoles,
       },
@@ -84,7 +112,8 @@ export async function GET(
 
     return NextResponse.json(responseData, {
       status: 200,
-      headers: { "Cache-Control": "public, max-age=300" },
+      // Contacts can be edited, so always revalidate
+      headers: { "Cache-Control": "private, no-cache" },
     });
   } catch (error) {
     console.error("Failed to fetch contact", {
@@ -98,3 +127,152 @@ export async function GET(
     );
   }
 }
+
+// PUT sends the whole form, so optional fields it leaves out are cleared;
+// PATCH changes only the fields it sends.
+async function updateContact(
+  request: NextRequest,
+  params: Promise<{ id: string }>,
+  schema: typeof contactFormSchema | typeof contactPatchSchema,
+  replace: boolean
+) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const contactId = parseInt(id, 10);
+  if (isNaN(contactId) || contactId <= 0) {
+    return NextResponse.json({ error: "Invalid contact ID" }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json();
+    const validatedData: z.infer<typeof contactPatchSchema> =
+      schema.parse(body);
+
+    const [existing] = await db
+      .select()
+      .from(contact)
+      .where(and(eq(contact.id, contactId), isNull(contact.deletedAt)))
+      .limit(1);
+    if (!existing) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+    }
+
+    const {
+      email,
+      phone,
+      address,
+      emails,
+      phones,
+      addresses,
+      ...details
+    } = validatedData;
+
+    const updateData: Partial<NewContact> = { ...details };
+    if (replace) {
+      updateData.title = details.title ?? null;
+      updateData.gender = details.gender ?? null;
+      updateData.preferredCurrency = details.preferredCurrency ?? null;
+    }
+
+    const updated = await txDb.transaction(async (tx) => {
+      const [row] = await tx
+        .update(contact)
+        .set({ ...updateData, updatedAt: new Date() })
+        .where(eq(contact.id, contactId))
+        .returning();
+      const withChannels = await saveContactChannels(
+        contactId,
+        {
+          email,
+          phone: replace ? (phone ?? null) : phone,
+          address: replace ? (address ?? null) : address,
+          emails,
+          phones,
+          addresses,
+        },
+        tx
+      );
+      return withChannels ?? row;
+    });
+
+    await recordAudit(auth.user, {
+      table: contact,
+      recordId: contactId,
+      action: "update",
+      before: existing,
+      after: updated,
+      contactId,
+    });
+
+    return NextResponse.json({
+      message: "Contact updated successfully",
+      contact: updated,
+    });
+  } catch (error) {
+    // A taken email comes back as DUPLICATE_EMAIL (409)
+    return ErrorHandler.handle(error);
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return updateContact(request, params, contactFormSchema, true);
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return updateContact(request, params, contactPatchSchema, false);
+}
+
+// Moves the contact to the trash along with its pledges, payment plans and
+// payments; they come back together if it is restored.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const contactId = parseInt(id, 10);
+  if (isNaN(contactId) || contactId <= 0) {
+    return NextResponse.json({ error: "Invalid contact ID" }, { status: 400 });
+  }
+
+  try {
+    const [existing] = await db
+      .select({ deletedAt: contact.deletedAt })
+      .from(contact)
+      .where(eq(contact.id, contactId))
+      .limit(1);
+    if (!existing || existing.deletedAt) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+    }
+
+    const change = await txDb.transaction((tx) =>
+      moveToTrash("contact", contactId, auth.user.id, tx)
+    );
+    await auditTrashChange(auth.user, change);
+
+    return NextResponse.json({
+      success: true,
+      message: "Contact moved to the trash",
+      deletedContactId: contactId,
+    });
+  } catch (error) {
+    if (
+      error instanceof TrashStateError ||
+      error instanceof BonusAlreadyPaidError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error deleting contact:", error);
+    return ErrorHandler.handle(error);
+  }
+}
@@ -1,12 +1,18 @@
 import { db } from "@/lib/db";
 import { solicitor, contact } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
+import { and, eq, isNull } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { ADMIN_ROLES, ALL_ROLES } from "@/lib/auth/roles";
+import { recordAudit } from "@/lib/audit";
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   const { id } = await params;
   const contactId = parseInt(id, 10);
 
@@ -18,7 +24,7 @@ export async function GET(
     const contactExists = await db
       .select({ id: contact.id })
       .from(contact)
-      .where(eq(contact.id, contactId))
+      .where(and(eq(contact.id, contactId), isNull(contact.deletedAt)))
       .limit(1);
 
     if (contactExists.length === 0) {
@@ -70,6 +76,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
   const { id } = await params;
   const contactId = parseInt(id, 10);
 
@@ -110,7 +119,7 @@ export async function POST(
     const contactExists = await db
       .select({ id: contact.id })
       .from(contact)
-      .where(eq(contact.id, contactId))
+      .where(and(eq(contact.id, contactId), isNull(contact.deletedAt)))
       .limit(1);
 
     if (contactExists.length === 0) {
@@ -196,6 +205,14 @@ export async function POST(
       .where(eq(solicitor.id, newSolicitor[0].id))
       .limit(1);
 
+    await recordAudit(auth.user, {
+      table: solicitor,
+      recordId: newSolicitor[0].id,
+      action: "create",
+      after: newSolicitor[0],
+      contactId,
+    });
+
     return NextResponse.json(
       {
         message: "Solicitor created successfully",
@@ -216,6 +233,9 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
   const { id } = await params;
   const contactId = parseInt(id, 10);
 
@@ -254,7 +274,7 @@ export async function PUT(
 
     // Check if solicitor exists for this contact
     const existingSolicitor = await db
-      .select({ id: solicitor.id })
+      .select()
       .from(solicitor)
       .where(eq(solicitor.contactId, contactId))
       .limit(1);
@@ -334,6 +354,15 @@ export async function PUT(
       .where(eq(solicitor.id, updatedSolicitor[0].id))
       .limit(1);
 
+    await recordAudit(auth.user, {
+      table: solicitor,
+      recordId: updatedSolicitor[0].id,
+      action: "update",
+      before: existingSolicitor[0],
+      after: updatedSolicitor[0],
+      contactId,
+    });
+
     return NextResponse.json({
       message: "Solicitor updated successfully",
       solicitor: solicitorWithContact[0],
@@ -351,6 +380,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
   const { id } = await params;
   const contactId = parseInt(id, 10);
 
@@ -361,7 +393,7 @@ export async function DELETE(
   try {
     // Check if solicitor exists for this contact
     const existingSolicitor = await db
-      .select({ id: solicitor.id })
+      .select()
       .from(solicitor)
       .where(eq(solicitor.contactId, contactId))
       .limit(1);
@@ -376,6 +408,14 @@ export async function DELETE(
     // Delete solicitor (this will cascade delete bonus rules and calculations)
     await db.delete(solicitor).where(eq(solicitor.contactId, contactId));
 
+    await recordAudit(auth.user, {
+      table: solicitor,
+      recordId: existingSolicitor[0].id,
+      action: "delete",
+      before: existingSolicitor[0],
+      contactId,
+    });
+
     return NextResponse.json({
       message: "Solicitor deleted successfully",
     });
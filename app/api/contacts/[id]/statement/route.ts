@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { STAFF_READ_ROLES } from "@/lib/auth/roles";
+import { statementQuerySchema } from "@/lib/form-schemas/statement";
+import {
+  getGivingStatement,
+  givingStatementCsv,
+  renderGivingStatementsPdf,
+  statementPeriod,
+} from "@/lib/statements";
+
+// The contact's year-end giving statement for `year` (default: last year) on a
+// `calendar` or `fiscal` basis, in their preferred currency unless `currency`
+// is given. A PDF by default; `format=csv` or `format=json` otherwise.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(STAFF_READ_ROLES);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const contactId = parseInt(id, 10);
+  const parsed = statementQuerySchema.safeParse(
+    Object.fromEntries(new URL(request.url).searchParams)
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid statement parameters",
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  const { year, basis, currency, format } = parsed.data;
+  try {
+    const statement = await getGivingStatement(
+      contactId,
+      statementPeriod(year, basis),
+      { currency }
+    );
+    if (!statement) {
+      return NextResponse.json({ error: "Contact not found" }, { status: 404 });
+    }
+
+    if (format === "json") {
+      return NextResponse.json({ statement });
+    }
+
+    const filename = `statement-${year}${basis === "fiscal" ? "-fiscal" : ""}-${contactId}`;
+    if (format === "csv") {
+      return new NextResponse(givingStatementCsv(statement), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}.csv"`,
+        },
+      });
+    }
+
+    const pdf = renderGivingStatementsPdf([statement]);
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${filename}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error building giving statement:", error);
+    return NextResponse.json(
+      { error: "Failed to build giving statement" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { STAFF_READ_ROLES } from "@/lib/auth/roles";
+import { DEFAULT_MIN_SCORE, findDuplicates } from "@/lib/duplicates";
+
+// Likely duplicate contacts, best match first. `contactId` narrows the list
+// to one contact's matches; `minScore` (0-100) and `limit` tune it.
+export async function GET(request: NextRequest) {
+  const auth = await requireRole(STAFF_READ_ROLES);
+  if (auth.response) return auth.response;
+
+  const { searchParams } = new URL(request.url);
+  const contactId = searchParams.get("contactId");
+  const minScore = parseInt(
+    searchParams.get("minScore") ?? String(DEFAULT_MIN_SCORE),
+    10
+  );
+  const limit = parseInt(searchParams.get("limit") ?? "100", 10);
+
+  if (contactId !== null && !(parseInt(contactId, 10) > 0)) {
+    return NextResponse.json({ error: "Invalid contactId" }, { status: 400 });
+  }
+  if (isNaN(minScore) || minScore < 0 || minScore > 100) {
+    return NextResponse.json(
+      { error: "minScore must be between 0 and 100" },
+      { status: 400 }
+    );
+  }
+  if (isNaN(limit) || limit <= 0 || limit > 500) {
+    return NextResponse.json(
+      { error: "limit must be between 1 and 500" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const duplicates = await findDuplicates({
+      contactId: contactId ? parseInt(contactId, 10) : undefined,
+      minScore,
+      limit,
+    });
+    return NextResponse.json({ duplicates });
+  } catch (error) {
+    console.error("Error finding duplicate contacts:", error);
+    return NextResponse.json(
+      { error: "Failed to find duplicate contacts" },
+      { status: 500 }
+    );
+  }
+}
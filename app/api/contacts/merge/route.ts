@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES, STAFF_READ_ROLES } from "@/lib/auth/roles";
+import {
+  auditContactMerge,
+  ContactMergeStateError,
+  listContactMerges,
+  mergeContacts,
+} from "@/lib/contact-merge";
+import { contactMergeSchema } from "@/lib/form-schemas/contact-merge";
+
+// Past merges, newest first. `contactId` narrows them to the merges into
+// that contact.
+export async function GET(request: NextRequest) {
+  const auth = await requireRole(STAFF_READ_ROLES);
+  if (auth.response) return auth.response;
+
+  const contactIdParam = new URL(request.url).searchParams.get("contactId");
+  const contactId = contactIdParam ? parseInt(contactIdParam, 10) : undefined;
+  if (contactId !== undefined && !(contactId > 0)) {
+    return NextResponse.json({ error: "Invalid contactId" }, { status: 400 });
+  }
+
+  try {
+    const merges = await listContactMerges(contactId);
+    return NextResponse.json({ merges });
+  } catch (error) {
+    console.error("Error fetching contact merges:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch contact merges" },
+      { status: 500 }
+    );
+  }
+}
+
+// Merges one contact into another. Everything linked to the merged contact
+// moves to the survivor and the merged contact is deleted.
+export async function POST(request: NextRequest) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json();
+    const parsed = contactMergeSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid merge",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { survivorId, mergedContactId, take } = parsed.data;
+    const result = await txDb.transaction((tx) =>
+      mergeContacts(survivorId, mergedContactId, { take }, auth.user.id, tx)
+    );
+
+    await auditContactMerge(auth.user, result);
+
+    return NextResponse.json(
+      {
+        contact: result.survivor,
+        merge: result.record,
+        movedRecords: result.movedRecords,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ContactMergeStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error merging contacts:", error);
+    return NextResponse.json(
+      { error: "Failed to merge contacts" },
+      { status: 500 }
+    );
+  }
+}
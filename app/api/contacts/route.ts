@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/lib/db";
-import { eq, sql, desc, asc, like, or, ilike } from "drizzle-orm";
+import { db, txDb } from "@/lib/db";
+import { and, eq, sql, desc, asc, like, or, ilike, isNull } from "drizzle-orm";
 import type {
   Column,
   ColumnBaseConfig,
@@ -17,7 +17,19 @@ import {
 } from "@/lib/db/schema";
 import { z } from "zod";
 import { contactFormSchema } from "@/lib/form-schemas/contact";
-import { ErrorHandler } from "@/lib/error-handler";
+import { ApiError, ErrorHandler } from "@/lib/error-handler";
+import { findMatchesFor } from "@/lib/duplicates";
+import {
+  channelSearchCondition,
+  primaryChannels,
+  saveContactChannels,
+} from "@/lib/contact-channels";
+import {
+  requireRole,
+  solicitorDonorCondition,
+  solicitorScope,
+} from "@/lib/auth/guard";
+import { ALL_ROLES, FINANCE_ROLES } from "@/lib/auth/roles";
 
 interface ContactResponse {
   id: number;
@@ -50,6 +62,9 @@ const querySchema = z.object({
 });
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const parsedParams = querySchema.safeParse({
@@ -99,22 +114,36 @@ export async function GET(request: NextRequest) {
       ),
     };
 
-    const whereClause = search
-      ? or(
-          ilike(contact.firstName, `%${search}%`),
-          ilike(contact.lastName, `%${search}%`),
-          ilike(contact.email, `%${search}%`),
-          like(contact.phone, `%${search}%`)
-        )
-      : undefined;
+    const scopedSolicitorId = solicitorScope(auth.user);
+    const whereClause = and(
+      isNull(contact.deletedAt),
+      scopedSolicitorId
+        ? solicitorDonorCondition(scopedSolicitorId, contact.id)
+        : undefined,
+      search
+        ? or(
+            ilike(contact.firstName, `%${search}%`),
+            ilike(contact.lastName, `%${search}%`),
+            ilike(contact.email, `%${search}%`),
+            like(contact.phone, `%${search}%`),
+            channelSearchCondition(`%${search}%`)
+          )
+        : undefined
+    );
 
     const query = db
       .select(selectedFields)
       .from(contact)
-      .leftJoin(pledge, eq(contact.id, pledge.contactId))
+      .leftJoin(
+        pledge,
+        and(eq(contact.id, pledge.contactId), isNull(pledge.deletedAt))
+      )
       .leftJoin(studentRoles, eq(contact.id, studentRoles.contactId))
       .leftJoin(contactRoles, eq(contact.id, contactRoles.contactId))
-      .leftJoin(payment, eq(pledge.id, payment.pledgeId))
+      .leftJoin(
+        payment,
+        and(eq(pledge.id, payment.pledgeId), isNull(payment.deletedAt))
+      )
       .where(whereClause)
       .groupBy(
         contact.id,
@@ -198,25 +227,65 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: Request) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
     const validatedData = contactFormSchema.parse(body);
+    const {
+      email,
+      phone,
+      address,
+      emails,
+      phones,
+      addresses,
+      ...details
+    } = validatedData;
+    const channels = { email, phone, address, emails, phones, addresses };
+    const primary = primaryChannels(channels);
+
+    // Warn about likely duplicates unless the user has seen them and chosen
+    // to create the contact anyway
+    if (body.allowDuplicate !== true) {
+      const matches = await findMatchesFor({
+        firstName: details.firstName,
+        lastName: details.lastName,
+        ...primary,
+      });
+      if (matches.length > 0) {
+        return NextResponse.json(
+          {
+            message: "This contact may already exist",
+            type: "POSSIBLE_DUPLICATE",
+            duplicates: matches.map(({ contact, score, reasons }) => ({
+              ...contact,
+              score,
+              reasons,
+            })),
+          } as ApiError,
+          { status: 409 }
+        );
+      }
+    }
+
     const newContact: NewContact = {
-      firstName: validatedData.firstName,
-      lastName: validatedData.lastName,
-      email: validatedData.email,
-      phone: validatedData.phone,
-      title: validatedData.title,
-      gender: validatedData.gender,
-      address: validatedData.address,
+      firstName: details.firstName,
+      lastName: details.lastName,
+      title: details.title,
+      gender: details.gender,
+      preferredCurrency: details.preferredCurrency,
     };
 
-    const result = await db.insert(contact).values(newContact).returning();
+    const created = await txDb.transaction(async (tx) => {
+      const [row] = await tx.insert(contact).values(newContact).returning();
+      return (await saveContactChannels(row.id, channels, tx)) ?? row;
+    });
 
     return NextResponse.json(
       {
         message: "Contact created successfully",
-        contact: result[0],
+        contact: created,
       },
       { status: 201 }
     );
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireApiKey } from "@/lib/auth/guard";
+import { runInstallmentEngine } from "@/lib/installments";
+
+// Daily job (see vercel.json) that advances payment plans. Authenticates with
+// CRON_SECRET, which Vercel Cron sends as a bearer token. Optional `asOf`
+// (YYYY-MM-DD), `paymentPlanId` and `dryRun=true` query parameters.
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireApiKey("CRON_SECRET");
+  if (unauthorized) return unauthorized;
+
+  const { searchParams } = new URL(request.url);
+  const asOf = searchParams.get("asOf") ?? undefined;
+  const paymentPlanId = searchParams.get("paymentPlanId");
+
+  if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+    return NextResponse.json(
+      { error: "asOf must be in YYYY-MM-DD format" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await runInstallmentEngine({
+      asOf,
+      paymentPlanId: paymentPlanId ? parseInt(paymentPlanId, 10) : undefined,
+      dryRun: searchParams.get("dryRun") === "true",
+    });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error running installment engine:", error);
+    return NextResponse.json(
+      { error: "Failed to run installment engine" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireApiKey } from "@/lib/auth/guard";
+import { sendPaymentReminders } from "@/lib/reminders";
+
+// Daily job (see vercel.json) that sends donor payment reminders.
+// Authenticates with CRON_SECRET. Optional `asOf` (YYYY-MM-DD),
+// `paymentPlanId` and `dryRun=true` query parameters; a dry run returns the
+// rendered messages without sending them.
+export async function GET(request: NextRequest) {
+  const unauthorized = await requireApiKey("CRON_SECRET");
+  if (unauthorized) return unauthorized;
+
+  const { searchParams } = new URL(request.url);
+  const asOf = searchParams.get("asOf") ?? undefined;
+  const paymentPlanId = searchParams.get("paymentPlanId");
+
+  if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+    return NextResponse.json(
+      { error: "asOf must be in YYYY-MM-DD format" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await sendPaymentReminders({
+      asOf,
+      paymentPlanId: paymentPlanId ? parseInt(paymentPlanId, 10) : undefined,
+      dryRun: searchParams.get("dryRun") === "true",
+    });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error sending payment reminders:", error);
+    return NextResponse.json(
+      { error: "Failed to send payment reminders" },
+      { status: 500 }
+    );
+  }
+}
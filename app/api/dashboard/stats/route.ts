@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { sql } from "drizzle-orm";
+import { isNull, sql } from "drizzle-orm";
 import { solicitor, payment, bonusCalculation } from "@/lib/db/schema";
+import { requireRole } from "@/lib/auth/guard";
+import { STAFF_READ_ROLES } from "@/lib/auth/roles";
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole(STAFF_READ_ROLES);
+  if (auth.response) return auth.response;
+
   console.log(request);
   try {
     const solicitorStats = await db
@@ -21,7 +26,8 @@ export async function GET(request: NextRequest) {
         totalAmount: sql<number>`COALESCE(SUM(${payment.amountUsd}), 0)`,
         assignedAmount: sql<number>`COALESCE(SUM(${payment.amountUsd}) FILTER (WHERE ${payment.solicitorId} IS NOT NULL), 0)`,
       })
-      .from(payment);
+      .from(payment)
+      .where(isNull(payment.deletedAt));
 
     const bonusStats = await db
       .select({
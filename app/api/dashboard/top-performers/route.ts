@@ -1,9 +1,14 @@
 import { db } from "@/lib/db";
 import { payment, solicitor, contact } from "@/lib/db/schema";
-import { sql, eq, and } from "drizzle-orm";
+import { sql, eq, and, isNull } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { STAFF_READ_ROLES } from "@/lib/auth/roles";
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole(STAFF_READ_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get("limit") || "10");
@@ -58,7 +63,10 @@ export async function GET(request: NextRequest) {
       })
       .from(solicitor)
       .innerJoin(contact, eq(solicitor.contactId, contact.id))
-      .leftJoin(payment, eq(payment.solicitorId, solicitor.id))
+      .leftJoin(
+        payment,
+        and(eq(payment.solicitorId, solicitor.id), isNull(payment.deletedAt))
+      )
       .where(and(eq(solicitor.status, "active"), dateCondition))
       .groupBy(
         solicitor.id,
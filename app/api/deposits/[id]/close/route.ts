@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import {
+  auditBatchChange,
+  closeDepositBatch,
+  DepositStateError,
+  getDepositBatch,
+} from "@/lib/deposits";
+
+// Closes a deposit once every line is confirmed or ignored.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const batchId = parseInt((await params).id, 10);
+  if (!(batchId > 0)) {
+    return NextResponse.json({ error: "Invalid deposit ID" }, { status: 400 });
+  }
+
+  try {
+    const change = await txDb.transaction((tx) =>
+      closeDepositBatch(batchId, auth.user.id, tx)
+    );
+    if (!change) {
+      return NextResponse.json({ error: "Deposit not found" }, { status: 404 });
+    }
+
+    await auditBatchChange(auth.user, change);
+    return NextResponse.json({ deposit: await getDepositBatch(batchId) });
+  } catch (error) {
+    if (error instanceof DepositStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error closing deposit:", error);
+    return NextResponse.json(
+      { error: "Failed to close deposit" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import {
+  auditReconciliations,
+  confirmSuggested,
+  DepositStateError,
+  getDepositBatch,
+} from "@/lib/deposits";
+
+// Confirms every suggested match of the deposit at once.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const batchId = parseInt((await params).id, 10);
+  if (!(batchId > 0)) {
+    return NextResponse.json({ error: "Invalid deposit ID" }, { status: 400 });
+  }
+
+  try {
+    const changes = await txDb.transaction((tx) =>
+      confirmSuggested(batchId, auth.user.id, tx)
+    );
+    if (!changes) {
+      return NextResponse.json({ error: "Deposit not found" }, { status: 404 });
+    }
+
+    await auditReconciliations(
+      auth.user,
+      changes.flatMap((change) => change.reconciliations)
+    );
+    return NextResponse.json({ deposit: await getDepositBatch(batchId) });
+  } catch (error) {
+    if (error instanceof DepositStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error confirming deposit matches:", error);
+    return NextResponse.json(
+      { error: "Failed to confirm deposit matches" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import { BonusAlreadyPaidError } from "@/lib/bonus";
+import { DepositStateError, getDepositBatch } from "@/lib/deposits";
+import { auditEntryRemoval, removeDepositEntry } from "@/lib/deposits/entry";
+import { TrashStateError } from "@/lib/trash";
+
+// Removes an entry keyed in by mistake; its payment goes to the trash.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; lineId: string }> }
+) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const { id, lineId } = await params;
+  const batchId = parseInt(id, 10);
+  const depositLineId = parseInt(lineId, 10);
+  if (!(batchId > 0) || !(depositLineId > 0)) {
+    return NextResponse.json({ error: "Invalid entry ID" }, { status: 400 });
+  }
+
+  try {
+    const removal = await txDb.transaction((tx) =>
+      removeDepositEntry(batchId, depositLineId, auth.user.id, tx)
+    );
+    if (!removal) {
+      return NextResponse.json({ error: "Entry not found" }, { status: 404 });
+    }
+
+    await auditEntryRemoval(auth.user, removal);
+    return NextResponse.json({ deposit: await getDepositBatch(batchId) });
+  } catch (error) {
+    if (
+      error instanceof DepositStateError ||
+      error instanceof TrashStateError ||
+      error instanceof BonusAlreadyPaidError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error removing deposit entry:", error);
+    return NextResponse.json(
+      { error: "Failed to remove deposit entry" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import { BonusAlreadyPaidError } from "@/lib/bonus";
+import { DepositStateError, getDepositBatch } from "@/lib/deposits";
+import { addDepositEntry, auditEntry } from "@/lib/deposits/entry";
+import { depositEntrySchema } from "@/lib/form-schemas/deposit";
+
+// Keys in one check or cash payment on a pledge. The payment is recorded as
+// completed and already reconciled in the deposit.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const batchId = parseInt((await params).id, 10);
+  if (!(batchId > 0)) {
+    return NextResponse.json({ error: "Invalid deposit ID" }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json();
+    const parsed = depositEntrySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid entry",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const change = await txDb.transaction((tx) =>
+      addDepositEntry(batchId, parsed.data, auth.user.id, tx)
+    );
+    if (!change) {
+      return NextResponse.json({ error: "Deposit not found" }, { status: 404 });
+    }
+
+    await auditEntry(auth.user, change);
+    return NextResponse.json(
+      { deposit: await getDepositBatch(batchId) },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (
+      error instanceof DepositStateError ||
+      error instanceof BonusAlreadyPaidError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error adding deposit entry:", error);
+    return NextResponse.json(
+      { error: "Failed to add deposit entry" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import {
+  auditReconciliations,
+  confirmLine,
+  DepositStateError,
+  getDepositBatch,
+  resetLine,
+} from "@/lib/deposits";
+import { depositLineActionSchema } from "@/lib/form-schemas/deposit";
+
+// Confirms a line's match (its suggested payment, or `paymentId`), clears
+// it with `unmatch`, or marks the line `ignore`d.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; lineId: string }> }
+) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const { id, lineId } = await params;
+  const batchId = parseInt(id, 10);
+  const depositLineId = parseInt(lineId, 10);
+  if (!(batchId > 0) || !(depositLineId > 0)) {
+    return NextResponse.json({ error: "Invalid line ID" }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json();
+    const parsed = depositLineActionSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid line action",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const action = parsed.data;
+    const change = await txDb.transaction((tx) =>
+      action.action === "confirm"
+        ? confirmLine(batchId, depositLineId, action.paymentId, auth.user.id, tx)
+        : resetLine(
+            batchId,
+            depositLineId,
+            action.action === "ignore" ? "ignored" : "unmatched",
+            tx
+          )
+    );
+    if (!change) {
+      return NextResponse.json({ error: "Line not found" }, { status: 404 });
+    }
+
+    await auditReconciliations(auth.user, change.reconciliations);
+    return NextResponse.json({ deposit: await getDepositBatch(batchId) });
+  } catch (error) {
+    if (error instanceof DepositStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error updating deposit line:", error);
+    return NextResponse.json(
+      { error: "Failed to update deposit line" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import { getDepositBatch, suggestMatches } from "@/lib/deposits";
+
+// Looks again for payments for the unmatched lines, e.g. after recording
+// payments that were missing.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const batchId = parseInt((await params).id, 10);
+  if (!(batchId > 0)) {
+    return NextResponse.json({ error: "Invalid deposit ID" }, { status: 400 });
+  }
+
+  try {
+    const matched = await suggestMatches(batchId);
+    const deposit = await getDepositBatch(batchId);
+    if (!deposit) {
+      return NextResponse.json({ error: "Deposit not found" }, { status: 404 });
+    }
+    return NextResponse.json({ matched, deposit });
+  } catch (error) {
+    console.error("Error matching deposit lines:", error);
+    return NextResponse.json(
+      { error: "Failed to match deposit lines" },
+      { status: 500 }
+    );
+  }
+}
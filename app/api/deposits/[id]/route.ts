@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES, STAFF_READ_ROLES } from "@/lib/auth/roles";
+import {
+  auditBatchChange,
+  deleteDepositBatch,
+  DepositStateError,
+  getDepositBatch,
+  updateDepositBatch,
+} from "@/lib/deposits";
+import { depositBatchUpdateSchema } from "@/lib/form-schemas/deposit";
+
+type Params = { params: Promise<{ id: string }> };
+
+async function depositId(params: Params["params"]) {
+  const id = parseInt((await params).id, 10);
+  return id > 0 ? id : null;
+}
+
+// A deposit with its lines, their matched payments, and the processor's
+// payments that no line matched.
+export async function GET(request: NextRequest, { params }: Params) {
+  const auth = await requireRole(STAFF_READ_ROLES);
+  if (auth.response) return auth.response;
+
+  const id = await depositId(params);
+  if (!id) {
+    return NextResponse.json({ error: "Invalid deposit ID" }, { status: 400 });
+  }
+
+  try {
+    const deposit = await getDepositBatch(id);
+    if (!deposit) {
+      return NextResponse.json({ error: "Deposit not found" }, { status: 404 });
+    }
+    return NextResponse.json({ deposit });
+  } catch (error) {
+    console.error("Error fetching deposit:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch deposit" },
+      { status: 500 }
+    );
+  }
+}
+
+// Updates an open deposit's notes, or the expected total and count of a
+// check and cash deposit.
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const id = await depositId(params);
+  if (!id) {
+    return NextResponse.json({ error: "Invalid deposit ID" }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json();
+    const parsed = depositBatchUpdateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid deposit",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const change = await txDb.transaction((tx) =>
+      updateDepositBatch(id, parsed.data, tx)
+    );
+    if (!change) {
+      return NextResponse.json({ error: "Deposit not found" }, { status: 404 });
+    }
+    await auditBatchChange(auth.user, change);
+    return NextResponse.json({ deposit: await getDepositBatch(id) });
+  } catch (error) {
+    if (error instanceof DepositStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error updating deposit:", error);
+    return NextResponse.json(
+      { error: "Failed to update deposit" },
+      { status: 500 }
+    );
+  }
+}
+
+// Deletes an open deposit; its confirmed payments are no longer reconciled.
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const id = await depositId(params);
+  if (!id) {
+    return NextResponse.json({ error: "Invalid deposit ID" }, { status: 400 });
+  }
+
+  try {
+    const change = await txDb.transaction((tx) => deleteDepositBatch(id, tx));
+    if (!change) {
+      return NextResponse.json({ error: "Deposit not found" }, { status: 404 });
+    }
+    await auditBatchChange(auth.user, change);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof DepositStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error deleting deposit:", error);
+    return NextResponse.json(
+      { error: "Failed to delete deposit" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { STAFF_READ_ROLES } from "@/lib/auth/roles";
+import { getDepositBatch } from "@/lib/deposits";
+import { renderDepositSlipPdf } from "@/lib/deposits/slip";
+
+// The deposit slip summary as a PDF, to print and take to the bank.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(STAFF_READ_ROLES);
+  if (auth.response) return auth.response;
+
+  const batchId = parseInt((await params).id, 10);
+  if (!(batchId > 0)) {
+    return NextResponse.json({ error: "Invalid deposit ID" }, { status: 400 });
+  }
+
+  try {
+    const deposit = await getDepositBatch(batchId);
+    if (!deposit) {
+      return NextResponse.json({ error: "Deposit not found" }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(renderDepositSlipPdf(deposit)), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="deposit-${deposit.id}-${deposit.depositDate}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error rendering deposit slip:", error);
+    return NextResponse.json(
+      { error: "Failed to render deposit slip" },
+      { status: 500 }
+    );
+  }
+}
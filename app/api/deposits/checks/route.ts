@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { depositBatch } from "@/lib/db/schema";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import { recordAudit } from "@/lib/audit";
+import { getDepositBatch } from "@/lib/deposits";
+import { createEntryBatch } from "@/lib/deposits/entry";
+import { depositEntryBatchSchema } from "@/lib/form-schemas/deposit";
+
+// Opens a deposit of checks and cash to key in, optionally with the total
+// and count of the stack as added up beforehand.
+export async function POST(request: NextRequest) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json();
+    const parsed = depositEntryBatchSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid deposit",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const batch = await txDb.transaction((tx) =>
+      createEntryBatch(parsed.data, auth.user.id, tx)
+    );
+    await recordAudit(auth.user, {
+      table: depositBatch,
+      recordId: batch.id,
+      action: "create",
+      after: batch,
+      contactId: null,
+    });
+
+    return NextResponse.json(
+      { deposit: await getDepositBatch(batch.id) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating deposit:", error);
+    return NextResponse.json(
+      { error: "Failed to create deposit" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { depositBatch } from "@/lib/db/schema";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES, STAFF_READ_ROLES, hasRole } from "@/lib/auth/roles";
+import { recordAudit } from "@/lib/audit";
+import {
+  createDepositBatch,
+  DepositStateError,
+  getDepositBatch,
+  listDepositBatches,
+  readDepositLines,
+} from "@/lib/deposits";
+import { readSheet, SheetError } from "@/lib/imports/sheet";
+import { depositUploadSchema } from "@/lib/form-schemas/deposit";
+
+// Deposits, newest first, with how many of their lines are matched.
+export async function GET() {
+  const auth = await requireRole(STAFF_READ_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    return NextResponse.json({ deposits: await listDepositBatches() });
+  } catch (error) {
+    console.error("Error fetching deposits:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch deposits" },
+      { status: 500 }
+    );
+  }
+}
+
+// Creates a deposit from a processor payout or bank statement file (CSV or
+// XLSX, multipart `file`) and suggests a payment for each of its lines.
+// With `dryRun=true` the lines are only read and returned.
+export async function POST(request: NextRequest) {
+  const auth = await requireRole(STAFF_READ_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const form = await request.formData();
+    const file = form.get("file");
+    const parsed = depositUploadSchema.safeParse({
+      source: form.get("source") ?? undefined,
+      depositDate: form.get("depositDate") ?? undefined,
+      currency: form.get("currency") ?? undefined,
+      notes: form.get("notes") ?? undefined,
+      columnMap: form.get("columnMap") ?? undefined,
+      dryRun: form.get("dryRun") ?? undefined,
+    });
+
+    if (!parsed.success || !(file instanceof File)) {
+      return NextResponse.json(
+        {
+          error: "Invalid deposit",
+          details: [
+            ...(file instanceof File
+              ? []
+              : [{ field: "file", message: "Choose a CSV or XLSX file" }]),
+            ...(parsed.success
+              ? []
+              : parsed.error.issues.map((issue) => ({
+                  field: issue.path.join("."),
+                  message: issue.message,
+                }))),
+          ],
+        },
+        { status: 400 }
+      );
+    }
+
+    const { columnMap: givenMap, dryRun, ...values } = parsed.data;
+    // Read-only staff may preview a deposit file but not create one
+    if (!dryRun && !hasRole(auth.user.role, FINANCE_ROLES)) {
+      return NextResponse.json(
+        { error: "You do not have permission to perform this action" },
+        { status: 403 }
+      );
+    }
+
+    const sheet = readSheet(await file.arrayBuffer());
+    const { columnMap, lines } = readDepositLines(sheet, givenMap);
+
+    if (dryRun) {
+      return NextResponse.json({
+        preview: { headers: sheet.headers, columnMap, lines },
+      });
+    }
+
+    const invalid = lines.filter((line) => line.errors.length > 0);
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Invalid deposit",
+          details: invalid.map((line) => ({
+            field: `row ${line.rowNumber}`,
+            message: line.errors.join("; "),
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const batch = await txDb.transaction((tx) =>
+      createDepositBatch(
+        { ...values, fileName: file.name },
+        lines.map((line) => ({ ...line, amount: line.amount! })),
+        auth.user.id,
+        tx
+      )
+    );
+    await recordAudit(auth.user, {
+      table: depositBatch,
+      recordId: batch.id,
+      action: "create",
+      after: batch,
+      contactId: null,
+    });
+
+    return NextResponse.json(
+      { deposit: await getDepositBatch(batch.id) },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof SheetError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof DepositStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error creating deposit:", error);
+    return NextResponse.json(
+      { error: "Failed to create deposit" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireRole } from "@/lib/auth/guard";
+import { ALL_ROLES } from "@/lib/auth/roles";
+import {
+  ExchangeRateProviderError,
+  getRatesForDate,
+} from "@/lib/exchange-rates";
+
+const querySchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional(),
+});
+
+export async function GET(request: NextRequest) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
+  const { searchParams } = new URL(request.url);
+  const parsedParams = querySchema.safeParse({
+    date: searchParams.get("date") ?? undefined,
+  });
+
+  if (!parsedParams.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid query parameters",
+        details: parsedParams.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { date, source, rates } = await getRatesForDate(
+      parsedParams.data.date
+    );
+
+    return NextResponse.json({ base: "USD", date, source, rates });
+  } catch (error) {
+    console.error("Error fetching exchange rates:", error);
+    if (error instanceof ExchangeRateProviderError) {
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
+    return NextResponse.json(
+      { error: "Failed to fetch exchange rates" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import {
+  auditCredit,
+  creditPayment,
+  HouseholdStateError,
+  uncreditPayment,
+} from "@/lib/households";
+import { householdCreditSchema } from "@/lib/form-schemas/household";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Credits a payment to the household and shares it among members. Posting
+// a payment that is already credited replaces its shares.
+export async function POST(request: NextRequest, { params }: Params) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const householdId = parseInt((await params).id, 10);
+  if (!(householdId > 0)) {
+    return NextResponse.json({ error: "Invalid household ID" }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json();
+    const parsed = householdCreditSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid credit",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await txDb.transaction((tx) =>
+      creditPayment(householdId, parsed.data, tx)
+    );
+    if (!result) {
+      return NextResponse.json(
+        { error: "Household not found" },
+        { status: 404 }
+      );
+    }
+    await auditCredit(auth.user, result);
+
+    return NextResponse.json({
+      payment: result.payment,
+      attributions: result.attributions,
+    });
+  } catch (error) {
+    if (error instanceof HouseholdStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error crediting payment to household:", error);
+    return NextResponse.json(
+      { error: "Failed to credit payment" },
+      { status: 500 }
+    );
+  }
+}
+
+// Takes the payment given by `paymentId` off the household.
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const householdId = parseInt((await params).id, 10);
+  const paymentId = parseInt(
+    new URL(request.url).searchParams.get("paymentId") ?? "",
+    10
+  );
+  if (!(householdId > 0) || !(paymentId > 0)) {
+    return NextResponse.json(
+      { error: "Invalid household or payment ID" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await txDb.transaction((tx) =>
+      uncreditPayment(householdId, paymentId, tx)
+    );
+    if (!result) {
+      return NextResponse.json(
+        { error: "Household not found" },
+        { status: 404 }
+      );
+    }
+    await auditCredit(auth.user, result);
+
+    return NextResponse.json({ payment: result.payment });
+  } catch (error) {
+    if (error instanceof HouseholdStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error removing household credit:", error);
+    return NextResponse.json(
+      { error: "Failed to remove credit" },
+      { status: 500 }
+    );
+  }
+}
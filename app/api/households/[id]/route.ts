@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES, STAFF_READ_ROLES } from "@/lib/auth/roles";
+import {
+  auditHouseholdChange,
+  deleteHousehold,
+  getHousehold,
+  HouseholdStateError,
+  updateHousehold,
+} from "@/lib/households";
+import { householdPatchSchema } from "@/lib/form-schemas/household";
+
+type Params = { params: Promise<{ id: string }> };
+
+async function householdId(params: Params["params"]) {
+  const id = parseInt((await params).id, 10);
+  return id > 0 ? id : null;
+}
+
+// A household with its members, totals, credited payments, member payments
+// that could still be credited and related contacts to add.
+export async function GET(request: NextRequest, { params }: Params) {
+  const auth = await requireRole(STAFF_READ_ROLES);
+  if (auth.response) return auth.response;
+
+  const id = await householdId(params);
+  if (!id) {
+    return NextResponse.json({ error: "Invalid household ID" }, { status: 400 });
+  }
+
+  try {
+    const household = await getHousehold(id);
+    if (!household) {
+      return NextResponse.json(
+        { error: "Household not found" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ household });
+  } catch (error) {
+    console.error("Error fetching household:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch household" },
+      { status: 500 }
+    );
+  }
+}
+
+// Renames a household, sets its salutation, or replaces its member list.
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const id = await householdId(params);
+  if (!id) {
+    return NextResponse.json({ error: "Invalid household ID" }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json();
+    const parsed = householdPatchSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid household",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const change = await txDb.transaction((tx) =>
+      updateHousehold(id, parsed.data, tx)
+    );
+    if (!change) {
+      return NextResponse.json(
+        { error: "Household not found" },
+        { status: 404 }
+      );
+    }
+    await auditHouseholdChange(auth.user, change);
+
+    return NextResponse.json({ household: await getHousehold(id) });
+  } catch (error) {
+    if (error instanceof HouseholdStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error updating household:", error);
+    return NextResponse.json(
+      { error: "Failed to update household" },
+      { status: 500 }
+    );
+  }
+}
+
+// Deletes a household. Members and their payments stay; credits to the
+// household are removed.
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const id = await householdId(params);
+  if (!id) {
+    return NextResponse.json({ error: "Invalid household ID" }, { status: 400 });
+  }
+
+  try {
+    const change = await txDb.transaction((tx) => deleteHousehold(id, tx));
+    if (!change) {
+      return NextResponse.json(
+        { error: "Household not found" },
+        { status: 404 }
+      );
+    }
+    await auditHouseholdChange(auth.user, change);
+
+    return NextResponse.json({ message: "Household deleted" });
+  } catch (error) {
+    console.error("Error deleting household:", error);
+    return NextResponse.json(
+      { error: "Failed to delete household" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES, STAFF_READ_ROLES } from "@/lib/auth/roles";
+import {
+  auditHouseholdChange,
+  createHousehold,
+  getHousehold,
+  HouseholdStateError,
+  householdsCsv,
+  listHouseholds,
+} from "@/lib/households";
+import { householdSchema } from "@/lib/form-schemas/household";
+
+// Households with their members and giving totals. `search` matches the
+// household or a member's name, `contactId` finds the household a contact
+// belongs to, and `format=csv` gives a mail-merge list with salutations.
+export async function GET(request: NextRequest) {
+  const auth = await requireRole(STAFF_READ_ROLES);
+  if (auth.response) return auth.response;
+
+  const { searchParams } = new URL(request.url);
+  const contactIdParam = searchParams.get("contactId");
+  const contactId = contactIdParam ? parseInt(contactIdParam, 10) : undefined;
+  if (contactId !== undefined && !(contactId > 0)) {
+    return NextResponse.json({ error: "Invalid contactId" }, { status: 400 });
+  }
+
+  try {
+    const households = await listHouseholds({
+      search: searchParams.get("search") || undefined,
+      contactId,
+    });
+
+    if (searchParams.get("format") === "csv") {
+      return new NextResponse(householdsCsv(households), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": 'attachment; filename="households.csv"',
+        },
+      });
+    }
+
+    return NextResponse.json({ households });
+  } catch (error) {
+    console.error("Error fetching households:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch households" },
+      { status: 500 }
+    );
+  }
+}
+
+// Creates a household from a member list, or around `fromContactId` from
+// their spouse and child relationships.
+export async function POST(request: NextRequest) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json();
+    const parsed = householdSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid household",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const change = await txDb.transaction((tx) =>
+      createHousehold(parsed.data, tx)
+    );
+    await auditHouseholdChange(auth.user, change);
+
+    return NextResponse.json(
+      { household: await getHousehold(change.after!.id) },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof HouseholdStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error creating household:", error);
+    return NextResponse.json(
+      { error: "Failed to create household" },
+      { status: 500 }
+    );
+  }
+}
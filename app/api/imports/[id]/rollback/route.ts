@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { importLog } from "@/lib/db/schema";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import { recordAudit } from "@/lib/audit";
+import { BonusAlreadyPaidError } from "@/lib/bonus";
+import { ImportStateError, rollbackImport } from "@/lib/imports";
+import { auditTrashChange, TrashStateError } from "@/lib/trash";
+
+// Moves everything an import created to the trash, from where it can still
+// be restored record by record.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const importId = parseInt((await params).id, 10);
+  if (isNaN(importId) || importId <= 0) {
+    return NextResponse.json({ error: "Invalid import ID" }, { status: 400 });
+  }
+
+  try {
+    const rollback = await txDb.transaction((tx) =>
+      rollbackImport(importId, auth.user.id, tx)
+    );
+    if (!rollback) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 });
+    }
+
+    for (const change of rollback.changes) {
+      await auditTrashChange(auth.user, change);
+    }
+    await recordAudit(auth.user, {
+      table: importLog,
+      recordId: importId,
+      action: "update",
+      before: rollback.before,
+      after: rollback.after,
+      contactId: null,
+    });
+
+    return NextResponse.json({ import: rollback.after });
+  } catch (error) {
+    if (
+      error instanceof ImportStateError ||
+      error instanceof TrashStateError ||
+      error instanceof BonusAlreadyPaidError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error rolling back import:", error);
+    return NextResponse.json(
+      { error: "Failed to roll back import" },
+      { status: 500 }
+    );
+  }
+}
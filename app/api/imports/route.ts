@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES, STAFF_READ_ROLES, hasRole } from "@/lib/auth/roles";
+import {
+  listImports,
+  previewImport,
+  readSheet,
+  runImport,
+  SheetError,
+} from "@/lib/imports";
+import { importFormSchema } from "@/lib/form-schemas/import";
+
+// Past imports, newest first, with the rows each one skipped.
+export async function GET() {
+  const auth = await requireRole(STAFF_READ_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    return NextResponse.json({ imports: await listImports() });
+  } catch (error) {
+    console.error("Error fetching imports:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch imports" },
+      { status: 500 }
+    );
+  }
+}
+
+// Imports a CSV or XLSX file sent as multipart form data: `file`, `kind`,
+// and optionally `columnMap` (JSON). With `dryRun=true` nothing is written
+// and each row comes back with its errors and likely duplicates; otherwise
+// the valid rows are imported and the import log is returned.
+export async function POST(request: NextRequest) {
+  const auth = await requireRole(STAFF_READ_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const form = await request.formData();
+    const file = form.get("file");
+    const parsed = importFormSchema.safeParse({
+      kind: form.get("kind") ?? undefined,
+      columnMap: form.get("columnMap") ?? undefined,
+      dryRun: form.get("dryRun") ?? undefined,
+      includeDuplicates: form.get("includeDuplicates") ?? undefined,
+    });
+
+    if (!parsed.success || !(file instanceof File)) {
+      return NextResponse.json(
+        {
+          error: "Invalid import",
+          details: [
+            ...(file instanceof File
+              ? []
+              : [{ field: "file", message: "Choose a CSV or XLSX file" }]),
+            ...(parsed.success
+              ? []
+              : parsed.error.issues.map((issue) => ({
+                  field: issue.path.join("."),
+                  message: issue.message,
+                }))),
+          ],
+        },
+        { status: 400 }
+      );
+    }
+
+    const { kind, columnMap, dryRun, includeDuplicates } = parsed.data;
+    // Read-only staff may preview an import but not run one
+    if (!dryRun && !hasRole(auth.user.role, FINANCE_ROLES)) {
+      return NextResponse.json(
+        { error: "You do not have permission to perform this action" },
+        { status: 403 }
+      );
+    }
+
+    const sheet = readSheet(await file.arrayBuffer());
+
+    if (dryRun) {
+      return NextResponse.json({
+        preview: await previewImport(kind, sheet, columnMap),
+      });
+    }
+
+    const importLog = await runImport(
+      kind,
+      file.name,
+      sheet,
+      columnMap,
+      { includeDuplicates },
+      auth.user
+    );
+    return NextResponse.json({ import: importLog }, { status: 201 });
+  } catch (error) {
+    if (error instanceof SheetError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error importing file:", error);
+    return NextResponse.json(
+      { error: "Failed to import file" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import { reconcileLedger } from "@/lib/ledger-reconciliation";
+
+const querySchema = z.object({
+  pledgeId: z.coerce.number().int().positive().optional(),
+  contactId: z.coerce.number().int().positive().optional(),
+});
+
+function parseQuery(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  return querySchema.safeParse({
+    pledgeId: searchParams.get("pledgeId") ?? undefined,
+    contactId: searchParams.get("contactId") ?? undefined,
+  });
+}
+
+function invalidQuery(error: z.ZodError) {
+  return NextResponse.json(
+    {
+      error: "Invalid query parameters",
+      details: error.issues.map((issue) => ({
+        field: issue.path.join("."),
+        message: issue.message,
+      })),
+    },
+    { status: 400 }
+  );
+}
+
+// Reports every pledge and payment plan whose stored totals disagree with its
+// payments, without changing anything.
+export async function GET(request: NextRequest) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const parsedParams = parseQuery(request);
+  if (!parsedParams.success) return invalidQuery(parsedParams.error);
+
+  try {
+    const report = await reconcileLedger(parsedParams.data);
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error reconciling ledger:", error);
+    return NextResponse.json(
+      { error: "Failed to reconcile ledger" },
+      { status: 500 }
+    );
+  }
+}
+
+// Same report, but rewrites every mismatched total with the recomputed value.
+export async function POST(request: NextRequest) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const parsedParams = parseQuery(request);
+  if (!parsedParams.success) return invalidQuery(parsedParams.error);
+
+  try {
+    const report = await reconcileLedger({
+      ...parsedParams.data,
+      repair: true,
+      user: auth.user,
+    });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error repairing ledger:", error);
+    return NextResponse.json(
+      { error: "Failed to repair ledger" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,9 +2,16 @@
 import { db } from "@/lib/db";
 import { paymentPlan, pledge, installmentSchedule, type PaymentPlan } from "@/lib/db/schema";
 import { ErrorHandler } from "@/lib/error-handler";
-import { eq, desc, or, ilike, and, SQL, sql } from "drizzle-orm";
+import { eq, desc, or, ilike, and, isNull, SQL, sql } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import {
+  requireRole,
+  solicitorDonorCondition,
+  solicitorScope,
+} from "@/lib/auth/guard";
+import { ALL_ROLES, FINANCE_ROLES } from "@/lib/auth/roles";
+import { getPaymentPlanContactId, recordAudit } from "@/lib/audit";
 
 const PlanStatusEnum = z.enum([
   "active",
@@ -58,6 +65,7 @@ const updatePaymentPlanSchema = z.object({
   endDate: z.string().optional(),
   nextPaymentDate: z.string().optional(),
   autoRenew: z.boolean().optional(),
+  remindersOptOut: z.boolean().optional(),
   planStatus: PlanStatusEnum.optional(),
   notes: z.string().optional(),
   internalNotes: z.string().optional(),
@@ -87,6 +95,9 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { id: paymentPlanIdString } = await params;
     const paymentPlanId = parseInt(paymentPlanIdString, 10);
@@ -98,6 +109,7 @@ export async function GET(
       );
     }
 
+    const scopedSolicitorId = solicitorScope(auth.user);
     const paymentPlanResult = await db
       .select({
         // Payment Plan fields
@@ -121,6 +133,7 @@ export async function GET(
         autoRenew: paymentPlan.autoRenew,
         remindersSent: paymentPlan.remindersSent,
         lastReminderDate: paymentPlan.lastReminderDate,
+        remindersOptOut: paymentPlan.remindersOptOut,
         isActive: paymentPlan.isActive,
         notes: paymentPlan.notes,
         internalNotes: paymentPlan.internalNotes,
@@ -137,7 +150,18 @@ export async function GET(
         pledgeContact: sql<string>`(SELECT CONCAT(c.first_name, ' ', c.last_name) FROM ${pledge} p JOIN contact c ON p.contact_id = c.id WHERE p.id = ${paymentPlan.pledgeId})`.as("pledgeContact"),
       })
       .from(paymentPlan)
-      .where(eq(paymentPlan.id, paymentPlanId))
+      .where(
+        and(
+          eq(paymentPlan.id, paymentPlanId),
+          isNull(paymentPlan.deletedAt),
+          scopedSolicitorId
+            ? solicitorDonorCondition(
+                scopedSolicitorId,
+                sql`(SELECT ${pledge.contactId} FROM ${pledge} WHERE ${pledge.id} = ${paymentPlan.pledgeId})`
+              )
+            : undefined
+        )
+      )
       .limit(1);
 
     if (!paymentPlanResult.length) {
@@ -184,7 +208,7 @@ export async function GET(
       },
       {
         headers: {
-          "Cache-Control": "public, s-maxage=60, stale-while-revalidate=300",
+          "Cache-Control": "private, no-cache",
         },
       }
     );
@@ -198,6 +222,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { id: planIdString } = await params;
     const planId = parseInt(planIdString, 10);
@@ -214,7 +241,7 @@ export async function PATCH(
       .where(eq(paymentPlan.id, planId))
       .limit(1);
 
-    if (!existingPlan) {
+    if (!existingPlan || existingPlan.deletedAt) {
       return NextResponse.json({ error: "Payment plan not found" }, { status: 404 });
     }
 
@@ -365,6 +392,7 @@ export async function PATCH(
       ...(validatedData.endDate !== undefined && { endDate: validatedData.endDate }),
       ...(validatedData.nextPaymentDate !== undefined && { nextPaymentDate: validatedData.nextPaymentDate }),
       ...(validatedData.autoRenew !== undefined && { autoRenew: validatedData.autoRenew }),
+      ...(validatedData.remindersOptOut !== undefined && { remindersOptOut: validatedData.remindersOptOut }),
       ...(validatedData.planStatus !== undefined && { planStatus: validatedData.planStatus }),
       ...(validatedData.notes !== undefined && { notes: validatedData.notes }),
       ...(validatedData.internalNotes !== undefined && { internalNotes: validatedData.internalNotes }),
@@ -415,6 +443,15 @@ export async function PATCH(
       .where(eq(paymentPlan.id, planId))
       .returning();
 
+    await recordAudit(auth.user, {
+      table: paymentPlan,
+      recordId: planId,
+      action: "update",
+      before: existingPlan,
+      after: updatedPlan,
+      contactId: await getPaymentPlanContactId(planId),
+    });
+
     return NextResponse.json({
       message: "Payment plan updated successfully",
       paymentPlan: updatedPlan,
@@ -3,9 +3,18 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 // Import the specific types from your schema file
 import { paymentPlan, pledge, installmentSchedule, payment, PaymentPlan, NewPaymentPlan, NewPayment } from "@/lib/db/schema";
-import { sql, eq, and } from "drizzle-orm";
+import { sql, eq, and, isNull } from "drizzle-orm";
 import { z } from "zod";
 import { ErrorHandler } from "@/lib/error-handler";
+import {
+  requireRole,
+  solicitorDonorCondition,
+  solicitorScope,
+} from "@/lib/auth/guard";
+import { ALL_ROLES, FINANCE_ROLES } from "@/lib/auth/roles";
+import { recordAudit } from "@/lib/audit";
+import { moneyString, toUsd } from "@/lib/currency";
+import { calculateInstallmentDates } from "@/lib/installments";
 
 // Zod schema for validating individual custom installments
 const installmentSchema = z.object({
@@ -42,6 +51,7 @@ const paymentPlanSchema = z.object({
   endDate: z.string().optional(),
   nextPaymentDate: z.string().optional(),
   autoRenew: z.boolean().default(false),
+  remindersOptOut: z.boolean().default(false),
   planStatus: z.enum(["active", "completed", "cancelled", "paused", "overdue"]).optional(),
   // UPDATED: paymentMethod enum values
   paymentMethod: z.enum([
@@ -78,45 +88,6 @@ const paymentPlanSchema = z.object({
   path: ["distributionType"]
 });
 
-/**
- * Helper function to calculate installment dates based on frequency
- */
-function calculateInstallmentDates(startDate: string, frequency: string, numberOfInstallments: number): string[] {
-  const dates: string[] = [];
-  const start = new Date(startDate);
-
-  for (let i = 0; i < numberOfInstallments; i++) {
-    const installmentDate = new Date(start);
-
-    switch (frequency) {
-      case "weekly":
-        installmentDate.setDate(start.getDate() + (i * 7));
-        break;
-      case "monthly":
-        installmentDate.setMonth(start.getMonth() + i);
-        break;
-      case "quarterly":
-        installmentDate.setMonth(start.getMonth() + (i * 3));
-        break;
-      case "biannual":
-        installmentDate.setMonth(start.getMonth() + (i * 6));
-        break;
-      case "annual":
-        installmentDate.setFullYear(start.getFullYear() + i);
-        break;
-      case "one_time":
-        installmentDate.setTime(start.getTime());
-        break;
-      default:
-        installmentDate.setTime(start.getTime());
-    }
-
-    dates.push(installmentDate.toISOString().split('T')[0]);
-  }
-
-  return dates;
-}
-
 /**
  * Handles POST requests to create a new payment plan.
  * If distributionType is 'custom', it also creates individual installment schedule entries.
@@ -124,6 +95,9 @@ function calculateInstallmentDates(startDate: string, frequency: string, numberO
  * Creates scheduled payment records for each installment.
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
   let createdPaymentPlan: PaymentPlan | null = null;
   let paymentPlanIdToDelete: number | null = null;
   let createdInstallmentIds: number[] = [];
@@ -277,10 +251,11 @@ export async function POST(request: NextRequest) {
     const currentPledge = await db
       .select({
         id: pledge.id,
+        contactId: pledge.contactId,
         exchangeRate: pledge.exchangeRate,
       })
       .from(pledge)
-      .where(eq(pledge.id, validatedData.pledgeId))
+      .where(and(eq(pledge.id, validatedData.pledgeId), isNull(pledge.deletedAt)))
       .limit(1);
 
     if (currentPledge.length === 0) {
@@ -334,6 +309,7 @@ export async function POST(request: NextRequest) {
       autoRenew: validatedData.autoRenew,
       remindersSent: 0,
       lastReminderDate: null,
+      remindersOptOut: validatedData.remindersOptOut,
       isActive: true,
       notes: validatedData.notes || null,
       internalNotes: validatedData.internalNotes || null,
@@ -376,7 +352,7 @@ export async function POST(request: NextRequest) {
         installmentScheduleId: installmentRecord.id,
         amount: validatedData.customInstallments![index].amount.toFixed(2),
         currency: validatedData.currency,
-        amountUsd: pledgeExchangeRate ? (validatedData.customInstallments![index].amount * parseFloat(pledgeExchangeRate.toString())).toFixed(2) : null,
+        amountUsd: pledgeExchangeRate ? moneyString(toUsd(validatedData.customInstallments![index].amount, pledgeExchangeRate)) : null,
         amountInPledgeCurrency: validatedData.customInstallments![index].amount.toFixed(2),
         exchangeRate: pledgeExchangeRate,
         paymentDate: installmentRecord.installmentDate,
@@ -425,7 +401,7 @@ export async function POST(request: NextRequest) {
         installmentScheduleId: installmentRecord.id,
         amount: finalInstallmentAmount,
         currency: validatedData.currency,
-        amountUsd: pledgeExchangeRate ? (parseFloat(finalInstallmentAmount) * parseFloat(pledgeExchangeRate.toString())).toFixed(2) : null,
+        amountUsd: pledgeExchangeRate ? moneyString(toUsd(finalInstallmentAmount, pledgeExchangeRate)) : null,
         amountInPledgeCurrency: finalInstallmentAmount,
         exchangeRate: pledgeExchangeRate,
         paymentDate: installmentRecord.installmentDate,
@@ -449,6 +425,14 @@ export async function POST(request: NextRequest) {
       createdPaymentIds = paymentResults.map(p => p.id);
     }
 
+    await recordAudit(auth.user, {
+      table: paymentPlan,
+      recordId: createdPaymentPlan.id,
+      action: "create",
+      after: createdPaymentPlan,
+      contactId: currentPledge[0].contactId,
+    });
+
     // All operations successful
     return NextResponse.json(
       {
@@ -577,6 +561,9 @@ const querySchema = z.object({
 });
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const parsedParams = querySchema.safeParse({
@@ -609,7 +596,7 @@ export async function GET(request: NextRequest) {
     const { pledgeId, contactId, page, limit, planStatus, frequency, distributionType } =
       parsedParams.data;
     const offset = (page - 1) * limit;
-    const conditions = [];
+    const conditions = [isNull(paymentPlan.deletedAt)];
 
     if (pledgeId) {
       conditions.push(eq(paymentPlan.pledgeId, pledgeId));
@@ -621,6 +608,16 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const scopedSolicitorId = solicitorScope(auth.user);
+    if (scopedSolicitorId) {
+      conditions.push(
+        solicitorDonorCondition(
+          scopedSolicitorId,
+          sql`(SELECT ${pledge.contactId} FROM ${pledge} WHERE ${pledge.id} = ${paymentPlan.pledgeId})`
+        )
+      );
+    }
+
     if (planStatus) {
       conditions.push(eq(paymentPlan.planStatus, planStatus));
     }
@@ -633,7 +630,7 @@ export async function GET(request: NextRequest) {
       conditions.push(eq(paymentPlan.distributionType, distributionType));
     }
 
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+    const whereClause = and(...conditions);
 
     const paymentPlansQuery = db
       .select({
@@ -655,6 +652,9 @@ export async function GET(request: NextRequest) {
         remainingAmount: paymentPlan.remainingAmount,
         planStatus: paymentPlan.planStatus,
         autoRenew: paymentPlan.autoRenew,
+        remindersSent: paymentPlan.remindersSent,
+        lastReminderDate: paymentPlan.lastReminderDate,
+        remindersOptOut: paymentPlan.remindersOptOut,
         isActive: paymentPlan.isActive,
         notes: paymentPlan.notes,
         internalNotes: paymentPlan.internalNotes,
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { eq, sql } from "drizzle-orm";
+import type { SessionUser } from "@/lib/auth/guard";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+vi.mock("@/lib/auth/guard", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/auth/guard")>()),
+  requireRole: async () => ({ user: admin }),
+}));
+
+import { db } from "@/lib/db";
+import {
+  bonusCalculation,
+  bonusRule,
+  contact,
+  payment,
+  pledge,
+  solicitor,
+  staffUser,
+} from "@/lib/db/schema";
+import { syncPaymentBonus } from "@/lib/bonus";
+import { DELETE, PATCH } from "./route";
+
+const admin: SessionUser = {
+  id: 1,
+  email: "admin@example.org",
+  name: "Admin",
+  role: "admin",
+  contactId: null,
+  solicitorId: null,
+};
+
+let solicitorId: number;
+let pledgeId: number;
+let paymentId: number;
+
+const params = (id: number) => ({ params: Promise.resolve({ pledgeId: String(id) }) });
+
+function edit(body: Record<string, unknown>) {
+  return PATCH(
+    new NextRequest(`http://localhost/api/payments/${pledgeId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ paymentId, ...body }),
+    }),
+    params(pledgeId)
+  );
+}
+
+async function bonus() {
+  const [row] = await db
+    .select({ bonusAmount: payment.bonusAmount, bonusRuleId: payment.bonusRuleId })
+    .from(payment)
+    .where(eq(payment.id, paymentId));
+  const calculations = await db
+    .select({ bonusAmount: bonusCalculation.bonusAmount })
+    .from(bonusCalculation)
+    .where(eq(bonusCalculation.paymentId, paymentId));
+  return { ...row, calculations: calculations.map((calc) => calc.bonusAmount) };
+}
+
+beforeEach(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  await db.execute(
+    sql`TRUNCATE ${staffUser}, ${contact}, ${solicitor}, ${pledge}, ${payment},
+      ${bonusRule} RESTART IDENTITY CASCADE`
+  );
+  await db.insert(staffUser).values({
+    email: admin.email,
+    name: admin.name,
+    passwordHash: "x",
+    role: admin.role,
+  });
+  const [donor] = await db
+    .insert(contact)
+    .values({ firstName: "Dana", lastName: "Donor" })
+    .returning();
+  const [person] = await db
+    .insert(contact)
+    .values({ firstName: "Sam", lastName: "Solicitor" })
+    .returning();
+  [{ id: solicitorId }] = await db
+    .insert(solicitor)
+    .values({ contactId: person.id })
+    .returning();
+  [{ id: pledgeId }] = await db
+    .insert(pledge)
+    .values({
+      contactId: donor.id,
+      pledgeDate: "2025-01-01",
+      originalAmount: "5000.00",
+      originalAmountUsd: "5000.00",
+      balance: "5000.00",
+      balanceUsd: "5000.00",
+    })
+    .returning();
+  await db.insert(bonusRule).values({
+    solicitorId,
+    ruleName: "Ten percent",
+    bonusPercentage: "10.00",
+    effectiveFrom: "2025-01-01",
+  });
+  [{ id: paymentId }] = await db
+    .insert(payment)
+    .values({
+      pledgeId,
+      solicitorId,
+      amount: "1000.00",
+      amountUsd: "1000.00",
+      amountInPledgeCurrency: "1000.00",
+      currency: "USD",
+      paymentDate: "2025-03-01",
+      paymentMethod: "check",
+    })
+    .returning();
+  await syncPaymentBonus(paymentId);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("PATCH /api/payments/[pledgeId]", () => {
+  it("recalculates the bonus when the amount changes", async () => {
+    const response = await edit({ amount: 2000 });
+    expect(response.status).toBe(200);
+    expect(await bonus()).toMatchObject({
+      bonusAmount: "200.00",
+      calculations: ["200.00"],
+    });
+  });
+
+  it("keeps the rule engine's bonus over the client's", async () => {
+    await edit({ notes: "Corrected", bonusAmount: 5, bonusPercentage: 0.5 });
+    expect(await bonus()).toMatchObject({
+      bonusAmount: "100.00",
+      calculations: ["100.00"],
+    });
+  });
+
+  it("drops the bonus when the solicitor is taken off", async () => {
+    await edit({ solicitorId: null });
+    expect(await bonus()).toEqual({
+      bonusAmount: null,
+      bonusRuleId: null,
+      calculations: [],
+    });
+  });
+
+  it("refuses to change a payment whose bonus was paid out", async () => {
+    await db
+      .update(bonusCalculation)
+      .set({ isPaid: true })
+      .where(eq(bonusCalculation.paymentId, paymentId));
+
+    const response = await edit({ amount: 2000 });
+    expect(response.status).toBe(409);
+    expect((await response.json()).error).toBe("Bonus already paid");
+    const [stored] = await db.select().from(payment).where(eq(payment.id, paymentId));
+    expect(stored.amount).toBe("1000.00");
+  });
+});
+
+describe("DELETE /api/payments/[pledgeId]", () => {
+  it("removes the bonus with the payment", async () => {
+    const response = await DELETE(
+      new NextRequest(`http://localhost/api/payments/${paymentId}`, { method: "DELETE" }),
+      params(paymentId)
+    );
+    expect(response.status).toBe(200);
+    expect(await bonus()).toMatchObject({ calculations: [] });
+  });
+});
@@ -1,10 +1,24 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import { db } from "@/lib/db";
+import { db, txDb } from "@/lib/db";
 import { payment, pledge, paymentAllocations } from "@/lib/db/schema";
 import { ErrorHandler } from "@/lib/error-handler";
-import { eq, desc, or, ilike, and, SQL, sql } from "drizzle-orm";
+import { eq, desc, or, ilike, and, isNull, SQL, sql } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import { requireRole, solicitorScope } from "@/lib/auth/guard";
+import { ALL_ROLES, FINANCE_ROLES } from "@/lib/auth/roles";
+import { getPaymentContactId, recordAudit } from "@/lib/audit";
+import {
+  auditBonusSync,
+  BonusAlreadyPaidError,
+  getPaymentBonusCalculation,
+  isBonusSettled,
+  syncPaymentBonus,
+} from "@/lib/bonus";
+import { getPaymentLedgerTargets, updateLedgerTotals } from "@/lib/pledge-totals";
+import { convertAmount, toNumber, toUsd } from "@/lib/currency";
+import { getIssuedReceipt } from "@/lib/receipts";
+import { getClosedDeposit } from "@/lib/deposits";
+import { auditTrashChange, moveToTrash, TrashStateError } from "@/lib/trash";
 
 const PaymentStatusEnum = z.enum([
   "pending",
@@ -63,11 +77,10 @@ const updatePaymentSchema = z.object({
   paymentStatus: PaymentStatusEnum.optional(),
   referenceNumber: z.string().optional().nullable(),
   checkNumber: z.string().optional().nullable(),
-  receiptNumber: z.string().optional().nullable(),
+  // Receipt numbers are only assigned by issuing a receipt (/api/receipts)
   receiptType: z
     .enum(["invoice", "confirmation", "receipt", "other"])
     .optional().nullable(),
-  receiptIssued: z.boolean().optional(),
   solicitorId: z
     .number()
     .positive("Solicitor ID must be positive")
@@ -106,10 +119,47 @@ const updatePaymentSchema = z.object({
   message: "Total allocation amount must equal the payment amount for split payments",
 });
 
+type PaymentUpdate = Partial<typeof payment.$inferInsert>;
+
+// The payment columns a validated PATCH body sets, with its numbers as the
+// strings numeric columns store
+function paymentUpdate(
+  {
+    paymentId: _,
+    allocations: __,
+    isSplitPayment: ___,
+    amount,
+    amountUsd,
+    amountInPledgeCurrency,
+    exchangeRate,
+    bonusPercentage,
+    bonusAmount,
+    ...fields
+  }: z.infer<typeof updatePaymentSchema>,
+  pledgeId: number | null
+): PaymentUpdate {
+  const numeric = (value: number | null | undefined) =>
+    value === undefined || value === null ? value : value.toString();
+  return {
+    ...fields,
+    amount: numeric(amount) ?? undefined,
+    amountUsd: numeric(amountUsd),
+    amountInPledgeCurrency: numeric(amountInPledgeCurrency),
+    exchangeRate: numeric(exchangeRate),
+    bonusPercentage: numeric(bonusPercentage),
+    bonusAmount: numeric(bonusAmount),
+    pledgeId,
+    updatedAt: new Date(),
+  };
+}
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { id } = await params;
     const { searchParams } = new URL(request.url);
@@ -164,15 +214,20 @@ export async function GET(
       })
       .from(payment)
       .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
-      .where(eq(payment.pledgeId, pledgeId))
+      .where(and(eq(payment.pledgeId, pledgeId), isNull(payment.deletedAt)))
       .$dynamic();
 
-    const conditions: SQL<unknown>[] = [];
+    const conditions: SQL<unknown>[] = [isNull(payment.deletedAt)];
 
     if (paymentStatus) {
       conditions.push(eq(payment.paymentStatus, paymentStatus));
     }
 
+    const scopedSolicitorId = solicitorScope(auth.user);
+    if (scopedSolicitorId) {
+      conditions.push(eq(payment.solicitorId, scopedSolicitorId));
+    }
+
     if (search) {
       const searchConditions: SQL<unknown>[] = [];
       searchConditions.push(
@@ -191,7 +246,9 @@ export async function GET(
     }
 
     if (conditions.length > 0) {
-      query = query.where(and(...conditions));
+      query = query.where(
+        and(eq(payment.pledgeId, pledgeId), ...conditions)
+      );
     }
 
     const offset = (page - 1) * limit;
@@ -233,7 +290,7 @@ export async function GET(
       { payments: paymentsWithAllocations },
       {
         headers: {
-          "Cache-Control": "public, s-maxage=60, stale-while-revalidate=300",
+          "Cache-Control": "private, no-cache",
         },
       }
     );
@@ -250,6 +307,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ pledgeId: string }> }
 ) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { pledgeId } = await params;
     const paymentId = parseInt(pledgeId);
@@ -266,17 +326,41 @@ export async function DELETE(
       .where(eq(payment.id, paymentId))
       .limit(1);
 
-    if (existingPayment.length === 0) {
+    if (existingPayment.length === 0 || existingPayment[0].deletedAt) {
       return NextResponse.json({ error: "Payment not found" }, { status: 404 });
     }
 
-    // Delete payment (this will cascade delete allocations if properly configured)
-    await db.delete(payment).where(eq(payment.id, paymentId));
+    // A refund and the payment it refunds stand or fall together
+    if (existingPayment[0].refundOfPaymentId) {
+      return NextResponse.json(
+        { error: "Refunds cannot be deleted" },
+        { status: 409 }
+      );
+    }
+    if (toNumber(existingPayment[0].refundedAmount) > 0) {
+      return NextResponse.json(
+        { error: "Cannot delete a payment that has been refunded" },
+        { status: 409 }
+      );
+    }
+
+    // Moves the payment to the trash; its bonus calculation is removed and
+    // the pledge and plan totals recomputed until it is restored
+    const change = await txDb.transaction((tx) =>
+      moveToTrash("payment", paymentId, auth.user.id, tx)
+    );
+    await auditTrashChange(auth.user, change);
 
     return NextResponse.json({
       message: "Payment deleted successfully",
     });
   } catch (error) {
+    if (
+      error instanceof TrashStateError ||
+      error instanceof BonusAlreadyPaidError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.error("Error deleting payment:", error);
     return ErrorHandler.handle(error);
   }
@@ -286,6 +370,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ pledgeId: string }> }
 ) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { pledgeId: rawPledgeId } = await params;
     const pledgeId = parseInt(rawPledgeId);
@@ -315,7 +402,7 @@ export async function PATCH(
       .where(eq(payment.id, paymentId))
       .limit(1);
 
-    if (existingPayment.length === 0) {
+    if (existingPayment.length === 0 || existingPayment[0].deletedAt) {
       return NextResponse.json({ 
         error: "Payment not found." 
       }, { status: 404 });
@@ -323,6 +410,104 @@ export async function PATCH(
 
     const currentPayment = existingPayment[0];
 
+    // USD and pledge-currency amounts are derived from the amount and rate,
+    // never taken from the client, so they cannot disagree with each other.
+    const effectiveAmount = validatedData.amount ?? currentPayment.amount;
+    const effectiveRate = validatedData.exchangeRate ?? currentPayment.exchangeRate;
+    if (validatedData.amount !== undefined || validatedData.exchangeRate !== undefined) {
+      validatedData.amountUsd = toUsd(effectiveAmount, effectiveRate);
+
+      const targetPledgeId = validatedData.isSplitPayment ? null : pledgeId;
+      if (targetPledgeId) {
+        const [targetPledge] = await db
+          .select({ currency: pledge.currency, exchangeRate: pledge.exchangeRate })
+          .from(pledge)
+          .where(eq(pledge.id, targetPledgeId))
+          .limit(1);
+        if (targetPledge) {
+          const paymentCurrency = validatedData.currency ?? currentPayment.currency;
+          validatedData.amountInPledgeCurrency = paymentCurrency === targetPledge.currency
+            ? toNumber(effectiveAmount)
+            : convertAmount(effectiveAmount, effectiveRate, targetPledge.exchangeRate);
+        }
+      }
+    }
+
+    // A bonus that has been paid out or approved is final; refuse edits that
+    // would change it
+    const currentBonus = await getPaymentBonusCalculation(paymentId);
+    const bonusInputsChanged =
+      (validatedData.amountUsd !== undefined && toNumber(validatedData.amountUsd) !== toNumber(currentPayment.amountUsd)) ||
+      (validatedData.paymentDate !== undefined && validatedData.paymentDate !== currentPayment.paymentDate) ||
+      (validatedData.paymentStatus !== undefined && validatedData.paymentStatus !== currentPayment.paymentStatus) ||
+      (validatedData.solicitorId !== undefined && validatedData.solicitorId !== currentPayment.solicitorId);
+    if (bonusInputsChanged && (await isBonusSettled(currentBonus))) {
+      return NextResponse.json({
+        error: "Bonus already paid",
+        details: "The solicitor bonus for this payment has been paid out or approved for payout, so its amount, date, status and solicitor can no longer change.",
+      }, { status: 409 });
+    }
+
+    // An issued receipt states the amount and date; it has to be voided or
+    // reissued rather than silently disagree with the payment
+    const receiptInputsChanged =
+      (validatedData.amount !== undefined && toNumber(validatedData.amount) !== toNumber(currentPayment.amount)) ||
+      (validatedData.currency !== undefined && validatedData.currency !== currentPayment.currency) ||
+      (validatedData.paymentDate !== undefined && validatedData.paymentDate !== currentPayment.paymentDate) ||
+      (validatedData.paymentStatus !== undefined && validatedData.paymentStatus !== currentPayment.paymentStatus);
+    const issuedReceipt = receiptInputsChanged ? await getIssuedReceipt(paymentId) : null;
+    if (issuedReceipt) {
+      return NextResponse.json({
+        error: "Receipt already issued",
+        details: `Receipt ${issuedReceipt.receiptNumber} has been issued for this payment. Void it before changing the amount, currency, date or status, then issue a new one.`,
+      }, { status: 409 });
+    }
+
+    // A closed deposit went to the bank with this amount, date and method
+    const depositInputsChanged =
+      receiptInputsChanged ||
+      (validatedData.paymentMethod !== undefined && validatedData.paymentMethod !== currentPayment.paymentMethod) ||
+      (validatedData.checkNumber !== undefined && (validatedData.checkNumber || null) !== currentPayment.checkNumber);
+    const closedDeposit = depositInputsChanged ? await getClosedDeposit(currentPayment) : null;
+    if (closedDeposit) {
+      return NextResponse.json({
+        error: "Payment is in a closed deposit",
+        details: `Deposit ${closedDeposit.id} of ${closedDeposit.depositDate} has been closed. The amount, currency, date, status, method and check number of its payments can no longer change.`,
+      }, { status: 409 });
+    }
+
+    // Refunds go through POST /api/refunds, which links them to the payment
+    // and reverses its allocations, installments and bonus
+    if (currentPayment.refundOfPaymentId) {
+      return NextResponse.json({
+        error: "Refunds cannot be edited",
+      }, { status: 409 });
+    }
+    if (validatedData.paymentStatus === "refunded" && currentPayment.paymentStatus !== "refunded") {
+      return NextResponse.json({
+        error: "Use POST /api/refunds to refund a payment",
+      }, { status: 400 });
+    }
+    if (
+      toNumber(currentPayment.refundedAmount) > 0 &&
+      ((validatedData.amount !== undefined && toNumber(validatedData.amount) !== toNumber(currentPayment.amount)) ||
+        (validatedData.currency !== undefined && validatedData.currency !== currentPayment.currency) ||
+        (validatedData.paymentStatus !== undefined && validatedData.paymentStatus !== currentPayment.paymentStatus))
+    ) {
+      return NextResponse.json({
+        error: "Payment has been refunded",
+        details: "The amount, currency and status of a payment with refunds can no longer change.",
+      }, { status: 409 });
+    }
+
+    // Written together in one transaction once every check below has passed
+    let updateData: PaymentUpdate;
+    let paymentCondition: SQL | undefined = eq(payment.id, paymentId);
+    const allocationUpdates: {
+      id: number;
+      data: Partial<typeof paymentAllocations.$inferInsert>;
+    }[] = [];
+
     // Check if this is a split payment update
     if (validatedData.isSplitPayment) {
       console.log("Handling split payment update for payment ID:", paymentId);
@@ -391,7 +576,9 @@ export async function PATCH(
           const pledgeExists = await db
             .select({ id: pledge.id })
             .from(pledge)
-            .where(eq(pledge.id, allocation.pledgeId))
+            .where(
+              and(eq(pledge.id, allocation.pledgeId), isNull(pledge.deletedAt))
+            )
             .limit(1);
 
           if (pledgeExists.length === 0) {
@@ -402,108 +589,30 @@ export async function PATCH(
           }
         }
 
-        // Update payment record first (without transaction)
-        const { paymentId: _, allocations: __, isSplitPayment: ___, ...dataToUpdate } = validatedData;
-        
-        const updateData: any = {
-          ...dataToUpdate,
-          pledgeId: null, // Split payments don't have a single pledge
-          updatedAt: new Date(),
-        };
-
-        // Convert numeric fields to strings for database storage
-        if (updateData.amount !== undefined) {
-          updateData.amount = updateData.amount.toString();
-        }
-        if (updateData.amountUsd !== undefined) {
-          updateData.amountUsd = updateData.amountUsd.toString();
-        }
-        if (updateData.amountInPledgeCurrency !== undefined) {
-          updateData.amountInPledgeCurrency = updateData.amountInPledgeCurrency.toString();
-        }
-        if (updateData.exchangeRate !== undefined) {
-          updateData.exchangeRate = updateData.exchangeRate.toString();
-        }
-        if (updateData.bonusPercentage !== undefined && updateData.bonusPercentage !== null) {
-          updateData.bonusPercentage = updateData.bonusPercentage.toString();
-        }
-        if (updateData.bonusAmount !== undefined && updateData.bonusAmount !== null) {
-          updateData.bonusAmount = updateData.bonusAmount.toString();
-        }
-
-        console.log("Updating payment with data:", updateData);
-
-        // Update payment record
-        await db
-          .update(payment)
-          .set(updateData)
-          .where(eq(payment.id, paymentId));
+        // Split payments don't have a single pledge
+        updateData = paymentUpdate(validatedData, null);
 
-        console.log("Payment updated successfully");
-
-        // Update each allocation individually (without transaction)
+        // Update each allocation individually
         for (const allocation of validatedData.allocations) {
           if (!allocation || !allocation.id) continue; // Skip invalid allocations
 
-          console.log(`Updating allocation ${allocation.id} with amount ${allocation.allocatedAmount}`);
-
-          const allocationUpdateData: any = {
-            allocatedAmount: allocation.allocatedAmount.toString(), // Convert number to string for database
-            notes: allocation.notes || null,
-            updatedAt: new Date(),
-          };
-
-          // Add currency if it's provided
-          if (allocation.currency || validatedData.currency) {
-            allocationUpdateData.currency = allocation.currency || validatedData.currency;
-          }
-
-          await db
-            .update(paymentAllocations)
-            .set(allocationUpdateData)
-            .where(eq(paymentAllocations.id, allocation.id));
-
-          console.log(`Allocation ${allocation.id} updated successfully`);
+          allocationUpdates.push({
+            id: allocation.id,
+            data: {
+              allocatedAmount: allocation.allocatedAmount.toString(), // Convert number to string for database
+              allocatedAmountUsd: toUsd(allocation.allocatedAmount, effectiveRate).toString(),
+              notes: allocation.notes || null,
+              // Kept unless one is provided
+              currency: allocation.currency || validatedData.currency,
+              updatedAt: new Date(),
+            },
+          });
         }
 
-        console.log("Split payment and allocations updated successfully");
-
       } else {
         // Only update payment record without touching allocations
-        const { paymentId: _, allocations: __, isSplitPayment: ___, ...dataToUpdate } = validatedData;
-        
-        const updateData: any = {
-          ...dataToUpdate,
-          pledgeId: null,
-          updatedAt: new Date(),
-        };
-
-        // Convert numeric fields to strings
-        if (updateData.amount !== undefined) {
-          updateData.amount = updateData.amount.toString();
-        }
-        if (updateData.amountUsd !== undefined) {
-          updateData.amountUsd = updateData.amountUsd.toString();
-        }
-        if (updateData.amountInPledgeCurrency !== undefined) {
-          updateData.amountInPledgeCurrency = updateData.amountInPledgeCurrency.toString();
-        }
-        if (updateData.exchangeRate !== undefined) {
-          updateData.exchangeRate = updateData.exchangeRate.toString();
-        }
-        if (updateData.bonusPercentage !== undefined && updateData.bonusPercentage !== null) {
-          updateData.bonusPercentage = updateData.bonusPercentage.toString();
-        }
-        if (updateData.bonusAmount !== undefined && updateData.bonusAmount !== null) {
-          updateData.bonusAmount = updateData.bonusAmount.toString();
-        }
-
-        await db
-          .update(payment)
-          .set(updateData)
-          .where(eq(payment.id, paymentId));
+        updateData = paymentUpdate(validatedData, null);
 
-        console.log("Split payment updated successfully (allocations unchanged)");
       }
 
     } else {
@@ -531,40 +640,28 @@ export async function PATCH(
         }, { status: 400 });
       }
 
-      const { paymentId: _, allocations: __, isSplitPayment: ___, ...dataToUpdate } = validatedData;
-      const updateData: any = {
-        ...dataToUpdate,
-        pledgeId: pledgeId, // Regular payments maintain their pledge association
-        updatedAt: new Date(),
-      };
+      // Regular payments maintain their pledge association
+      updateData = paymentUpdate(validatedData, pledgeId);
 
-      // Convert numeric fields to strings
-      if (updateData.amount !== undefined) {
-        updateData.amount = updateData.amount.toString();
-      }
-      if (updateData.amountUsd !== undefined) {
-        updateData.amountUsd = updateData.amountUsd.toString();
-      }
-      if (updateData.amountInPledgeCurrency !== undefined) {
-        updateData.amountInPledgeCurrency = updateData.amountInPledgeCurrency.toString();
-      }
-      if (updateData.exchangeRate !== undefined) {
-        updateData.exchangeRate = updateData.exchangeRate.toString();
-      }
-      if (updateData.bonusPercentage !== undefined && updateData.bonusPercentage !== null) {
-        updateData.bonusPercentage = updateData.bonusPercentage.toString();
-      }
-      if (updateData.bonusAmount !== undefined && updateData.bonusAmount !== null) {
-        updateData.bonusAmount = updateData.bonusAmount.toString();
+      paymentCondition = and(eq(payment.id, paymentId), eq(payment.pledgeId, pledgeId));
+    }
+
+    // A bonus that cannot be recalculated rolls the whole edit back
+    const bonusSync = await txDb.transaction(async (tx) => {
+      await tx.update(payment).set(updateData).where(paymentCondition);
+
+      for (const allocation of allocationUpdates) {
+        await tx
+          .update(paymentAllocations)
+          .set(allocation.data)
+          .where(eq(paymentAllocations.id, allocation.id));
       }
 
-      await db
-        .update(payment)
-        .set(updateData)
-        .where(and(eq(payment.id, paymentId), eq(payment.pledgeId, pledgeId)));
+      await updateLedgerTotals(await getPaymentLedgerTargets(paymentId, tx), tx);
 
-      console.log("Regular payment updated successfully");
-    }
+      // Bonus fields are owned by the rule engine, not the client
+      return syncPaymentBonus(paymentId, tx, currentPayment);
+    });
 
     // Fetch and return the updated payment
     const updatedPayment = await db
@@ -580,6 +677,16 @@ export async function PATCH(
       );
     }
 
+    await recordAudit(auth.user, {
+      table: payment,
+      recordId: paymentId,
+      action: "update",
+      before: currentPayment,
+      after: updatedPayment[0],
+      contactId: await getPaymentContactId(paymentId),
+    });
+    await auditBonusSync(auth.user, bonusSync, { paymentFields: false });
+
     // Fetch current allocations for split payments
     let allocations = null;
     if (validatedData.isSplitPayment) {
@@ -627,6 +734,10 @@ export async function PATCH(
       );
     }
 
+    if (error instanceof BonusAlreadyPaidError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
     console.error("Error updating payment:", error);
     return ErrorHandler.handle(error);
   }
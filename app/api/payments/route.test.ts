@@ -0,0 +1,352 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { eq, inArray, sql } from "drizzle-orm";
+import type { SessionUser } from "@/lib/auth/guard";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+const session = vi.hoisted(() => ({ user: null as unknown as SessionUser }));
+vi.mock("@/lib/auth/guard", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/auth/guard")>()),
+  requireRole: async () => ({ user: session.user }),
+}));
+
+const failures = vi.hoisted(() => ({ bonus: false }));
+vi.mock("@/lib/bonus", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/bonus")>();
+  return {
+    ...actual,
+    syncPaymentBonus: (...args: Parameters<typeof actual.syncPaymentBonus>) =>
+      failures.bonus
+        ? Promise.reject(new Error("Bonus engine down"))
+        : actual.syncPaymentBonus(...args),
+  };
+});
+
+import { db } from "@/lib/db";
+import {
+  contact,
+  installmentSchedule,
+  payment,
+  paymentAllocations,
+  paymentPlan,
+  pledge,
+  solicitor,
+  staffUser,
+} from "@/lib/db/schema";
+import { GET, POST } from "./route";
+
+const admin: SessionUser = {
+  id: 1,
+  email: "admin@example.org",
+  name: "Admin",
+  role: "admin",
+  contactId: null,
+  solicitorId: null,
+};
+
+let donorId: number;
+let solicitorId: number;
+
+async function search(term: string) {
+  const response = await GET(
+    new NextRequest(`http://localhost/api/payments?search=${term}`)
+  );
+  expect(response.status).toBe(200);
+  const { payments } = await response.json();
+  return payments.map((row: { notes: string }) => row.notes).sort();
+}
+
+beforeEach(async () => {
+  session.user = admin;
+  await db.execute(
+    sql`TRUNCATE ${staffUser}, ${contact}, ${solicitor}, ${pledge}, ${payment}
+      RESTART IDENTITY CASCADE`
+  );
+  await db.insert(staffUser).values({
+    email: admin.email,
+    name: admin.name,
+    passwordHash: "x",
+    role: admin.role,
+  });
+  [{ id: donorId }] = await db
+    .insert(contact)
+    .values({ firstName: "Dana", lastName: "Donor" })
+    .returning();
+  const [person] = await db
+    .insert(contact)
+    .values({ firstName: "Sam", lastName: "Solicitor" })
+    .returning();
+  [{ id: solicitorId }] = await db
+    .insert(solicitor)
+    .values({ contactId: person.id })
+    .returning();
+  const [gala] = await db
+    .insert(pledge)
+    .values({
+      contactId: donorId,
+      pledgeDate: "2025-01-01",
+      originalAmount: "1000.00",
+      balance: "1000.00",
+    })
+    .returning();
+  await db.insert(payment).values(
+    [
+      { notes: "Gala table", solicitorId },
+      { notes: "Gala raffle", solicitorId: null },
+      { notes: "Gala ad", solicitorId, deletedAt: new Date() },
+      { notes: "Pledge drive", solicitorId },
+    ].map((values) => ({
+      pledgeId: gala.id,
+      amount: "100.00",
+      currency: "USD" as const,
+      paymentDate: "2025-03-01",
+      paymentMethod: "check" as const,
+      ...values,
+    }))
+  );
+});
+
+describe("GET /api/payments", () => {
+  it("never returns a trashed payment from a search", async () => {
+    expect(await search("Gala")).toEqual(["Gala raffle", "Gala table"]);
+  });
+
+  it("keeps a solicitor's search to their own payments", async () => {
+    session.user = { ...admin, role: "solicitor", solicitorId };
+    expect(await search("Gala")).toEqual(["Gala table"]);
+  });
+
+  it("brings a payment back once it is restored", async () => {
+    await db
+      .update(payment)
+      .set({ deletedAt: null })
+      .where(eq(payment.notes, "Gala ad"));
+    expect(await search("ad")).toEqual(["Gala ad"]);
+  });
+});
+
+describe("POST /api/payments", () => {
+  let pledgeId: number;
+  let otherPledgeId: number;
+
+  async function addPledge() {
+    const [created] = await db
+      .insert(pledge)
+      .values({
+        contactId: donorId,
+        pledgeDate: "2025-01-01",
+        originalAmount: "500.00",
+        originalAmountUsd: "500.00",
+        balance: "500.00",
+        balanceUsd: "500.00",
+      })
+      .returning();
+    return created.id;
+  }
+
+  async function addInstallment() {
+    const [plan] = await db
+      .insert(paymentPlan)
+      .values({
+        pledgeId,
+        frequency: "monthly",
+        totalPlannedAmount: "500.00",
+        currency: "USD",
+        installmentAmount: "250.00",
+        numberOfInstallments: 2,
+        startDate: "2025-02-01",
+        remainingAmount: "500.00",
+      })
+      .returning();
+    const [installment] = await db
+      .insert(installmentSchedule)
+      .values({
+        paymentPlanId: plan.id,
+        installmentDate: "2025-02-01",
+        installmentAmount: "250.00",
+        currency: "USD",
+      })
+      .returning();
+    return installment.id;
+  }
+
+  function create(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+    return POST(
+      new NextRequest("http://localhost/api/payments", {
+        method: "POST",
+        body: JSON.stringify({
+          currency: "USD",
+          exchangeRate: 1,
+          paymentDate: "2025-03-01",
+          paymentMethod: "check",
+          paymentStatus: "completed",
+          ...body,
+        }),
+        headers: { "Content-Type": "application/json", ...headers },
+      })
+    );
+  }
+
+  const balances = async () =>
+    (
+      await db
+        .select()
+        .from(pledge)
+        .where(inArray(pledge.id, [pledgeId, otherPledgeId]))
+        .orderBy(pledge.id)
+    ).map((row) => [row.totalPaid, row.balance]);
+
+  beforeEach(async () => {
+    pledgeId = await addPledge();
+    otherPledgeId = await addPledge();
+  });
+
+  afterEach(() => {
+    failures.bonus = false;
+    vi.restoreAllMocks();
+  });
+
+  it("records a payment and updates its pledge and installment", async () => {
+    const installmentId = await addInstallment();
+    const response = await create({
+      amount: 250,
+      pledgeId,
+      installmentScheduleId: installmentId,
+    });
+    expect(response.status).toBe(201);
+    const { payment: created } = await response.json();
+    expect(created).toMatchObject({ amount: "250.00", amountUsd: "250.00", pledgeId });
+
+    expect(await balances()).toEqual([
+      ["250.00", "250.00"],
+      ["0.00", "500.00"],
+    ]);
+    const [installment] = await db
+      .select()
+      .from(installmentSchedule)
+      .where(eq(installmentSchedule.id, installmentId));
+    expect(installment).toMatchObject({
+      status: "paid",
+      paidDate: "2025-03-01",
+      paymentId: created.id,
+    });
+  });
+
+  it("splits a payment across pledges", async () => {
+    const response = await create({
+      amount: 300,
+      allocations: [
+        { pledgeId, amount: 100 },
+        { pledgeId: otherPledgeId, amount: 200 },
+      ],
+    });
+    expect(response.status).toBe(201);
+    const body = await response.json();
+    expect(body).toMatchObject({ payment: { pledgeId: null }, count: 2 });
+    expect(await balances()).toEqual([
+      ["100.00", "400.00"],
+      ["200.00", "300.00"],
+    ]);
+  });
+
+  it("writes nothing when part of the payment fails", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const installmentId = await addInstallment();
+    failures.bonus = true;
+
+    const response = await create({
+      amount: 250,
+      allocations: [{ pledgeId, amount: 250, installmentScheduleId: installmentId }],
+    });
+    expect(response.status).toBe(500);
+    expect(error).toHaveBeenCalled();
+    expect(await db.select().from(paymentAllocations)).toEqual([]);
+    expect(
+      await db.select().from(payment).where(eq(payment.amount, "250.00"))
+    ).toEqual([]);
+    const [installment] = await db.select().from(installmentSchedule);
+    expect(installment.status).toBe("pending");
+    expect(await balances()).toEqual([
+      ["0.00", "500.00"],
+      ["0.00", "500.00"],
+    ]);
+  });
+
+  it("refuses an installment of another pledge", async () => {
+    const installmentId = await addInstallment();
+    const response = await create({
+      amount: 250,
+      pledgeId: otherPledgeId,
+      installmentScheduleId: installmentId,
+    });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe(
+      `Installment ${installmentId} does not belong to pledge ${otherPledgeId}`
+    );
+  });
+
+  it("answers for a missing pledge without writing", async () => {
+    const response = await create({
+      amount: 100,
+      allocations: [
+        { pledgeId, amount: 50 },
+        { pledgeId: 404, amount: 50 },
+      ],
+    });
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toBe("Pledges not found: 404");
+    expect(await db.select().from(paymentAllocations)).toEqual([]);
+  });
+
+  it("books a retried submission only once", async () => {
+    const headers = { "Idempotency-Key": "form-1" };
+    const first = await create({ amount: 100, pledgeId }, headers);
+    expect(first.status).toBe(201);
+    const { payment: created } = await first.json();
+
+    const retry = await create({ amount: 100, pledgeId }, headers);
+    expect(retry.status).toBe(200);
+    expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+    expect((await retry.json()).payment.id).toBe(created.id);
+    expect(
+      await db.select().from(payment).where(eq(payment.pledgeId, pledgeId))
+    ).toHaveLength(1);
+    expect(await balances()).toEqual([
+      ["100.00", "400.00"],
+      ["0.00", "500.00"],
+    ]);
+  });
+
+  it("refuses to replay a payment that was trashed", async () => {
+    const headers = { "Idempotency-Key": "form-2" };
+    const first = await create({ amount: 100, pledgeId }, headers);
+    const { payment: created } = await first.json();
+    await db
+      .update(payment)
+      .set({ deletedAt: new Date() })
+      .where(eq(payment.id, created.id));
+
+    const retry = await create({ amount: 100, pledgeId }, headers);
+    expect(retry.status).toBe(409);
+    expect((await retry.json()).error).toBe(
+      `Payment ${created.id}, recorded for this Idempotency-Key, is in the trash`
+    );
+  });
+
+  it("refuses a key reused for a different payment", async () => {
+    const headers = { "Idempotency-Key": "form-3" };
+    const first = await create({ amount: 100, pledgeId }, headers);
+    const { payment: created } = await first.json();
+
+    const reused = await create({ amount: 250, pledgeId }, headers);
+    expect(reused.status).toBe(422);
+    expect((await reused.json()).error).toBe(
+      `This Idempotency-Key was already used for payment ${created.id}, with a different request`
+    );
+    expect(await balances()).toEqual([
+      ["100.00", "400.00"],
+      ["0.00", "500.00"],
+    ]);
+  });
+});
@@ -1,8 +1,21 @@
+import { createHash } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/lib/db";
-import { payment, pledge, paymentAllocations } from "@/lib/db/schema";
-import { sql, eq, and } from "drizzle-orm";
+import { db, txDb, type DbTransaction } from "@/lib/db";
+import {
+  payment,
+  pledge,
+  paymentAllocations,
+  paymentPlan,
+  installmentSchedule,
+} from "@/lib/db/schema";
+import { sql, eq, and, or, ilike, inArray, isNull, type SQL } from "drizzle-orm";
 import { z } from "zod";
+import { requireRole, solicitorScope } from "@/lib/auth/guard";
+import { ALL_ROLES, FINANCE_ROLES } from "@/lib/auth/roles";
+import { recordAudit } from "@/lib/audit";
+import { auditBonusSync, syncPaymentBonus } from "@/lib/bonus";
+import { convertAmount, moneyString, rateString, toUsd } from "@/lib/currency";
+import { getPaymentLedgerTargets, updateLedgerTotals } from "@/lib/pledge-totals";
 
 const paymentMethodValues = [
   "ach", "bill_pay", "cash", "check", "credit", "credit_card", "expected",
@@ -68,9 +81,8 @@ const paymentSchema = z.object({
   methodDetail: z.enum(methodDetailValues).optional().nullable(),
   paymentStatus: z.enum(paymentStatusValues),
   referenceNumber: z.string().optional().nullable(),
-  receiptNumber: z.string().optional().nullable(),
+  // Receipt numbers are only assigned by issuing a receipt (/api/receipts)
   receiptType: z.enum(receiptTypeValues).optional().nullable(),
-  receiptIssued: z.boolean(),
   notes: z.string().optional().nullable(),
   solicitorId: z.preprocess((val) => val ? parseInt(String(val), 10) : null, z.number().positive().nullable()).optional(),
   bonusPercentage: z.number().min(0).max(100).optional().nullable(),
@@ -79,6 +91,7 @@ const paymentSchema = z.object({
   
   // Either single payment or allocations
   pledgeId: z.preprocess((val) => val ? parseInt(String(val), 10) : null, z.number().positive().nullable()).optional(),
+  installmentScheduleId: z.preprocess((val) => val ? parseInt(String(val), 10) : null, z.number().positive().nullable()).optional(),
   allocations: z.array(allocationSchema).optional(),
 }).refine((data) => {
   // Either pledgeId or allocations must be provided, but not both
@@ -100,30 +113,118 @@ const paymentSchema = z.object({
   message: "Total allocation amount must equal the payment amount",
 });
 
+// Resolves the pledge and plan an installment belongs to, for checking that
+// a payment is applied to one of its own pledge's installments.
+async function getInstallmentOwner(installmentScheduleId: number) {
+  const [owner] = await db
+    .select({
+      pledgeId: paymentPlan.pledgeId,
+      paymentPlanId: paymentPlan.id,
+    })
+    .from(installmentSchedule)
+    .innerJoin(paymentPlan, eq(installmentSchedule.paymentPlanId, paymentPlan.id))
+    .where(eq(installmentSchedule.id, installmentScheduleId))
+    .limit(1);
+  return owner ?? null;
+}
+
+// Postgres reports unique violations as 23505; drizzle wraps driver errors,
+// so the code may sit on the cause.
+function isUniqueViolation(error: unknown): boolean {
+  const candidates = [error, (error as { cause?: unknown } | null)?.cause];
+  return candidates.some(
+    (candidate) =>
+      !!candidate &&
+      typeof candidate === "object" &&
+      (candidate as { code?: unknown }).code === "23505"
+  );
+}
+
+// Identifies what a request asked for, independent of key order and spacing
+const requestHash = (data: z.infer<typeof paymentSchema>) =>
+  createHash("sha256").update(JSON.stringify(data)).digest("hex");
+
+// Answers a retried POST with the payment its first attempt created. One
+// deleted since is not passed off as recorded, nor is one made from a
+// different request that reused the key.
+async function replayPayment(idempotencyKey: string, hash: string) {
+  const [existingPayment] = await db
+    .select()
+    .from(payment)
+    .where(eq(payment.idempotencyKey, idempotencyKey))
+    .limit(1);
+
+  if (!existingPayment) return null;
+  if (
+    existingPayment.idempotencyRequestHash &&
+    existingPayment.idempotencyRequestHash !== hash
+  ) {
+    return NextResponse.json(
+      {
+        error: `This Idempotency-Key was already used for payment ${existingPayment.id}, with a different request`,
+      },
+      { status: 422 }
+    );
+  }
+  if (existingPayment.deletedAt) {
+    return NextResponse.json(
+      {
+        error: `Payment ${existingPayment.id}, recorded for this Idempotency-Key, is in the trash`,
+      },
+      { status: 409 }
+    );
+  }
+
+  const allocations = await db
+    .select()
+    .from(paymentAllocations)
+    .where(eq(paymentAllocations.paymentId, existingPayment.id));
+
+  return NextResponse.json(
+    {
+      message: "Payment already recorded",
+      payment: existingPayment,
+      allocations,
+      count: allocations.length,
+      replayed: true,
+    },
+    { status: 200, headers: { "Idempotent-Replayed": "true" } }
+  );
+}
+
 export async function POST(request: NextRequest) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  // Sent by the payment forms so a retried submission is never booked twice
+  const idempotencyKey = request.headers.get("Idempotency-Key")?.trim() || null;
+  let idempotencyRequestHash: string | null = null;
+
   try {
     const body = await request.json();
-    console.log('Received payload:', JSON.stringify(body, null, 2));
-    
     const validatedData = paymentSchema.parse(body);
-    console.log('Validated data:', JSON.stringify(validatedData, null, 2));
+
+    if (idempotencyKey) {
+      idempotencyRequestHash = requestHash(validatedData);
+      const replay = await replayPayment(idempotencyKey, idempotencyRequestHash);
+      if (replay) return replay;
+    }
 
     const paymentDate = validatedData.paymentDate;
     const receivedDate = validatedData.receivedDate || paymentDate;
+    const isPaid = validatedData.paymentStatus === "completed";
 
     // Common payment data that applies to all payments
     const commonPaymentData = {
       currency: validatedData.currency,
-      exchangeRate: Number(validatedData.exchangeRate.toFixed(4)).toString(),
+      exchangeRate: rateString(validatedData.exchangeRate),
       paymentDate,
       receivedDate,
       methodDetail: validatedData.methodDetail || null,
       paymentMethod: validatedData.paymentMethod,
       paymentStatus: validatedData.paymentStatus,
       referenceNumber: validatedData.referenceNumber || null,
-      receiptNumber: validatedData.receiptNumber || null,
       receiptType: validatedData.receiptType || null,
-      receiptIssued: validatedData.receiptIssued ?? false,
       solicitorId: validatedData.solicitorId || null,
       bonusPercentage: validatedData.bonusPercentage !== null && validatedData.bonusPercentage !== undefined
         ? Number(validatedData.bonusPercentage.toFixed(2)).toString()
@@ -133,6 +234,26 @@ export async function POST(request: NextRequest) {
         : null,
       bonusRuleId: validatedData.bonusRuleId || null,
       notes: validatedData.notes || null,
+      idempotencyKey,
+      idempotencyRequestHash,
+    };
+
+    // Marks the installments a completed payment covers as paid
+    const markInstallmentsPaid = async (
+      tx: DbTransaction,
+      paymentId: number,
+      installmentIds: number[]
+    ) => {
+      if (!isPaid || installmentIds.length === 0) return;
+      await tx
+        .update(installmentSchedule)
+        .set({
+          status: "paid",
+          paidDate: paymentDate,
+          paymentId,
+          updatedAt: new Date(),
+        })
+        .where(inArray(installmentSchedule.id, installmentIds));
     };
 
     // Check if we have allocations (split payment)
@@ -140,11 +261,12 @@ export async function POST(request: NextRequest) {
       // Handle split payment - create one payment entry with multiple allocations
       
       // Verify all pledges exist before creating payment
-      const pledgeIds = validatedData.allocations.map(alloc => alloc.pledgeId);
+      // Two allocations may share a pledge
+      const pledgeIds = [...new Set(validatedData.allocations.map(alloc => alloc.pledgeId))];
       const existingPledges = await db
         .select()
         .from(pledge)
-        .where(sql`${pledge.id} IN (${sql.join(pledgeIds.map(id => sql`${id}`), sql`, `)})`);
+        .where(and(inArray(pledge.id, pledgeIds), isNull(pledge.deletedAt)));
 
       if (existingPledges.length !== pledgeIds.length) {
         const foundIds = existingPledges.map(p => p.id);
@@ -155,65 +277,91 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Calculate USD amount: payment amount / payment exchange rate
-      const amountUsd = validatedData.amount / validatedData.exchangeRate;
+      for (const allocation of validatedData.allocations) {
+        if (!allocation.installmentScheduleId) continue;
+        const owner = await getInstallmentOwner(allocation.installmentScheduleId);
+        if (owner === null || owner.pledgeId !== allocation.pledgeId) {
+          return NextResponse.json(
+            { error: `Installment ${allocation.installmentScheduleId} does not belong to pledge ${allocation.pledgeId}` },
+            { status: 400 }
+          );
+        }
+      }
+
+      const amountUsd = toUsd(validatedData.amount, validatedData.exchangeRate);
 
       // Create single payment entry (without pledgeId for split payments)
       const splitPaymentData = {
         ...commonPaymentData,
         pledgeId: null, // No single pledge for split payments
-        amount: Number(validatedData.amount.toFixed(2)).toString(),
-        amountUsd: Number(amountUsd.toFixed(2)).toString(),
+        amount: moneyString(validatedData.amount),
+        amountUsd: moneyString(amountUsd),
         amountInPledgeCurrency: null, // Not applicable for split payments
       };
 
-      console.log('Creating split payment:', splitPaymentData);
-
-      const paymentResult = await db
-        .insert(payment)
-        .values(splitPaymentData)
-        .returning();
+      // The payment, its allocations, installments, bonus and the totals they
+      // change are written as one unit
+      const { createdPayment, createdAllocations, bonusSync } = await txDb.transaction(async (tx) => {
+        const [createdPayment] = await tx
+          .insert(payment)
+          .values(splitPaymentData)
+          .returning();
 
-      if (paymentResult.length === 0) {
-        return NextResponse.json(
-          { error: "Failed to create payment" },
-          { status: 500 }
-        );
-      }
+        const createdAllocations = [];
+        for (const allocation of validatedData.allocations!) {
+          const allocationAmountUsd = toUsd(allocation.amount, validatedData.exchangeRate);
+
+          const allocationData = {
+            paymentId: createdPayment.id,
+            pledgeId: allocation.pledgeId,
+            installmentScheduleId: allocation.installmentScheduleId || null,
+            allocatedAmount: moneyString(allocation.amount),
+            currency: validatedData.currency,
+            allocatedAmountUsd: moneyString(allocationAmountUsd),
+            notes: allocation.notes || null,
+          };
 
-      const createdPayment = paymentResult[0];
-
-      // Create allocations
-      const allocationPromises = validatedData.allocations.map(async (allocation) => {
-        const targetPledge = existingPledges.find(p => p.id === allocation.pledgeId)!;
-        
-        // Calculate USD amount for this allocation
-        const allocationAmountUsd = allocation.amount / validatedData.exchangeRate;
-
-        const allocationData = {
-          paymentId: createdPayment.id,
-          pledgeId: allocation.pledgeId,
-          installmentScheduleId: allocation.installmentScheduleId || null,
-          allocatedAmount: Number(allocation.amount.toFixed(2)).toString(),
-          currency: validatedData.currency,
-          allocatedAmountUsd: Number(allocationAmountUsd.toFixed(2)).toString(),
-          notes: allocation.notes || null,
-        };
+          const [createdAllocation] = await tx
+            .insert(paymentAllocations)
+            .values(allocationData)
+            .returning();
+          createdAllocations.push(createdAllocation);
+        }
 
-        console.log(`Creating allocation for pledge ${allocation.pledgeId}:`, allocationData);
+        await markInstallmentsPaid(
+          tx,
+          createdPayment.id,
+          createdAllocations
+            .map((allocation) => allocation.installmentScheduleId)
+            .filter((id): id is number => id !== null)
+        );
 
-        const allocationResult = await db
-          .insert(paymentAllocations)
-          .values(allocationData)
-          .returning();
+        const bonusSync = await syncPaymentBonus(createdPayment.id, tx);
 
-        // Update pledge totals
-        await updatePledgeTotals(allocation.pledgeId);
+        // Update pledge and payment plan totals
+        await updateLedgerTotals(await getPaymentLedgerTargets(createdPayment.id, tx), tx);
 
-        return allocationResult[0];
+        return {
+          createdPayment: bonusSync?.payment ?? createdPayment,
+          createdAllocations,
+          bonusSync,
+        };
       });
 
-      const createdAllocations = await Promise.all(allocationPromises);
+      // A split payment can cover pledges of several contacts; record it on
+      // each of their histories.
+      const contactIds = new Set(existingPledges.map((p) => p.contactId));
+      for (const contactId of contactIds) {
+        await recordAudit(auth.user, {
+          table: payment,
+          recordId: createdPayment.id,
+          action: "create",
+          after: { ...createdPayment, allocations: createdAllocations },
+          contactId,
+        });
+      }
+      // The create entry above already holds the final bonus fields
+      await auditBonusSync(auth.user, bonusSync, { paymentFields: false });
 
       return NextResponse.json(
         {
@@ -230,7 +378,9 @@ export async function POST(request: NextRequest) {
       const currentPledge = await db
         .select()
         .from(pledge)
-        .where(eq(pledge.id, validatedData.pledgeId))
+        .where(
+          and(eq(pledge.id, validatedData.pledgeId), isNull(pledge.deletedAt))
+        )
         .limit(1);
 
       if (currentPledge.length === 0) {
@@ -238,45 +388,68 @@ export async function POST(request: NextRequest) {
       }
 
       const pledgeData = currentPledge[0];
+
+      let paymentPlanId: number | null = null;
+      if (validatedData.installmentScheduleId) {
+        const owner = await getInstallmentOwner(validatedData.installmentScheduleId);
+        if (owner === null || owner.pledgeId !== pledgeData.id) {
+          return NextResponse.json(
+            { error: `Installment ${validatedData.installmentScheduleId} does not belong to pledge ${pledgeData.id}` },
+            { status: 400 }
+          );
+        }
+        paymentPlanId = owner.paymentPlanId;
+      }
       
-      // Calculate USD amount: payment amount / payment exchange rate
-      const amountUsd = validatedData.amount / validatedData.exchangeRate;
-      
-      // Calculate amount in pledge currency
-      const pledgeExchangeRate = parseFloat(pledgeData.exchangeRate || "1");
+      const amountUsd = toUsd(validatedData.amount, validatedData.exchangeRate);
       const amountInPledgeCurrency = validatedData.currency === pledgeData.currency
         ? validatedData.amount
-        : amountUsd * pledgeExchangeRate;
+        : convertAmount(validatedData.amount, validatedData.exchangeRate, pledgeData.exchangeRate);
 
       const newPaymentData = {
         ...commonPaymentData,
         pledgeId: validatedData.pledgeId,
-        amount: Number(validatedData.amount.toFixed(2)).toString(),
-        amountUsd: Number(amountUsd.toFixed(2)).toString(),
-        amountInPledgeCurrency: Number(amountInPledgeCurrency.toFixed(2)).toString(),
+        paymentPlanId,
+        installmentScheduleId: validatedData.installmentScheduleId || null,
+        amount: moneyString(validatedData.amount),
+        amountUsd: moneyString(amountUsd),
+        amountInPledgeCurrency: moneyString(amountInPledgeCurrency),
       };
 
-      console.log('Creating single payment:', newPaymentData);
-
-      const paymentResult = await db
-        .insert(payment)
-        .values(newPaymentData)
-        .returning();
+      const { createdPayment, bonusSync } = await txDb.transaction(async (tx) => {
+        const [createdPayment] = await tx
+          .insert(payment)
+          .values(newPaymentData)
+          .returning();
 
-      if (paymentResult.length === 0) {
-        return NextResponse.json(
-          { error: "Failed to create payment" },
-          { status: 500 }
+        await markInstallmentsPaid(
+          tx,
+          createdPayment.id,
+          createdPayment.installmentScheduleId ? [createdPayment.installmentScheduleId] : []
         );
-      }
 
-      // Update pledge totals
-      await updatePledgeTotals(validatedData.pledgeId);
+        const bonusSync = await syncPaymentBonus(createdPayment.id, tx);
+
+        // Update pledge and payment plan totals
+        await updateLedgerTotals(await getPaymentLedgerTargets(createdPayment.id, tx), tx);
+
+        return { createdPayment: bonusSync?.payment ?? createdPayment, bonusSync };
+      });
+
+      await recordAudit(auth.user, {
+        table: payment,
+        recordId: createdPayment.id,
+        action: "create",
+        after: createdPayment,
+        contactId: pledgeData.contactId,
+      });
+      // The create entry above already holds the final bonus fields
+      await auditBonusSync(auth.user, bonusSync, { paymentFields: false });
 
       return NextResponse.json(
         {
           message: "Payment created successfully",
-          payment: paymentResult[0],
+          payment: createdPayment,
         },
         { status: 201 }
       );
@@ -298,6 +471,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // A concurrent retry committed first; answer with its payment
+    if (idempotencyKey && idempotencyRequestHash && isUniqueViolation(error)) {
+      const replay = await replayPayment(idempotencyKey, idempotencyRequestHash);
+      if (replay) return replay;
+    }
+
     console.error("Error creating payment:", error);
     return NextResponse.json(
       { error: "Internal Server Error" },
@@ -306,68 +485,10 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Enhanced helper function to update pledge totals
-async function updatePledgeTotals(pledgeId: number) {
-  // Calculate totals from direct payments
-  const directPayments = await db
-    .select({
-      totalInPledgeCurrency: sql<number>`COALESCE(SUM(${payment.amountInPledgeCurrency}::numeric), 0)`,
-      totalUsd: sql<number>`COALESCE(SUM(${payment.amountUsd}::numeric), 0)`,
-    })
-    .from(payment)
-    .where(eq(payment.pledgeId, pledgeId));
-
-  // Calculate totals from allocated payments
-  const allocatedPayments = await db
-    .select({
-      totalAllocated: sql<number>`COALESCE(SUM(${paymentAllocations.allocatedAmount}::numeric), 0)`,
-      totalAllocatedUsd: sql<number>`COALESCE(SUM(${paymentAllocations.allocatedAmountUsd}::numeric), 0)`,
-    })
-    .from(paymentAllocations)
-    .where(eq(paymentAllocations.pledgeId, pledgeId));
-
-  const currentPledge = await db
-    .select()
-    .from(pledge)
-    .where(eq(pledge.id, pledgeId))
-    .limit(1);
-
-  if (currentPledge.length === 0) return;
-
-  const pledgeData = currentPledge[0];
-  const originalAmount = parseFloat(pledgeData.originalAmount);
-  const originalAmountUsd = parseFloat(pledgeData.originalAmountUsd || "0");
-
-  // Combine direct payments and allocations
-  const directTotal = Number(directPayments[0].totalInPledgeCurrency || 0);
-  const directTotalUsd = Number(directPayments[0].totalUsd || 0);
-  const allocatedTotal = Number(allocatedPayments[0].totalAllocated || 0);
-  const allocatedTotalUsd = Number(allocatedPayments[0].totalAllocatedUsd || 0);
-
-  // For pledge currency totals, we need to convert allocated amounts to pledge currency
-  const pledgeExchangeRate = parseFloat(pledgeData.exchangeRate || "1");
-  const allocatedTotalInPledgeCurrency = pledgeData.currency === "USD" 
-    ? allocatedTotalUsd 
-    : allocatedTotalUsd * pledgeExchangeRate;
-
-  const newTotalPaid = directTotal + allocatedTotalInPledgeCurrency;
-  const newTotalPaidUsd = directTotalUsd + allocatedTotalUsd;
-  const newBalance = Math.max(0, originalAmount - newTotalPaid);
-  const newBalanceUsd = Math.max(0, originalAmountUsd - newTotalPaidUsd);
-
-  await db
-    .update(pledge)
-    .set({
-      totalPaid: newTotalPaid.toString(),
-      totalPaidUsd: newTotalPaidUsd.toString(),
-      balance: newBalance.toString(),
-      balanceUsd: newBalanceUsd.toString(),
-      updatedAt: new Date(),
-    })
-    .where(eq(pledge.id, pledgeId));
-}
-
 export async function GET(request: NextRequest) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const params = Object.fromEntries(searchParams.entries());
@@ -402,7 +523,7 @@ export async function GET(request: NextRequest) {
     } = parsedParams.data;
 
     const offset = (page - 1) * limit;
-    const conditions = [];
+    const conditions: (SQL | undefined)[] = [isNull(payment.deletedAt)];
 
     if (pledgeId) {
       // Include both direct payments and allocated payments for this pledge
@@ -428,6 +549,11 @@ export async function GET(request: NextRequest) {
       conditions.push(eq(payment.solicitorId, solicitorId));
     }
 
+    const scopedSolicitorId = solicitorScope(auth.user);
+    if (scopedSolicitorId) {
+      conditions.push(eq(payment.solicitorId, scopedSolicitorId));
+    }
+
     if (hasSolicitor !== undefined) {
       if (hasSolicitor) {
         conditions.push(sql`${payment.solicitorId} IS NOT NULL`);
@@ -438,9 +564,12 @@ export async function GET(request: NextRequest) {
 
     if (search) {
       conditions.push(
-        sql`${payment.referenceNumber} ILIKE ${"%" + search + "%"} OR ${payment.checkNumber
-          } ILIKE ${"%" + search + "%"} OR ${payment.notes} ILIKE ${"%" + search + "%"
-          } OR ${payment.receiptNumber} ILIKE ${"%" + search + "%"}`
+        or(
+          ilike(payment.referenceNumber, `%${search}%`),
+          ilike(payment.checkNumber, `%${search}%`),
+          ilike(payment.notes, `%${search}%`),
+          ilike(payment.receiptNumber, `%${search}%`)
+        )
       );
     }
 
@@ -460,7 +589,7 @@ export async function GET(request: NextRequest) {
       conditions.push(sql`${payment.paymentDate} <= ${endDate}`);
     }
 
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+    const whereClause = and(...conditions);
 
     const paymentsQuery = db
       .select({
@@ -488,6 +617,10 @@ export async function GET(request: NextRequest) {
         notes: payment.notes,
         paymentPlanId: payment.paymentPlanId,
         installmentScheduleId: payment.installmentScheduleId,
+        refundOfPaymentId: payment.refundOfPaymentId,
+        refundType: payment.refundType,
+        refundReason: payment.refundReason,
+        refundedAmount: payment.refundedAmount,
         createdAt: payment.createdAt,
         updatedAt: payment.updatedAt,
         pledgeDescription: sql<string>`(
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { payoutBatch } from "@/lib/db/schema";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import { getSolicitorContactId, recordAudit } from "@/lib/audit";
+import {
+  approvePayoutBatch,
+  getPayoutBatch,
+  PayoutBatchStateError,
+} from "@/lib/bonus";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const batchId = parseInt(id, 10);
+  try {
+    const result = await txDb.transaction(async (tx) => {
+      const batch = await getPayoutBatch(batchId, tx);
+      if (!batch) return null;
+      return {
+        before: batch,
+        after: await approvePayoutBatch(batch, auth.user.id, tx),
+      };
+    });
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Payout batch not found" },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(auth.user, {
+      table: payoutBatch,
+      recordId: batchId,
+      action: "update",
+      before: result.before,
+      after: result.after,
+      contactId: await getSolicitorContactId(result.after.solicitorId),
+    });
+
+    return NextResponse.json({ payoutBatch: result.after });
+  } catch (error) {
+    if (error instanceof PayoutBatchStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error approving payout batch:", error);
+    return NextResponse.json(
+      { error: "Failed to approve payout batch" },
+      { status: 500 }
+    );
+  }
+}
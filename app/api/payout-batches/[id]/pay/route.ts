@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { bonusCalculation, payoutBatch } from "@/lib/db/schema";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import { getSolicitorContactId, recordAudit } from "@/lib/audit";
+import {
+  getPayoutBatch,
+  PayoutBatchStateError,
+  payPayoutBatch,
+} from "@/lib/bonus";
+import { payoutBatchPaySchema } from "@/lib/form-schemas/payout-batch";
+
+// Records that an approved batch has been paid to the solicitor, marking
+// every bonus in it as paid.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const batchId = parseInt(id, 10);
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = payoutBatchPaySchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid payout",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await txDb.transaction(async (tx) => {
+      const batch = await getPayoutBatch(batchId, tx);
+      if (!batch) return null;
+      return {
+        previous: batch,
+        ...(await payPayoutBatch(
+          batch,
+          auth.user.id,
+          parsed.data.paymentReference ?? null,
+          tx
+        )),
+      };
+    });
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Payout batch not found" },
+        { status: 404 }
+      );
+    }
+
+    const contactId = await getSolicitorContactId(result.batch.solicitorId);
+    await recordAudit(auth.user, {
+      table: payoutBatch,
+      recordId: batchId,
+      action: "update",
+      before: result.previous,
+      after: result.batch,
+      contactId,
+    });
+    for (const updated of result.calculations) {
+      await recordAudit(auth.user, {
+        table: bonusCalculation,
+        recordId: updated.id,
+        action: "update",
+        before: result.before.find((c) => c.id === updated.id),
+        after: updated,
+        contactId,
+      });
+    }
+
+    return NextResponse.json({
+      payoutBatch: result.batch,
+      bonusCalculations: result.calculations,
+      count: result.calculations.length,
+    });
+  } catch (error) {
+    if (error instanceof PayoutBatchStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error paying payout batch:", error);
+    return NextResponse.json(
+      { error: "Failed to pay payout batch" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole, solicitorScope } from "@/lib/auth/guard";
+import { ALL_ROLES } from "@/lib/auth/roles";
+import { getPayoutBatch, getPayoutStatement } from "@/lib/bonus";
+import { toCsv } from "@/lib/csv";
+
+// The solicitor's commission statement for a batch: every payment, the rule
+// applied and the totals. CSV by default; `format=json` returns the data.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const batchId = parseInt(id, 10);
+  try {
+    const batch = await getPayoutBatch(batchId);
+    const scopedSolicitorId = solicitorScope(auth.user);
+
+    if (!batch || (scopedSolicitorId && batch.solicitorId !== scopedSolicitorId)) {
+      return NextResponse.json(
+        { error: "Payout batch not found" },
+        { status: 404 }
+      );
+    }
+
+    const statement = await getPayoutStatement(batch);
+    const format = new URL(request.url).searchParams.get("format");
+    if (format === "json") {
+      return NextResponse.json({ statement });
+    }
+
+    const csv = toCsv([
+      ["Solicitor", statement.solicitorName],
+      ["Solicitor Code", statement.solicitorCode],
+      ["Period", `${batch.periodStart} to ${batch.periodEnd}`],
+      ["Status", batch.status],
+      [],
+      [
+        "Payment Date",
+        "Payment ID",
+        "Reference",
+        "Donor",
+        "Payment Amount (USD)",
+        "Rule",
+        "Bonus %",
+        "Bonus (USD)",
+      ],
+      ...statement.lines.map((line) => [
+        line.paymentDate,
+        line.paymentId,
+        line.referenceNumber,
+        line.donorName,
+        line.paymentAmount.toFixed(2),
+        line.ruleName ?? "Commission rate",
+        line.bonusPercentage.toFixed(2),
+        line.bonusAmount.toFixed(2),
+      ]),
+      [
+        "Total",
+        null,
+        null,
+        null,
+        statement.totalPayments.toFixed(2),
+        null,
+        null,
+        statement.totalBonus.toFixed(2),
+      ],
+    ]);
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="payout-batch-${batch.id}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error building payout statement:", error);
+    return NextResponse.json(
+      { error: "Failed to build payout statement" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { db, txDb } from "@/lib/db";
+import { contact, payoutBatch, solicitor } from "@/lib/db/schema";
+import { requireRole, solicitorScope } from "@/lib/auth/guard";
+import { ALL_ROLES, FINANCE_ROLES } from "@/lib/auth/roles";
+import { getSolicitorContactId, recordAudit } from "@/lib/audit";
+import { createPayoutBatches, OPEN_BATCH_STATUSES } from "@/lib/bonus";
+import { payoutBatchSchema } from "@/lib/form-schemas/payout-batch";
+
+const BATCH_STATUSES = ["draft", "approved", "paid", "cancelled"] as const;
+
+// Lists payout batches, newest first. `status=open` returns draft and
+// approved batches.
+export async function GET(request: NextRequest) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const solicitorId = searchParams.get("solicitorId");
+    const status = searchParams.get("status");
+    const whereConditions = [];
+
+    if (solicitorId) {
+      whereConditions.push(eq(payoutBatch.solicitorId, parseInt(solicitorId)));
+    }
+
+    const scopedSolicitorId = solicitorScope(auth.user);
+    if (scopedSolicitorId) {
+      whereConditions.push(eq(payoutBatch.solicitorId, scopedSolicitorId));
+    }
+
+    if (status === "open") {
+      whereConditions.push(inArray(payoutBatch.status, [...OPEN_BATCH_STATUSES]));
+    } else if (status) {
+      const batchStatus = BATCH_STATUSES.find((value) => value === status);
+      if (!batchStatus) {
+        return NextResponse.json(
+          { error: `Unknown status '${status}'` },
+          { status: 400 }
+        );
+      }
+      whereConditions.push(eq(payoutBatch.status, batchStatus));
+    }
+
+    const batches = await db
+      .select({
+        id: payoutBatch.id,
+        solicitorId: payoutBatch.solicitorId,
+        periodStart: payoutBatch.periodStart,
+        periodEnd: payoutBatch.periodEnd,
+        status: payoutBatch.status,
+        totalAmount: payoutBatch.totalAmount,
+        calculationCount: payoutBatch.calculationCount,
+        approvedAt: payoutBatch.approvedAt,
+        paidAt: payoutBatch.paidAt,
+        paymentReference: payoutBatch.paymentReference,
+        notes: payoutBatch.notes,
+        createdAt: payoutBatch.createdAt,
+        // Solicitor info
+        solicitorFirstName: contact.firstName,
+        solicitorLastName: contact.lastName,
+        solicitorCode: solicitor.solicitorCode,
+      })
+      .from(payoutBatch)
+      .innerJoin(solicitor, eq(payoutBatch.solicitorId, solicitor.id))
+      .innerJoin(contact, eq(solicitor.contactId, contact.id))
+      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+      .orderBy(desc(payoutBatch.createdAt), desc(payoutBatch.id));
+
+    return NextResponse.json({ payoutBatches: batches });
+  } catch (error) {
+    console.error("Error fetching payout batches:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch payout batches" },
+      { status: 500 }
+    );
+  }
+}
+
+// Creates one draft batch per solicitor from the unpaid, unbatched bonuses of
+// payments dated within the period.
+export async function POST(request: NextRequest) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json();
+    const parsed = payoutBatchSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid payout batch",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const batches = await txDb.transaction((tx) =>
+      createPayoutBatches(parsed.data, auth.user.id, tx)
+    );
+
+    for (const batch of batches) {
+      await recordAudit(auth.user, {
+        table: payoutBatch,
+        recordId: batch.id,
+        action: "create",
+        after: batch,
+        contactId: await getSolicitorContactId(batch.solicitorId),
+      });
+    }
+
+    return NextResponse.json(
+      {
+        message:
+          batches.length > 0
+            ? `Created ${batches.length} payout batch(es)`
+            : "No unpaid bonuses in that period",
+        payoutBatches: batches,
+        count: batches.length,
+      },
+      { status: batches.length > 0 ? 201 : 200 }
+    );
+  } catch (error) {
+    console.error("Error creating payout batches:", error);
+    return NextResponse.json(
+      { error: "Failed to create payout batches" },
+      { status: 500 }
+    );
+  }
+}
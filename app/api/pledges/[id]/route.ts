@@ -1,17 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
-import { db } from "@/lib/db";
+import { db, txDb } from "@/lib/db";
 import {
   pledge,
   contact,
   category,
   payment,
   paymentPlan,
-  bonusCalculation,
   NewPledge,
 } from "@/lib/db/schema";
-import { sql, eq } from "drizzle-orm";
+import { and, eq, isNull, sql } from "drizzle-orm";
 import { z } from "zod";
 import { ErrorHandler } from "@/lib/error-handler";
+import {
+  requireRole,
+  solicitorDonorCondition,
+  solicitorScope,
+} from "@/lib/auth/guard";
+import { ALL_ROLES, FINANCE_ROLES } from "@/lib/auth/roles";
+import { recordAudit } from "@/lib/audit";
+import { moneyString, rateString, toNumber, toUsd } from "@/lib/currency";
+import { BonusAlreadyPaidError } from "@/lib/bonus";
+import { auditTrashChange, moveToTrash, TrashStateError } from "@/lib/trash";
 
 const updatePledgeSchema = z.object({
   contactId: z.number().positive().optional(),
@@ -22,10 +31,12 @@ const updatePledgeSchema = z.object({
   currency: z
     .enum(["USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR"])
     .optional(),
+  // Ignored: the USD amount is derived from originalAmount and exchangeRate
   originalAmountUsd: z
     .number()
     .positive("Pledge amount in USD must be positive")
     .optional(),
+  // Units of `currency` per one US dollar
   exchangeRate: z.number().positive("Exchange rate must be positive").optional(),
   campaignCode: z.string().optional(),
   notes: z.string().optional(),
@@ -36,6 +47,9 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   const { id } = await params;
   const pledgeId = parseInt(id, 10);
   try {
@@ -43,6 +57,7 @@ export async function GET(
       return NextResponse.json({ error: "Invalid pledge ID" }, { status: 400 });
     }
 
+    const scopedSolicitorId = solicitorScope(auth.user);
     const pledgeDetailsQuery = db
       .select({ 
         id: pledge.id,
@@ -75,7 +90,15 @@ export async function GET(
       .from(pledge)
       .leftJoin(contact, eq(pledge.contactId, contact.id))
       .leftJoin(category, eq(pledge.categoryId, category.id))
-      .where(eq(pledge.id, pledgeId))
+      .where(
+        and(
+          eq(pledge.id, pledgeId),
+          isNull(pledge.deletedAt),
+          scopedSolicitorId
+            ? solicitorDonorCondition(scopedSolicitorId, pledge.contactId)
+            : undefined
+        )
+      )
       .limit(1);
 
     // Get payment summary for this pledge
@@ -85,13 +108,13 @@ export async function GET(
         lastPaymentDate: sql<string>`max(payment_date)`.as("lastPaymentDate"),
         lastPaymentAmount: sql<string>`(
           SELECT amount FROM ${payment} 
-          WHERE pledge_id = ${pledgeId} 
+          WHERE pledge_id = ${pledgeId} AND deleted_at IS NULL
           ORDER BY payment_date DESC 
           LIMIT 1
         )`.as("lastPaymentAmount"),
       })
       .from(payment)
-      .where(eq(payment.pledgeId, pledgeId));
+      .where(and(eq(payment.pledgeId, pledgeId), isNull(payment.deletedAt)));
 
     // Get active payment plans for this pledge
     const paymentPlansQuery = db
@@ -212,6 +235,9 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { id } = await params;
     const pledgeId = parseInt(id, 10);
@@ -233,7 +259,7 @@ export async function PUT(
       .where(eq(pledge.id, pledgeId))
       .limit(1);
 
-    if (existingPledge.length === 0) {
+    if (existingPledge.length === 0 || existingPledge[0].deletedAt) {
       return NextResponse.json(
         { error: "Pledge not found" },
         { status: 404 }
@@ -275,29 +301,20 @@ export async function PUT(
       
       const currentPledge = existingPledge[0];
       
-      // Helper function to safely parse float from string | null
-      const safeParseFloat = (value: string | null, fallback: number = 0): number => {
-        return value ? parseFloat(value) : fallback;
-      };
-      
-      // Get current values or use provided values (with null safety)
-      const originalAmount = validatedData.originalAmount ?? safeParseFloat(currentPledge.originalAmount, 0);
-      const originalAmountUsd = validatedData.originalAmountUsd ?? safeParseFloat(currentPledge.originalAmountUsd, 0);
-      const exchangeRate = validatedData.exchangeRate ?? safeParseFloat(currentPledge.exchangeRate, 1);
-      const currentTotalPaid = safeParseFloat(currentPledge.totalPaid, 0);
-      const currentTotalPaidUsd = safeParseFloat(currentPledge.totalPaidUsd, 0);
+      const originalAmount = validatedData.originalAmount ?? toNumber(currentPledge.originalAmount);
+      const exchangeRate = validatedData.exchangeRate ?? toNumber(currentPledge.exchangeRate, 1);
+      const originalAmountUsd = toUsd(originalAmount, exchangeRate);
+      const currentTotalPaid = toNumber(currentPledge.totalPaid);
+      const currentTotalPaidUsd = toNumber(currentPledge.totalPaidUsd);
 
       // Update amounts
-      updateData.originalAmount = originalAmount.toString();
-      updateData.originalAmountUsd = originalAmountUsd.toString();
-      updateData.exchangeRate = exchangeRate.toString();
+      updateData.originalAmount = moneyString(originalAmount);
+      updateData.originalAmountUsd = moneyString(originalAmountUsd);
+      updateData.exchangeRate = rateString(exchangeRate);
 
       // Recalculate balances
-      const newBalance = originalAmount - currentTotalPaid;
-      const newBalanceUsd = originalAmountUsd - currentTotalPaidUsd;
-
-      updateData.balance = Math.max(0, newBalance).toString();
-      updateData.balanceUsd = Math.max(0, newBalanceUsd).toString();
+      updateData.balance = moneyString(Math.max(0, originalAmount - currentTotalPaid));
+      updateData.balanceUsd = moneyString(Math.max(0, originalAmountUsd - currentTotalPaidUsd));
     }
 
     // Add updatedAt timestamp
@@ -317,6 +334,15 @@ export async function PUT(
       );
     }
 
+    await recordAudit(auth.user, {
+      table: pledge,
+      recordId: pledgeId,
+      action: "update",
+      before: existingPledge[0],
+      after: result[0],
+      contactId: result[0].contactId,
+    });
+
     return NextResponse.json(
       {
         message: "Pledge updated successfully",
@@ -348,6 +374,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
   const { id } = await params;
   const pledgeId = parseInt(id, 10);
 
@@ -355,65 +384,35 @@ export async function DELETE(
     if (isNaN(pledgeId)) {
       return NextResponse.json({ error: "Invalid pledge ID" }, { status: 400 });
     }
-    const existingPledge = await db
-      .select({ id: pledge.id })
+    const [existingPledge] = await db
+      .select({ deletedAt: pledge.deletedAt })
       .from(pledge)
       .where(eq(pledge.id, pledgeId))
       .limit(1);
 
-    if (existingPledge.length === 0) {
+    if (!existingPledge || existingPledge.deletedAt) {
       return NextResponse.json({ error: "Pledge not found" }, { status: 404 });
     }
-    const [relatedPayments, relatedPaymentPlans, bonusCalculations] =
-      await Promise.all([
-        db
-          .select({ count: sql<number>`count(*)` })
-          .from(payment)
-          .where(eq(payment.pledgeId, pledgeId)),
-        db
-          .select({ count: sql<number>`count(*)` })
-          .from(paymentPlan)
-          .where(eq(paymentPlan.pledgeId, pledgeId)),
-        db
-          .select({ count: sql<number>`count(*)` })
-          .from(bonusCalculation)
-          .innerJoin(payment, eq(payment.id, bonusCalculation.paymentId))
-          .where(eq(payment.pledgeId, pledgeId)),
-      ]);
-
-    const paymentCount = Number(relatedPayments[0]?.count || 0);
-    const paymentPlanCount = Number(relatedPaymentPlans[0]?.count || 0);
-    const bonusCalculationCount = Number(bonusCalculations[0]?.count || 0);
-    const deletedRecords = {
-      bonusCalculations: bonusCalculationCount,
-      payments: paymentCount,
-      paymentPlans: paymentPlanCount,
-    };
-    if (bonusCalculationCount > 0) {
-      await db.delete(bonusCalculation).where(
-        sql`${bonusCalculation.paymentId} IN (
-            SELECT id FROM ${payment} WHERE pledge_id = ${pledgeId}
-          )`
-      );
-    }
-
-    if (paymentCount > 0) {
-      await db.delete(payment).where(eq(payment.pledgeId, pledgeId));
-    }
 
-    if (paymentPlanCount > 0) {
-      await db.delete(paymentPlan).where(eq(paymentPlan.pledgeId, pledgeId));
-    }
-
-    await db.delete(pledge).where(eq(pledge.id, pledgeId));
+    // The pledge goes to the trash with its payment plans and payments; they
+    // come back together if it is restored
+    const change = await txDb.transaction((tx) =>
+      moveToTrash("pledge", pledgeId, auth.user.id, tx)
+    );
+    await auditTrashChange(auth.user, change);
 
     return NextResponse.json({
       success: true,
-      message: "Pledge and all related records permanently deleted",
+      message: "Pledge moved to the trash",
       deletedPledgeId: pledgeId,
-      deletedRecords,
     });
   } catch (error) {
+    if (
+      error instanceof TrashStateError ||
+      error instanceof BonusAlreadyPaidError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
     console.error("Error deleting pledge:", error);
     return ErrorHandler.handle(error);
   }
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { sql } from "drizzle-orm";
+import type { SessionUser } from "@/lib/auth/guard";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+const session = vi.hoisted(() => ({ user: null as unknown as SessionUser }));
+vi.mock("@/lib/auth/guard", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/auth/guard")>()),
+  requireRole: async () => ({ user: session.user }),
+}));
+
+import { db } from "@/lib/db";
+import { contact, payment, pledge, solicitor } from "@/lib/db/schema";
+import { GET } from "./route";
+
+const admin: SessionUser = {
+  id: 1,
+  email: "admin@example.org",
+  name: "Admin",
+  role: "admin",
+  contactId: null,
+  solicitorId: null,
+};
+
+let solicitorId: number;
+
+async function search(term: string) {
+  const response = await GET(
+    new NextRequest(`http://localhost/api/pledges?search=${term}`)
+  );
+  expect(response.status).toBe(200);
+  const { pledges } = await response.json();
+  return pledges.map((row: { description: string }) => row.description).sort();
+}
+
+beforeEach(async () => {
+  session.user = admin;
+  await db.execute(
+    sql`TRUNCATE ${contact}, ${solicitor}, ${pledge}, ${payment} RESTART IDENTITY CASCADE`
+  );
+  const [dana, eli, person] = await db
+    .insert(contact)
+    .values([
+      { firstName: "Dana", lastName: "Donor" },
+      { firstName: "Eli", lastName: "Donor" },
+      { firstName: "Sam", lastName: "Solicitor" },
+    ])
+    .returning();
+  [{ id: solicitorId }] = await db
+    .insert(solicitor)
+    .values({ contactId: person.id })
+    .returning();
+
+  const pledges = await db
+    .insert(pledge)
+    .values(
+      [
+        { contactId: dana.id, description: "Building fund" },
+        { contactId: dana.id, description: "Gala", campaignCode: "BUILD" },
+        { contactId: dana.id, description: "Building fund 2024", deletedAt: new Date() },
+        { contactId: eli.id, description: "Building fund" },
+      ].map((values) => ({
+        pledgeDate: "2025-01-01",
+        originalAmount: "1000.00",
+        balance: "1000.00",
+        ...values,
+      }))
+    )
+    .returning();
+
+  // Dana is the solicitor's donor
+  await db.insert(payment).values({
+    pledgeId: pledges[0].id,
+    solicitorId,
+    amount: "100.00",
+    currency: "USD",
+    paymentDate: "2025-03-01",
+    paymentMethod: "check",
+  });
+});
+
+describe("GET /api/pledges", () => {
+  it("never returns a trashed pledge from a search", async () => {
+    expect(await search("build")).toEqual(["Building fund", "Building fund", "Gala"]);
+  });
+
+  it("keeps a solicitor's search to their donors", async () => {
+    session.user = { ...admin, role: "solicitor", solicitorId };
+    expect(await search("build")).toEqual(["Building fund", "Gala"]);
+  });
+});
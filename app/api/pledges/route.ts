@@ -1,9 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { pledge, NewPledge } from "@/lib/db/schema";
-import { sql, eq, and } from "drizzle-orm";
+import { sql, eq, and, or, ilike, isNull, type SQL } from "drizzle-orm";
 import { z } from "zod";
 import { ErrorHandler } from "@/lib/error-handler";
+import {
+  requireRole,
+  solicitorDonorCondition,
+  solicitorScope,
+} from "@/lib/auth/guard";
+import { ALL_ROLES, FINANCE_ROLES } from "@/lib/auth/roles";
+import { recordAudit } from "@/lib/audit";
+import { moneyString, rateString, toUsd } from "@/lib/currency";
 
 const pledgeSchema = z.object({
   contactId: z.number().positive(),
@@ -14,41 +22,57 @@ const pledgeSchema = z.object({
   currency: z
     .enum(["USD", "ILS", "EUR", "JPY", "GBP", "AUD", "CAD", "ZAR"])
     .default("USD"),
+  // Ignored: the USD amount is derived from originalAmount and exchangeRate
   originalAmountUsd: z
     .number()
-    .positive("Pledge amount in USD must be positive"),
+    .positive("Pledge amount in USD must be positive")
+    .optional(),
+  // Units of `currency` per one US dollar
   exchangeRate: z.number().positive("Exchange rate must be positive"),
   campaignCode: z.string().optional(),
   notes: z.string().optional(),
 });
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
     const validatedData = pledgeSchema.parse(body);
-    const balance = validatedData.originalAmount;
-    const balanceUsd = validatedData.originalAmountUsd;
+    const originalAmountUsd = toUsd(
+      validatedData.originalAmount,
+      validatedData.exchangeRate
+    );
 
     const newPledge: NewPledge = {
       contactId: validatedData.contactId,
       categoryId: validatedData.categoryId || null,
       pledgeDate: validatedData.pledgeDate,
       description: validatedData.description,
-      originalAmount: validatedData.originalAmount.toString(),
+      originalAmount: moneyString(validatedData.originalAmount),
       currency: validatedData.currency,
-      originalAmountUsd: validatedData.originalAmountUsd.toString(),
-      exchangeRate: validatedData.exchangeRate.toString(),
+      originalAmountUsd: moneyString(originalAmountUsd),
+      exchangeRate: rateString(validatedData.exchangeRate),
       campaignCode: validatedData.campaignCode || null, // Added campaign code field
       totalPaid: "0",
       totalPaidUsd: "0",
-      balance: balance.toString(),
-      balanceUsd: balanceUsd.toString(),
+      balance: moneyString(validatedData.originalAmount),
+      balanceUsd: moneyString(originalAmountUsd),
       isActive: true,
       notes: validatedData.notes || null,
     };
 
     const result = await db.insert(pledge).values(newPledge).returning();
 
+    await recordAudit(auth.user, {
+      table: pledge,
+      recordId: result[0].id,
+      action: "create",
+      after: result[0],
+      contactId: result[0].contactId,
+    });
+
     return NextResponse.json(
       {
         message: "Pledge created successfully",
@@ -88,6 +112,9 @@ const querySchema = z.object({
 });
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const parsedParams = querySchema.safeParse({
@@ -133,7 +160,7 @@ export async function GET(request: NextRequest) {
     const offset = (page - 1) * limit;
 
     // Build WHERE conditions
-    const conditions = [];
+    const conditions: (SQL | undefined)[] = [isNull(pledge.deletedAt)];
 
     if (contactId) {
       conditions.push(eq(pledge.contactId, contactId));
@@ -143,13 +170,18 @@ export async function GET(request: NextRequest) {
       conditions.push(eq(pledge.categoryId, categoryId));
     }
 
+    const scopedSolicitorId = solicitorScope(auth.user);
+    if (scopedSolicitorId) {
+      conditions.push(solicitorDonorCondition(scopedSolicitorId, pledge.contactId));
+    }
+
     if (search) {
       conditions.push(
-        sql`${pledge.description} ILIKE ${"%" + search + "%"} OR ${
-          pledge.notes
-        } ILIKE ${"%" + search + "%"} OR ${
-          pledge.campaignCode
-        } ILIKE ${"%" + search + "%"}`
+        or(
+          ilike(pledge.description, `%${search}%`),
+          ilike(pledge.notes, `%${search}%`),
+          ilike(pledge.campaignCode, `%${search}%`)
+        )
       );
     }
 
@@ -181,7 +213,7 @@ export async function GET(request: NextRequest) {
       conditions.push(sql`${pledge.pledgeDate} <= ${endDate}`);
     }
 
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+    const whereClause = and(...conditions);
 
     // Execute queries
     const pledgesQuery = db
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import { processProcessorEvent } from "@/lib/processors";
+
+// Applies a failed or unprocessed event again, e.g. a refund that arrived
+// before its charge or a payment whose exchange rate was missing. An event
+// already applied is returned unchanged.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const eventId = parseInt((await params).id, 10);
+  if (isNaN(eventId) || eventId <= 0) {
+    return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
+  }
+
+  try {
+    const event = await processProcessorEvent(eventId);
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+    return NextResponse.json({ event });
+  } catch (error) {
+    console.error("Error replaying processor event:", error);
+    return NextResponse.json(
+      { error: "Failed to replay event" },
+      { status: 500 }
+    );
+  }
+}
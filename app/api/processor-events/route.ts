@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import {
+  paymentProcessorEnum,
+  processorEventStatusEnum,
+  type ProcessorEvent,
+} from "@/lib/db/schema";
+import { listProcessorEvents } from "@/lib/processors";
+
+// Stripe and PayPal events as received, newest first. Optional `processor`
+// and `status` (e.g. "failed") query parameters.
+export async function GET(request: NextRequest) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const { searchParams } = new URL(request.url);
+  const processor = searchParams.get("processor");
+  const status = searchParams.get("status");
+  if (
+    processor &&
+    !(paymentProcessorEnum.enumValues as readonly string[]).includes(processor)
+  ) {
+    return NextResponse.json({ error: "Invalid processor" }, { status: 400 });
+  }
+  if (
+    status &&
+    !(processorEventStatusEnum.enumValues as readonly string[]).includes(status)
+  ) {
+    return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+  }
+
+  try {
+    const events = await listProcessorEvents({
+      processor: (processor as ProcessorEvent["processor"]) || undefined,
+      status: (status as ProcessorEvent["status"]) || undefined,
+    });
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error("Error fetching processor events:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch processor events" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import {
+  auditReceiptChange,
+  getReceipt,
+  ReceiptStateError,
+  reissueReceipt,
+} from "@/lib/receipts";
+import { receiptReissueSchema } from "@/lib/form-schemas/receipt";
+
+// Voids a receipt and issues its payment a replacement under a new number,
+// e.g. after the donor's name or the payment was corrected.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const receiptId = parseInt(id, 10);
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = receiptReissueSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid reissue",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await txDb.transaction(async (tx) => {
+      const found = await getReceipt(receiptId, tx);
+      if (!found) return null;
+      return {
+        before: found,
+        ...(await reissueReceipt(
+          found,
+          parsed.data.reason,
+          { receiptType: parsed.data.receiptType, issuedBy: auth.user.id },
+          tx
+        )),
+      };
+    });
+
+    if (!result) {
+      return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
+    }
+
+    // The payment's entry runs from before the void to after the new issue
+    await auditReceiptChange(
+      auth.user,
+      { ...result.voided, paymentAfter: null },
+      result.before
+    );
+    await auditReceiptChange(auth.user, {
+      ...result.issued,
+      paymentBefore: result.voided.paymentBefore,
+    });
+
+    return NextResponse.json(
+      { receipt: result.issued.receipt, voided: result.voided.receipt },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ReceiptStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error reissuing receipt:", error);
+    return NextResponse.json(
+      { error: "Failed to reissue receipt" },
+      { status: 500 }
+    );
+  }
+}
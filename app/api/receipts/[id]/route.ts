@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { STAFF_READ_ROLES } from "@/lib/auth/roles";
+import { getReceipt, renderReceiptPdf } from "@/lib/receipts";
+
+// The receipt as a PDF by default; `format=json` returns the record.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(STAFF_READ_ROLES);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const receiptId = parseInt(id, 10);
+  try {
+    const found = await getReceipt(receiptId);
+    if (!found) {
+      return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
+    }
+
+    const format = new URL(request.url).searchParams.get("format");
+    if (format === "json") {
+      return NextResponse.json({ receipt: found });
+    }
+
+    const replaced = found.replacesReceiptId
+      ? await getReceipt(found.replacesReceiptId)
+      : null;
+    const pdf = renderReceiptPdf(found, replaced?.receiptNumber ?? null);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="receipt-${found.receiptNumber}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error rendering receipt:", error);
+    return NextResponse.json(
+      { error: "Failed to render receipt" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import {
+  auditReceiptChange,
+  getReceipt,
+  ReceiptStateError,
+  voidReceipt,
+} from "@/lib/receipts";
+import { receiptVoidSchema } from "@/lib/form-schemas/receipt";
+
+// Voids an issued receipt. The number is not reused.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const receiptId = parseInt(id, 10);
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = receiptVoidSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid void",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await txDb.transaction(async (tx) => {
+      const found = await getReceipt(receiptId, tx);
+      if (!found) return null;
+      return {
+        before: found,
+        change: await voidReceipt(found, parsed.data.reason, auth.user.id, tx),
+      };
+    });
+
+    if (!result) {
+      return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
+    }
+
+    await auditReceiptChange(auth.user, result.change, result.before);
+
+    return NextResponse.json({ receipt: result.change.receipt });
+  } catch (error) {
+    if (error instanceof ReceiptStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error voiding receipt:", error);
+    return NextResponse.json(
+      { error: "Failed to void receipt" },
+      { status: 500 }
+    );
+  }
+}
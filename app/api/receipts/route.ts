@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { and, desc, eq } from "drizzle-orm";
+import { db, txDb } from "@/lib/db";
+import { receipt } from "@/lib/db/schema";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES, STAFF_READ_ROLES } from "@/lib/auth/roles";
+import {
+  auditReceiptChange,
+  issueReceipt,
+  ReceiptStateError,
+} from "@/lib/receipts";
+import { receiptIssueSchema } from "@/lib/form-schemas/receipt";
+
+const RECEIPT_STATUSES = ["issued", "void"] as const;
+
+// Lists receipts, newest first, optionally by `paymentId`, `contactId`,
+// `fiscalYear` or `status`.
+export async function GET(request: NextRequest) {
+  const auth = await requireRole(STAFF_READ_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const paymentId = searchParams.get("paymentId");
+    const contactId = searchParams.get("contactId");
+    const fiscalYear = searchParams.get("fiscalYear");
+    const status = searchParams.get("status");
+    const whereConditions = [];
+
+    if (paymentId) {
+      whereConditions.push(eq(receipt.paymentId, parseInt(paymentId)));
+    }
+    if (contactId) {
+      whereConditions.push(eq(receipt.contactId, parseInt(contactId)));
+    }
+    if (fiscalYear) {
+      whereConditions.push(eq(receipt.fiscalYear, parseInt(fiscalYear)));
+    }
+    if (status) {
+      const receiptStatus = RECEIPT_STATUSES.find((value) => value === status);
+      if (!receiptStatus) {
+        return NextResponse.json(
+          { error: `Unknown status '${status}'` },
+          { status: 400 }
+        );
+      }
+      whereConditions.push(eq(receipt.status, receiptStatus));
+    }
+
+    const receipts = await db
+      .select()
+      .from(receipt)
+      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+      .orderBy(desc(receipt.issuedAt), desc(receipt.id));
+
+    return NextResponse.json({ receipts });
+  } catch (error) {
+    console.error("Error fetching receipts:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch receipts" },
+      { status: 500 }
+    );
+  }
+}
+
+// Issues the next receipt number for a completed payment.
+export async function POST(request: NextRequest) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json();
+    const parsed = receiptIssueSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid receipt",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const change = await txDb.transaction((tx) =>
+      issueReceipt(
+        parsed.data.paymentId,
+        { receiptType: parsed.data.receiptType, issuedBy: auth.user.id },
+        tx
+      )
+    );
+
+    await auditReceiptChange(auth.user, change);
+
+    return NextResponse.json({ receipt: change.receipt }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ReceiptStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error issuing receipt:", error);
+    return NextResponse.json(
+      { error: "Failed to issue receipt" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES, STAFF_READ_ROLES } from "@/lib/auth/roles";
+import {
+  auditRefund,
+  getRefunds,
+  refundPayment,
+  RefundStateError,
+} from "@/lib/refunds";
+import { refundSchema } from "@/lib/form-schemas/refund";
+
+// The refunds, reversals and chargebacks of `paymentId`, newest first.
+export async function GET(request: NextRequest) {
+  const auth = await requireRole(STAFF_READ_ROLES);
+  if (auth.response) return auth.response;
+
+  const paymentId = parseInt(
+    new URL(request.url).searchParams.get("paymentId") ?? "",
+    10
+  );
+  if (isNaN(paymentId) || paymentId <= 0) {
+    return NextResponse.json(
+      { error: "paymentId is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const refunds = await getRefunds(paymentId);
+    return NextResponse.json({ refunds });
+  } catch (error) {
+    console.error("Error fetching refunds:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch refunds" },
+      { status: 500 }
+    );
+  }
+}
+
+// Refunds part or all of a completed payment.
+export async function POST(request: NextRequest) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json();
+    const parsed = refundSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid refund",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const { paymentId, ...options } = parsed.data;
+    const result = await txDb.transaction((tx) =>
+      refundPayment(paymentId, options, tx)
+    );
+
+    await auditRefund(auth.user, result);
+
+    return NextResponse.json(
+      {
+        refund: result.refund,
+        allocations: result.allocations,
+        payment: result.originalAfter,
+        reopenedInstallmentIds: result.reopenedInstallmentIds,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof RefundStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error refunding payment:", error);
+    return NextResponse.json(
+      { error: "Failed to refund payment" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,11 +3,16 @@ import { db } from "@/lib/db";
 import { eq } from "drizzle-orm";
 import { relationships } from "@/lib/db/schema";
 import { ErrorHandler } from "@/lib/error-handler";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
 
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
   const { id } = await params;
   const relationshipId = parseInt(id, 10);
 
@@ -5,6 +5,8 @@ import { z } from "zod";
 import { ErrorHandler } from "@/lib/error-handler";
 import { relationships, NewRelationship, contact } from "@/lib/db/schema";
 import { relationshipSchema } from "@/lib/form-schemas/relationships";
+import { requireRole } from "@/lib/auth/guard";
+import { ALL_ROLES, FINANCE_ROLES } from "@/lib/auth/roles";
 
 const querySchema = z.object({
   page: z.coerce.number().min(1).default(1),
@@ -136,6 +138,9 @@ const getReciprocalRelationship = (relationshipType: string): string => {
 };
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const parsedParams = querySchema.safeParse({
@@ -480,6 +485,9 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
     const validatedData = relationshipSchema.parse(body);
@@ -2,12 +2,17 @@ import { NextRequest, NextResponse } from "next/server";
 import { unstable_cache } from "next/cache";
 import { db } from "@/lib/db";
 import { paymentPlan, pledge, contact } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
+import { and, eq, isNull } from "drizzle-orm";
+import { isSolicitorDonor, requireRole, solicitorScope } from "@/lib/auth/guard";
+import { ALL_ROLES } from "@/lib/auth/roles";
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   const { id } = await params;
   const planId = parseInt(id, 10);
 
@@ -67,7 +72,7 @@ export async function GET(
           .from(paymentPlan)
           .leftJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
           .leftJoin(contact, eq(pledge.contactId, contact.id))
-          .where(eq(paymentPlan.id, id))
+          .where(and(eq(paymentPlan.id, id), isNull(paymentPlan.deletedAt)))
           .limit(1);
 
         if (!planData) {
@@ -102,6 +107,21 @@ export async function GET(
 
   const result = await getPaymentPlanData(planId);
 
+  // The cached plan is shared by every user; a solicitor's access is checked
+  // on each request
+  const scopedSolicitorId = solicitorScope(auth.user);
+  const contactId = result.data?.paymentPlan.contact?.id;
+  if (
+    !result.error &&
+    scopedSolicitorId &&
+    !(contactId && (await isSolicitorDonor(scopedSolicitorId, contactId)))
+  ) {
+    return NextResponse.json(
+      { error: "Payment plan not found" },
+      { status: 404 }
+    );
+  }
+
   if (result.error) {
     return NextResponse.json(
       { error: result.error },
@@ -111,6 +131,6 @@ export async function GET(
 
   return NextResponse.json(result.data, {
     status: 200,
-    headers: { "Cache-Control": "public, max-age=300" },
+    headers: { "Cache-Control": "private, no-cache" },
   });
 }
@@ -1,38 +1,65 @@
 import { db } from "@/lib/db";
-import { bonusCalculation, payment } from "@/lib/db/schema";
+import { payment } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import { getPaymentContactId, recordAudit } from "@/lib/audit";
+import {
+  auditBonusSync,
+  getPaymentBonusCalculation,
+  isBonusSettled,
+  syncPaymentBonus,
+} from "@/lib/bonus";
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
   const { id } = await params;
   const paymentId = parseInt(id, 10);
   try {
-    // Remove bonus calculation if exists
-    await db
-      .delete(bonusCalculation)
-      .where(eq(bonusCalculation.paymentId, paymentId));
-
-    // Update payment to remove solicitor assignment
-    const updatedPayment = await db
-      .update(payment)
-      .set({
-        solicitorId: null,
-        bonusPercentage: null,
-        bonusAmount: null,
-        bonusRuleId: null,
-        updatedAt: new Date(),
-      })
+    const [existingPayment] = await db
+      .select()
+      .from(payment)
       .where(eq(payment.id, paymentId))
-      .returning();
+      .limit(1);
 
-    if (updatedPayment.length === 0) {
+    if (!existingPayment || existingPayment.deletedAt) {
       return NextResponse.json({ error: "Payment not found" }, { status: 404 });
     }
 
-    return NextResponse.json({ payment: updatedPayment[0] });
+    const currentBonus = await getPaymentBonusCalculation(paymentId);
+    if (await isBonusSettled(currentBonus)) {
+      return NextResponse.json(
+        { error: "Cannot unassign a payment whose solicitor bonus has been paid or approved for payout" },
+        { status: 409 }
+      );
+    }
+
+    // Update payment to remove solicitor assignment
+    await db
+      .update(payment)
+      .set({ solicitorId: null, updatedAt: new Date() })
+      .where(eq(payment.id, paymentId));
+
+    await recordAudit(auth.user, {
+      table: payment,
+      recordId: paymentId,
+      action: "update",
+      before: { solicitorId: existingPayment.solicitorId },
+      after: { solicitorId: null },
+      contactId: await getPaymentContactId(paymentId),
+    });
+
+    // Clears the bonus fields and removes the bonus calculation
+    const bonusSync = await syncPaymentBonus(paymentId, db, existingPayment);
+    await auditBonusSync(auth.user, bonusSync);
+
+    return NextResponse.json({ payment: bonusSync?.payment });
   } catch (error) {
     console.error("Error unassigning payment:", error);
     return NextResponse.json(
@@ -3,13 +3,18 @@ import { db } from "@/lib/db";
 import { eq, desc, isNull, isNotNull, and } from "drizzle-orm";
 import { payment, contact, pledge, category, solicitor } from "@/lib/db/schema";
 import { alias } from "drizzle-orm/pg-core";
+import { requireRole, solicitorScope } from "@/lib/auth/guard";
+import { ALL_ROLES } from "@/lib/auth/roles";
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const assigned = searchParams.get("assigned");
     const solicitorId = searchParams.get("solicitorId");
-    const whereConditions = [];
+    const whereConditions = [isNull(payment.deletedAt)];
 
     if (assigned === "true") {
       whereConditions.push(isNotNull(payment.solicitorId));
@@ -20,6 +25,11 @@ export async function GET(request: NextRequest) {
     if (solicitorId) {
       whereConditions.push(eq(payment.solicitorId, parseInt(solicitorId)));
     }
+
+    const scopedSolicitorId = solicitorScope(auth.user);
+    if (scopedSolicitorId) {
+      whereConditions.push(eq(payment.solicitorId, scopedSolicitorId));
+    }
     const solicitorContact = alias(contact, "s_contact");
     const payments = await db
       .select({
@@ -53,7 +63,7 @@ export async function GET(request: NextRequest) {
       .leftJoin(category, eq(pledge.categoryId, category.id))
       .leftJoin(solicitor, eq(payment.solicitorId, solicitor.id))
       .leftJoin(solicitorContact, eq(solicitor.contactId, solicitorContact.id))
-      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
+      .where(and(...whereConditions))
       .orderBy(desc(payment.paymentDate));
 
     return NextResponse.json({ payments });
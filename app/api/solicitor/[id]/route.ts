@@ -2,15 +2,34 @@ import { db } from "@/lib/db";
 import { solicitor } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { ADMIN_ROLES } from "@/lib/auth/roles";
+import { recordAudit } from "@/lib/audit";
 
 export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
   const { id } = await params;
   const solicitorId = parseInt(id, 10);
   try {
     const body = await request.json();
+    const [existingSolicitor] = await db
+      .select()
+      .from(solicitor)
+      .where(eq(solicitor.id, solicitorId))
+      .limit(1);
+
+    if (!existingSolicitor) {
+      return NextResponse.json(
+        { error: "Solicitor not found" },
+        { status: 404 }
+      );
+    }
+
     const updatedSolicitor = await db
       .update(solicitor)
       .set({
@@ -27,6 +46,15 @@ export async function PUT(
       );
     }
 
+    await recordAudit(auth.user, {
+      table: solicitor,
+      recordId: solicitorId,
+      action: "update",
+      before: existingSolicitor,
+      after: updatedSolicitor[0],
+      contactId: updatedSolicitor[0].contactId,
+    });
+
     return NextResponse.json({ solicitor: updatedSolicitor[0] });
   } catch (error) {
     console.error("Error updating solicitor:", error);
@@ -41,6 +69,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
   const { id } = await params;
   const solicitorId = parseInt(id, 10);
   try {
@@ -56,6 +87,14 @@ export async function DELETE(
       );
     }
 
+    await recordAudit(auth.user, {
+      table: solicitor,
+      recordId: solicitorId,
+      action: "delete",
+      before: deletedSolicitor[0],
+      contactId: deletedSolicitor[0].contactId,
+    });
+
     return NextResponse.json({ message: "Solicitor deleted successfully" });
   } catch (error) {
     console.error("Error deleting solicitor:", error);
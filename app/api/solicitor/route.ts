@@ -3,8 +3,14 @@ import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { eq, desc, sql, and } from "drizzle-orm";
 import { solicitor, contact, payment, bonusCalculation } from "@/lib/db/schema";
+import { requireRole, solicitorScope } from "@/lib/auth/guard";
+import { ADMIN_ROLES, ALL_ROLES } from "@/lib/auth/roles";
+import { recordAudit } from "@/lib/audit";
 
 export async function GET(request: NextRequest) {
+  const auth = await requireRole(ALL_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const status = searchParams.get("status");
@@ -17,6 +23,11 @@ export async function GET(request: NextRequest) {
       whereConditions.push(eq(solicitor.status, status as any));
     }
 
+    const scopedSolicitorId = solicitorScope(auth.user);
+    if (scopedSolicitorId) {
+      whereConditions.push(eq(solicitor.id, scopedSolicitorId));
+    }
+
     if (search) {
       whereConditions.push(
         sql`(
@@ -87,6 +98,9 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
   try {
     const body = await request.json();
     const {
@@ -113,7 +127,7 @@ export async function POST(request: NextRequest) {
       .where(eq(contact.id, contactId))
       .limit(1);
 
-    if (existingContact.length === 0) {
+    if (existingContact.length === 0 || existingContact[0].deletedAt) {
       return NextResponse.json({ error: "Contact not found" }, { status: 404 });
     }
 
@@ -143,6 +157,14 @@ export async function POST(request: NextRequest) {
       })
       .returning();
 
+    await recordAudit(auth.user, {
+      table: solicitor,
+      recordId: newSolicitor[0].id,
+      action: "create",
+      after: newSolicitor[0],
+      contactId: newSolicitor[0].contactId,
+    });
+
     return NextResponse.json({ solicitor: newSolicitor[0] }, { status: 201 });
   } catch (error) {
     console.error("Error creating solicitor:", error);
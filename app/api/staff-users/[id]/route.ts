@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { staffUser, type NewStaffUser } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { staffUserUpdateSchema } from "@/lib/form-schemas/staff-user";
+import { hashPassword } from "@/lib/auth/password";
+import { requireRole } from "@/lib/auth/guard";
+import { ADMIN_ROLES } from "@/lib/auth/roles";
+import { staffUserColumns } from "@/lib/auth/staff-users";
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const staffUserId = parseInt(id, 10);
+  if (isNaN(staffUserId) || staffUserId <= 0) {
+    return NextResponse.json(
+      { error: "Invalid staff user ID" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { password, ...validatedData } = staffUserUpdateSchema.parse(body);
+
+    if (staffUserId === auth.user.id && validatedData.isActive === false) {
+      return NextResponse.json(
+        { error: "You cannot deactivate your own account" },
+        { status: 400 }
+      );
+    }
+
+    const [existing] = await db
+      .select({ role: staffUser.role, contactId: staffUser.contactId })
+      .from(staffUser)
+      .where(eq(staffUser.id, staffUserId))
+      .limit(1);
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Staff user not found" },
+        { status: 404 }
+      );
+    }
+
+    const role = validatedData.role ?? existing.role;
+    const contactId =
+      validatedData.contactId !== undefined
+        ? validatedData.contactId
+        : existing.contactId;
+    if (role === "solicitor" && !contactId) {
+      return NextResponse.json(
+        { error: "Solicitor accounts must be linked to a contact" },
+        { status: 400 }
+      );
+    }
+
+    const updateData: Partial<NewStaffUser> = {
+      ...validatedData,
+      updatedAt: new Date(),
+    };
+    if (password) {
+      updateData.passwordHash = await hashPassword(password);
+    }
+
+    const [updated] = await db
+      .update(staffUser)
+      .set(updateData)
+      .where(eq(staffUser.id, staffUserId))
+      .returning(staffUserColumns);
+
+    return NextResponse.json({ staffUser: updated });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const staffUserId = parseInt(id, 10);
+  if (staffUserId === auth.user.id) {
+    return NextResponse.json(
+      { error: "You cannot delete your own account" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const deleted = await db
+      .delete(staffUser)
+      .where(eq(staffUser.id, staffUserId))
+      .returning({ id: staffUser.id });
+
+    if (deleted.length === 0) {
+      return NextResponse.json(
+        { error: "Staff user not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: "Staff user deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting staff user:", error);
+    return NextResponse.json(
+      { error: "Failed to delete staff user" },
+      { status: 500 }
+    );
+  }
+}
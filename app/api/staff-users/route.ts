@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { desc, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { staffUser } from "@/lib/db/schema";
+import { ErrorHandler } from "@/lib/error-handler";
+import { staffUserSchema } from "@/lib/form-schemas/staff-user";
+import { hashPassword } from "@/lib/auth/password";
+import { requireRole } from "@/lib/auth/guard";
+import { ADMIN_ROLES } from "@/lib/auth/roles";
+import { staffUserColumns } from "@/lib/auth/staff-users";
+
+export async function GET() {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const users = await db
+      .select(staffUserColumns)
+      .from(staffUser)
+      .orderBy(desc(staffUser.createdAt));
+
+    return NextResponse.json({ staffUsers: users });
+  } catch (error) {
+    console.error("Error fetching staff users:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch staff users" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json();
+    const validatedData = staffUserSchema.parse(body);
+    const email = validatedData.email.toLowerCase().trim();
+
+    const existing = await db
+      .select({ id: staffUser.id })
+      .from(staffUser)
+      .where(eq(staffUser.email, email))
+      .limit(1);
+
+    if (existing.length > 0) {
+      return NextResponse.json(
+        { error: "A staff user with this email already exists" },
+        { status: 409 }
+      );
+    }
+
+    const [created] = await db
+      .insert(staffUser)
+      .values({
+        email,
+        name: validatedData.name,
+        passwordHash: await hashPassword(validatedData.password),
+        role: validatedData.role,
+        contactId: validatedData.contactId ?? null,
+        isActive: validatedData.isActive ?? true,
+      })
+      .returning(staffUserColumns);
+
+    return NextResponse.json({ staffUser: created }, { status: 201 });
+  } catch (error) {
+    return ErrorHandler.handle(error);
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { STAFF_READ_ROLES } from "@/lib/auth/roles";
+import { statementQuerySchema } from "@/lib/form-schemas/statement";
+import {
+  getGivingStatements,
+  givingStatementsCsv,
+  renderGivingStatementsPdf,
+  statementPeriod,
+} from "@/lib/statements";
+
+// Year-end statements for every donor who gave in the period: one PDF with a
+// statement per donor by default, one combined CSV with `format=csv`, or a
+// per-donor summary with `format=json`. Takes the same parameters as
+// /api/contacts/[id]/statement.
+export async function GET(request: NextRequest) {
+  const auth = await requireRole(STAFF_READ_ROLES);
+  if (auth.response) return auth.response;
+
+  const parsed = statementQuerySchema.safeParse(
+    Object.fromEntries(new URL(request.url).searchParams)
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        error: "Invalid statement parameters",
+        details: parsed.error.issues.map((issue) => ({
+          field: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+      { status: 400 }
+    );
+  }
+
+  const { year, basis, currency, format } = parsed.data;
+  try {
+    const period = statementPeriod(year, basis);
+    const statements = await getGivingStatements(period, undefined, {
+      currency,
+    });
+
+    if (format === "json") {
+      return NextResponse.json({
+        period,
+        statements: statements.map(({ lines, ...summary }) => ({
+          ...summary,
+          lineCount: lines.length,
+        })),
+      });
+    }
+
+    const filename = `statements-${year}${basis === "fiscal" ? "-fiscal" : ""}`;
+    if (format === "csv") {
+      return new NextResponse(givingStatementsCsv(statements), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}.csv"`,
+        },
+      });
+    }
+
+    if (statements.length === 0) {
+      return NextResponse.json(
+        { error: "No donations in this period" },
+        { status: 404 }
+      );
+    }
+    const pdf = renderGivingStatementsPdf(statements);
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error building giving statements:", error);
+    return NextResponse.json(
+      { error: "Failed to build giving statements" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import { BonusAlreadyPaidError } from "@/lib/bonus";
+import {
+  auditTrashChange,
+  isTrashKind,
+  restoreFromTrash,
+  TrashStateError,
+} from "@/lib/trash";
+
+// Brings a contact, pledge or payment back from the trash with everything
+// deleted along with it, and recomputes the pledge balances it feeds.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ kind: string; id: string }> }
+) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const { kind, id } = await params;
+  const recordId = parseInt(id, 10);
+  if (!isTrashKind(kind) || isNaN(recordId) || recordId <= 0) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    const change = await txDb.transaction((tx) =>
+      restoreFromTrash(kind, recordId, tx)
+    );
+
+    await auditTrashChange(auth.user, change);
+
+    return NextResponse.json({ [kind]: change.after });
+  } catch (error) {
+    if (
+      error instanceof TrashStateError ||
+      error instanceof BonusAlreadyPaidError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error restoring from trash:", error);
+    return NextResponse.json(
+      { error: "Failed to restore from trash" },
+      { status: 500 }
+    );
+  }
+}
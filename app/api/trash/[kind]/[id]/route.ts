@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth/guard";
+import { ADMIN_ROLES } from "@/lib/auth/roles";
+import {
+  auditTrashChange,
+  isTrashKind,
+  purgeFromTrash,
+  TrashStateError,
+} from "@/lib/trash";
+
+// Permanently deletes a record that is in the trash. This cannot be undone.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ kind: string; id: string }> }
+) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const { kind, id } = await params;
+  const recordId = parseInt(id, 10);
+  if (!isTrashKind(kind) || isNaN(recordId) || recordId <= 0) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    const change = await txDb.transaction((tx) =>
+      purgeFromTrash(kind, recordId, tx)
+    );
+
+    await auditTrashChange(auth.user, change);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof TrashStateError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error purging from trash:", error);
+    return NextResponse.json(
+      { error: "Failed to purge from trash" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { FINANCE_ROLES } from "@/lib/auth/roles";
+import { isTrashKind, listTrash } from "@/lib/trash";
+
+// Contacts, pledges and payments in the trash, most recently deleted first.
+// `kind` narrows the list to one of them.
+export async function GET(request: NextRequest) {
+  const auth = await requireRole(FINANCE_ROLES);
+  if (auth.response) return auth.response;
+
+  const kind = new URL(request.url).searchParams.get("kind") || undefined;
+  if (kind !== undefined && !isTrashKind(kind)) {
+    return NextResponse.json(
+      { error: "kind must be contact, pledge or payment" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const items = await listTrash(kind);
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error("Error fetching trash:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch trash" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { ADMIN_ROLES } from "@/lib/auth/roles";
+import { processDelivery } from "@/lib/webhooks";
+import { webhookReplaySchema } from "@/lib/form-schemas/webhook";
+
+// Applies a failed delivery again with its source's current field map. With
+// `includeDuplicates` a delivery held back as a duplicate is created anyway.
+// A processed delivery is returned unchanged.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const id = parseInt((await params).id, 10);
+  if (isNaN(id) || id <= 0) {
+    return NextResponse.json({ error: "Invalid delivery ID" }, { status: 400 });
+  }
+
+  try {
+    const parsed = webhookReplaySchema.safeParse(
+      await request.json().catch(() => ({}))
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid replay",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const delivery = await processDelivery(id, parsed.data);
+    if (!delivery) {
+      return NextResponse.json({ error: "Delivery not found" }, { status: 404 });
+    }
+    return NextResponse.json({ delivery });
+  } catch (error) {
+    console.error("Error replaying webhook delivery:", error);
+    return NextResponse.json(
+      { error: "Failed to replay delivery" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/lib/auth/guard";
+import { ADMIN_ROLES } from "@/lib/auth/roles";
+import { webhookDeliveryStatusEnum, type WebhookDelivery } from "@/lib/db/schema";
+import { listDeliveries } from "@/lib/webhooks";
+
+// A source's latest deliveries with what they sent, newest first. Optional
+// `status` query parameter, e.g. "failed".
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const id = parseInt((await params).id, 10);
+  if (isNaN(id) || id <= 0) {
+    return NextResponse.json({ error: "Invalid source ID" }, { status: 400 });
+  }
+  const status = new URL(request.url).searchParams.get("status");
+  if (
+    status &&
+    !(webhookDeliveryStatusEnum.enumValues as readonly string[]).includes(status)
+  ) {
+    return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+  }
+
+  try {
+    const deliveries = await listDeliveries(id, {
+      status: (status as WebhookDelivery["status"]) || undefined,
+    });
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error("Error fetching webhook deliveries:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch webhook deliveries" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth/guard";
+import { ADMIN_ROLES } from "@/lib/auth/roles";
+import {
+  auditWebhookSource,
+  deleteWebhookSource,
+  updateWebhookSource,
+  WebhookSourceError,
+} from "@/lib/webhooks";
+import { webhookSourceUpdateSchema } from "@/lib/form-schemas/webhook";
+
+type Params = { params: Promise<{ id: string }> };
+
+async function sourceId(params: Params["params"]) {
+  const id = parseInt((await params).id, 10);
+  return id > 0 ? id : null;
+}
+
+// Renames, remaps or pauses a source. A new field map applies to replayed
+// deliveries as well as new ones.
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const id = await sourceId(params);
+  if (!id) {
+    return NextResponse.json({ error: "Invalid source ID" }, { status: 400 });
+  }
+
+  try {
+    const body = await request.json();
+    const parsed = webhookSourceUpdateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid webhook source",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const change = await txDb.transaction((tx) =>
+      updateWebhookSource(id, parsed.data, tx)
+    );
+    if (!change) {
+      return NextResponse.json({ error: "Source not found" }, { status: 404 });
+    }
+    await auditWebhookSource(auth.user, "update", change.before, change.after);
+    return NextResponse.json({ source: change.after });
+  } catch (error) {
+    if (error instanceof WebhookSourceError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error updating webhook source:", error);
+    return NextResponse.json(
+      { error: "Failed to update webhook source" },
+      { status: 500 }
+    );
+  }
+}
+
+// Deletes a source and its delivery log; what it created stays.
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const id = await sourceId(params);
+  if (!id) {
+    return NextResponse.json({ error: "Invalid source ID" }, { status: 400 });
+  }
+
+  try {
+    const deleted = await txDb.transaction((tx) => deleteWebhookSource(id, tx));
+    if (!deleted) {
+      return NextResponse.json({ error: "Source not found" }, { status: 404 });
+    }
+    await auditWebhookSource(auth.user, "delete", deleted, null);
+    return NextResponse.json({ source: deleted });
+  } catch (error) {
+    console.error("Error deleting webhook source:", error);
+    return NextResponse.json(
+      { error: "Failed to delete webhook source" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth/guard";
+import { ADMIN_ROLES } from "@/lib/auth/roles";
+import { rotateWebhookSecret } from "@/lib/webhooks";
+
+// Replaces a source's secret, e.g. when it has leaked. The new secret is in
+// this response only; the sender must be updated with it.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  const id = parseInt((await params).id, 10);
+  if (isNaN(id) || id <= 0) {
+    return NextResponse.json({ error: "Invalid source ID" }, { status: 400 });
+  }
+
+  try {
+    const rotated = await txDb.transaction((tx) => rotateWebhookSecret(id, tx));
+    if (!rotated) {
+      return NextResponse.json({ error: "Source not found" }, { status: 404 });
+    }
+    return NextResponse.json(rotated);
+  } catch (error) {
+    console.error("Error replacing webhook secret:", error);
+    return NextResponse.json(
+      { error: "Failed to replace webhook secret" },
+      { status: 500 }
+    );
+  }
+}
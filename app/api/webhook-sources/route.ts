@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { txDb } from "@/lib/db";
+import { requireRole } from "@/lib/auth/guard";
+import { ADMIN_ROLES } from "@/lib/auth/roles";
+import {
+  auditWebhookSource,
+  createWebhookSource,
+  listWebhookSources,
+  WebhookSourceError,
+} from "@/lib/webhooks";
+import { webhookSourceSchema } from "@/lib/form-schemas/webhook";
+
+// Inbound webhook sources with their delivery counts.
+export async function GET() {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    return NextResponse.json({ sources: await listWebhookSources() });
+  } catch (error) {
+    console.error("Error fetching webhook sources:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch webhook sources" },
+      { status: 500 }
+    );
+  }
+}
+
+// Creates a source. Its secret is in this response only.
+export async function POST(request: NextRequest) {
+  const auth = await requireRole(ADMIN_ROLES);
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json();
+    const parsed = webhookSourceSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid webhook source",
+          details: parsed.error.issues.map((issue) => ({
+            field: issue.path.join("."),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+
+    const created = await txDb.transaction((tx) =>
+      createWebhookSource(parsed.data, auth.user.id, tx)
+    );
+    await auditWebhookSource(auth.user, "create", null, created.source);
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    if (error instanceof WebhookSourceError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error creating webhook source:", error);
+    return NextResponse.json(
+      { error: "Failed to create webhook source" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+const request = vi.hoisted(() => ({ apiKey: null as string | null }));
+
+vi.mock("@/lib/auth/guard", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/auth/guard")>()),
+  readApiKey: async () => request.apiKey,
+}));
+
+import { db } from "@/lib/db";
+import { contact, webhookDelivery, webhookSource } from "@/lib/db/schema";
+import { createWebhookSource } from "@/lib/webhooks";
+import { POST } from "./route";
+
+const send = (query: string, slug = "crm") =>
+  POST(
+    new NextRequest(`http://localhost/api/webhook/${slug}${query}`, { method: "POST" }),
+    { params: Promise.resolve({ slug }) }
+  );
+
+beforeEach(async () => {
+  await db.execute(
+    sql`TRUNCATE ${webhookSource}, ${contact} RESTART IDENTITY CASCADE`
+  );
+  const { secret } = await createWebhookSource(
+    {
+      name: "CRM",
+      slug: "crm",
+      target: "contact",
+      fieldMap: { firstName: "first_name", lastName: "last_name" },
+    },
+    null,
+    db
+  );
+  request.apiKey = secret;
+});
+
+describe("POST /api/webhook/[slug]", () => {
+  it("creates a record from the query string", async () => {
+    const response = await send("?first_name=Dana&last_name=Donor");
+    expect(response.status).toBe(201);
+    expect(await response.json()).toMatchObject({
+      deliveryId: 1,
+      status: "processed",
+      recordId: 1,
+    });
+    expect(await db.select().from(contact)).toHaveLength(1);
+  });
+
+  it("answers a delivery it cannot apply with 400", async () => {
+    const response = await send("?first_name=Dana");
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain("Last name is required");
+    expect(await db.select().from(webhookDelivery)).toHaveLength(1);
+  });
+
+  it("stores nothing without the source's secret", async () => {
+    request.apiKey = "guess";
+    expect((await send("?first_name=Dana&last_name=Donor")).status).toBe(401);
+    expect((await send("?first_name=Dana", "forms")).status).toBe(404);
+    expect(await db.select().from(webhookDelivery)).toEqual([]);
+  });
+
+  it("needs some data", async () => {
+    const response = await send("");
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "No data found in query parameters or request body",
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readApiKey } from "@/lib/auth/guard";
+import {
+  getWebhookSourceBySlug,
+  readDeliveryValues,
+  receiveDelivery,
+  verifySourceSecret,
+} from "@/lib/webhooks";
+
+const DELIVERY_STATUS_CODES = {
+  received: 202,
+  processed: 201,
+  duplicate: 200,
+  failed: 400,
+} as const;
+
+// Inbound webhook of the source with this slug, set up on the Webhooks page.
+// The sender authenticates with the source's secret ("Authorization: Bearer
+// <secret>" or "x-api-key") and sends its data as query parameters, JSON or
+// a form. The delivery is stored, then mapped onto a contact, pledge or
+// payment; one that fails can be replayed from the Webhooks page.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+  try {
+    const source = await getWebhookSourceBySlug(slug);
+    if (!source || !source.isActive) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+    if (!verifySourceSecret(source, await readApiKey())) {
+      return NextResponse.json({ error: "Invalid API key" }, { status: 401 });
+    }
+
+    const values = await readDeliveryValues(request);
+    if (Object.keys(values).length === 0) {
+      return NextResponse.json(
+        { error: "No data found in query parameters or request body" },
+        { status: 400 }
+      );
+    }
+
+    const delivery = await receiveDelivery(source, values);
+    return NextResponse.json(
+      {
+        deliveryId: delivery.id,
+        status: delivery.status,
+        result: delivery.result,
+        error: delivery.error,
+        recordId: delivery.recordId,
+      },
+      { status: DELIVERY_STATUS_CODES[delivery.status] }
+    );
+  } catch (error) {
+    console.error(`Error processing webhook ${slug}:`, error);
+    return NextResponse.json(
+      { error: "Failed to process webhook" },
+      { status: 500 }
+    );
+  }
+}
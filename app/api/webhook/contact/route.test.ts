@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+const request = vi.hoisted(() => ({ apiKey: null as string | null }));
+
+vi.mock("@/lib/auth/guard", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/auth/guard")>()),
+  readApiKey: async () => request.apiKey,
+}));
+
+import { db } from "@/lib/db";
+import { contact, webhookDelivery, webhookSource } from "@/lib/db/schema";
+import { POST } from "./route";
+
+const send = (query: string) =>
+  POST(
+    new NextRequest(`http://localhost/api/webhook/contact${query}`, { method: "POST" })
+  );
+
+beforeEach(async () => {
+  await db.execute(
+    sql`TRUNCATE ${webhookSource}, ${contact} RESTART IDENTITY CASCADE`
+  );
+  vi.stubEnv("CONTACT_WEBHOOK_SECRET", "legacy-key");
+  request.apiKey = "legacy-key";
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("POST /api/webhook/contact", () => {
+  it("creates the contact through a source with the old keys and secret", async () => {
+    const response = await send(
+      "?first_name=Dana&last_name=Donor&email=dana@example.org&contact_id=ghl-1"
+    );
+    expect(response.status).toBe(201);
+    const [created] = await db.select().from(contact);
+    expect(created).toMatchObject({ firstName: "Dana", email: "dana@example.org" });
+
+    const [source] = await db.select().from(webhookSource);
+    expect(source).toMatchObject({ slug: "contact", target: "contact" });
+    expect(await db.select().from(webhookDelivery)).toHaveLength(1);
+
+    request.apiKey = "guess";
+    expect((await send("?first_name=Eli&last_name=Other")).status).toBe(401);
+  });
+
+  it("answers 404 without a secret configured", async () => {
+    vi.stubEnv("CONTACT_WEBHOOK_SECRET", "");
+    expect((await send("?first_name=Dana&last_name=Donor")).status).toBe(404);
+    expect(await db.select().from(webhookSource)).toEqual([]);
+  });
+});
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ProcessorEventError, receiveProcessorEvent } from "@/lib/processors";
+import {
+  paypalHeaders,
+  verifyPaypalSignature,
+} from "@/lib/processors/signatures";
+
+// PayPal webhook endpoint. PAYPAL_WEBHOOK_ID is the id PayPal gave the
+// webhook, which its signatures cover. The signing certificate is fetched
+// from PayPal unless PAYPAL_WEBHOOK_CERT holds one (or a public key) to use
+// instead, as when testing with locally signed events. A 500 makes PayPal
+// retry.
+export async function POST(request: NextRequest) {
+  const webhookId = process.env.PAYPAL_WEBHOOK_ID;
+  if (!webhookId) {
+    console.error("PAYPAL_WEBHOOK_ID is not set in the environment variables");
+    return NextResponse.json(
+      { error: "PayPal webhooks are not configured" },
+      { status: 503 }
+    );
+  }
+  // Env files often hold a PEM on one line with "\n" escapes
+  const certificate = process.env.PAYPAL_WEBHOOK_CERT?.replace(/\\n/g, "\n");
+
+  const payload = await request.text();
+  const verified = await verifyPaypalSignature(
+    payload,
+    paypalHeaders(request.headers),
+    webhookId,
+    certificate || undefined
+  );
+  if (!verified) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 400 });
+  }
+
+  try {
+    const { event, duplicate } = await receiveProcessorEvent("paypal", payload);
+    return NextResponse.json({
+      received: true,
+      duplicate,
+      status: event.status,
+      result: event.result,
+      error: event.error,
+    });
+  } catch (error) {
+    if (error instanceof ProcessorEventError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error processing PayPal event:", error);
+    return NextResponse.json(
+      { error: "Failed to process event" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { db } from "@/lib/db";
+import { contact, payment, pledge, processorEvent } from "@/lib/db/schema";
+import { signStripePayload } from "@/lib/processors/signatures";
+import { POST } from "./route";
+
+const secret = "whsec_test";
+
+const payload = JSON.stringify({
+  id: "evt_1",
+  type: "charge.succeeded",
+  data: {
+    object: {
+      id: "ch_1",
+      amount: 2500,
+      currency: "usd",
+      created: 1740830400,
+      billing_details: { name: "Dana Donor", email: "dana@example.org" },
+      metadata: {},
+    },
+  },
+});
+
+const send = (signature?: string) =>
+  POST(
+    new NextRequest("http://localhost/api/webhook/stripe", {
+      method: "POST",
+      body: payload,
+      headers: signature ? { "stripe-signature": signature } : {},
+    })
+  );
+
+beforeEach(async () => {
+  vi.stubEnv("STRIPE_WEBHOOK_SECRET", secret);
+  await db.execute(
+    sql`TRUNCATE ${contact}, ${pledge}, ${payment}, ${processorEvent} RESTART IDENTITY CASCADE`
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("POST /api/webhook/stripe", () => {
+  it("records a signed event", async () => {
+    const response = await send(signStripePayload(payload, secret));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      received: true,
+      duplicate: false,
+      status: "processed",
+    });
+    expect(await db.select().from(payment)).toHaveLength(1);
+  });
+
+  it("stores nothing without a valid signature", async () => {
+    expect((await send()).status).toBe(400);
+    const forged = await send(signStripePayload(payload, "whsec_other"));
+    expect(forged.status).toBe(400);
+    expect(await forged.json()).toEqual({ error: "Invalid signature" });
+    expect(await db.select().from(processorEvent)).toEqual([]);
+  });
+
+  it("is unavailable until a secret is set", async () => {
+    vi.stubEnv("STRIPE_WEBHOOK_SECRET", "");
+    const response = await send(signStripePayload(payload, secret));
+    expect(response.status).toBe(503);
+  });
+});
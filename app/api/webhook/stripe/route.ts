@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ProcessorEventError, receiveProcessorEvent } from "@/lib/processors";
+import { verifyStripeSignature } from "@/lib/processors/signatures";
+
+// Stripe webhook endpoint, signed with STRIPE_WEBHOOK_SECRET (the endpoint's
+// "whsec_..." signing secret). Events are stored and applied as described in
+// lib/processors; a 500 makes Stripe retry.
+export async function POST(request: NextRequest) {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error("STRIPE_WEBHOOK_SECRET is not set in the environment variables");
+    return NextResponse.json(
+      { error: "Stripe webhooks are not configured" },
+      { status: 503 }
+    );
+  }
+
+  // The signature covers the exact bytes sent, so read the body as text
+  const payload = await request.text();
+  if (!verifyStripeSignature(payload, request.headers.get("stripe-signature"), secret)) {
+    return NextResponse.json({ error: "Invalid signature" }, { status: 400 });
+  }
+
+  try {
+    const { event, duplicate } = await receiveProcessorEvent("stripe", payload);
+    return NextResponse.json({
+      received: true,
+      duplicate,
+      status: event.status,
+      result: event.result,
+      error: event.error,
+    });
+  } catch (error) {
+    if (error instanceof ProcessorEventError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error processing Stripe event:", error);
+    return NextResponse.json(
+      { error: "Failed to process event" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,12 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { contactRoles } from "@/lib/db/schema";
+import { requireApiKey } from "@/lib/auth/guard";
 
 export async function GET() {
+  const unauthorized = await requireApiKey("ZAPIER_API_KEY");
+  if (unauthorized) return unauthorized;
+
   try {
     const roles = await db.select().from(contactRoles);
     return NextResponse.json(roles);
@@ -1,11 +1,23 @@
 import { NextResponse } from "next/server";
+import { isNull } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { contact } from "@/lib/db/schema";
+import { requireApiKey } from "@/lib/auth/guard";
+import { getContactChannels } from "@/lib/contact-channels";
 
 export async function GET() {
+  const unauthorized = await requireApiKey("ZAPIER_API_KEY");
+  if (unauthorized) return unauthorized;
+
   try {
-    const contacts = await db.select().from(contact);
-    return NextResponse.json(contacts);
+    const contacts = await db
+      .select()
+      .from(contact)
+      .where(isNull(contact.deletedAt));
+    const channels = await getContactChannels(contacts);
+    return NextResponse.json(
+      contacts.map((row) => ({ ...row, ...channels.get(row.id) }))
+    );
   } catch (error) {
     console.error("Error fetching contacts:", error);
     return NextResponse.json(
@@ -1,10 +1,18 @@
 import { NextResponse } from "next/server";
+import { isNull } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { paymentPlan } from "@/lib/db/schema";
+import { requireApiKey } from "@/lib/auth/guard";
 
 export async function GET() {
+  const unauthorized = await requireApiKey("ZAPIER_API_KEY");
+  if (unauthorized) return unauthorized;
+
   try {
-    const plans = await db.select().from(paymentPlan);
+    const plans = await db
+      .select()
+      .from(paymentPlan)
+      .where(isNull(paymentPlan.deletedAt));
     return NextResponse.json(plans);
   } catch (error) {
     console.error("Error fetching payment plans:", error);
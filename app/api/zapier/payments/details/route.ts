@@ -9,9 +9,13 @@ import {
   category,
   bonusRule,
 } from "@/lib/db/schema";
-import { eq } from "drizzle-orm";
+import { eq, isNull } from "drizzle-orm";
+import { requireApiKey } from "@/lib/auth/guard";
 
 export async function GET() {
+  const unauthorized = await requireApiKey("ZAPIER_API_KEY");
+  if (unauthorized) return unauthorized;
+
   try {
     const paymentsWithDetails = await db
       .select({
@@ -68,7 +72,8 @@ export async function GET() {
       .leftJoin(category, eq(pledge.categoryId, category.id))
       .leftJoin(paymentPlan, eq(payment.paymentPlanId, paymentPlan.id))
       .leftJoin(solicitor, eq(payment.solicitorId, solicitor.id))
-      .leftJoin(bonusRule, eq(payment.bonusRuleId, bonusRule.id));
+      .leftJoin(bonusRule, eq(payment.bonusRuleId, bonusRule.id))
+      .where(isNull(payment.deletedAt));
 
     return NextResponse.json(paymentsWithDetails);
   } catch (error) {
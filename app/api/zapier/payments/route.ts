@@ -1,10 +1,18 @@
 import { NextResponse } from "next/server";
+import { isNull } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { payment } from "@/lib/db/schema";
+import { requireApiKey } from "@/lib/auth/guard";
 
 export async function GET() {
+  const unauthorized = await requireApiKey("ZAPIER_API_KEY");
+  if (unauthorized) return unauthorized;
+
   try {
-    const payments = await db.select().from(payment);
+    const payments = await db
+      .select()
+      .from(payment)
+      .where(isNull(payment.deletedAt));
     return NextResponse.json(payments);
   } catch (error) {
     console.error("Error fetching payments:", error);
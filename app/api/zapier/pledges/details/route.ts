@@ -7,9 +7,13 @@ import {
   payment,
   paymentPlan,
 } from "@/lib/db/schema";
-import { eq, sql } from "drizzle-orm";
+import { and, eq, isNull, sql } from "drizzle-orm";
+import { requireApiKey } from "@/lib/auth/guard";
 
 export async function GET() {
+  const unauthorized = await requireApiKey("ZAPIER_API_KEY");
+  if (unauthorized) return unauthorized;
+
   try {
     const pledgesWithDetails = await db
       .select({
@@ -62,8 +66,12 @@ export async function GET() {
       .from(pledge)
       .leftJoin(contact, eq(pledge.contactId, contact.id))
       .leftJoin(category, eq(pledge.categoryId, category.id))
-      .leftJoin(payment, eq(pledge.id, payment.pledgeId))
+      .leftJoin(
+        payment,
+        and(eq(pledge.id, payment.pledgeId), isNull(payment.deletedAt))
+      )
       .leftJoin(paymentPlan, eq(pledge.id, paymentPlan.pledgeId))
+      .where(isNull(pledge.deletedAt))
       .groupBy(pledge.id, contact.id, category.id);
 
     return NextResponse.json(pledgesWithDetails);
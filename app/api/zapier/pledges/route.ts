@@ -1,10 +1,18 @@
 import { NextResponse } from "next/server";
+import { isNull } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { pledge } from "@/lib/db/schema";
+import { requireApiKey } from "@/lib/auth/guard";
 
 export async function GET() {
+  const unauthorized = await requireApiKey("ZAPIER_API_KEY");
+  if (unauthorized) return unauthorized;
+
   try {
-    const pledges = await db.select().from(pledge);
+    const pledges = await db
+      .select()
+      .from(pledge)
+      .where(isNull(pledge.deletedAt));
     return NextResponse.json(pledges);
   } catch (error) {
     console.error("Error fetching pledges:", error);
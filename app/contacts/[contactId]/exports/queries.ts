@@ -1,13 +1,40 @@
 import { useQuery } from "@tanstack/react-query";
 import axios from "axios";
+import type {
+  ContactAddress,
+  ContactEmail,
+  ContactPhone,
+} from "@/lib/db/schema";
+import {
+  describeAddresses,
+  describeEmails,
+  describePhones,
+} from "@/lib/contact-format";
 
 const api = axios.create({
   baseURL: "/api",
 });
 
+// Every address, phone and email of a contact goes in one cell each
 export const getContacts = async () => {
   const { data } = await api.get("/zapier/contacts");
-  return data;
+  return data.map(
+    ({
+      addresses,
+      phones,
+      emails,
+      ...contact
+    }: {
+      addresses: ContactAddress[];
+      phones: ContactPhone[];
+      emails: ContactEmail[];
+    }) => ({
+      ...contact,
+      allEmails: describeEmails(emails),
+      allPhones: describePhones(phones),
+      allAddresses: describeAddresses(addresses),
+    })
+  );
 };
 
 export const getPayments = async () => {
@@ -0,0 +1,11 @@
+import HistoryTimeline from "@/components/history/history-client";
+import React from "react";
+
+export default async function History({
+  params,
+}: {
+  params: Promise<{ contactId: number }>;
+}) {
+  const { contactId } = await params;
+  return <HistoryTimeline contactId={contactId} />;
+}
@@ -242,9 +242,7 @@ const editPaymentSchema = z.object({
 
   referenceNumber: z.string().optional().nullable(),
   checkNumber: z.string().optional().nullable(),
-  receiptNumber: z.string().optional().nullable(),
   receiptType: z.string().optional().nullable(),
-  receiptIssued: z.boolean().optional(),
 
   solicitorId: z.number().positive("Solicitor ID must be positive").optional().nullable(),
   bonusPercentage: z.number().min(0).max(100).optional().nullable(),
@@ -293,11 +291,6 @@ export default function EditPaymentDialog({
   open: controlledOpen,
   onOpenChange: controlledOnOpenChange,
 }: EditPaymentDialogProps) {
-  const {
-    data: exchangeRatesData,
-    isLoading: isLoadingRates,
-    error: ratesError,
-  } = useExchangeRates();
   const { data: solicitorsData } = useSolicitors({ status: "active" });
 
   const [internalOpen, setInternalOpen] = useState(false);
@@ -338,9 +331,7 @@ export default function EditPaymentDialog({
       paymentStatus: payment.paymentStatus,
       referenceNumber: payment.referenceNumber || null,
       checkNumber: payment.checkNumber || null,
-      receiptNumber: payment.receiptNumber || null,
       receiptType: payment.receiptType || null,
-      receiptIssued: payment.receiptIssued,
       solicitorId: payment.solicitorId || null,
       bonusPercentage: payment.bonusPercentage ? parseFloat(payment.bonusPercentage) : null,
       bonusAmount: payment.bonusAmount ? parseFloat(payment.bonusAmount) : null,
@@ -355,6 +346,11 @@ export default function EditPaymentDialog({
   const watchedCurrency = form.watch("currency");
   const watchedAmount = form.watch("amount");
   const watchedPaymentDate = form.watch("paymentDate");
+  const {
+    data: exchangeRatesData,
+    isLoading: isLoadingRates,
+    error: ratesError,
+  } = useExchangeRates(watchedPaymentDate);
   const watchedSolicitorId = form.watch("solicitorId");
   const watchedBonusPercentage = form.watch("bonusPercentage");
   const watchedExchangeRate = form.watch("exchangeRate");
@@ -467,9 +463,7 @@ export default function EditPaymentDialog({
       paymentStatus: payment.paymentStatus,
       referenceNumber: payment.referenceNumber || null,
       checkNumber: payment.checkNumber || null,
-      receiptNumber: payment.receiptNumber || null,
       receiptType: payment.receiptType || null,
-      receiptIssued: payment.receiptIssued,
       solicitorId: payment.solicitorId || null,
       bonusPercentage: payment.bonusPercentage ? parseFloat(payment.bonusPercentage) : null,
       bonusAmount: payment.bonusAmount ? parseFloat(payment.bonusAmount) : null,
@@ -1204,20 +1198,15 @@ export default function EditPaymentDialog({
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {/* Receipt Number */}
-                  <FormField
-                    control={form.control}
-                    name="receiptNumber"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Receipt Number</FormLabel>
-                        <FormControl>
-                          <Input {...field} value={field.value || ""} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                  {/* Receipt Number is assigned when a receipt is issued */}
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Receipt Number</p>
+                    <p className="text-sm text-muted-foreground">
+                      {payment.receiptIssued && payment.receiptNumber
+                        ? payment.receiptNumber
+                        : "Not issued – issue receipts from the payments list"}
+                    </p>
+                  </div>
 
                   {/* Receipt Type */}
                   <FormField
@@ -1245,28 +1234,6 @@ export default function EditPaymentDialog({
                     )}
                   />
                 </div>
-
-                {/* Receipt Issued */}
-                <FormField
-                  control={form.control}
-                  name="receiptIssued"
-                  render={({ field }) => (
-                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4 shadow-sm mt-4">
-                      <div className="space-y-0.5">
-                        <FormLabel className="text-base">Receipt Issued</FormLabel>
-                        <DialogDescription>
-                          Has a receipt been issued for this payment?
-                        </DialogDescription>
-                      </div>
-                      <FormControl>
-                        <Switch
-                          checked={field.value}
-                          onCheckedChange={field.onChange}
-                        />
-                      </FormControl>
-                    </FormItem>
-                  )}
-                />
               </CardContent>
             </Card>
 
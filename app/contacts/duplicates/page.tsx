@@ -0,0 +1,12 @@
+import React, { Suspense } from "react";
+import DuplicatesClient from "@/components/duplicates/duplicates-client";
+
+const Duplicates = () => {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <DuplicatesClient />
+    </Suspense>
+  );
+};
+
+export default Duplicates;
@@ -0,0 +1,12 @@
+import React, { Suspense } from "react";
+import DepositDetailClient from "@/components/deposits/deposit-detail-client";
+
+const DepositDetails = () => {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <DepositDetailClient />
+    </Suspense>
+  );
+};
+
+export default DepositDetails;
@@ -0,0 +1,12 @@
+import React, { Suspense } from "react";
+import DepositsClient from "@/components/deposits/deposits-client";
+
+const Deposits = () => {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <DepositsClient />
+    </Suspense>
+  );
+};
+
+export default Deposits;
@@ -0,0 +1,12 @@
+import React, { Suspense } from "react";
+import HouseholdDetailClient from "@/components/households/household-detail-client";
+
+const HouseholdDetails = () => {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <HouseholdDetailClient />
+    </Suspense>
+  );
+};
+
+export default HouseholdDetails;
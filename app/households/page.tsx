@@ -0,0 +1,12 @@
+import React, { Suspense } from "react";
+import HouseholdsClient from "@/components/households/households-client";
+
+const Households = () => {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <HouseholdsClient />
+    </Suspense>
+  );
+};
+
+export default Households;
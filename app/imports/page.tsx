@@ -0,0 +1,12 @@
+import React, { Suspense } from "react";
+import ImportsClient from "@/components/imports/imports-client";
+
+const Imports = () => {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <ImportsClient />
+    </Suspense>
+  );
+};
+
+export default Imports;
@@ -5,6 +5,7 @@ import { NuqsAdapter } from "nuqs/adapters/next/app";
 import { TanstackQueryProvider } from "./query-provider";
 import { Toaster } from "@/components/ui/sonner";
 import { CurrentBreadcrumb } from "@/components/current-page";
+import { UserMenu } from "@/components/auth/user-menu";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -34,7 +35,10 @@ export default function RootLayout({
         <TanstackQueryProvider>
           <NuqsAdapter>
             <main className="container mx-auto py-8 max-w-7xl">
-              <CurrentBreadcrumb />
+              <div className="flex items-center justify-between">
+                <CurrentBreadcrumb />
+                <UserMenu />
+              </div>
               {children}
             </main>
             <Toaster position="top-center" />
@@ -0,0 +1,12 @@
+import { Suspense } from "react";
+import LoginForm from "@/components/auth/login-form";
+
+export default function LoginPage() {
+  return (
+    <div className="flex min-h-svh items-center justify-center">
+      <Suspense>
+        <LoginForm />
+      </Suspense>
+    </div>
+  );
+}
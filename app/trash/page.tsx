@@ -0,0 +1,12 @@
+import React, { Suspense } from "react";
+import TrashClient from "@/components/trash/trash-client";
+
+const Trash = () => {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <TrashClient />
+    </Suspense>
+  );
+};
+
+export default Trash;
@@ -0,0 +1,12 @@
+import React, { Suspense } from "react";
+import WebhooksClient from "@/components/webhooks/webhooks-client";
+
+const Webhooks = () => {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <WebhooksClient />
+    </Suspense>
+  );
+};
+
+export default Webhooks;
@@ -0,0 +1,95 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import {
+  Home,
+  Landmark,
+  LogOut,
+  Trash2,
+  Upload,
+  UserCircle,
+  Webhook,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { roleLabels } from "@/lib/auth/roles";
+import { useCurrentUser } from "@/lib/query/auth/useCurrentUser";
+import { useLogout } from "@/lib/mutation/useLogin";
+
+export function UserMenu() {
+  const router = useRouter();
+  const { data: user } = useCurrentUser();
+  const { mutate: logout, isPending } = useLogout();
+
+  if (!user) return null;
+
+  const handleLogout = () => {
+    logout(undefined, {
+      onSuccess: () => {
+        router.replace("/login");
+        router.refresh();
+      },
+    });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <UserCircle className="h-4 w-4" />
+          <span className="hidden sm:inline">{user.name}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>
+          <div className="font-medium">{user.email}</div>
+          <div className="text-xs text-muted-foreground">
+            {roleLabels[user.role]}
+          </div>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {user.role !== "solicitor" && (
+          <DropdownMenuItem onClick={() => router.push("/households")}>
+            <Home className="h-4 w-4" />
+            Households
+          </DropdownMenuItem>
+        )}
+        {user.role !== "solicitor" && (
+          <DropdownMenuItem onClick={() => router.push("/deposits")}>
+            <Landmark className="h-4 w-4" />
+            Deposits
+          </DropdownMenuItem>
+        )}
+        {(user.role === "admin" || user.role === "bookkeeper") && (
+          <DropdownMenuItem onClick={() => router.push("/imports")}>
+            <Upload className="h-4 w-4" />
+            Import
+          </DropdownMenuItem>
+        )}
+        {(user.role === "admin" || user.role === "bookkeeper") && (
+          <DropdownMenuItem onClick={() => router.push("/trash")}>
+            <Trash2 className="h-4 w-4" />
+            Trash
+          </DropdownMenuItem>
+        )}
+        {user.role === "admin" && (
+          <DropdownMenuItem onClick={() => router.push("/webhooks")}>
+            <Webhook className="h-4 w-4" />
+            Webhooks
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem onClick={handleLogout} disabled={isPending}>
+          <LogOut className="h-4 w-4" />
+          Sign out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
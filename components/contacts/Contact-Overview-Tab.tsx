@@ -1,14 +1,34 @@
 "use client";
 
+import { useState } from "react";
+import { useRouter } from "next/navigation";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
 import { Progress } from "@/components/ui/progress";
-import { User, MapPin, Grid2x2 } from "lucide-react";
-import { Contact, ContactRole, StudentRole } from "@/lib/db/schema";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { User, MapPin, Grid2x2, Pencil, Trash2 } from "lucide-react";
+import { ContactRole, StudentRole } from "@/lib/db/schema";
 import ContactCategoriesCard from "./Contact-Category";
+import { YearEndStatementCard } from "./year-end-statements";
+import { ContactHouseholdCard } from "./contact-household-card";
+import ContactEditForm, { type ContactWithChannels } from "./contact-edit-form";
+import { formatAddress } from "@/lib/contact-format";
 import { Category } from "@/lib/query/useContactCategories";
+import { useCurrentUser } from "@/lib/query/auth/useCurrentUser";
+import { useDeleteContact } from "@/lib/mutation/useDeleteContact";
 
-interface ContactWithRoles extends Contact {
+interface ContactWithRoles extends ContactWithChannels {
   contactRoles: ContactRole[];
   studentRoles: StudentRole[];
 }
@@ -30,6 +50,19 @@ const ContactOverviewTab: React.FC<ContactOverviewTabProps> = ({
   financialSummary,
   categories,
 }) => {
+  const [editing, setEditing] = useState(false);
+  const router = useRouter();
+  const { data: currentUser } = useCurrentUser();
+  const canManage =
+    currentUser?.role === "admin" || currentUser?.role === "bookkeeper";
+  const { mutate: deleteContact, isPending: isDeleting } = useDeleteContact();
+
+  const handleDelete = () => {
+    deleteContact(contact.id, {
+      onSuccess: () => router.push("/contacts"),
+    });
+  };
+
   const paymentPercentage =
     financialSummary.totalPledgedUsd > 0
       ? Math.round(
@@ -42,45 +75,127 @@ const ContactOverviewTab: React.FC<ContactOverviewTabProps> = ({
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
       {/* Contact Information Card */}
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle className="flex items-center gap-2">
             <User className="h-5 w-5" />
             Contact Information
           </CardTitle>
+          {canManage && !editing && (
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setEditing(true)}
+              >
+                <Pencil className="h-4 w-4 mr-1" />
+                Edit
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button size="sm" variant="destructive" disabled={isDeleting}>
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete this contact?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {contact.firstName} {contact.lastName} moves to the
+                      trash with their pledges, payment plans and payments.
+                      They can be restored from the trash.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleDelete}>
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          )}
         </CardHeader>
         <CardContent>
-          <dl className="space-y-4 divide-y">
-            <div className="grid grid-cols-2 gap-1 py-2">
-              <dt className="text-muted-foreground font-medium">Full Name</dt>
-              <dd className="text-right capitalize">
-                {contact.title ? `${contact.title}. ` : ""}
-                {contact.firstName} {contact.lastName}
-              </dd>
-            </div>
-            <div className="grid grid-cols-2 gap-1 py-2">
-              <dt className="text-muted-foreground font-medium">Email</dt>
-              <dd className="text-right overflow-hidden text-ellipsis">
-                {contact.email ?? "N/A"}
-              </dd>
-            </div>
-            <div className="grid grid-cols-2 gap-1 py-2">
-              <dt className="text-muted-foreground font-medium">Phone</dt>
-              <dd className="text-right">{contact.phone ?? "N/A"}</dd>
-            </div>
-            <div className="grid grid-cols-2 gap-1 py-2">
-              <dt className="text-muted-foreground font-medium">Gender</dt>
-              <dd className="text-right capitalize">
-                {contact.gender ?? "N/A"}
-              </dd>
-            </div>
-            <div className="grid grid-cols-2 gap-1 py-2">
-              <dt className="text-muted-foreground font-medium flex items-center">
-                <MapPin className="h-4 w-4 mr-1" />
-                Address
-              </dt>
-              <dd className="text-right">{contact.address ?? "N/A"}</dd>
-            </div>
-          </dl>
+          {editing ? (
+            <ContactEditForm
+              contact={contact}
+              onDone={() => setEditing(false)}
+            />
+          ) : (
+            <dl className="space-y-4 divide-y">
+              <div className="grid grid-cols-2 gap-1 py-2">
+                <dt className="text-muted-foreground font-medium">Full Name</dt>
+                <dd className="text-right capitalize">
+                  {contact.title ? `${contact.title}. ` : ""}
+                  {contact.firstName} {contact.lastName}
+                </dd>
+              </div>
+              <div className="grid grid-cols-2 gap-1 py-2">
+                <dt className="text-muted-foreground font-medium">Email</dt>
+                <dd className="text-right overflow-hidden text-ellipsis">
+                  {contact.emails.length
+                    ? contact.emails.map((entry, index) => (
+                        <div key={index}>
+                          {entry.email}{" "}
+                          <span className="text-xs text-muted-foreground">
+                            ({entry.type})
+                          </span>
+                        </div>
+                      ))
+                    : "N/A"}
+                </dd>
+              </div>
+              <div className="grid grid-cols-2 gap-1 py-2">
+                <dt className="text-muted-foreground font-medium">Phone</dt>
+                <dd className="text-right">
+                  {contact.phones.length
+                    ? contact.phones.map((entry, index) => (
+                        <div key={index}>
+                          {entry.number}{" "}
+                          <span className="text-xs text-muted-foreground">
+                            ({entry.type})
+                          </span>
+                        </div>
+                      ))
+                    : "N/A"}
+                </dd>
+              </div>
+              <div className="grid grid-cols-2 gap-1 py-2">
+                <dt className="text-muted-foreground font-medium">Gender</dt>
+                <dd className="text-right capitalize">
+                  {contact.gender ?? "N/A"}
+                </dd>
+              </div>
+              <div className="grid grid-cols-2 gap-1 py-2">
+                <dt className="text-muted-foreground font-medium flex items-center">
+                  <MapPin className="h-4 w-4 mr-1" />
+                  Address
+                </dt>
+                <dd className="text-right">
+                  {contact.addresses.length
+                    ? contact.addresses.map((entry, index) => (
+                        <div key={index}>
+                          {formatAddress(entry)}{" "}
+                          <span className="text-xs text-muted-foreground">
+                            ({entry.type})
+                          </span>
+                        </div>
+                      ))
+                    : "N/A"}
+                </dd>
+              </div>
+              <div className="grid grid-cols-2 gap-1 py-2">
+                <dt className="text-muted-foreground font-medium">
+                  Preferred Currency
+                </dt>
+                <dd className="text-right">
+                  {contact.preferredCurrency ?? "USD"}
+                </dd>
+              </div>
+            </dl>
+          )}
         </CardContent>
       </Card>
 
@@ -132,6 +247,14 @@ const ContactOverviewTab: React.FC<ContactOverviewTabProps> = ({
       <div className="lg:col-span-2">
         <ContactCategoriesCard categories={categories} />
       </div>
+
+      <div className="lg:col-span-2">
+        <ContactHouseholdCard contactId={contact.id} />
+      </div>
+
+      <div className="lg:col-span-2">
+        <YearEndStatementCard contactId={contact.id} />
+      </div>
     </div>
   );
 };
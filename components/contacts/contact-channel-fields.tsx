@@ -0,0 +1,278 @@
+"use client";
+
+import { useFieldArray, type UseFormReturn } from "react-hook-form";
+import { Plus, Star, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  addressTypeEnum,
+  emailTypeEnum,
+  phoneTypeEnum,
+} from "@/lib/db/schema";
+import type { ContactFormValues } from "@/components/forms/contact-form";
+
+type ListName = "emails" | "phones" | "addresses";
+
+interface ChannelFieldsProps {
+  form: UseFormReturn<ContactFormValues>;
+}
+
+function TypeSelect({
+  form,
+  name,
+  types,
+}: ChannelFieldsProps & {
+  name: `${ListName}.${number}.type`;
+  types: readonly string[];
+}) {
+  return (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="w-32 shrink-0">
+          <Select onValueChange={field.onChange} value={field.value}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {types.map((type) => (
+                <SelectItem key={type} value={type}>
+                  <span className="capitalize">{type}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </FormItem>
+      )}
+    />
+  );
+}
+
+// Marks one entry of a list primary and clears the others
+function PrimaryToggle({
+  form,
+  list,
+  index,
+}: ChannelFieldsProps & { list: ListName; index: number }) {
+  const entries = form.watch(list) ?? [];
+  const isPrimary =
+    entries[index]?.isPrimary ||
+    (index === 0 && !entries.some((entry) => entry.isPrimary));
+
+  return (
+    <Button
+      type="button"
+      size="icon"
+      variant="ghost"
+      title={isPrimary ? "Primary" : "Make primary"}
+      onClick={() =>
+        entries.forEach((_, i) =>
+          form.setValue(`${list}.${i}.isPrimary`, i === index)
+        )
+      }
+    >
+      <Star
+        className={isPrimary ? "h-4 w-4 fill-current" : "h-4 w-4 opacity-40"}
+      />
+    </Button>
+  );
+}
+
+function ListHeader({
+  label,
+  onAdd,
+}: {
+  label: string;
+  onAdd: () => void;
+}) {
+  return (
+    <div className="flex items-center justify-between">
+      <FormLabel>{label}</FormLabel>
+      <Button type="button" size="sm" variant="outline" onClick={onAdd}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add
+      </Button>
+    </div>
+  );
+}
+
+// Emails, phones and addresses of a contact, each with a type and one
+// primary entry (starred), for the create and edit forms.
+export default function ContactChannelFields({ form }: ChannelFieldsProps) {
+  const emails = useFieldArray({ control: form.control, name: "emails" });
+  const phones = useFieldArray({ control: form.control, name: "phones" });
+  const addresses = useFieldArray({
+    control: form.control,
+    name: "addresses",
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <ListHeader
+          label="Emails"
+          onAdd={() => emails.append({ type: "personal", email: "" })}
+        />
+        {emails.fields.map((item, index) => (
+          <div key={item.id} className="flex items-start gap-2">
+            <TypeSelect
+              form={form}
+              name={`emails.${index}.type`}
+              types={emailTypeEnum.enumValues}
+            />
+            <FormField
+              control={form.control}
+              name={`emails.${index}.email`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormControl>
+                    <Input placeholder="you@example.com" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <PrimaryToggle form={form} list="emails" index={index} />
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              onClick={() => emails.remove(index)}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <FormField
+          control={form.control}
+          name="emails"
+          render={() => (
+            <FormItem>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <ListHeader
+          label="Phones"
+          onAdd={() => phones.append({ type: "mobile", number: "" })}
+        />
+        {phones.fields.map((item, index) => (
+          <div key={item.id} className="flex items-start gap-2">
+            <TypeSelect
+              form={form}
+              name={`phones.${index}.type`}
+              types={phoneTypeEnum.enumValues}
+            />
+            <FormField
+              control={form.control}
+              name={`phones.${index}.number`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormControl>
+                    <Input placeholder="+1234567890" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <PrimaryToggle form={form} list="phones" index={index} />
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              onClick={() => phones.remove(index)}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <ListHeader
+          label="Addresses"
+          onAdd={() => addresses.append({ type: "home", street: "" })}
+        />
+        {addresses.fields.map((item, index) => (
+          <div key={item.id} className="space-y-2 rounded-md border p-3">
+            <div className="flex items-start gap-2">
+              <TypeSelect
+                form={form}
+                name={`addresses.${index}.type`}
+                types={addressTypeEnum.enumValues}
+              />
+              <FormField
+                control={form.control}
+                name={`addresses.${index}.street`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input placeholder="123 Main St" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <PrimaryToggle form={form} list="addresses" index={index} />
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                onClick={() => addresses.remove(index)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+              {(
+                [
+                  ["city", "City"],
+                  ["state", "State"],
+                  ["postalCode", "Postal code"],
+                  ["country", "Country"],
+                ] as const
+              ).map(([part, placeholder]) => (
+                <FormField
+                  key={part}
+                  control={form.control}
+                  name={`addresses.${index}.${part}`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <Input
+                          placeholder={placeholder}
+                          {...field}
+                          value={field.value ?? ""}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+"use client";
+
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Contact,
+  ContactAddress,
+  ContactEmail,
+  ContactPhone,
+  currencyEnum,
+} from "@/lib/db/schema";
+import {
+  contactFieldsSchema,
+  contactFormSchema,
+} from "@/lib/form-schemas/contact";
+import { useUpdateContact } from "@/lib/mutation/useUpdateContact";
+import type { ContactFormValues } from "@/components/forms/contact-form";
+import ContactChannelFields from "./contact-channel-fields";
+
+const titles = contactFieldsSchema.shape.title.unwrap().options;
+const genders = contactFieldsSchema.shape.gender.unwrap().options;
+
+// Older contacts may hold a title outside the list; the form leaves it blank
+const pick = <T extends string>(options: readonly T[], value: string | null) =>
+  options.find((option) => option === value);
+
+export interface ContactWithChannels extends Contact {
+  addresses: Omit<ContactAddress, "id">[];
+  phones: Omit<ContactPhone, "id">[];
+  emails: Omit<ContactEmail, "id">[];
+}
+
+const orUndefined = (value: string | null) => value ?? undefined;
+
+interface ContactEditFormProps {
+  contact: ContactWithChannels;
+  onDone: () => void;
+}
+
+// Edits a contact in place on the overview tab. Saving sends the whole form,
+// so a field left blank is cleared and the email, phone and address lists
+// replace the saved ones.
+export default function ContactEditForm({
+  contact,
+  onDone,
+}: ContactEditFormProps) {
+  const form = useForm<ContactFormValues>({
+    resolver: zodResolver(contactFormSchema),
+    defaultValues: {
+      firstName: contact.firstName,
+      lastName: contact.lastName,
+      title: pick(titles, contact.title),
+      gender: pick(genders, contact.gender),
+      preferredCurrency: contact.preferredCurrency ?? undefined,
+      emails: contact.emails.map(({ type, email, isPrimary }) => ({
+        type,
+        email,
+        isPrimary,
+      })),
+      phones: contact.phones.map(({ type, number, isPrimary }) => ({
+        type,
+        number,
+        isPrimary,
+      })),
+      addresses: contact.addresses.map((address) => ({
+        type: address.type,
+        street: address.street,
+        city: orUndefined(address.city),
+        state: orUndefined(address.state),
+        postalCode: orUndefined(address.postalCode),
+        country: orUndefined(address.country),
+        isPrimary: address.isPrimary,
+      })),
+    },
+  });
+
+  const { mutate: updateContact, isPending } = useUpdateContact(form.setError);
+
+  const onSubmit = (values: ContactFormValues) => {
+    updateContact({ contactId: contact.id, ...values }, { onSuccess: onDone });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="firstName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>First Name</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="lastName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Last Name</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="title"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Title</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a title" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {titles.map((title) => (
+                      <SelectItem key={title} value={title}>
+                        <span className="capitalize">{title}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="gender"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Gender</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select gender" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {genders.map((gender) => (
+                      <SelectItem key={gender} value={gender}>
+                        <span className="capitalize">{gender}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="preferredCurrency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Preferred Currency</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="USD" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {currencyEnum.enumValues.map((currency) => (
+                      <SelectItem key={currency} value={currency}>
+                        {currency}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <ContactChannelFields form={form} />
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onDone}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isPending}>
+            {isPending ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
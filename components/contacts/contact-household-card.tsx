@@ -0,0 +1,118 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Home, Plus } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useCurrentUser } from "@/lib/query/auth/useCurrentUser";
+import {
+  useContactHousehold,
+  useCreateHousehold,
+} from "@/lib/query/households/useHouseholdsQuery";
+import { roleLabels, usd } from "@/components/households/household-format";
+
+// The household the contact belongs to, or a button to build one from the
+// contact's spouse and child relationships.
+export function ContactHouseholdCard({ contactId }: { contactId: number }) {
+  const router = useRouter();
+  const { data: currentUser } = useCurrentUser();
+  const canView = !!currentUser && currentUser.role !== "solicitor";
+  const canManage =
+    currentUser?.role === "admin" || currentUser?.role === "bookkeeper";
+
+  const { data: household, isLoading } = useContactHousehold(
+    contactId,
+    canView
+  );
+  const createHousehold = useCreateHousehold();
+
+  if (!canView) return null;
+
+  const handleCreate = () => {
+    createHousehold.mutate(
+      { fromContactId: contactId },
+      {
+        onSuccess: (created) => router.push(`/households/${created.id}`),
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <Home className="h-5 w-5" />
+          Household
+        </CardTitle>
+        {household && (
+          <Link
+            href={`/households/${household.id}`}
+            className="text-sm text-primary underline"
+          >
+            View
+          </Link>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-16 w-full" />
+        ) : household ? (
+          <dl className="space-y-4 divide-y">
+            <div className="grid grid-cols-2 gap-1 py-2">
+              <dt className="text-muted-foreground font-medium">Household</dt>
+              <dd className="text-right">{household.name}</dd>
+            </div>
+            <div className="grid grid-cols-2 gap-1 py-2">
+              <dt className="text-muted-foreground font-medium">Salutation</dt>
+              <dd className="text-right">
+                {household.salutation || household.jointSalutation}
+              </dd>
+            </div>
+            <div className="grid grid-cols-2 gap-1 py-2">
+              <dt className="text-muted-foreground font-medium">Members</dt>
+              <dd className="text-right">
+                {household.members.map((member) => (
+                  <div key={member.contactId}>
+                    {member.firstName} {member.lastName}{" "}
+                    <span className="text-xs text-muted-foreground">
+                      ({roleLabels[member.role]})
+                    </span>
+                  </div>
+                ))}
+              </dd>
+            </div>
+            <div className="grid grid-cols-2 gap-1 py-2">
+              <dt className="text-muted-foreground font-medium">
+                Household Giving
+              </dt>
+              <dd className="text-right font-medium">
+                {usd(household.totals.givenUsd)}
+              </dd>
+            </div>
+          </dl>
+        ) : (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Not part of a household.
+            </p>
+            {canManage && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleCreate}
+                disabled={createHousehold.isPending}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Create Household
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
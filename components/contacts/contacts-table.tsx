@@ -30,6 +30,7 @@ import ContactFormDialog from "../forms/contact-form";
 import ContactsSummaryCards from "./contact-summary";
 import { useRouter } from "next/navigation";
 import ExportDataDialog from "../export";
+import { BulkStatementsDialog } from "./year-end-statements";
 
 const QueryParamsSchema = z.object({
   page: z.number().min(1).default(1),
@@ -189,6 +190,10 @@ export default function ContactsTable() {
           triggerText="Export All Data"
           triggerVariant="secondary"
         />
+        <BulkStatementsDialog />
+        <LinkButton variant="secondary" href="/contacts/duplicates">
+          Find Duplicates
+        </LinkButton>
       </div>
 
       {/* Table */}
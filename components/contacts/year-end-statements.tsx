@@ -0,0 +1,183 @@
+"use client";
+
+import React, { useState } from "react";
+import { FileSpreadsheet, FileText, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCurrentUser } from "@/lib/query/auth/useCurrentUser";
+import {
+  bulkStatementsUrl,
+  contactStatementUrl,
+  useContactStatement,
+  type StatementBasis,
+  type StatementParams,
+} from "@/lib/query/statements/useStatementQuery";
+
+const YEARS_SHOWN = 10;
+
+function usePeriodState() {
+  const [params, setParams] = useState<StatementParams>({
+    year: new Date().getFullYear() - 1,
+    basis: "calendar",
+  });
+  return { params, setParams };
+}
+
+function PeriodFields({
+  params,
+  onChange,
+}: {
+  params: StatementParams;
+  onChange: (params: StatementParams) => void;
+}) {
+  const currentYear = new Date().getFullYear();
+  const years = Array.from({ length: YEARS_SHOWN }, (_, i) => currentYear - i);
+
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={String(params.year)}
+        onValueChange={(value) => onChange({ ...params, year: Number(value) })}
+      >
+        <SelectTrigger className="w-28">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {years.map((year) => (
+            <SelectItem key={year} value={String(year)}>
+              {year}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={params.basis}
+        onValueChange={(value) =>
+          onChange({ ...params, basis: value as StatementBasis })
+        }
+      >
+        <SelectTrigger className="w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="calendar">Calendar year</SelectItem>
+          <SelectItem value="fiscal">Fiscal year</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+function DownloadLinks({ pdfUrl, csvUrl }: { pdfUrl: string; csvUrl: string }) {
+  return (
+    <div className="flex gap-2">
+      <Button asChild size="sm" variant="outline">
+        <a href={pdfUrl} target="_blank" rel="noreferrer">
+          <FileText className="h-4 w-4 mr-1" />
+          PDF
+        </a>
+      </Button>
+      <Button asChild size="sm" variant="outline">
+        <a href={csvUrl}>
+          <FileSpreadsheet className="h-4 w-4 mr-1" />
+          CSV
+        </a>
+      </Button>
+    </div>
+  );
+}
+
+// One donor's year-end giving statement, on the contact page.
+export function YearEndStatementCard({ contactId }: { contactId: number }) {
+  const { params, setParams } = usePeriodState();
+  const { data: currentUser } = useCurrentUser();
+  const canRead = !!currentUser && currentUser.role !== "solicitor";
+  const { data: statement, isLoading } = useContactStatement(
+    contactId,
+    params,
+    canRead
+  );
+
+  if (!canRead) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Year-End Statement
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-center justify-between gap-4">
+        <PeriodFields params={params} onChange={setParams} />
+        <div className="text-sm text-muted-foreground">
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : statement ? (
+            <>
+              {statement.lines.length} gift
+              {statement.lines.length === 1 ? "" : "s"} totalling{" "}
+              <span className="font-medium text-foreground">
+                {new Intl.NumberFormat("en-US", {
+                  style: "currency",
+                  currency: statement.currency,
+                }).format(statement.total)}
+              </span>
+            </>
+          ) : null}
+        </div>
+        <DownloadLinks
+          pdfUrl={contactStatementUrl(contactId, params, "pdf")}
+          csvUrl={contactStatementUrl(contactId, params, "csv")}
+        />
+      </CardContent>
+    </Card>
+  );
+}
+
+// Statements for every donor who gave in the period, from the contacts list.
+export function BulkStatementsDialog() {
+  const { params, setParams } = usePeriodState();
+  const { data: currentUser } = useCurrentUser();
+
+  if (!currentUser || currentUser.role === "solicitor") return null;
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="secondary">Year-End Statements</Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Year-End Statements</DialogTitle>
+          <DialogDescription>
+            Giving statements for every donor with completed payments in the
+            period, each in the donor&apos;s preferred currency.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <PeriodFields params={params} onChange={setParams} />
+          <DownloadLinks
+            pdfUrl={bulkStatementsUrl(params, "pdf")}
+            csvUrl={bulkStatementsUrl(params, "csv")}
+          />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
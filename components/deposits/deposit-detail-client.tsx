@@ -0,0 +1,493 @@
+"use client";
+
+import React, { useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { toast } from "sonner";
+import {
+  Check,
+  FileText,
+  Landmark,
+  Lock,
+  RefreshCw,
+  Search,
+  Trash2,
+  X,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useCurrentUser } from "@/lib/query/auth/useCurrentUser";
+import {
+  useCloseDeposit,
+  useConfirmSuggested,
+  useDeleteDeposit,
+  useDeposit,
+  useMatchDeposit,
+  useRemoveDepositEntry,
+  useUpdateDepositLine,
+  type DepositBatchDetail,
+  type DepositLineDetail,
+  type DepositPayment,
+} from "@/lib/query/deposits/useDepositsQuery";
+import DepositEntryForm from "./deposit-entry-form";
+import {
+  depositLabel,
+  lineStatusLabels,
+  money,
+  sourceLabel,
+} from "./deposit-format";
+
+const describePayment = (payment: DepositPayment) =>
+  [
+    `#${payment.id}`,
+    payment.payerName,
+    payment.paymentDate,
+    money(payment.amount, payment.currency),
+    payment.referenceNumber ?? payment.checkNumber,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+function PickPaymentDialog({
+  deposit,
+  line,
+  onClose,
+}: {
+  deposit: DepositBatchDetail;
+  line: DepositLineDetail;
+  onClose: () => void;
+}) {
+  const [paymentId, setPaymentId] = useState("");
+  const updateLine = useUpdateDepositLine(deposit.id);
+
+  const choose = (id: number) => {
+    updateLine.mutate(
+      { lineId: line.id, action: "confirm", paymentId: id },
+      {
+        onSuccess: () => {
+          toast.success(`Row ${line.rowNumber} matched to payment #${id}`);
+          onClose();
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Match Row {line.rowNumber}</DialogTitle>
+          <DialogDescription>
+            {money(line.amount, deposit.currency)}
+            {line.transactionDate && ` on ${line.transactionDate}`}
+            {line.description && ` · ${line.description}`}
+          </DialogDescription>
+        </DialogHeader>
+        {deposit.unmatchedPayments.length > 0 && (
+          <div className="max-h-72 space-y-1 overflow-y-auto">
+            {deposit.unmatchedPayments.map((payment) => (
+              <div
+                key={payment.id}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                <span>{describePayment(payment)}</span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => choose(payment.id)}
+                  disabled={updateLine.isPending}
+                >
+                  Choose
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="deposit-payment-id">Payment ID</Label>
+            <Input
+              id="deposit-payment-id"
+              inputMode="numeric"
+              value={paymentId}
+              onChange={(e) => setPaymentId(e.target.value)}
+            />
+          </div>
+          <Button
+            onClick={() => choose(Number(paymentId))}
+            disabled={!(Number(paymentId) > 0) || updateLine.isPending}
+          >
+            Match
+          </Button>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// One deposit: its lines with the payments matched to them, and the
+// processor's payments no line matched. Checks and cash are keyed in here.
+export default function DepositDetailClient() {
+  const params = useParams<{ depositId: string }>();
+  const router = useRouter();
+  const depositId = Number(params.depositId);
+  const [picking, setPicking] = useState<DepositLineDetail | null>(null);
+  const { data: currentUser } = useCurrentUser();
+  const canManage =
+    currentUser?.role === "admin" || currentUser?.role === "bookkeeper";
+
+  const { data: deposit, isLoading, error } = useDeposit(depositId);
+  const updateLine = useUpdateDepositLine(depositId);
+  const confirmSuggested = useConfirmSuggested(depositId);
+  const matchDeposit = useMatchDeposit(depositId);
+  const closeDeposit = useCloseDeposit(depositId);
+  const removeEntry = useRemoveDepositEntry(depositId);
+  const deleteDeposit = useDeleteDeposit();
+
+  if (error) {
+    return (
+      <Alert variant="destructive" className="mx-4 my-6">
+        <AlertDescription>{error.message}</AlertDescription>
+      </Alert>
+    );
+  }
+  if (isLoading || !deposit) {
+    return <Skeleton className="m-4 h-64" />;
+  }
+
+  const editable = canManage && deposit.status === "open";
+  const entry = deposit.kind === "entry";
+  const busy =
+    updateLine.isPending || confirmSuggested.isPending || removeEntry.isPending;
+
+  const lineAction = (
+    line: DepositLineDetail,
+    action: "confirm" | "unmatch" | "ignore"
+  ) => {
+    updateLine.mutate(
+      { lineId: line.id, action },
+      { onError: (error) => toast.error(error.message) }
+    );
+  };
+
+  return (
+    <div className="m-4 space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Landmark className="h-5 w-5" />
+              {depositLabel(deposit)} deposit of {deposit.depositDate}
+            </CardTitle>
+            <p className="mt-1 text-sm text-muted-foreground">
+              {deposit.fileName && `${deposit.fileName} · `}
+              {money(deposit.totalAmount, deposit.currency)} in{" "}
+              {deposit.lineCount} lines ·{" "}
+              {money(deposit.matchedAmount, deposit.currency)} confirmed
+            </p>
+            {deposit.notes && (
+              <p className="mt-1 text-sm text-muted-foreground">
+                {deposit.notes}
+              </p>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            <Badge variant={deposit.status === "closed" ? "secondary" : "outline"}>
+              {deposit.status === "closed" ? "Reconciled" : "Open"}
+            </Badge>
+            {entry && (
+              <Button variant="outline" asChild>
+                <a
+                  href={`/api/deposits/${deposit.id}/slip`}
+                  target="_blank"
+                  rel="noreferrer"
+                >
+                  <FileText className="h-4 w-4 mr-1" />
+                  Deposit Slip
+                </a>
+              </Button>
+            )}
+            {editable && !entry && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    matchDeposit.mutate(undefined, {
+                      onError: (error) => toast.error(error.message),
+                    })
+                  }
+                  disabled={matchDeposit.isPending}
+                >
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                  Find Matches
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() =>
+                    confirmSuggested.mutate(undefined, {
+                      onSuccess: () => toast.success("Suggested matches confirmed"),
+                      onError: (error) => toast.error(error.message),
+                    })
+                  }
+                  disabled={deposit.counts.suggested === 0 || busy}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  Confirm {deposit.counts.suggested} Suggested
+                </Button>
+              </>
+            )}
+            {editable && (
+              <>
+                <Button
+                  onClick={() =>
+                    closeDeposit.mutate(undefined, {
+                      onSuccess: () => toast.success("Deposit reconciled"),
+                      onError: (error) => toast.error(error.message),
+                    })
+                  }
+                  disabled={
+                    deposit.counts.unmatched + deposit.counts.suggested > 0 ||
+                    closeDeposit.isPending
+                  }
+                >
+                  <Lock className="h-4 w-4 mr-1" />
+                  Close Deposit
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="destructive" size="icon">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete this deposit?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        {entry
+                          ? "Only a deposit with no entries left can be deleted."
+                          : "Its lines are removed and the payments confirmed against them are no longer reconciled."}
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() =>
+                          deleteDeposit.mutate(deposit.id, {
+                            onSuccess: () => {
+                              toast.success("Deposit deleted");
+                              router.push("/deposits");
+                            },
+                            onError: (error) => toast.error(error.message),
+                          })
+                        }
+                      >
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Row</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Payment</TableHead>
+                <TableHead>Status</TableHead>
+                {editable && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deposit.lines.map((line) => (
+                <TableRow key={line.id}>
+                  <TableCell>{line.rowNumber}</TableCell>
+                  <TableCell>{line.transactionDate ?? "—"}</TableCell>
+                  <TableCell className="text-sm">
+                    {line.referenceNumber ?? "—"}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {line.description ?? "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {money(line.amount, deposit.currency)}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {line.payment ? describePayment(line.payment) : "—"}
+                    {line.matchReason && (
+                      <div className="text-xs text-muted-foreground">
+                        {line.matchReason}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={
+                        line.status === "unmatched"
+                          ? "destructive"
+                          : line.status === "confirmed"
+                            ? "secondary"
+                            : "outline"
+                      }
+                    >
+                      {lineStatusLabels[line.status]}
+                    </Badge>
+                  </TableCell>
+                  {editable && entry && (
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() =>
+                          removeEntry.mutate(line.id, {
+                            onSuccess: () =>
+                              toast.success(
+                                `Row ${line.rowNumber} removed; its payment is in the trash`
+                              ),
+                            onError: (error) => toast.error(error.message),
+                          })
+                        }
+                        disabled={busy}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                  {editable && !entry && (
+                    <TableCell className="space-x-1 whitespace-nowrap text-right">
+                      {line.status === "suggested" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => lineAction(line, "confirm")}
+                          disabled={busy}
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setPicking(line)}
+                        disabled={busy}
+                      >
+                        <Search className="h-4 w-4" />
+                      </Button>
+                      {line.status !== "ignored" ? (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => lineAction(line, "ignore")}
+                          disabled={busy}
+                        >
+                          Ignore
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => lineAction(line, "unmatch")}
+                          disabled={busy}
+                        >
+                          Restore
+                        </Button>
+                      )}
+                      {(line.status === "suggested" ||
+                        line.status === "confirmed") && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => lineAction(line, "unmatch")}
+                          disabled={busy}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {editable && entry && <DepositEntryForm deposit={deposit} />}
+
+      {deposit.source && deposit.status === "open" && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">
+              {sourceLabel(deposit.source)} payments not in any deposit
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {deposit.unmatchedPayments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Every {sourceLabel(deposit.source)} payment from these dates
+                has been deposited.
+              </p>
+            ) : (
+              <ul className="space-y-1 text-sm">
+                {deposit.unmatchedPayments.map((payment) => (
+                  <li key={payment.id}>{describePayment(payment)}</li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {picking && (
+        <PickPaymentDialog
+          deposit={deposit}
+          line={picking}
+          onClose={() => setPicking(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,369 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { Plus } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  ENTRY_METHODS,
+  entryMethodLabels,
+  type EntryMethod,
+} from "@/lib/deposits/fields";
+import { useGetContacts } from "@/lib/query/useContacts";
+import { usePledgesQuery } from "@/lib/query/pledge/usePledgeQuery";
+import {
+  useAddDepositEntry,
+  useUpdateDeposit,
+  type DepositBatchDetail,
+} from "@/lib/query/deposits/useDepositsQuery";
+import { money } from "./deposit-format";
+
+interface ChosenContact {
+  id: number;
+  name: string;
+}
+
+function ContactSearch({
+  inputRef,
+  onChoose,
+}: {
+  inputRef: React.RefObject<HTMLInputElement | null>;
+  onChoose: (contact: ChosenContact) => void;
+}) {
+  const [search, setSearch] = useState("");
+  const { data, isFetching } = useGetContacts({
+    page: 1,
+    limit: 8,
+    search: search.trim(),
+    sortBy: "lastName",
+    sortOrder: "asc",
+  });
+  const searching = search.trim().length >= 2;
+
+  return (
+    <div className="relative space-y-2">
+      <Label htmlFor="entry-contact">Donor</Label>
+      <Input
+        id="entry-contact"
+        ref={inputRef}
+        placeholder="Search by name"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        autoComplete="off"
+      />
+      {searching && (
+        <div className="absolute z-10 w-full rounded-md border bg-background shadow-md">
+          {data?.contacts.length ? (
+            data.contacts.map((contact) => (
+              <button
+                key={contact.id}
+                type="button"
+                className="block w-full px-3 py-2 text-left text-sm hover:bg-muted"
+                onClick={() => {
+                  onChoose({
+                    id: contact.id,
+                    name: `${contact.firstName} ${contact.lastName}`,
+                  });
+                  setSearch("");
+                }}
+              >
+                {contact.firstName} {contact.lastName}
+              </button>
+            ))
+          ) : (
+            <p className="px-3 py-2 text-sm text-muted-foreground">
+              {isFetching ? "Searching..." : "No donors found"}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PledgeSelect({
+  contactId,
+  value,
+  onChange,
+}: {
+  contactId: number;
+  value: string;
+  onChange: (pledgeId: string) => void;
+}) {
+  const { data, isLoading } = usePledgesQuery({ contactId, limit: 50 });
+  const pledges = data?.pledges ?? [];
+
+  // Most donors have a single pledge to pay
+  useEffect(() => {
+    const only = data?.pledges;
+    if (!value && only?.length === 1) onChange(String(only[0].id));
+  }, [value, data, onChange]);
+
+  return (
+    <div className="space-y-2">
+      <Label>Pledge</Label>
+      <Select value={value} onValueChange={onChange} disabled={isLoading}>
+        <SelectTrigger>
+          <SelectValue
+            placeholder={
+              isLoading
+                ? "Loading..."
+                : pledges.length === 0
+                  ? "No pledges"
+                  : "Choose a pledge"
+            }
+          />
+        </SelectTrigger>
+        <SelectContent>
+          {pledges.map((pledge) => (
+            <SelectItem key={pledge.id} value={String(pledge.id)}>
+              {pledge.description || `Pledge ${pledge.id}`} · balance{" "}
+              {money(pledge.balance, pledge.currency)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+// The entered total and count against the expected ones, which can be set
+// or corrected while keying in
+function VarianceSummary({ deposit }: { deposit: DepositBatchDetail }) {
+  const [expectedTotal, setExpectedTotal] = useState(deposit.expectedTotal ?? "");
+  const [expectedCount, setExpectedCount] = useState(
+    deposit.expectedCount === null ? "" : String(deposit.expectedCount)
+  );
+  const updateDeposit = useUpdateDeposit(deposit.id);
+
+  const amountVariance =
+    deposit.expectedTotal === null
+      ? null
+      : Number(deposit.totalAmount) - Number(deposit.expectedTotal);
+  const countVariance =
+    deposit.expectedCount === null ? null : deposit.lineCount - deposit.expectedCount;
+  const changed =
+    expectedTotal !== (deposit.expectedTotal ?? "") ||
+    expectedCount !==
+      (deposit.expectedCount === null ? "" : String(deposit.expectedCount));
+
+  const save = () => {
+    updateDeposit.mutate(
+      {
+        expectedTotal: expectedTotal ? Number(expectedTotal) : null,
+        expectedCount: expectedCount ? Number(expectedCount) : null,
+      },
+      { onError: (error) => toast.error(error.message) }
+    );
+  };
+
+  const varianceClass = (variance: number | null) =>
+    variance === null
+      ? "text-muted-foreground"
+      : Math.abs(variance) < 0.005
+        ? "text-green-600"
+        : "text-destructive";
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-4">
+      <div>
+        <p className="text-xs text-muted-foreground">Entered</p>
+        <p className="text-lg font-semibold">
+          {money(deposit.totalAmount, deposit.currency)}
+        </p>
+        <p className="text-sm">{deposit.lineCount} items</p>
+      </div>
+      <div>
+        <p className="text-xs text-muted-foreground">Variance</p>
+        <p className={`text-lg font-semibold ${varianceClass(amountVariance)}`}>
+          {amountVariance === null ? "—" : money(amountVariance, deposit.currency)}
+        </p>
+        <p className={`text-sm ${varianceClass(countVariance)}`}>
+          {countVariance === null
+            ? "—"
+            : `${countVariance > 0 ? "+" : ""}${countVariance} items`}
+        </p>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="expected-total" className="text-xs">
+          Expected total
+        </Label>
+        <Input
+          id="expected-total"
+          inputMode="decimal"
+          value={expectedTotal}
+          onChange={(e) => setExpectedTotal(e.target.value)}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="expected-count" className="text-xs">
+          Expected count
+        </Label>
+        <div className="flex gap-2">
+          <Input
+            id="expected-count"
+            inputMode="numeric"
+            value={expectedCount}
+            onChange={(e) => setExpectedCount(e.target.value)}
+          />
+          <Button
+            variant="outline"
+            onClick={save}
+            disabled={!changed || updateDeposit.isPending}
+          >
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Keys in checks and cash one after another: donor, pledge, amount and
+// check number, keeping the method and returning to the donor search.
+export default function DepositEntryForm({
+  deposit,
+}: {
+  deposit: DepositBatchDetail;
+}) {
+  const searchRef = useRef<HTMLInputElement>(null);
+  const [contact, setContact] = useState<ChosenContact | null>(null);
+  const [pledgeId, setPledgeId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [paymentMethod, setPaymentMethod] = useState<EntryMethod>("check");
+  const [checkNumber, setCheckNumber] = useState("");
+  const addEntry = useAddDepositEntry(deposit.id);
+
+  // Back to the donor search for the next check
+  useEffect(() => {
+    if (!contact) searchRef.current?.focus();
+  }, [contact]);
+
+  const ready =
+    !!pledgeId &&
+    Number(amount) > 0 &&
+    (paymentMethod === "cash" || !!checkNumber.trim());
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ready) return;
+    addEntry.mutate(
+      {
+        pledgeId: Number(pledgeId),
+        amount: Number(amount),
+        paymentMethod,
+        checkNumber: paymentMethod === "cash" ? undefined : checkNumber.trim(),
+      },
+      {
+        onSuccess: () => {
+          toast.success(
+            `${money(amount, deposit.currency)} from ${contact?.name} added`
+          );
+          setContact(null);
+          setPledgeId("");
+          setAmount("");
+          setCheckNumber("");
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Key In Checks and Cash</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <VarianceSummary deposit={deposit} />
+        <form
+          onSubmit={handleAdd}
+          className="grid items-end gap-4 md:grid-cols-[2fr_2fr_1fr_1fr_1fr_auto]"
+        >
+          {contact ? (
+            <div className="space-y-2">
+              <Label>Donor</Label>
+              <div className="flex h-10 items-center justify-between rounded-md border px-3 text-sm">
+                <span>{contact.name}</span>
+                <button
+                  type="button"
+                  className="text-xs text-muted-foreground underline"
+                  onClick={() => {
+                    setContact(null);
+                    setPledgeId("");
+                  }}
+                >
+                  Change
+                </button>
+              </div>
+            </div>
+          ) : (
+            <ContactSearch inputRef={searchRef} onChoose={setContact} />
+          )}
+          {contact ? (
+            <PledgeSelect
+              contactId={contact.id}
+              value={pledgeId}
+              onChange={setPledgeId}
+            />
+          ) : (
+            <div className="space-y-2">
+              <Label>Pledge</Label>
+              <Input disabled placeholder="Choose a donor first" />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="entry-amount">Amount</Label>
+            <Input
+              id="entry-amount"
+              inputMode="decimal"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Method</Label>
+            <Select
+              value={paymentMethod}
+              onValueChange={(value) => setPaymentMethod(value as EntryMethod)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ENTRY_METHODS.map((method) => (
+                  <SelectItem key={method} value={method}>
+                    {entryMethodLabels[method]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="entry-check-number">Check number</Label>
+            <Input
+              id="entry-check-number"
+              value={checkNumber}
+              onChange={(e) => setCheckNumber(e.target.value)}
+              disabled={paymentMethod === "cash"}
+            />
+          </div>
+          <Button type="submit" disabled={!ready || addEntry.isPending}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,29 @@
+import { DEPOSIT_SOURCES } from "@/lib/deposits/fields";
+import type {
+  DepositBatchSummary,
+  DepositLineDetail,
+} from "@/lib/query/deposits/useDepositsQuery";
+
+export const lineStatusLabels: Record<DepositLineDetail["status"], string> = {
+  unmatched: "Unmatched",
+  suggested: "Suggested",
+  confirmed: "Confirmed",
+  ignored: "Ignored",
+};
+
+export const sourceLabel = (source: string | null) =>
+  source
+    ? (DEPOSIT_SOURCES.find((option) => option.value === source)?.label ??
+      source)
+    : "Bank";
+
+export const depositLabel = (deposit: {
+  kind: DepositBatchSummary["kind"];
+  source: string | null;
+}) => (deposit.kind === "entry" ? "Checks and cash" : sourceLabel(deposit.source));
+
+export const money = (amount: string | number, currency: string) =>
+  `${Number(amount).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })} ${currency}`;
@@ -0,0 +1,473 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Banknote, Landmark, Plus } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { currencyEnum } from "@/lib/db/schema";
+import { DEPOSIT_FIELDS, DEPOSIT_SOURCES } from "@/lib/deposits/fields";
+import type { ColumnMap } from "@/lib/imports/fields";
+import { useCurrentUser } from "@/lib/query/auth/useCurrentUser";
+import {
+  useCreateDeposit,
+  useCreateEntryDeposit,
+  useDeposits,
+  usePreviewDeposit,
+  type DepositPreview,
+} from "@/lib/query/deposits/useDepositsQuery";
+import { depositLabel, money } from "./deposit-format";
+
+const BANK = "__bank__";
+const UNMAPPED = "__none__";
+
+function NewDepositDialog({ onClose }: { onClose: () => void }) {
+  const router = useRouter();
+  const [file, setFile] = useState<File | null>(null);
+  const [source, setSource] = useState<string>(DEPOSIT_SOURCES[0].value);
+  const [depositDate, setDepositDate] = useState(
+    new Date().toISOString().slice(0, 10)
+  );
+  const [currency, setCurrency] = useState("USD");
+  const [columnMap, setColumnMap] = useState<ColumnMap | undefined>();
+  const [preview, setPreview] = useState<DepositPreview | null>(null);
+  const previewDeposit = usePreviewDeposit();
+  const createDeposit = useCreateDeposit();
+
+  const values = (nextColumnMap = columnMap) => ({
+    file: file!,
+    source: source === BANK ? "" : source,
+    depositDate,
+    currency,
+    columnMap: nextColumnMap,
+  });
+
+  const read = (nextColumnMap?: ColumnMap) => {
+    if (!file) return;
+    previewDeposit.mutate(values(nextColumnMap), {
+      onSuccess: (result) => {
+        setPreview(result);
+        setColumnMap(result.columnMap);
+      },
+      onError: (error) => {
+        setPreview(null);
+        toast.error(error.message);
+      },
+    });
+  };
+
+  const handleMap = (field: string, header: string) => {
+    const next = { ...columnMap };
+    if (header === UNMAPPED) delete next[field];
+    else next[field] = header;
+    read(next);
+  };
+
+  const handleCreate = () => {
+    createDeposit.mutate(values(), {
+      onSuccess: (deposit) => {
+        toast.success(
+          `Deposit created; ${deposit.counts.suggested} of ${deposit.lineCount} lines matched`
+        );
+        router.push(`/deposits/${deposit.id}`);
+      },
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  const invalid = preview?.lines.filter((line) => line.errors.length > 0) ?? [];
+  const total =
+    preview?.lines.reduce((sum, line) => sum + (line.amount ?? 0), 0) ?? 0;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>New Deposit</DialogTitle>
+          <DialogDescription>
+            Upload a payout or bank statement file (CSV or XLSX). Each line is
+            matched to a recorded payment for you to confirm.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Source</Label>
+            <Select value={source} onValueChange={setSource}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DEPOSIT_SOURCES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+                <SelectItem value={BANK}>Bank statement</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="deposit-file">File</Label>
+            <Input
+              id="deposit-file"
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null);
+                setPreview(null);
+                setColumnMap(undefined);
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="deposit-date">Deposit date</Label>
+            <Input
+              id="deposit-date"
+              type="date"
+              value={depositDate}
+              onChange={(e) => setDepositDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Currency</Label>
+            <Select value={currency} onValueChange={setCurrency}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {currencyEnum.enumValues.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="grid gap-3 sm:grid-cols-2">
+              {DEPOSIT_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label>
+                    {field.label}
+                    {field.required && " *"}
+                  </Label>
+                  <Select
+                    value={columnMap?.[field.key] ?? UNMAPPED}
+                    onValueChange={(value) => handleMap(field.key, value)}
+                    disabled={previewDeposit.isPending}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not used</SelectItem>
+                      {preview.headers.map((header) => (
+                        <SelectItem key={header} value={header}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {preview.lines.length} lines totalling {money(total, currency)}
+            </p>
+            {invalid.length > 0 && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  <ul>
+                    {invalid.slice(0, 10).map((line) => (
+                      <li key={line.rowNumber}>
+                        Row {line.rowNumber}: {line.errors.join("; ")}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          {preview ? (
+            <Button
+              onClick={handleCreate}
+              disabled={
+                createDeposit.isPending ||
+                invalid.length > 0 ||
+                preview.lines.length === 0
+              }
+            >
+              {createDeposit.isPending ? "Matching..." : "Create Deposit"}
+            </Button>
+          ) : (
+            <Button
+              onClick={() => read(columnMap)}
+              disabled={!file || !depositDate || previewDeposit.isPending}
+            >
+              {previewDeposit.isPending ? "Reading..." : "Read File"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function NewCheckBatchDialog({ onClose }: { onClose: () => void }) {
+  const router = useRouter();
+  const [depositDate, setDepositDate] = useState(
+    new Date().toISOString().slice(0, 10)
+  );
+  const [currency, setCurrency] = useState("USD");
+  const [expectedTotal, setExpectedTotal] = useState("");
+  const [expectedCount, setExpectedCount] = useState("");
+  const [notes, setNotes] = useState("");
+  const createDeposit = useCreateEntryDeposit();
+
+  const handleCreate = () => {
+    createDeposit.mutate(
+      {
+        depositDate,
+        currency,
+        expectedTotal: expectedTotal ? Number(expectedTotal) : null,
+        expectedCount: expectedCount ? Number(expectedCount) : null,
+        notes,
+      },
+      {
+        onSuccess: (deposit) => router.push(`/deposits/${deposit.id}`),
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Check Batch</DialogTitle>
+          <DialogDescription>
+            Key in a stack of checks and cash for one deposit. Add up the stack
+            first to see the running variance as you go.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="check-batch-date">Deposit date</Label>
+            <Input
+              id="check-batch-date"
+              type="date"
+              value={depositDate}
+              onChange={(e) => setDepositDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Currency</Label>
+            <Select value={currency} onValueChange={setCurrency}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {currencyEnum.enumValues.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="check-batch-total">Expected total</Label>
+            <Input
+              id="check-batch-total"
+              inputMode="decimal"
+              value={expectedTotal}
+              onChange={(e) => setExpectedTotal(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="check-batch-count">Expected count</Label>
+            <Input
+              id="check-batch-count"
+              inputMode="numeric"
+              value={expectedCount}
+              onChange={(e) => setExpectedCount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="check-batch-notes">Notes</Label>
+            <Input
+              id="check-batch-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={!depositDate || createDeposit.isPending}
+          >
+            {createDeposit.isPending ? "Opening..." : "Open Batch"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Deposits from processor payouts and bank statements, and checks and cash
+// keyed in, with how far each has been reconciled against the payments.
+export default function DepositsClient() {
+  const [creating, setCreating] = useState<"file" | "checks" | null>(null);
+  const { data: currentUser } = useCurrentUser();
+  const canView = !!currentUser && currentUser.role !== "solicitor";
+  const canManage =
+    currentUser?.role === "admin" || currentUser?.role === "bookkeeper";
+
+  const { data: deposits, isLoading, error } = useDeposits(canView);
+
+  if (currentUser && !canView) {
+    return (
+      <Alert className="mx-4 my-6">
+        <AlertDescription>You do not have access to deposits.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Card className="m-4">
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <CardTitle className="flex items-center gap-2">
+          <Landmark className="h-5 w-5" />
+          Deposits
+        </CardTitle>
+        {canManage && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setCreating("checks")}>
+              <Banknote className="h-4 w-4 mr-1" />
+              New Check Batch
+            </Button>
+            <Button onClick={() => setCreating("file")}>
+              <Plus className="h-4 w-4 mr-1" />
+              New Deposit
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        ) : isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : !deposits?.length ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No deposits yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>File</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">Confirmed</TableHead>
+                <TableHead>Lines</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deposits.map((deposit) => (
+                <TableRow key={deposit.id}>
+                  <TableCell>
+                    <Link
+                      href={`/deposits/${deposit.id}`}
+                      className="font-medium text-primary underline"
+                    >
+                      {deposit.depositDate}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{depositLabel(deposit)}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {deposit.fileName ?? "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {money(deposit.totalAmount, deposit.currency)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {money(deposit.matchedAmount, deposit.currency)}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {deposit.counts.confirmed + deposit.counts.ignored} of{" "}
+                    {deposit.lineCount} done
+                    {deposit.counts.unmatched > 0 &&
+                      `, ${deposit.counts.unmatched} unmatched`}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={
+                        deposit.status === "closed" ? "secondary" : "outline"
+                      }
+                    >
+                      {deposit.status === "closed" ? "Reconciled" : "Open"}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+      {creating === "file" && (
+        <NewDepositDialog onClose={() => setCreating(null)} />
+      )}
+      {creating === "checks" && (
+        <NewCheckBatchDialog onClose={() => setCreating(null)} />
+      )}
+    </Card>
+  );
+}
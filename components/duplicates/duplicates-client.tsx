@@ -0,0 +1,316 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { GitMerge, Users } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useCurrentUser } from "@/lib/query/auth/useCurrentUser";
+import {
+  useDuplicates,
+  useMergeContacts,
+  type DuplicateCandidate,
+  type DuplicateMatch,
+  type DuplicateReason,
+} from "@/lib/query/duplicates/useDuplicatesQuery";
+import type { MergeField } from "@/lib/form-schemas/contact-merge";
+
+const reasonLabels: Record<DuplicateReason, string> = {
+  email: "Same email",
+  phone: "Same phone",
+  name: "Same name",
+  similarName: "Similar name",
+  address: "Same address",
+};
+
+// The fields a match carries, so the ones the user can pick between
+const mergeFields: { field: MergeField & keyof DuplicateCandidate; label: string }[] = [
+  { field: "firstName", label: "First name" },
+  { field: "lastName", label: "Last name" },
+  { field: "email", label: "Email" },
+  { field: "phone", label: "Phone" },
+  { field: "address", label: "Address" },
+];
+
+const fullName = (candidate: DuplicateCandidate) =>
+  `${candidate.firstName} ${candidate.lastName}`;
+
+function ContactCell({ candidate }: { candidate: DuplicateCandidate }) {
+  return (
+    <div className="space-y-0.5">
+      <Link
+        href={`/contacts/${candidate.contactId}`}
+        className="font-medium text-primary underline"
+      >
+        {fullName(candidate)}
+      </Link>
+      <div className="text-xs text-muted-foreground">
+        {[candidate.email, candidate.phone].filter(Boolean).join(" · ") || "—"}
+      </div>
+      {candidate.address && (
+        <div className="text-xs text-muted-foreground">{candidate.address}</div>
+      )}
+    </div>
+  );
+}
+
+function MergeDialog({
+  match,
+  onClose,
+}: {
+  match: DuplicateMatch;
+  onClose: () => void;
+}) {
+  const [survivorId, setSurvivorId] = useState(match.contact.contactId);
+  const [take, setTake] = useState<MergeField[]>([]);
+  const merge = useMergeContacts();
+
+  const [survivor, merged] =
+    survivorId === match.contact.contactId
+      ? [match.contact, match.duplicate]
+      : [match.duplicate, match.contact];
+
+  // Only fields where the merged contact has a different value to offer
+  const choices = mergeFields.filter(
+    ({ field }) => merged[field] && merged[field] !== survivor[field]
+  );
+
+  const toggle = (field: MergeField, checked: boolean) =>
+    setTake((current) =>
+      checked ? [...current, field] : current.filter((f) => f !== field)
+    );
+
+  const handleMerge = () => {
+    merge.mutate(
+      {
+        survivorId: survivor.contactId,
+        mergedContactId: merged.contactId,
+        take: take.filter((field) => choices.some((c) => c.field === field)),
+      },
+      {
+        onSuccess: () => {
+          toast.success(`${fullName(merged)} merged into ${fullName(survivor)}`);
+          onClose();
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Merge Contacts</DialogTitle>
+          <DialogDescription>
+            Pledges, payments, roles, relationships and history move to the
+            contact you keep. The other contact is deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Keep</Label>
+            <Select
+              value={String(survivorId)}
+              onValueChange={(value) => {
+                setSurvivorId(Number(value));
+                setTake([]);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[match.contact, match.duplicate].map((candidate) => (
+                  <SelectItem
+                    key={candidate.contactId}
+                    value={String(candidate.contactId)}
+                  >
+                    {fullName(candidate)} (#{candidate.contactId})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {choices.length > 0 && (
+            <div className="space-y-2">
+              <Label>Use these values from {fullName(merged)}</Label>
+              {choices.map(({ field, label }) => (
+                <div key={field} className="flex items-start gap-2 text-sm">
+                  <Checkbox
+                    id={`take-${field}`}
+                    checked={take.includes(field)}
+                    onCheckedChange={(checked) => toggle(field, !!checked)}
+                  />
+                  <label htmlFor={`take-${field}`} className="leading-tight">
+                    {label}: {merged[field]}
+                    {survivor[field] && (
+                      <span className="block text-xs text-muted-foreground">
+                        instead of {survivor[field]}
+                      </span>
+                    )}
+                  </label>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={merge.isPending}>
+            {merge.isPending ? "Merging..." : "Merge"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Likely duplicate contacts, with a merge for bookkeepers and admins.
+export default function DuplicatesClient() {
+  const [minScore, setMinScore] = useState(50);
+  const [merging, setMerging] = useState<DuplicateMatch | null>(null);
+  const { data: currentUser } = useCurrentUser();
+  const canView = !!currentUser && currentUser.role !== "solicitor";
+  const canManage =
+    currentUser?.role === "admin" || currentUser?.role === "bookkeeper";
+
+  const { data: matches, isLoading, error } = useDuplicates(minScore, canView);
+
+  if (currentUser && !canView) {
+    return (
+      <Alert className="mx-4 my-6">
+        <AlertDescription>
+          You do not have access to duplicate contacts.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Card className="m-4">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Possible Duplicates
+        </CardTitle>
+        <Select
+          value={String(minScore)}
+          onValueChange={(value) => setMinScore(Number(value))}
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="80">Strong matches</SelectItem>
+            <SelectItem value="50">Likely matches</SelectItem>
+            <SelectItem value="30">Possible matches</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        ) : isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : !matches?.length ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No duplicate contacts found.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Contact</TableHead>
+                <TableHead>Possible Duplicate</TableHead>
+                <TableHead>Score</TableHead>
+                <TableHead>Why</TableHead>
+                {canManage && (
+                  <TableHead className="text-right">Actions</TableHead>
+                )}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {matches.map((match) => (
+                <TableRow
+                  key={`${match.contact.contactId}-${match.duplicate.contactId}`}
+                >
+                  <TableCell>
+                    <ContactCell candidate={match.contact} />
+                  </TableCell>
+                  <TableCell>
+                    <ContactCell candidate={match.duplicate} />
+                  </TableCell>
+                  <TableCell>{match.score}</TableCell>
+                  <TableCell className="space-x-1">
+                    {match.reasons.map((reason) => (
+                      <Badge key={reason} variant="outline">
+                        {reasonLabels[reason]}
+                      </Badge>
+                    ))}
+                  </TableCell>
+                  {canManage && (
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setMerging(match)}
+                      >
+                        <GitMerge className="h-4 w-4 mr-1" />
+                        Merge
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {merging && (
+        <MergeDialog
+          key={`${merging.contact.contactId}-${merging.duplicate.contactId}`}
+          match={merging}
+          onClose={() => setMerging(null)}
+        />
+      )}
+    </Card>
+  );
+}
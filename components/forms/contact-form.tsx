@@ -6,7 +6,6 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -30,24 +29,31 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { contactFormSchema } from "@/lib/form-schemas/contact";
+import { currencyEnum } from "@/lib/db/schema";
 import { useCreateContact } from "@/lib/mutation/useCreateContact";
+import ContactChannelFields from "@/components/contacts/contact-channel-fields";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import type { ApiError } from "@/lib/error-handler";
 import { useState } from "react";
+import Link from "next/link";
 import { PlusCircleIcon } from "lucide-react";
 
 export type ContactFormValues = z.infer<typeof contactFormSchema>;
 
 export default function ContactFormDialog() {
   const [open, setOpen] = useState(false);
+  const [duplicates, setDuplicates] = useState<ApiError["duplicates"]>();
   const form = useForm<ContactFormValues>({
     resolver: zodResolver(contactFormSchema),
     defaultValues: {
       firstName: "",
       lastName: "",
-      email: "",
-      phone: "",
       title: undefined,
       gender: undefined,
-      address: "",
+      preferredCurrency: undefined,
+      emails: [{ type: "personal", email: "", isPrimary: true }],
+      phones: [],
+      addresses: [],
     },
   });
 
@@ -55,24 +61,41 @@ export default function ContactFormDialog() {
     form.setError as any
   );
 
-  const onSubmit = (values: ContactFormValues) => {
-    createContact(values, {
-      onSuccess: () => {
-        form.reset();
-        setOpen(false);
-      },
-    });
+  const save = (values: ContactFormValues, allowDuplicate = false) => {
+    createContact(
+      { ...values, allowDuplicate },
+      {
+        onSuccess: () => {
+          form.reset();
+          setDuplicates(undefined);
+          setOpen(false);
+        },
+        onError: (error) => {
+          if (error.type === "POSSIBLE_DUPLICATE") {
+            setDuplicates(error.duplicates);
+          }
+        },
+      }
+    );
   };
 
+  const onSubmit = (values: ContactFormValues) => save(values);
+
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) setDuplicates(undefined);
+      }}
+    >
       <DialogTrigger asChild>
         <Button size="sm" className="border-dashed text-white">
           <PlusCircleIcon />
           New Contact
         </Button>
       </DialogTrigger>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
         <DialogHeader>
           <DialogTitle className="text-2xl">Creation of a Contact</DialogTitle>
         </DialogHeader>
@@ -116,42 +139,6 @@ export default function ContactFormDialog() {
               />
             </div>
 
-            <FormField
-              control={form.control}
-              name="email"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-lg">Email</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="you@example.com"
-                      className="h-12 text-base"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="phone"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-lg">Phone</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="+1234567890"
-                      className="h-12 text-base"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
               <FormField
                 control={form.control}
@@ -211,38 +198,91 @@ export default function ContactFormDialog() {
 
             <FormField
               control={form.control}
-              name="address"
+              name="preferredCurrency"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel className="text-lg">Address</FormLabel>
-                  <FormControl>
-                    <Textarea
-                      placeholder="123 Main St, City, Country"
-                      className="h-32 text-base"
-                      {...field}
-                    />
-                  </FormControl>
+                  <FormLabel className="text-lg">Preferred Currency</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    defaultValue={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger className="h-12 text-base">
+                        <SelectValue placeholder="USD" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {currencyEnum.enumValues.map((currency) => (
+                        <SelectItem key={currency} value={currency}>
+                          {currency}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            <ContactChannelFields form={form} />
+
+            {duplicates && duplicates.length > 0 && (
+              <Alert>
+                <AlertDescription>
+                  <p className="mb-2 font-medium">
+                    This contact may already exist:
+                  </p>
+                  <ul className="space-y-1">
+                    {duplicates.map((duplicate) => (
+                      <li key={duplicate.contactId}>
+                        <Link
+                          href={`/contacts/${duplicate.contactId}`}
+                          className="text-primary underline"
+                        >
+                          {duplicate.firstName} {duplicate.lastName}
+                        </Link>{" "}
+                        <span className="text-muted-foreground">
+                          {[duplicate.email, duplicate.phone]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
             <div className="flex justify-end gap-4">
               <Button
                 type="button"
                 variant="outline"
                 className="h-12 text-lg"
-                onClick={() => setOpen(false)}
+                onClick={() => {
+                  setOpen(false);
+                  setDuplicates(undefined);
+                }}
               >
                 Cancel
               </Button>
-              <Button
-                type="submit"
-                className="h-12 text-lg"
-                disabled={isPending}
-              >
-                {isPending ? "Submitting..." : "Submit"}
-              </Button>
+              {duplicates && duplicates.length > 0 ? (
+                <Button
+                  type="button"
+                  className="h-12 text-lg"
+                  disabled={isPending}
+                  onClick={form.handleSubmit((values) => save(values, true))}
+                >
+                  {isPending ? "Submitting..." : "Create Anyway"}
+                </Button>
+              ) : (
+                <Button
+                  type="submit"
+                  className="h-12 text-lg"
+                  disabled={isPending}
+                >
+                  {isPending ? "Submitting..." : "Submit"}
+                </Button>
+              )}
             </div>
           </form>
         </Form>
@@ -28,6 +28,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -213,9 +214,7 @@ const paymentSchema = z.object({
   paymentStatus: z.string().optional(),
   referenceNumber: z.string().optional().nullable(),
   checkNumber: z.string().optional().nullable(),
-  receiptNumber: z.string().optional().nullable(),
   receiptType: z.string().optional().nullable(),
-  receiptIssued: z.boolean().optional(),
 
   solicitorId: z.number().optional().nullable(),
   bonusPercentage: z.number().optional().nullable(),
@@ -247,18 +246,15 @@ export default function PaymentFormDialog({
   contactId: propContactId,
   showPledgeSelector = false,
 }: PaymentDialogProps) {
-  const {
-    data: exchangeRatesData,
-    isLoading: isLoadingRates,
-    error: ratesError,
-    refetch: refetchRates,
-  } = useExchangeRates();
   const { data: solicitorsData, isLoading: isLoadingSolicitors } =
     useSolicitors({ status: "active" });
   const createPaymentMutation = useCreatePaymentMutation();
 
   const [open, setOpen] = useState(false);
   const [showSolicitorSection, setShowSolicitorSection] = useState(false);
+  // One key per form session, so resubmitting after a failed or timed-out
+  // request can never record the payment twice
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
 
   const contactId = useContactId() || propContactId;
 
@@ -287,9 +283,7 @@ export default function PaymentFormDialog({
       methodDetail: null,
       paymentStatus: "completed",
       referenceNumber: null,
-      receiptNumber: null,
       receiptType: null,
-      receiptIssued: false,
       solicitorId: null,
       bonusPercentage: null,
       bonusAmount: null,
@@ -323,6 +317,12 @@ export default function PaymentFormDialog({
   const watchedCurrency = form.watch("currency");
   const watchedAmount = form.watch("amount");
   const watchedPaymentDate = form.watch("paymentDate");
+  const {
+    data: exchangeRatesData,
+    isLoading: isLoadingRates,
+    error: ratesError,
+    refetch: refetchRates,
+  } = useExchangeRates(watchedPaymentDate);
   const watchedSolicitorId = form.watch("solicitorId");
   const watchedBonusPercentage = form.watch("bonusPercentage");
   const watchedExchangeRate = form.watch("exchangeRate");
@@ -421,9 +421,7 @@ export default function PaymentFormDialog({
       methodDetail: null,
       paymentStatus: "completed",
       referenceNumber: null,
-      receiptNumber: null,
       receiptType: null,
-      receiptIssued: false,
       solicitorId: null,
       bonusPercentage: null,
       bonusAmount: null,
@@ -438,6 +436,7 @@ export default function PaymentFormDialog({
         : [{ pledgeId: 0, allocatedAmount: 0, installmentScheduleId: null, notes: null }],
     });
     setShowSolicitorSection(false);
+    setIdempotencyKey(crypto.randomUUID());
   }, [form, initialPledgeId]);
 
   const isValidCurrency = (currency: string): currency is typeof supportedCurrencies[number] => {
@@ -490,9 +489,7 @@ export default function PaymentFormDialog({
         methodDetail: data.methodDetail,
         paymentStatus: data.paymentStatus,
         referenceNumber: data.referenceNumber,
-        receiptNumber: data.receiptNumber,
         receiptType: data.receiptType,
-        receiptIssued: data.receiptIssued,
         solicitorId: data.solicitorId ? String(data.solicitorId) : null,
         bonusPercentage: data.bonusPercentage,
         bonusAmount: data.bonusAmount,
@@ -559,7 +556,7 @@ export default function PaymentFormDialog({
 
       console.log("Submitting Payload (final):", paymentPayload);
 
-      await createPaymentMutation.mutateAsync(paymentPayload, {
+      await createPaymentMutation.mutateAsync({ ...paymentPayload, idempotencyKey }, {
         onSuccess: () => {
           toast.success("Payment and allocations created successfully!");
           resetForm();
@@ -1025,18 +1022,6 @@ export default function PaymentFormDialog({
                   </FormItem>
                 )}
               />
-              <FormField
-                control={form.control}
-                name="receiptNumber"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Receipt Number</FormLabel>
-                    <FormControl>
-                      <Input {...field} value={field.value || ""} />
-                    </FormControl>
-                  </FormItem>
-                )}
-              />
               <FormField
                 control={form.control}
                 name="receiptType"
@@ -1064,26 +1049,6 @@ export default function PaymentFormDialog({
                   </FormItem>
                 )}
               />
-              <FormField
-                control={form.control}
-                name="receiptIssued"
-                render={({ field }) => (
-                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm col-span-2">
-                    <div className="space-y-0.5">
-                      <FormLabel>Receipt Issued</FormLabel>
-                      <DialogDescription>
-                        Mark if a receipt has been issued for this payment.
-                      </DialogDescription>
-                    </div>
-                    <FormControl>
-                      <Switch
-                        checked={field.value}
-                        onCheckedChange={field.onChange}
-                      />
-                    </FormControl>
-                  </FormItem>
-                )}
-              />
             </div>
 
             <div className="border-t pt-4 mt-4">
@@ -1188,6 +1153,9 @@ export default function PaymentFormDialog({
                           }}
                         />
                       </FormControl>
+                      <FormDescription>
+                        Estimate; the bonus is set from the solicitor&apos;s bonus rules when the payment is saved.
+                      </FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
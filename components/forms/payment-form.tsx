@@ -2,7 +2,7 @@
 // eslint-disable-next-line react-hooks/exhaustive-deps
 "use client";
 
-import React, { useEffect } from "react";
+import React, { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -32,6 +32,7 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useExchangeRates } from "@/lib/query/useExchangeRates";
+import { convertAmount, toUsd } from "@/lib/currency";
 
 import { toast } from "sonner";
 import { useCreatePaymentMutation } from "@/lib/query/payments/usePaymentQuery";
@@ -95,7 +96,6 @@ const paymentSchema = z.object({
   ]),
   referenceNumber: z.string().optional(),
   checkNumber: z.string().optional(),
-  receiptNumber: z.string().optional(),
   receiptType: z
     .enum(["invoice", "confirmation", "receipt", "other"])
     .optional(),
@@ -123,13 +123,10 @@ export default function PaymentDialog({
   pledgeDescription,
   onPaymentCreated,
 }: PaymentDialogProps) {
-  const {
-    data: exchangeRatesData,
-    isLoading: isLoadingRates,
-    error: ratesError,
-  } = useExchangeRates();
 
   const createPaymentMutation = useCreatePaymentMutation();
+  // Reused if the submission is retried, so the payment is recorded once
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
 
   const form = useForm({
     resolver: zodResolver(paymentSchema),
@@ -143,7 +140,6 @@ export default function PaymentDialog({
       paymentMethod: "cash" as const,
       referenceNumber: "",
       checkNumber: "",
-      receiptNumber: "",
       notes: "",
     },
   });
@@ -151,6 +147,11 @@ export default function PaymentDialog({
   const watchedCurrency = form.watch("currency");
   const watchedAmount = form.watch("amount");
   const watchedPaymentDate = form.watch("paymentDate");
+  const {
+    data: exchangeRatesData,
+    isLoading: isLoadingRates,
+    error: ratesError,
+  } = useExchangeRates(watchedPaymentDate);
   const watchedPaymentMethod = form.watch("paymentMethod");
 
   // Update exchange rate when currency or date changes
@@ -170,16 +171,14 @@ export default function PaymentDialog({
   useEffect(() => {
     const exchangeRate = form.getValues("exchangeRate");
     if (watchedAmount && exchangeRate) {
-      // Since exchange rates are now inverted (currency to USD conversion rates),
-      // we multiply instead of divide
-      const usdAmount = watchedAmount * exchangeRate;
-      form.setValue("amountUsd", Math.round(usdAmount * 100) / 100);
+      form.setValue("amountUsd", toUsd(watchedAmount, exchangeRate));
     }
   }, [watchedAmount, form.watch("exchangeRate"), form]);
 
   const onSubmit = async (data: PaymentFormData) => {
     try {
       let convertedAmount = data.amount;
+      let convertedRate = data.exchangeRate;
       const inputCurrency = data.currency;
       const targetPledgeCurrency =
         (pledgeCurrency as (typeof supportedCurrencies)[number]) || "USD";
@@ -195,16 +194,13 @@ export default function PaymentDialog({
         inputCurrency !== targetPledgeCurrency &&
         exchangeRatesData?.data?.rates
       ) {
-        // Convert input currency to USD first
-        const inputToUsdRate =
-          parseFloat(exchangeRatesData.data.rates[inputCurrency]) || 1;
-        const usdAmount = data.amount * inputToUsdRate;
-
-        // Convert USD to pledge currency
-        const usdToPledgeRate =
+        convertedRate =
           parseFloat(exchangeRatesData.data.rates[targetPledgeCurrency]) || 1;
-        convertedAmount = usdAmount / usdToPledgeRate;
-        convertedAmount = Math.round(convertedAmount * 100) / 100; // Round to 2 decimal places
+        convertedAmount = convertAmount(
+          data.amount,
+          exchangeRatesData.data.rates[inputCurrency],
+          convertedRate
+        );
       }
 
       // Create payload with converted amount and pledge currency
@@ -212,6 +208,7 @@ export default function PaymentDialog({
         ...data,
         amount: convertedAmount,
         currency: targetPledgeCurrency,
+        exchangeRate: convertedRate,
         // Keep the original input for reference in amountUsd calculation
         amountUsd: data.amountUsd, // This stays as calculated
       };
@@ -219,9 +216,10 @@ export default function PaymentDialog({
       console.log("Original amount:", data.amount, data.currency);
       console.log("Converted amount:", convertedAmount, targetPledgeCurrency);
 
-      await createPaymentMutation.mutateAsync(payload);
+      await createPaymentMutation.mutateAsync({ ...payload, idempotencyKey });
 
       toast.success("Payment created successfully!");
+      setIdempotencyKey(crypto.randomUUID());
 
       // Reset form
       form.reset({
@@ -234,7 +232,6 @@ export default function PaymentDialog({
         paymentMethod: "cash" as const,
         referenceNumber: "",
         checkNumber: "",
-        receiptNumber: "",
         notes: "",
       });
 
@@ -264,7 +261,6 @@ export default function PaymentDialog({
         paymentMethod: "cash" as const,
         referenceNumber: "",
         checkNumber: "",
-        receiptNumber: "",
         notes: "",
       });
     }
@@ -358,19 +354,11 @@ export default function PaymentDialog({
                     <strong>Conversion Preview:</strong>
                     <br />
                     {watchedAmount.toLocaleString()} {watchedCurrency} →{" "}
-                    {(() => {
-                      const inputToUsdRate =
-                        parseFloat(
-                          exchangeRatesData.data.rates[watchedCurrency]
-                        ) || 1;
-                      const usdAmount = watchedAmount * inputToUsdRate;
-                      const usdToPledgeRate =
-                        parseFloat(
-                          exchangeRatesData.data.rates[pledgeCurrency]
-                        ) || 1;
-                      const convertedAmount = usdAmount / usdToPledgeRate;
-                      return Math.round(convertedAmount * 100) / 100;
-                    })().toLocaleString()}{" "}
+                    {convertAmount(
+                      watchedAmount,
+                      exchangeRatesData.data.rates[watchedCurrency],
+                      exchangeRatesData.data.rates[pledgeCurrency]
+                    ).toLocaleString()}{" "}
                     {pledgeCurrency}
                   </div>
                 </div>
@@ -497,21 +485,6 @@ export default function PaymentDialog({
               />
             )}
 
-            {/* Receipt Number */}
-            <FormField
-              control={form.control}
-              name="receiptNumber"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Receipt Number</FormLabel>
-                  <FormControl>
-                    <Input {...field} placeholder="Receipt number" />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
             {/* Receipt Type */}
             <FormField
               control={form.control}
@@ -99,6 +99,7 @@ import useContactId from "@/hooks/use-contact-id";
 import { usePledgesQuery } from "@/lib/query/usePledgeData";
 
 import { useExchangeRates } from "@/lib/query/useExchangeRates";
+import { convertAmount as convertWithRates, toUsd } from "@/lib/currency";
 
 import { useForm } from "react-hook-form";
 import { useMemo } from 'react';
@@ -230,6 +231,7 @@ export const paymentPlanSchema = z.object({
   endDate: z.string().optional(),
   nextPaymentDate: z.string().optional(),
   autoRenew: z.boolean().default(false),
+  remindersOptOut: z.boolean().default(false),
   planStatus: z
     .enum(["active", "completed", "cancelled", "paused", "overdue"])
     .optional(),
@@ -304,21 +306,11 @@ const convertAmount = (
   exchangeRates: Record<string, string> | undefined
 ): number => {
   if (!exchangeRates || fromCurrency === toCurrency) return amount;
-
-  // Convert to USD first if not already USD
-  let usdAmount = amount;
-  if (fromCurrency !== "USD") {
-    const fromRate = Number.parseFloat(exchangeRates[fromCurrency] || "1");
-    usdAmount = amount * fromRate;
-  }
-
-  // Convert from USD to target currency
-  if (toCurrency !== "USD") {
-    const toRate = Number.parseFloat(exchangeRates[toCurrency] || "1");
-    return usdAmount / toRate;
-  }
-
-  return usdAmount;
+  return convertWithRates(
+    amount,
+    exchangeRates[fromCurrency],
+    exchangeRates[toCurrency]
+  );
 };
 
 // Exchange Rate Display Component
@@ -840,6 +832,7 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
       endDate: "",
       nextPaymentDate: "",
       autoRenew: false,
+      remindersOptOut: false,
       planStatus: "active" as const,
       notes: "",
       internalNotes: "",
@@ -942,6 +935,7 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
         endDate: existingPlan.endDate?.split("T")[0] || "",
         nextPaymentDate: existingPlan.nextPaymentDate?.split("T")[0] || "",
         autoRenew: existingPlan.autoRenew || false,
+        remindersOptOut: existingPlan.remindersOptOut || false,
         planStatus: existingPlan.planStatus || "active",
         notes: existingPlan.notes || "",
         internalNotes: existingPlan.internalNotes || "",
@@ -1094,6 +1088,7 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
         endDate: existingPlan.endDate?.split("T")[0] || "",
         nextPaymentDate: existingPlan.nextPaymentDate?.split("T")[0] || "",
         autoRenew: existingPlan.autoRenew || false,
+        remindersOptOut: existingPlan.remindersOptOut || false,
         planStatus: existingPlan.planStatus || "active",
         notes: existingPlan.notes || "",
         internalNotes: existingPlan.internalNotes || "",
@@ -1122,6 +1117,7 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
         endDate: "",
         nextPaymentDate: "",
         autoRenew: false,
+        remindersOptOut: false,
         planStatus: "active" as const,
         notes: "",
         internalNotes: "",
@@ -1357,6 +1353,7 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
               currency: form.getValues().currency || "USD",
               distributionType: form.getValues().distributionType || "fixed",
               autoRenew: form.getValues().autoRenew || false,
+              remindersOptOut: form.getValues().remindersOptOut || false,
               pledgeId: form.getValues().pledgeId || 0,
               totalPlannedAmount: form.getValues().totalPlannedAmount || 0,
               installmentAmount: form.getValues().installmentAmount || 0,
@@ -2022,7 +2019,28 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
                       <div className="space-y-1 leading-none">
                         <FormLabel>Auto Renew</FormLabel>
                         <p className="text-sm text-muted-foreground">
-                          Automatically create a new plan when this one completes
+                          Automatically schedule the next cycle when this one completes
+                        </p>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="remindersOptOut"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value || false}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel>No Payment Reminders</FormLabel>
+                        <p className="text-sm text-muted-foreground">
+                          Don&apos;t send the donor reminders for this plan
                         </p>
                       </div>
                     </FormItem>
@@ -2117,11 +2135,9 @@ export default function PaymentPlanDialog(props: PaymentPlanDialogProps) {
                         <div className="col-span-2 pt-2 border-t border-blue-200">
                           <div className="text-xs text-blue-600">
                             USD Equivalent: ~$
-                            {roundToPrecision(
-                              (form.watch("totalPlannedAmount") || 0) *
-                              Number.parseFloat(
-                                exchangeRates[watchedCurrency] || "1"
-                              ), 2
+                            {toUsd(
+                              form.watch("totalPlannedAmount") || 0,
+                              exchangeRates[watchedCurrency]
                             ).toLocaleString()}
                           </div>
                         </div>
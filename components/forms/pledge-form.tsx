@@ -36,6 +36,7 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useExchangeRates } from "@/lib/query/useExchangeRates";
+import { toUsd } from "@/lib/currency";
 
 import {
   Command,
@@ -249,8 +250,7 @@ export default function PledgeDialog({
   useEffect(() => {
     const exchangeRate = form.getValues("exchangeRate");
     if (watchedOriginalAmount && exchangeRate) {
-      const usdAmount = watchedOriginalAmount * exchangeRate;
-      form.setValue("originalAmountUsd", Math.round(usdAmount * 100) / 100, { shouldValidate: true });
+      form.setValue("originalAmountUsd", toUsd(watchedOriginalAmount, exchangeRate), { shouldValidate: true });
     }
   }, [watchedOriginalAmount, form.watch("exchangeRate"), form]);
 
@@ -695,7 +695,7 @@ export default function PledgeDialog({
                 name="exchangeRate"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Exchange Rate (to USD)</FormLabel>
+                    <FormLabel>Exchange Rate ({watchedCurrency} per USD)</FormLabel>
                     <FormControl>
                       <Input
                         type="number"
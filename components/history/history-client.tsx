@@ -0,0 +1,311 @@
+"use client";
+import React, { useState } from "react";
+import { useQueryState } from "nuqs";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../ui/table";
+import { Alert, AlertDescription } from "../ui/alert";
+import { Skeleton } from "../ui/skeleton";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import {
+  useContactHistory,
+  type AuditAction,
+  type HistoryEntry,
+} from "@/lib/query/useContactHistory";
+
+interface HistoryTimelineProps {
+  contactId: string | number;
+}
+
+const recordTypes = [
+  { value: "pledge", label: "Pledge" },
+  { value: "payment", label: "Payment" },
+  { value: "payment_plan", label: "Payment Plan" },
+  { value: "solicitor", label: "Solicitor" },
+  { value: "bonus_rule", label: "Bonus Rule" },
+  { value: "bonus_calculation", label: "Bonus Calculation" },
+] as const;
+
+const actionStyles: Record<AuditAction, string> = {
+  create: "bg-green-50 text-green-700 border-green-200",
+  update: "bg-blue-50 text-blue-700 border-blue-200",
+  delete: "bg-red-50 text-red-700 border-red-200",
+};
+
+const recordLabel = (tableName: string) =>
+  recordTypes.find((type) => type.value === tableName)?.label ?? tableName;
+
+// "totalPaidUsd" -> "Total Paid Usd"
+const fieldLabel = (field: string) =>
+  field
+    .replace(/([A-Z])/g, " $1")
+    .replace(/^./, (char) => char.toUpperCase())
+    .trim();
+
+const displayValue = (value: string | null) =>
+  value === null || value === "" ? "—" : value;
+
+const parseSnapshot = (value: string | null): Record<string, string | null> => {
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    return {};
+  }
+};
+
+function ChangeSummary({ entry }: { entry: HistoryEntry }) {
+  if (entry.action === "update") {
+    return (
+      <span>
+        <span className="font-medium">
+          {fieldLabel(entry.fieldName ?? "")}
+        </span>
+        : <span className="text-gray-500">{displayValue(entry.oldValue)}</span>
+        {" → "}
+        <span>{displayValue(entry.newValue)}</span>
+      </span>
+    );
+  }
+
+  return (
+    <span className="text-gray-600">
+      {recordLabel(entry.tableName)}{" "}
+      {entry.action === "create" ? "created" : "deleted"}
+    </span>
+  );
+}
+
+export default function HistoryTimeline({ contactId }: HistoryTimelineProps) {
+  const [expandedRows, setExpandedRows] = useState<Set<number>>(new Set());
+
+  const [page, setPage] = useQueryState("page", {
+    parse: (value) => parseInt(value) || 1,
+    serialize: (value) => value.toString(),
+    defaultValue: 1,
+  });
+  const [limit] = useQueryState("limit", {
+    parse: (value) => parseInt(value) || 25,
+    serialize: (value) => value.toString(),
+    defaultValue: 25,
+  });
+  const [tableName, setTableName] = useQueryState("tableName", {
+    defaultValue: "",
+    parse: (value) => value || "",
+    serialize: (value) => value,
+  });
+
+  const { data, isLoading, error } = useContactHistory({
+    contactId: Number(contactId),
+    page,
+    limit,
+    tableName: tableName || undefined,
+  });
+
+  const toggleRow = (id: number) => {
+    setExpandedRows((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  if (error) {
+    return (
+      <Alert className="mx-4 my-6" variant="destructive">
+        <AlertDescription>
+          Failed to load history: {error.response?.data?.error || error.message}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>History</CardTitle>
+        <Select
+          value={tableName || "all"}
+          onValueChange={(value) => {
+            setTableName(value === "all" ? null : value);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="All records" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All records</SelectItem>
+            {recordTypes.map((type) => (
+              <SelectItem key={type.value} value={type.value}>
+                {type.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead className="w-12"></TableHead>
+                <TableHead>When</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Changed By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                Array.from({ length: 5 }).map((_, index) => (
+                  <TableRow key={index}>
+                    {Array.from({ length: 6 }).map((_, cell) => (
+                      <TableCell key={cell}>
+                        <Skeleton className="h-4 w-24" />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))
+              ) : !data || data.history.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={6}
+                    className="text-center py-8 text-gray-500"
+                  >
+                    No changes have been recorded for this contact.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                data.history.map((entry) => {
+                  const snapshot =
+                    entry.action === "update"
+                      ? null
+                      : parseSnapshot(
+                          entry.action === "create"
+                            ? entry.newValue
+                            : entry.oldValue
+                        );
+                  const isExpanded = expandedRows.has(entry.id);
+
+                  return (
+                    <React.Fragment key={entry.id}>
+                      <TableRow className="hover:bg-gray-50">
+                        <TableCell>
+                          {snapshot && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => toggleRow(entry.id)}
+                              className="p-1"
+                            >
+                              {isExpanded ? (
+                                <ChevronDown className="h-4 w-4" />
+                              ) : (
+                                <ChevronRight className="h-4 w-4" />
+                              )}
+                            </Button>
+                          )}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {new Date(entry.changedAt).toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          {recordLabel(entry.tableName)} #{entry.recordId}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant="outline"
+                            className={actionStyles[entry.action]}
+                          >
+                            {entry.action}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="max-w-md truncate">
+                          <ChangeSummary entry={entry} />
+                        </TableCell>
+                        <TableCell>
+                          {entry.changedByName || (
+                            <span className="text-gray-400">System</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {snapshot && isExpanded && (
+                        <TableRow>
+                          <TableCell colSpan={6} className="bg-gray-50 p-4">
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6 gap-y-2 text-sm">
+                              {Object.entries(snapshot).map(([field, value]) => (
+                                <div key={field}>
+                                  <span className="font-medium text-gray-600">
+                                    {fieldLabel(field)}:
+                                  </span>{" "}
+                                  <span className="break-all">
+                                    {displayValue(value)}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+        {data && data.history.length > 0 && (
+          <div className="flex items-center justify-between mt-6">
+            <div className="text-sm text-gray-600">
+              Showing {(page - 1) * limit + 1} to{" "}
+              {Math.min(page * limit, data.pagination.totalCount)} of{" "}
+              {data.pagination.totalCount} changes
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page - 1)}
+                disabled={!data.pagination.hasPreviousPage}
+              >
+                Previous
+              </Button>
+              <span className="text-sm text-gray-600">
+                Page {data.pagination.page} of {data.pagination.totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(page + 1)}
+                disabled={!data.pagination.hasNextPage}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,709 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Home, Pencil, Plus, Trash2, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { householdRoleEnum } from "@/lib/db/schema";
+import { useCurrentUser } from "@/lib/query/auth/useCurrentUser";
+import {
+  useCreditPayment,
+  useDeleteHousehold,
+  useHousehold,
+  useUncreditPayment,
+  useUpdateHousehold,
+  type CreditedPayment,
+  type HouseholdDetail,
+} from "@/lib/query/households/useHouseholdsQuery";
+import type { HouseholdMemberValues } from "@/lib/form-schemas/household";
+import { roleLabels, usd } from "./household-format";
+
+function EditDialog({
+  household,
+  onClose,
+}: {
+  household: HouseholdDetail;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState(household.name);
+  const [salutation, setSalutation] = useState(household.salutation ?? "");
+  const [notes, setNotes] = useState(household.notes ?? "");
+  const update = useUpdateHousehold(household.id);
+
+  const handleSave = () => {
+    update.mutate(
+      { name, salutation: salutation || null, notes: notes || null },
+      {
+        onSuccess: () => {
+          toast.success("Household updated");
+          onClose();
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit Household</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="household-name">Name</Label>
+            <Input
+              id="household-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="household-salutation">Salutation</Label>
+            <Input
+              id="household-salutation"
+              value={salutation}
+              placeholder={household.jointSalutation}
+              onChange={(e) => setSalutation(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Leave blank to use the one made from the members.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="household-notes">Notes</Label>
+            <Textarea
+              id="household-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={update.isPending || !name}>
+            {update.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CreditDialog({
+  household,
+  credit,
+  onClose,
+}: {
+  household: HouseholdDetail;
+  credit: CreditedPayment;
+  onClose: () => void;
+}) {
+  const amountUsd = Number(credit.amountUsd ?? 0);
+  const [shares, setShares] = useState<Record<number, string>>(() => {
+    const initial: Record<number, string> = {};
+    if (credit.attributions.length > 0) {
+      for (const share of credit.attributions) {
+        initial[share.contactId] = String(share.amountUsd);
+      }
+    } else if (
+      household.members.some((member) => member.contactId === credit.payerId)
+    ) {
+      initial[credit.payerId!] = String(amountUsd);
+    }
+    return initial;
+  });
+  const creditPayment = useCreditPayment(household.id);
+
+  const attributions = Object.entries(shares)
+    .map(([contactId, amount]) => ({
+      contactId: Number(contactId),
+      amountUsd: Number(amount),
+    }))
+    .filter((share) => share.amountUsd > 0);
+  const total = attributions.reduce((sum, share) => sum + share.amountUsd, 0);
+  const balanced =
+    attributions.length === 0 || Math.abs(total - amountUsd) < 0.005;
+
+  const handleCredit = () => {
+    creditPayment.mutate(
+      { paymentId: credit.paymentId, attributions },
+      {
+        onSuccess: () => {
+          toast.success(`Payment #${credit.paymentId} credited to household`);
+          onClose();
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Credit Payment #{credit.paymentId}</DialogTitle>
+          <DialogDescription>
+            {usd(amountUsd)} paid {credit.paymentDate}
+            {credit.payerName && ` by ${credit.payerName}`}. Share it among the
+            members it should be attributed to.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {household.members.map((member) => (
+            <div key={member.contactId} className="flex items-center gap-2">
+              <Label
+                htmlFor={`share-${member.contactId}`}
+                className="flex-1 font-normal"
+              >
+                {member.firstName} {member.lastName}
+              </Label>
+              <Input
+                id={`share-${member.contactId}`}
+                type="number"
+                min="0"
+                step="0.01"
+                className="w-36"
+                value={shares[member.contactId] ?? ""}
+                onChange={(e) =>
+                  setShares((current) => ({
+                    ...current,
+                    [member.contactId]: e.target.value,
+                  }))
+                }
+              />
+            </div>
+          ))}
+          <p
+            className={
+              balanced
+                ? "text-xs text-muted-foreground"
+                : "text-xs text-destructive"
+            }
+          >
+            Attributed {usd(total)} of {usd(amountUsd)}
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCredit}
+            disabled={creditPayment.isPending || !balanced}
+          >
+            {creditPayment.isPending ? "Crediting..." : "Credit"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PaymentsTable({
+  household,
+  payments,
+  action,
+}: {
+  household: HouseholdDetail;
+  payments: CreditedPayment[];
+  action?: (payment: CreditedPayment) => React.ReactNode;
+}) {
+  const memberName = (contactId: number) =>
+    household.members.find((member) => member.contactId === contactId)
+      ?.firstName ?? `#${contactId}`;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Paid By</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+          <TableHead>Attributed To</TableHead>
+          {action && <TableHead className="text-right">Actions</TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {payments.map((payment) => (
+          <TableRow key={payment.paymentId}>
+            <TableCell>{payment.paymentDate}</TableCell>
+            <TableCell>
+              {payment.payerId ? (
+                <Link
+                  href={`/contacts/${payment.payerId}`}
+                  className="text-primary underline"
+                >
+                  {payment.payerName}
+                </Link>
+              ) : (
+                "—"
+              )}
+            </TableCell>
+            <TableCell className="text-right">
+              {payment.amount} {payment.currency}
+              {payment.refundOfPaymentId && (
+                <span className="block text-xs text-muted-foreground">
+                  refund of #{payment.refundOfPaymentId}
+                </span>
+              )}
+            </TableCell>
+            <TableCell className="text-sm">
+              {payment.attributions
+                .map(
+                  (share) =>
+                    `${memberName(share.contactId)} ${usd(share.amountUsd)}`
+                )
+                .join(", ") || "—"}
+            </TableCell>
+            {action && (
+              <TableCell className="text-right space-x-1">
+                {action(payment)}
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+// Credits any payment, such as one from a family foundation, by its ID.
+// Its shares can be set afterwards from the credited list.
+function CreditByIdForm({ householdId }: { householdId: number }) {
+  const [paymentId, setPaymentId] = useState("");
+  const creditPayment = useCreditPayment(householdId);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    creditPayment.mutate(
+      { paymentId: Number(paymentId) },
+      {
+        onSuccess: () => {
+          toast.success(`Payment #${paymentId} credited to household`);
+          setPaymentId("");
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex gap-2">
+      <Input
+        type="number"
+        min="1"
+        placeholder="Payment ID"
+        className="w-32"
+        value={paymentId}
+        onChange={(e) => setPaymentId(e.target.value)}
+      />
+      <Button
+        type="submit"
+        size="sm"
+        variant="outline"
+        disabled={!paymentId || creditPayment.isPending}
+      >
+        Credit
+      </Button>
+    </form>
+  );
+}
+
+// One household: its members, giving, and the payments credited to it.
+export default function HouseholdDetailClient() {
+  const params = useParams<{ householdId: string }>();
+  const householdId = Number(params.householdId);
+  const router = useRouter();
+  const [editing, setEditing] = useState(false);
+  const [crediting, setCrediting] = useState<CreditedPayment | null>(null);
+  const { data: currentUser } = useCurrentUser();
+  const canManage =
+    currentUser?.role === "admin" || currentUser?.role === "bookkeeper";
+
+  const { data: household, isLoading, error } = useHousehold(householdId);
+  const update = useUpdateHousehold(householdId);
+  const deleteHousehold = useDeleteHousehold();
+  const uncredit = useUncreditPayment(householdId);
+
+  if (error) {
+    return (
+      <Alert variant="destructive" className="mx-4 my-6">
+        <AlertDescription>{error.message}</AlertDescription>
+      </Alert>
+    );
+  }
+  if (isLoading || !household) {
+    return <Skeleton className="m-4 h-64" />;
+  }
+
+  const setMembers = (members: HouseholdMemberValues[], message: string) =>
+    update.mutate(
+      { members },
+      {
+        onSuccess: () => toast.success(message),
+        onError: (err) => toast.error(err.message),
+      }
+    );
+  const currentMembers = household.members.map(({ contactId, role }) => ({
+    contactId,
+    role,
+  }));
+
+  const handleDelete = () =>
+    deleteHousehold.mutate(household.id, {
+      onSuccess: () => {
+        toast.success("Household deleted");
+        router.push("/households");
+      },
+      onError: (err) => toast.error(err.message),
+    });
+
+  const totals: [string, number][] = [
+    ["Pledged", household.totals.pledgedUsd],
+    ["Paid by members", household.totals.paidUsd],
+    ["Balance", household.totals.balanceUsd],
+    ["Credited to household", household.totals.creditedUsd],
+    ["Given from outside", household.totals.outsideUsd],
+    ["Total given", household.totals.givenUsd],
+  ];
+
+  return (
+    <div className="m-4 grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Home className="h-5 w-5" />
+            {household.name}
+          </CardTitle>
+          {canManage && (
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => setEditing(true)}>
+                <Pencil className="h-4 w-4 mr-1" />
+                Edit
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button size="sm" variant="outline">
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete this household?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The members and their payments stay. Payments credited to
+                      the household go back to their payers only.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleDelete}>
+                      Delete
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent>
+          <dl className="space-y-4 divide-y">
+            <div className="grid grid-cols-2 gap-1 py-2">
+              <dt className="text-muted-foreground font-medium">Salutation</dt>
+              <dd className="text-right">
+                {household.salutation || household.jointSalutation}
+              </dd>
+            </div>
+            {household.notes && (
+              <div className="grid grid-cols-2 gap-1 py-2">
+                <dt className="text-muted-foreground font-medium">Notes</dt>
+                <dd className="text-right whitespace-pre-line">
+                  {household.notes}
+                </dd>
+              </div>
+            )}
+          </dl>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Giving</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <dl className="space-y-4 divide-y">
+            {totals.map(([label, amount]) => (
+              <div key={label} className="grid grid-cols-2 gap-1 py-2">
+                <dt className="text-muted-foreground font-medium">{label}</dt>
+                <dd className="text-right font-medium">{usd(amount)}</dd>
+              </div>
+            ))}
+          </dl>
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle>Members</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead className="text-right">Paid</TableHead>
+                <TableHead className="text-right">Attributed</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+                {canManage && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {household.members.map((member) => (
+                <TableRow key={member.contactId}>
+                  <TableCell>
+                    <Link
+                      href={`/contacts/${member.contactId}`}
+                      className="font-medium text-primary underline"
+                    >
+                      {member.firstName} {member.lastName}
+                    </Link>
+                  </TableCell>
+                  <TableCell>
+                    {canManage ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) =>
+                          setMembers(
+                            currentMembers.map((entry) =>
+                              entry.contactId === member.contactId
+                                ? { ...entry, role: role as typeof entry.role }
+                                : entry
+                            ),
+                            "Role updated"
+                          )
+                        }
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {householdRoleEnum.enumValues.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {roleLabels[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      roleLabels[member.role]
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {usd(member.paidUsd)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {usd(member.attributedUsd)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {usd(member.balanceUsd)}
+                  </TableCell>
+                  {canManage && (
+                    <TableCell className="text-right">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="Remove from household"
+                        disabled={household.members.length === 1}
+                        onClick={() =>
+                          setMembers(
+                            currentMembers.filter(
+                              (entry) => entry.contactId !== member.contactId
+                            ),
+                            `${member.firstName} removed`
+                          )
+                        }
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {canManage && household.suggestedMembers.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">
+                Related contacts not in a household
+              </p>
+              {household.suggestedMembers.map((suggestion) => (
+                <div
+                  key={suggestion.contactId}
+                  className="flex items-center justify-between text-sm"
+                >
+                  <span>
+                    {suggestion.firstName} {suggestion.lastName}
+                    <span className="ml-2 text-muted-foreground">
+                      ({roleLabels[suggestion.role]})
+                    </span>
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      setMembers(
+                        [
+                          ...currentMembers,
+                          {
+                            contactId: suggestion.contactId,
+                            role: suggestion.role,
+                          },
+                        ],
+                        `${suggestion.firstName} added`
+                      )
+                    }
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-2">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Credited Payments</CardTitle>
+          {canManage && <CreditByIdForm householdId={household.id} />}
+        </CardHeader>
+        <CardContent>
+          {household.creditedPayments.length === 0 ? (
+            <p className="py-4 text-center text-sm text-muted-foreground">
+              No payments are credited to this household.
+            </p>
+          ) : (
+            <PaymentsTable
+              household={household}
+              payments={household.creditedPayments}
+              action={
+                canManage
+                  ? (payment) =>
+                      !payment.refundOfPaymentId && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setCrediting(payment)}
+                          >
+                            Shares
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={uncredit.isPending}
+                            onClick={() =>
+                              uncredit.mutate(payment.paymentId, {
+                                onSuccess: () =>
+                                  toast.success("Credit removed"),
+                                onError: (err) => toast.error(err.message),
+                              })
+                            }
+                          >
+                            Remove
+                          </Button>
+                        </>
+                      )
+                  : undefined
+              }
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      {canManage && household.creditablePayments.length > 0 && (
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Recent Member Payments</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PaymentsTable
+              household={household}
+              payments={household.creditablePayments}
+              action={(payment) => (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setCrediting(payment)}
+                >
+                  Credit
+                </Button>
+              )}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {editing && (
+        <EditDialog household={household} onClose={() => setEditing(false)} />
+      )}
+      {crediting && (
+        <CreditDialog
+          key={crediting.paymentId}
+          household={household}
+          credit={crediting}
+          onClose={() => setCrediting(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import type { HouseholdRole } from "@/lib/households";
+
+export const roleLabels: Record<HouseholdRole, string> = {
+  head: "Head",
+  spouse: "Spouse",
+  child: "Child",
+  other: "Other",
+};
+
+export const usd = (amount: number) =>
+  `$${amount.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
@@ -0,0 +1,123 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+import { Download, Home, Search } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useCurrentUser } from "@/lib/query/auth/useCurrentUser";
+import {
+  householdsCsvUrl,
+  useHouseholds,
+} from "@/lib/query/households/useHouseholdsQuery";
+import { usd } from "./household-format";
+
+// Every household with its members and giving. Households are created from
+// a contact's overview tab.
+export default function HouseholdsClient() {
+  const [search, setSearch] = useState("");
+  const { data: currentUser } = useCurrentUser();
+  const canView = !!currentUser && currentUser.role !== "solicitor";
+
+  const { data: households, isLoading, error } = useHouseholds(search, canView);
+
+  if (currentUser && !canView) {
+    return (
+      <Alert className="mx-4 my-6">
+        <AlertDescription>You do not have access to households.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Card className="m-4">
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <CardTitle className="flex items-center gap-2">
+          <Home className="h-5 w-5" />
+          Households
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <div className="relative w-64">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search households..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Button variant="outline" asChild>
+            <a href={householdsCsvUrl(search)}>
+              <Download className="h-4 w-4 mr-1" />
+              Mailing List
+            </a>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        ) : isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : !households?.length ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No households found.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Household</TableHead>
+                <TableHead>Salutation</TableHead>
+                <TableHead>Members</TableHead>
+                <TableHead className="text-right">Given</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {households.map((household) => (
+                <TableRow key={household.id}>
+                  <TableCell>
+                    <Link
+                      href={`/households/${household.id}`}
+                      className="font-medium text-primary underline"
+                    >
+                      {household.name}
+                    </Link>
+                  </TableCell>
+                  <TableCell>
+                    {household.salutation || household.jointSalutation}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {household.members
+                      .map((member) => member.firstName)
+                      .join(", ")}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {usd(household.totals.givenUsd)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {usd(household.totals.balanceUsd)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import React from "react";
+import { toast } from "sonner";
+import { History, Undo2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  useImports,
+  useRollbackImport,
+  type ImportLogEntry,
+} from "@/lib/query/imports/useImportsQuery";
+import type { ImportKind } from "@/lib/imports/fields";
+
+export const kindLabels: Record<ImportKind, string> = {
+  contact: "Contact",
+  pledge: "Pledge",
+  payment: "Payment",
+};
+
+const statusLabels: Record<ImportLogEntry["status"], string> = {
+  committed: "Imported",
+  failed: "Stopped",
+  rolled_back: "Rolled back",
+};
+
+// Past imports with the rows they skipped, and rollback to the trash.
+export default function ImportHistory() {
+  const { data: imports, isLoading, error } = useImports();
+  const rollback = useRollbackImport();
+
+  const handleRollback = (entry: ImportLogEntry) => {
+    rollback.mutate(entry.id, {
+      onSuccess: () => toast.success(`Rolled back ${entry.fileName}`),
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Past Imports
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        ) : isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : !imports?.length ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Nothing has been imported yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Imported</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>Rows</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {imports.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell>
+                    <div className="font-medium">{entry.fileName}</div>
+                    {entry.errorMessage && (
+                      <div className="text-xs text-destructive">
+                        {entry.errorMessage}
+                      </div>
+                    )}
+                    {entry.rowErrors.length > 0 && (
+                      <details className="text-xs text-muted-foreground">
+                        <summary>{entry.skippedRows} rows skipped</summary>
+                        <ul>
+                          {entry.rowErrors.map((row) => (
+                            <li key={row.rowNumber}>
+                              Row {row.rowNumber}: {row.errors.join("; ")}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{kindLabels[entry.kind]}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell>{entry.importedByName ?? "—"}</TableCell>
+                  <TableCell>
+                    {entry.importedRows} of {entry.totalRows}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={
+                        entry.status === "committed" ? "secondary" : "outline"
+                      }
+                    >
+                      {statusLabels[entry.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {entry.status !== "rolled_back" &&
+                      entry.importedRows > 0 && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={rollback.isPending}
+                            >
+                              <Undo2 className="h-4 w-4 mr-1" />
+                              Roll Back
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>
+                                Roll back {entry.fileName}?
+                              </AlertDialogTitle>
+                              <AlertDialogDescription>
+                                The {entry.importedRows} records it created
+                                will be moved to the trash, from where they
+                                can still be restored.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleRollback(entry)}
+                              >
+                                Roll Back
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
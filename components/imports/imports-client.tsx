@@ -0,0 +1,287 @@
+"use client";
+
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { FileSpreadsheet, Upload } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useCurrentUser } from "@/lib/query/auth/useCurrentUser";
+import {
+  usePreviewImport,
+  useRunImport,
+  type ImportPreview,
+} from "@/lib/query/imports/useImportsQuery";
+import {
+  IMPORT_FIELDS,
+  IMPORT_KINDS,
+  type ColumnMap,
+  type ImportKind,
+} from "@/lib/imports/fields";
+import ImportHistory, { kindLabels } from "./import-history";
+
+const UNMAPPED = "__none__";
+
+// Upload a spreadsheet, map its columns, check every row in a dry run and
+// import the rows that passed. Past imports are listed below for rollback.
+export default function ImportsClient() {
+  const [kind, setKind] = useState<ImportKind>("contact");
+  const [file, setFile] = useState<File | null>(null);
+  const [columnMap, setColumnMap] = useState<ColumnMap | undefined>();
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const { data: currentUser } = useCurrentUser();
+  const canManage =
+    currentUser?.role === "admin" || currentUser?.role === "bookkeeper";
+
+  const previewImport = usePreviewImport();
+  const runImport = useRunImport();
+
+  if (currentUser && !canManage) {
+    return (
+      <Alert className="mx-4 my-6">
+        <AlertDescription>
+          Only admins and bookkeepers can import data.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const check = (nextColumnMap?: ColumnMap, nextKind = kind) => {
+    if (!file) return;
+    previewImport.mutate(
+      { file, kind: nextKind, columnMap: nextColumnMap },
+      {
+        onSuccess: (result) => {
+          setPreview(result);
+          setColumnMap(result.columnMap);
+        },
+        onError: (error) => {
+          setPreview(null);
+          toast.error(error.message);
+        },
+      }
+    );
+  };
+
+  // A new file or kind starts from the mapping suggested by its headers
+  const reset = () => {
+    setPreview(null);
+    setColumnMap(undefined);
+  };
+
+  const handleMap = (field: string, header: string) => {
+    const next = { ...columnMap };
+    if (header === UNMAPPED) delete next[field];
+    else next[field] = header;
+    check(next);
+  };
+
+  const handleImport = () => {
+    if (!file) return;
+    runImport.mutate(
+      { file, kind, columnMap, includeDuplicates },
+      {
+        onSuccess: (result) => {
+          if (result.status === "failed") {
+            toast.error(result.errorMessage ?? "The import failed");
+          } else {
+            toast.success(
+              `Imported ${result.importedRows} of ${result.totalRows} rows`
+            );
+          }
+          setFile(null);
+          reset();
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  const toImport = preview
+    ? preview.counts.valid + (includeDuplicates ? preview.counts.duplicate : 0)
+    : 0;
+  const problemRows = preview?.rows.filter((row) => row.status !== "valid") ?? [];
+
+  return (
+    <div className="m-4 space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Import
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>Import</Label>
+              <Select
+                value={kind}
+                onValueChange={(value) => {
+                  setKind(value as ImportKind);
+                  reset();
+                }}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPORT_KINDS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {kindLabels[option]}s
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-file">CSV or XLSX file</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                className="w-72"
+                onChange={(e) => {
+                  setFile(e.target.files?.[0] ?? null);
+                  reset();
+                }}
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => check(columnMap)}
+              disabled={!file || previewImport.isPending}
+            >
+              <FileSpreadsheet className="h-4 w-4 mr-1" />
+              {previewImport.isPending ? "Checking..." : "Check File"}
+            </Button>
+          </div>
+
+          {preview && (
+            <>
+              <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                {IMPORT_FIELDS[kind].map((field) => (
+                  <div key={field.key} className="space-y-1">
+                    <Label>
+                      {field.label}
+                      {field.required && " *"}
+                    </Label>
+                    <Select
+                      value={columnMap?.[field.key] ?? UNMAPPED}
+                      onValueChange={(value) => handleMap(field.key, value)}
+                      disabled={previewImport.isPending}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Not imported</SelectItem>
+                        {preview.headers.map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant="outline">{preview.rows.length} rows</Badge>
+                <Badge variant="secondary">{preview.counts.valid} ready</Badge>
+                <Badge variant="outline">
+                  {preview.counts.duplicate} possible duplicates
+                </Badge>
+                <Badge variant="destructive">
+                  {preview.counts.invalid} with errors
+                </Badge>
+              </div>
+
+              {problemRows.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Record</TableHead>
+                      <TableHead>Problem</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {problemRows.map((row) => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell>{row.summary || "—"}</TableCell>
+                        <TableCell>
+                          {row.status === "invalid" ? (
+                            <ul className="text-sm text-destructive">
+                              {row.errors.map((message) => (
+                                <li key={message}>{message}</li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">
+                              Looks like{" "}
+                              {row.duplicates
+                                .map((duplicate) => duplicate.label)
+                                .join(", ")}
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="include-duplicates"
+                    checked={includeDuplicates}
+                    onCheckedChange={(checked) =>
+                      setIncludeDuplicates(checked === true)
+                    }
+                  />
+                  <Label htmlFor="include-duplicates">
+                    Import possible duplicates too
+                  </Label>
+                </div>
+                <Button
+                  onClick={handleImport}
+                  disabled={toImport === 0 || runImport.isPending}
+                >
+                  {runImport.isPending
+                    ? "Importing..."
+                    : `Import ${toImport} Rows`}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <ImportHistory />
+    </div>
+  );
+}
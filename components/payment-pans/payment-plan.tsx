@@ -695,6 +695,14 @@ export default function PaymentPlansTable({
                                         {plan.autoRenew ? "Yes" : "No"}
                                       </span>
                                     </div>
+                                    <div className="flex justify-between">
+                                      <span className="text-gray-600">
+                                        Reminders:
+                                      </span>
+                                      <span className="font-medium">
+                                        {plan.remindersOptOut ? "Opted out" : "On"}
+                                      </span>
+                                    </div>
                                     <div className="flex justify-between">
                                       <span className="text-gray-600">
                                         Reminders Sent:
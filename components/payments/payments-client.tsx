@@ -57,6 +57,8 @@ import { LinkButton } from "../ui/next-link";
 import FactsDialog from "../facts-iframe";
 import PaymentFormDialog from "../forms/payment-dialog";
 import EditPaymentDialog from "@/app/contacts/[contactId]/payments/__components/edit-payment";
+import ReceiptActions from "./receipt-actions";
+import RefundActions from "./refund-actions";
 import { toast } from "sonner";
 import { formatDate } from "@/lib/utils";
 import { usePledgeByIdQuery } from "@/lib/query/pledge/usePledgeQuery";
@@ -688,6 +690,18 @@ export default function PaymentsTable({ contactId }: PaymentsTableProps) {
                                       {payment.receiptIssued ? "Yes" : "No"}
                                     </span>
                                   </div>
+                                  <ReceiptActions
+                                    paymentId={payment.id}
+                                    paymentStatus={payment.paymentStatus}
+                                  />
+                                  <RefundActions
+                                    paymentId={payment.id}
+                                    paymentStatus={payment.paymentStatus}
+                                    amount={payment.amount}
+                                    currency={payment.currency}
+                                    refundedAmount={payment.refundedAmount}
+                                    refundOfPaymentId={payment.refundOfPaymentId}
+                                  />
                                 </div>
                               </div>
 
@@ -839,7 +853,7 @@ export default function PaymentsTable({ contactId }: PaymentsTableProps) {
                                       Delete Payment #{payment.id}
                                     </AlertDialogTitle>
                                     <AlertDialogDescription>
-                                      Are you sure you want to delete this payment? This action cannot be undone.
+                                      Are you sure you want to delete this payment? It moves to the trash, where a bookkeeper can restore it.
                                       {payment.isSplitPayment && (
                                         <>
                                           <br /><br />
@@ -0,0 +1,133 @@
+"use client";
+
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { FileText, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useCurrentUser } from "@/lib/query/auth/useCurrentUser";
+import {
+  receiptPdfUrl,
+  usePaymentReceipts,
+  useReceiptAction,
+} from "@/lib/query/receipts/useReceiptQuery";
+
+interface ReceiptActionsProps {
+  paymentId: number;
+  paymentStatus: string;
+}
+
+// Issue, download, void and reissue the tax receipt for one payment.
+export default function ReceiptActions({
+  paymentId,
+  paymentStatus,
+}: ReceiptActionsProps) {
+  const [reason, setReason] = useState("");
+  const { data: currentUser } = useCurrentUser();
+  const canManage =
+    currentUser?.role === "admin" || currentUser?.role === "bookkeeper";
+  const canRead = !!currentUser && currentUser.role !== "solicitor";
+
+  const { data: receipts, isLoading } = usePaymentReceipts(paymentId, canRead);
+  const receiptAction = useReceiptAction();
+
+  if (!canRead) return null;
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-gray-400" />;
+  }
+
+  const issued = receipts?.find((receipt) => receipt.status === "issued");
+  const voided = receipts?.filter((receipt) => receipt.status === "void") ?? [];
+
+  const run = (action: "issue" | "void" | "reissue") => {
+    if (action !== "issue" && !reason.trim()) {
+      toast.error("Enter a reason first");
+      return;
+    }
+    receiptAction.mutate(
+      { action, paymentId, receiptId: issued?.id, reason: reason.trim() },
+      {
+        onSuccess: () => {
+          setReason("");
+          toast.success(
+            action === "issue"
+              ? "Receipt issued"
+              : action === "void"
+                ? "Receipt voided"
+                : "Receipt reissued"
+          );
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      {issued ? (
+        <a
+          href={receiptPdfUrl(issued.id)}
+          target="_blank"
+          rel="noreferrer"
+          className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+        >
+          <FileText className="h-4 w-4" />
+          Receipt {issued.receiptNumber} (PDF)
+        </a>
+      ) : (
+        canManage &&
+        paymentStatus === "completed" && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => run("issue")}
+            disabled={receiptAction.isPending}
+          >
+            Issue Receipt
+          </Button>
+        )
+      )}
+
+      {issued && canManage && (
+        <div className="flex items-center gap-2">
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason to void or reissue"
+            className="h-8"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => run("reissue")}
+            disabled={receiptAction.isPending}
+          >
+            Reissue
+          </Button>
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={() => run("void")}
+            disabled={receiptAction.isPending}
+          >
+            Void
+          </Button>
+        </div>
+      )}
+
+      {voided.map((receipt) => (
+        <div key={receipt.id} className="text-gray-500">
+          <a
+            href={receiptPdfUrl(receipt.id)}
+            target="_blank"
+            rel="noreferrer"
+            className="line-through hover:underline"
+          >
+            {receipt.receiptNumber}
+          </a>{" "}
+          voided{receipt.voidReason ? `: ${receipt.voidReason}` : ""}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { Loader2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCurrentUser } from "@/lib/query/auth/useCurrentUser";
+import {
+  usePaymentRefunds,
+  useRefundPayment,
+  type RefundType,
+} from "@/lib/query/refunds/useRefundQuery";
+
+const refundTypes: { value: RefundType; label: string }[] = [
+  { value: "refund", label: "Refund" },
+  { value: "reversal", label: "Reversal" },
+  { value: "chargeback", label: "Chargeback" },
+];
+
+interface RefundActionsProps {
+  paymentId: number;
+  paymentStatus: string;
+  amount: string;
+  currency: string;
+  refundedAmount: string;
+  // Set when this payment is itself a refund
+  refundOfPaymentId: number | null;
+}
+
+// Lists a payment's refunds, reversals and chargebacks, and records new ones.
+export default function RefundActions({
+  paymentId,
+  paymentStatus,
+  amount,
+  currency,
+  refundedAmount,
+  refundOfPaymentId,
+}: RefundActionsProps) {
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundType, setRefundType] = useState<RefundType>("refund");
+  const [reason, setReason] = useState("");
+  const { data: currentUser } = useCurrentUser();
+  const canManage =
+    currentUser?.role === "admin" || currentUser?.role === "bookkeeper";
+  const canRead = !!currentUser && currentUser.role !== "solicitor";
+
+  const refundable =
+    Number.parseFloat(amount) - Number.parseFloat(refundedAmount || "0");
+  const { data: refunds, isLoading } = usePaymentRefunds(
+    paymentId,
+    canRead && !refundOfPaymentId && Number.parseFloat(refundedAmount || "0") > 0
+  );
+  const refundPayment = useRefundPayment();
+
+  if (!canRead) return null;
+  if (refundOfPaymentId) {
+    return (
+      <div className="text-sm text-gray-600">
+        Refund of payment #{refundOfPaymentId}
+      </div>
+    );
+  }
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-gray-400" />;
+  }
+
+  const submit = () => {
+    const value = Number.parseFloat(refundAmount);
+    if (!value || value <= 0 || value > refundable) {
+      toast.error(`Enter an amount up to ${refundable.toFixed(2)} ${currency}`);
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error("Enter a reason first");
+      return;
+    }
+    refundPayment.mutate(
+      { paymentId, amount: value, refundType, reason: reason.trim() },
+      {
+        onSuccess: () => {
+          setRefundAmount("");
+          setReason("");
+          toast.success("Refund recorded");
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      {refunds?.map((refund) => (
+        <div key={refund.id} className="text-gray-600">
+          <span className="capitalize">{refund.refundType}</span> of{" "}
+          {currency} {Math.abs(Number.parseFloat(refund.amount)).toFixed(2)} on{" "}
+          {refund.paymentDate}
+          {refund.refundReason ? `: ${refund.refundReason}` : ""}
+        </div>
+      ))}
+
+      {canManage && paymentStatus === "completed" && refundable > 0 && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            value={refundAmount}
+            onChange={(e) => setRefundAmount(e.target.value)}
+            placeholder={refundable.toFixed(2)}
+            className="h-8 w-24"
+          />
+          <Select
+            value={refundType}
+            onValueChange={(value) => setRefundType(value as RefundType)}
+          >
+            <SelectTrigger className="h-8 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {refundTypes.map((type) => (
+                <SelectItem key={type.value} value={type.value}>
+                  {type.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason"
+            className="h-8"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={submit}
+            disabled={refundPayment.isPending}
+          >
+            <Undo2 className="h-4 w-4 mr-1" />
+            Refund
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -778,9 +778,9 @@ export default function PledgesTable() {
             <AlertDialogTitle>Delete Pledge</AlertDialogTitle>
             <AlertDialogDescription>
               Are you sure you want to delete the pledge{" "}
-              {pledgeToDelete?.description || "Untitled Pledge"}? This action
-              cannot be undone and will permanently remove the pledge and all
-              associated data.
+              {pledgeToDelete?.description || "Untitled Pledge"}? The pledge
+              and its payment plans and payments move to the trash, where a
+              bookkeeper can restore them.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
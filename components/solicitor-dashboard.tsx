@@ -43,12 +43,26 @@ import {
   useUnassignPayment,
   useMarkBonusPaid,
   useRecalculateBonus,
+  usePayoutBatches,
+  useCreatePayoutBatches,
+  usePayoutBatchAction,
 } from "@/lib/query/solicitors/solicitorQueries";
+import { useCurrentUser } from "@/lib/query/auth/useCurrentUser";
 
 export default function SolicitorDashboard() {
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [activeTab, setActiveTab] = useState("solicitors");
+  const [payoutPeriod, setPayoutPeriod] = useState({
+    periodStart: "",
+    periodEnd: "",
+  });
+
+  const { data: currentUser } = useCurrentUser();
+  // Solicitors only see their own payments and cannot reassign them
+  const isSolicitorView = currentUser?.role === "solicitor";
+  const canManage =
+    currentUser?.role === "admin" || currentUser?.role === "bookkeeper";
 
   const { data: solicitorsData, isLoading: solicitorsLoading } = useSolicitors({
     search: searchTerm,
@@ -61,6 +75,9 @@ export default function SolicitorDashboard() {
   const { data: assignedPaymentsData, isLoading: assignedPaymentsLoading } =
     usePayments({
       assigned: true,
+      solicitorId: isSolicitorView
+        ? currentUser?.solicitorId ?? undefined
+        : undefined,
     });
 
   const { data: unassignedPaymentsData, isLoading: unassignedPaymentsLoading } =
@@ -71,21 +88,51 @@ export default function SolicitorDashboard() {
   const { data: bonusCalculationsData, isLoading: bonusCalculationsLoading } =
     useBonusCalculations();
 
+  const { data: payoutBatchesData, isLoading: payoutBatchesLoading } =
+    usePayoutBatches({ status: "open" });
+
   const { data: dashboardStatsData, isLoading: statsLoading } =
-    useDashboardStats();
+    useDashboardStats(!!currentUser && !isSolicitorView);
 
   const assignPaymentMutation = useAssignPayment();
   const unassignPaymentMutation = useUnassignPayment();
   const markBonusPaidMutation = useMarkBonusPaid();
   const recalculateBonusMutation = useRecalculateBonus();
+  const createPayoutBatchesMutation = useCreatePayoutBatches();
+  const payoutBatchActionMutation = usePayoutBatchAction();
 
   const solicitors = solicitorsData?.solicitors || [];
   const bonusRules = bonusRulesData?.bonusRules || [];
   const assignedPayments = assignedPaymentsData?.payments || [];
   const unassignedPayments = unassignedPaymentsData?.payments || [];
   const bonusCalculations = bonusCalculationsData?.bonusCalculations || [];
+  const payoutBatches = payoutBatchesData?.payoutBatches || [];
 
   const stats = useMemo(() => {
+    if (isSolicitorView) {
+      const ownPayments = assignedPaymentsData?.payments || [];
+      const ownCalculations = bonusCalculationsData?.bonusCalculations || [];
+      const totalBonuses = ownCalculations.reduce(
+        (sum: number, calc: any) => sum + Number(calc.bonusAmount || 0),
+        0
+      );
+      const unpaidBonuses = ownCalculations
+        .filter((calc: any) => !calc.isPaid)
+        .reduce((sum: number, calc: any) => sum + Number(calc.bonusAmount || 0), 0);
+      return {
+        activeSolicitors: 1,
+        totalSolicitors: 1,
+        totalRaised: ownPayments.reduce(
+          (sum: number, payment: any) => sum + Number(payment.amountUsd || 0),
+          0
+        ),
+        totalBonuses,
+        unpaidBonuses,
+        unassignedCount: 0,
+        assignedCount: ownPayments.length,
+      };
+    }
+
     if (!dashboardStatsData) {
       return {
         activeSolicitors: 0,
@@ -107,7 +154,12 @@ export default function SolicitorDashboard() {
       unassignedCount: dashboardStatsData.payments.unassigned,
       assignedCount: dashboardStatsData.payments.assigned,
     };
-  }, [dashboardStatsData]);
+  }, [
+    dashboardStatsData,
+    isSolicitorView,
+    assignedPaymentsData,
+    bonusCalculationsData,
+  ]);
 
   const getStatusBadge = (status: string) => {
     const variants = {
@@ -152,6 +204,25 @@ export default function SolicitorDashboard() {
     }
   };
 
+  const handleCreatePayoutBatches = async () => {
+    try {
+      await createPayoutBatchesMutation.mutateAsync(payoutPeriod);
+    } catch (error) {
+      console.error("Failed to create payout batches:", error);
+    }
+  };
+
+  const handlePayoutBatchAction = async (
+    batchId: number,
+    action: "approve" | "pay" | "cancel"
+  ) => {
+    try {
+      await payoutBatchActionMutation.mutateAsync({ batchId, action });
+    } catch (error) {
+      console.error(`Failed to ${action} payout batch:`, error);
+    }
+  };
+
   const handleRecalculateBonus = async (paymentId: number) => {
     try {
       await recalculateBonusMutation.mutateAsync(paymentId);
@@ -285,7 +356,10 @@ export default function SolicitorDashboard() {
         <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="solicitors">Solicitors</TabsTrigger>
           <TabsTrigger value="assigned">Assigned Payments</TabsTrigger>
-          <TabsTrigger value="unassigned">Unassigned</TabsTrigger>
+          {canManage && (
+            <TabsTrigger value="unassigned">Unassigned</TabsTrigger>
+          )}
+          <TabsTrigger value="payouts">Payouts</TabsTrigger>
           {/* <TabsTrigger value="bonus-rules">Bonus Rules</TabsTrigger>
           <TabsTrigger value="calculations">Calculations</TabsTrigger> */}
         </TabsList>
@@ -399,7 +473,8 @@ export default function SolicitorDashboard() {
                       <TableRow>
                         <TableHead>Rule Name</TableHead>
                         <TableHead>Solicitor</TableHead>
-                        <TableHead>Bonus %</TableHead>
+                        <TableHead>Bonus</TableHead>
+                        <TableHead>Yearly Cap</TableHead>
                         <TableHead>Payment Type</TableHead>
                         <TableHead>Min Amount</TableHead>
                         <TableHead>Max Amount</TableHead>
@@ -417,9 +492,44 @@ export default function SolicitorDashboard() {
                           <TableCell>
                             {rule.solicitorFirstName} {rule.solicitorLastName}
                           </TableCell>
-                          <TableCell>{rule.bonusPercentage}%</TableCell>
+                          <TableCell>
+                            {rule.calculationType === "flat" ? (
+                              `$${Number(rule.flatAmount || 0).toLocaleString()} per payment`
+                            ) : rule.calculationType === "tiered" ? (
+                              <div className="text-sm">
+                                {(rule.tiers || []).map((tier: any) => (
+                                  <div key={tier.id}>
+                                    {tier.bonusPercentage}% from $
+                                    {Number(tier.minVolume).toLocaleString()}
+                                  </div>
+                                ))}
+                              </div>
+                            ) : (
+                              `${rule.bonusPercentage}%`
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {rule.yearlyCap
+                              ? `$${Number(rule.yearlyCap).toLocaleString()}`
+                              : "None"}
+                          </TableCell>
                           <TableCell>
                             <Badge variant="outline">{rule.paymentType}</Badge>
+                            {rule.categoryIds?.length > 0 && (
+                              <div className="text-xs text-muted-foreground">
+                                Categories: {rule.categoryIds.join(", ")}
+                              </div>
+                            )}
+                            {rule.campaignCodes?.length > 0 && (
+                              <div className="text-xs text-muted-foreground">
+                                Campaigns: {rule.campaignCodes.join(", ")}
+                              </div>
+                            )}
+                            {rule.paymentMethods?.length > 0 && (
+                              <div className="text-xs text-muted-foreground">
+                                Methods: {rule.paymentMethods.join(", ")}
+                              </div>
+                            )}
                           </TableCell>
                           <TableCell>
                             ${Number(rule.minAmount || 0).toLocaleString()}
@@ -569,6 +679,155 @@ export default function SolicitorDashboard() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="payouts">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <DollarSign className="h-5 w-5" />
+                Open Payout Batches ({payoutBatches.length})
+              </CardTitle>
+              {canManage && (
+                <div className="flex flex-wrap items-center gap-2 pt-2">
+                  <Input
+                    type="date"
+                    className="w-44"
+                    value={payoutPeriod.periodStart}
+                    onChange={(e) =>
+                      setPayoutPeriod({
+                        ...payoutPeriod,
+                        periodStart: e.target.value,
+                      })
+                    }
+                  />
+                  <span className="text-sm text-muted-foreground">to</span>
+                  <Input
+                    type="date"
+                    className="w-44"
+                    value={payoutPeriod.periodEnd}
+                    onChange={(e) =>
+                      setPayoutPeriod({
+                        ...payoutPeriod,
+                        periodEnd: e.target.value,
+                      })
+                    }
+                  />
+                  <Button
+                    size="sm"
+                    onClick={handleCreatePayoutBatches}
+                    disabled={
+                      !payoutPeriod.periodStart ||
+                      !payoutPeriod.periodEnd ||
+                      createPayoutBatchesMutation.isPending
+                    }
+                  >
+                    {createPayoutBatchesMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      "Create Batches"
+                    )}
+                  </Button>
+                </div>
+              )}
+            </CardHeader>
+            <CardContent>
+              {payoutBatchesLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="h-8 w-8 animate-spin" />
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Batch</TableHead>
+                        <TableHead>Solicitor</TableHead>
+                        <TableHead>Period</TableHead>
+                        <TableHead>Bonuses</TableHead>
+                        <TableHead>Total</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {payoutBatches.map((batch: any) => (
+                        <TableRow key={batch.id}>
+                          <TableCell className="font-mono">#{batch.id}</TableCell>
+                          <TableCell>
+                            {batch.solicitorFirstName} {batch.solicitorLastName}
+                          </TableCell>
+                          <TableCell>
+                            {batch.periodStart} – {batch.periodEnd}
+                          </TableCell>
+                          <TableCell>{batch.calculationCount}</TableCell>
+                          <TableCell className="font-medium text-green-600">
+                            ${Number(batch.totalAmount).toLocaleString()}
+                          </TableCell>
+                          <TableCell>
+                            <Badge
+                              className={
+                                batch.status === "approved"
+                                  ? "bg-blue-100 text-blue-800"
+                                  : "bg-yellow-100 text-yellow-800"
+                              }
+                            >
+                              {batch.status === "approved" ? "Approved" : "Draft"}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-2">
+                              <Button variant="outline" size="sm" asChild>
+                                <a href={`/api/payout-batches/${batch.id}/statement`}>
+                                  Statement
+                                </a>
+                              </Button>
+                              {canManage && batch.status === "draft" && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() =>
+                                    handlePayoutBatchAction(batch.id, "approve")
+                                  }
+                                  disabled={payoutBatchActionMutation.isPending}
+                                >
+                                  Approve
+                                </Button>
+                              )}
+                              {canManage && batch.status === "approved" && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() =>
+                                    handlePayoutBatchAction(batch.id, "pay")
+                                  }
+                                  disabled={payoutBatchActionMutation.isPending}
+                                >
+                                  Mark Paid
+                                </Button>
+                              )}
+                              {canManage && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() =>
+                                    handlePayoutBatchAction(batch.id, "cancel")
+                                  }
+                                  disabled={payoutBatchActionMutation.isPending}
+                                >
+                                  Cancel
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="assigned">
           <Card>
             <CardHeader>
@@ -594,7 +853,7 @@ export default function SolicitorDashboard() {
                         <TableHead>Bonus Amount</TableHead>
                         <TableHead>Date</TableHead>
                         <TableHead>Status</TableHead>
-                        <TableHead>Actions</TableHead>
+                        {canManage && <TableHead>Actions</TableHead>}
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -652,20 +911,22 @@ export default function SolicitorDashboard() {
                               {payment.paymentStatus}
                             </Badge>
                           </TableCell>
-                          <TableCell>
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => handleUnassignPayment(payment.id)}
-                              disabled={unassignPaymentMutation.isPending}
-                            >
-                              {unassignPaymentMutation.isPending ? (
-                                <Loader2 className="h-4 w-4 animate-spin" />
-                              ) : (
-                                "Unassign"
-                              )}
-                            </Button>
-                          </TableCell>
+                          {canManage && (
+                            <TableCell>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleUnassignPayment(payment.id)}
+                                disabled={unassignPaymentMutation.isPending}
+                              >
+                                {unassignPaymentMutation.isPending ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  "Unassign"
+                                )}
+                              </Button>
+                            </TableCell>
+                          )}
                         </TableRow>
                       ))}
                     </TableBody>
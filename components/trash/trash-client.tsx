@@ -0,0 +1,201 @@
+"use client";
+
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { ArchiveRestore, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useCurrentUser } from "@/lib/query/auth/useCurrentUser";
+import {
+  usePurgeFromTrash,
+  useRestoreFromTrash,
+  useTrash,
+  type TrashItem,
+  type TrashKind,
+} from "@/lib/query/trash/useTrashQuery";
+
+const kindLabels: Record<TrashKind, string> = {
+  contact: "Contact",
+  pledge: "Pledge",
+  payment: "Payment",
+};
+
+// Deleted contacts, pledges and payments, with restore for bookkeepers and
+// permanent deletion for admins.
+export default function TrashClient() {
+  const [kind, setKind] = useState<TrashKind | "all">("all");
+  const { data: currentUser } = useCurrentUser();
+  const canManage =
+    currentUser?.role === "admin" || currentUser?.role === "bookkeeper";
+  const canPurge = currentUser?.role === "admin";
+
+  const { data: items, isLoading, error } = useTrash(
+    kind === "all" ? undefined : kind,
+    canManage
+  );
+  const restore = useRestoreFromTrash();
+  const purge = usePurgeFromTrash();
+
+  if (currentUser && !canManage) {
+    return (
+      <Alert className="mx-4 my-6">
+        <AlertDescription>
+          Only admins and bookkeepers can view the trash.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const handleRestore = (item: TrashItem) => {
+    restore.mutate(item, {
+      onSuccess: () => toast.success(`${kindLabels[item.kind]} restored`),
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  const handlePurge = (item: TrashItem) => {
+    purge.mutate(item, {
+      onSuccess: () =>
+        toast.success(`${kindLabels[item.kind]} permanently deleted`),
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  return (
+    <Card className="m-4">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <Trash2 className="h-5 w-5" />
+          Trash
+        </CardTitle>
+        <Select
+          value={kind}
+          onValueChange={(value) => setKind(value as TrashKind | "all")}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Everything</SelectItem>
+            <SelectItem value="contact">Contacts</SelectItem>
+            <SelectItem value="pledge">Pledges</SelectItem>
+            <SelectItem value="payment">Payments</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <Alert variant="destructive">
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        ) : isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : !items?.length ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            The trash is empty.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Type</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Deleted</TableHead>
+                <TableHead>Deleted By</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={`${item.kind}-${item.id}`}>
+                  <TableCell>
+                    <Badge variant="outline">{kindLabels[item.kind]}</Badge>
+                  </TableCell>
+                  <TableCell>{item.label}</TableCell>
+                  <TableCell>
+                    {new Date(item.deletedAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell>{item.deletedByName ?? "—"}</TableCell>
+                  <TableCell className="space-x-2 text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRestore(item)}
+                      disabled={restore.isPending}
+                    >
+                      <ArchiveRestore className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                    {canPurge && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            disabled={purge.isPending}
+                          >
+                            Delete Permanently
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>
+                              Permanently delete this{" "}
+                              {kindLabels[item.kind].toLowerCase()}?
+                            </AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {item.label} and everything deleted along with
+                              it will be removed for good. This cannot be
+                              undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handlePurge(item)}
+                            >
+                              Delete Permanently
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
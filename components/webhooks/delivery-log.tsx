@@ -0,0 +1,175 @@
+"use client";
+
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { RotateCcw } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { WebhookDelivery } from "@/lib/db/schema";
+import {
+  useReplayDelivery,
+  useWebhookDeliveries,
+  type DeliveryEntry,
+} from "@/lib/query/webhooks/useWebhooksQuery";
+
+type DeliveryStatus = WebhookDelivery["status"];
+
+const ALL = "all";
+
+const statusLabels: Record<DeliveryStatus, string> = {
+  received: "Received",
+  processed: "Processed",
+  duplicate: "Duplicate",
+  failed: "Failed",
+};
+
+const statusVariant = (status: DeliveryStatus) =>
+  status === "failed"
+    ? "destructive"
+    : status === "processed"
+      ? "secondary"
+      : "outline";
+
+// A source's deliveries with what they sent and what became of them. Failed
+// ones can be replayed, e.g. after fixing the field map, and duplicates
+// created anyway.
+export default function DeliveryLog({ sourceId }: { sourceId: number }) {
+  const [status, setStatus] = useState<DeliveryStatus | typeof ALL>(ALL);
+  const {
+    data: deliveries,
+    isLoading,
+    error,
+  } = useWebhookDeliveries(sourceId, status === ALL ? undefined : status);
+  const replay = useReplayDelivery();
+
+  const handleReplay = (delivery: DeliveryEntry, includeDuplicates = false) => {
+    replay.mutate(
+      { id: delivery.id, includeDuplicates },
+      {
+        onSuccess: (result) => {
+          if (result.status === "processed") toast.success(result.result);
+          else toast.error(result.error || result.result || "Not processed");
+        },
+        onError: (error) => toast.error(error.message),
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <Select
+        value={status}
+        onValueChange={(value) => setStatus(value as DeliveryStatus | typeof ALL)}
+      >
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All deliveries</SelectItem>
+          {Object.entries(statusLabels).map(([value, label]) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {error ? (
+        <Alert variant="destructive">
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      ) : isLoading ? (
+        <Skeleton className="h-32 w-full" />
+      ) : !deliveries?.length ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">
+          No deliveries yet.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Received</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Result</TableHead>
+              <TableHead>Attempts</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {deliveries.map((delivery) => (
+              <TableRow key={delivery.id}>
+                <TableCell className="whitespace-nowrap">
+                  {new Date(delivery.receivedAt).toLocaleString()}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={statusVariant(delivery.status)}>
+                    {statusLabels[delivery.status]}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  {delivery.result && <div>{delivery.result}</div>}
+                  {delivery.error && (
+                    <div className="text-xs text-destructive">{delivery.error}</div>
+                  )}
+                  <details className="text-xs text-muted-foreground">
+                    <summary>What was sent</summary>
+                    <dl className="grid grid-cols-[auto_1fr] gap-x-3">
+                      {Object.entries(delivery.payload).map(([key, value]) => (
+                        <React.Fragment key={key}>
+                          <dt className="font-mono">{key}</dt>
+                          <dd className="break-all">{value}</dd>
+                        </React.Fragment>
+                      ))}
+                    </dl>
+                  </details>
+                </TableCell>
+                <TableCell>{delivery.attempts}</TableCell>
+                <TableCell className="text-right">
+                  {(delivery.status === "failed" ||
+                    delivery.status === "received") && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={replay.isPending}
+                      onClick={() => handleReplay(delivery)}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Replay
+                    </Button>
+                  )}
+                  {delivery.status === "duplicate" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={replay.isPending}
+                      onClick={() => handleReplay(delivery, true)}
+                    >
+                      Create Anyway
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
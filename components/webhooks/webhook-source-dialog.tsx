@@ -0,0 +1,259 @@
+"use client";
+
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { Copy } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  IMPORT_FIELDS,
+  IMPORT_KINDS,
+  type ColumnMap,
+  type ImportKind,
+} from "@/lib/imports/fields";
+import {
+  useCreateWebhookSource,
+  useUpdateWebhookSource,
+  type SourceWithSecret,
+  type WebhookSourceSummary,
+} from "@/lib/query/webhooks/useWebhooksQuery";
+import { kindLabels } from "@/components/imports/import-history";
+
+// What GoHighLevel's contact workflow webhook sends, as the old built-in
+// contact webhook read it
+const GOHIGHLEVEL_CONTACT: ColumnMap = {
+  firstName: "first_name",
+  lastName: "last_name",
+  email: "email",
+  phone: "phone",
+  street: "full_address",
+  country: "country",
+};
+
+const slugFor = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+export const webhookUrl = (slug: string) =>
+  `${typeof window === "undefined" ? "" : window.location.origin}/api/webhook/${slug}`;
+
+// Creates a source, or edits one when `source` is given
+export function WebhookSourceDialog({
+  source,
+  onClose,
+  onCreated,
+}: {
+  source?: WebhookSourceSummary;
+  onClose: () => void;
+  onCreated: (created: SourceWithSecret) => void;
+}) {
+  const [name, setName] = useState(source?.name ?? "");
+  const [slug, setSlug] = useState(source?.slug ?? "");
+  const [slugEdited, setSlugEdited] = useState(!!source);
+  const [target, setTarget] = useState<ImportKind>(source?.target ?? "contact");
+  const [fieldMap, setFieldMap] = useState<ColumnMap>(source?.fieldMap ?? {});
+  const [isActive, setIsActive] = useState(source?.isActive ?? true);
+  const createSource = useCreateWebhookSource();
+  const updateSource = useUpdateWebhookSource();
+  const saving = createSource.isPending || updateSource.isPending;
+
+  const handleSave = () => {
+    const values = { name, slug, target, fieldMap, isActive };
+    if (source) {
+      updateSource.mutate(
+        { id: source.id, ...values },
+        {
+          onSuccess: () => {
+            toast.success(`${name} saved`);
+            onClose();
+          },
+          onError: (error) => toast.error(error.message),
+        }
+      );
+    } else {
+      createSource.mutate(values, {
+        onSuccess: onCreated,
+        onError: (error) => toast.error(error.message),
+      });
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{source ? `Edit ${source.name}` : "New Webhook"}</DialogTitle>
+          <DialogDescription>
+            Map what the sender posts, as query parameters, JSON or a form, to
+            the fields of a contact, pledge or payment. Nested JSON keys are
+            joined with dots, e.g. contact.email.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-name">Name</Label>
+            <Input
+              id="webhook-name"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                if (!slugEdited) setSlug(slugFor(e.target.value));
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="webhook-slug">URL name</Label>
+            <Input
+              id="webhook-slug"
+              value={slug}
+              onChange={(e) => {
+                setSlug(e.target.value);
+                setSlugEdited(true);
+              }}
+            />
+            <p className="text-xs text-muted-foreground">
+              /api/webhook/{slug || "…"}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label>Creates</Label>
+            <Select
+              value={target}
+              onValueChange={(value) => {
+                setTarget(value as ImportKind);
+                setFieldMap({});
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IMPORT_KINDS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {kindLabels[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {source && (
+            <div className="flex items-center gap-2 pt-8">
+              <Switch
+                id="webhook-active"
+                checked={isActive}
+                onCheckedChange={setIsActive}
+              />
+              <Label htmlFor="webhook-active">Accepting deliveries</Label>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Field map</Label>
+            {target === "contact" && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setFieldMap(GOHIGHLEVEL_CONTACT)}
+              >
+                Use GoHighLevel keys
+              </Button>
+            )}
+          </div>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {IMPORT_FIELDS[target].map((field) => (
+              <div key={field.key} className="space-y-1">
+                <Label htmlFor={`webhook-field-${field.key}`} className="text-xs">
+                  {field.label}
+                  {field.required && " *"}
+                </Label>
+                <Input
+                  id={`webhook-field-${field.key}`}
+                  placeholder="Payload key"
+                  value={fieldMap[field.key] ?? ""}
+                  onChange={(e) =>
+                    setFieldMap({ ...fieldMap, [field.key]: e.target.value })
+                  }
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!name || !slug || saving}>
+            {saving ? "Saving..." : source ? "Save" : "Create Webhook"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// The URL and secret to give the sender; the secret is not shown again
+export function WebhookSecretDialog({
+  created,
+  onClose,
+}: {
+  created: SourceWithSecret;
+  onClose: () => void;
+}) {
+  const url = webhookUrl(created.source.slug);
+  const copy = (text: string) =>
+    navigator.clipboard.writeText(text).then(() => toast.success("Copied"));
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Set Up {created.source.name}</DialogTitle>
+          <DialogDescription>
+            Have the sender post to this URL with the secret as an
+            &quot;Authorization: Bearer&quot; or &quot;x-api-key&quot; header.
+            Copy the secret now: it is not shown again.
+          </DialogDescription>
+        </DialogHeader>
+        {[
+          ["URL", url],
+          ["Secret", created.secret],
+        ].map(([label, value]) => (
+          <div key={label} className="space-y-2">
+            <Label>{label}</Label>
+            <div className="flex gap-2">
+              <Input readOnly value={value} className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={() => copy(value)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+        <DialogFooter>
+          <Button onClick={onClose}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
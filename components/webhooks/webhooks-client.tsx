@@ -0,0 +1,256 @@
+"use client";
+
+import React, { useState } from "react";
+import { toast } from "sonner";
+import { KeyRound, Pencil, Plus, Trash2, Webhook } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useCurrentUser } from "@/lib/query/auth/useCurrentUser";
+import {
+  useDeleteWebhookSource,
+  useRotateWebhookSecret,
+  useWebhookSources,
+  type SourceWithSecret,
+  type WebhookSourceSummary,
+} from "@/lib/query/webhooks/useWebhooksQuery";
+import { kindLabels } from "@/components/imports/import-history";
+import DeliveryLog from "./delivery-log";
+import { WebhookSecretDialog, WebhookSourceDialog } from "./webhook-source-dialog";
+
+export default function WebhooksClient() {
+  const [editing, setEditing] = useState<WebhookSourceSummary | "new" | null>(
+    null
+  );
+  const [secret, setSecret] = useState<SourceWithSecret | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const { data: currentUser } = useCurrentUser();
+  const isAdmin = currentUser?.role === "admin";
+
+  const { data: sources, isLoading, error } = useWebhookSources(isAdmin);
+  const rotateSecret = useRotateWebhookSecret();
+  const deleteSource = useDeleteWebhookSource();
+  const selected = sources?.find((source) => source.id === selectedId);
+
+  if (currentUser && !isAdmin) {
+    return (
+      <Alert className="mx-4 my-6">
+        <AlertDescription>Only admins can set up webhooks.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const handleRotate = (source: WebhookSourceSummary) => {
+    rotateSecret.mutate(source.id, {
+      onSuccess: setSecret,
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  const handleDelete = (source: WebhookSourceSummary) => {
+    deleteSource.mutate(source.id, {
+      onSuccess: () => {
+        toast.success(`${source.name} deleted`);
+        if (selectedId === source.id) setSelectedId(null);
+      },
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  return (
+    <div className="space-y-4 m-4">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <Webhook className="h-5 w-5" />
+            Webhooks
+          </CardTitle>
+          <Button onClick={() => setEditing("new")}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Webhook
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <Alert variant="destructive">
+              <AlertDescription>{error.message}</AlertDescription>
+            </Alert>
+          ) : isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : !sources?.length ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No webhooks yet.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>URL</TableHead>
+                  <TableHead>Creates</TableHead>
+                  <TableHead>Deliveries</TableHead>
+                  <TableHead>Last Delivery</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sources.map((source) => (
+                  <TableRow
+                    key={source.id}
+                    className={source.id === selectedId ? "bg-muted/50" : undefined}
+                  >
+                    <TableCell>
+                      <button
+                        className="font-medium text-primary underline"
+                        onClick={() => setSelectedId(source.id)}
+                      >
+                        {source.name}
+                      </button>
+                      {!source.isActive && (
+                        <Badge variant="outline" className="ml-2">
+                          Paused
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">
+                      /api/webhook/{source.slug}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{kindLabels[source.target]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {source.deliveryCount}
+                      {source.failedCount > 0 && (
+                        <span className="text-destructive">
+                          , {source.failedCount} failed
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {source.lastDeliveryAt
+                        ? new Date(source.lastDeliveryAt).toLocaleString()
+                        : "—"}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setEditing(source)}
+                      >
+                        <Pencil className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={rotateSecret.isPending}
+                          >
+                            <KeyRound className="h-4 w-4 mr-1" />
+                            New Secret
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>
+                              Replace the secret of {source.name}?
+                            </AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The current secret stops working at once, so
+                              deliveries fail until the sender is given the
+                              new one.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleRotate(source)}>
+                              Replace Secret
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={deleteSource.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {source.name}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Its URL stops accepting deliveries and its
+                              delivery log is deleted. Records it already
+                              created are kept.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(source)}>
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{selected.name} Deliveries</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <DeliveryLog sourceId={selected.id} />
+          </CardContent>
+        </Card>
+      )}
+
+      {editing && (
+        <WebhookSourceDialog
+          source={editing === "new" ? undefined : editing}
+          onClose={() => setEditing(null)}
+          onCreated={(created) => {
+            setEditing(null);
+            setSecret(created);
+          }}
+        />
+      )}
+      {secret && (
+        <WebhookSecretDialog created={secret} onClose={() => setSecret(null)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+CREATE TYPE "public"."distribution_type" AS ENUM('fixed', 'custom');--> statement-breakpoint
+CREATE TYPE "public"."installment_status" AS ENUM('pending', 'paid', 'overdue', 'cancelled');--> statement-breakpoint
+CREATE TABLE "installment_schedule" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"payment_plan_id" integer NOT NULL,
+	"installment_date" date NOT NULL,
+	"installment_amount" numeric(10, 2) NOT NULL,
+	"currency" "currency" NOT NULL,
+	"status" "installment_status" DEFAULT 'pending' NOT NULL,
+	"paid_date" date,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"payment_id" integer
+);
+--> statement-breakpoint
+CREATE TABLE "payment_allocations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"payment_id" integer NOT NULL,
+	"pledge_id" integer NOT NULL,
+	"installment_schedule_id" integer,
+	"allocated_amount" numeric(10, 2) NOT NULL,
+	"currency" "currency" NOT NULL,
+	"allocated_amount_usd" numeric(10, 2),
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "payment" DROP CONSTRAINT "payment_pledge_id_pledge_id_fk";
+--> statement-breakpoint
+ALTER TABLE "payment" ALTER COLUMN "payment_method" SET DATA TYPE text;--> statement-breakpoint
+DROP TYPE "public"."payment_method";--> statement-breakpoint
+CREATE TYPE "public"."payment_method" AS ENUM('ach', 'bill_pay', 'cash', 'check', 'credit', 'credit_card', 'expected', 'goods_and_services', 'matching_funds', 'money_order', 'p2p', 'pending', 'refund', 'scholarship', 'stock', 'student_portion', 'unknown', 'wire', 'xfer', 'other');--> statement-breakpoint
+ALTER TABLE "payment" ALTER COLUMN "payment_method" SET DATA TYPE "public"."payment_method" USING "payment_method"::"public"."payment_method";--> statement-breakpoint
+ALTER TABLE "payment" ALTER COLUMN "pledge_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "installment_schedule_id" integer;--> statement-breakpoint
+ALTER TABLE "payment_plan" ADD COLUMN "distribution_type" "distribution_type" DEFAULT 'fixed' NOT NULL;--> statement-breakpoint
+ALTER TABLE "pledge" ADD COLUMN "campaign_code" text;--> statement-breakpoint
+ALTER TABLE "installment_schedule" ADD CONSTRAINT "installment_schedule_payment_plan_id_payment_plan_id_fk" FOREIGN KEY ("payment_plan_id") REFERENCES "public"."payment_plan"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_allocations" ADD CONSTRAINT "payment_allocations_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_allocations" ADD CONSTRAINT "payment_allocations_pledge_id_pledge_id_fk" FOREIGN KEY ("pledge_id") REFERENCES "public"."pledge"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_allocations" ADD CONSTRAINT "payment_allocations_installment_schedule_id_installment_schedule_id_fk" FOREIGN KEY ("installment_schedule_id") REFERENCES "public"."installment_schedule"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "installment_schedule_payment_plan_id_idx" ON "installment_schedule" USING btree ("payment_plan_id");--> statement-breakpoint
+CREATE INDEX "installment_schedule_installment_date_idx" ON "installment_schedule" USING btree ("installment_date");--> statement-breakpoint
+CREATE INDEX "installment_schedule_status_idx" ON "installment_schedule" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "installment_schedule_payment_id_idx" ON "installment_schedule" USING btree ("payment_id");--> statement-breakpoint
+CREATE INDEX "payment_allocations_payment_id_idx" ON "payment_allocations" USING btree ("payment_id");--> statement-breakpoint
+CREATE INDEX "payment_allocations_pledge_id_idx" ON "payment_allocations" USING btree ("pledge_id");--> statement-breakpoint
+CREATE INDEX "payment_allocations_installment_schedule_id_idx" ON "payment_allocations" USING btree ("installment_schedule_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "payment_allocations_unique" ON "payment_allocations" USING btree ("payment_id","pledge_id","installment_schedule_id");--> statement-breakpoint
+ALTER TABLE "payment" ADD CONSTRAINT "payment_installment_schedule_id_installment_schedule_id_fk" FOREIGN KEY ("installment_schedule_id") REFERENCES "public"."installment_schedule"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment" ADD CONSTRAINT "payment_pledge_id_pledge_id_fk" FOREIGN KEY ("pledge_id") REFERENCES "public"."pledge"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "payment_installment_schedule_id_idx" ON "payment" USING btree ("installment_schedule_id");
\ No newline at end of file
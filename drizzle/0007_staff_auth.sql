@@ -0,0 +1,18 @@
+CREATE TYPE "public"."staff_role" AS ENUM('admin', 'bookkeeper', 'solicitor', 'read_only');--> statement-breakpoint
+CREATE TABLE "staff_user" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"email" text NOT NULL,
+	"name" text NOT NULL,
+	"password_hash" text NOT NULL,
+	"role" "staff_role" DEFAULT 'read_only' NOT NULL,
+	"contact_id" integer,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"last_login_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "staff_user_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+ALTER TABLE "staff_user" ADD CONSTRAINT "staff_user_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "staff_user_role_idx" ON "staff_user" USING btree ("role");--> statement-breakpoint
+CREATE INDEX "staff_user_contact_id_idx" ON "staff_user" USING btree ("contact_id");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "audit_log" ADD COLUMN "staff_user_id" integer;--> statement-breakpoint
+ALTER TABLE "audit_log" ADD COLUMN "contact_id" integer;--> statement-breakpoint
+ALTER TABLE "audit_log" ADD CONSTRAINT "audit_log_staff_user_id_staff_user_id_fk" FOREIGN KEY ("staff_user_id") REFERENCES "public"."staff_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "audit_log_record_idx" ON "audit_log" USING btree ("table_name","record_id");--> statement-breakpoint
+CREATE INDEX "audit_log_contact_id_idx" ON "audit_log" USING btree ("contact_id");--> statement-breakpoint
+CREATE INDEX "audit_log_changed_at_idx" ON "audit_log" USING btree ("changed_at");
\ No newline at end of file
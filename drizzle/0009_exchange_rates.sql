@@ -0,0 +1,10 @@
+CREATE TABLE "exchange_rate" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"date" date NOT NULL,
+	"currency" "currency" NOT NULL,
+	"rate" numeric(18, 8) NOT NULL,
+	"source" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "exchange_rate_date_currency_unique" ON "exchange_rate" USING btree ("date","currency");
\ No newline at end of file
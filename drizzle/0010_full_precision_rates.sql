@@ -0,0 +1,3 @@
+ALTER TABLE "payment" ALTER COLUMN "exchange_rate" SET DATA TYPE numeric(18, 8);--> statement-breakpoint
+ALTER TABLE "payment_plan" ALTER COLUMN "exchange_rate" SET DATA TYPE numeric(18, 8);--> statement-breakpoint
+ALTER TABLE "pledge" ALTER COLUMN "exchange_rate" SET DATA TYPE numeric(18, 8);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "payment" ADD COLUMN "idempotency_key" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "payment_idempotency_key_unique" ON "payment" USING btree ("idempotency_key");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TYPE "public"."bonus_calculation_type" AS ENUM('percentage', 'flat', 'tiered');--> statement-breakpoint
+CREATE TABLE "bonus_rule_tier" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"bonus_rule_id" integer NOT NULL,
+	"min_volume" numeric(12, 2) NOT NULL,
+	"bonus_percentage" numeric(5, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "bonus_rule" ADD COLUMN "calculation_type" "bonus_calculation_type" DEFAULT 'percentage' NOT NULL;--> statement-breakpoint
+ALTER TABLE "bonus_rule" ADD COLUMN "flat_amount" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "bonus_rule" ADD COLUMN "yearly_cap" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "bonus_rule_tier" ADD CONSTRAINT "bonus_rule_tier_bonus_rule_id_bonus_rule_id_fk" FOREIGN KEY ("bonus_rule_id") REFERENCES "public"."bonus_rule"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "bonus_rule_tier_bonus_rule_id_idx" ON "bonus_rule_tier" USING btree ("bonus_rule_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "bonus_rule_tier_rule_volume_unique" ON "bonus_rule_tier" USING btree ("bonus_rule_id","min_volume");
\ No newline at end of file
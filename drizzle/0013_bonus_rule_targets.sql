@@ -0,0 +1,6 @@
+ALTER TABLE "bonus_rule" ADD COLUMN "category_ids" integer[];--> statement-breakpoint
+ALTER TABLE "bonus_rule" ADD COLUMN "campaign_codes" text[];--> statement-breakpoint
+ALTER TABLE "bonus_rule" ADD COLUMN "payment_methods" "payment_method"[];--> statement-breakpoint
+ALTER TABLE "category" ADD COLUMN "bonus_payment_type" "bonus_payment_type";--> statement-breakpoint
+UPDATE "category" SET "bonus_payment_type" = 'donation' WHERE "name" ILIKE '%donation%';--> statement-breakpoint
+UPDATE "category" SET "bonus_payment_type" = 'tuition' WHERE "bonus_payment_type" IS NULL;
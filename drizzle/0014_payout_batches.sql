@@ -0,0 +1,29 @@
+CREATE TYPE "public"."payout_batch_status" AS ENUM('draft', 'approved', 'paid', 'cancelled');--> statement-breakpoint
+CREATE TABLE "payout_batch" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"solicitor_id" integer NOT NULL,
+	"period_start" date NOT NULL,
+	"period_end" date NOT NULL,
+	"status" "payout_batch_status" DEFAULT 'draft' NOT NULL,
+	"total_amount" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"calculation_count" integer DEFAULT 0 NOT NULL,
+	"created_by" integer,
+	"approved_by" integer,
+	"approved_at" timestamp,
+	"paid_by" integer,
+	"paid_at" timestamp,
+	"payment_reference" text,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "bonus_calculation" ADD COLUMN "payout_batch_id" integer;--> statement-breakpoint
+ALTER TABLE "payout_batch" ADD CONSTRAINT "payout_batch_solicitor_id_solicitor_id_fk" FOREIGN KEY ("solicitor_id") REFERENCES "public"."solicitor"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payout_batch" ADD CONSTRAINT "payout_batch_created_by_staff_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."staff_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payout_batch" ADD CONSTRAINT "payout_batch_approved_by_staff_user_id_fk" FOREIGN KEY ("approved_by") REFERENCES "public"."staff_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payout_batch" ADD CONSTRAINT "payout_batch_paid_by_staff_user_id_fk" FOREIGN KEY ("paid_by") REFERENCES "public"."staff_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "payout_batch_solicitor_id_idx" ON "payout_batch" USING btree ("solicitor_id");--> statement-breakpoint
+CREATE INDEX "payout_batch_status_idx" ON "payout_batch" USING btree ("status");--> statement-breakpoint
+ALTER TABLE "bonus_calculation" ADD CONSTRAINT "bonus_calculation_payout_batch_id_payout_batch_id_fk" FOREIGN KEY ("payout_batch_id") REFERENCES "public"."payout_batch"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "bonus_calculation_payout_batch_id_idx" ON "bonus_calculation" USING btree ("payout_batch_id");
\ No newline at end of file
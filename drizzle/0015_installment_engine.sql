@@ -0,0 +1 @@
+ALTER TABLE "payment_plan" ADD COLUMN "cycle_start_date" date;
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TYPE "public"."reminder_channel" AS ENUM('email', 'sms');--> statement-breakpoint
+CREATE TYPE "public"."reminder_kind" AS ENUM('upcoming', 'overdue');--> statement-breakpoint
+CREATE TYPE "public"."reminder_status" AS ENUM('sent', 'failed');--> statement-breakpoint
+CREATE TABLE "reminder_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"payment_plan_id" integer NOT NULL,
+	"installment_schedule_id" integer,
+	"contact_id" integer,
+	"kind" "reminder_kind" NOT NULL,
+	"channel" "reminder_channel" NOT NULL,
+	"recipient" text NOT NULL,
+	"subject" text,
+	"body" text NOT NULL,
+	"transport" text NOT NULL,
+	"status" "reminder_status" NOT NULL,
+	"error" text,
+	"sent_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "payment_plan" ADD COLUMN "reminders_opt_out" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "reminder_log" ADD CONSTRAINT "reminder_log_payment_plan_id_payment_plan_id_fk" FOREIGN KEY ("payment_plan_id") REFERENCES "public"."payment_plan"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reminder_log" ADD CONSTRAINT "reminder_log_installment_schedule_id_installment_schedule_id_fk" FOREIGN KEY ("installment_schedule_id") REFERENCES "public"."installment_schedule"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reminder_log" ADD CONSTRAINT "reminder_log_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "reminder_log_payment_plan_id_idx" ON "reminder_log" USING btree ("payment_plan_id");--> statement-breakpoint
+CREATE INDEX "reminder_log_installment_schedule_id_idx" ON "reminder_log" USING btree ("installment_schedule_id");
\ No newline at end of file
@@ -0,0 +1,43 @@
+CREATE TYPE "public"."receipt_status" AS ENUM('issued', 'void');--> statement-breakpoint
+CREATE TABLE "receipt" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"receipt_number" text NOT NULL,
+	"fiscal_year" integer NOT NULL,
+	"sequence" integer NOT NULL,
+	"payment_id" integer,
+	"contact_id" integer,
+	"receipt_type" "receipt_type" DEFAULT 'receipt' NOT NULL,
+	"status" "receipt_status" DEFAULT 'issued' NOT NULL,
+	"donor_name" text NOT NULL,
+	"donor_address" text,
+	"amount" numeric(10, 2) NOT NULL,
+	"currency" "currency" NOT NULL,
+	"amount_usd" numeric(10, 2),
+	"payment_date" date NOT NULL,
+	"payment_method" "payment_method" NOT NULL,
+	"issued_by" integer,
+	"issued_at" timestamp DEFAULT now() NOT NULL,
+	"voided_by" integer,
+	"voided_at" timestamp,
+	"void_reason" text,
+	"replaces_receipt_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "receipt_sequence" (
+	"fiscal_year" integer PRIMARY KEY NOT NULL,
+	"last_number" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "receipt" ADD CONSTRAINT "receipt_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "receipt" ADD CONSTRAINT "receipt_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "receipt" ADD CONSTRAINT "receipt_issued_by_staff_user_id_fk" FOREIGN KEY ("issued_by") REFERENCES "public"."staff_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "receipt" ADD CONSTRAINT "receipt_voided_by_staff_user_id_fk" FOREIGN KEY ("voided_by") REFERENCES "public"."staff_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "receipt" ADD CONSTRAINT "receipt_replaces_receipt_id_receipt_id_fk" FOREIGN KEY ("replaces_receipt_id") REFERENCES "public"."receipt"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "receipt_number_unique" ON "receipt" USING btree ("receipt_number");--> statement-breakpoint
+CREATE UNIQUE INDEX "receipt_fiscal_year_sequence_unique" ON "receipt" USING btree ("fiscal_year","sequence");--> statement-breakpoint
+CREATE INDEX "receipt_payment_id_idx" ON "receipt" USING btree ("payment_id");--> statement-breakpoint
+CREATE INDEX "receipt_contact_id_idx" ON "receipt" USING btree ("contact_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "receipt_issued_payment_unique" ON "receipt" USING btree ("payment_id") WHERE "receipt"."status" = 'issued';
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "contact" ADD COLUMN "preferred_currency" "currency";
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TYPE "public"."refund_type" AS ENUM('refund', 'reversal', 'chargeback');--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "refund_of_payment_id" integer;--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "refund_type" "refund_type";--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "refund_reason" text;--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "refunded_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "payment" ADD CONSTRAINT "payment_refund_of_payment_id_payment_id_fk" FOREIGN KEY ("refund_of_payment_id") REFERENCES "public"."payment"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "payment_refund_of_payment_id_idx" ON "payment" USING btree ("refund_of_payment_id");
\ No newline at end of file
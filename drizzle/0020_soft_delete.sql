@@ -0,0 +1,10 @@
+ALTER TABLE "contact" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "contact" ADD COLUMN "deleted_by" integer;--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "deleted_by" integer;--> statement-breakpoint
+ALTER TABLE "payment_plan" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "pledge" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "pledge" ADD COLUMN "deleted_by" integer;--> statement-breakpoint
+ALTER TABLE "contact" ADD CONSTRAINT "contact_deleted_by_staff_user_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."staff_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment" ADD CONSTRAINT "payment_deleted_by_staff_user_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."staff_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pledge" ADD CONSTRAINT "pledge_deleted_by_staff_user_id_fk" FOREIGN KEY ("deleted_by") REFERENCES "public"."staff_user"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "contact_merge" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"survivor_id" integer,
+	"merged_contact_id" integer NOT NULL,
+	"merged_contact" text NOT NULL,
+	"moved_records" text NOT NULL,
+	"merged_by" integer,
+	"merged_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "contact_merge" ADD CONSTRAINT "contact_merge_survivor_id_contact_id_fk" FOREIGN KEY ("survivor_id") REFERENCES "public"."contact"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_merge" ADD CONSTRAINT "contact_merge_merged_by_staff_user_id_fk" FOREIGN KEY ("merged_by") REFERENCES "public"."staff_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "contact_merge_survivor_id_idx" ON "contact_merge" USING btree ("survivor_id");--> statement-breakpoint
+CREATE INDEX "contact_merge_merged_contact_id_idx" ON "contact_merge" USING btree ("merged_contact_id");
\ No newline at end of file
@@ -0,0 +1,44 @@
+CREATE TYPE "public"."address_type" AS ENUM('home', 'work', 'mailing', 'other');--> statement-breakpoint
+CREATE TYPE "public"."email_type" AS ENUM('personal', 'work', 'other');--> statement-breakpoint
+CREATE TYPE "public"."phone_type" AS ENUM('mobile', 'home', 'work', 'other');--> statement-breakpoint
+CREATE TABLE "contact_address" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contact_id" integer NOT NULL,
+	"type" "address_type" DEFAULT 'home' NOT NULL,
+	"street" text NOT NULL,
+	"city" text,
+	"state" text,
+	"postal_code" text,
+	"country" text,
+	"is_primary" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "contact_email" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contact_id" integer NOT NULL,
+	"type" "email_type" DEFAULT 'personal' NOT NULL,
+	"email" text NOT NULL,
+	"is_primary" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "contact_phone" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"contact_id" integer NOT NULL,
+	"type" "phone_type" DEFAULT 'mobile' NOT NULL,
+	"number" text NOT NULL,
+	"is_primary" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "contact_address" ADD CONSTRAINT "contact_address_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_email" ADD CONSTRAINT "contact_email_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_phone" ADD CONSTRAINT "contact_phone_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "contact_address_contact_id_idx" ON "contact_address" USING btree ("contact_id");--> statement-breakpoint
+CREATE INDEX "contact_email_contact_id_idx" ON "contact_email" USING btree ("contact_id");--> statement-breakpoint
+CREATE INDEX "contact_email_email_idx" ON "contact_email" USING btree ("email");--> statement-breakpoint
+CREATE INDEX "contact_phone_contact_id_idx" ON "contact_phone" USING btree ("contact_id");
\ No newline at end of file
@@ -0,0 +1,37 @@
+CREATE TYPE "public"."household_role" AS ENUM('head', 'spouse', 'child', 'other');--> statement-breakpoint
+CREATE TABLE "household" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"salutation" text,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "household_member" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"household_id" integer NOT NULL,
+	"contact_id" integer NOT NULL,
+	"role" "household_role" DEFAULT 'other' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "payment_attribution" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"payment_id" integer NOT NULL,
+	"contact_id" integer NOT NULL,
+	"amount_usd" numeric(10, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "household_id" integer;--> statement-breakpoint
+ALTER TABLE "household_member" ADD CONSTRAINT "household_member_household_id_household_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."household"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "household_member" ADD CONSTRAINT "household_member_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_attribution" ADD CONSTRAINT "payment_attribution_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_attribution" ADD CONSTRAINT "payment_attribution_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "household_member_household_id_idx" ON "household_member" USING btree ("household_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "household_member_contact_id_unique" ON "household_member" USING btree ("contact_id");--> statement-breakpoint
+CREATE INDEX "payment_attribution_contact_id_idx" ON "payment_attribution" USING btree ("contact_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "payment_attribution_unique" ON "payment_attribution" USING btree ("payment_id","contact_id");--> statement-breakpoint
+ALTER TABLE "payment" ADD CONSTRAINT "payment_household_id_household_id_fk" FOREIGN KEY ("household_id") REFERENCES "public"."household"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "payment_household_id_idx" ON "payment" USING btree ("household_id");
\ No newline at end of file
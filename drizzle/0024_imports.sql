@@ -0,0 +1,32 @@
+CREATE TYPE "public"."import_kind" AS ENUM('contact', 'pledge', 'payment');--> statement-breakpoint
+CREATE TYPE "public"."import_status" AS ENUM('committed', 'failed', 'rolled_back');--> statement-breakpoint
+CREATE TABLE "import_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"kind" "import_kind" NOT NULL,
+	"file_name" text NOT NULL,
+	"status" "import_status" NOT NULL,
+	"column_map" text NOT NULL,
+	"total_rows" integer NOT NULL,
+	"imported_rows" integer DEFAULT 0 NOT NULL,
+	"skipped_rows" integer DEFAULT 0 NOT NULL,
+	"row_errors" text,
+	"error_message" text,
+	"imported_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"rolled_back_at" timestamp,
+	"rolled_back_by" integer
+);
+--> statement-breakpoint
+CREATE TABLE "import_record" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"import_id" integer NOT NULL,
+	"row_number" integer NOT NULL,
+	"record_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "import_log" ADD CONSTRAINT "import_log_imported_by_staff_user_id_fk" FOREIGN KEY ("imported_by") REFERENCES "public"."staff_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "import_log" ADD CONSTRAINT "import_log_rolled_back_by_staff_user_id_fk" FOREIGN KEY ("rolled_back_by") REFERENCES "public"."staff_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "import_record" ADD CONSTRAINT "import_record_import_id_import_log_id_fk" FOREIGN KEY ("import_id") REFERENCES "public"."import_log"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "import_log_created_at_idx" ON "import_log" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "import_record_import_id_idx" ON "import_record" USING btree ("import_id");
\ No newline at end of file
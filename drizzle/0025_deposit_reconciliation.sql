@@ -0,0 +1,48 @@
+CREATE TYPE "public"."deposit_batch_status" AS ENUM('open', 'closed');--> statement-breakpoint
+CREATE TYPE "public"."deposit_line_status" AS ENUM('unmatched', 'suggested', 'confirmed', 'ignored');--> statement-breakpoint
+CREATE TABLE "deposit_batch" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"source" text,
+	"file_name" text,
+	"deposit_date" date NOT NULL,
+	"currency" "currency" DEFAULT 'USD' NOT NULL,
+	"total_amount" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"line_count" integer DEFAULT 0 NOT NULL,
+	"status" "deposit_batch_status" DEFAULT 'open' NOT NULL,
+	"notes" text,
+	"created_by" integer,
+	"closed_by" integer,
+	"closed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "deposit_line" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"batch_id" integer NOT NULL,
+	"row_number" integer NOT NULL,
+	"reference_number" text,
+	"transaction_date" date,
+	"amount" numeric(10, 2) NOT NULL,
+	"description" text,
+	"status" "deposit_line_status" DEFAULT 'unmatched' NOT NULL,
+	"payment_id" integer,
+	"match_reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "deposit_batch_id" integer;--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "reconciled_at" timestamp;--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "reconciled_by" integer;--> statement-breakpoint
+ALTER TABLE "deposit_batch" ADD CONSTRAINT "deposit_batch_created_by_staff_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."staff_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deposit_batch" ADD CONSTRAINT "deposit_batch_closed_by_staff_user_id_fk" FOREIGN KEY ("closed_by") REFERENCES "public"."staff_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deposit_line" ADD CONSTRAINT "deposit_line_batch_id_deposit_batch_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."deposit_batch"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deposit_line" ADD CONSTRAINT "deposit_line_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "deposit_batch_deposit_date_idx" ON "deposit_batch" USING btree ("deposit_date");--> statement-breakpoint
+CREATE INDEX "deposit_batch_status_idx" ON "deposit_batch" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "deposit_line_batch_id_idx" ON "deposit_line" USING btree ("batch_id");--> statement-breakpoint
+CREATE INDEX "deposit_line_payment_id_idx" ON "deposit_line" USING btree ("payment_id");--> statement-breakpoint
+ALTER TABLE "payment" ADD CONSTRAINT "payment_deposit_batch_id_deposit_batch_id_fk" FOREIGN KEY ("deposit_batch_id") REFERENCES "public"."deposit_batch"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment" ADD CONSTRAINT "payment_reconciled_by_staff_user_id_fk" FOREIGN KEY ("reconciled_by") REFERENCES "public"."staff_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "payment_deposit_batch_id_idx" ON "payment" USING btree ("deposit_batch_id");
\ No newline at end of file
@@ -0,0 +1,4 @@
+CREATE TYPE "public"."deposit_batch_kind" AS ENUM('statement', 'entry');--> statement-breakpoint
+ALTER TABLE "deposit_batch" ADD COLUMN "kind" "deposit_batch_kind" DEFAULT 'statement' NOT NULL;--> statement-breakpoint
+ALTER TABLE "deposit_batch" ADD COLUMN "expected_total" numeric(12, 2);--> statement-breakpoint
+ALTER TABLE "deposit_batch" ADD COLUMN "expected_count" integer;
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TYPE "public"."payment_processor" AS ENUM('stripe', 'paypal');--> statement-breakpoint
+CREATE TYPE "public"."processor_event_status" AS ENUM('received', 'processed', 'ignored', 'failed');--> statement-breakpoint
+CREATE TABLE "processor_event" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"processor" "payment_processor" NOT NULL,
+	"event_id" text NOT NULL,
+	"event_type" text NOT NULL,
+	"payload" text NOT NULL,
+	"status" "processor_event_status" DEFAULT 'received' NOT NULL,
+	"result" text,
+	"error" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"payment_id" integer,
+	"contact_id" integer,
+	"received_at" timestamp DEFAULT now() NOT NULL,
+	"processed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "processor_event" ADD CONSTRAINT "processor_event_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "processor_event" ADD CONSTRAINT "processor_event_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "processor_event_event_id_unique" ON "processor_event" USING btree ("processor","event_id");--> statement-breakpoint
+CREATE INDEX "processor_event_status_idx" ON "processor_event" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "processor_event_payment_id_idx" ON "processor_event" USING btree ("payment_id");
\ No newline at end of file
@@ -0,0 +1,34 @@
+CREATE TYPE "public"."webhook_delivery_status" AS ENUM('received', 'processed', 'duplicate', 'failed');--> statement-breakpoint
+CREATE TABLE "webhook_delivery" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"source_id" integer NOT NULL,
+	"payload" text NOT NULL,
+	"status" "webhook_delivery_status" DEFAULT 'received' NOT NULL,
+	"result" text,
+	"error" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"record_id" integer,
+	"contact_id" integer,
+	"received_at" timestamp DEFAULT now() NOT NULL,
+	"processed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "webhook_source" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"slug" text NOT NULL,
+	"target" "import_kind" NOT NULL,
+	"secret_hash" text NOT NULL,
+	"field_map" text NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "webhook_delivery" ADD CONSTRAINT "webhook_delivery_source_id_webhook_source_id_fk" FOREIGN KEY ("source_id") REFERENCES "public"."webhook_source"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "webhook_delivery" ADD CONSTRAINT "webhook_delivery_contact_id_contact_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contact"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "webhook_source" ADD CONSTRAINT "webhook_source_created_by_staff_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."staff_user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "webhook_delivery_source_id_idx" ON "webhook_delivery" USING btree ("source_id");--> statement-breakpoint
+CREATE INDEX "webhook_delivery_status_idx" ON "webhook_delivery" USING btree ("status");--> statement-breakpoint
+CREATE UNIQUE INDEX "webhook_source_slug_unique" ON "webhook_source" USING btree ("slug");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "payment" ADD COLUMN "idempotency_request_hash" text;
\ No newline at end of file
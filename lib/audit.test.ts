@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { db } from "@/lib/db";
+import {
+  auditLog,
+  contact,
+  payment,
+  paymentAllocations,
+  pledge,
+  staffUser,
+} from "@/lib/db/schema";
+import type { SessionUser } from "@/lib/auth/guard";
+import { getPaymentContactId, recordAudit } from "./audit";
+
+const user: SessionUser = {
+  id: 1,
+  email: "books@example.org",
+  name: "Bookkeeper",
+  role: "bookkeeper",
+  contactId: null,
+  solicitorId: null,
+};
+
+const entries = () =>
+  db
+    .select({
+      tableName: auditLog.tableName,
+      recordId: auditLog.recordId,
+      action: auditLog.action,
+      fieldName: auditLog.fieldName,
+      oldValue: auditLog.oldValue,
+      newValue: auditLog.newValue,
+      staffUserId: auditLog.staffUserId,
+      contactId: auditLog.contactId,
+    })
+    .from(auditLog)
+    .orderBy(auditLog.id);
+
+beforeEach(async () => {
+  await db.execute(
+    sql`TRUNCATE ${auditLog}, ${staffUser}, ${contact} RESTART IDENTITY CASCADE`
+  );
+  await db.insert(staffUser).values({
+    email: user.email,
+    name: user.name,
+    passwordHash: "x",
+    role: user.role,
+  });
+});
+
+describe("recordAudit", () => {
+  it("snapshots a created record without its timestamps", async () => {
+    await recordAudit(user, {
+      table: pledge,
+      recordId: 5,
+      action: "create",
+      after: {
+        id: 5,
+        pledgeDate: "2025-01-01",
+        deletedAt: new Date("2025-02-01T00:00:00Z"),
+        updatedAt: new Date(),
+      },
+      contactId: 3,
+    });
+
+    const [entry] = await entries();
+    expect(entry).toMatchObject({
+      tableName: "pledge",
+      recordId: 5,
+      action: "create",
+      fieldName: null,
+      oldValue: null,
+      staffUserId: user.id,
+      contactId: 3,
+    });
+    expect(JSON.parse(entry.newValue!)).toEqual({
+      id: "5",
+      pledgeDate: "2025-01-01",
+      deletedAt: "2025-02-01T00:00:00.000Z",
+    });
+  });
+
+  it("records one row per changed field of an update", async () => {
+    await recordAudit(null, {
+      table: payment,
+      recordId: 9,
+      action: "update",
+      before: { amount: "100.00", notes: "Check", status: "pending", updatedAt: 1 },
+      // `extra` was not read before, so there is nothing to compare it with
+      after: {
+        amount: "100",
+        notes: null,
+        status: "completed",
+        updatedAt: 2,
+        extra: 1,
+      },
+      contactId: null,
+    });
+
+    expect(
+      (await entries()).map(({ fieldName, oldValue, newValue, staffUserId }) => [
+        fieldName,
+        oldValue,
+        newValue,
+        staffUserId,
+      ])
+    ).toEqual([
+      ["notes", "Check", null, null],
+      ["status", "pending", "completed", null],
+    ]);
+  });
+
+  it("snapshots a deleted record", async () => {
+    await recordAudit(user, {
+      table: contact,
+      recordId: 3,
+      action: "delete",
+      before: { id: 3, firstName: "Dana" },
+      contactId: 3,
+    });
+    const [entry] = await entries();
+    expect(entry).toMatchObject({ action: "delete", newValue: null });
+    expect(JSON.parse(entry.oldValue!)).toEqual({ id: "3", firstName: "Dana" });
+  });
+
+  it("never fails the change it records", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    await expect(
+      recordAudit(user, {
+        table: pledge,
+        // Out of the integer range
+        recordId: 2 ** 40,
+        action: "create",
+        after: { id: 1 },
+        contactId: null,
+      })
+    ).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
+
+describe("getPaymentContactId", () => {
+  it("falls back to the first allocation of a split payment", async () => {
+    const [donor] = await db
+      .insert(contact)
+      .values({ firstName: "Dana", lastName: "Donor" })
+      .returning();
+    const [owned] = await db
+      .insert(pledge)
+      .values({
+        contactId: donor.id,
+        pledgeDate: "2025-01-01",
+        originalAmount: "100.00",
+        balance: "100.00",
+      })
+      .returning();
+    const [split] = await db
+      .insert(payment)
+      .values({
+        amount: "50.00",
+        currency: "USD",
+        paymentDate: "2025-02-01",
+        paymentMethod: "check",
+      })
+      .returning();
+    await db.insert(paymentAllocations).values({
+      paymentId: split.id,
+      pledgeId: owned.id,
+      allocatedAmount: "50.00",
+      currency: "USD",
+    });
+
+    expect(await getPaymentContactId(split.id)).toBe(donor.id);
+    expect(await getPaymentContactId(404)).toBeNull();
+  });
+});
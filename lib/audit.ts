@@ -0,0 +1,172 @@
+import { headers } from "next/headers";
+import { eq, getTableName, type Table } from "drizzle-orm";
+import { db, type DbExecutor } from "@/lib/db";
+import {
+  auditLog,
+  NewAuditLog,
+  payment,
+  paymentAllocations,
+  paymentPlan,
+  pledge,
+  solicitor,
+} from "@/lib/db/schema";
+import type { SessionUser } from "@/lib/auth/guard";
+
+export type AuditAction = "create" | "update" | "delete";
+
+type AuditRecord = Record<string, unknown>;
+
+interface AuditEntry {
+  table: Table;
+  recordId: number;
+  action: AuditAction;
+  before?: AuditRecord | null;
+  after?: AuditRecord | null;
+  contactId: number | null;
+}
+
+// Bookkeeping columns that change on every write and would only add noise.
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt"]);
+
+function serialize(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function snapshot(record: AuditRecord): string {
+  const values: Record<string, string | null> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    values[key] = serialize(value);
+  }
+  return JSON.stringify(values);
+}
+
+// Numeric columns come back from Postgres as "100.00" while callers often
+// write "100", so compare numerically where both sides are numbers.
+function isSameValue(a: string | null, b: string | null): boolean {
+  if (a === b) return true;
+  if (a === null || b === null) return false;
+  const numA = Number(a);
+  const numB = Number(b);
+  return a.trim() !== "" && b.trim() !== "" && !isNaN(numA) && numA === numB;
+}
+
+async function requestMetadata() {
+  try {
+    const headerList = await headers();
+    const forwardedFor = headerList.get("x-forwarded-for");
+    return {
+      ipAddress:
+        forwardedFor?.split(",")[0].trim() || headerList.get("x-real-ip"),
+      userAgent: headerList.get("user-agent"),
+    };
+  } catch {
+    // Called outside a request scope (e.g. from a script).
+    return { ipAddress: null, userAgent: null };
+  }
+}
+
+// Writes audit rows for a single create, update or delete. Creates and deletes
+// store a snapshot of the whole record; updates store one row per changed
+// field. Auditing is best-effort: a failure is logged but never fails the
+// request that made the change.
+export async function recordAudit(
+  user: SessionUser | null,
+  entry: AuditEntry
+): Promise<void> {
+  try {
+    const { ipAddress, userAgent } = await requestMetadata();
+    const base: Omit<NewAuditLog, "fieldName" | "oldValue" | "newValue"> = {
+      tableName: getTableName(entry.table),
+      recordId: entry.recordId,
+      action: entry.action,
+      changedBy: user?.contactId ?? null,
+      staffUserId: user?.id ?? null,
+      contactId: entry.contactId,
+      ipAddress: ipAddress ?? null,
+      userAgent: userAgent ?? null,
+    };
+
+    const rows: NewAuditLog[] = [];
+
+    if (entry.action === "create" && entry.after) {
+      rows.push({ ...base, newValue: snapshot(entry.after) });
+    } else if (entry.action === "delete" && entry.before) {
+      rows.push({ ...base, oldValue: snapshot(entry.before) });
+    } else if (entry.action === "update" && entry.before && entry.after) {
+      for (const [field, value] of Object.entries(entry.after)) {
+        if (IGNORED_FIELDS.has(field) || !(field in entry.before)) continue;
+        const oldValue = serialize(entry.before[field]);
+        const newValue = serialize(value);
+        if (isSameValue(oldValue, newValue)) continue;
+        rows.push({ ...base, fieldName: field, oldValue, newValue });
+      }
+    }
+
+    if (rows.length > 0) {
+      await db.insert(auditLog).values(rows);
+    }
+  } catch (error) {
+    console.error("Error writing audit log:", error);
+  }
+}
+
+export async function getPledgeContactId(
+  pledgeId: number
+): Promise<number | null> {
+  const [row] = await db
+    .select({ contactId: pledge.contactId })
+    .from(pledge)
+    .where(eq(pledge.id, pledgeId))
+    .limit(1);
+  return row?.contactId ?? null;
+}
+
+// Split payments have no pledgeId of their own, so fall back to the pledge of
+// their first allocation.
+export async function getPaymentContactId(
+  paymentId: number,
+  executor: DbExecutor = db
+): Promise<number | null> {
+  const [direct] = await executor
+    .select({ contactId: pledge.contactId })
+    .from(payment)
+    .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
+    .where(eq(payment.id, paymentId))
+    .limit(1);
+  if (direct) return direct.contactId;
+
+  const [allocated] = await executor
+    .select({ contactId: pledge.contactId })
+    .from(paymentAllocations)
+    .innerJoin(pledge, eq(paymentAllocations.pledgeId, pledge.id))
+    .where(eq(paymentAllocations.paymentId, paymentId))
+    .limit(1);
+  return allocated?.contactId ?? null;
+}
+
+export async function getPaymentPlanContactId(
+  paymentPlanId: number
+): Promise<number | null> {
+  const [row] = await db
+    .select({ contactId: pledge.contactId })
+    .from(paymentPlan)
+    .innerJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+    .where(eq(paymentPlan.id, paymentPlanId))
+    .limit(1);
+  return row?.contactId ?? null;
+}
+
+export async function getSolicitorContactId(
+  solicitorId: number
+): Promise<number | null> {
+  const [row] = await db
+    .select({ contactId: solicitor.contactId })
+    .from(solicitor)
+    .where(eq(solicitor.id, solicitorId))
+    .limit(1);
+  return row?.contactId ?? null;
+}
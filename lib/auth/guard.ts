@@ -0,0 +1,173 @@
+import { cookies, headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { eq, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { db } from "@/lib/db";
+import {
+  payment,
+  paymentAllocations,
+  pledge,
+  solicitor,
+  staffUser,
+} from "@/lib/db/schema";
+import { SESSION_COOKIE, verifySession } from "./session";
+import { hasRole, type StaffRole } from "./roles";
+
+export interface SessionUser {
+  id: number;
+  email: string;
+  name: string;
+  role: StaffRole;
+  contactId: number | null;
+  solicitorId: number | null;
+}
+
+type GuardResult =
+  | { user: SessionUser; response?: undefined }
+  | { user?: undefined; response: NextResponse };
+
+// Resolves the signed-in staff user from the session cookie. The user is
+// re-read on every call so deactivations and role changes apply immediately.
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const cookieStore = await cookies();
+  const session = await verifySession(cookieStore.get(SESSION_COOKIE)?.value);
+  if (!session) return null;
+
+  const [user] = await db
+    .select({
+      id: staffUser.id,
+      email: staffUser.email,
+      name: staffUser.name,
+      role: staffUser.role,
+      contactId: staffUser.contactId,
+      isActive: staffUser.isActive,
+      solicitorId: solicitor.id,
+    })
+    .from(staffUser)
+    .leftJoin(solicitor, eq(solicitor.contactId, staffUser.contactId))
+    .where(eq(staffUser.id, session.sub))
+    .limit(1);
+
+  if (!user || !user.isActive) return null;
+
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    contactId: user.contactId,
+    solicitorId: user.solicitorId,
+  };
+}
+
+export async function requireRole(
+  roles: readonly StaffRole[]
+): Promise<GuardResult> {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return {
+      response: NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (!hasRole(user.role, roles)) {
+    return {
+      response: NextResponse.json(
+        { error: "You do not have permission to perform this action" },
+        { status: 403 }
+      ),
+    };
+  }
+
+  if (user.role === "solicitor" && !user.solicitorId) {
+    return {
+      response: NextResponse.json(
+        { error: "Solicitor account is not linked to a solicitor record" },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { user };
+}
+
+// Solicitors may only see payments assigned to them. Returns the solicitor id
+// a query must be restricted to, or null when the user can see everything.
+export function solicitorScope(user: SessionUser): number | null {
+  return user.role === "solicitor" ? user.solicitorId : null;
+}
+
+// A solicitor's donors are the contacts with a pledge that has a payment
+// assigned to the solicitor, directly or through a split payment's
+// allocation. Restricts `contactId` (a column or expression holding a contact
+// id) to them.
+export function solicitorDonorCondition(
+  solicitorId: number,
+  contactId: AnyPgColumn | SQL
+): SQL {
+  return sql`${contactId} IN (
+    SELECT ${pledge.contactId} FROM ${pledge}
+    WHERE ${pledge.id} IN (
+      SELECT ${payment.pledgeId} FROM ${payment}
+      WHERE ${payment.solicitorId} = ${solicitorId} AND ${payment.deletedAt} IS NULL
+      UNION
+      SELECT ${paymentAllocations.pledgeId} FROM ${paymentAllocations}
+      INNER JOIN ${payment} ON ${payment.id} = ${paymentAllocations.paymentId}
+      WHERE ${payment.solicitorId} = ${solicitorId} AND ${payment.deletedAt} IS NULL
+    )
+  )`;
+}
+
+// Whether a contact is one of the solicitor's donors, for routes that show a
+// single contact's records
+export async function isSolicitorDonor(
+  solicitorId: number,
+  contactId: number
+): Promise<boolean> {
+  const [row] = await db
+    .select({ id: pledge.contactId })
+    .from(pledge)
+    .where(solicitorDonorCondition(solicitorId, sql`${contactId}`))
+    .limit(1);
+  return !!row;
+}
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// Machine-to-machine routes (Zapier, inbound webhooks) authenticate with a
+// shared key sent as "Authorization: Bearer <key>" or "x-api-key".
+export async function readApiKey(): Promise<string | null> {
+  const headerStore = await headers();
+  const authorization = headerStore.get("authorization");
+  return authorization?.startsWith("Bearer ")
+    ? authorization.slice("Bearer ".length)
+    : headerStore.get("x-api-key");
+}
+
+// The key must match the environment variable `envVar`
+export async function requireApiKey(envVar: string): Promise<NextResponse | null> {
+  const expected = process.env[envVar];
+  if (!expected) {
+    console.error(`${envVar} is not set in the environment variables`);
+    return NextResponse.json(
+      { error: "API access is not configured" },
+      { status: 503 }
+    );
+  }
+
+  const provided = await readApiKey();
+  if (!provided || !safeEqual(provided, expected)) {
+    return NextResponse.json({ error: "Invalid API key" }, { status: 401 });
+  }
+
+  return null;
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { hashPassword, verifyPassword } from "./password";
+
+describe("passwords", () => {
+  it("verify against their salted hash", async () => {
+    const stored = await hashPassword("correct horse");
+    expect(stored).not.toContain("correct horse");
+    expect(await verifyPassword("correct horse", stored)).toBe(true);
+    expect(await verifyPassword("wrong horse", stored)).toBe(false);
+  });
+
+  it("hash differently each time", async () => {
+    expect(await hashPassword("same")).not.toBe(await hashPassword("same"));
+  });
+
+  it("do not verify against a malformed hash", async () => {
+    expect(await verifyPassword("anything", "")).toBe(false);
+    expect(await verifyPassword("anything", "salt:")).toBe(false);
+  });
+});
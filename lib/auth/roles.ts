@@ -0,0 +1,31 @@
+export const staffRoles = [
+  "admin",
+  "bookkeeper",
+  "solicitor",
+  "read_only",
+] as const;
+
+export type StaffRole = (typeof staffRoles)[number];
+
+// Role groups used by the route guards
+export const ALL_ROLES: readonly StaffRole[] = staffRoles;
+export const FINANCE_ROLES: readonly StaffRole[] = ["admin", "bookkeeper"];
+export const ADMIN_ROLES: readonly StaffRole[] = ["admin"];
+
+// Roles that may read records other than their own solicitor payments
+export const STAFF_READ_ROLES: readonly StaffRole[] = [
+  "admin",
+  "bookkeeper",
+  "read_only",
+];
+
+export const roleLabels: Record<StaffRole, string> = {
+  admin: "Admin",
+  bookkeeper: "Bookkeeper",
+  solicitor: "Solicitor",
+  read_only: "Read-only",
+};
+
+export function hasRole(role: StaffRole, roles: readonly StaffRole[]) {
+  return roles.includes(role);
+}
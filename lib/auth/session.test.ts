@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { signSession, verifySession } from "./session";
+
+beforeEach(() => {
+  vi.stubEnv("AUTH_SECRET", "test-secret");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe("session tokens", () => {
+  it("verify what they sign", async () => {
+    const token = await signSession({ sub: 7, role: "bookkeeper" });
+    expect(await verifySession(token)).toMatchObject({ sub: 7, role: "bookkeeper" });
+  });
+
+  it("are refused once changed", async () => {
+    const token = await signSession({ sub: 7, role: "read_only" });
+    const [, signature] = token.split(".");
+    const forged = Buffer.from(
+      JSON.stringify({ sub: 7, role: "admin", exp: 9999999999 })
+    ).toString("base64url");
+    expect(await verifySession(`${forged}.${signature}`)).toBeNull();
+    expect(await verifySession(token.slice(0, -2))).toBeNull();
+    expect(await verifySession("garbage")).toBeNull();
+    expect(await verifySession(null)).toBeNull();
+  });
+
+  it("are refused under another secret", async () => {
+    const token = await signSession({ sub: 7, role: "admin" });
+    vi.stubEnv("AUTH_SECRET", "rotated");
+    expect(await verifySession(token)).toBeNull();
+  });
+
+  it("expire", async () => {
+    vi.useFakeTimers();
+    const token = await signSession({ sub: 7, role: "admin" }, 60);
+    vi.advanceTimersByTime(61_000);
+    expect(await verifySession(token)).toBeNull();
+  });
+});
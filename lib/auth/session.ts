@@ -0,0 +1,92 @@
+// Signed session tokens. Uses Web Crypto only so the same code runs in the
+// edge middleware and in Node route handlers.
+import type { StaffRole } from "./roles";
+
+export const SESSION_COOKIE = "gs_session";
+export const SESSION_MAX_AGE = 60 * 60 * 12; // 12 hours
+
+export interface SessionPayload {
+  sub: number;
+  role: StaffRole;
+  exp: number;
+}
+
+const encoder = new TextEncoder();
+
+function getSecret(): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_SECRET is not set in the environment variables");
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function getKey() {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(getSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+export async function signSession(
+  payload: Omit<SessionPayload, "exp">,
+  maxAge: number = SESSION_MAX_AGE
+): Promise<string> {
+  const body: SessionPayload = {
+    ...payload,
+    exp: Math.floor(Date.now() / 1000) + maxAge,
+  };
+  const encodedBody = toBase64Url(encoder.encode(JSON.stringify(body)));
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await getKey(),
+    encoder.encode(encodedBody)
+  );
+  return `${encodedBody}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+export async function verifySession(
+  token: string | undefined | null
+): Promise<SessionPayload | null> {
+  if (!token) return null;
+
+  const [encodedBody, encodedSignature] = token.split(".");
+  if (!encodedBody || !encodedSignature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await getKey(),
+      fromBase64Url(encodedSignature),
+      encoder.encode(encodedBody)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(
+      new TextDecoder().decode(fromBase64Url(encodedBody))
+    ) as SessionPayload;
+
+    if (!payload.sub || payload.exp < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
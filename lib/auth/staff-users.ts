@@ -0,0 +1,14 @@
+import { staffUser } from "@/lib/db/schema";
+
+// Columns safe to return to clients (never the password hash)
+export const staffUserColumns = {
+  id: staffUser.id,
+  email: staffUser.email,
+  name: staffUser.name,
+  role: staffUser.role,
+  contactId: staffUser.contactId,
+  isActive: staffUser.isActive,
+  lastLoginAt: staffUser.lastLoginAt,
+  createdAt: staffUser.createdAt,
+  updatedAt: staffUser.updatedAt,
+};
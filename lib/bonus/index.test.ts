@@ -0,0 +1,276 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq, sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { db } from "@/lib/db";
+import {
+  bonusCalculation,
+  bonusRule,
+  bonusRuleTier,
+  category,
+  contact,
+  payment,
+  pledge,
+  solicitor,
+} from "@/lib/db/schema";
+import {
+  BonusAlreadyPaidError,
+  calculateBonus,
+  categoryPaymentType,
+  findBonusRule,
+  syncPaymentBonus,
+  type BonusContext,
+} from ".";
+
+let solicitorId: number;
+let pledgeId: number;
+
+async function addRule(values: Partial<typeof bonusRule.$inferInsert>) {
+  const [rule] = await db
+    .insert(bonusRule)
+    .values({
+      solicitorId,
+      ruleName: "Rule",
+      bonusPercentage: "0",
+      effectiveFrom: "2025-01-01",
+      ...values,
+    })
+    .returning();
+  return rule;
+}
+
+// A completed USD payment credited to the solicitor, with its bonus synced
+async function pay(paymentDate: string, amount: number) {
+  const [created] = await db
+    .insert(payment)
+    .values({
+      pledgeId,
+      solicitorId,
+      amount: amount.toFixed(2),
+      amountUsd: amount.toFixed(2),
+      currency: "USD",
+      paymentDate,
+      paymentMethod: "check",
+    })
+    .returning();
+  await syncPaymentBonus(created.id);
+  return created.id;
+}
+
+async function bonusOf(paymentId: number) {
+  const [row] = await db
+    .select({ bonusAmount: payment.bonusAmount })
+    .from(payment)
+    .where(eq(payment.id, paymentId));
+  return row.bonusAmount;
+}
+
+beforeEach(async () => {
+  await db.execute(
+    sql`TRUNCATE ${contact}, ${solicitor}, ${pledge}, ${payment}, ${bonusRule},
+      ${category} RESTART IDENTITY CASCADE`
+  );
+  const [donor] = await db
+    .insert(contact)
+    .values({ firstName: "Dana", lastName: "Donor" })
+    .returning();
+  const [person] = await db
+    .insert(contact)
+    .values({ firstName: "Sam", lastName: "Solicitor" })
+    .returning();
+  [{ id: solicitorId }] = await db
+    .insert(solicitor)
+    .values({ contactId: person.id, commissionRate: "2.00" })
+    .returning();
+  [{ id: pledgeId }] = await db
+    .insert(pledge)
+    .values({
+      contactId: donor.id,
+      pledgeDate: "2025-01-01",
+      originalAmount: "100000.00",
+      balance: "100000.00",
+    })
+    .returning();
+});
+
+describe("calculateBonus", () => {
+  it("falls back to the solicitor's commission rate without a rule", async () => {
+    const result = await calculateBonus({
+      solicitorId,
+      amountUsd: 500,
+      paymentDate: "2025-02-01",
+      paymentType: null,
+      categoryId: null,
+      campaignCode: null,
+      paymentMethod: "check",
+    });
+    expect(result.bonusRuleId).toBeNull();
+    expect(result.bonusAmount).toBe("10.00");
+  });
+});
+
+describe("findBonusRule", () => {
+  const context = (values: Partial<BonusContext> = {}): BonusContext => ({
+    solicitorId,
+    amountUsd: 500,
+    paymentDate: "2025-02-01",
+    paymentType: null,
+    categoryId: null,
+    campaignCode: null,
+    paymentMethod: "check",
+    ...values,
+  });
+  const ruleName = async (values: Partial<BonusContext> = {}) =>
+    (await findBonusRule(context(values)))?.ruleName ?? null;
+
+  it("matches only the categories, campaigns and methods a rule targets", async () => {
+    await addRule({ ruleName: "Building fund", categoryIds: [7], priority: 3 });
+    await addRule({ ruleName: "Dinner", campaignCodes: ["DINNER25"], priority: 2 });
+    await addRule({ ruleName: "Wires", paymentMethods: ["wire"], priority: 1 });
+    await addRule({ ruleName: "Everything else" });
+
+    expect(await ruleName({ categoryId: 7 })).toBe("Building fund");
+    expect(await ruleName({ campaignCode: "DINNER25" })).toBe("Dinner");
+    expect(await ruleName({ paymentMethod: "wire" })).toBe("Wires");
+    expect(await ruleName({ categoryId: 8, campaignCode: "GALA" })).toBe(
+      "Everything else"
+    );
+  });
+
+  it("treats an empty target list like no target", async () => {
+    await addRule({ ruleName: "Open", categoryIds: [], paymentMethods: [] });
+    expect(await ruleName({ categoryId: 3, paymentMethod: "cash" })).toBe("Open");
+  });
+
+  it("keeps a typed rule to payments of that type", async () => {
+    await addRule({ ruleName: "Tuition", paymentType: "tuition" });
+    expect(await ruleName({ paymentType: "tuition" })).toBe("Tuition");
+    expect(await ruleName({ paymentType: "donation" })).toBeNull();
+    // An unmapped category only matches rules for both types
+    expect(await ruleName()).toBeNull();
+  });
+});
+
+describe("categoryPaymentType", () => {
+  it("maps only tuition and donation categories", () => {
+    expect(categoryPaymentType("donation")).toBe("donation");
+    expect(categoryPaymentType("tuition")).toBe("tuition");
+    expect(categoryPaymentType("both")).toBeNull();
+    expect(categoryPaymentType(null)).toBeNull();
+  });
+});
+
+describe("syncPaymentBonus", () => {
+  it("targets rules by the pledge's category and campaign", async () => {
+    const [building] = await db
+      .insert(category)
+      .values({ name: "Building fund", bonusPaymentType: "donation" })
+      .returning();
+    await db
+      .update(pledge)
+      .set({ categoryId: building.id, campaignCode: "DINNER25" })
+      .where(eq(pledge.id, pledgeId));
+    await addRule({
+      bonusPercentage: "10.00",
+      paymentType: "donation",
+      categoryIds: [building.id],
+      campaignCodes: ["DINNER25"],
+    });
+    await addRule({ bonusPercentage: "50.00", paymentType: "tuition", priority: 5 });
+
+    expect(await bonusOf(await pay("2025-03-01", 1000))).toBe("100.00");
+  });
+
+  it("uses up the yearly cap in date order", async () => {
+    await addRule({ bonusPercentage: "10.00", yearlyCap: "150.00" });
+    const march = await pay("2025-03-01", 1000);
+    const may = await pay("2025-05-01", 1000);
+    expect([await bonusOf(march), await bonusOf(may)]).toEqual(["100.00", "50.00"]);
+
+    // A backdated payment takes the cap first; the later ones give it up
+    const january = await pay("2025-01-15", 1000);
+    expect(await bonusOf(january)).toBe("100.00");
+    expect(await bonusOf(march)).toBe("50.00");
+    expect(await bonusOf(may)).toBe("0.00");
+  });
+
+  it("moves later payments up a tier when an earlier one is added", async () => {
+    const rule = await addRule({ calculationType: "tiered" });
+    await db.insert(bonusRuleTier).values([
+      { bonusRuleId: rule.id, minVolume: "0", bonusPercentage: "5.00" },
+      { bonusRuleId: rule.id, minVolume: "1000", bonusPercentage: "10.00" },
+    ]);
+    const june = await pay("2025-06-01", 1000);
+    expect(await bonusOf(june)).toBe("50.00");
+
+    await pay("2025-02-01", 1000);
+    expect(await bonusOf(june)).toBe("100.00");
+  });
+
+  it("returns the later bonuses it changed", async () => {
+    await addRule({ bonusPercentage: "10.00", yearlyCap: "100.00" });
+    const march = await pay("2025-03-01", 1000);
+    const [january] = await db
+      .insert(payment)
+      .values({
+        pledgeId,
+        solicitorId,
+        amount: "1000.00",
+        amountUsd: "1000.00",
+        currency: "USD",
+        paymentDate: "2025-01-15",
+        paymentMethod: "check",
+      })
+      .returning();
+
+    const sync = await syncPaymentBonus(january.id);
+    expect(sync?.later?.map((later) => later.payment.id)).toEqual([march]);
+  });
+
+  it("leaves a later bonus that has been paid out", async () => {
+    await addRule({ bonusPercentage: "10.00", yearlyCap: "100.00" });
+    const march = await pay("2025-03-01", 1000);
+    await db
+      .update(bonusCalculation)
+      .set({ isPaid: true })
+      .where(eq(bonusCalculation.paymentId, march));
+
+    await pay("2025-01-15", 1000);
+    expect(await bonusOf(march)).toBe("100.00");
+  });
+
+  it("refuses to change a paid-out bonus", async () => {
+    await addRule({ bonusPercentage: "10.00" });
+    const march = await pay("2025-03-01", 1000);
+    await db
+      .update(bonusCalculation)
+      .set({ isPaid: true })
+      .where(eq(bonusCalculation.paymentId, march));
+    await db
+      .update(payment)
+      .set({ amountUsd: "2000.00" })
+      .where(eq(payment.id, march));
+
+    await expect(syncPaymentBonus(march)).rejects.toBeInstanceOf(
+      BonusAlreadyPaidError
+    );
+  });
+
+  it("drops the bonus of a payment moved to the trash", async () => {
+    await addRule({ bonusPercentage: "10.00" });
+    const march = await pay("2025-03-01", 1000);
+    await db
+      .update(payment)
+      .set({ deletedAt: new Date() })
+      .where(eq(payment.id, march));
+
+    await syncPaymentBonus(march);
+    expect(await bonusOf(march)).toBeNull();
+    const calculations = await db
+      .select()
+      .from(bonusCalculation)
+      .where(eq(bonusCalculation.paymentId, march));
+    expect(calculations).toEqual([]);
+  });
+});
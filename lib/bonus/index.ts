@@ -0,0 +1,790 @@
+import { and, desc, eq, gte, inArray, isNull, lte, ne, sql } from "drizzle-orm";
+import { db, type DbExecutor } from "@/lib/db";
+import {
+  bonusCalculation,
+  bonusRule,
+  bonusRuleTier,
+  category,
+  payment,
+  paymentAllocations,
+  payoutBatch,
+  pledge,
+  solicitor,
+  type BonusCalculation,
+  type BonusRule,
+  type BonusRuleTier,
+  type Payment,
+} from "@/lib/db/schema";
+import { moneyString, roundMoney, toNumber } from "@/lib/currency";
+import {
+  getPaymentContactId,
+  getSolicitorContactId,
+  recordAudit,
+} from "@/lib/audit";
+import type { SessionUser } from "@/lib/auth/guard";
+import {
+  applyRule,
+  effectivePercentage,
+  type BonusBreakdown,
+  type RuleTerms,
+  type RuleTier,
+} from "./rules";
+import { refreshPayoutBatchTotals } from "./payouts";
+
+export * from "./rules";
+export * from "./payouts";
+
+// Only completed payments earn a bonus; a refunded, failed or cancelled
+// payment loses the bonus it had.
+const BONUS_STATUS = "completed";
+
+export class BonusAlreadyPaidError extends Error {
+  constructor(paymentId: number) {
+    super(
+      `The solicitor bonus for payment ${paymentId} has already been paid or approved for payout`
+    );
+    this.name = "BonusAlreadyPaidError";
+  }
+}
+
+export type BonusPaymentType = "tuition" | "donation";
+
+export interface BonusContext {
+  solicitorId: number;
+  amountUsd: number;
+  paymentDate: string;
+  // From the pledge's category; null when the payment has no pledge or its
+  // category is not mapped, so only "both" rules match.
+  paymentType: BonusPaymentType | null;
+  categoryId: number | null;
+  campaignCode: string | null;
+  paymentMethod: Payment["paymentMethod"] | null;
+  // The payment being calculated, left out of the yearly volume and cap
+  // totals. Omitted for previews of a hypothetical payment.
+  paymentId?: number;
+}
+
+export interface BonusResult {
+  bonusRuleId: number | null;
+  bonusPercentage: string | null;
+  bonusAmount: string | null;
+  ruleName: string | null;
+  breakdown: BonusBreakdown | null;
+}
+
+type PaymentBonusFields = Pick<
+  Payment,
+  "solicitorId" | "bonusRuleId" | "bonusPercentage" | "bonusAmount"
+>;
+
+export interface BonusSync {
+  previous: PaymentBonusFields;
+  payment: Payment;
+  previousCalculation: BonusCalculation | null;
+  calculation: BonusCalculation | null;
+  // Bonuses of the solicitor's later payments that year that changed with
+  // this one, as their tier volume and cap headroom depend on it
+  later?: BonusSync[];
+}
+
+// A payment's solicitor and date before an edit, when they may have changed
+export type BonusPosition = Pick<Payment, "solicitorId" | "paymentDate">;
+
+const NO_BONUS: BonusResult = {
+  bonusRuleId: null,
+  bonusPercentage: null,
+  bonusAmount: null,
+  ruleName: null,
+  breakdown: null,
+};
+
+// The highest-priority active rule of the solicitor that covers the payment's
+// date, type, amount, category, campaign code and payment method.
+export async function findBonusRule(
+  context: BonusContext,
+  executor: DbExecutor = db
+): Promise<BonusRule | null> {
+  const {
+    solicitorId,
+    amountUsd,
+    paymentDate,
+    paymentType,
+    categoryId,
+    campaignCode,
+    paymentMethod,
+  } = context;
+
+  const [rule] = await executor
+    .select()
+    .from(bonusRule)
+    .where(
+      and(
+        eq(bonusRule.solicitorId, solicitorId),
+        eq(bonusRule.isActive, true),
+        lte(bonusRule.effectiveFrom, paymentDate),
+        sql`(${bonusRule.effectiveTo} IS NULL OR ${bonusRule.effectiveTo} >= ${paymentDate})`,
+        sql`(${bonusRule.paymentType} = 'both' OR ${bonusRule.paymentType}::text = ${paymentType})`,
+        sql`(${bonusRule.categoryIds} IS NULL OR cardinality(${bonusRule.categoryIds}) = 0 OR
+               ${categoryId}::integer = ANY(${bonusRule.categoryIds}))`,
+        sql`(${bonusRule.campaignCodes} IS NULL OR cardinality(${bonusRule.campaignCodes}) = 0 OR
+               ${campaignCode}::text = ANY(${bonusRule.campaignCodes}))`,
+        sql`(${bonusRule.paymentMethods} IS NULL OR cardinality(${bonusRule.paymentMethods}) = 0 OR
+               ${paymentMethod}::text = ANY(${bonusRule.paymentMethods}::text[]))`,
+        sql`(${bonusRule.minAmount} IS NULL OR ${bonusRule.minAmount} <= ${amountUsd})`,
+        sql`(${bonusRule.maxAmount} IS NULL OR ${bonusRule.maxAmount} >= ${amountUsd})`
+      )
+    )
+    .orderBy(desc(bonusRule.priority))
+    .limit(1);
+
+  return rule ?? null;
+}
+
+function yearStart(date: string): string {
+  return `${date.slice(0, 4)}-01-01`;
+}
+
+function yearEnd(date: string): string {
+  return `${date.slice(0, 4)}-12-31`;
+}
+
+// Payments before the one in `context` in the order bonuses accrue: by date,
+// then by entry on the same day. A preview comes after its whole day.
+function earlierPayments(context: BonusContext) {
+  const { paymentDate, paymentId } = context;
+  return paymentId
+    ? sql`(${payment.paymentDate} < ${paymentDate} OR (${payment.paymentDate} = ${paymentDate} AND ${payment.id} < ${paymentId}))`
+    : lte(payment.paymentDate, paymentDate);
+}
+
+// USD the solicitor raised through completed payments earlier in the
+// payment's calendar year; same-day payments count when entered before it.
+async function getPriorVolume(
+  context: BonusContext,
+  executor: DbExecutor
+): Promise<number> {
+  const { solicitorId, paymentDate } = context;
+  const [row] = await executor
+    .select({
+      total: sql<string>`COALESCE(SUM(${payment.amountUsd}::numeric), 0)`,
+    })
+    .from(payment)
+    .where(
+      and(
+        eq(payment.solicitorId, solicitorId),
+        eq(payment.paymentStatus, BONUS_STATUS),
+        isNull(payment.deletedAt),
+        gte(payment.paymentDate, yearStart(paymentDate)),
+        earlierPayments(context)
+      )
+    );
+  return toNumber(row?.total);
+}
+
+// Bonus the rule has already paid out or accrued on earlier payments of the
+// payment's year. Later payments' bonuses are not held against it: they are
+// recalculated after it instead.
+async function getEarnedThisYear(
+  ruleId: number,
+  context: BonusContext,
+  executor: DbExecutor
+): Promise<number> {
+  const { paymentDate } = context;
+  const [row] = await executor
+    .select({
+      total: sql<string>`COALESCE(SUM(${bonusCalculation.bonusAmount}::numeric), 0)`,
+    })
+    .from(bonusCalculation)
+    .innerJoin(payment, eq(bonusCalculation.paymentId, payment.id))
+    .where(
+      and(
+        eq(bonusCalculation.bonusRuleId, ruleId),
+        gte(payment.paymentDate, yearStart(paymentDate)),
+        earlierPayments(context)
+      )
+    );
+  return toNumber(row?.total);
+}
+
+async function getRuleTerms(
+  rule: BonusRule,
+  executor: DbExecutor
+): Promise<RuleTerms> {
+  const tiers =
+    rule.calculationType === "tiered"
+      ? await executor
+          .select()
+          .from(bonusRuleTier)
+          .where(eq(bonusRuleTier.bonusRuleId, rule.id))
+      : [];
+
+  return {
+    calculationType: rule.calculationType,
+    bonusPercentage: toNumber(rule.bonusPercentage),
+    flatAmount: toNumber(rule.flatAmount),
+    yearlyCap: rule.yearlyCap === null ? null : toNumber(rule.yearlyCap),
+    tiers: tiers.map((tier) => ({
+      minVolume: toNumber(tier.minVolume),
+      bonusPercentage: toNumber(tier.bonusPercentage),
+    })),
+  };
+}
+
+// Applies the matching rule, falling back to the solicitor's default
+// commission rate when no rule covers the payment.
+export async function calculateBonus(
+  context: BonusContext,
+  executor: DbExecutor = db
+): Promise<BonusResult> {
+  const rule = await findBonusRule(context, executor);
+
+  if (!rule) {
+    const [solicitorData] = await executor
+      .select({ commissionRate: solicitor.commissionRate })
+      .from(solicitor)
+      .where(eq(solicitor.id, context.solicitorId))
+      .limit(1);
+    const bonusPercentage = toNumber(solicitorData?.commissionRate);
+    return {
+      bonusRuleId: null,
+      bonusPercentage: moneyString(bonusPercentage),
+      bonusAmount: moneyString((context.amountUsd * bonusPercentage) / 100),
+      ruleName: null,
+      breakdown: null,
+    };
+  }
+
+  const terms = await getRuleTerms(rule, executor);
+  const priorVolume =
+    terms.calculationType === "tiered"
+      ? await getPriorVolume(context, executor)
+      : 0;
+  const earnedThisYear =
+    terms.yearlyCap !== null
+      ? await getEarnedThisYear(rule.id, context, executor)
+      : 0;
+
+  const { bonus, breakdown } = applyRule(
+    terms,
+    context.amountUsd,
+    priorVolume,
+    earnedThisYear
+  );
+
+  return {
+    bonusRuleId: rule.id,
+    bonusPercentage: moneyString(
+      terms.calculationType === "percentage"
+        ? terms.bonusPercentage
+        : effectivePercentage(bonus, context.amountUsd)
+    ),
+    bonusAmount: moneyString(bonus),
+    ruleName: rule.ruleName,
+    breakdown,
+  };
+}
+
+type BonusTargeting = Pick<
+  BonusContext,
+  "paymentType" | "categoryId" | "campaignCode" | "paymentMethod"
+>;
+
+// Maps a category's bonusPaymentType onto a payment type; "both" and unmapped
+// categories give null.
+export function categoryPaymentType(
+  bonusPaymentType: string | null | undefined
+): BonusPaymentType | null {
+  return bonusPaymentType === "tuition" || bonusPaymentType === "donation"
+    ? bonusPaymentType
+    : null;
+}
+
+// The pledge details rules can target. Split payments have no pledge of their
+// own; their first allocation's pledge is used.
+async function getPaymentTargeting(
+  paymentData: Payment,
+  executor: DbExecutor
+): Promise<BonusTargeting> {
+  let pledgeId = paymentData.pledgeId;
+  if (!pledgeId) {
+    const [allocation] = await executor
+      .select({ pledgeId: paymentAllocations.pledgeId })
+      .from(paymentAllocations)
+      .where(eq(paymentAllocations.paymentId, paymentData.id))
+      .orderBy(paymentAllocations.id)
+      .limit(1);
+    pledgeId = allocation?.pledgeId ?? null;
+  }
+
+  const [row] = pledgeId
+    ? await executor
+        .select({
+          categoryId: pledge.categoryId,
+          campaignCode: pledge.campaignCode,
+          bonusPaymentType: category.bonusPaymentType,
+        })
+        .from(pledge)
+        .leftJoin(category, eq(pledge.categoryId, category.id))
+        .where(eq(pledge.id, pledgeId))
+        .limit(1)
+    : [];
+
+  return {
+    paymentType: categoryPaymentType(row?.bonusPaymentType),
+    categoryId: row?.categoryId ?? null,
+    campaignCode: row?.campaignCode ?? null,
+    paymentMethod: paymentData.paymentMethod,
+  };
+}
+
+export async function getPaymentBonusCalculation(
+  paymentId: number,
+  executor: DbExecutor = db
+): Promise<BonusCalculation | null> {
+  const [calculation] = await executor
+    .select()
+    .from(bonusCalculation)
+    .where(eq(bonusCalculation.paymentId, paymentId))
+    .limit(1);
+  return calculation ?? null;
+}
+
+// A calculation is settled once it has been paid or its payout batch has been
+// approved; its amount and solicitor are then final.
+export async function isBonusSettled(
+  calculation: BonusCalculation | null,
+  executor: DbExecutor = db
+): Promise<boolean> {
+  if (!calculation) return false;
+  if (calculation.isPaid) return true;
+  if (!calculation.payoutBatchId) return false;
+
+  const [batch] = await executor
+    .select({ status: payoutBatch.status })
+    .from(payoutBatch)
+    .where(eq(payoutBatch.id, calculation.payoutBatchId))
+    .limit(1);
+  return batch?.status === "approved" || batch?.status === "paid";
+}
+
+const sameMoney = (a: string | null, b: string | null) =>
+  (a === null) === (b === null) && toNumber(a) === toNumber(b);
+
+// Brings a payment's bonus fields and its bonusCalculation row in line with
+// the solicitor's rules. Call it after any change to a payment's amount,
+// date, status or solicitor, passing its solicitor and date from before the
+// change as `previous` when either may have changed. The unsettled bonuses
+// of the solicitor's later payments that year are recalculated with it.
+// Throws BonusAlreadyPaidError rather than rewrite a settled bonus. Returns
+// null when the payment is gone or is a refund, whose clawback clawBackBonus
+// records once and for all.
+export async function syncPaymentBonus(
+  paymentId: number,
+  executor: DbExecutor = db,
+  previous?: BonusPosition
+): Promise<BonusSync | null> {
+  const sync = await syncOwnBonus(paymentId, executor);
+  if (!sync) return null;
+
+  const positions: BonusPosition[] = [sync.payment, previous ?? sync.payment];
+  if (sync.previousCalculation) {
+    positions.push({
+      solicitorId: sync.previousCalculation.solicitorId,
+      paymentDate: sync.payment.paymentDate,
+    });
+  }
+  return {
+    ...sync,
+    later: await syncLaterBonuses(paymentId, positions, executor),
+  };
+}
+
+// Recalculates, in the order they accrue, the unsettled bonuses of each
+// solicitor's completed payments from each position to the end of its year.
+// Returns the ones that changed.
+async function syncLaterBonuses(
+  paymentId: number,
+  positions: BonusPosition[],
+  executor: DbExecutor
+): Promise<BonusSync[]> {
+  // The earliest position of each solicitor in each year
+  const starts = new Map<string, { solicitorId: number; paymentDate: string }>();
+  for (const { solicitorId, paymentDate } of positions) {
+    if (!solicitorId) continue;
+    const key = `${solicitorId}:${paymentDate.slice(0, 4)}`;
+    const start = starts.get(key);
+    if (!start || paymentDate < start.paymentDate) {
+      starts.set(key, { solicitorId, paymentDate });
+    }
+  }
+
+  const changed: BonusSync[] = [];
+  for (const { solicitorId, paymentDate } of starts.values()) {
+    const later = await executor
+      .select({ id: payment.id })
+      .from(payment)
+      .where(
+        and(
+          eq(payment.solicitorId, solicitorId),
+          eq(payment.paymentStatus, BONUS_STATUS),
+          isNull(payment.deletedAt),
+          isNull(payment.refundOfPaymentId),
+          gte(payment.paymentDate, paymentDate),
+          lte(payment.paymentDate, yearEnd(paymentDate)),
+          ne(payment.id, paymentId)
+        )
+      )
+      .orderBy(payment.paymentDate, payment.id);
+
+    for (const { id } of later) {
+      const calculation = await getPaymentBonusCalculation(id, executor);
+      if (await isBonusSettled(calculation, executor)) continue;
+      const sync = await syncOwnBonus(id, executor);
+      if (sync && (sync.payment !== sync.previous || sync.calculation !== calculation)) {
+        changed.push(sync);
+      }
+    }
+  }
+  return changed;
+}
+
+// syncPaymentBonus for the payment alone. Leaves the payment and its
+// calculation untouched, and returns them as they are, when they already
+// hold the bonus.
+async function syncOwnBonus(
+  paymentId: number,
+  executor: DbExecutor
+): Promise<BonusSync | null> {
+  const [paymentData] = await executor
+    .select()
+    .from(payment)
+    .where(eq(payment.id, paymentId))
+    .limit(1);
+
+  if (!paymentData || paymentData.refundOfPaymentId) return null;
+
+  const previousCalculation = await getPaymentBonusCalculation(
+    paymentId,
+    executor
+  );
+
+  // A payment in the trash earns nothing until it is restored
+  const result =
+    paymentData.solicitorId &&
+    paymentData.paymentStatus === BONUS_STATUS &&
+    !paymentData.deletedAt
+      ? await calculateBonus(
+          {
+            solicitorId: paymentData.solicitorId,
+            amountUsd: toNumber(paymentData.amountUsd),
+            paymentDate: paymentData.paymentDate,
+            ...(await getPaymentTargeting(paymentData, executor)),
+            paymentId: paymentData.id,
+          },
+          executor
+        )
+      : NO_BONUS;
+
+  const bonusAmount = toNumber(result.bonusAmount);
+
+  if (
+    previousCalculation &&
+    (await isBonusSettled(previousCalculation, executor))
+  ) {
+    const unchanged =
+      previousCalculation.solicitorId === paymentData.solicitorId &&
+      toNumber(previousCalculation.bonusAmount) === bonusAmount;
+    if (unchanged) {
+      return {
+        previous: paymentData,
+        payment: paymentData,
+        previousCalculation,
+        calculation: previousCalculation,
+      };
+    }
+    throw new BonusAlreadyPaidError(paymentId);
+  }
+
+  const earnsBonus = !!paymentData.solicitorId && bonusAmount > 0;
+  const upToDate =
+    paymentData.bonusRuleId === result.bonusRuleId &&
+    sameMoney(paymentData.bonusPercentage, result.bonusPercentage) &&
+    sameMoney(paymentData.bonusAmount, result.bonusAmount) &&
+    (earnsBonus
+      ? previousCalculation?.solicitorId === paymentData.solicitorId &&
+        previousCalculation.bonusRuleId === result.bonusRuleId &&
+        sameMoney(previousCalculation.bonusAmount, result.bonusAmount) &&
+        sameMoney(
+          previousCalculation.paymentAmount,
+          moneyString(toNumber(paymentData.amountUsd))
+        )
+      : !previousCalculation);
+  if (upToDate) {
+    return {
+      previous: paymentData,
+      payment: paymentData,
+      previousCalculation,
+      calculation: previousCalculation,
+    };
+  }
+
+  const [updatedPayment] = await executor
+    .update(payment)
+    .set({
+      bonusRuleId: result.bonusRuleId,
+      bonusPercentage: result.bonusPercentage,
+      bonusAmount: result.bonusAmount,
+      updatedAt: new Date(),
+    })
+    .where(eq(payment.id, paymentId))
+    .returning();
+
+  // A draft payout batch keeps the calculation only while it stays with the
+  // batch's solicitor.
+  const previousBatchId = previousCalculation?.payoutBatchId ?? null;
+  let calculation: BonusCalculation | null = null;
+  if (earnsBonus) {
+    const values = {
+      solicitorId: paymentData.solicitorId!,
+      payoutBatchId:
+        previousCalculation?.solicitorId === paymentData.solicitorId
+          ? previousBatchId
+          : null,
+      bonusRuleId: result.bonusRuleId,
+      paymentAmount: moneyString(toNumber(paymentData.amountUsd)),
+      bonusPercentage: result.bonusPercentage!,
+      bonusAmount: result.bonusAmount!,
+      calculatedAt: new Date(),
+      notes: result.ruleName
+        ? `Calculated using rule: ${result.ruleName}`
+        : "Calculated using the solicitor's commission rate",
+    };
+    [calculation] = previousCalculation
+      ? await executor
+          .update(bonusCalculation)
+          .set(values)
+          .where(eq(bonusCalculation.id, previousCalculation.id))
+          .returning()
+      : await executor
+          .insert(bonusCalculation)
+          .values({ ...values, paymentId, isPaid: false })
+          .returning();
+  } else if (previousCalculation) {
+    await executor
+      .delete(bonusCalculation)
+      .where(eq(bonusCalculation.id, previousCalculation.id));
+  }
+
+  if (previousBatchId) {
+    await refreshPayoutBatchTotals(previousBatchId, executor);
+  }
+
+  return {
+    previous: paymentData,
+    payment: updatedPayment,
+    previousCalculation,
+    calculation,
+  };
+}
+
+// Takes back the share of the original payment's bonus that a refund gives
+// back, as a negative calculation on the refund. It is paid out (deducted) in
+// the solicitor's next payout batch, whether or not the original bonus has
+// been paid yet. Shares are worked out on the cumulative refunded amount, so a
+// payment refunded in full claws back exactly its bonus. Call it after the
+// original's refundedAmount has been updated.
+export async function clawBackBonus(
+  refundPaymentId: number,
+  executor: DbExecutor = db
+): Promise<BonusSync | null> {
+  const [refundPayment] = await executor
+    .select()
+    .from(payment)
+    .where(eq(payment.id, refundPaymentId))
+    .limit(1);
+  if (!refundPayment?.refundOfPaymentId) return null;
+
+  const [original] = await executor
+    .select()
+    .from(payment)
+    .where(eq(payment.id, refundPayment.refundOfPaymentId))
+    .limit(1);
+  const originalCalculation = await getPaymentBonusCalculation(
+    original.id,
+    executor
+  );
+  const originalBonus = toNumber(originalCalculation?.bonusAmount);
+  if (!originalCalculation || originalBonus === 0) return null;
+
+  const [prior] = await executor
+    .select({
+      total: sql<string>`COALESCE(SUM(${bonusCalculation.bonusAmount}::numeric), 0)`,
+    })
+    .from(bonusCalculation)
+    .innerJoin(payment, eq(bonusCalculation.paymentId, payment.id))
+    .where(
+      and(
+        eq(payment.refundOfPaymentId, original.id),
+        ne(payment.id, refundPayment.id)
+      )
+    );
+
+  const refundedShare =
+    toNumber(original.refundedAmount) / toNumber(original.amount);
+  const clawback = roundMoney(
+    -roundMoney(originalBonus * refundedShare) - toNumber(prior?.total)
+  );
+  if (clawback === 0) return null;
+
+  const [updatedPayment] = await executor
+    .update(payment)
+    .set({
+      bonusRuleId: originalCalculation.bonusRuleId,
+      bonusPercentage: originalCalculation.bonusPercentage,
+      bonusAmount: moneyString(clawback),
+      updatedAt: new Date(),
+    })
+    .where(eq(payment.id, refundPayment.id))
+    .returning();
+
+  const [calculation] = await executor
+    .insert(bonusCalculation)
+    .values({
+      paymentId: refundPayment.id,
+      solicitorId: originalCalculation.solicitorId,
+      bonusRuleId: originalCalculation.bonusRuleId,
+      paymentAmount: moneyString(toNumber(refundPayment.amountUsd)),
+      bonusPercentage: originalCalculation.bonusPercentage,
+      bonusAmount: moneyString(clawback),
+      isPaid: false,
+      notes: `Clawback of the bonus on payment ${original.id}`,
+    })
+    .returning();
+
+  return {
+    previous: refundPayment,
+    payment: updatedPayment,
+    previousCalculation: null,
+    calculation,
+  };
+}
+
+// Writes the audit entries for a sync once its transaction has committed.
+// Pass `paymentFields: false` when the payment's own entry already shows the
+// synced values, e.g. right after it was created.
+export async function auditBonusSync(
+  user: SessionUser | null,
+  sync: BonusSync | null,
+  { paymentFields = true }: { paymentFields?: boolean } = {}
+): Promise<void> {
+  if (!sync) return;
+
+  for (const later of sync.later ?? []) {
+    await auditBonusSync(user, later);
+  }
+
+  if (paymentFields) {
+    const fields = ["bonusRuleId", "bonusPercentage", "bonusAmount"] as const;
+    const pick = (source: PaymentBonusFields) =>
+      Object.fromEntries(fields.map((field) => [field, source[field]]));
+
+    await recordAudit(user, {
+      table: payment,
+      recordId: sync.payment.id,
+      action: "update",
+      before: pick(sync.previous),
+      after: pick(sync.payment),
+      contactId: await getPaymentContactId(sync.payment.id),
+    });
+  }
+
+  const { previousCalculation, calculation } = sync;
+  if (previousCalculation === calculation) return;
+
+  const solicitorId =
+    calculation?.solicitorId ?? previousCalculation?.solicitorId;
+  const contactId = solicitorId ? await getSolicitorContactId(solicitorId) : null;
+
+  if (previousCalculation && calculation) {
+    await recordAudit(user, {
+      table: bonusCalculation,
+      recordId: calculation.id,
+      action: "update",
+      before: previousCalculation,
+      after: calculation,
+      contactId,
+    });
+  } else if (calculation) {
+    await recordAudit(user, {
+      table: bonusCalculation,
+      recordId: calculation.id,
+      action: "create",
+      after: calculation,
+      contactId,
+    });
+  } else if (previousCalculation) {
+    await recordAudit(user, {
+      table: bonusCalculation,
+      recordId: previousCalculation.id,
+      action: "delete",
+      before: previousCalculation,
+      contactId,
+    });
+  }
+}
+
+// Category ids a rule targets that do not exist, for validation.
+export async function findUnknownCategoryIds(
+  categoryIds: number[] | null | undefined,
+  executor: DbExecutor = db
+): Promise<number[]> {
+  if (!categoryIds?.length) return [];
+  const found = await executor
+    .select({ id: category.id })
+    .from(category)
+    .where(inArray(category.id, categoryIds));
+  const foundIds = new Set(found.map((row) => row.id));
+  return categoryIds.filter((id) => !foundIds.has(id));
+}
+
+export async function getRuleTiers(
+  ruleIds: number[],
+  executor: DbExecutor = db
+): Promise<Map<number, BonusRuleTier[]>> {
+  const byRule = new Map<number, BonusRuleTier[]>();
+  if (ruleIds.length === 0) return byRule;
+
+  const tiers = await executor
+    .select()
+    .from(bonusRuleTier)
+    .where(inArray(bonusRuleTier.bonusRuleId, ruleIds))
+    .orderBy(bonusRuleTier.minVolume);
+
+  for (const tier of tiers) {
+    byRule.set(tier.bonusRuleId, [...(byRule.get(tier.bonusRuleId) ?? []), tier]);
+  }
+  return byRule;
+}
+
+export async function replaceRuleTiers(
+  ruleId: number,
+  tiers: RuleTier[],
+  executor: DbExecutor = db
+): Promise<BonusRuleTier[]> {
+  await executor
+    .delete(bonusRuleTier)
+    .where(eq(bonusRuleTier.bonusRuleId, ruleId));
+
+  if (tiers.length === 0) return [];
+
+  return executor
+    .insert(bonusRuleTier)
+    .values(
+      tiers.map((tier) => ({
+        bonusRuleId: ruleId,
+        minVolume: moneyString(tier.minVolume),
+        bonusPercentage: moneyString(tier.bonusPercentage),
+      }))
+    )
+    .returning();
+}
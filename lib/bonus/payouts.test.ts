@@ -0,0 +1,223 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq, sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { db } from "@/lib/db";
+import {
+  bonusCalculation,
+  bonusRule,
+  contact,
+  payment,
+  payoutBatch,
+  pledge,
+  solicitor,
+} from "@/lib/db/schema";
+import { BonusAlreadyPaidError, syncPaymentBonus } from ".";
+import {
+  approvePayoutBatch,
+  cancelPayoutBatch,
+  createPayoutBatches,
+  getPayoutStatement,
+  payPayoutBatch,
+  PayoutBatchStateError,
+} from "./payouts";
+
+let pledgeId: number;
+let sam: number;
+let ruth: number;
+
+async function addSolicitor(firstName: string) {
+  const [person] = await db
+    .insert(contact)
+    .values({ firstName, lastName: "Solicitor" })
+    .returning();
+  const [created] = await db
+    .insert(solicitor)
+    .values({ contactId: person.id })
+    .returning();
+  await db.insert(bonusRule).values({
+    solicitorId: created.id,
+    ruleName: "Ten percent",
+    bonusPercentage: "10.00",
+    effectiveFrom: "2025-01-01",
+  });
+  return created.id;
+}
+
+// A completed USD payment credited to the solicitor, with its bonus synced
+async function pay(solicitorId: number, paymentDate: string, amount: number) {
+  const [created] = await db
+    .insert(payment)
+    .values({
+      pledgeId,
+      solicitorId,
+      amount: amount.toFixed(2),
+      amountUsd: amount.toFixed(2),
+      currency: "USD",
+      paymentDate,
+      paymentMethod: "check",
+      referenceNumber: `REF-${paymentDate}`,
+    })
+    .returning();
+  await syncPaymentBonus(created.id);
+  return created.id;
+}
+
+const march = { periodStart: "2025-03-01", periodEnd: "2025-03-31" };
+
+const calculationsOf = (batchId: number) =>
+  db
+    .select()
+    .from(bonusCalculation)
+    .where(eq(bonusCalculation.payoutBatchId, batchId));
+
+beforeEach(async () => {
+  await db.execute(
+    sql`TRUNCATE ${contact}, ${solicitor}, ${pledge}, ${payment}, ${bonusRule},
+      ${payoutBatch} RESTART IDENTITY CASCADE`
+  );
+  const [donor] = await db
+    .insert(contact)
+    .values({ firstName: "Dana", lastName: "Donor" })
+    .returning();
+  [{ id: pledgeId }] = await db
+    .insert(pledge)
+    .values({
+      contactId: donor.id,
+      pledgeDate: "2025-01-01",
+      originalAmount: "100000.00",
+      balance: "100000.00",
+    })
+    .returning();
+  sam = await addSolicitor("Sam");
+  ruth = await addSolicitor("Ruth");
+});
+
+describe("createPayoutBatches", () => {
+  it("batches each solicitor's unpaid bonuses for the period", async () => {
+    await pay(sam, "2025-03-05", 1000);
+    await pay(sam, "2025-03-20", 500);
+    await pay(ruth, "2025-03-10", 200);
+    await pay(sam, "2025-04-01", 1000);
+    const paid = await pay(ruth, "2025-03-15", 300);
+    await db
+      .update(bonusCalculation)
+      .set({ isPaid: true })
+      .where(eq(bonusCalculation.paymentId, paid));
+
+    const batches = await createPayoutBatches(march, null);
+    expect(
+      batches.map(({ solicitorId, status, totalAmount, calculationCount }) => [
+        solicitorId,
+        status,
+        totalAmount,
+        calculationCount,
+      ])
+    ).toEqual([
+      [sam, "draft", "150.00", 2],
+      [ruth, "draft", "20.00", 1],
+    ]);
+  });
+
+  it("leaves out bonuses already in a batch", async () => {
+    await pay(sam, "2025-03-05", 1000);
+    await createPayoutBatches(march, null);
+    expect(await createPayoutBatches(march, null)).toEqual([]);
+  });
+
+  it("runs for the solicitors it is given", async () => {
+    await pay(sam, "2025-03-05", 1000);
+    await pay(ruth, "2025-03-10", 200);
+    const batches = await createPayoutBatches({ ...march, solicitorIds: [ruth] }, null);
+    expect(batches.map((batch) => batch.solicitorId)).toEqual([ruth]);
+  });
+});
+
+describe("payout batch states", () => {
+  it("pays every bonus of an approved batch", async () => {
+    await pay(sam, "2025-03-05", 1000);
+    const [draft] = await createPayoutBatches(march, null);
+    const approved = await approvePayoutBatch(draft, null);
+    expect(approved.status).toBe("approved");
+
+    const { batch, calculations } = await payPayoutBatch(approved, null, "CHK 1001");
+    expect(batch).toMatchObject({ status: "paid", paymentReference: "CHK 1001" });
+    expect(calculations.map((calculation) => calculation.isPaid)).toEqual([true]);
+  });
+
+  it("only pays an approved batch", async () => {
+    await pay(sam, "2025-03-05", 1000);
+    const [draft] = await createPayoutBatches(march, null);
+    await expect(payPayoutBatch(draft, null, null)).rejects.toThrow(
+      `Cannot pay payout batch ${draft.id} while it is draft`
+    );
+  });
+
+  it("refuses to approve an empty batch", async () => {
+    const paymentId = await pay(sam, "2025-03-05", 1000);
+    const [draft] = await createPayoutBatches(march, null);
+    await db
+      .update(bonusCalculation)
+      .set({ payoutBatchId: null })
+      .where(eq(bonusCalculation.paymentId, paymentId));
+
+    await expect(approvePayoutBatch(draft, null)).rejects.toBeInstanceOf(
+      PayoutBatchStateError
+    );
+  });
+
+  it("freezes the bonuses of an approved batch", async () => {
+    const paymentId = await pay(sam, "2025-03-05", 1000);
+    const [draft] = await createPayoutBatches(march, null);
+    await approvePayoutBatch(draft, null);
+    await db
+      .update(payment)
+      .set({ amountUsd: "2000.00" })
+      .where(eq(payment.id, paymentId));
+
+    await expect(syncPaymentBonus(paymentId)).rejects.toBeInstanceOf(
+      BonusAlreadyPaidError
+    );
+  });
+
+  it("releases the bonuses of a cancelled batch to the next run", async () => {
+    await pay(sam, "2025-03-05", 1000);
+    const [draft] = await createPayoutBatches(march, null);
+    const cancelled = await cancelPayoutBatch(await approvePayoutBatch(draft, null));
+    expect(cancelled.status).toBe("cancelled");
+    expect(await calculationsOf(draft.id)).toEqual([]);
+
+    const [again] = await createPayoutBatches(march, null);
+    expect(again.calculationCount).toBe(1);
+    await expect(cancelPayoutBatch(cancelled)).rejects.toBeInstanceOf(
+      PayoutBatchStateError
+    );
+  });
+});
+
+describe("getPayoutStatement", () => {
+  it("lists the batch's payments with their rules and totals", async () => {
+    const later = await pay(sam, "2025-03-20", 500);
+    const earlier = await pay(sam, "2025-03-05", 1000);
+    const [batch] = await createPayoutBatches(march, null);
+
+    const statement = await getPayoutStatement(batch);
+    expect(statement).toMatchObject({
+      solicitorName: "Sam Solicitor",
+      totalPayments: 1500,
+      totalBonus: 150,
+    });
+    expect(statement.lines).toEqual([
+      expect.objectContaining({
+        paymentId: earlier,
+        referenceNumber: "REF-2025-03-05",
+        donorName: "Dana Donor",
+        ruleName: "Ten percent",
+        bonusPercentage: 10,
+        bonusAmount: 100,
+      }),
+      expect.objectContaining({ paymentId: later, paymentAmount: 500, bonusAmount: 50 }),
+    ]);
+  });
+});
@@ -0,0 +1,325 @@
+import { and, eq, gte, inArray, isNull, lte, sql } from "drizzle-orm";
+import { db, type DbExecutor } from "@/lib/db";
+import {
+  bonusCalculation,
+  bonusRule,
+  contact,
+  payment,
+  payoutBatch,
+  pledge,
+  solicitor,
+  type BonusCalculation,
+  type PayoutBatch,
+} from "@/lib/db/schema";
+import { moneyString, roundMoney, toNumber } from "@/lib/currency";
+
+export class PayoutBatchStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PayoutBatchStateError";
+  }
+}
+
+export interface PayoutPeriod {
+  periodStart: string;
+  periodEnd: string;
+  // Limits the run to these solicitors; every solicitor otherwise.
+  solicitorIds?: number[];
+  notes?: string | null;
+}
+
+export interface PayoutStatementLine {
+  calculationId: number;
+  paymentId: number;
+  paymentDate: string;
+  referenceNumber: string | null;
+  donorName: string | null;
+  paymentAmount: number;
+  ruleName: string | null;
+  bonusPercentage: number;
+  bonusAmount: number;
+}
+
+export interface PayoutStatement {
+  batch: PayoutBatch;
+  solicitorName: string;
+  solicitorCode: string | null;
+  lines: PayoutStatementLine[];
+  totalPayments: number;
+  totalBonus: number;
+}
+
+// Open batches can still change; approved and paid ones are final.
+export const OPEN_BATCH_STATUSES = ["draft", "approved"] as const;
+
+export async function getPayoutBatch(
+  batchId: number,
+  executor: DbExecutor = db
+): Promise<PayoutBatch | null> {
+  const [batch] = await executor
+    .select()
+    .from(payoutBatch)
+    .where(eq(payoutBatch.id, batchId))
+    .limit(1);
+  return batch ?? null;
+}
+
+// Rewrites a batch's stored total and count from its calculations. Call it
+// whenever a calculation joins, leaves or changes within a draft batch.
+export async function refreshPayoutBatchTotals(
+  batchId: number,
+  executor: DbExecutor = db
+): Promise<PayoutBatch | null> {
+  const [totals] = await executor
+    .select({
+      total: sql<string>`COALESCE(SUM(${bonusCalculation.bonusAmount}::numeric), 0)`,
+      count: sql<number>`COUNT(*)::int`,
+    })
+    .from(bonusCalculation)
+    .where(eq(bonusCalculation.payoutBatchId, batchId));
+
+  const [batch] = await executor
+    .update(payoutBatch)
+    .set({
+      totalAmount: moneyString(toNumber(totals?.total)),
+      calculationCount: totals?.count ?? 0,
+      updatedAt: new Date(),
+    })
+    .where(eq(payoutBatch.id, batchId))
+    .returning();
+  return batch ?? null;
+}
+
+// Groups each solicitor's unpaid calculations that are not yet in a batch and
+// whose payment falls in the period into one draft batch per solicitor.
+// Solicitors with nothing owed get no batch.
+export async function createPayoutBatches(
+  period: PayoutPeriod,
+  createdBy: number | null,
+  executor: DbExecutor = db
+): Promise<PayoutBatch[]> {
+  const calculations = await executor
+    .select({
+      id: bonusCalculation.id,
+      solicitorId: bonusCalculation.solicitorId,
+    })
+    .from(bonusCalculation)
+    .innerJoin(payment, eq(bonusCalculation.paymentId, payment.id))
+    .where(
+      and(
+        eq(bonusCalculation.isPaid, false),
+        isNull(bonusCalculation.payoutBatchId),
+        gte(payment.paymentDate, period.periodStart),
+        lte(payment.paymentDate, period.periodEnd),
+        period.solicitorIds?.length
+          ? inArray(bonusCalculation.solicitorId, period.solicitorIds)
+          : undefined
+      )
+    )
+    .orderBy(bonusCalculation.solicitorId, bonusCalculation.id);
+
+  const bySolicitor = new Map<number, number[]>();
+  for (const calculation of calculations) {
+    bySolicitor.set(calculation.solicitorId, [
+      ...(bySolicitor.get(calculation.solicitorId) ?? []),
+      calculation.id,
+    ]);
+  }
+
+  const batches: PayoutBatch[] = [];
+  for (const [solicitorId, calculationIds] of bySolicitor) {
+    const [batch] = await executor
+      .insert(payoutBatch)
+      .values({
+        solicitorId,
+        periodStart: period.periodStart,
+        periodEnd: period.periodEnd,
+        createdBy,
+        notes: period.notes ?? null,
+      })
+      .returning();
+
+    await executor
+      .update(bonusCalculation)
+      .set({ payoutBatchId: batch.id })
+      .where(
+        and(
+          inArray(bonusCalculation.id, calculationIds),
+          isNull(bonusCalculation.payoutBatchId)
+        )
+      );
+
+    batches.push((await refreshPayoutBatchTotals(batch.id, executor))!);
+  }
+  return batches;
+}
+
+function assertStatus(
+  batch: PayoutBatch,
+  allowed: PayoutBatch["status"][],
+  action: string
+) {
+  if (!allowed.includes(batch.status)) {
+    throw new PayoutBatchStateError(
+      `Cannot ${action} payout batch ${batch.id} while it is ${batch.status}`
+    );
+  }
+}
+
+// Freezes a draft batch's amounts. Its calculations can no longer be
+// recalculated until the batch is cancelled.
+export async function approvePayoutBatch(
+  batch: PayoutBatch,
+  approvedBy: number | null,
+  executor: DbExecutor = db
+): Promise<PayoutBatch> {
+  assertStatus(batch, ["draft"], "approve");
+
+  const refreshed = await refreshPayoutBatchTotals(batch.id, executor);
+  if (!refreshed?.calculationCount) {
+    throw new PayoutBatchStateError(
+      `Payout batch ${batch.id} has no bonus calculations to approve`
+    );
+  }
+
+  const [approved] = await executor
+    .update(payoutBatch)
+    .set({
+      status: "approved",
+      approvedBy,
+      approvedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(payoutBatch.id, batch.id))
+    .returning();
+  return approved;
+}
+
+// Marks an approved batch and every calculation in it as paid.
+export async function payPayoutBatch(
+  batch: PayoutBatch,
+  paidBy: number | null,
+  paymentReference: string | null,
+  executor: DbExecutor = db
+): Promise<{
+  batch: PayoutBatch;
+  before: BonusCalculation[];
+  calculations: BonusCalculation[];
+}> {
+  assertStatus(batch, ["approved"], "pay");
+  const paidAt = new Date();
+
+  const before = await executor
+    .select()
+    .from(bonusCalculation)
+    .where(eq(bonusCalculation.payoutBatchId, batch.id));
+
+  const calculations = await executor
+    .update(bonusCalculation)
+    .set({ isPaid: true, paidAt })
+    .where(eq(bonusCalculation.payoutBatchId, batch.id))
+    .returning();
+
+  const [paid] = await executor
+    .update(payoutBatch)
+    .set({
+      status: "paid",
+      paidBy,
+      paidAt,
+      paymentReference,
+      updatedAt: paidAt,
+    })
+    .where(eq(payoutBatch.id, batch.id))
+    .returning();
+
+  return { batch: paid, before, calculations };
+}
+
+// Releases a batch's calculations so a later run can pick them up again.
+export async function cancelPayoutBatch(
+  batch: PayoutBatch,
+  executor: DbExecutor = db
+): Promise<PayoutBatch> {
+  assertStatus(batch, ["draft", "approved"], "cancel");
+
+  await executor
+    .update(bonusCalculation)
+    .set({ payoutBatchId: null })
+    .where(eq(bonusCalculation.payoutBatchId, batch.id));
+
+  const [cancelled] = await executor
+    .update(payoutBatch)
+    .set({ status: "cancelled", updatedAt: new Date() })
+    .where(eq(payoutBatch.id, batch.id))
+    .returning();
+  return cancelled;
+}
+
+export async function getPayoutStatement(
+  batch: PayoutBatch,
+  executor: DbExecutor = db
+): Promise<PayoutStatement> {
+  const [solicitorData] = await executor
+    .select({
+      firstName: contact.firstName,
+      lastName: contact.lastName,
+      solicitorCode: solicitor.solicitorCode,
+    })
+    .from(solicitor)
+    .innerJoin(contact, eq(solicitor.contactId, contact.id))
+    .where(eq(solicitor.id, batch.solicitorId))
+    .limit(1);
+
+  // Cancelled batches have released their calculations, so their statement
+  // is empty.
+  const rows = await executor
+    .select({
+      calculationId: bonusCalculation.id,
+      paymentId: bonusCalculation.paymentId,
+      paymentDate: payment.paymentDate,
+      referenceNumber: payment.referenceNumber,
+      donorFirstName: contact.firstName,
+      donorLastName: contact.lastName,
+      paymentAmount: bonusCalculation.paymentAmount,
+      ruleName: bonusRule.ruleName,
+      bonusPercentage: bonusCalculation.bonusPercentage,
+      bonusAmount: bonusCalculation.bonusAmount,
+    })
+    .from(bonusCalculation)
+    .innerJoin(payment, eq(bonusCalculation.paymentId, payment.id))
+    .leftJoin(pledge, eq(payment.pledgeId, pledge.id))
+    .leftJoin(contact, eq(pledge.contactId, contact.id))
+    .leftJoin(bonusRule, eq(bonusCalculation.bonusRuleId, bonusRule.id))
+    .where(eq(bonusCalculation.payoutBatchId, batch.id))
+    .orderBy(payment.paymentDate, bonusCalculation.paymentId);
+
+  const lines = rows.map((row) => ({
+    calculationId: row.calculationId,
+    paymentId: row.paymentId,
+    paymentDate: row.paymentDate,
+    referenceNumber: row.referenceNumber,
+    donorName:
+      row.donorFirstName || row.donorLastName
+        ? `${row.donorFirstName ?? ""} ${row.donorLastName ?? ""}`.trim()
+        : null,
+    paymentAmount: toNumber(row.paymentAmount),
+    ruleName: row.ruleName,
+    bonusPercentage: toNumber(row.bonusPercentage),
+    bonusAmount: toNumber(row.bonusAmount),
+  }));
+
+  return {
+    batch,
+    solicitorName: solicitorData
+      ? `${solicitorData.firstName} ${solicitorData.lastName}`
+      : `Solicitor ${batch.solicitorId}`,
+    solicitorCode: solicitorData?.solicitorCode ?? null,
+    lines,
+    totalPayments: roundMoney(
+      lines.reduce((sum, line) => sum + line.paymentAmount, 0)
+    ),
+    totalBonus: roundMoney(
+      lines.reduce((sum, line) => sum + line.bonusAmount, 0)
+    ),
+  };
+}
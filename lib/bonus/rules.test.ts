@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { applyRule, effectivePercentage, tieredBonus, type RuleTerms } from "./rules";
+
+const terms = (overrides: Partial<RuleTerms>): RuleTerms => ({
+  calculationType: "percentage",
+  bonusPercentage: 0,
+  flatAmount: 0,
+  yearlyCap: null,
+  tiers: [],
+  ...overrides,
+});
+
+const tiers = [
+  { minVolume: 10000, bonusPercentage: 10 },
+  { minVolume: 0, bonusPercentage: 5 },
+];
+
+describe("tieredBonus", () => {
+  it("pays each tier's rate only on the part of the payment inside it", () => {
+    expect(tieredBonus(4000, 8000, tiers)).toEqual([
+      { from: 8000, to: 10000, bonusPercentage: 5, bonus: 100 },
+      { from: 10000, to: 12000, bonusPercentage: 10, bonus: 200 },
+    ]);
+  });
+
+  it("uses the top tier once the volume is past it", () => {
+    expect(tieredBonus(1000, 20000, tiers)).toEqual([
+      { from: 20000, to: 21000, bonusPercentage: 10, bonus: 100 },
+    ]);
+  });
+
+  it("pays nothing below the lowest tier", () => {
+    const from1000 = [{ minVolume: 1000, bonusPercentage: 5 }];
+    expect(tieredBonus(500, 0, from1000)).toEqual([]);
+  });
+});
+
+describe("applyRule", () => {
+  it("takes a percentage of the payment", () => {
+    const { bonus, breakdown } = applyRule(
+      terms({ bonusPercentage: 7.5 }),
+      1000,
+      0,
+      0
+    );
+    expect(bonus).toBe(75);
+    expect(breakdown.capApplied).toBe(false);
+  });
+
+  it("pays a flat amount whatever the payment", () => {
+    const flat = terms({ calculationType: "flat", flatAmount: 25 });
+    expect(applyRule(flat, 9999, 0, 0).bonus).toBe(25);
+  });
+
+  it("adds up the tiers a payment spans", () => {
+    const { bonus, breakdown } = applyRule(
+      terms({ calculationType: "tiered", tiers }),
+      4000,
+      8000,
+      0
+    );
+    expect(bonus).toBe(300);
+    expect(breakdown.tiers).toHaveLength(2);
+    expect(breakdown.priorVolume).toBe(8000);
+  });
+
+  it("stops at what is left of the yearly cap", () => {
+    const { bonus, breakdown } = applyRule(
+      terms({ bonusPercentage: 10, yearlyCap: 500 }),
+      1000,
+      0,
+      450
+    );
+    expect(bonus).toBe(50);
+    expect(breakdown.uncappedBonus).toBe(100);
+    expect(breakdown.capApplied).toBe(true);
+  });
+
+  it("pays nothing once the cap is used up", () => {
+    const capped = terms({ bonusPercentage: 10, yearlyCap: 500 });
+    expect(applyRule(capped, 1000, 0, 600).bonus).toBe(0);
+  });
+
+  it("rounds to cents", () => {
+    expect(applyRule(terms({ bonusPercentage: 3.33 }), 100.5, 0, 0).bonus).toBe(3.35);
+  });
+});
+
+describe("effectivePercentage", () => {
+  it("records a flat bonus as a share of the payment", () => {
+    expect(effectivePercentage(25, 200)).toBe(12.5);
+  });
+
+  it("fits the numeric(5,2) column", () => {
+    expect(effectivePercentage(50, 1)).toBe(999.99);
+    expect(effectivePercentage(10, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,111 @@
+// Pure bonus arithmetic for the three rule types. All amounts are in USD.
+import { roundMoney } from "@/lib/currency";
+
+export type BonusCalculationType = "percentage" | "flat" | "tiered";
+
+export interface RuleTier {
+  minVolume: number;
+  bonusPercentage: number;
+}
+
+export interface RuleTerms {
+  calculationType: BonusCalculationType;
+  bonusPercentage: number;
+  flatAmount: number;
+  yearlyCap: number | null;
+  tiers: RuleTier[];
+}
+
+export interface TierPortion {
+  from: number;
+  to: number;
+  bonusPercentage: number;
+  bonus: number;
+}
+
+export interface BonusBreakdown {
+  calculationType: BonusCalculationType;
+  // Solicitor's completed volume earlier in the same calendar year.
+  priorVolume: number;
+  tiers: TierPortion[];
+  // Bonus before and after the rule's yearly cap.
+  uncappedBonus: number;
+  earnedThisYear: number;
+  yearlyCap: number | null;
+  capApplied: boolean;
+}
+
+// Splits a payment across the tiers its volume spans, so a gift that crosses
+// a threshold earns each tier's rate only on the part above that threshold.
+export function tieredBonus(
+  amount: number,
+  priorVolume: number,
+  tiers: RuleTier[]
+): TierPortion[] {
+  const sorted = [...tiers].sort((a, b) => a.minVolume - b.minVolume);
+  const portions: TierPortion[] = [];
+
+  sorted.forEach((tier, index) => {
+    const upper = sorted[index + 1]?.minVolume ?? Infinity;
+    const from = Math.max(priorVolume, tier.minVolume);
+    const to = Math.min(priorVolume + amount, upper);
+    if (to <= from) return;
+    portions.push({
+      from,
+      to,
+      bonusPercentage: tier.bonusPercentage,
+      bonus: ((to - from) * tier.bonusPercentage) / 100,
+    });
+  });
+
+  return portions;
+}
+
+export function applyRule(
+  terms: RuleTerms,
+  amount: number,
+  priorVolume: number,
+  earnedThisYear: number
+): { bonus: number; breakdown: BonusBreakdown } {
+  let portions: TierPortion[] = [];
+  let uncappedBonus: number;
+
+  switch (terms.calculationType) {
+    case "flat":
+      uncappedBonus = terms.flatAmount;
+      break;
+    case "tiered":
+      portions = tieredBonus(amount, priorVolume, terms.tiers);
+      uncappedBonus = portions.reduce((sum, portion) => sum + portion.bonus, 0);
+      break;
+    default:
+      uncappedBonus = (amount * terms.bonusPercentage) / 100;
+  }
+  uncappedBonus = roundMoney(uncappedBonus);
+
+  let bonus = uncappedBonus;
+  if (terms.yearlyCap !== null) {
+    bonus = Math.min(bonus, Math.max(0, terms.yearlyCap - earnedThisYear));
+  }
+  bonus = roundMoney(bonus);
+
+  return {
+    bonus,
+    breakdown: {
+      calculationType: terms.calculationType,
+      priorVolume,
+      tiers: portions,
+      uncappedBonus,
+      earnedThisYear,
+      yearlyCap: terms.yearlyCap,
+      capApplied: bonus < uncappedBonus,
+    },
+  };
+}
+
+// Bonus as a percentage of the payment, for the numeric(5,2) columns that
+// record it next to flat and tiered bonuses too.
+export function effectivePercentage(bonus: number, amount: number): number {
+  if (amount <= 0) return 0;
+  return Math.min(999.99, roundMoney((bonus / amount) * 100));
+}
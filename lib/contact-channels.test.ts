@@ -0,0 +1,268 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { asc, eq, sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { db } from "@/lib/db";
+import {
+  contact,
+  contactAddress,
+  contactEmail,
+  contactPhone,
+} from "@/lib/db/schema";
+import {
+  channelSearchCondition,
+  getContactChannels,
+  primaryChannels,
+  reconcilePrimaryChannels,
+  saveContactChannels,
+} from "./contact-channels";
+
+let contactId: number;
+
+async function stored(id = contactId) {
+  const [row] = await db.select().from(contact).where(eq(contact.id, id));
+  return row;
+}
+
+const emails = async (id = contactId) =>
+  (
+    await db
+      .select()
+      .from(contactEmail)
+      .where(eq(contactEmail.contactId, id))
+      .orderBy(asc(contactEmail.id))
+  ).map((row) => [row.email, row.isPrimary]);
+
+beforeEach(async () => {
+  await db.execute(sql`TRUNCATE ${contact} RESTART IDENTITY CASCADE`);
+  [{ id: contactId }] = await db
+    .insert(contact)
+    .values({ firstName: "Dana", lastName: "Donor" })
+    .returning();
+});
+
+describe("primaryChannels", () => {
+  it("takes the first entry marked primary, else the first", () => {
+    expect(
+      primaryChannels({
+        emails: [
+          { type: "work", email: "dana@work.example" },
+          { type: "personal", email: "dana@example.org", isPrimary: true },
+        ],
+        phones: [{ type: "home", number: "555-0100" }],
+        addresses: [
+          {
+            type: "home",
+            street: "12 Main St",
+            city: "Springfield",
+            state: "IL",
+            postalCode: "62701",
+          },
+        ],
+      })
+    ).toEqual({
+      email: "dana@example.org",
+      phone: "555-0100",
+      address: "12 Main St, Springfield, IL 62701",
+    });
+    expect(primaryChannels({ email: " ", phones: [] })).toEqual({
+      email: null,
+      phone: null,
+      address: null,
+    });
+  });
+});
+
+describe("saveContactChannels", () => {
+  it("replaces the lists it is sent and mirrors their primaries", async () => {
+    const updated = await saveContactChannels(
+      contactId,
+      {
+        emails: [
+          { type: "personal", email: "dana@example.org" },
+          { type: "work", email: "dana@work.example", isPrimary: true },
+          { type: "other", email: "dana@other.example", isPrimary: true },
+        ],
+        addresses: [
+          { type: "work", street: "1 Office Rd", city: "Chicago" },
+          { type: "home", street: "12 Main St", country: "USA", isPrimary: true },
+        ],
+      },
+      db
+    );
+    expect(updated).toMatchObject({
+      email: "dana@work.example",
+      phone: null,
+      address: "12 Main St, USA",
+    });
+    expect(await emails()).toEqual([
+      ["dana@example.org", false],
+      ["dana@work.example", true],
+      ["dana@other.example", false],
+    ]);
+
+    await saveContactChannels(contactId, { addresses: [] }, db);
+    expect(await stored()).toMatchObject({
+      email: "dana@work.example",
+      address: null,
+    });
+    expect(await db.select().from(contactAddress)).toEqual([]);
+  });
+
+  it("puts a new primary value ahead of the other entries", async () => {
+    await saveContactChannels(
+      contactId,
+      {
+        emails: [
+          { type: "personal", email: "dana@example.org" },
+          { type: "work", email: "dana@work.example" },
+        ],
+      },
+      db
+    );
+    await saveContactChannels(contactId, { email: "dana@new.example" }, db);
+    expect(await emails()).toEqual([
+      ["dana@new.example", true],
+      ["dana@work.example", false],
+    ]);
+    expect((await stored()).email).toBe("dana@new.example");
+
+    await saveContactChannels(contactId, { email: "" }, db);
+    expect(await emails()).toEqual([["dana@work.example", true]]);
+    expect((await stored()).email).toBe("dana@work.example");
+  });
+
+  it("lets contacts share an email that is not primary", async () => {
+    const [other] = await db
+      .insert(contact)
+      .values({ firstName: "Eli", lastName: "Donor", email: "eli@example.org" })
+      .returning();
+    await saveContactChannels(
+      contactId,
+      {
+        emails: [
+          { type: "personal", email: "dana@example.org" },
+          { type: "other", email: "family@example.org" },
+        ],
+      },
+      db
+    );
+    await saveContactChannels(
+      other.id,
+      {
+        emails: [
+          { type: "personal", email: "eli@example.org" },
+          { type: "other", email: "family@example.org" },
+        ],
+      },
+      db
+    );
+    expect(await emails(other.id)).toEqual([
+      ["eli@example.org", true],
+      ["family@example.org", false],
+    ]);
+  });
+
+  it("does nothing when no channel is sent", async () => {
+    expect(await saveContactChannels(contactId, {}, db)).toBeNull();
+  });
+});
+
+describe("getContactChannels", () => {
+  it("lists the primary entry first", async () => {
+    await saveContactChannels(
+      contactId,
+      {
+        phones: [
+          { type: "home", number: "555-0100" },
+          { type: "mobile", number: "555-0199", isPrimary: true },
+        ],
+      },
+      db
+    );
+    const channels = (await getContactChannels([await stored()])).get(contactId);
+    expect(channels?.phones.map((phone) => phone.number)).toEqual([
+      "555-0199",
+      "555-0100",
+    ]);
+  });
+
+  it("falls back to the contact's own columns", async () => {
+    await db
+      .update(contact)
+      .set({ email: "dana@example.org", address: "12 Main St" })
+      .where(eq(contact.id, contactId));
+    const channels = (await getContactChannels([await stored()])).get(contactId);
+    expect(channels).toMatchObject({
+      emails: [{ type: "personal", email: "dana@example.org", isPrimary: true }],
+      phones: [],
+      addresses: [{ type: "home", street: "12 Main St", city: null }],
+    });
+    expect(channels?.emails[0].id).toBeUndefined();
+  });
+});
+
+describe("channelSearchCondition", () => {
+  it("finds contacts by any of their addresses, phones or emails", async () => {
+    const [other] = await db
+      .insert(contact)
+      .values({ firstName: "Eli", lastName: "Donor" })
+      .returning();
+    await saveContactChannels(
+      contactId,
+      {
+        phones: [
+          { type: "mobile", number: "555-0100" },
+          { type: "work", number: "555-0777" },
+        ],
+      },
+      db
+    );
+    await saveContactChannels(
+      other.id,
+      {
+        addresses: [
+          { type: "home", street: "12 Main St" },
+          { type: "mailing", street: "PO Box 9", city: "Lakewood" },
+        ],
+      },
+      db
+    );
+
+    const search = async (pattern: string) =>
+      (
+        await db
+          .select({ id: contact.id })
+          .from(contact)
+          .where(channelSearchCondition(pattern))
+      ).map((row) => row.id);
+    expect(await search("%0777%")).toEqual([contactId]);
+    expect(await search("%lakewood%")).toEqual([other.id]);
+    expect(await search("%nowhere%")).toEqual([]);
+  });
+});
+
+describe("reconcilePrimaryChannels", () => {
+  it("makes the rows matching the contact's columns primary", async () => {
+    await db
+      .update(contact)
+      .set({ email: "dana@example.org", phone: "555-0100" })
+      .where(eq(contact.id, contactId));
+    await db.insert(contactEmail).values([
+      { contactId, email: "dana@old.example", isPrimary: true },
+      { contactId, email: "Dana@Example.org" },
+    ]);
+
+    await reconcilePrimaryChannels(contactId, db);
+    expect(await emails()).toEqual([
+      ["dana@old.example", false],
+      ["Dana@Example.org", true],
+    ]);
+    expect(
+      await db
+        .select({ number: contactPhone.number, isPrimary: contactPhone.isPrimary })
+        .from(contactPhone)
+    ).toEqual([{ number: "555-0100", isPrimary: true }]);
+  });
+});
@@ -0,0 +1,456 @@
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  exists,
+  ilike,
+  inArray,
+  or,
+  type SQL,
+} from "drizzle-orm";
+import { db, type DbExecutor } from "@/lib/db";
+import {
+  contact,
+  contactAddress,
+  contactEmail,
+  contactPhone,
+  type Contact,
+  type ContactAddress,
+  type ContactEmail,
+  type ContactPhone,
+} from "@/lib/db/schema";
+import { formatAddress } from "@/lib/contact-format";
+import type {
+  ContactAddressValues,
+  ContactEmailValues,
+  ContactPhoneValues,
+} from "@/lib/form-schemas/contact";
+
+// A contact's addresses, phones and emails live in their own tables. The
+// primary entry of each is mirrored into contact.address (formatted),
+// contact.phone and contact.email, so the many readers of those columns
+// (search, receipts, statements, reminders, duplicates) keep working and
+// contact.email stays unique. Other emails may be shared between contacts.
+
+export interface ContactChannelValues {
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  emails?: ContactEmailValues[];
+  phones?: ContactPhoneValues[];
+  addresses?: ContactAddressValues[];
+}
+
+export interface ContactChannels {
+  // Entries without an id were derived from the contact's own columns for a
+  // contact saved before these tables existed
+  addresses: (Omit<ContactAddress, "id"> & { id?: number })[];
+  phones: (Omit<ContactPhone, "id"> & { id?: number })[];
+  emails: (Omit<ContactEmail, "id"> & { id?: number })[];
+}
+
+// Exactly one primary entry: the first marked one, else the first
+function withPrimary<T extends { isPrimary?: boolean }>(
+  list: T[]
+): (T & { isPrimary: boolean })[] {
+  const primary = Math.max(
+    list.findIndex((entry) => entry.isPrimary),
+    0
+  );
+  return list.map((entry, index) => ({
+    ...entry,
+    isPrimary: index === primary,
+  }));
+}
+
+const blankToNull = (value: string | null | undefined) =>
+  value?.trim() ? value.trim() : null;
+
+// The email, phone and address `values` would make primary, without looking
+// at what is saved; for duplicate checks before a contact exists
+export function primaryChannels(values: ContactChannelValues) {
+  const address = values.addresses?.length
+    ? withPrimary(values.addresses).find((entry) => entry.isPrimary)
+    : undefined;
+  return {
+    email: values.emails
+      ? (withPrimary(values.emails).find((entry) => entry.isPrimary)?.email ??
+        null)
+      : blankToNull(values.email),
+    phone: values.phones
+      ? (withPrimary(values.phones).find((entry) => entry.isPrimary)?.number ??
+        null)
+      : blankToNull(values.phone),
+    address: values.addresses
+      ? address
+        ? formatAddress(address)
+        : null
+      : blankToNull(values.address),
+  };
+}
+
+// Builds the new list for one kind of channel: the list itself when sent,
+// else the existing non-primary entries behind the new primary value when
+// only that was sent. Undefined when neither was sent.
+async function nextEntries<T extends { isPrimary?: boolean }>(
+  list: T[] | undefined,
+  primaryValue: string | null | undefined,
+  toEntry: (value: string) => T,
+  existing: () => Promise<T[]>
+): Promise<(T & { isPrimary: boolean })[] | undefined> {
+  if (list !== undefined) return withPrimary(list);
+  if (primaryValue === undefined) return undefined;
+  const others = (await existing()).filter((entry) => !entry.isPrimary);
+  const value = blankToNull(primaryValue);
+  return withPrimary(
+    value ? [{ ...toEntry(value), isPrimary: true }, ...others] : others
+  );
+}
+
+// Replaces the addresses, phones and emails that `values` sends and mirrors
+// their primary entries onto the contact. Run inside a transaction; returns
+// the updated contact, or null when nothing was sent.
+export async function saveContactChannels(
+  contactId: number,
+  values: ContactChannelValues,
+  executor: DbExecutor
+): Promise<Contact | null> {
+  const mirror: Partial<Pick<Contact, "email" | "phone" | "address">> = {};
+  const now = new Date();
+
+  const emails = await nextEntries<ContactEmailValues>(
+    values.emails,
+    values.email,
+    (email) => ({ type: "personal", email }),
+    () =>
+      executor
+        .select()
+        .from(contactEmail)
+        .where(eq(contactEmail.contactId, contactId))
+        .orderBy(asc(contactEmail.id))
+  );
+  if (emails) {
+    await executor
+      .delete(contactEmail)
+      .where(eq(contactEmail.contactId, contactId));
+    if (emails.length > 0) {
+      await executor.insert(contactEmail).values(
+        emails.map(({ type, email, isPrimary }) => ({
+          contactId,
+          type,
+          email: email.trim(),
+          isPrimary,
+          updatedAt: now,
+        }))
+      );
+    }
+    mirror.email =
+      emails.find((entry) => entry.isPrimary)?.email.trim() ?? null;
+  }
+
+  const phones = await nextEntries<ContactPhoneValues>(
+    values.phones,
+    values.phone,
+    (number) => ({ type: "mobile", number }),
+    () =>
+      executor
+        .select()
+        .from(contactPhone)
+        .where(eq(contactPhone.contactId, contactId))
+        .orderBy(asc(contactPhone.id))
+  );
+  if (phones) {
+    await executor
+      .delete(contactPhone)
+      .where(eq(contactPhone.contactId, contactId));
+    if (phones.length > 0) {
+      await executor.insert(contactPhone).values(
+        phones.map(({ type, number, isPrimary }) => ({
+          contactId,
+          type,
+          number: number.trim(),
+          isPrimary,
+          updatedAt: now,
+        }))
+      );
+    }
+    mirror.phone =
+      phones.find((entry) => entry.isPrimary)?.number.trim() ?? null;
+  }
+
+  // A free-text address has no parts, so it is kept whole as the street
+  const addresses = await nextEntries<ContactAddressValues>(
+    values.addresses,
+    values.address,
+    (street) => ({ type: "home", street }),
+    async () =>
+      (
+        await executor
+          .select()
+          .from(contactAddress)
+          .where(eq(contactAddress.contactId, contactId))
+          .orderBy(asc(contactAddress.id))
+      ).map((row) => ({
+        type: row.type,
+        street: row.street,
+        city: row.city ?? undefined,
+        state: row.state ?? undefined,
+        postalCode: row.postalCode ?? undefined,
+        country: row.country ?? undefined,
+        isPrimary: row.isPrimary,
+      }))
+  );
+  if (addresses) {
+    await executor
+      .delete(contactAddress)
+      .where(eq(contactAddress.contactId, contactId));
+    if (addresses.length > 0) {
+      await executor.insert(contactAddress).values(
+        addresses.map((address) => ({
+          contactId,
+          type: address.type,
+          street: address.street.trim(),
+          city: blankToNull(address.city),
+          state: blankToNull(address.state),
+          postalCode: blankToNull(address.postalCode),
+          country: blankToNull(address.country),
+          isPrimary: address.isPrimary,
+          updatedAt: now,
+        }))
+      );
+    }
+    const primary = addresses.find((entry) => entry.isPrimary);
+    mirror.address = primary ? formatAddress(primary) : null;
+  }
+
+  if (Object.keys(mirror).length === 0) return null;
+
+  const [updated] = await executor
+    .update(contact)
+    .set({ ...mirror, updatedAt: now })
+    .where(eq(contact.id, contactId))
+    .returning();
+  return updated;
+}
+
+// Makes the rows that match the contact's email, phone and address columns
+// the primary ones, adding a row for a value that has none. For when rows
+// from elsewhere have been moved onto the contact, as in a merge.
+export async function reconcilePrimaryChannels(
+  contactId: number,
+  executor: DbExecutor
+): Promise<void> {
+  const [row] = await executor
+    .select()
+    .from(contact)
+    .where(eq(contact.id, contactId));
+  if (!row) return;
+
+  const reconcile = async <T extends { id: number; isPrimary: boolean }>(
+    table: typeof contactEmail | typeof contactPhone | typeof contactAddress,
+    rows: T[],
+    matches: (entry: T) => boolean,
+    value: string | null,
+    insert: (value: string) => Promise<unknown>
+  ) => {
+    const primary = value ? rows.find(matches) : undefined;
+    for (const entry of rows) {
+      const isPrimary = entry === primary;
+      if (entry.isPrimary !== isPrimary) {
+        await executor
+          .update(table)
+          .set({ isPrimary })
+          .where(eq(table.id, entry.id));
+      }
+    }
+    if (value && !primary) await insert(value);
+  };
+
+  const emails = await executor
+    .select()
+    .from(contactEmail)
+    .where(eq(contactEmail.contactId, contactId))
+    .orderBy(asc(contactEmail.id));
+  await reconcile(
+    contactEmail,
+    emails,
+    (entry) => entry.email.toLowerCase() === row.email?.toLowerCase(),
+    row.email,
+    (email) =>
+      executor
+        .insert(contactEmail)
+        .values({ contactId, type: "personal", email, isPrimary: true })
+  );
+
+  const phones = await executor
+    .select()
+    .from(contactPhone)
+    .where(eq(contactPhone.contactId, contactId))
+    .orderBy(asc(contactPhone.id));
+  await reconcile(
+    contactPhone,
+    phones,
+    (entry) => entry.number === row.phone,
+    row.phone,
+    (number) =>
+      executor
+        .insert(contactPhone)
+        .values({ contactId, type: "mobile", number, isPrimary: true })
+  );
+
+  const addresses = await executor
+    .select()
+    .from(contactAddress)
+    .where(eq(contactAddress.contactId, contactId))
+    .orderBy(asc(contactAddress.id));
+  await reconcile(
+    contactAddress,
+    addresses,
+    (entry) => formatAddress(entry) === row.address,
+    row.address,
+    (street) =>
+      executor
+        .insert(contactAddress)
+        .values({ contactId, type: "home", street, isPrimary: true })
+  );
+}
+
+// Falls back to the contact's own columns when it has no rows yet
+function channelsOf(
+  row: Contact,
+  addresses: ContactAddress[],
+  phones: ContactPhone[],
+  emails: ContactEmail[]
+): ContactChannels {
+  const base = {
+    contactId: row.id,
+    isPrimary: true,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+  return {
+    addresses:
+      addresses.length || !row.address
+        ? addresses
+        : [
+            {
+              ...base,
+              type: "home",
+              street: row.address,
+              city: null,
+              state: null,
+              postalCode: null,
+              country: null,
+            },
+          ],
+    phones:
+      phones.length || !row.phone
+        ? phones
+        : [{ ...base, type: "mobile", number: row.phone }],
+    emails:
+      emails.length || !row.email
+        ? emails
+        : [{ ...base, type: "personal", email: row.email }],
+  };
+}
+
+function groupByContact<T extends { contactId: number }>(rows: T[]) {
+  const groups = new Map<number, T[]>();
+  for (const row of rows) {
+    const group = groups.get(row.contactId) ?? [];
+    group.push(row);
+    groups.set(row.contactId, group);
+  }
+  return groups;
+}
+
+// Addresses, phones and emails of each contact, primary first
+export async function getContactChannels(
+  contacts: Contact[],
+  executor: DbExecutor = db
+): Promise<Map<number, ContactChannels>> {
+  const ids = contacts.map((row) => row.id);
+  const result = new Map<number, ContactChannels>();
+  if (ids.length === 0) return result;
+
+  const [addresses, phones, emails] = await Promise.all([
+    executor
+      .select()
+      .from(contactAddress)
+      .where(inArray(contactAddress.contactId, ids))
+      .orderBy(desc(contactAddress.isPrimary), asc(contactAddress.id)),
+    executor
+      .select()
+      .from(contactPhone)
+      .where(inArray(contactPhone.contactId, ids))
+      .orderBy(desc(contactPhone.isPrimary), asc(contactPhone.id)),
+    executor
+      .select()
+      .from(contactEmail)
+      .where(inArray(contactEmail.contactId, ids))
+      .orderBy(desc(contactEmail.isPrimary), asc(contactEmail.id)),
+  ]);
+
+  const addressGroups = groupByContact(addresses);
+  const phoneGroups = groupByContact(phones);
+  const emailGroups = groupByContact(emails);
+  for (const row of contacts) {
+    result.set(
+      row.id,
+      channelsOf(
+        row,
+        addressGroups.get(row.id) ?? [],
+        phoneGroups.get(row.id) ?? [],
+        emailGroups.get(row.id) ?? []
+      )
+    );
+  }
+  return result;
+}
+
+// Contacts with an address, phone or email matching `pattern` (an ILIKE
+// pattern), for search
+export function channelSearchCondition(pattern: string): SQL {
+  return or(
+    exists(
+      db
+        .select({ id: contactEmail.id })
+        .from(contactEmail)
+        .where(
+          and(
+            eq(contactEmail.contactId, contact.id),
+            ilike(contactEmail.email, pattern)
+          )
+        )
+    ),
+    exists(
+      db
+        .select({ id: contactPhone.id })
+        .from(contactPhone)
+        .where(
+          and(
+            eq(contactPhone.contactId, contact.id),
+            ilike(contactPhone.number, pattern)
+          )
+        )
+    ),
+    exists(
+      db
+        .select({ id: contactAddress.id })
+        .from(contactAddress)
+        .where(
+          and(
+            eq(contactAddress.contactId, contact.id),
+            or(
+              ilike(contactAddress.street, pattern),
+              ilike(contactAddress.city, pattern),
+              ilike(contactAddress.state, pattern),
+              ilike(contactAddress.postalCode, pattern),
+              ilike(contactAddress.country, pattern)
+            )
+          )
+        )
+    )
+  )!;
+}
@@ -0,0 +1,47 @@
+import type {
+  ContactAddress,
+  ContactEmail,
+  ContactPhone,
+} from "@/lib/db/schema";
+
+type AddressParts = Pick<
+  ContactAddress,
+  "street" | "city" | "state" | "postalCode" | "country"
+>;
+
+// One line, e.g. "12 Main St, Springfield, IL 62701, USA"
+export function formatAddress(address: {
+  [K in keyof AddressParts]?: string | null;
+}): string {
+  const cityLine = [
+    address.city,
+    [address.state, address.postalCode].filter(Boolean).join(" "),
+  ]
+    .filter(Boolean)
+    .join(", ");
+  return [address.street, cityLine, address.country]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(", ");
+}
+
+// For exports: "home: 12 Main St, ...; work: ..."
+export function describeAddresses(
+  addresses: (Pick<ContactAddress, "type"> & Partial<AddressParts>)[]
+): string {
+  return addresses
+    .map((address) => `${address.type}: ${formatAddress(address)}`)
+    .join("; ");
+}
+
+export function describePhones(
+  phones: Pick<ContactPhone, "type" | "number">[]
+): string {
+  return phones.map((phone) => `${phone.type}: ${phone.number}`).join("; ");
+}
+
+export function describeEmails(
+  emails: Pick<ContactEmail, "type" | "email">[]
+): string {
+  return emails.map((email) => `${email.type}: ${email.email}`).join("; ");
+}
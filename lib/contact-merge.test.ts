@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq, sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { txDb } from "@/lib/db";
+import {
+  contact,
+  contactEmail,
+  pledge,
+  processorEvent,
+  relationships,
+  solicitor,
+  webhookDelivery,
+  webhookSource,
+} from "@/lib/db/schema";
+import {
+  ContactMergeStateError,
+  listContactMerges,
+  mergeContacts,
+  type MergeOptions,
+} from "./contact-merge";
+
+let survivorId: number;
+let mergedId: number;
+let otherId: number;
+
+const merge = (options: MergeOptions = {}, from = mergedId) =>
+  txDb.transaction((tx) => mergeContacts(survivorId, from, options, null, tx));
+
+const owners = (rows: { contactId: number | null }[]) =>
+  rows.map((row) => row.contactId);
+
+beforeEach(async () => {
+  await txDb.execute(
+    sql`TRUNCATE ${contact}, ${webhookSource} RESTART IDENTITY CASCADE`
+  );
+  [{ id: survivorId }, { id: mergedId }, { id: otherId }] = await txDb
+    .insert(contact)
+    .values([
+      { firstName: "Dana", lastName: "Donor", phone: "555-0100" },
+      {
+        firstName: "Dana",
+        lastName: "Donner",
+        email: "dana@example.org",
+        phone: "555-0199",
+        title: "Dr.",
+      },
+      { firstName: "Eli", lastName: "Donor" },
+    ])
+    .returning();
+});
+
+describe("mergeContacts", () => {
+  it("moves the merged contact's records to the survivor", async () => {
+    await txDb.insert(pledge).values({
+      contactId: mergedId,
+      pledgeDate: "2025-01-01",
+      originalAmount: "100.00",
+      balance: "100.00",
+    });
+    await txDb.insert(processorEvent).values({
+      processor: "stripe",
+      eventId: "evt_1",
+      eventType: "charge.succeeded",
+      payload: "{}",
+      contactId: mergedId,
+    });
+    const [source] = await txDb
+      .insert(webhookSource)
+      .values({
+        name: "Forms",
+        slug: "forms",
+        target: "contact",
+        secretHash: "x",
+        fieldMap: "{}",
+      })
+      .returning();
+    await txDb
+      .insert(webhookDelivery)
+      .values({ sourceId: source.id, payload: "{}", contactId: mergedId });
+
+    const { movedRecords, record } = await merge();
+
+    expect(movedRecords).toMatchObject({
+      pledges: 1,
+      processorEvents: 1,
+      webhookDeliveries: 1,
+    });
+    expect(owners(await txDb.select().from(pledge))).toEqual([survivorId]);
+    expect(owners(await txDb.select().from(processorEvent))).toEqual([survivorId]);
+    expect(owners(await txDb.select().from(webhookDelivery))).toEqual([survivorId]);
+    expect(
+      await txDb.select().from(contact).where(eq(contact.id, mergedId))
+    ).toEqual([]);
+
+    const [entry] = await listContactMerges(survivorId);
+    expect(entry.id).toBe(record.id);
+    expect(entry.mergedContact.lastName).toBe("Donner");
+    expect(entry.movedRecords.pledges).toBe(1);
+  });
+
+  it("fills blank fields and keeps the survivor's others", async () => {
+    const { survivor } = await merge();
+    expect(survivor).toMatchObject({
+      lastName: "Donor",
+      phone: "555-0100",
+      email: "dana@example.org",
+      title: "Dr.",
+    });
+  });
+
+  it("takes the fields it is told to", async () => {
+    const { survivor } = await merge({ take: ["lastName", "phone"] });
+    expect(survivor).toMatchObject({ lastName: "Donner", phone: "555-0199" });
+  });
+
+  it("keeps one primary email", async () => {
+    await txDb.insert(contactEmail).values([
+      { contactId: survivorId, email: "dana@home.example", isPrimary: true },
+      { contactId: mergedId, email: "dana@example.org", isPrimary: true },
+    ]);
+    await merge();
+
+    const emails = await txDb
+      .select()
+      .from(contactEmail)
+      .where(eq(contactEmail.contactId, survivorId));
+    expect(emails).toHaveLength(2);
+    expect(emails.filter((email) => email.isPrimary)).toHaveLength(1);
+  });
+
+  it("drops relationships between the two and ones the survivor has", async () => {
+    await txDb.insert(relationships).values([
+      { contactId: mergedId, relatedContactId: survivorId, relationshipType: "brother" },
+      { contactId: survivorId, relatedContactId: otherId, relationshipType: "mother" },
+      { contactId: mergedId, relatedContactId: otherId, relationshipType: "mother" },
+      { contactId: mergedId, relatedContactId: otherId, relationshipType: "father" },
+    ]);
+    await merge();
+
+    const rows = await txDb.select().from(relationships);
+    expect(
+      rows
+        .map((row) => [row.contactId, row.relatedContactId, row.relationshipType])
+        .sort()
+    ).toEqual([
+      [survivorId, otherId, "father"],
+      [survivorId, otherId, "mother"],
+    ]);
+  });
+
+  it("refuses merges that cannot be undone safely", async () => {
+    await expect(merge({}, survivorId)).rejects.toBeInstanceOf(
+      ContactMergeStateError
+    );
+
+    await txDb
+      .update(contact)
+      .set({ deletedAt: new Date() })
+      .where(eq(contact.id, otherId));
+    await expect(merge({}, otherId)).rejects.toThrow("in the trash");
+
+    await txDb.insert(solicitor).values([
+      { contactId: survivorId },
+      { contactId: mergedId },
+    ]);
+    await expect(merge()).rejects.toThrow("Both contacts are solicitors");
+    expect(await txDb.select().from(contact)).toHaveLength(3);
+  });
+});
@@ -0,0 +1,429 @@
+import {
+  and,
+  desc,
+  eq,
+  exists,
+  getTableColumns,
+  inArray,
+  or,
+  type SQL,
+} from "drizzle-orm";
+import { alias, type AnyPgColumn, type PgTable } from "drizzle-orm/pg-core";
+import { db, type DbExecutor } from "@/lib/db";
+import {
+  auditLog,
+  contact,
+  contactAddress,
+  contactEmail,
+  contactMerge,
+  contactPhone,
+  contactRoles,
+  pledge,
+  processorEvent,
+  receipt,
+  relationships,
+  reminderLog,
+  solicitor,
+  staffUser,
+  studentRoles,
+  type Contact,
+  webhookDelivery,
+  type ContactMerge,
+} from "@/lib/db/schema";
+import { recordAudit } from "@/lib/audit";
+import { reconcilePrimaryChannels } from "@/lib/contact-channels";
+import { moveHouseholdRecords } from "@/lib/households";
+import type { SessionUser } from "@/lib/auth/guard";
+import { MERGE_FIELDS, type MergeField } from "@/lib/form-schemas/contact-merge";
+
+// Merging folds a duplicate contact into the one that survives: everything
+// that points at the duplicate (pledges, roles, relationships, the solicitor
+// record, addresses, phones, emails, household membership, receipts,
+// reminders, staff logins, processor events, webhook deliveries and audit
+// history) is re-pointed to the survivor, blank fields on the survivor are
+// filled from the duplicate, and the duplicate is deleted. A contact_merge
+// row keeps its last state and what was moved.
+
+export class ContactMergeStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ContactMergeStateError";
+  }
+}
+
+export interface MergeOptions {
+  // Fields to take from the merged contact even where the survivor has a
+  // value. Blank survivor fields are always filled.
+  take?: MergeField[];
+}
+
+export interface MovedRecords {
+  pledges: number;
+  contactRoles: number;
+  studentRoles: number;
+  addresses: number;
+  phones: number;
+  emails: number;
+  relationships: number;
+  households: number;
+  solicitor: number;
+  receipts: number;
+  reminders: number;
+  staffUsers: number;
+  processorEvents: number;
+  webhookDeliveries: number;
+  auditEntries: number;
+}
+
+export interface ContactMergeResult {
+  survivorBefore: Contact;
+  survivor: Contact;
+  merged: Contact;
+  movedRecords: MovedRecords;
+  record: ContactMerge;
+}
+
+async function lockContact(
+  contactId: number,
+  executor: DbExecutor
+): Promise<Contact> {
+  const [row] = await executor
+    .select()
+    .from(contact)
+    .where(eq(contact.id, contactId))
+    .for("update");
+  if (!row) {
+    throw new ContactMergeStateError(`Contact ${contactId} does not exist`);
+  }
+  if (row.deletedAt) {
+    throw new ContactMergeStateError(
+      `Contact ${contactId} is in the trash; restore it before merging`
+    );
+  }
+  return row;
+}
+
+async function repoint(
+  table: PgTable,
+  column: AnyPgColumn,
+  fromId: number,
+  toId: number,
+  executor: DbExecutor
+): Promise<number> {
+  const [key] = Object.entries(getTableColumns(table)).find(
+    ([, candidate]) => candidate === column
+  )!;
+  const rows = await executor
+    .update(table)
+    .set({ [key]: toId })
+    .where(eq(column, fromId))
+    .returning();
+  return rows.length;
+}
+
+// Moves the merged contact's relationships to the survivor. Relationships
+// between the two would point at the survivor itself and ones the survivor
+// already has would break the unique index, so both are dropped instead.
+async function moveRelationships(
+  survivorId: number,
+  mergedId: number,
+  executor: DbExecutor
+): Promise<number> {
+  await executor
+    .delete(relationships)
+    .where(
+      or(
+        and(
+          eq(relationships.contactId, mergedId),
+          eq(relationships.relatedContactId, survivorId)
+        ),
+        and(
+          eq(relationships.contactId, survivorId),
+          eq(relationships.relatedContactId, mergedId)
+        )
+      )
+    );
+
+  const existing = alias(relationships, "existing");
+  const sameAs = (
+    side: "contactId" | "relatedContactId",
+    other: "contactId" | "relatedContactId"
+  ): SQL =>
+    exists(
+      executor
+        .select({ id: existing.id })
+        .from(existing)
+        .where(
+          and(
+            eq(existing[side], survivorId),
+            eq(existing[other], relationships[other]),
+            eq(existing.relationshipType, relationships.relationshipType)
+          )
+        )
+    );
+
+  await executor
+    .delete(relationships)
+    .where(
+      or(
+        and(
+          eq(relationships.contactId, mergedId),
+          sameAs("contactId", "relatedContactId")
+        ),
+        and(
+          eq(relationships.relatedContactId, mergedId),
+          sameAs("relatedContactId", "contactId")
+        )
+      )
+    );
+
+  return (
+    (await repoint(
+      relationships,
+      relationships.contactId,
+      mergedId,
+      survivorId,
+      executor
+    )) +
+    (await repoint(
+      relationships,
+      relationships.relatedContactId,
+      mergedId,
+      survivorId,
+      executor
+    ))
+  );
+}
+
+function mergedFields(
+  survivor: Contact,
+  merged: Contact,
+  take: MergeField[]
+): Partial<Contact> {
+  const changes: Record<string, unknown> = {};
+  for (const field of MERGE_FIELDS) {
+    const current = survivor[field];
+    const incoming = merged[field];
+    const isBlank = current === null || current === "";
+    if (incoming === null || incoming === "" || incoming === current) continue;
+    if (isBlank || take.includes(field)) changes[field] = incoming;
+  }
+  return changes as Partial<Contact>;
+}
+
+// Merges `mergedId` into `survivorId`. Run inside a transaction.
+export async function mergeContacts(
+  survivorId: number,
+  mergedId: number,
+  options: MergeOptions,
+  mergedBy: number | null,
+  executor: DbExecutor
+): Promise<ContactMergeResult> {
+  if (survivorId === mergedId) {
+    throw new ContactMergeStateError("A contact cannot be merged into itself");
+  }
+
+  // Lock in id order so two merges of the same pair cannot deadlock
+  const [first, second] = [survivorId, mergedId].sort((a, b) => a - b);
+  const locked = new Map<number, Contact>();
+  locked.set(first, await lockContact(first, executor));
+  locked.set(second, await lockContact(second, executor));
+  const survivorBefore = locked.get(survivorId)!;
+  const merged = locked.get(mergedId)!;
+
+  const solicitors = await executor
+    .select({ id: solicitor.id, contactId: solicitor.contactId })
+    .from(solicitor)
+    .where(inArray(solicitor.contactId, [survivorId, mergedId]));
+  if (solicitors.length > 1) {
+    throw new ContactMergeStateError(
+      "Both contacts are solicitors and cannot be merged"
+    );
+  }
+
+  const movedRecords: MovedRecords = {
+    pledges: await repoint(
+      pledge,
+      pledge.contactId,
+      mergedId,
+      survivorId,
+      executor
+    ),
+    contactRoles: await repoint(
+      contactRoles,
+      contactRoles.contactId,
+      mergedId,
+      survivorId,
+      executor
+    ),
+    studentRoles: await repoint(
+      studentRoles,
+      studentRoles.contactId,
+      mergedId,
+      survivorId,
+      executor
+    ),
+    addresses: await repoint(
+      contactAddress,
+      contactAddress.contactId,
+      mergedId,
+      survivorId,
+      executor
+    ),
+    phones: await repoint(
+      contactPhone,
+      contactPhone.contactId,
+      mergedId,
+      survivorId,
+      executor
+    ),
+    emails: await repoint(
+      contactEmail,
+      contactEmail.contactId,
+      mergedId,
+      survivorId,
+      executor
+    ),
+    relationships: await moveRelationships(survivorId, mergedId, executor),
+    households: await moveHouseholdRecords(survivorId, mergedId, executor),
+    solicitor: await repoint(
+      solicitor,
+      solicitor.contactId,
+      mergedId,
+      survivorId,
+      executor
+    ),
+    receipts: await repoint(
+      receipt,
+      receipt.contactId,
+      mergedId,
+      survivorId,
+      executor
+    ),
+    reminders: await repoint(
+      reminderLog,
+      reminderLog.contactId,
+      mergedId,
+      survivorId,
+      executor
+    ),
+    staffUsers: await repoint(
+      staffUser,
+      staffUser.contactId,
+      mergedId,
+      survivorId,
+      executor
+    ),
+    processorEvents: await repoint(
+      processorEvent,
+      processorEvent.contactId,
+      mergedId,
+      survivorId,
+      executor
+    ),
+    webhookDeliveries: await repoint(
+      webhookDelivery,
+      webhookDelivery.contactId,
+      mergedId,
+      survivorId,
+      executor
+    ),
+    auditEntries:
+      (await repoint(
+        auditLog,
+        auditLog.contactId,
+        mergedId,
+        survivorId,
+        executor
+      )) +
+      (await repoint(
+        auditLog,
+        auditLog.changedBy,
+        mergedId,
+        survivorId,
+        executor
+      )),
+  };
+
+  // Deleted before the survivor takes its fields, as the email is unique
+  await executor.delete(contact).where(eq(contact.id, mergedId));
+
+  const changes = mergedFields(survivorBefore, merged, options.take ?? []);
+  const [survivor] = await executor
+    .update(contact)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(eq(contact.id, survivorId))
+    .returning();
+  // Both contacts' primary entries came along; keep the survivor's
+  await reconcilePrimaryChannels(survivorId, executor);
+
+  const [record] = await executor
+    .insert(contactMerge)
+    .values({
+      survivorId,
+      mergedContactId: mergedId,
+      mergedContact: JSON.stringify(merged),
+      movedRecords: JSON.stringify(movedRecords),
+      mergedBy,
+    })
+    .returning();
+
+  return { survivorBefore, survivor, merged, movedRecords, record };
+}
+
+// The merged contact's history now belongs to the survivor, so both entries
+// are filed under the survivor.
+export async function auditContactMerge(
+  user: SessionUser | null,
+  result: ContactMergeResult
+): Promise<void> {
+  await recordAudit(user, {
+    table: contact,
+    recordId: result.merged.id,
+    action: "delete",
+    before: result.merged,
+    contactId: result.survivor.id,
+  });
+  await recordAudit(user, {
+    table: contact,
+    recordId: result.survivor.id,
+    action: "update",
+    before: result.survivorBefore,
+    after: result.survivor,
+    contactId: result.survivor.id,
+  });
+  await recordAudit(user, {
+    table: contactMerge,
+    recordId: result.record.id,
+    action: "create",
+    after: result.record,
+    contactId: result.survivor.id,
+  });
+}
+
+export interface ContactMergeEntry
+  extends Omit<ContactMerge, "mergedContact" | "movedRecords"> {
+  mergedContact: Contact;
+  movedRecords: MovedRecords;
+  mergedByName: string | null;
+}
+
+// Past merges, newest first; `contactId` narrows them to one survivor.
+export async function listContactMerges(
+  contactId?: number,
+  executor: DbExecutor = db
+): Promise<ContactMergeEntry[]> {
+  const rows = await executor
+    .select({ merge: contactMerge, mergedByName: staffUser.name })
+    .from(contactMerge)
+    .leftJoin(staffUser, eq(contactMerge.mergedBy, staffUser.id))
+    .where(contactId ? eq(contactMerge.survivorId, contactId) : undefined)
+    .orderBy(desc(contactMerge.mergedAt), desc(contactMerge.id));
+
+  return rows.map(({ merge, mergedByName }) => ({
+    ...merge,
+    mergedContact: JSON.parse(merge.mergedContact),
+    movedRecords: JSON.parse(merge.movedRecords),
+    mergedByName,
+  }));
+}
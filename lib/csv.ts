@@ -0,0 +1,14 @@
+export type CsvValue = string | number | null | undefined;
+
+function escapeCell(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180 text, one line per row.
+export function toCsv(rows: CsvValue[][]): string {
+  return rows
+    .map((row) => row.map(escapeCell).join(","))
+    .join("\r\n");
+}
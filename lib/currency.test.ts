@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  convertAmount,
+  fromUsd,
+  moneyString,
+  normalizeRate,
+  rateString,
+  toNumber,
+  toUsd,
+} from "./currency";
+
+describe("toNumber", () => {
+  it("reads numeric column strings", () => {
+    expect(toNumber("12.50")).toBe(12.5);
+  });
+
+  it("falls back for empty and unparseable values", () => {
+    expect(toNumber(null)).toBe(0);
+    expect(toNumber("")).toBe(0);
+    expect(toNumber("abc", 7)).toBe(7);
+  });
+});
+
+describe("normalizeRate", () => {
+  it("treats a missing or non-positive rate as US dollars", () => {
+    expect(normalizeRate(null)).toBe(1);
+    expect(normalizeRate("0")).toBe(1);
+    expect(normalizeRate(-3)).toBe(1);
+    expect(normalizeRate("3.7")).toBe(3.7);
+  });
+});
+
+describe("toUsd and fromUsd", () => {
+  it("divide and multiply by units per dollar", () => {
+    expect(toUsd(370, 3.7)).toBe(100);
+    expect(fromUsd(100, 150)).toBe(15000);
+  });
+
+  it("round to cents", () => {
+    expect(toUsd(100, 3)).toBe(33.33);
+    expect(toUsd("1.005", 1)).toBe(1.01);
+  });
+});
+
+describe("convertAmount", () => {
+  it("converts between two currencies through dollars", () => {
+    // 370 ILS = 100 USD = 92 EUR
+    expect(convertAmount(370, 3.7, 0.92)).toBe(92);
+  });
+
+  it("does not round the intermediate dollar amount", () => {
+    // 100 / 3 = 33.333... USD; rounding it first would give 99.99
+    expect(convertAmount(100, 3, 3)).toBe(100);
+  });
+});
+
+describe("database strings", () => {
+  it("writes money with two decimals", () => {
+    expect(moneyString(12)).toBe("12.00");
+    expect(moneyString(0.125)).toBe("0.13");
+  });
+
+  it("keeps eight decimals of a rate", () => {
+    expect(rateString(3.712345678)).toBe("3.71234568");
+    expect(rateString(null)).toBe("1");
+  });
+});
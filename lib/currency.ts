@@ -0,0 +1,64 @@
+// Currency conversion shared by the API routes, forms and backfill scripts.
+//
+// Rate direction: every exchange rate in this app is the number of units of
+// the record's currency that one US dollar buys (e.g. ILS ≈ 3.7, JPY ≈ 150,
+// USD = 1). This matches the exchange_rate table and provider quotes, so
+//
+//   usd    = amount / rate
+//   amount = usd * rate
+//
+// Rates are stored as numeric(18,8); money amounts as numeric(10,2).
+
+export const RATE_DECIMALS = 8;
+export const MONEY_DECIMALS = 2;
+
+type Numeric = number | string | null | undefined;
+
+export function toNumber(value: Numeric, fallback = 0): number {
+  if (value === null || value === undefined || value === "") return fallback;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return isNaN(parsed) ? fallback : parsed;
+}
+
+// A missing or non-positive rate is treated as 1 (i.e. already in USD).
+export function normalizeRate(rate: Numeric): number {
+  const parsed = toNumber(rate, 1);
+  return parsed > 0 ? parsed : 1;
+}
+
+export function roundMoney(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+export function roundRate(rate: number): number {
+  return Number(rate.toFixed(RATE_DECIMALS));
+}
+
+export function toUsd(amount: Numeric, rate: Numeric): number {
+  return roundMoney(toNumber(amount) / normalizeRate(rate));
+}
+
+export function fromUsd(amountUsd: Numeric, rate: Numeric): number {
+  return roundMoney(toNumber(amountUsd) * normalizeRate(rate));
+}
+
+// Converts between two non-USD currencies through US dollars, without
+// rounding the intermediate dollar amount.
+export function convertAmount(
+  amount: Numeric,
+  fromRate: Numeric,
+  toRate: Numeric
+): number {
+  return roundMoney(
+    (toNumber(amount) / normalizeRate(fromRate)) * normalizeRate(toRate)
+  );
+}
+
+// Database-ready strings for numeric columns.
+export function moneyString(amount: number): string {
+  return roundMoney(amount).toFixed(MONEY_DECIMALS);
+}
+
+export function rateString(rate: Numeric): string {
+  return roundRate(normalizeRate(rate)).toString();
+}
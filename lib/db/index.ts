@@ -1,5 +1,8 @@
 import { drizzle } from "drizzle-orm/neon-http";
-import { neon } from "@neondatabase/serverless";
+import { drizzle as drizzlePool } from "drizzle-orm/neon-serverless";
+import { neon, neonConfig, Pool } from "@neondatabase/serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
 import * as schema from "./schema";
 
 if (!process.env.DATABASE_URL || "") {
@@ -11,3 +14,22 @@ export const db = drizzle(sql, {
   schema,
   logger: process.env.NODE_ENV === "development" ? true : false,
 });
+
+// The HTTP driver above has no transactions. Writes that must succeed or fail
+// as a unit go through this WebSocket pool instead:
+//
+//   await txDb.transaction(async (tx) => { ... });
+neonConfig.webSocketConstructor = ws;
+
+const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+export const txDb = drizzlePool(pool, {
+  schema,
+  logger: process.env.NODE_ENV === "development" ? true : false,
+});
+
+export type DbTransaction = Parameters<
+  Parameters<typeof txDb.transaction>[0]
+>[0];
+
+// Either connection or an open transaction, for helpers used in both.
+export type DbExecutor = PgDatabase<PgQueryResultHKT, typeof schema>;
@@ -10,8 +10,9 @@ import {
   numeric,
   uniqueIndex,
   pgEnum,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 
 export const titleEnum = pgEnum("title", [
   "mr",
@@ -192,6 +193,39 @@ export const bonusPaymentTypeEnum = pgEnum("bonus_payment_type", [
   "both",
 ]);
 
+export const payoutBatchStatusEnum = pgEnum("payout_batch_status", [
+  "draft", // open; its calculations can still be recalculated
+  "approved", // amounts are final and awaiting payment
+  "paid",
+  "cancelled", // calculations were released back to unbatched
+]);
+
+export const reminderChannelEnum = pgEnum("reminder_channel", ["email", "sms"]);
+
+export const reminderKindEnum = pgEnum("reminder_kind", [
+  "upcoming", // installment falls due within the reminder window
+  "overdue",
+]);
+
+export const reminderStatusEnum = pgEnum("reminder_status", ["sent", "failed"]);
+
+export const receiptStatusEnum = pgEnum("receipt_status", [
+  "issued",
+  "void", // kept with its number; a reissue gets a new one
+]);
+
+export const refundTypeEnum = pgEnum("refund_type", [
+  "refund", // money returned to the donor
+  "reversal", // the payment was booked in error or never cleared
+  "chargeback", // the donor's bank or card issuer took the money back
+]);
+
+export const bonusCalculationTypeEnum = pgEnum("bonus_calculation_type", [
+  "percentage", // bonusPercentage of each payment
+  "flat", // flatAmount per payment
+  "tiered", // marginal percentages by the solicitor's yearly volume (bonus_rule_tier)
+]);
+
 // new enum for distribution type
 export const distributionTypeEnum = pgEnum("distribution_type", [
   "fixed",
@@ -206,6 +240,84 @@ export const installmentStatusEnum = pgEnum("installment_status", [
   "cancelled",
 ]);
 
+export const staffRoleEnum = pgEnum("staff_role", [
+  "admin",
+  "bookkeeper",
+  "solicitor",
+  "read_only",
+]);
+
+export const addressTypeEnum = pgEnum("address_type", [
+  "home",
+  "work",
+  "mailing",
+  "other",
+]);
+
+export const phoneTypeEnum = pgEnum("phone_type", [
+  "mobile",
+  "home",
+  "work",
+  "other",
+]);
+
+export const emailTypeEnum = pgEnum("email_type", ["personal", "work", "other"]);
+
+export const importKindEnum = pgEnum("import_kind", [
+  "contact",
+  "pledge",
+  "payment",
+]);
+
+export const importStatusEnum = pgEnum("import_status", [
+  "committed",
+  "failed",
+  "rolled_back",
+]);
+
+export const depositBatchKindEnum = pgEnum("deposit_batch_kind", [
+  "statement", // read from a payout or bank statement file
+  "entry", // checks and cash keyed in as they are deposited
+]);
+
+export const depositBatchStatusEnum = pgEnum("deposit_batch_status", [
+  "open", // lines can still be matched
+  "closed", // every line confirmed or ignored; its payments are reconciled
+]);
+
+export const depositLineStatusEnum = pgEnum("deposit_line_status", [
+  "unmatched",
+  "suggested", // matched automatically, awaiting confirmation
+  "confirmed",
+  "ignored", // a fee, transfer or other line with no payment behind it
+]);
+
+export const paymentProcessorEnum = pgEnum("payment_processor", [
+  "stripe",
+  "paypal",
+]);
+
+export const processorEventStatusEnum = pgEnum("processor_event_status", [
+  "received",
+  "processed",
+  "ignored", // an event type or outcome that changes nothing
+  "failed", // kept with its error until replayed
+]);
+
+export const webhookDeliveryStatusEnum = pgEnum("webhook_delivery_status", [
+  "received",
+  "processed",
+  "duplicate", // matches an existing record, so nothing was created
+  "failed", // kept with its error until replayed
+]);
+
+export const householdRoleEnum = pgEnum("household_role", [
+  "head",
+  "spouse",
+  "child",
+  "other",
+]);
+
 export const contact = pgTable("contact", {
   id: serial("id").primaryKey(),
   firstName: text("first_name").notNull(),
@@ -214,7 +326,17 @@ export const contact = pgTable("contact", {
   phone: text("phone"),
   title: text("title"),
   gender: genderEnum("gender"),
+  // Mirrors of the primary email, phone and address (formatted) in the
+  // contact_email, contact_phone and contact_address tables; see
+  // lib/contact-channels.ts
   address: text("address"),
+  // Currency for donor-facing totals such as year-end statements; USD if unset
+  preferredCurrency: currencyEnum("preferred_currency"),
+  // Set while the contact is in the trash (see lib/trash.ts)
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: integer("deleted_by").references((): AnyPgColumn => staffUser.id, {
+    onDelete: "set null",
+  }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -306,10 +428,122 @@ export const relationships = pgTable(
 export type Relationship = typeof relationships.$inferSelect;
 export type NewRelationship = typeof relationships.$inferInsert;
 
+// A family that gives together, usually built from its members' spouse and
+// child relationships (see lib/households.ts). A contact belongs to at most
+// one household. `salutation` overrides the joint one made from the members.
+export const household = pgTable("household", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  salutation: text("salutation"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type Household = typeof household.$inferSelect;
+export type NewHousehold = typeof household.$inferInsert;
+
+export const householdMember = pgTable(
+  "household_member",
+  {
+    id: serial("id").primaryKey(),
+    householdId: integer("household_id")
+      .references(() => household.id, { onDelete: "cascade" })
+      .notNull(),
+    contactId: integer("contact_id")
+      .references(() => contact.id, { onDelete: "cascade" })
+      .notNull(),
+    role: householdRoleEnum("role").notNull().default("other"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    householdIdIdx: index("household_member_household_id_idx").on(
+      table.householdId
+    ),
+    contactIdUnique: uniqueIndex("household_member_contact_id_unique").on(
+      table.contactId
+    ),
+  })
+);
+
+export type HouseholdMember = typeof householdMember.$inferSelect;
+export type NewHouseholdMember = typeof householdMember.$inferInsert;
+
+// A contact's addresses, phone numbers and emails. One of each may be primary.
+// Emails are not unique here, so spouses can share one.
+export const contactAddress = pgTable(
+  "contact_address",
+  {
+    id: serial("id").primaryKey(),
+    contactId: integer("contact_id")
+      .references(() => contact.id, { onDelete: "cascade" })
+      .notNull(),
+    type: addressTypeEnum("type").notNull().default("home"),
+    street: text("street").notNull(),
+    city: text("city"),
+    state: text("state"),
+    postalCode: text("postal_code"),
+    country: text("country"),
+    isPrimary: boolean("is_primary").default(false).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    contactIdIdx: index("contact_address_contact_id_idx").on(table.contactId),
+  })
+);
+
+export type ContactAddress = typeof contactAddress.$inferSelect;
+export type NewContactAddress = typeof contactAddress.$inferInsert;
+
+export const contactPhone = pgTable(
+  "contact_phone",
+  {
+    id: serial("id").primaryKey(),
+    contactId: integer("contact_id")
+      .references(() => contact.id, { onDelete: "cascade" })
+      .notNull(),
+    type: phoneTypeEnum("type").notNull().default("mobile"),
+    number: text("number").notNull(),
+    isPrimary: boolean("is_primary").default(false).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    contactIdIdx: index("contact_phone_contact_id_idx").on(table.contactId),
+  })
+);
+
+export type ContactPhone = typeof contactPhone.$inferSelect;
+export type NewContactPhone = typeof contactPhone.$inferInsert;
+
+export const contactEmail = pgTable(
+  "contact_email",
+  {
+    id: serial("id").primaryKey(),
+    contactId: integer("contact_id")
+      .references(() => contact.id, { onDelete: "cascade" })
+      .notNull(),
+    type: emailTypeEnum("type").notNull().default("personal"),
+    email: text("email").notNull(),
+    isPrimary: boolean("is_primary").default(false).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    contactIdIdx: index("contact_email_contact_id_idx").on(table.contactId),
+    emailIdx: index("contact_email_email_idx").on(table.email),
+  })
+);
+
+export type ContactEmail = typeof contactEmail.$inferSelect;
+export type NewContactEmail = typeof contactEmail.$inferInsert;
+
 export const category = pgTable("category", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
   description: text("description"),
+  bonusPaymentType: bonusPaymentTypeEnum("bonus_payment_type"), // "tuition" or "donation" for bonus rules; NULL matches only "both" rules
   isActive: boolean("is_active").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -345,11 +579,17 @@ export const pledge = pgTable("pledge", {
   totalPaidUsd: numeric("total_paid_usd", { precision: 10, scale: 2 }).default(
     "0"
   ),
-  exchangeRate: numeric("exchange_rate", { precision: 10, scale: 2 }),
+  // Units of `currency` per one US dollar (see lib/currency.ts)
+  exchangeRate: numeric("exchange_rate", { precision: 18, scale: 8 }),
   balanceUsd: numeric("balance_usd", { precision: 10, scale: 2 }),
   campaignCode: text("campaign_code"),
   isActive: boolean("is_active").default(true).notNull(),
   notes: text("notes"),
+  // Set while the pledge is in the trash (see lib/trash.ts)
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: integer("deleted_by").references(() => staffUser.id, {
+    onDelete: "set null",
+  }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -381,10 +621,14 @@ export const paymentPlan = pgTable(
       scale: 2,
     }).notNull(),
     numberOfInstallments: integer("number_of_installments").notNull(),
-    exchangeRate: numeric("exchange_rate", { precision: 10, scale: 2 }),
+    // Units of `currency` per one US dollar (see lib/currency.ts)
+    exchangeRate: numeric("exchange_rate", { precision: 18, scale: 8 }),
     startDate: date("start_date").notNull(),
     endDate: date("end_date"),
     nextPaymentDate: date("next_payment_date"),
+    // First installment of the current cycle; NULL until an autoRenew plan
+    // renews, meaning startDate
+    cycleStartDate: date("cycle_start_date"),
 
     installmentsPaid: integer("installments_paid").default(0).notNull(),
     totalPaid: numeric("total_paid", { precision: 10, scale: 2 })
@@ -400,10 +644,13 @@ export const paymentPlan = pgTable(
     autoRenew: boolean("auto_renew").default(false).notNull(),
     remindersSent: integer("reminders_sent").default(0).notNull(),
     lastReminderDate: date("last_reminder_date"),
+    remindersOptOut: boolean("reminders_opt_out").default(false).notNull(),
 
     isActive: boolean("is_active").default(true).notNull(),
     notes: text("notes"),
     internalNotes: text("internal_notes"),
+    // Set while the plan's pledge is in the trash (see lib/trash.ts)
+    deletedAt: timestamp("deleted_at"),
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
   },
@@ -419,6 +666,45 @@ export const paymentPlan = pgTable(
 export type PaymentPlan = typeof paymentPlan.$inferSelect;
 export type NewPaymentPlan = typeof paymentPlan.$inferInsert;
 
+// Every payment reminder sent (or attempted) to a donor, with the rendered
+// message as delivered.
+export const reminderLog = pgTable(
+  "reminder_log",
+  {
+    id: serial("id").primaryKey(),
+    paymentPlanId: integer("payment_plan_id")
+      .references(() => paymentPlan.id, { onDelete: "cascade" })
+      .notNull(),
+    installmentScheduleId: integer("installment_schedule_id").references(
+      () => installmentSchedule.id,
+      { onDelete: "set null" }
+    ),
+    contactId: integer("contact_id").references(() => contact.id, {
+      onDelete: "set null",
+    }),
+    kind: reminderKindEnum("kind").notNull(),
+    channel: reminderChannelEnum("channel").notNull(),
+    recipient: text("recipient").notNull(),
+    subject: text("subject"),
+    body: text("body").notNull(),
+    transport: text("transport").notNull(),
+    status: reminderStatusEnum("status").notNull(),
+    error: text("error"),
+    sentAt: timestamp("sent_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    paymentPlanIdIdx: index("reminder_log_payment_plan_id_idx").on(
+      table.paymentPlanId
+    ),
+    installmentIdx: index("reminder_log_installment_schedule_id_idx").on(
+      table.installmentScheduleId
+    ),
+  })
+);
+
+export type ReminderLog = typeof reminderLog.$inferSelect;
+export type NewReminderLog = typeof reminderLog.$inferInsert;
+
 // NEW TABLES FOR SOLICITOR SYSTEM
 // Solicitor table - links to existing contact
 export const solicitor = pgTable(
@@ -457,11 +743,21 @@ export const bonusRule = pgTable(
       .references(() => solicitor.id, { onDelete: "cascade" })
       .notNull(),
     ruleName: text("rule_name").notNull(),
+    calculationType: bonusCalculationTypeEnum("calculation_type")
+      .notNull()
+      .default("percentage"),
     bonusPercentage: numeric("bonus_percentage", {
       precision: 5,
       scale: 2,
-    }).notNull(),
+    }).notNull(), // Used by "percentage" rules; "0" otherwise
+    flatAmount: numeric("flat_amount", { precision: 10, scale: 2 }), // USD per payment for "flat" rules
+    yearlyCap: numeric("yearly_cap", { precision: 10, scale: 2 }), // Most this rule pays a solicitor per calendar year, in USD
     paymentType: bonusPaymentTypeEnum("payment_type").notNull().default("both"),
+    // Optional targeting; NULL or empty matches any pledge category, campaign
+    // code or payment method
+    categoryIds: integer("category_ids").array(),
+    campaignCodes: text("campaign_codes").array(),
+    paymentMethods: paymentMethodEnum("payment_methods").array(),
     minAmount: numeric("min_amount", { precision: 10, scale: 2 }), // Minimum payment to qualify
     maxAmount: numeric("max_amount", { precision: 10, scale: 2 }), // Maximum bonus cap
     effectiveFrom: date("effective_from").notNull(),
@@ -485,6 +781,37 @@ export const bonusRule = pgTable(
 export type BonusRule = typeof bonusRule.$inferSelect;
 export type NewBonusRule = typeof bonusRule.$inferInsert;
 
+// Tiers of a "tiered" bonus rule. Each tier's percentage applies to the part
+// of a payment that falls at or above its minVolume of USD the solicitor has
+// raised in the payment's calendar year, up to the next tier.
+export const bonusRuleTier = pgTable(
+  "bonus_rule_tier",
+  {
+    id: serial("id").primaryKey(),
+    bonusRuleId: integer("bonus_rule_id")
+      .references(() => bonusRule.id, { onDelete: "cascade" })
+      .notNull(),
+    minVolume: numeric("min_volume", { precision: 12, scale: 2 }).notNull(),
+    bonusPercentage: numeric("bonus_percentage", {
+      precision: 5,
+      scale: 2,
+    }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    bonusRuleIdIdx: index("bonus_rule_tier_bonus_rule_id_idx").on(
+      table.bonusRuleId
+    ),
+    ruleVolumeUnique: uniqueIndex("bonus_rule_tier_rule_volume_unique").on(
+      table.bonusRuleId,
+      table.minVolume
+    ),
+  })
+);
+
+export type BonusRuleTier = typeof bonusRuleTier.$inferSelect;
+export type NewBonusRuleTier = typeof bonusRuleTier.$inferInsert;
+
 // NEW TABLE: Installment Schedules
 export const installmentSchedule = pgTable(
   "installment_schedule",
@@ -550,7 +877,8 @@ export type NewInstallmentSchedule = typeof installmentSchedule.$inferInsert;
         precision: 10,
         scale: 2,
       }),
-      exchangeRate: numeric("exchange_rate", { precision: 10, scale: 4 }),
+      // Units of `currency` per one US dollar (see lib/currency.ts)
+      exchangeRate: numeric("exchange_rate", { precision: 18, scale: 8 }),
 
       paymentDate: date("payment_date").notNull(),
       receivedDate: date("received_date"),
@@ -579,6 +907,48 @@ export type NewInstallmentSchedule = typeof installmentSchedule.$inferInsert;
 
       notes: text("notes"),
 
+      // Set on a refund, reversal or chargeback: a negative payment against
+      // the payment it gives money back for.
+      refundOfPaymentId: integer("refund_of_payment_id").references(
+        (): AnyPgColumn => payment.id,
+        { onDelete: "restrict" }
+      ),
+      refundType: refundTypeEnum("refund_type"),
+      refundReason: text("refund_reason"),
+      // On the original payment: how much of `amount` has been refunded so far
+      refundedAmount: numeric("refunded_amount", { precision: 10, scale: 2 })
+        .default("0")
+        .notNull(),
+
+      // Set when the payment is credited to a household rather than only to
+      // its payer; payment_attribution shares it among the members
+      householdId: integer("household_id").references(() => household.id, {
+        onDelete: "set null",
+      }),
+
+      // Set once a deposit line for this payment is confirmed (see
+      // lib/deposits): the money is known to have reached the bank
+      depositBatchId: integer("deposit_batch_id").references(
+        (): AnyPgColumn => depositBatch.id,
+        { onDelete: "set null" }
+      ),
+      reconciledAt: timestamp("reconciled_at"),
+      reconciledBy: integer("reconciled_by").references(() => staffUser.id, {
+        onDelete: "set null",
+      }),
+
+      // Set while the payment is in the trash (see lib/trash.ts)
+      deletedAt: timestamp("deleted_at"),
+      deletedBy: integer("deleted_by").references(() => staffUser.id, {
+        onDelete: "set null",
+      }),
+
+      // Client-supplied Idempotency-Key of the POST that created the payment,
+      // so a retried request returns this payment instead of booking another.
+      idempotencyKey: text("idempotency_key"),
+      // SHA-256 of that request's validated body; a retry must match it
+      idempotencyRequestHash: text("idempotency_request_hash"),
+
       createdAt: timestamp("created_at").defaultNow().notNull(),
       updatedAt: timestamp("updated_at").defaultNow().notNull(),
     },
@@ -594,6 +964,10 @@ export type NewInstallmentSchedule = typeof installmentSchedule.$inferInsert;
       // *** NEW INDEX ***
       solicitorIdIdx: index("payment_solicitor_id_idx").on(table.solicitorId),
       installmentScheduleIdIdx: index("payment_installment_schedule_id_idx").on(table.installmentScheduleId),
+      idempotencyKeyUnique: uniqueIndex("payment_idempotency_key_unique").on(table.idempotencyKey),
+      refundOfPaymentIdIdx: index("payment_refund_of_payment_id_idx").on(table.refundOfPaymentId),
+      householdIdIdx: index("payment_household_id_idx").on(table.householdId),
+      depositBatchIdIdx: index("payment_deposit_batch_id_idx").on(table.depositBatchId),
     })
   );
 
@@ -650,6 +1024,108 @@ export type NewInstallmentSchedule = typeof installmentSchedule.$inferInsert;
   export type PaymentAllocation = typeof paymentAllocations.$inferSelect;
   export type NewPaymentAllocation = typeof paymentAllocations.$inferInsert;
 
+// How a payment credited to a household is shared among its members, in USD.
+// The shares add up to the payment's amountUsd.
+export const paymentAttribution = pgTable(
+  "payment_attribution",
+  {
+    id: serial("id").primaryKey(),
+    paymentId: integer("payment_id")
+      .references(() => payment.id, { onDelete: "cascade" })
+      .notNull(),
+    contactId: integer("contact_id")
+      .references(() => contact.id, { onDelete: "cascade" })
+      .notNull(),
+    amountUsd: numeric("amount_usd", { precision: 10, scale: 2 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    contactIdIdx: index("payment_attribution_contact_id_idx").on(
+      table.contactId
+    ),
+    uniqueAttribution: uniqueIndex("payment_attribution_unique").on(
+      table.paymentId,
+      table.contactId
+    ),
+  })
+);
+
+export type PaymentAttribution = typeof paymentAttribution.$inferSelect;
+export type NewPaymentAttribution = typeof paymentAttribution.$inferInsert;
+
+// Last receipt number handed out in each fiscal year. Numbers are taken in
+// the same transaction as the receipt, so a failed issue never leaves a gap.
+export const receiptSequence = pgTable("receipt_sequence", {
+  fiscalYear: integer("fiscal_year").primaryKey(),
+  lastNumber: integer("last_number").default(0).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Tax receipts issued for payments. The donor, amount and date are copied
+// from the payment when issued so the receipt reads the same if the payment
+// changes later.
+export const receipt = pgTable(
+  "receipt",
+  {
+    id: serial("id").primaryKey(),
+    receiptNumber: text("receipt_number").notNull(),
+    fiscalYear: integer("fiscal_year").notNull(),
+    sequence: integer("sequence").notNull(),
+    paymentId: integer("payment_id").references(() => payment.id, {
+      onDelete: "set null",
+    }),
+    contactId: integer("contact_id").references(() => contact.id, {
+      onDelete: "set null",
+    }),
+    receiptType: receiptTypeEnum("receipt_type").default("receipt").notNull(),
+    status: receiptStatusEnum("status").default("issued").notNull(),
+
+    donorName: text("donor_name").notNull(),
+    donorAddress: text("donor_address"),
+    amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+    currency: currencyEnum("currency").notNull(),
+    amountUsd: numeric("amount_usd", { precision: 10, scale: 2 }),
+    paymentDate: date("payment_date").notNull(),
+    paymentMethod: paymentMethodEnum("payment_method").notNull(),
+
+    issuedBy: integer("issued_by").references(() => staffUser.id, {
+      onDelete: "set null",
+    }),
+    issuedAt: timestamp("issued_at").defaultNow().notNull(),
+    voidedBy: integer("voided_by").references(() => staffUser.id, {
+      onDelete: "set null",
+    }),
+    voidedAt: timestamp("voided_at"),
+    voidReason: text("void_reason"),
+    // The voided receipt this one was issued in place of
+    replacesReceiptId: integer("replaces_receipt_id").references(
+      (): AnyPgColumn => receipt.id,
+      { onDelete: "set null" }
+    ),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    receiptNumberUnique: uniqueIndex("receipt_number_unique").on(
+      table.receiptNumber
+    ),
+    fiscalYearSequenceUnique: uniqueIndex(
+      "receipt_fiscal_year_sequence_unique"
+    ).on(table.fiscalYear, table.sequence),
+    paymentIdIdx: index("receipt_payment_id_idx").on(table.paymentId),
+    contactIdIdx: index("receipt_contact_id_idx").on(table.contactId),
+    // At most one live receipt per payment
+    issuedPaymentUnique: uniqueIndex("receipt_issued_payment_unique")
+      .on(table.paymentId)
+      .where(sql`${table.status} = 'issued'`),
+  })
+);
+
+export type ReceiptSequence = typeof receiptSequence.$inferSelect;
+export type Receipt = typeof receipt.$inferSelect;
+export type NewReceipt = typeof receipt.$inferInsert;
+
 
 // Bonus calculations for audit trail and reporting
 export const bonusCalculation = pgTable(
@@ -678,10 +1154,17 @@ export const bonusCalculation = pgTable(
     calculatedAt: timestamp("calculated_at").defaultNow().notNull(),
     isPaid: boolean("is_paid").default(false).notNull(),
     paidAt: timestamp("paid_at"),
+    payoutBatchId: integer("payout_batch_id").references(
+      () => payoutBatch.id,
+      { onDelete: "set null" }
+    ),
     notes: text("notes"),
   },
   (table) => ({
     paymentIdIdx: index("bonus_calculation_payment_id_idx").on(table.paymentId),
+    payoutBatchIdIdx: index("bonus_calculation_payout_batch_id_idx").on(
+      table.payoutBatchId
+    ),
     solicitorIdIdx: index("bonus_calculation_solicitor_id_idx").on(
       table.solicitorId
     ),
@@ -695,25 +1178,387 @@ export const bonusCalculation = pgTable(
 export type BonusCalculation = typeof bonusCalculation.$inferSelect;
 export type NewBonusCalculation = typeof bonusCalculation.$inferInsert;
 
-export const auditLog = pgTable("audit_log", {
-  id: serial("id").primaryKey(),
-  tableName: text("table_name").notNull(),
-  recordId: integer("record_id").notNull(),
-  action: text("action").notNull(),
-  fieldName: text("field_name"),
-  oldValue: text("old_value"),
-  newValue: text("new_value"),
-  changedBy: integer("changed_by").references(() => contact.id, {
-    onDelete: "set null",
-  }),
-  changedAt: timestamp("changed_at").defaultNow().notNull(),
-  ipAddress: text("ip_address"),
-  userAgent: text("user_agent"),
-});
+// A solicitor's unpaid bonus calculations for a period, approved and paid out
+// together. Totals are refreshed from the calculations until approval.
+export const payoutBatch = pgTable(
+  "payout_batch",
+  {
+    id: serial("id").primaryKey(),
+    solicitorId: integer("solicitor_id")
+      .references(() => solicitor.id, { onDelete: "cascade" })
+      .notNull(),
+    periodStart: date("period_start").notNull(),
+    periodEnd: date("period_end").notNull(),
+    status: payoutBatchStatusEnum("status").notNull().default("draft"),
+    totalAmount: numeric("total_amount", { precision: 12, scale: 2 })
+      .notNull()
+      .default("0"), // USD
+    calculationCount: integer("calculation_count").notNull().default(0),
+    createdBy: integer("created_by").references(() => staffUser.id, {
+      onDelete: "set null",
+    }),
+    approvedBy: integer("approved_by").references(() => staffUser.id, {
+      onDelete: "set null",
+    }),
+    approvedAt: timestamp("approved_at"),
+    paidBy: integer("paid_by").references(() => staffUser.id, {
+      onDelete: "set null",
+    }),
+    paidAt: timestamp("paid_at"),
+    paymentReference: text("payment_reference"), // Check number, transfer id, etc.
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    solicitorIdIdx: index("payout_batch_solicitor_id_idx").on(
+      table.solicitorId
+    ),
+    statusIdx: index("payout_batch_status_idx").on(table.status),
+  })
+);
+
+export type PayoutBatch = typeof payoutBatch.$inferSelect;
+export type NewPayoutBatch = typeof payoutBatch.$inferInsert;
+
+export const auditLog = pgTable(
+  "audit_log",
+  {
+    id: serial("id").primaryKey(),
+    tableName: text("table_name").notNull(),
+    recordId: integer("record_id").notNull(),
+    action: text("action").notNull(),
+    fieldName: text("field_name"),
+    oldValue: text("old_value"),
+    newValue: text("new_value"),
+    changedBy: integer("changed_by").references(() => contact.id, {
+      onDelete: "set null",
+    }),
+    staffUserId: integer("staff_user_id").references(() => staffUser.id, {
+      onDelete: "set null",
+    }),
+    // The contact whose records were touched. Deliberately not a foreign key so
+    // the history outlives the records (and the contact) it describes.
+    contactId: integer("contact_id"),
+    changedAt: timestamp("changed_at").defaultNow().notNull(),
+    ipAddress: text("ip_address"),
+    userAgent: text("user_agent"),
+  },
+  (table) => ({
+    recordIdx: index("audit_log_record_idx").on(table.tableName, table.recordId),
+    contactIdIdx: index("audit_log_contact_id_idx").on(table.contactId),
+    changedAtIdx: index("audit_log_changed_at_idx").on(table.changedAt),
+  })
+);
 
 export type AuditLog = typeof auditLog.$inferSelect;
 export type NewAuditLog = typeof auditLog.$inferInsert;
 
+// Staff users who can sign in to the app. A staff user may be linked to their
+// own contact record; solicitors must be, so their payments can be scoped.
+export const staffUser = pgTable(
+  "staff_user",
+  {
+    id: serial("id").primaryKey(),
+    email: text("email").notNull().unique(),
+    name: text("name").notNull(),
+    passwordHash: text("password_hash").notNull(),
+    role: staffRoleEnum("role").notNull().default("read_only"),
+    contactId: integer("contact_id").references(() => contact.id, {
+      onDelete: "set null",
+    }),
+    isActive: boolean("is_active").default(true).notNull(),
+    lastLoginAt: timestamp("last_login_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    roleIdx: index("staff_user_role_idx").on(table.role),
+    contactIdIdx: index("staff_user_contact_id_idx").on(table.contactId),
+  })
+);
+
+export type StaffUser = typeof staffUser.$inferSelect;
+export type NewStaffUser = typeof staffUser.$inferInsert;
+
+// Daily exchange rates cached from the configured provider. `rate` is the
+// number of units of `currency` that one US dollar buys on `date`.
+export const exchangeRate = pgTable(
+  "exchange_rate",
+  {
+    id: serial("id").primaryKey(),
+    date: date("date").notNull(),
+    currency: currencyEnum("currency").notNull(),
+    rate: numeric("rate", { precision: 18, scale: 8 }).notNull(),
+    source: text("source").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    dateCurrencyUnique: uniqueIndex("exchange_rate_date_currency_unique").on(
+      table.date,
+      table.currency
+    ),
+  })
+);
+
+export type ExchangeRate = typeof exchangeRate.$inferSelect;
+export type NewExchangeRate = typeof exchangeRate.$inferInsert;
+
+// One row per merge of a duplicate contact into another (see
+// lib/contact-merge.ts). The merged contact is deleted, so its id is kept as a
+// plain integer and its last state as a JSON snapshot.
+export const contactMerge = pgTable(
+  "contact_merge",
+  {
+    id: serial("id").primaryKey(),
+    survivorId: integer("survivor_id").references(() => contact.id, {
+      onDelete: "set null",
+    }),
+    mergedContactId: integer("merged_contact_id").notNull(),
+    mergedContact: text("merged_contact").notNull(), // JSON snapshot
+    movedRecords: text("moved_records").notNull(), // JSON counts per table
+    mergedBy: integer("merged_by").references(() => staffUser.id, {
+      onDelete: "set null",
+    }),
+    mergedAt: timestamp("merged_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    survivorIdIdx: index("contact_merge_survivor_id_idx").on(table.survivorId),
+    mergedContactIdIdx: index("contact_merge_merged_contact_id_idx").on(
+      table.mergedContactId
+    ),
+  })
+);
+
+export type ContactMerge = typeof contactMerge.$inferSelect;
+export type NewContactMerge = typeof contactMerge.$inferInsert;
+
+// One run of the spreadsheet import (see lib/imports). Rows are committed in
+// batches; a run that stops part-way is "failed" and keeps what it imported.
+// import_record lists every record a run created, so it can be rolled back.
+export const importLog = pgTable(
+  "import_log",
+  {
+    id: serial("id").primaryKey(),
+    kind: importKindEnum("kind").notNull(),
+    fileName: text("file_name").notNull(),
+    status: importStatusEnum("status").notNull(),
+    columnMap: text("column_map").notNull(), // JSON: field -> column header
+    totalRows: integer("total_rows").notNull(),
+    importedRows: integer("imported_rows").default(0).notNull(),
+    skippedRows: integer("skipped_rows").default(0).notNull(),
+    rowErrors: text("row_errors"), // JSON: rows skipped and why
+    errorMessage: text("error_message"),
+    importedBy: integer("imported_by").references(() => staffUser.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    rolledBackAt: timestamp("rolled_back_at"),
+    rolledBackBy: integer("rolled_back_by").references(() => staffUser.id, {
+      onDelete: "set null",
+    }),
+  },
+  (table) => ({
+    createdAtIdx: index("import_log_created_at_idx").on(table.createdAt),
+  })
+);
+
+export type ImportLog = typeof importLog.$inferSelect;
+export type NewImportLog = typeof importLog.$inferInsert;
+
+export const importRecord = pgTable(
+  "import_record",
+  {
+    id: serial("id").primaryKey(),
+    importId: integer("import_id")
+      .references(() => importLog.id, { onDelete: "cascade" })
+      .notNull(),
+    rowNumber: integer("row_number").notNull(),
+    // The contact, pledge or payment created, by the log's kind
+    recordId: integer("record_id").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    importIdIdx: index("import_record_import_id_idx").on(table.importId),
+  })
+);
+
+export type ImportRecord = typeof importRecord.$inferSelect;
+export type NewImportRecord = typeof importRecord.$inferInsert;
+
+// A deposit as the bank or a processor (Stripe, PayPal, a donor-advised
+// fund) reports it: one payout file, one line per transaction
+export const depositBatch = pgTable(
+  "deposit_batch",
+  {
+    id: serial("id").primaryKey(),
+    kind: depositBatchKindEnum("kind").notNull().default("statement"),
+    // The payment.methodDetail it pays out, e.g. "stripe" or "fidelity"
+    source: text("source"),
+    fileName: text("file_name"),
+    depositDate: date("deposit_date").notNull(),
+    currency: currencyEnum("currency").notNull().default("USD"),
+    totalAmount: numeric("total_amount", { precision: 12, scale: 2 })
+      .notNull()
+      .default("0"), // Sum of the lines, in currency
+    lineCount: integer("line_count").notNull().default(0),
+    // For an entry batch: the total and count of the stack being keyed in,
+    // as added up beforehand
+    expectedTotal: numeric("expected_total", { precision: 12, scale: 2 }),
+    expectedCount: integer("expected_count"),
+    status: depositBatchStatusEnum("status").notNull().default("open"),
+    notes: text("notes"),
+    createdBy: integer("created_by").references(() => staffUser.id, {
+      onDelete: "set null",
+    }),
+    closedBy: integer("closed_by").references(() => staffUser.id, {
+      onDelete: "set null",
+    }),
+    closedAt: timestamp("closed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    depositDateIdx: index("deposit_batch_deposit_date_idx").on(
+      table.depositDate
+    ),
+    statusIdx: index("deposit_batch_status_idx").on(table.status),
+  })
+);
+
+export type DepositBatch = typeof depositBatch.$inferSelect;
+export type NewDepositBatch = typeof depositBatch.$inferInsert;
+
+export const depositLine = pgTable(
+  "deposit_line",
+  {
+    id: serial("id").primaryKey(),
+    batchId: integer("batch_id")
+      .references(() => depositBatch.id, { onDelete: "cascade" })
+      .notNull(),
+    rowNumber: integer("row_number").notNull(),
+    referenceNumber: text("reference_number"),
+    transactionDate: date("transaction_date"),
+    // Negative for refunds and fees taken from the payout
+    amount: numeric("amount", { precision: 10, scale: 2 }).notNull(),
+    description: text("description"),
+    status: depositLineStatusEnum("status").notNull().default("unmatched"),
+    paymentId: integer("payment_id").references(() => payment.id, {
+      onDelete: "set null",
+    }),
+    // Why the payment was suggested, e.g. "Reference"
+    matchReason: text("match_reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    batchIdIdx: index("deposit_line_batch_id_idx").on(table.batchId),
+    paymentIdIdx: index("deposit_line_payment_id_idx").on(table.paymentId),
+  })
+);
+
+export type DepositLine = typeof depositLine.$inferSelect;
+export type NewDepositLine = typeof depositLine.$inferInsert;
+
+// A webhook event from a card processor, stored as received so it can be
+// replayed (see lib/processors)
+export const processorEvent = pgTable(
+  "processor_event",
+  {
+    id: serial("id").primaryKey(),
+    processor: paymentProcessorEnum("processor").notNull(),
+    // The processor's own event id; a redelivered event is not applied twice
+    eventId: text("event_id").notNull(),
+    eventType: text("event_type").notNull(),
+    // The raw request body
+    payload: text("payload").notNull(),
+    status: processorEventStatusEnum("status").notNull().default("received"),
+    // What processing did, or why it failed
+    result: text("result"),
+    error: text("error"),
+    attempts: integer("attempts").notNull().default(0),
+    paymentId: integer("payment_id").references(() => payment.id, {
+      onDelete: "set null",
+    }),
+    contactId: integer("contact_id").references(() => contact.id, {
+      onDelete: "set null",
+    }),
+    receivedAt: timestamp("received_at").defaultNow().notNull(),
+    processedAt: timestamp("processed_at"),
+  },
+  (table) => ({
+    eventIdUnique: uniqueIndex("processor_event_event_id_unique").on(
+      table.processor,
+      table.eventId
+    ),
+    statusIdx: index("processor_event_status_idx").on(table.status),
+    paymentIdIdx: index("processor_event_payment_id_idx").on(table.paymentId),
+  })
+);
+
+export type ProcessorEvent = typeof processorEvent.$inferSelect;
+export type NewProcessorEvent = typeof processorEvent.$inferInsert;
+
+// An inbound webhook configured by an admin: deliveries to
+// /api/webhook/<slug> carrying the source's secret are mapped onto a
+// contact, pledge or payment (see lib/webhooks)
+export const webhookSource = pgTable(
+  "webhook_source",
+  {
+    id: serial("id").primaryKey(),
+    name: text("name").notNull(),
+    slug: text("slug").notNull(),
+    // Records are created as an import of that kind would create them
+    target: importKindEnum("target").notNull(),
+    // SHA-256 of the shared secret, which is only shown when it is made
+    secretHash: text("secret_hash").notNull(),
+    fieldMap: text("field_map").notNull(), // JSON: field -> payload key
+    isActive: boolean("is_active").default(true).notNull(),
+    createdBy: integer("created_by").references(() => staffUser.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    slugUnique: uniqueIndex("webhook_source_slug_unique").on(table.slug),
+  })
+);
+
+export type WebhookSource = typeof webhookSource.$inferSelect;
+export type NewWebhookSource = typeof webhookSource.$inferInsert;
+
+export const webhookDelivery = pgTable(
+  "webhook_delivery",
+  {
+    id: serial("id").primaryKey(),
+    sourceId: integer("source_id")
+      .references(() => webhookSource.id, { onDelete: "cascade" })
+      .notNull(),
+    // JSON: the query parameters and body, flattened to key -> text
+    payload: text("payload").notNull(),
+    status: webhookDeliveryStatusEnum("status").notNull().default("received"),
+    // What processing did, or why it failed
+    result: text("result"),
+    error: text("error"),
+    attempts: integer("attempts").notNull().default(0),
+    // The contact, pledge or payment created
+    recordId: integer("record_id"),
+    contactId: integer("contact_id").references(() => contact.id, {
+      onDelete: "set null",
+    }),
+    receivedAt: timestamp("received_at").defaultNow().notNull(),
+    processedAt: timestamp("processed_at"),
+  },
+  (table) => ({
+    sourceIdIdx: index("webhook_delivery_source_id_idx").on(table.sourceId),
+    statusIdx: index("webhook_delivery_status_idx").on(table.status),
+  })
+);
+
+export type WebhookDelivery = typeof webhookDelivery.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDelivery.$inferInsert;
+
 // *** UPDATED RELATIONS (with new solicitor relations) ***
 
 export const contactRelations = relations(contact, ({ many }) => ({
@@ -725,6 +1570,10 @@ export const contactRelations = relations(contact, ({ many }) => ({
   relationshipsAsTarget: many(relationships, {
     relationName: "relationTarget",
   }),
+  addresses: many(contactAddress),
+  phones: many(contactPhone),
+  emails: many(contactEmail),
+  householdMembership: many(householdMember),
   pledges: many(pledge),
   auditLogs: many(auditLog),
   // *** NEW RELATION ***
@@ -745,6 +1594,27 @@ export const studentRolesRelations = relations(studentRoles, ({ one }) => ({
   }),
 }));
 
+export const contactAddressRelations = relations(contactAddress, ({ one }) => ({
+  contact: one(contact, {
+    fields: [contactAddress.contactId],
+    references: [contact.id],
+  }),
+}));
+
+export const contactPhoneRelations = relations(contactPhone, ({ one }) => ({
+  contact: one(contact, {
+    fields: [contactPhone.contactId],
+    references: [contact.id],
+  }),
+}));
+
+export const contactEmailRelations = relations(contactEmail, ({ one }) => ({
+  contact: one(contact, {
+    fields: [contactEmail.contactId],
+    references: [contact.id],
+  }),
+}));
+
 export const relationshipsRelations = relations(relationships, ({ one }) => ({
   contact: one(contact, {
     fields: [relationships.contactId],
@@ -758,6 +1628,25 @@ export const relationshipsRelations = relations(relationships, ({ one }) => ({
   }),
 }));
 
+export const householdRelations = relations(household, ({ many }) => ({
+  members: many(householdMember),
+  payments: many(payment),
+}));
+
+export const householdMemberRelations = relations(
+  householdMember,
+  ({ one }) => ({
+    household: one(household, {
+      fields: [householdMember.householdId],
+      references: [household.id],
+    }),
+    contact: one(contact, {
+      fields: [householdMember.contactId],
+      references: [contact.id],
+    }),
+  })
+);
+
 export const categoryRelations = relations(category, ({ many }) => ({
   pledges: many(pledge),
 }));
@@ -784,6 +1673,22 @@ export const paymentPlanRelations = relations(paymentPlan, ({ one, many }) => ({
   }),
   payments: many(payment),
   installmentSchedules: many(installmentSchedule),
+  reminders: many(reminderLog),
+}));
+
+export const reminderLogRelations = relations(reminderLog, ({ one }) => ({
+  paymentPlan: one(paymentPlan, {
+    fields: [reminderLog.paymentPlanId],
+    references: [paymentPlan.id],
+  }),
+  installmentSchedule: one(installmentSchedule, {
+    fields: [reminderLog.installmentScheduleId],
+    references: [installmentSchedule.id],
+  }),
+  contact: one(contact, {
+    fields: [reminderLog.contactId],
+    references: [contact.id],
+  }),
 }));
 
 export const installmentScheduleRelations = relations(
@@ -832,6 +1737,51 @@ export const paymentRelations = relations(payment, ({ one, many }) => ({ // ADDE
   }),
   // NEW RELATION: A payment can have multiple allocations
   paymentAllocations: many(paymentAllocations),
+  receipts: many(receipt),
+  refundOf: one(payment, {
+    fields: [payment.refundOfPaymentId],
+    references: [payment.id],
+    relationName: "refunds",
+  }),
+  refunds: many(payment, { relationName: "refunds" }),
+  household: one(household, {
+    fields: [payment.householdId],
+    references: [household.id],
+  }),
+  attributions: many(paymentAttribution),
+  depositBatch: one(depositBatch, {
+    fields: [payment.depositBatchId],
+    references: [depositBatch.id],
+  }),
+}));
+
+export const paymentAttributionRelations = relations(
+  paymentAttribution,
+  ({ one }) => ({
+    payment: one(payment, {
+      fields: [paymentAttribution.paymentId],
+      references: [payment.id],
+    }),
+    contact: one(contact, {
+      fields: [paymentAttribution.contactId],
+      references: [contact.id],
+    }),
+  })
+);
+
+export const receiptRelations = relations(receipt, ({ one }) => ({
+  payment: one(payment, {
+    fields: [receipt.paymentId],
+    references: [payment.id],
+  }),
+  contact: one(contact, {
+    fields: [receipt.contactId],
+    references: [contact.id],
+  }),
+  replacesReceipt: one(receipt, {
+    fields: [receipt.replacesReceiptId],
+    references: [receipt.id],
+  }),
 }));
 
 
@@ -843,6 +1793,7 @@ export const solicitorRelations = relations(solicitor, ({ one, many }) => ({
   }),
   bonusRules: many(bonusRule),
   bonusCalculations: many(bonusCalculation),
+  payoutBatches: many(payoutBatch),
   payments: many(payment),
 }));
 
@@ -853,6 +1804,14 @@ export const bonusRuleRelations = relations(bonusRule, ({ one, many }) => ({
   }),
   bonusCalculations: many(bonusCalculation),
   payments: many(payment),
+  tiers: many(bonusRuleTier),
+}));
+
+export const bonusRuleTierRelations = relations(bonusRuleTier, ({ one }) => ({
+  bonusRule: one(bonusRule, {
+    fields: [bonusRuleTier.bonusRuleId],
+    references: [bonusRule.id],
+  }),
 }));
 
 export const bonusCalculationRelations = relations(
@@ -870,6 +1829,21 @@ export const bonusCalculationRelations = relations(
       fields: [bonusCalculation.bonusRuleId],
       references: [bonusRule.id],
     }),
+    payoutBatch: one(payoutBatch, {
+      fields: [bonusCalculation.payoutBatchId],
+      references: [payoutBatch.id],
+    }),
+  })
+);
+
+export const payoutBatchRelations = relations(
+  payoutBatch,
+  ({ one, many }) => ({
+    solicitor: one(solicitor, {
+      fields: [payoutBatch.solicitorId],
+      references: [solicitor.id],
+    }),
+    calculations: many(bonusCalculation),
   })
 );
 
@@ -878,6 +1852,17 @@ export const auditLogRelations = relations(auditLog, ({ one }) => ({
     fields: [auditLog.changedBy],
     references: [contact.id],
   }),
+  staffUser: one(staffUser, {
+    fields: [auditLog.staffUserId],
+    references: [staffUser.id],
+  }),
+}));
+
+export const staffUserRelations = relations(staffUser, ({ one }) => ({
+  contact: one(contact, {
+    fields: [staffUser.contactId],
+    references: [contact.id],
+  }),
 }));
 
 // NEW RELATIONS for paymentAllocations
@@ -898,3 +1883,49 @@ export const paymentAllocationsRelations = relations(
     }),
   })
 );
+
+export const depositBatchRelations = relations(depositBatch, ({ many }) => ({
+  lines: many(depositLine),
+  payments: many(payment),
+}));
+
+export const depositLineRelations = relations(depositLine, ({ one }) => ({
+  batch: one(depositBatch, {
+    fields: [depositLine.batchId],
+    references: [depositBatch.id],
+  }),
+  payment: one(payment, {
+    fields: [depositLine.paymentId],
+    references: [payment.id],
+  }),
+}));
+
+export const processorEventRelations = relations(processorEvent, ({ one }) => ({
+  payment: one(payment, {
+    fields: [processorEvent.paymentId],
+    references: [payment.id],
+  }),
+  contact: one(contact, {
+    fields: [processorEvent.contactId],
+    references: [contact.id],
+  }),
+}));
+
+export const webhookSourceRelations = relations(webhookSource, ({ one, many }) => ({
+  createdByUser: one(staffUser, {
+    fields: [webhookSource.createdBy],
+    references: [staffUser.id],
+  }),
+  deliveries: many(webhookDelivery),
+}));
+
+export const webhookDeliveryRelations = relations(webhookDelivery, ({ one }) => ({
+  source: one(webhookSource, {
+    fields: [webhookDelivery.sourceId],
+    references: [webhookSource.id],
+  }),
+  contact: one(contact, {
+    fields: [webhookDelivery.contactId],
+    references: [contact.id],
+  }),
+}));
@@ -0,0 +1,27 @@
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { sql } from "drizzle-orm";
+import * as schema from "./schema";
+
+// The ESM build of drizzle-kit's API cannot load its own dependencies
+const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") =
+  createRequire(import.meta.url)("drizzle-kit/api");
+
+// An in-memory Postgres created from the schema, for tests that stand it in
+// for `@/lib/db`:
+//
+//   vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+//
+// It has transactions, so it serves as both `db` and `txDb`.
+export async function testDb() {
+  const db = drizzle(new PGlite(), { schema });
+  const statements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson(schema)
+  );
+  for (const statement of statements) {
+    await db.execute(sql.raw(statement));
+  }
+  return { db, txDb: db };
+}
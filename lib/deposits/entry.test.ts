@@ -0,0 +1,145 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq, sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { txDb } from "@/lib/db";
+import { contact, depositBatch, payment, pledge } from "@/lib/db/schema";
+import { closeDepositBatch, createDepositBatch } from ".";
+import { addDepositEntry, createEntryBatch, removeDepositEntry } from "./entry";
+
+let pledgeId: number;
+let batchId: number;
+
+const enter = (amount: number, checkNumber?: string) =>
+  txDb.transaction((tx) =>
+    addDepositEntry(
+      batchId,
+      { pledgeId, amount, paymentMethod: "check", checkNumber },
+      null,
+      tx
+    )
+  );
+
+const close = () => txDb.transaction((tx) => closeDepositBatch(batchId, null, tx));
+
+const batchRow = async () => {
+  const [row] = await txDb
+    .select()
+    .from(depositBatch)
+    .where(eq(depositBatch.id, batchId));
+  return row;
+};
+
+beforeEach(async () => {
+  await txDb.execute(
+    sql`TRUNCATE ${contact}, ${pledge}, ${payment}, ${depositBatch} RESTART IDENTITY CASCADE`
+  );
+  const [donor] = await txDb
+    .insert(contact)
+    .values({ firstName: "Dana", lastName: "Donor" })
+    .returning();
+  [{ id: pledgeId }] = await txDb
+    .insert(pledge)
+    .values({
+      contactId: donor.id,
+      pledgeDate: "2025-01-01",
+      originalAmount: "1000.00",
+      originalAmountUsd: "1000.00",
+      balance: "1000.00",
+      balanceUsd: "1000.00",
+    })
+    .returning();
+  ({ id: batchId } = await txDb.transaction((tx) =>
+    createEntryBatch(
+      {
+        depositDate: "2025-03-04",
+        currency: "USD",
+        expectedTotal: 150,
+        expectedCount: 2,
+      },
+      null,
+      tx
+    )
+  ));
+});
+
+describe("addDepositEntry", () => {
+  it("records a reconciled payment on the pledge", async () => {
+    const entry = await enter(100, "1001");
+
+    expect(entry?.payment).toMatchObject({
+      amount: "100.00",
+      paymentDate: "2025-03-04",
+      checkNumber: "1001",
+      depositBatchId: batchId,
+    });
+    expect(entry?.line).toMatchObject({
+      rowNumber: 1,
+      status: "confirmed",
+      description: "Dana Donor",
+    });
+    const [after] = await txDb.select().from(pledge).where(eq(pledge.id, pledgeId));
+    expect(after.balance).toBe("900.00");
+    expect(await batchRow()).toMatchObject({ totalAmount: "100.00", lineCount: 1 });
+  });
+
+  it("is refused for a statement", async () => {
+    const statement = await txDb.transaction((tx) =>
+      createDepositBatch(
+        { depositDate: "2025-03-04", currency: "USD" },
+        [
+          {
+            rowNumber: 2,
+            amount: 5,
+            referenceNumber: null,
+            transactionDate: null,
+            description: null,
+          },
+        ],
+        null,
+        tx
+      )
+    );
+    batchId = statement.id;
+    await expect(enter(5)).rejects.toThrow("not a statement");
+  });
+});
+
+describe("closing an entry batch", () => {
+  it("needs the entries to add up to the expected total", async () => {
+    await enter(100);
+    await expect(close()).rejects.toThrow(
+      "The entries total 100.00 USD, 50.00 under the expected 150.00"
+    );
+
+    await enter(50);
+    expect((await close())?.after?.status).toBe("closed");
+  });
+
+  it("needs as many entries as expected", async () => {
+    await enter(100);
+    await enter(25);
+    await enter(25);
+    await expect(close()).rejects.toThrow(
+      "3 entries were keyed in; 2 were expected"
+    );
+  });
+});
+
+describe("removeDepositEntry", () => {
+  it("moves the entry's payment to the trash", async () => {
+    const entry = await enter(100);
+    const removal = await txDb.transaction((tx) =>
+      removeDepositEntry(batchId, entry!.line.id, null, tx)
+    );
+
+    expect(removal?.reconciliation?.after.depositBatchId).toBeNull();
+    const [trashed] = await txDb
+      .select()
+      .from(payment)
+      .where(eq(payment.id, entry!.payment.id));
+    expect(trashed.deletedAt).not.toBeNull();
+    expect(await batchRow()).toMatchObject({ totalAmount: "0.00", lineCount: 0 });
+  });
+});
@@ -0,0 +1,275 @@
+import { and, eq, sql } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import {
+  contact,
+  depositBatch,
+  depositLine,
+  payment,
+  pledge,
+  type DepositBatch,
+  type DepositLine,
+  type Payment,
+} from "@/lib/db/schema";
+import { recordAudit } from "@/lib/audit";
+import { auditBonusSync, syncPaymentBonus, type BonusSync } from "@/lib/bonus";
+import {
+  convertAmount,
+  moneyString,
+  rateString,
+  toNumber,
+  toUsd,
+} from "@/lib/currency";
+import { getRate, type Currency } from "@/lib/exchange-rates";
+import {
+  getPaymentLedgerTargets,
+  updateLedgerTotals,
+} from "@/lib/pledge-totals";
+import {
+  auditTrashChange,
+  moveToTrash,
+  type TrashChange,
+} from "@/lib/trash";
+import type { SessionUser } from "@/lib/auth/guard";
+import {
+  auditReconciliations,
+  DepositStateError,
+  lockOpenBatch,
+  setPaymentDeposit,
+  type Reconciliation,
+} from "./index";
+import type { EntryMethod } from "./fields";
+
+// Check and cash deposits keyed in from the stack being taken to the bank.
+// Each entry records a completed payment on a pledge, already reconciled in
+// the batch, with a confirmed line for it; the batch keeps a running total
+// and count to compare with the ones added up beforehand.
+
+export interface EntryBatchValues {
+  depositDate: string;
+  currency: Currency;
+  expectedTotal?: number | null;
+  expectedCount?: number | null;
+  notes?: string | null;
+}
+
+export async function createEntryBatch(
+  values: EntryBatchValues,
+  createdBy: number | null,
+  executor: DbExecutor
+): Promise<DepositBatch> {
+  const [batch] = await executor
+    .insert(depositBatch)
+    .values({
+      kind: "entry",
+      depositDate: values.depositDate,
+      currency: values.currency,
+      expectedTotal:
+        values.expectedTotal == null ? null : moneyString(values.expectedTotal),
+      expectedCount: values.expectedCount ?? null,
+      notes: values.notes ?? null,
+      totalAmount: "0.00",
+      lineCount: 0,
+      createdBy,
+    })
+    .returning();
+  return batch;
+}
+
+async function lockEntryBatch(
+  batchId: number,
+  executor: DbExecutor
+): Promise<DepositBatch | null> {
+  const batch = await lockOpenBatch(batchId, executor);
+  if (batch && batch.kind !== "entry") {
+    throw new DepositStateError(
+      "Payments are keyed in to a check and cash deposit, not a statement"
+    );
+  }
+  return batch;
+}
+
+async function refreshBatchTotals(batchId: number, executor: DbExecutor) {
+  const [totals] = await executor
+    .select({
+      total: sql<string>`coalesce(sum(${depositLine.amount}), 0)`,
+      count: sql<number>`count(*)::int`,
+    })
+    .from(depositLine)
+    .where(eq(depositLine.batchId, batchId));
+  await executor
+    .update(depositBatch)
+    .set({
+      totalAmount: moneyString(toNumber(totals.total)),
+      lineCount: totals.count,
+      updatedAt: new Date(),
+    })
+    .where(eq(depositBatch.id, batchId));
+}
+
+export interface DepositEntryValues {
+  pledgeId: number;
+  amount: number;
+  paymentMethod: EntryMethod;
+  checkNumber?: string | null;
+  // Defaults to the deposit date
+  paymentDate?: string | null;
+  notes?: string | null;
+}
+
+export interface EntryChange {
+  line: DepositLine;
+  payment: Payment;
+  contactId: number;
+  bonusSync: BonusSync | null;
+}
+
+// Records a check or cash payment in an open entry batch. Returns null when
+// the batch does not exist; throws DepositStateError when it is closed, is a
+// statement, or the pledge cannot take the payment.
+export async function addDepositEntry(
+  batchId: number,
+  values: DepositEntryValues,
+  reconciledBy: number | null,
+  executor: DbExecutor
+): Promise<EntryChange | null> {
+  const batch = await lockEntryBatch(batchId, executor);
+  if (!batch) return null;
+
+  const [target] = await executor
+    .select({
+      pledge,
+      firstName: contact.firstName,
+      lastName: contact.lastName,
+    })
+    .from(pledge)
+    .innerJoin(contact, eq(pledge.contactId, contact.id))
+    .where(eq(pledge.id, values.pledgeId));
+  if (!target || target.pledge.deletedAt) {
+    throw new DepositStateError(`Pledge ${values.pledgeId} does not exist`);
+  }
+
+  const paymentDate = values.paymentDate || batch.depositDate;
+  const rate = await getRate(batch.currency, paymentDate);
+  if (!rate) {
+    throw new DepositStateError(
+      `No ${batch.currency} exchange rate for ${paymentDate}`
+    );
+  }
+  const amountInPledgeCurrency =
+    batch.currency === target.pledge.currency
+      ? values.amount
+      : convertAmount(values.amount, rate, target.pledge.exchangeRate);
+
+  const [created] = await executor
+    .insert(payment)
+    .values({
+      pledgeId: target.pledge.id,
+      amount: moneyString(values.amount),
+      currency: batch.currency,
+      amountUsd: moneyString(toUsd(values.amount, rate)),
+      amountInPledgeCurrency: moneyString(amountInPledgeCurrency),
+      exchangeRate: rateString(rate),
+      paymentDate,
+      receivedDate: paymentDate,
+      paymentMethod: values.paymentMethod,
+      paymentStatus: "completed",
+      checkNumber: values.checkNumber || null,
+      notes: values.notes || null,
+      depositBatchId: batch.id,
+      reconciledAt: new Date(),
+      reconciledBy,
+    })
+    .returning();
+  const bonusSync = await syncPaymentBonus(created.id, executor);
+  await updateLedgerTotals(
+    await getPaymentLedgerTargets(created.id, executor),
+    executor
+  );
+
+  const [{ next }] = await executor
+    .select({ next: sql<number>`coalesce(max(${depositLine.rowNumber}), 0)::int + 1` })
+    .from(depositLine)
+    .where(eq(depositLine.batchId, batch.id));
+  const [line] = await executor
+    .insert(depositLine)
+    .values({
+      batchId: batch.id,
+      rowNumber: next,
+      referenceNumber: values.checkNumber || null,
+      transactionDate: paymentDate,
+      amount: moneyString(values.amount),
+      description: `${target.firstName} ${target.lastName}`,
+      status: "confirmed",
+      paymentId: created.id,
+      matchReason: "Entered",
+    })
+    .returning();
+  await refreshBatchTotals(batch.id, executor);
+
+  return {
+    line,
+    payment: bonusSync?.payment ?? created,
+    contactId: target.pledge.contactId,
+    bonusSync,
+  };
+}
+
+export interface EntryRemoval {
+  reconciliation: Reconciliation | null;
+  trash: TrashChange | null;
+}
+
+// Takes an entry out of an open entry batch and moves its payment to the
+// trash. Returns null when the line is not in the batch.
+export async function removeDepositEntry(
+  batchId: number,
+  lineId: number,
+  deletedBy: number | null,
+  executor: DbExecutor
+): Promise<EntryRemoval | null> {
+  const batch = await lockEntryBatch(batchId, executor);
+  if (!batch) return null;
+  const [line] = await executor
+    .select()
+    .from(depositLine)
+    .where(and(eq(depositLine.id, lineId), eq(depositLine.batchId, batchId)))
+    .for("update");
+  if (!line) return null;
+
+  // Out of the deposit first: a deposited payment cannot be trashed
+  const reconciliation = line.paymentId
+    ? await setPaymentDeposit(line.paymentId, null, executor)
+    : null;
+  const trash = line.paymentId
+    ? await moveToTrash("payment", line.paymentId, deletedBy, executor)
+    : null;
+  await executor.delete(depositLine).where(eq(depositLine.id, line.id));
+  await refreshBatchTotals(batch.id, executor);
+  return { reconciliation, trash };
+}
+
+export async function auditEntry(
+  user: SessionUser,
+  change: EntryChange
+): Promise<void> {
+  await recordAudit(user, {
+    table: payment,
+    recordId: change.payment.id,
+    action: "create",
+    after: change.payment,
+    contactId: change.contactId,
+  });
+  if (change.bonusSync) {
+    await auditBonusSync(user, change.bonusSync, { paymentFields: false });
+  }
+}
+
+export async function auditEntryRemoval(
+  user: SessionUser,
+  removal: EntryRemoval
+): Promise<void> {
+  if (removal.reconciliation) {
+    await auditReconciliations(user, [removal.reconciliation]);
+  }
+  if (removal.trash) await auditTrashChange(user, removal.trash);
+}
@@ -0,0 +1,53 @@
+import { matchColumns, type ColumnMap, type ImportField } from "@/lib/imports/fields";
+
+// The columns of a payout or bank statement file, and the processors whose
+// files are reconciled. Shared with the deposits page.
+
+export const DEPOSIT_FIELDS: ImportField[] = [
+  {
+    key: "referenceNumber",
+    label: "Reference",
+    aliases: ["id", "transaction id", "charge id", "grant id", "reference number", "check number"],
+  },
+  {
+    key: "amount",
+    label: "Amount",
+    required: true,
+    aliases: ["gross", "gross amount", "grant amount"],
+  },
+  {
+    key: "transactionDate",
+    label: "Date",
+    aliases: ["created", "created (utc)", "transaction date", "grant date"],
+  },
+  {
+    key: "description",
+    label: "Description",
+    aliases: ["name", "donor", "donor name", "memo", "customer email"],
+  },
+];
+
+// Processors by the payment.methodDetail their payments carry
+export const DEPOSIT_SOURCES = [
+  { value: "stripe", label: "Stripe" },
+  { value: "paypal", label: "PayPal" },
+  { value: "fidelity", label: "Fidelity" },
+  { value: "schwab_charitable", label: "Schwab Charitable" },
+  { value: "vanguard_charitable", label: "Vanguard Charitable" },
+  { value: "donors_fund", label: "Donors' Fund" },
+] as const;
+
+// How checks and cash keyed in to a deposit are paid
+export const ENTRY_METHODS = ["check", "cash", "money_order"] as const;
+
+export type EntryMethod = (typeof ENTRY_METHODS)[number];
+
+export const entryMethodLabels: Record<EntryMethod, string> = {
+  check: "Check",
+  cash: "Cash",
+  money_order: "Money order",
+};
+
+export function suggestDepositColumns(headers: string[]): ColumnMap {
+  return matchColumns(DEPOSIT_FIELDS, headers);
+}
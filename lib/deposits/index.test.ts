@@ -0,0 +1,253 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq, sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { txDb } from "@/lib/db";
+import { contact, depositBatch, depositLine, payment, pledge } from "@/lib/db/schema";
+import { readSheet } from "@/lib/imports/sheet";
+import {
+  closeDepositBatch,
+  confirmLine,
+  confirmSuggested,
+  createDepositBatch,
+  deleteDepositBatch,
+  DepositStateError,
+  readDepositLines,
+  resetLine,
+  type DepositLineValues,
+} from ".";
+
+let pledgeId: number;
+
+async function addPayment(values: Partial<typeof payment.$inferInsert> = {}) {
+  const [created] = await txDb
+    .insert(payment)
+    .values({
+      pledgeId,
+      amount: "100.00",
+      currency: "USD",
+      paymentDate: "2025-03-01",
+      paymentMethod: "credit_card",
+      ...values,
+    })
+    .returning();
+  return created.id;
+}
+
+const line = (
+  rowNumber: number,
+  amount: number,
+  values: Partial<DepositLineValues> = {}
+): DepositLineValues => ({
+  rowNumber,
+  amount,
+  referenceNumber: null,
+  transactionDate: "2025-03-03",
+  description: null,
+  ...values,
+});
+
+// A Stripe payout
+const deposit = (lines: DepositLineValues[]) =>
+  txDb.transaction((tx) =>
+    createDepositBatch(
+      { source: "stripe", depositDate: "2025-03-04", currency: "USD" },
+      lines,
+      null,
+      tx
+    )
+  );
+
+const linesOf = (batchId: number) =>
+  txDb
+    .select()
+    .from(depositLine)
+    .where(eq(depositLine.batchId, batchId))
+    .orderBy(depositLine.rowNumber);
+
+const depositOf = async (paymentId: number) => {
+  const [row] = await txDb.select().from(payment).where(eq(payment.id, paymentId));
+  return row.depositBatchId;
+};
+
+beforeEach(async () => {
+  await txDb.execute(
+    sql`TRUNCATE ${contact}, ${pledge}, ${payment}, ${depositBatch} RESTART IDENTITY CASCADE`
+  );
+  const [donor] = await txDb
+    .insert(contact)
+    .values({ firstName: "Dana", lastName: "Donor" })
+    .returning();
+  [{ id: pledgeId }] = await txDb
+    .insert(pledge)
+    .values({
+      contactId: donor.id,
+      pledgeDate: "2025-01-01",
+      originalAmount: "1000.00",
+      balance: "1000.00",
+    })
+    .returning();
+});
+
+describe("readDepositLines", () => {
+  it("reads a payout file, keeping the lines it cannot read", () => {
+    const sheet = readSheet(
+      new TextEncoder().encode(
+        [
+          "id,Gross,Created (UTC),Customer Email",
+          "ch_1,$100.00,2025-03-01,a@example.org",
+          "ch_2,n/a,March,",
+        ].join("\n")
+      ).buffer as ArrayBuffer
+    );
+    const { columnMap, lines } = readDepositLines(sheet);
+
+    expect(columnMap).toEqual({
+      referenceNumber: "id",
+      amount: "Gross",
+      transactionDate: "Created (UTC)",
+      description: "Customer Email",
+    });
+    expect(lines).toEqual([
+      {
+        rowNumber: 2,
+        referenceNumber: "ch_1",
+        transactionDate: "2025-03-01",
+        amount: 100,
+        description: "a@example.org",
+        errors: [],
+      },
+      {
+        rowNumber: 3,
+        referenceNumber: "ch_2",
+        transactionDate: null,
+        amount: null,
+        description: null,
+        errors: [
+          'Amount "n/a" is not a number',
+          'Date "March" must be a date like 2024-01-31',
+        ],
+      },
+    ]);
+  });
+});
+
+describe("createDepositBatch", () => {
+  it("suggests a payment by reference, else by amount and date", async () => {
+    const byReference = await addPayment({ referenceNumber: "ch_1", amount: "90.00" });
+    const check = await addPayment({ paymentMethod: "check" });
+    const stripe = await addPayment({
+      methodDetail: "stripe",
+      paymentDate: "2025-02-25",
+    });
+    await addPayment({ amount: "75.00", paymentDate: "2025-01-01" });
+
+    const batch = await deposit([
+      line(2, 100, { referenceNumber: "ch_1" }),
+      line(3, 100),
+      line(4, 100),
+      line(5, 75),
+    ]);
+
+    expect(
+      (await linesOf(batch.id)).map(({ status, paymentId, matchReason }) => ({
+        status,
+        paymentId,
+        matchReason,
+      }))
+    ).toEqual([
+      {
+        status: "suggested",
+        paymentId: byReference,
+        matchReason: "Reference; the payment is 90.00 USD",
+      },
+      // The batch's own processor first, then the closest date
+      { status: "suggested", paymentId: stripe, matchReason: "Amount and date" },
+      { status: "suggested", paymentId: check, matchReason: "Amount and date" },
+      // Too long before the payout
+      { status: "unmatched", paymentId: null, matchReason: null },
+    ]);
+    expect(batch.totalAmount).toBe("375.00");
+  });
+
+  it("does not suggest payments already spoken for", async () => {
+    const paid = await addPayment();
+    await addPayment({ currency: "CAD" });
+    await addPayment({ deletedAt: new Date() });
+    await deposit([line(2, 100)]);
+
+    const second = await deposit([line(2, 100)]);
+    const [unmatched] = await linesOf(second.id);
+    expect(unmatched.status).toBe("unmatched");
+    expect(await depositOf(paid)).toBeNull();
+  });
+
+  it("needs at least one line", async () => {
+    await expect(deposit([])).rejects.toBeInstanceOf(DepositStateError);
+  });
+});
+
+describe("confirming and closing", () => {
+  it("reconciles confirmed payments and closes once every line is done", async () => {
+    const first = await addPayment({ referenceNumber: "ch_1" });
+    const batch = await deposit([line(2, 100, { referenceNumber: "ch_1" }), line(3, 5)]);
+
+    const changes = await txDb.transaction((tx) => confirmSuggested(batch.id, null, tx));
+    expect(changes).toHaveLength(1);
+    expect(await depositOf(first)).toBe(batch.id);
+
+    await expect(
+      txDb.transaction((tx) => closeDepositBatch(batch.id, null, tx))
+    ).rejects.toThrow("1 lines still need to be confirmed or ignored");
+
+    const [, fee] = await linesOf(batch.id);
+    await txDb.transaction((tx) => resetLine(batch.id, fee.id, "ignored", tx));
+    const closed = await txDb.transaction((tx) => closeDepositBatch(batch.id, null, tx));
+    expect(closed?.after?.status).toBe("closed");
+    await expect(
+      txDb.transaction((tx) => resetLine(batch.id, fee.id, "unmatched", tx))
+    ).rejects.toThrow("This deposit is closed");
+  });
+
+  it("takes a payment picked by hand off the line it was suggested for", async () => {
+    const suggested = await addPayment();
+    const batch = await deposit([line(2, 100), line(3, 100, { transactionDate: null })]);
+    const [first, second] = await linesOf(batch.id);
+    expect(first.paymentId).toBe(suggested);
+
+    const change = await txDb.transaction((tx) =>
+      confirmLine(batch.id, second.id, suggested, null, tx)
+    );
+    expect(change?.line).toMatchObject({
+      status: "confirmed",
+      paymentId: suggested,
+      matchReason: "Chosen by hand",
+    });
+    const [released] = await linesOf(batch.id);
+    expect(released).toMatchObject({ status: "unmatched", paymentId: null });
+  });
+
+  it("refuses payments that cannot be deposited", async () => {
+    const cad = await addPayment({ currency: "CAD" });
+    const batch = await deposit([line(2, 100)]);
+    const [only] = await linesOf(batch.id);
+    const confirm = (paymentId?: number) =>
+      txDb.transaction((tx) => confirmLine(batch.id, only.id, paymentId, null, tx));
+
+    await expect(confirm()).rejects.toThrow("none was matched");
+    await expect(confirm(cad)).rejects.toThrow(`Payment ${cad} is in CAD, not USD`);
+    await expect(confirm(999)).rejects.toThrow("Payment 999 does not exist");
+  });
+
+  it("takes the payments back out of a deleted batch", async () => {
+    const paid = await addPayment();
+    const batch = await deposit([line(2, 100)]);
+    await txDb.transaction((tx) => confirmSuggested(batch.id, null, tx));
+
+    const result = await txDb.transaction((tx) => deleteDepositBatch(batch.id, tx));
+    expect(result?.reconciliations).toHaveLength(1);
+    expect(await depositOf(paid)).toBeNull();
+    expect(await txDb.select().from(depositBatch)).toEqual([]);
+  });
+});
@@ -0,0 +1,851 @@
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gte,
+  inArray,
+  isNull,
+  lte,
+  notExists,
+  notInArray,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import { db, type DbExecutor } from "@/lib/db";
+import {
+  contact,
+  depositBatch,
+  depositLine,
+  payment,
+  pledge,
+  staffUser,
+  type DepositBatch,
+  type DepositLine,
+  type Payment,
+} from "@/lib/db/schema";
+import { getPaymentContactId, recordAudit } from "@/lib/audit";
+import { moneyString, roundMoney, toNumber } from "@/lib/currency";
+import type { Currency } from "@/lib/exchange-rates";
+import type { SessionUser } from "@/lib/auth/guard";
+import { parseAmount, parseDate, type Sheet } from "@/lib/imports/sheet";
+import type { ColumnMap } from "@/lib/imports/fields";
+import { suggestDepositColumns } from "./fields";
+
+// Reconciles deposits against recorded payments. A payout or bank statement
+// file becomes a deposit batch with one line per transaction. Each line is
+// matched automatically to a payment by reference number, or by amount and
+// a nearby date; staff confirm the matches, pick payments by hand or ignore
+// lines such as fees. A confirmed line marks its payment reconciled and in
+// the batch. A batch closes once every line is confirmed or ignored.
+//
+// Checks and cash are instead keyed in to an entry batch (see ./entry), each
+// entry recording its payment and a confirmed line at once. Closing a batch
+// locks the amount, date and method of its payments.
+
+export class DepositStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DepositStateError";
+  }
+}
+
+// Processors pay out a few days after the charge, and a grant can be dated
+// some days before its check arrives
+const DATE_WINDOW_DAYS = 10;
+
+export interface DepositLineValues {
+  rowNumber: number;
+  referenceNumber: string | null;
+  transactionDate: string | null;
+  amount: number;
+  description: string | null;
+}
+
+export interface DepositLinePreview extends Omit<DepositLineValues, "amount"> {
+  amount: number | null;
+  errors: string[];
+}
+
+// Reads the statement lines from a sheet. Lines with errors keep what could
+// be read so they can be shown.
+export function readDepositLines(
+  sheet: Sheet,
+  columnMap?: ColumnMap
+): { columnMap: ColumnMap; lines: DepositLinePreview[] } {
+  const effective = columnMap ?? suggestDepositColumns(sheet.headers);
+  const cell = (values: Record<string, string>, key: string) =>
+    (effective[key] && values[effective[key]]?.trim()) || null;
+
+  const lines = sheet.rows.map(({ rowNumber, values }) => {
+    const errors: string[] = [];
+    const amountText = cell(values, "amount");
+    const amount = amountText === null ? null : parseAmount(amountText);
+    if (amountText === null) errors.push("Amount is required");
+    else if (amount === null) errors.push(`Amount "${amountText}" is not a number`);
+
+    const dateText = cell(values, "transactionDate");
+    const transactionDate = dateText === null ? null : parseDate(dateText);
+    if (dateText !== null && !transactionDate) {
+      errors.push(`Date "${dateText}" must be a date like 2024-01-31`);
+    }
+
+    return {
+      rowNumber,
+      referenceNumber: cell(values, "referenceNumber"),
+      transactionDate,
+      amount,
+      description: cell(values, "description"),
+      errors,
+    };
+  });
+  return { columnMap: effective, lines };
+}
+
+const shiftDate = (date: string, days: number) => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+};
+
+const daysApart = (a: string, b: string) =>
+  Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) /
+  86400000;
+
+// Payments on a suggested or confirmed line are spoken for
+const onOpenLine = () =>
+  db
+    .select({ id: depositLine.id })
+    .from(depositLine)
+    .where(
+      and(
+        eq(depositLine.paymentId, payment.id),
+        inArray(depositLine.status, ["suggested", "confirmed"])
+      )
+    );
+
+// Live payments that can still be deposited: not in a deposit, not failed
+// or cancelled, and in the batch's currency
+function depositablePayments(batch: DepositBatch): SQL {
+  return and(
+    isNull(payment.deletedAt),
+    isNull(payment.depositBatchId),
+    eq(payment.currency, batch.currency),
+    notInArray(payment.paymentStatus, ["failed", "cancelled"]),
+    notExists(onOpenLine())
+  )!;
+}
+
+// Suggests a payment for each unmatched line of an open batch: the one with
+// the line's reference number, else one of the same amount within
+// DATE_WINDOW_DAYS, preferring the batch's processor and the closest date.
+// Returns the number of lines matched.
+export async function suggestMatches(
+  batchId: number,
+  executor: DbExecutor = db
+): Promise<number> {
+  const [batch] = await executor
+    .select()
+    .from(depositBatch)
+    .where(eq(depositBatch.id, batchId));
+  if (!batch || batch.status !== "open") return 0;
+
+  const lines = await executor
+    .select()
+    .from(depositLine)
+    .where(
+      and(eq(depositLine.batchId, batchId), eq(depositLine.status, "unmatched"))
+    )
+    .orderBy(asc(depositLine.rowNumber));
+  if (lines.length === 0) return 0;
+
+  const dates = lines
+    .map((line) => line.transactionDate ?? batch.depositDate)
+    .sort();
+  const references = lines
+    .map((line) => line.referenceNumber)
+    .filter((reference): reference is string => !!reference);
+  const candidates = await executor
+    .select()
+    .from(payment)
+    .where(
+      and(
+        depositablePayments(batch),
+        or(
+          and(
+            gte(payment.paymentDate, shiftDate(dates[0], -DATE_WINDOW_DAYS)),
+            lte(payment.paymentDate, shiftDate(dates[dates.length - 1], DATE_WINDOW_DAYS))
+          ),
+          references.length > 0
+            ? inArray(payment.referenceNumber, references)
+            : undefined
+        )
+      )
+    )
+    .orderBy(asc(payment.id));
+
+  const used = new Set<number>();
+  let matched = 0;
+  for (const line of lines) {
+    const lineDate = line.transactionDate ?? batch.depositDate;
+    const byReference = line.referenceNumber
+      ? candidates.find(
+          (candidate) =>
+            !used.has(candidate.id) &&
+            candidate.referenceNumber === line.referenceNumber
+        )
+      : undefined;
+    const byAmount = byReference
+      ? undefined
+      : candidates
+          .filter(
+            (candidate) =>
+              !used.has(candidate.id) &&
+              toNumber(candidate.amount) === toNumber(line.amount) &&
+              daysApart(candidate.paymentDate, lineDate) <= DATE_WINDOW_DAYS
+          )
+          .sort(
+            (a, b) =>
+              Number(b.methodDetail === batch.source) -
+                Number(a.methodDetail === batch.source) ||
+              daysApart(a.paymentDate, lineDate) -
+                daysApart(b.paymentDate, lineDate)
+          )[0];
+
+    const match = byReference ?? byAmount;
+    if (!match) continue;
+    used.add(match.id);
+    matched++;
+    const amountDiffers = toNumber(match.amount) !== toNumber(line.amount);
+    await executor
+      .update(depositLine)
+      .set({
+        status: "suggested",
+        paymentId: match.id,
+        matchReason: byReference
+          ? amountDiffers
+            ? `Reference; the payment is ${match.amount} ${match.currency}`
+            : "Reference"
+          : "Amount and date",
+        updatedAt: new Date(),
+      })
+      .where(eq(depositLine.id, line.id));
+  }
+  return matched;
+}
+
+export interface DepositBatchValues {
+  source?: string | null;
+  depositDate: string;
+  currency: Currency;
+  notes?: string | null;
+  fileName?: string | null;
+}
+
+export async function createDepositBatch(
+  values: DepositBatchValues,
+  lines: DepositLineValues[],
+  createdBy: number | null,
+  executor: DbExecutor
+): Promise<DepositBatch> {
+  if (lines.length === 0) {
+    throw new DepositStateError("The file has no deposit lines");
+  }
+  const [batch] = await executor
+    .insert(depositBatch)
+    .values({
+      source: values.source || null,
+      fileName: values.fileName ?? null,
+      depositDate: values.depositDate,
+      currency: values.currency,
+      notes: values.notes ?? null,
+      totalAmount: moneyString(
+        roundMoney(lines.reduce((sum, line) => sum + line.amount, 0))
+      ),
+      lineCount: lines.length,
+      createdBy,
+    })
+    .returning();
+
+  await executor.insert(depositLine).values(
+    lines.map((line) => ({
+      batchId: batch.id,
+      rowNumber: line.rowNumber,
+      referenceNumber: line.referenceNumber,
+      transactionDate: line.transactionDate,
+      amount: moneyString(line.amount),
+      description: line.description,
+    }))
+  );
+  await suggestMatches(batch.id, executor);
+  return batch;
+}
+
+// A payment's deposit fields before and after a line changed them
+export interface Reconciliation {
+  before: Payment;
+  after: Payment;
+}
+
+export async function lockOpenBatch(
+  batchId: number,
+  executor: DbExecutor
+): Promise<DepositBatch | null> {
+  const [batch] = await executor
+    .select()
+    .from(depositBatch)
+    .where(eq(depositBatch.id, batchId))
+    .for("update");
+  if (batch && batch.status !== "open") {
+    throw new DepositStateError("This deposit is closed");
+  }
+  return batch ?? null;
+}
+
+export async function setPaymentDeposit(
+  paymentId: number,
+  deposit: { batchId: number; reconciledBy: number | null } | null,
+  executor: DbExecutor
+): Promise<Reconciliation> {
+  const [before] = await executor
+    .select()
+    .from(payment)
+    .where(eq(payment.id, paymentId))
+    .for("update");
+  const [after] = await executor
+    .update(payment)
+    .set({
+      depositBatchId: deposit?.batchId ?? null,
+      reconciledAt: deposit ? new Date() : null,
+      reconciledBy: deposit?.reconciledBy ?? null,
+      updatedAt: new Date(),
+    })
+    .where(eq(payment.id, paymentId))
+    .returning();
+  return { before, after };
+}
+
+// Takes a confirmed line's payment back out of the deposit
+async function releaseLine(
+  line: DepositLine,
+  executor: DbExecutor
+): Promise<Reconciliation[]> {
+  if (line.status !== "confirmed" || !line.paymentId) return [];
+  return [await setPaymentDeposit(line.paymentId, null, executor)];
+}
+
+async function getLine(
+  batchId: number,
+  lineId: number,
+  executor: DbExecutor
+): Promise<DepositLine | null> {
+  const [line] = await executor
+    .select()
+    .from(depositLine)
+    .where(and(eq(depositLine.id, lineId), eq(depositLine.batchId, batchId)))
+    .for("update");
+  return line ?? null;
+}
+
+// The lines of an entry batch are its payments; they are removed rather
+// than matched
+function refuseEntryBatch(batch: DepositBatch) {
+  if (batch.kind === "entry") {
+    throw new DepositStateError(
+      "Entries are not matched; remove the entry and key it in again"
+    );
+  }
+}
+
+export interface LineChange {
+  line: DepositLine;
+  reconciliations: Reconciliation[];
+}
+
+async function confirmLineIn(
+  batch: DepositBatch,
+  line: DepositLine,
+  paymentId: number | undefined,
+  reconciledBy: number | null,
+  executor: DbExecutor
+): Promise<LineChange> {
+  const targetId = paymentId ?? line.paymentId;
+  if (!targetId) {
+    throw new DepositStateError(
+      `Choose the payment for row ${line.rowNumber}; none was matched`
+    );
+  }
+  if (line.status === "confirmed" && line.paymentId === targetId) {
+    return { line, reconciliations: [] };
+  }
+
+  const [target] = await executor
+    .select()
+    .from(payment)
+    .where(eq(payment.id, targetId));
+  if (!target || target.deletedAt) {
+    throw new DepositStateError(`Payment ${targetId} does not exist`);
+  }
+  if (target.depositBatchId) {
+    throw new DepositStateError(
+      `Payment ${targetId} is already in deposit ${target.depositBatchId}`
+    );
+  }
+  if (target.currency !== batch.currency) {
+    throw new DepositStateError(
+      `Payment ${targetId} is in ${target.currency}, not ${batch.currency}`
+    );
+  }
+
+  const reconciliations = await releaseLine(line, executor);
+  // A payment picked by hand is no longer a suggestion for another line
+  await executor
+    .update(depositLine)
+    .set({
+      status: "unmatched",
+      paymentId: null,
+      matchReason: null,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(depositLine.paymentId, targetId),
+        eq(depositLine.status, "suggested")
+      )
+    );
+  reconciliations.push(
+    await setPaymentDeposit(
+      targetId,
+      { batchId: batch.id, reconciledBy },
+      executor
+    )
+  );
+
+  const [after] = await executor
+    .update(depositLine)
+    .set({
+      status: "confirmed",
+      paymentId: targetId,
+      matchReason:
+        paymentId && paymentId !== line.paymentId
+          ? "Chosen by hand"
+          : line.matchReason,
+      updatedAt: new Date(),
+    })
+    .where(eq(depositLine.id, line.id))
+    .returning();
+  return { line: after, reconciliations };
+}
+
+// Confirms a line's suggested payment, or `paymentId` instead. Returns null
+// when the line is not in the batch. Throws DepositStateError when the batch
+// is closed or the payment cannot be deposited.
+export async function confirmLine(
+  batchId: number,
+  lineId: number,
+  paymentId: number | undefined,
+  reconciledBy: number | null,
+  executor: DbExecutor
+): Promise<LineChange | null> {
+  const batch = await lockOpenBatch(batchId, executor);
+  const line = batch ? await getLine(batchId, lineId, executor) : null;
+  if (!batch || !line) return null;
+  refuseEntryBatch(batch);
+  return confirmLineIn(batch, line, paymentId, reconciledBy, executor);
+}
+
+// Clears a line's match, leaving it unmatched, or marks it ignored
+export async function resetLine(
+  batchId: number,
+  lineId: number,
+  status: "unmatched" | "ignored",
+  executor: DbExecutor
+): Promise<LineChange | null> {
+  const batch = await lockOpenBatch(batchId, executor);
+  const line = batch ? await getLine(batchId, lineId, executor) : null;
+  if (!batch || !line) return null;
+  refuseEntryBatch(batch);
+
+  const reconciliations = await releaseLine(line, executor);
+  const [after] = await executor
+    .update(depositLine)
+    .set({ status, paymentId: null, matchReason: null, updatedAt: new Date() })
+    .where(eq(depositLine.id, line.id))
+    .returning();
+  return { line: after, reconciliations };
+}
+
+// Confirms every suggested line of the batch
+export async function confirmSuggested(
+  batchId: number,
+  reconciledBy: number | null,
+  executor: DbExecutor
+): Promise<LineChange[] | null> {
+  const batch = await lockOpenBatch(batchId, executor);
+  if (!batch) return null;
+  const lines = await executor
+    .select()
+    .from(depositLine)
+    .where(
+      and(eq(depositLine.batchId, batchId), eq(depositLine.status, "suggested"))
+    )
+    .orderBy(asc(depositLine.rowNumber))
+    .for("update");
+
+  const changes: LineChange[] = [];
+  for (const line of lines) {
+    changes.push(
+      await confirmLineIn(batch, line, undefined, reconciledBy, executor)
+    );
+  }
+  return changes;
+}
+
+export interface BatchChange {
+  before: DepositBatch;
+  after: DepositBatch | null;
+  reconciliations: Reconciliation[];
+}
+
+// The entered total and count less the expected ones, where those were given
+export function batchVariance(batch: DepositBatch): {
+  amount: number | null;
+  count: number | null;
+} {
+  return {
+    amount:
+      batch.expectedTotal === null
+        ? null
+        : roundMoney(toNumber(batch.totalAmount) - toNumber(batch.expectedTotal)),
+    count:
+      batch.expectedCount === null ? null : batch.lineCount - batch.expectedCount,
+  };
+}
+
+// Closes a batch whose lines are all confirmed or ignored. An entry batch
+// must also add up to its expected total and count.
+export async function closeDepositBatch(
+  batchId: number,
+  closedBy: number | null,
+  executor: DbExecutor
+): Promise<BatchChange | null> {
+  const before = await lockOpenBatch(batchId, executor);
+  if (!before) return null;
+
+  const [open] = await executor
+    .select({ count: sql<number>`count(*)::int` })
+    .from(depositLine)
+    .where(
+      and(
+        eq(depositLine.batchId, batchId),
+        inArray(depositLine.status, ["unmatched", "suggested"])
+      )
+    );
+  if (open.count > 0) {
+    throw new DepositStateError(
+      `${open.count} lines still need to be confirmed or ignored`
+    );
+  }
+  if (before.kind === "entry") {
+    if (before.lineCount === 0) {
+      throw new DepositStateError("The deposit has no entries");
+    }
+    const variance = batchVariance(before);
+    if (variance.amount) {
+      throw new DepositStateError(
+        `The entries total ${before.totalAmount} ${before.currency}, ${moneyString(Math.abs(variance.amount))} ${variance.amount > 0 ? "over" : "under"} the expected ${before.expectedTotal}`
+      );
+    }
+    if (variance.count) {
+      throw new DepositStateError(
+        `${before.lineCount} entries were keyed in; ${before.expectedCount} were expected`
+      );
+    }
+  }
+
+  const [after] = await executor
+    .update(depositBatch)
+    .set({
+      status: "closed",
+      closedAt: new Date(),
+      closedBy,
+      updatedAt: new Date(),
+    })
+    .where(eq(depositBatch.id, batchId))
+    .returning();
+  return { before, after, reconciliations: [] };
+}
+
+// Deletes an open batch, taking its confirmed payments back out of it
+export async function deleteDepositBatch(
+  batchId: number,
+  executor: DbExecutor
+): Promise<BatchChange | null> {
+  const before = await lockOpenBatch(batchId, executor);
+  if (!before) return null;
+  // Entered payments are real payments; they are removed one by one
+  if (before.kind === "entry" && before.lineCount > 0) {
+    throw new DepositStateError("Remove the deposit's entries first");
+  }
+
+  const confirmed = await executor
+    .select()
+    .from(depositLine)
+    .where(
+      and(eq(depositLine.batchId, batchId), eq(depositLine.status, "confirmed"))
+    );
+  const reconciliations: Reconciliation[] = [];
+  for (const line of confirmed) {
+    reconciliations.push(...(await releaseLine(line, executor)));
+  }
+  await executor.delete(depositBatch).where(eq(depositBatch.id, batchId));
+  return { before, after: null, reconciliations };
+}
+
+export interface DepositBatchUpdate {
+  expectedTotal?: number | null;
+  expectedCount?: number | null;
+  notes?: string | null;
+}
+
+// Updates an open batch's notes, and an entry batch's expected total and
+// count
+export async function updateDepositBatch(
+  batchId: number,
+  values: DepositBatchUpdate,
+  executor: DbExecutor
+): Promise<BatchChange | null> {
+  const before = await lockOpenBatch(batchId, executor);
+  if (!before) return null;
+  const expecting =
+    values.expectedTotal !== undefined || values.expectedCount !== undefined;
+  if (expecting && before.kind !== "entry") {
+    throw new DepositStateError(
+      "Only a check and cash deposit has an expected total and count"
+    );
+  }
+
+  const [after] = await executor
+    .update(depositBatch)
+    .set({
+      expectedTotal:
+        values.expectedTotal === undefined
+          ? undefined
+          : values.expectedTotal === null
+            ? null
+            : moneyString(values.expectedTotal),
+      expectedCount: values.expectedCount,
+      notes: values.notes,
+      updatedAt: new Date(),
+    })
+    .where(eq(depositBatch.id, batchId))
+    .returning();
+  return { before, after, reconciliations: [] };
+}
+
+// The closed deposit a payment is in, if any. Its amount, currency, date,
+// status and method are then locked: they are what went to the bank.
+export async function getClosedDeposit(
+  current: Payment,
+  executor: DbExecutor = db
+): Promise<DepositBatch | null> {
+  if (!current.depositBatchId) return null;
+  const [batch] = await executor
+    .select()
+    .from(depositBatch)
+    .where(
+      and(
+        eq(depositBatch.id, current.depositBatchId),
+        eq(depositBatch.status, "closed")
+      )
+    );
+  return batch ?? null;
+}
+
+// Audit entries for the payments a change moved into or out of a deposit,
+// once it has committed
+export async function auditReconciliations(
+  user: SessionUser,
+  reconciliations: Reconciliation[]
+): Promise<void> {
+  for (const { before, after } of reconciliations) {
+    await recordAudit(user, {
+      table: payment,
+      recordId: after.id,
+      action: "update",
+      before,
+      after,
+      contactId: await getPaymentContactId(after.id),
+    });
+  }
+}
+
+export async function auditBatchChange(
+  user: SessionUser,
+  change: BatchChange
+): Promise<void> {
+  await recordAudit(user, {
+    table: depositBatch,
+    recordId: change.before.id,
+    action: change.after ? "update" : "delete",
+    before: change.before,
+    after: change.after ?? undefined,
+    contactId: null,
+  });
+  await auditReconciliations(user, change.reconciliations);
+}
+
+const paymentSummaryColumns = {
+  id: payment.id,
+  amount: payment.amount,
+  currency: payment.currency,
+  paymentDate: payment.paymentDate,
+  paymentMethod: payment.paymentMethod,
+  methodDetail: payment.methodDetail,
+  referenceNumber: payment.referenceNumber,
+  checkNumber: payment.checkNumber,
+  contactId: contact.id,
+  firstName: contact.firstName,
+  lastName: contact.lastName,
+};
+
+export interface DepositPayment {
+  id: number;
+  amount: string;
+  currency: Currency;
+  paymentDate: string;
+  paymentMethod: Payment["paymentMethod"];
+  methodDetail: string | null;
+  referenceNumber: string | null;
+  checkNumber: string | null;
+  contactId: number | null;
+  payerName: string | null;
+}
+
+async function paymentSummaries(
+  where: SQL,
+  executor: DbExecutor,
+  limit?: number
+): Promise<DepositPayment[]> {
+  const query = executor
+    .select(paymentSummaryColumns)
+    .from(payment)
+    .leftJoin(pledge, eq(payment.pledgeId, pledge.id))
+    .leftJoin(contact, eq(pledge.contactId, contact.id))
+    .where(where)
+    .orderBy(asc(payment.paymentDate), asc(payment.id));
+  const rows = await (limit ? query.limit(limit) : query);
+  return rows.map(({ firstName, lastName, ...row }) => ({
+    ...row,
+    payerName: firstName ? `${firstName} ${lastName}` : null,
+  }));
+}
+
+export interface DepositBatchSummary extends DepositBatch {
+  createdByName: string | null;
+  counts: Record<DepositLine["status"], number>;
+  matchedAmount: string;
+}
+
+const countLines = (status: DepositLine["status"]) =>
+  sql<number>`(SELECT count(*)::int FROM ${depositLine} WHERE ${depositLine.batchId} = ${depositBatch.id} AND ${depositLine.status} = ${status})`;
+
+async function batchSummaries(
+  where: SQL | undefined,
+  executor: DbExecutor
+): Promise<DepositBatchSummary[]> {
+  const rows = await executor
+    .select({
+      batch: depositBatch,
+      createdByName: sql<
+        string | null
+      >`(SELECT ${staffUser.name} FROM ${staffUser} WHERE ${staffUser.id} = ${depositBatch.createdBy})`,
+      unmatched: countLines("unmatched"),
+      suggested: countLines("suggested"),
+      confirmed: countLines("confirmed"),
+      ignored: countLines("ignored"),
+      matchedAmount: sql<string>`(SELECT coalesce(sum(${depositLine.amount}), 0) FROM ${depositLine} WHERE ${depositLine.batchId} = ${depositBatch.id} AND ${depositLine.status} = 'confirmed')`,
+    })
+    .from(depositBatch)
+    .where(where)
+    .orderBy(desc(depositBatch.depositDate), desc(depositBatch.id))
+    .limit(200);
+
+  return rows.map(({ batch, createdByName, matchedAmount, ...counts }) => ({
+    ...batch,
+    createdByName,
+    counts,
+    matchedAmount: moneyString(toNumber(matchedAmount)),
+  }));
+}
+
+// Deposits, newest first
+export async function listDepositBatches(
+  executor: DbExecutor = db
+): Promise<DepositBatchSummary[]> {
+  return batchSummaries(undefined, executor);
+}
+
+export interface DepositLineDetail extends DepositLine {
+  payment: DepositPayment | null;
+}
+
+export interface DepositBatchDetail extends DepositBatchSummary {
+  lines: DepositLineDetail[];
+  // Payments from the batch's processor around its dates that no line
+  // matched: recorded but apparently never deposited
+  unmatchedPayments: DepositPayment[];
+}
+
+export async function getDepositBatch(
+  batchId: number,
+  executor: DbExecutor = db
+): Promise<DepositBatchDetail | null> {
+  const [batch] = await batchSummaries(
+    eq(depositBatch.id, batchId),
+    executor
+  );
+  if (!batch) return null;
+
+  const lines = await executor
+    .select()
+    .from(depositLine)
+    .where(eq(depositLine.batchId, batchId))
+    .orderBy(asc(depositLine.rowNumber));
+  const paymentIds = lines
+    .map((line) => line.paymentId)
+    .filter((id): id is number => id !== null);
+  const payments = new Map(
+    (paymentIds.length === 0
+      ? []
+      : await paymentSummaries(inArray(payment.id, paymentIds), executor)
+    ).map((row) => [row.id, row])
+  );
+
+  const dates = lines
+    .map((line) => line.transactionDate ?? batch.depositDate)
+    .sort();
+  const unmatchedPayments =
+    batch.source && batch.status === "open" && dates.length > 0
+      ? await paymentSummaries(
+          and(
+            depositablePayments(batch),
+            eq(payment.methodDetail, batch.source),
+            gte(payment.paymentDate, shiftDate(dates[0], -DATE_WINDOW_DAYS)),
+            lte(payment.paymentDate, dates[dates.length - 1])
+          )!,
+          executor,
+          200
+        )
+      : [];
+
+  return {
+    ...batch,
+    lines: lines.map((line) => ({
+      ...line,
+      payment: line.paymentId ? (payments.get(line.paymentId) ?? null) : null,
+    })),
+    unmatchedPayments,
+  };
+}
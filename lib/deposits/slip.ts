@@ -0,0 +1,170 @@
+import { toNumber } from "@/lib/currency";
+import { getOrganization } from "@/lib/organization";
+import {
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  renderPdf,
+  type PdfPage,
+  type PdfText,
+} from "@/lib/pdf";
+import { batchVariance, type DepositBatchDetail } from "./index";
+import { entryMethodLabels, type EntryMethod } from "./fields";
+
+// A printable summary of a check and cash deposit to take to the bank with
+// it: every check with its number and payer, then the cash and check
+// subtotals and the total against the one expected.
+
+function formatMoney(amount: string | number, currency: string): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(
+    toNumber(amount)
+  );
+}
+
+const MARGIN = 56;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const ROW_HEIGHT = 14;
+const COLUMNS = {
+  row: MARGIN,
+  checkNumber: MARGIN + 30,
+  payer: MARGIN + 130,
+  method: MARGIN + 330,
+  amount: RIGHT,
+};
+
+function slipPages(deposit: DepositBatchDetail): PdfPage[] {
+  const organization = getOrganization();
+  const pages: PdfPage[] = [];
+  let texts: PdfText[] = [];
+  let rules: PdfPage["rules"] = [];
+  let y = 0;
+
+  const tableHeader = () => {
+    texts.push(
+      { x: COLUMNS.row, y, text: "#", bold: true, size: 9 },
+      { x: COLUMNS.checkNumber, y, text: "Check no.", bold: true, size: 9 },
+      { x: COLUMNS.payer, y, text: "Payer", bold: true, size: 9 },
+      { x: COLUMNS.method, y, text: "Method", bold: true, size: 9 },
+      { x: COLUMNS.amount, y, text: "Amount", bold: true, size: 9, align: "right" }
+    );
+    rules!.push({ x1: MARGIN, y1: y - 4, x2: RIGHT, y2: y - 4 });
+    y -= ROW_HEIGHT + 4;
+  };
+
+  const newPage = (first: boolean) => {
+    if (!first) pages.push({ texts, rules });
+    texts = [];
+    rules = [];
+    y = PAGE_HEIGHT - MARGIN - 10;
+    if (!first) {
+      texts.push({
+        x: MARGIN,
+        y,
+        text: `Deposit ${deposit.id} - ${deposit.depositDate} (continued)`,
+        size: 9,
+      });
+      y -= 24;
+      tableHeader();
+    }
+  };
+
+  newPage(true);
+  texts.push({ x: MARGIN, y, text: organization.name, size: 16, bold: true });
+  for (const line of organization.address) {
+    y -= 14;
+    texts.push({ x: MARGIN, y, text: line });
+  }
+
+  y -= 36;
+  texts.push({ x: MARGIN, y, text: "Deposit Slip", size: 14, bold: true });
+  texts.push({ x: RIGHT, y, text: deposit.depositDate, align: "right" });
+  y -= 18;
+  texts.push({
+    x: MARGIN,
+    y,
+    text: `Deposit ${deposit.id}${deposit.status === "open" ? " (not yet closed)" : ""}`,
+    size: 9,
+  });
+  y -= 30;
+  tableHeader();
+
+  const subtotals = { check: 0, cash: 0 };
+  const counts = { check: 0, cash: 0 };
+  for (const line of deposit.lines) {
+    if (y < MARGIN + 120) newPage(false);
+    const method = line.payment?.paymentMethod ?? "check";
+    // A money order is deposited with the checks
+    const kind = method === "cash" ? "cash" : "check";
+    subtotals[kind] += toNumber(line.amount);
+    counts[kind]++;
+    texts.push(
+      { x: COLUMNS.row, y, text: String(line.rowNumber), size: 9 },
+      { x: COLUMNS.checkNumber, y, text: line.referenceNumber ?? "", size: 9 },
+      {
+        x: COLUMNS.payer,
+        y,
+        text: (line.payment?.payerName ?? line.description ?? "").slice(0, 36),
+        size: 9,
+      },
+      {
+        x: COLUMNS.method,
+        y,
+        text: entryMethodLabels[method as EntryMethod] ?? method,
+        size: 9,
+      },
+      {
+        x: COLUMNS.amount,
+        y,
+        text: formatMoney(line.amount, deposit.currency),
+        size: 9,
+        align: "right",
+      }
+    );
+    y -= ROW_HEIGHT;
+  }
+
+  if (y < MARGIN + 120) newPage(false);
+  rules.push({ x1: MARGIN, y1: y + 8, x2: RIGHT, y2: y + 8 });
+  y -= 6;
+  const variance = batchVariance(deposit);
+  const summary: [string, string, boolean][] = [
+    [`Checks (${counts.check})`, formatMoney(subtotals.check, deposit.currency), false],
+    [`Cash (${counts.cash})`, formatMoney(subtotals.cash, deposit.currency), false],
+    [
+      `Total (${deposit.lineCount} items)`,
+      formatMoney(deposit.totalAmount, deposit.currency),
+      true,
+    ],
+  ];
+  if (deposit.expectedTotal !== null) {
+    summary.push(
+      ["Expected", formatMoney(deposit.expectedTotal, deposit.currency), false],
+      ["Variance", formatMoney(variance.amount ?? 0, deposit.currency), false]
+    );
+  }
+  if (deposit.expectedCount !== null) {
+    summary.push([
+      "Expected items",
+      `${deposit.expectedCount} (${variance.count! > 0 ? "+" : ""}${variance.count})`,
+      false,
+    ]);
+  }
+  for (const [label, value, bold] of summary) {
+    texts.push(
+      { x: COLUMNS.method, y, text: label, bold },
+      { x: COLUMNS.amount, y, text: value, bold, align: "right" }
+    );
+    y -= ROW_HEIGHT + 2;
+  }
+
+  if (deposit.notes) {
+    y -= 16;
+    texts.push({ x: MARGIN, y, text: deposit.notes.slice(0, 100), size: 8 });
+  }
+
+  pages.push({ texts, rules });
+  return pages;
+}
+
+export function renderDepositSlipPdf(deposit: DepositBatchDetail): Buffer {
+  return renderPdf(slipPages(deposit));
+}
@@ -0,0 +1,328 @@
+import { and, isNull, ne } from "drizzle-orm";
+import { db, type DbExecutor } from "@/lib/db";
+import { contact } from "@/lib/db/schema";
+
+// Scores how likely two contacts are the same person from their normalised
+// name, email, phone and address. Only pairs that share at least one of those
+// keys are compared, so a full scan stays close to linear in the number of
+// contacts.
+
+export type DuplicateReason =
+  | "email"
+  | "phone"
+  | "name"
+  | "similarName"
+  | "address";
+
+export interface DuplicateCandidate {
+  contactId: number;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+}
+
+export interface DuplicateMatch {
+  contact: DuplicateCandidate;
+  duplicate: DuplicateCandidate;
+  // 0-100
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicateSearchOptions {
+  // Only matches for this contact
+  contactId?: number;
+  // Defaults to DEFAULT_MIN_SCORE
+  minScore?: number;
+  limit?: number;
+}
+
+// Points per matching key; a pair's score is their sum, capped at 100
+const WEIGHTS: Record<DuplicateReason, number> = {
+  email: 50,
+  phone: 35,
+  name: 30,
+  similarName: 15,
+  address: 25,
+};
+
+export const DEFAULT_MIN_SCORE = 50;
+const DEFAULT_LIMIT = 100;
+
+// Phone numbers are compared on their last digits so that "+972 50-123-4567"
+// and "050 1234567" agree
+const PHONE_DIGITS = 9;
+
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: "st",
+  avenue: "ave",
+  road: "rd",
+  boulevard: "blvd",
+  drive: "dr",
+  lane: "ln",
+  court: "ct",
+  place: "pl",
+  apartment: "apt",
+  suite: "ste",
+  north: "n",
+  south: "s",
+  east: "e",
+  west: "w",
+};
+
+function fold(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+export function normalizeName(value: string | null): string {
+  return value ? fold(value).replace(/\s+/g, "") : "";
+}
+
+// Lowercases and, for Gmail, drops dots and +tags, which Gmail ignores
+export function normalizeEmail(value: string | null): string {
+  if (!value) return "";
+  const [local, domain] = value.trim().toLowerCase().split("@");
+  if (!domain) return local;
+  const plain = local.split("+")[0];
+  if (domain === "gmail.com" || domain === "googlemail.com") {
+    return `${plain.replace(/\./g, "")}@gmail.com`;
+  }
+  return `${plain}@${domain}`;
+}
+
+export function normalizePhone(value: string | null): string {
+  const digits = value ? value.replace(/\D/g, "") : "";
+  return digits.length >= 7 ? digits.slice(-PHONE_DIGITS) : "";
+}
+
+export function normalizeAddress(value: string | null): string {
+  if (!value) return "";
+  return fold(value)
+    .split(/\s+/)
+    .map((word) => ADDRESS_ABBREVIATIONS[word] ?? word)
+    .join(" ");
+}
+
+// Edit distance, for names that differ by a typo
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+interface Keys {
+  first: string;
+  last: string;
+  email: string;
+  phone: string;
+  address: string;
+}
+
+function keysOf(candidate: DuplicateCandidate): Keys {
+  return {
+    first: normalizeName(candidate.firstName),
+    last: normalizeName(candidate.lastName),
+    email: normalizeEmail(candidate.email),
+    phone: normalizePhone(candidate.phone),
+    address: normalizeAddress(candidate.address),
+  };
+}
+
+export function scoreDuplicate(
+  a: DuplicateCandidate,
+  b: DuplicateCandidate
+): { score: number; reasons: DuplicateReason[] } {
+  const ka = keysOf(a);
+  const kb = keysOf(b);
+  const reasons: DuplicateReason[] = [];
+
+  if (ka.email && ka.email === kb.email) reasons.push("email");
+  if (ka.phone && ka.phone === kb.phone) reasons.push("phone");
+  if (ka.address && ka.address === kb.address) reasons.push("address");
+
+  if (ka.last && ka.first && ka.last === kb.last && ka.first === kb.first) {
+    reasons.push("name");
+  } else if (
+    ka.last &&
+    ka.first &&
+    kb.first &&
+    // The same surname with a first name one typo away or an initial, or
+    // first and last name swapped
+    ((ka.last === kb.last &&
+      (editDistance(ka.first, kb.first) <= 1 ||
+        ((ka.first.length === 1 || kb.first.length === 1) &&
+          ka.first[0] === kb.first[0]))) ||
+      (ka.first === kb.last && ka.last === kb.first))
+  ) {
+    reasons.push("similarName");
+  }
+
+  const score = Math.min(
+    100,
+    reasons.reduce((sum, reason) => sum + WEIGHTS[reason], 0)
+  );
+  return { score, reasons };
+}
+
+function blockingKeys(keys: Keys): string[] {
+  return [
+    keys.email && `e:${keys.email}`,
+    keys.phone && `p:${keys.phone}`,
+    keys.address && `a:${keys.address}`,
+    keys.last && `l:${keys.last}`,
+    // Catches first and last name swapped
+    keys.first && keys.last && `n:${[keys.first, keys.last].sort().join(" ")}`,
+  ].filter((key): key is string => !!key);
+}
+
+async function getCandidates(
+  executor: DbExecutor,
+  excludeContactId?: number
+): Promise<DuplicateCandidate[]> {
+  return executor
+    .select({
+      contactId: contact.id,
+      firstName: contact.firstName,
+      lastName: contact.lastName,
+      email: contact.email,
+      phone: contact.phone,
+      address: contact.address,
+    })
+    .from(contact)
+    .where(
+      and(
+        isNull(contact.deletedAt),
+        excludeContactId ? ne(contact.id, excludeContactId) : undefined
+      )
+    )
+    .orderBy(contact.id);
+}
+
+// Likely duplicate pairs among contacts outside the trash, best first. With
+// `contactId`, only that contact's matches.
+export async function findDuplicates(
+  options: DuplicateSearchOptions = {},
+  executor: DbExecutor = db
+): Promise<DuplicateMatch[]> {
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const candidates = await getCandidates(executor);
+
+  const blocks = new Map<string, DuplicateCandidate[]>();
+  for (const candidate of candidates) {
+    for (const key of blockingKeys(keysOf(candidate))) {
+      const block = blocks.get(key) ?? [];
+      block.push(candidate);
+      blocks.set(key, block);
+    }
+  }
+
+  const seen = new Set<string>();
+  const matches: DuplicateMatch[] = [];
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [a, b] = [block[i], block[j]];
+        if (
+          options.contactId &&
+          a.contactId !== options.contactId &&
+          b.contactId !== options.contactId
+        ) {
+          continue;
+        }
+        const pair = `${a.contactId}:${b.contactId}`;
+        if (seen.has(pair)) continue;
+        seen.add(pair);
+
+        const { score, reasons } = scoreDuplicate(a, b);
+        if (score < minScore) continue;
+        // List the asked-for contact first
+        const [first, second] =
+          options.contactId === b.contactId ? [b, a] : [a, b];
+        matches.push({ contact: first, duplicate: second, score, reasons });
+      }
+    }
+  }
+
+  return matches
+    .sort(
+      (x, y) =>
+        y.score - x.score ||
+        x.contact.contactId - y.contact.contactId ||
+        x.duplicate.contactId - y.duplicate.contactId
+    )
+    .slice(0, limit);
+}
+
+type MatchDetails = Omit<DuplicateCandidate, "contactId">;
+
+export interface MatchOptions {
+  minScore?: number;
+  excludeContactId?: number;
+}
+
+// Loads the contacts once and returns a function that finds the matches for
+// one new contact, for checking many of them in a row (e.g. an import).
+export async function createMatcher(
+  options: MatchOptions = {},
+  executor: DbExecutor = db
+): Promise<(details: MatchDetails) => Omit<DuplicateMatch, "duplicate">[]> {
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+  const candidates = await getCandidates(executor, options.excludeContactId);
+
+  const blocks = new Map<string, DuplicateCandidate[]>();
+  for (const candidate of candidates) {
+    for (const key of blockingKeys(keysOf(candidate))) {
+      const block = blocks.get(key);
+      if (block) block.push(candidate);
+      else blocks.set(key, [candidate]);
+    }
+  }
+
+  return (details) => {
+    const probe: DuplicateCandidate = { contactId: 0, ...details };
+    const compared = new Set<DuplicateCandidate>();
+    for (const key of blockingKeys(keysOf(probe))) {
+      for (const candidate of blocks.get(key) ?? []) compared.add(candidate);
+    }
+
+    return [...compared]
+      .map((candidate) => ({
+        contact: candidate,
+        ...scoreDuplicate(probe, candidate),
+      }))
+      .filter((match) => match.score >= minScore)
+      .sort(
+        (x, y) => y.score - x.score || x.contact.contactId - y.contact.contactId
+      );
+  };
+}
+
+// Existing contacts that look like the one about to be created, for warning
+// before a duplicate is saved.
+export async function findMatchesFor(
+  details: MatchDetails,
+  options: MatchOptions = {},
+  executor: DbExecutor = db
+): Promise<Omit<DuplicateMatch, "duplicate">[]> {
+  return (await createMatcher(options, executor))(details);
+}
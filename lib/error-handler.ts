@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server";
+import { DrizzleQueryError } from "drizzle-orm/errors";
 import { ZodError } from "zod";
 
 export interface ApiError {
@@ -11,12 +12,29 @@ export interface ApiError {
     code: string;
   }>;
   code?: string;
+  // Likely duplicates of a contact being created (POSSIBLE_DUPLICATE)
+  duplicates?: Array<{
+    contactId: number;
+    firstName: string;
+    lastName: string;
+    email: string | null;
+    phone: string | null;
+    address: string | null;
+    score: number;
+    reasons: string[];
+  }>;
 }
 
 export class ErrorHandler {
   static async handle(error: unknown): Promise<NextResponse> {
     console.error("API Error:", error);
 
+    // Drizzle wraps database errors in a DrizzleQueryError; the driver's
+    // error, with its message and code, is the cause
+    if (error instanceof DrizzleQueryError && error.cause) {
+      error = error.cause;
+    }
+
     // Validation errors (Zod)
     if (error instanceof ZodError) {
       return NextResponse.json(
@@ -203,6 +221,9 @@ export class ClientErrorHandler {
         }
         return "Email already exists";
 
+      case "POSSIBLE_DUPLICATE":
+        return "This contact may already exist. Review the matches before saving.";
+
       case "REQUIRED_FIELD_ERROR":
         if (error.field && setFieldError) {
           setFieldError(error.field, `${error.field} is required`);
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { db } from "@/lib/db";
+import { exchangeRate } from "@/lib/db/schema";
+import { getRate, getRatesForDate, SUPPORTED_CURRENCIES } from ".";
+
+const quotes = Object.fromEntries(
+  SUPPORTED_CURRENCIES.map((currency, i) => [`USD${currency}`, i + 1])
+);
+
+let fetch: ReturnType<typeof vi.fn>;
+
+beforeEach(async () => {
+  await db.execute(sql`TRUNCATE ${exchangeRate}`);
+  vi.stubEnv("EXCHANGE_RATE_PROVIDER", "exchangerate.host");
+  vi.stubEnv("EXCHANGERATE_API_KEY", "key");
+  fetch = vi.fn(async () => Response.json({ quotes }));
+  vi.stubGlobal("fetch", fetch);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe("getRatesForDate", () => {
+  it("fetches a date once and then serves it from the table", async () => {
+    const fetched = await getRatesForDate("2024-03-01");
+    expect(fetched).toMatchObject({ date: "2024-03-01", source: "exchangerate.host" });
+    expect(fetched.rates.USD).toBe(1);
+
+    const cached = await getRatesForDate("2024-03-01");
+    expect(cached.rates).toEqual(fetched.rates);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(await db.select().from(exchangeRate)).toHaveLength(
+      SUPPORTED_CURRENCIES.length
+    );
+  });
+
+  it("uses today's rates for a future date", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-03-05T12:00:00Z"));
+    expect((await getRatesForDate("2030-01-01")).date).toBe("2024-03-05");
+  });
+
+  it("does not store rates from the offline file", async () => {
+    vi.stubEnv("EXCHANGE_RATE_PROVIDER", "file");
+    const { source } = await getRatesForDate("2024-03-01");
+    expect(source).toBe("file");
+    expect(await db.select().from(exchangeRate)).toEqual([]);
+  });
+});
+
+describe("getRate", () => {
+  it("is 1 for US dollars without a lookup", async () => {
+    expect(await getRate("USD", "2024-03-01")).toBe(1);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("reads a stored rate", async () => {
+    await db
+      .insert(exchangeRate)
+      .values({ date: "2024-03-01", currency: "ILS", rate: "3.65", source: "manual" });
+    expect(await getRate("ILS", "2024-03-01")).toBe(3.65);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
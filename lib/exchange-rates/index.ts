@@ -0,0 +1,81 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { exchangeRate } from "@/lib/db/schema";
+import {
+  getExchangeRateProvider,
+  SUPPORTED_CURRENCIES,
+  type RateTable,
+} from "./providers";
+
+export * from "./providers";
+
+export interface RatesForDate {
+  date: string;
+  source: string;
+  // Units of each currency per one US dollar.
+  rates: RateTable;
+}
+
+function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+// Returns the rates for `date`, served from the exchange_rate table when every
+// supported currency is already cached and fetched from the provider (and
+// cached, if the provider allows it) otherwise. Future dates use today's rates.
+export async function getRatesForDate(date?: string): Promise<RatesForDate> {
+  const targetDate = !date || date > today() ? today() : date;
+
+  const cached = await db
+    .select()
+    .from(exchangeRate)
+    .where(eq(exchangeRate.date, targetDate));
+
+  if (cached.length >= SUPPORTED_CURRENCIES.length) {
+    const rates: RateTable = {};
+    for (const row of cached) rates[row.currency] = Number(row.rate);
+    return { date: targetDate, source: cached[0].source, rates };
+  }
+
+  const provider = getExchangeRateProvider();
+  const rates = await provider.fetchRates(targetDate);
+
+  if (provider.cacheable) {
+    const rows = Object.entries(rates).map(([currency, rate]) => ({
+      date: targetDate,
+      currency: currency as keyof RateTable,
+      rate: rate.toString(),
+      source: provider.name,
+    }));
+    if (rows.length > 0) {
+      await db
+        .insert(exchangeRate)
+        .values(rows)
+        .onConflictDoNothing({
+          target: [exchangeRate.date, exchangeRate.currency],
+        });
+    }
+  }
+
+  return { date: targetDate, source: provider.name, rates };
+}
+
+// Single-currency lookup for server code that needs one rate.
+export async function getRate(
+  currency: keyof RateTable,
+  date?: string
+): Promise<number | null> {
+  if (currency === "USD") return 1;
+
+  if (date) {
+    const [row] = await db
+      .select({ rate: exchangeRate.rate })
+      .from(exchangeRate)
+      .where(and(eq(exchangeRate.date, date), eq(exchangeRate.currency, currency)))
+      .limit(1);
+    if (row) return Number(row.rate);
+  }
+
+  const { rates } = await getRatesForDate(date);
+  return rates[currency] ?? null;
+}
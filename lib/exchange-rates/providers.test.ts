@@ -0,0 +1,103 @@
+import { mkdtemp, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  ExchangeRateProviderError,
+  exchangerateHostProvider,
+  fileProvider,
+  getExchangeRateProvider,
+} from "./providers";
+
+let fixturePath: string;
+
+beforeAll(async () => {
+  fixturePath = path.join(await mkdtemp(path.join(tmpdir(), "rates-")), "rates.json");
+  await writeFile(
+    fixturePath,
+    JSON.stringify({
+      default: { ILS: 3.5, EUR: 0.9 },
+      "2024-01-01": { ILS: 3.6, XYZ: 2 },
+      "2024-06-01": { ILS: 3.7 },
+    })
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe("fileProvider", () => {
+  it("uses the newest entry on or before the date", async () => {
+    vi.stubEnv("EXCHANGE_RATES_FILE", fixturePath);
+    expect(await fileProvider.fetchRates("2024-05-31")).toEqual({ USD: 1, ILS: 3.6 });
+    expect(await fileProvider.fetchRates("2024-06-01")).toEqual({ USD: 1, ILS: 3.7 });
+  });
+
+  it("falls back to the default entry", async () => {
+    vi.stubEnv("EXCHANGE_RATES_FILE", fixturePath);
+    expect(await fileProvider.fetchRates("2023-12-31")).toEqual({
+      USD: 1,
+      ILS: 3.5,
+      EUR: 0.9,
+    });
+  });
+
+  it("fails when the file cannot be read", async () => {
+    vi.stubEnv("EXCHANGE_RATES_FILE", path.join(tmpdir(), "missing-rates.json"));
+    await expect(fileProvider.fetchRates("2024-01-01")).rejects.toBeInstanceOf(
+      ExchangeRateProviderError
+    );
+  });
+});
+
+describe("exchangerateHostProvider", () => {
+  it("reads USD-based quotes", async () => {
+    vi.stubEnv("EXCHANGERATE_API_KEY", "key");
+    const fetch = vi.fn(async () =>
+      Response.json({ quotes: { USDILS: 3.65, USDEUR: 0.92, USDXYZ: 5 } })
+    );
+    vi.stubGlobal("fetch", fetch);
+
+    expect(await exchangerateHostProvider.fetchRates("2024-03-01")).toEqual({
+      USD: 1,
+      ILS: 3.65,
+      EUR: 0.92,
+    });
+    const [url] = fetch.mock.calls[0] as unknown as [URL];
+    expect(url.searchParams.get("date")).toBe("2024-03-01");
+    expect(url.searchParams.get("access_key")).toBe("key");
+  });
+
+  it("reports the API's error", async () => {
+    vi.stubEnv("EXCHANGERATE_API_KEY", "key");
+    vi.stubGlobal(
+      "fetch",
+      async () => Response.json({ error: { info: "Invalid access key" } })
+    );
+    await expect(exchangerateHostProvider.fetchRates("2024-03-01")).rejects.toThrow(
+      "Invalid access key"
+    );
+  });
+});
+
+describe("getExchangeRateProvider", () => {
+  it("uses the live API only with a key", () => {
+    vi.stubEnv("EXCHANGE_RATE_PROVIDER", "");
+    vi.stubEnv("EXCHANGERATE_API_KEY", "");
+    expect(getExchangeRateProvider()).toBe(fileProvider);
+    vi.stubEnv("EXCHANGERATE_API_KEY", "key");
+    expect(getExchangeRateProvider()).toBe(exchangerateHostProvider);
+  });
+
+  it("takes the configured provider", () => {
+    vi.stubEnv("EXCHANGERATE_API_KEY", "key");
+    vi.stubEnv("EXCHANGE_RATE_PROVIDER", "file");
+    expect(getExchangeRateProvider()).toBe(fileProvider);
+    vi.stubEnv("EXCHANGE_RATE_PROVIDER", "oanda");
+    expect(() => getExchangeRateProvider()).toThrow(
+      'Unknown EXCHANGE_RATE_PROVIDER "oanda"'
+    );
+  });
+});
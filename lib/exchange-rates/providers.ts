@@ -0,0 +1,131 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { currencyEnum } from "@/lib/db/schema";
+
+export type Currency = (typeof currencyEnum.enumValues)[number];
+
+export const SUPPORTED_CURRENCIES = currencyEnum.enumValues;
+
+// Units of each currency per one US dollar.
+export type RateTable = Partial<Record<Currency, number>>;
+
+export interface ExchangeRateProvider {
+  name: string;
+  // Whether fetched rates may be stored in the exchange_rate table. Offline
+  // fixtures are not cached so they never mask real historical rates.
+  cacheable: boolean;
+  fetchRates(date: string): Promise<RateTable>;
+}
+
+export class ExchangeRateProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExchangeRateProviderError";
+  }
+}
+
+function isCurrency(code: string): code is Currency {
+  return (SUPPORTED_CURRENCIES as readonly string[]).includes(code);
+}
+
+export const exchangerateHostProvider: ExchangeRateProvider = {
+  name: "exchangerate.host",
+  cacheable: true,
+  async fetchRates(date) {
+    const accessKey = process.env.EXCHANGERATE_API_KEY;
+    if (!accessKey) {
+      throw new ExchangeRateProviderError("EXCHANGERATE_API_KEY is not set");
+    }
+
+    const url = new URL("https://api.exchangerate.host/historical");
+    url.searchParams.set("access_key", accessKey);
+    url.searchParams.set("date", date);
+    url.searchParams.set("currencies", SUPPORTED_CURRENCIES.join(","));
+
+    const response = await fetch(url, { cache: "no-store" });
+    if (!response.ok) {
+      throw new ExchangeRateProviderError(
+        `exchangerate.host responded with ${response.status}`
+      );
+    }
+
+    const data = await response.json();
+    if (!data.quotes) {
+      throw new ExchangeRateProviderError(
+        data.error?.info || "exchangerate.host returned no quotes"
+      );
+    }
+
+    // Quotes are keyed "USDILS": units of ILS per US dollar.
+    const rates: RateTable = { USD: 1 };
+    for (const [key, value] of Object.entries(data.quotes)) {
+      const code = key.replace(/^USD/, "");
+      if (isCurrency(code)) rates[code] = Number(value);
+    }
+    return rates;
+  },
+};
+
+// Reads rates from a JSON file shaped { "default": {...}, "2024-01-31": {...} }.
+// The newest dated entry on or before the requested date wins, falling back to
+// "default". Lets the app run offline.
+export const fileProvider: ExchangeRateProvider = {
+  name: "file",
+  cacheable: false,
+  async fetchRates(date) {
+    const filePath =
+      process.env.EXCHANGE_RATES_FILE ||
+      path.join(process.cwd(), "data", "exchange-rates.json");
+
+    let fixture: Record<string, Record<string, number>>;
+    try {
+      fixture = JSON.parse(await readFile(filePath, "utf8"));
+    } catch (error) {
+      throw new ExchangeRateProviderError(
+        `Could not read exchange rate file ${filePath}: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+
+    const entryDate = Object.keys(fixture)
+      .filter((key) => key !== "default" && key <= date)
+      .sort()
+      .pop();
+    const entry = fixture[entryDate ?? "default"];
+    if (!entry) {
+      throw new ExchangeRateProviderError(
+        `No exchange rates in ${filePath} for ${date}`
+      );
+    }
+
+    const rates: RateTable = { USD: 1 };
+    for (const [code, value] of Object.entries(entry)) {
+      if (isCurrency(code)) rates[code] = Number(value);
+    }
+    return rates;
+  },
+};
+
+const providers: Record<string, ExchangeRateProvider> = {
+  "exchangerate.host": exchangerateHostProvider,
+  file: fileProvider,
+};
+
+// EXCHANGE_RATE_PROVIDER picks the provider explicitly; otherwise the live API
+// is used when a key is configured and the local file when it is not.
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  const configured = process.env.EXCHANGE_RATE_PROVIDER;
+  if (configured) {
+    const provider = providers[configured];
+    if (!provider) {
+      throw new ExchangeRateProviderError(
+        `Unknown EXCHANGE_RATE_PROVIDER "${configured}"`
+      );
+    }
+    return provider;
+  }
+  return process.env.EXCHANGERATE_API_KEY
+    ? exchangerateHostProvider
+    : fileProvider;
+}
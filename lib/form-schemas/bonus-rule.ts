@@ -0,0 +1,103 @@
+import { z } from "zod";
+import { paymentMethodEnum } from "@/lib/db/schema";
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const money = z.coerce.number().min(0);
+const percentage = z.coerce.number().min(0).max(100);
+const id = z.coerce.number().int().positive();
+const paymentMethod = z.enum(paymentMethodEnum.enumValues);
+
+export const bonusRuleTierSchema = z.object({
+  minVolume: money,
+  bonusPercentage: percentage,
+});
+
+const bonusRuleFields = {
+  solicitorId: id,
+  ruleName: z.string().min(1, "Rule name is required"),
+  calculationType: z.enum(["percentage", "flat", "tiered"]),
+  bonusPercentage: percentage,
+  flatAmount: money.nullable(),
+  yearlyCap: money.nullable(),
+  tiers: z.array(bonusRuleTierSchema),
+  paymentType: z.enum(["tuition", "donation", "both"]),
+  // Empty or null targets every category, campaign code or payment method.
+  categoryIds: z.array(id).nullable(),
+  campaignCodes: z.array(z.string().trim().min(1)).nullable(),
+  paymentMethods: z.array(paymentMethod).nullable(),
+  minAmount: money.nullable(),
+  maxAmount: money.nullable(),
+  effectiveFrom: dateString,
+  effectiveTo: dateString.nullable(),
+  isActive: z.boolean(),
+  priority: z.coerce.number().int(),
+  notes: z.string().nullable(),
+};
+
+// Checks that a rule carries the terms its calculation type needs. Runs on
+// the merged rule for updates, since a PUT may change only some fields.
+export function bonusRuleTermsIssue(rule: {
+  calculationType: "percentage" | "flat" | "tiered";
+  bonusPercentage?: number | null;
+  flatAmount?: number | null;
+  tiers?: { minVolume: number }[];
+}): string | null {
+  switch (rule.calculationType) {
+    case "percentage":
+      return rule.bonusPercentage ? null : "Percentage rules need a bonusPercentage";
+    case "flat":
+      return rule.flatAmount ? null : "Flat rules need a flatAmount";
+    case "tiered": {
+      const volumes = (rule.tiers ?? []).map((tier) => tier.minVolume);
+      if (volumes.length === 0) return "Tiered rules need at least one tier";
+      if (new Set(volumes).size !== volumes.length) {
+        return "Each tier needs a different minVolume";
+      }
+      return null;
+    }
+  }
+}
+
+export const bonusRuleSchema = z
+  .object({
+    ...bonusRuleFields,
+    calculationType: bonusRuleFields.calculationType.default("percentage"),
+    bonusPercentage: bonusRuleFields.bonusPercentage.default(0),
+    flatAmount: bonusRuleFields.flatAmount.optional(),
+    yearlyCap: bonusRuleFields.yearlyCap.optional(),
+    tiers: bonusRuleFields.tiers.default([]),
+    paymentType: bonusRuleFields.paymentType.default("both"),
+    categoryIds: bonusRuleFields.categoryIds.optional(),
+    campaignCodes: bonusRuleFields.campaignCodes.optional(),
+    paymentMethods: bonusRuleFields.paymentMethods.optional(),
+    minAmount: bonusRuleFields.minAmount.optional(),
+    maxAmount: bonusRuleFields.maxAmount.optional(),
+    effectiveTo: bonusRuleFields.effectiveTo.optional(),
+    isActive: bonusRuleFields.isActive.default(true),
+    priority: bonusRuleFields.priority.default(1),
+    notes: bonusRuleFields.notes.optional(),
+  })
+  .superRefine((rule, ctx) => {
+    const issue = bonusRuleTermsIssue(rule);
+    if (issue) ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue });
+  });
+
+export const bonusRuleUpdateSchema = z.object(bonusRuleFields).partial();
+
+// paymentType defaults to the category's mapping when a categoryId is given.
+export const bonusPreviewSchema = z.object({
+  solicitorId: id,
+  amountUsd: z.coerce.number().positive(),
+  paymentDate: dateString.optional(),
+  paymentType: z.enum(["tuition", "donation"]).optional(),
+  categoryId: id.optional(),
+  campaignCode: z.string().trim().min(1).optional(),
+  paymentMethod: paymentMethod.optional(),
+});
+
+export type BonusRuleValues = z.infer<typeof bonusRuleSchema>;
+export type BonusRuleUpdateValues = z.infer<typeof bonusRuleUpdateSchema>;
+export type BonusPreviewValues = z.infer<typeof bonusPreviewSchema>;
@@ -3,5 +3,10 @@ import z from "zod";
 export const categorySchema = z.object({
   name: z.string().min(1, "Category name is required"),
   description: z.string().optional(),
+  // Which bonus rules the category's pledges fall under; null leaves it to
+  // rules that apply to both tuition and donations.
+  bonusPaymentType: z.enum(["tuition", "donation"]).nullable().optional(),
   isActive: z.boolean().default(true),
 });
+
+export const categoryUpdateSchema = categorySchema.partial();
@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+// Contact fields a merge can take from the merged contact
+export const MERGE_FIELDS = [
+  "firstName",
+  "lastName",
+  "email",
+  "phone",
+  "title",
+  "gender",
+  "address",
+  "preferredCurrency",
+] as const;
+
+export type MergeField = (typeof MERGE_FIELDS)[number];
+
+export const contactMergeSchema = z
+  .object({
+    survivorId: z.coerce.number().int().positive(),
+    mergedContactId: z.coerce.number().int().positive(),
+    take: z.array(z.enum(MERGE_FIELDS)).optional(),
+  })
+  .refine((data) => data.survivorId !== data.mergedContactId, {
+    message: "Choose two different contacts",
+    path: ["mergedContactId"],
+  });
+
+export type ContactMergeValues = z.infer<typeof contactMergeSchema>;
@@ -1,6 +1,41 @@
 import { z } from "zod";
+import {
+  addressTypeEnum,
+  currencyEnum,
+  emailTypeEnum,
+  phoneTypeEnum,
+} from "@/lib/db/schema";
 
-export const contactFormSchema = z.object({
+export const contactAddressSchema = z.object({
+  type: z.enum(addressTypeEnum.enumValues),
+  street: z.string().trim().min(1, { message: "Street is required" }),
+  city: z.string().trim().optional(),
+  state: z.string().trim().optional(),
+  postalCode: z.string().trim().optional(),
+  country: z.string().trim().optional(),
+  isPrimary: z.boolean().optional(),
+});
+
+export const contactPhoneSchema = z.object({
+  type: z.enum(phoneTypeEnum.enumValues),
+  number: z.string().trim().min(1, { message: "Phone number is required" }),
+  isPrimary: z.boolean().optional(),
+});
+
+export const contactEmailSchema = z.object({
+  type: z.enum(emailTypeEnum.enumValues),
+  email: z.string().trim().email({ message: "Invalid email address" }),
+  isPrimary: z.boolean().optional(),
+});
+
+export type ContactAddressValues = z.infer<typeof contactAddressSchema>;
+export type ContactPhoneValues = z.infer<typeof contactPhoneSchema>;
+export type ContactEmailValues = z.infer<typeof contactEmailSchema>;
+
+// `email`, `phone` and `address` set the primary entry on their own; the
+// `emails`, `phones` and `addresses` lists, when sent, replace the contact's
+// whole list and win over them (see lib/contact-channels.ts).
+export const contactFieldsSchema = z.object({
   firstName: z
     .string()
     .min(2, { message: "First name must be at least 2 characters" })
@@ -9,9 +44,22 @@ export const contactFormSchema = z.object({
     .string()
     .min(2, { message: "Last name must be at least 2 characters" })
     .max(32, { message: "Last name must be at most 32 characters" }),
-  email: z.string().email({ message: "Invalid email address" }),
+  email: z.string().email({ message: "Invalid email address" }).optional(),
   phone: z.string().optional(),
   title: z.enum(["mr", "mrs", "ms", "dr", "prof", "eng", "other"]).optional(),
   gender: z.enum(["male", "female"]).optional(),
   address: z.string().optional(),
+  preferredCurrency: z.enum(currencyEnum.enumValues).optional(),
+  addresses: z.array(contactAddressSchema).optional(),
+  phones: z.array(contactPhoneSchema).optional(),
+  emails: z.array(contactEmailSchema).optional(),
 });
+
+// Creating or replacing a contact needs at least one email
+export const contactFormSchema = contactFieldsSchema.refine(
+  (data) => !!data.email || !!data.emails?.length,
+  { message: "At least one email is required", path: ["emails"] }
+);
+
+// PATCH bodies: any subset of the fields, validated the same way
+export const contactPatchSchema = contactFieldsSchema.partial();
@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { currencyEnum } from "@/lib/db/schema";
+import { ENTRY_METHODS } from "@/lib/deposits/fields";
+import { columnMapField } from "./import";
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+// The fields sent with a payout or statement file. The form is multipart, so
+// the column map arrives as a JSON string and the flag as "true" or "false".
+export const depositUploadSchema = z.object({
+  // The payment.methodDetail the file pays out, e.g. "stripe"
+  source: z.string().trim().optional().transform((value) => value || null),
+  depositDate: dateString,
+  currency: z.enum(currencyEnum.enumValues).default("USD"),
+  notes: z.string().trim().optional().transform((value) => value || null),
+  columnMap: columnMapField,
+  // Only read the file and report its lines
+  dryRun: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+export type DepositUploadValues = z.infer<typeof depositUploadSchema>;
+
+export const depositLineActionSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("confirm"),
+    // Defaults to the suggested payment
+    paymentId: z.coerce.number().int().positive().optional(),
+  }),
+  z.object({ action: z.literal("unmatch") }),
+  z.object({ action: z.literal("ignore") }),
+]);
+
+export type DepositLineAction = z.infer<typeof depositLineActionSchema>;
+
+const expectedTotal = z.coerce
+  .number()
+  .nonnegative("Expected total cannot be negative")
+  .nullable();
+const expectedCount = z.coerce
+  .number()
+  .int()
+  .nonnegative("Expected count cannot be negative")
+  .nullable();
+
+// Opens a deposit of checks and cash to key in, with the total and count
+// added up beforehand if known
+export const depositEntryBatchSchema = z.object({
+  depositDate: dateString,
+  currency: z.enum(currencyEnum.enumValues).default("USD"),
+  expectedTotal: expectedTotal.optional(),
+  expectedCount: expectedCount.optional(),
+  notes: z.string().trim().optional().transform((value) => value || null),
+});
+
+export type DepositEntryBatchValues = z.infer<typeof depositEntryBatchSchema>;
+
+export const depositBatchUpdateSchema = z.object({
+  expectedTotal: expectedTotal.optional(),
+  expectedCount: expectedCount.optional(),
+  notes: z
+    .string()
+    .trim()
+    .nullable()
+    .optional()
+    .transform((value) => (value === undefined ? undefined : value || null)),
+});
+
+export type DepositBatchUpdateValues = z.infer<typeof depositBatchUpdateSchema>;
+
+// One check or cash payment keyed in to a deposit
+export const depositEntrySchema = z
+  .object({
+    pledgeId: z.coerce.number().int().positive("Choose a pledge"),
+    amount: z.coerce.number().positive("Amount must be positive"),
+    paymentMethod: z.enum(ENTRY_METHODS).default("check"),
+    checkNumber: z.string().trim().optional().transform((value) => value || null),
+    // Defaults to the deposit date
+    paymentDate: dateString.optional(),
+    notes: z.string().trim().optional().transform((value) => value || null),
+  })
+  .refine((values) => values.paymentMethod === "cash" || !!values.checkNumber, {
+    message: "Check number is required",
+    path: ["checkNumber"],
+  });
+
+export type DepositEntryValues = z.infer<typeof depositEntrySchema>;
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { householdRoleEnum } from "@/lib/db/schema";
+
+export const householdMemberSchema = z.object({
+  contactId: z.coerce.number().int().positive(),
+  role: z.enum(householdRoleEnum.enumValues),
+});
+
+export type HouseholdMemberValues = z.infer<typeof householdMemberSchema>;
+
+const membersSchema = z
+  .array(householdMemberSchema)
+  .min(1, "A household needs at least one member")
+  .refine(
+    (members) =>
+      new Set(members.map((member) => member.contactId)).size ===
+      members.length,
+    "A contact can only be listed once"
+  )
+  .refine(
+    (members) => members.filter((member) => member.role === "head").length <= 1,
+    "A household has at most one head"
+  );
+
+const householdFields = {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  salutation: z.string().trim().max(200).nullable().optional(),
+  notes: z.string().nullable().optional(),
+};
+
+// Either list the members or name a contact to build the household around
+// from their spouse and child relationships.
+export const householdSchema = z
+  .object({
+    ...householdFields,
+    name: householdFields.name.optional(),
+    members: membersSchema.optional(),
+    fromContactId: z.coerce.number().int().positive().optional(),
+  })
+  .refine((data) => !!data.members || !!data.fromContactId, {
+    message: "Give the members or a contact to start from",
+    path: ["members"],
+  });
+
+export type HouseholdValues = z.infer<typeof householdSchema>;
+
+// PATCH bodies: `members`, when sent, replaces the whole member list
+export const householdPatchSchema = z
+  .object({ ...householdFields, members: membersSchema })
+  .partial();
+
+export type HouseholdPatchValues = z.infer<typeof householdPatchSchema>;
+
+export const householdCreditSchema = z.object({
+  paymentId: z.coerce.number().int().positive(),
+  // Defaults to the whole amount for the payer when they are a member
+  attributions: z
+    .array(
+      z.object({
+        contactId: z.coerce.number().int().positive(),
+        amountUsd: z.coerce.number().positive("Amounts must be positive"),
+      })
+    )
+    .optional(),
+});
+
+export type HouseholdCreditValues = z.infer<typeof householdCreditSchema>;
@@ -0,0 +1,40 @@
+import { z } from "zod";
+import { importKindEnum } from "@/lib/db/schema";
+
+// A column map sent as JSON: field key -> column header
+export const columnMapField = z
+  .string()
+  .optional()
+  .transform((value, ctx) => {
+    if (!value) return undefined;
+    try {
+      return z.record(z.string()).parse(JSON.parse(value));
+    } catch {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Column map must map fields to column headers",
+      });
+      return z.NEVER;
+    }
+  });
+
+// The fields sent with an import file. The form is multipart, so the column
+// map arrives as a JSON string and the flags as "true" or "false".
+export const importFormSchema = z.object({
+  kind: z.enum(importKindEnum.enumValues, {
+    errorMap: () => ({ message: "Choose contacts, pledges or payments" }),
+  }),
+  // Left out to have the columns mapped from the headers
+  columnMap: columnMapField,
+  // Only check the rows and report what would be imported
+  dryRun: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+  includeDuplicates: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+export type ImportFormValues = z.infer<typeof importFormSchema>;
@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+export const payoutBatchSchema = z
+  .object({
+    periodStart: dateString,
+    periodEnd: dateString,
+    solicitorIds: z.array(z.coerce.number().int().positive()).optional(),
+    notes: z.string().nullable().optional(),
+  })
+  .refine((batch) => batch.periodStart <= batch.periodEnd, {
+    message: "periodEnd must be on or after periodStart",
+    path: ["periodEnd"],
+  });
+
+export const payoutBatchPaySchema = z.object({
+  paymentReference: z.string().trim().min(1).nullable().optional(),
+});
+
+export type PayoutBatchValues = z.infer<typeof payoutBatchSchema>;
+export type PayoutBatchPayValues = z.infer<typeof payoutBatchPaySchema>;
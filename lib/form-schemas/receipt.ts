@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+const receiptTypes = ["receipt", "confirmation", "invoice", "other"] as const;
+
+export const receiptIssueSchema = z.object({
+  paymentId: z.coerce.number().int().positive(),
+  receiptType: z.enum(receiptTypes).optional(),
+});
+
+export const receiptVoidSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+
+export const receiptReissueSchema = receiptVoidSchema.extend({
+  receiptType: z.enum(receiptTypes).optional(),
+});
+
+export type ReceiptIssueValues = z.infer<typeof receiptIssueSchema>;
+export type ReceiptVoidValues = z.infer<typeof receiptVoidSchema>;
+export type ReceiptReissueValues = z.infer<typeof receiptReissueSchema>;
@@ -0,0 +1,17 @@
+import { z } from "zod";
+import { refundTypeEnum } from "@/lib/db/schema";
+
+export const refundSchema = z.object({
+  paymentId: z.coerce.number().int().positive(),
+  amount: z.coerce.number().positive("The refund amount must be positive"),
+  refundType: z.enum(refundTypeEnum.enumValues).optional(),
+  reason: z.string().trim().min(1, "A reason is required"),
+  refundDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Use a YYYY-MM-DD date")
+    .optional(),
+  referenceNumber: z.string().trim().optional().nullable(),
+  notes: z.string().optional().nullable(),
+});
+
+export type RefundValues = z.infer<typeof refundSchema>;
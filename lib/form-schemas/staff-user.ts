@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { staffRoles } from "@/lib/auth/roles";
+
+export const loginSchema = z.object({
+  email: z.string().email({ message: "Invalid email address" }),
+  password: z.string().min(1, { message: "Password is required" }),
+});
+
+export const staffUserSchema = z
+  .object({
+    email: z.string().email({ message: "Invalid email address" }),
+    name: z.string().min(2, { message: "Name must be at least 2 characters" }),
+    password: z
+      .string()
+      .min(10, { message: "Password must be at least 10 characters" }),
+    role: z.enum(staffRoles),
+    contactId: z.number().positive().nullable().optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((data) => data.role !== "solicitor" || !!data.contactId, {
+    message: "Solicitor accounts must be linked to a contact",
+    path: ["contactId"],
+  });
+
+export const staffUserUpdateSchema = z.object({
+  name: z.string().min(2).optional(),
+  password: z.string().min(10).optional(),
+  role: z.enum(staffRoles).optional(),
+  contactId: z.number().positive().nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type LoginValues = z.infer<typeof loginSchema>;
+export type StaffUserValues = z.infer<typeof staffUserSchema>;
@@ -0,0 +1,18 @@
+import { z } from "zod";
+import { currencyEnum } from "@/lib/db/schema";
+
+// Query parameters for the year-end statement endpoints. The year defaults to
+// the one that just ended.
+export const statementQuerySchema = z.object({
+  year: z.coerce
+    .number()
+    .int()
+    .min(1900)
+    .max(2100)
+    .default(() => new Date().getUTCFullYear() - 1),
+  basis: z.enum(["calendar", "fiscal"]).default("calendar"),
+  currency: z.enum(currencyEnum.enumValues).optional(),
+  format: z.enum(["pdf", "csv", "json"]).default("pdf"),
+});
+
+export type StatementQuery = z.infer<typeof statementQuerySchema>;
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { importKindEnum } from "@/lib/db/schema";
+import { IMPORT_FIELDS } from "@/lib/imports/fields";
+
+// Field key -> payload key; blank entries are left out
+const fieldMapSchema = z
+  .record(z.string().trim())
+  .transform((map) =>
+    Object.fromEntries(Object.entries(map).filter(([, key]) => key))
+  );
+
+const sourceFields = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  // The last part of the webhook's URL, /api/webhook/<slug>
+  slug: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(
+      /^[a-z0-9]+(-[a-z0-9]+)*$/,
+      "Use lowercase letters, digits and dashes, e.g. gohighlevel-contacts"
+    ),
+  target: z.enum(importKindEnum.enumValues, {
+    errorMap: () => ({ message: "Choose contacts, pledges or payments" }),
+  }),
+  fieldMap: fieldMapSchema,
+  isActive: z.boolean().optional(),
+});
+
+// Every required field of the target must come from the payload
+function requireMappedFields(
+  values: { target?: z.infer<typeof sourceFields>["target"]; fieldMap?: Record<string, string> },
+  ctx: z.RefinementCtx
+) {
+  if (!values.target || !values.fieldMap) return;
+  for (const field of IMPORT_FIELDS[values.target]) {
+    if (field.required && !values.fieldMap[field.key]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["fieldMap", field.key],
+        message: `Map ${field.label} to a payload key`,
+      });
+    }
+  }
+}
+
+export const webhookSourceSchema = sourceFields.superRefine(requireMappedFields);
+
+export type WebhookSourceFormValues = z.infer<typeof webhookSourceSchema>;
+
+// A target and field map are checked together when both are sent
+export const webhookSourceUpdateSchema = sourceFields
+  .partial()
+  .superRefine(requireMappedFields)
+  .refine((values) => !values.target || values.fieldMap, {
+    message: "Send the field map with a new target",
+    path: ["fieldMap"],
+  });
+
+export const webhookReplaySchema = z.object({
+  // Create the record even though it matches one already saved
+  includeDuplicates: z.boolean().optional(),
+});
@@ -0,0 +1,349 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { asc, eq, sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { db } from "@/lib/db";
+import {
+  contact,
+  household,
+  householdMember,
+  payment,
+  paymentAttribution,
+  pledge,
+  relationships,
+  type Contact,
+} from "@/lib/db/schema";
+import {
+  createHousehold,
+  creditPayment,
+  deleteHousehold,
+  getHousehold,
+  HouseholdStateError,
+  householdsCsv,
+  jointSalutation,
+  listHouseholds,
+  moveHouseholdRecords,
+  uncreditPayment,
+  updateHousehold,
+} from "./households";
+
+let david: number;
+let sarah: number;
+let avi: number;
+let outsider: number;
+
+async function addContact(
+  firstName: string,
+  lastName: string,
+  title: Contact["title"] = null
+) {
+  const [created] = await db
+    .insert(contact)
+    .values({ firstName, lastName, title })
+    .returning();
+  return created.id;
+}
+
+async function addPledge(contactId: number, paidUsd: number) {
+  const [created] = await db
+    .insert(pledge)
+    .values({
+      contactId,
+      pledgeDate: "2025-01-01",
+      originalAmount: "1000.00",
+      originalAmountUsd: "1000.00",
+      totalPaidUsd: paidUsd.toFixed(2),
+      balance: (1000 - paidUsd).toFixed(2),
+      balanceUsd: (1000 - paidUsd).toFixed(2),
+    })
+    .returning();
+  return created.id;
+}
+
+async function pay(contactId: number, amountUsd: string) {
+  const [created] = await db
+    .insert(payment)
+    .values({
+      pledgeId: await addPledge(contactId, 0),
+      amount: amountUsd,
+      amountUsd,
+      currency: "USD",
+      paymentDate: "2025-03-01",
+      paymentMethod: "check",
+    })
+    .returning();
+  return created;
+}
+
+const cohens = () =>
+  createHousehold(
+    {
+      members: [
+        { contactId: david, role: "head" },
+        { contactId: sarah, role: "spouse" },
+      ],
+    },
+    db
+  ).then((change) => change.after!.id);
+
+const shares = async () =>
+  (
+    await db
+      .select()
+      .from(paymentAttribution)
+      .orderBy(asc(paymentAttribution.contactId))
+  ).map((row) => [row.contactId, row.amountUsd]);
+
+beforeEach(async () => {
+  await db.execute(
+    sql`TRUNCATE ${contact}, ${household}, ${pledge}, ${payment}
+      RESTART IDENTITY CASCADE`
+  );
+  david = await addContact("David", "Cohen", "rabbi");
+  sarah = await addContact("Sarah", "Cohen", "mrs");
+  avi = await addContact("Avi", "Cohen");
+  outsider = await addContact("Eli", "Foundation");
+});
+
+describe("jointSalutation", () => {
+  const person = (
+    firstName: string,
+    lastName: string,
+    title: Contact["title"],
+    role: "head" | "spouse" | "child"
+  ) => ({ firstName, lastName, title, role });
+
+  it("greets a couple together", () => {
+    const head = person("David", "Cohen", "rabbi", "head");
+    expect(jointSalutation([person("Sarah", "Cohen", "mrs", "spouse"), head])).toBe(
+      "Rabbi and Mrs. David Cohen"
+    );
+    expect(jointSalutation([head, person("Sarah", "Cohen", null, "spouse")])).toBe(
+      "David and Sarah Cohen"
+    );
+    expect(jointSalutation([head, person("Sarah", "Levi", "dr", "spouse")])).toBe(
+      "Rabbi David Cohen and Dr. Sarah Levi"
+    );
+    expect(jointSalutation([person("Avi", "Cohen", null, "child")])).toBe(
+      "The Cohen Family"
+    );
+  });
+});
+
+describe("createHousehold", () => {
+  it("builds a household from a contact's relationships", async () => {
+    await db.insert(relationships).values([
+      { contactId: david, relatedContactId: sarah, relationshipType: "wife" },
+      { contactId: avi, relatedContactId: sarah, relationshipType: "mother" },
+    ]);
+    const change = await createHousehold({ fromContactId: david }, db);
+    expect(change.after?.name).toBe("The Cohen Family");
+    expect(change.added.map((row) => [row.contactId, row.role])).toEqual([
+      [david, "head"],
+      [sarah, "spouse"],
+      [avi, "child"],
+    ]);
+  });
+
+  it("leaves out relatives who already belong to a household", async () => {
+    await createHousehold({ members: [{ contactId: avi, role: "head" }] }, db);
+    await db
+      .insert(relationships)
+      .values({ contactId: david, relatedContactId: avi, relationshipType: "son" });
+    const change = await createHousehold({ fromContactId: david }, db);
+    expect(change.added.map((row) => row.contactId)).toEqual([david]);
+
+    await expect(
+      createHousehold({ members: [{ contactId: avi, role: "head" }] }, db)
+    ).rejects.toThrow(HouseholdStateError);
+  });
+});
+
+describe("updateHousehold", () => {
+  it("replaces the members and drops the shares of those who leave", async () => {
+    const householdId = await cohens();
+    const gift = await pay(outsider, "300.00");
+    await creditPayment(
+      householdId,
+      {
+        paymentId: gift.id,
+        attributions: [
+          { contactId: david, amountUsd: 200 },
+          { contactId: sarah, amountUsd: 100 },
+        ],
+      },
+      db
+    );
+
+    const change = await updateHousehold(
+      householdId,
+      {
+        members: [
+          { contactId: david, role: "spouse" },
+          { contactId: avi, role: "child" },
+        ],
+      },
+      db
+    );
+    expect(change?.removed.map((row) => row.contactId)).toEqual([sarah]);
+    expect(change?.added.map((row) => row.contactId)).toEqual([avi]);
+    expect(change?.updated.map(({ after }) => after.role)).toEqual(["spouse"]);
+    expect(await shares()).toEqual([[david, "200.00"]]);
+    expect(await updateHousehold(404, { name: "Nobody" }, db)).toBeNull();
+  });
+});
+
+describe("creditPayment", () => {
+  it("gives the whole payment to a paying member by default", async () => {
+    const householdId = await cohens();
+    const gift = await pay(sarah, "250.00");
+    const result = await creditPayment(householdId, { paymentId: gift.id }, db);
+    expect(result?.payment.householdId).toBe(householdId);
+    expect(await shares()).toEqual([[sarah, "250.00"]]);
+  });
+
+  it("credits the payment's refunds with it", async () => {
+    const householdId = await cohens();
+    const gift = await pay(outsider, "300.00");
+    const [refund] = await db
+      .insert(payment)
+      .values({
+        refundOfPaymentId: gift.id,
+        pledgeId: gift.pledgeId,
+        amount: "-100.00",
+        amountUsd: "-100.00",
+        currency: "USD",
+        paymentDate: "2025-04-01",
+        paymentMethod: "refund",
+      })
+      .returning();
+
+    await creditPayment(householdId, { paymentId: gift.id }, db);
+    const [credited] = await db.select().from(payment).where(eq(payment.id, refund.id));
+    expect(credited.householdId).toBe(householdId);
+    // The payer is not a member, so nobody in the household is credited
+    expect(await shares()).toEqual([]);
+    await expect(
+      creditPayment(householdId, { paymentId: refund.id }, db)
+    ).rejects.toThrow("Refunds follow the payment they refund");
+
+    await uncreditPayment(householdId, gift.id, db);
+    expect(
+      (await db.select().from(payment)).map((row) => row.householdId)
+    ).toEqual([null, null]);
+  });
+
+  it("refuses shares that do not add up or go outside the household", async () => {
+    const householdId = await cohens();
+    const gift = await pay(outsider, "300.00");
+    await expect(
+      creditPayment(
+        householdId,
+        { paymentId: gift.id, attributions: [{ contactId: david, amountUsd: 200 }] },
+        db
+      )
+    ).rejects.toThrow(
+      "The attributed amounts add up to 200.00 USD, not the payment's 300.00 USD"
+    );
+    await expect(
+      creditPayment(
+        householdId,
+        { paymentId: gift.id, attributions: [{ contactId: avi, amountUsd: 300 }] },
+        db
+      )
+    ).rejects.toThrow("Payments can only be attributed to members of the household");
+
+    await creditPayment(householdId, { paymentId: gift.id }, db);
+    const [other] = (
+      await createHousehold({ members: [{ contactId: avi, role: "head" }] }, db)
+    ).added;
+    await expect(
+      creditPayment(other.householdId, { paymentId: gift.id }, db)
+    ).rejects.toThrow(`Payment ${gift.id} is credited to household ${householdId}`);
+  });
+});
+
+describe("listHouseholds", () => {
+  it("sums the members' giving and what others credited", async () => {
+    const householdId = await cohens();
+    await addPledge(david, 400);
+    await addPledge(sarah, 100);
+    const gift = await pay(outsider, "300.00");
+    await creditPayment(
+      householdId,
+      { paymentId: gift.id, attributions: [{ contactId: sarah, amountUsd: 300 }] },
+      db
+    );
+
+    const [summary] = await listHouseholds({ search: "sarah" });
+    expect(summary).toMatchObject({
+      id: householdId,
+      jointSalutation: "Rabbi and Mrs. David Cohen",
+      totals: {
+        pledgedUsd: 2000,
+        paidUsd: 500,
+        balanceUsd: 1500,
+        creditedUsd: 300,
+        outsideUsd: 300,
+        givenUsd: 800,
+      },
+    });
+    expect(summary.members.map((member) => member.attributedUsd)).toEqual([0, 300]);
+    expect(await listHouseholds({ search: "Levi" })).toEqual([]);
+    expect(householdsCsv([summary]).split(/\r?\n/)[1]).toBe(
+      `${householdId},The Cohen Family,Rabbi and Mrs. David Cohen,` +
+        "David Cohen; Sarah Cohen,,2000,500,1500,300,800"
+    );
+  });
+
+  it("suggests relatives who are in no household yet", async () => {
+    const householdId = await cohens();
+    await db
+      .insert(relationships)
+      .values({ contactId: avi, relatedContactId: david, relationshipType: "father" });
+    const detail = await getHousehold(householdId);
+    expect(detail?.suggestedMembers).toEqual([
+      { contactId: avi, firstName: "Avi", lastName: "Cohen", role: "child" },
+    ]);
+  });
+});
+
+describe("deleteHousehold", () => {
+  it("leaves its payments credited to their payer only", async () => {
+    const householdId = await cohens();
+    const gift = await pay(david, "100.00");
+    await creditPayment(householdId, { paymentId: gift.id }, db);
+
+    const change = await deleteHousehold(householdId, db);
+    expect(change?.removed).toHaveLength(2);
+    expect(await shares()).toEqual([]);
+    expect(await db.select().from(householdMember)).toEqual([]);
+    const [kept] = await db.select().from(payment).where(eq(payment.id, gift.id));
+    expect(kept.householdId).toBeNull();
+  });
+});
+
+describe("moveHouseholdRecords", () => {
+  it("adds the merged contact's shares to the survivor's", async () => {
+    const householdId = await cohens();
+    const gift = await pay(outsider, "300.00");
+    await creditPayment(
+      householdId,
+      {
+        paymentId: gift.id,
+        attributions: [
+          { contactId: david, amountUsd: 200 },
+          { contactId: sarah, amountUsd: 100 },
+        ],
+      },
+      db
+    );
+
+    expect(await moveHouseholdRecords(david, sarah, db)).toBe(1);
+    expect(await shares()).toEqual([[david, "300.00"]]);
+    expect(
+      (await db.select().from(householdMember)).map((row) => row.contactId)
+    ).toEqual([david]);
+  });
+});
@@ -0,0 +1,1106 @@
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  exists,
+  ilike,
+  inArray,
+  isNull,
+  or,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import { db, type DbExecutor } from "@/lib/db";
+import {
+  contact,
+  household,
+  householdMember,
+  payment,
+  paymentAllocations,
+  paymentAttribution,
+  pledge,
+  relationships,
+  type Contact,
+  type Household,
+  type HouseholdMember,
+  type Payment,
+  type PaymentAttribution,
+  type Relationship,
+} from "@/lib/db/schema";
+import { getPaymentContactId, recordAudit } from "@/lib/audit";
+import { moneyString, roundMoney, toNumber } from "@/lib/currency";
+import { toCsv } from "@/lib/csv";
+import type { SessionUser } from "@/lib/auth/guard";
+import type {
+  HouseholdCreditValues,
+  HouseholdMemberValues,
+  HouseholdPatchValues,
+  HouseholdValues,
+} from "@/lib/form-schemas/household";
+
+// A household groups the contacts of one family so their giving can be seen
+// and acknowledged together. Members keep their own pledges and payments;
+// the household's totals are the sum of its members'. A payment can also be
+// credited to the household as a whole (a gift from the family foundation,
+// say) and its USD amount shared among the members it is attributed to.
+
+export class HouseholdStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HouseholdStateError";
+  }
+}
+
+export type HouseholdRole = HouseholdMember["role"];
+
+type RelationshipType = Relationship["relationshipType"];
+
+const SPOUSE_TYPES: RelationshipType[] = ["spouse", "partner", "wife", "husband"];
+// Relationship types that make the related contact the contact's child...
+const CHILD_TYPES: RelationshipType[] = ["son", "daughter", "stepson"];
+// ...or the contact's parent
+const PARENT_TYPES: RelationshipType[] = [
+  "mother",
+  "father",
+  "parent",
+  "step-parent",
+  "stepmother",
+  "stepfather",
+];
+
+const ROLE_ORDER: HouseholdRole[] = ["head", "spouse", "child", "other"];
+
+const TITLE_LABELS: Record<string, string> = {
+  mr: "Mr.",
+  mrs: "Mrs.",
+  ms: "Ms.",
+  dr: "Dr.",
+  prof: "Prof.",
+  eng: "Eng.",
+  rabbi: "Rabbi",
+};
+
+// Only completed payments count toward giving, as for pledges
+const PAID_STATUS = "completed";
+
+type NamedContact = Pick<Contact, "title" | "firstName" | "lastName">;
+
+const titleOf = (person: NamedContact) =>
+  (person.title && TITLE_LABELS[person.title]) || null;
+
+// "Rabbi David Cohen"
+export function contactSalutation(person: NamedContact): string {
+  return [titleOf(person), person.firstName, person.lastName]
+    .filter(Boolean)
+    .join(" ");
+}
+
+// The salutation for letters to the household: "Rabbi and Mrs. David Cohen"
+// for a couple sharing a last name, "David and Sarah Cohen" when either has
+// no title, and both names in full when the last names differ. A household
+// without a head or spouse is "The Cohen Family".
+export function jointSalutation(
+  members: (NamedContact & { role: HouseholdRole })[]
+): string {
+  const [head, spouse] = members
+    .filter((member) => member.role === "head" || member.role === "spouse")
+    .sort((a, b) => ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role));
+
+  if (!head) {
+    return members[0] ? `The ${members[0].lastName} Family` : "";
+  }
+  if (!spouse) return contactSalutation(head);
+  if (head.lastName.toLowerCase() !== spouse.lastName.toLowerCase()) {
+    return `${contactSalutation(head)} and ${contactSalutation(spouse)}`;
+  }
+
+  const [headTitle, spouseTitle] = [titleOf(head), titleOf(spouse)];
+  return headTitle && spouseTitle
+    ? `${headTitle} and ${spouseTitle} ${head.firstName} ${head.lastName}`
+    : `${head.firstName} and ${spouse.firstName} ${head.lastName}`;
+}
+
+async function familyLinks(contactIds: number[], executor: DbExecutor) {
+  return executor
+    .select({
+      contactId: relationships.contactId,
+      relatedContactId: relationships.relatedContactId,
+      relationshipType: relationships.relationshipType,
+    })
+    .from(relationships)
+    .where(
+      and(
+        eq(relationships.isActive, true),
+        or(
+          inArray(relationships.contactId, contactIds),
+          inArray(relationships.relatedContactId, contactIds)
+        )
+      )
+    );
+}
+
+// The household a contact's relationships describe: the contact as head,
+// their spouse, and the children of either.
+export async function membersFromRelationships(
+  contactId: number,
+  executor: DbExecutor = db
+): Promise<HouseholdMemberValues[]> {
+  const members = new Map<number, HouseholdRole>([[contactId, "head"]]);
+
+  for (const link of await familyLinks([contactId], executor)) {
+    if (!SPOUSE_TYPES.includes(link.relationshipType)) continue;
+    const other =
+      link.contactId === contactId ? link.relatedContactId : link.contactId;
+    if (!members.has(other)) members.set(other, "spouse");
+  }
+
+  const parents = [...members.keys()];
+  for (const link of await familyLinks(parents, executor)) {
+    const child =
+      CHILD_TYPES.includes(link.relationshipType) &&
+      parents.includes(link.contactId)
+        ? link.relatedContactId
+        : PARENT_TYPES.includes(link.relationshipType) &&
+            parents.includes(link.relatedContactId)
+          ? link.contactId
+          : null;
+    if (child !== null && !members.has(child)) members.set(child, "child");
+  }
+
+  return [...members].map(([id, role]) => ({ contactId: id, role }));
+}
+
+// Of `contactIds`, the contacts that exist, are not in the trash and do not
+// belong to a household other than `householdId`.
+async function availableContacts(
+  contactIds: number[],
+  householdId: number | null,
+  executor: DbExecutor
+): Promise<Map<number, NamedContact>> {
+  if (contactIds.length === 0) return new Map();
+  const rows = await executor
+    .select({
+      id: contact.id,
+      title: contact.title,
+      firstName: contact.firstName,
+      lastName: contact.lastName,
+      householdId: householdMember.householdId,
+    })
+    .from(contact)
+    .leftJoin(householdMember, eq(householdMember.contactId, contact.id))
+    .where(and(inArray(contact.id, contactIds), isNull(contact.deletedAt)));
+
+  return new Map(
+    rows
+      .filter((row) => row.householdId === null || row.householdId === householdId)
+      .map(({ id, householdId: _, ...person }) => [id, person])
+  );
+}
+
+async function checkMembers(
+  members: HouseholdMemberValues[],
+  householdId: number | null,
+  executor: DbExecutor
+): Promise<Map<number, NamedContact>> {
+  const ids = members.map((member) => member.contactId);
+  const available = await availableContacts(ids, householdId, executor);
+  const missing = ids.filter((id) => !available.has(id));
+  if (missing.length > 0) {
+    throw new HouseholdStateError(
+      `Contact ${missing.join(", ")} does not exist, is in the trash or already belongs to a household`
+    );
+  }
+  return available;
+}
+
+async function lockHousehold(
+  householdId: number,
+  executor: DbExecutor
+): Promise<Household | null> {
+  const [row] = await executor
+    .select()
+    .from(household)
+    .where(eq(household.id, householdId))
+    .for("update");
+  return row ?? null;
+}
+
+export interface HouseholdChange {
+  before: Household | null;
+  after: Household | null;
+  added: HouseholdMember[];
+  removed: HouseholdMember[];
+  updated: { before: HouseholdMember; after: HouseholdMember }[];
+}
+
+// Creates a household from the listed members, or from `fromContactId` and
+// their relationships. Related contacts already in a household are left out.
+// Run inside a transaction.
+export async function createHousehold(
+  values: HouseholdValues,
+  executor: DbExecutor
+): Promise<HouseholdChange> {
+  let members = values.members;
+  if (!members) {
+    const founderId = values.fromContactId!;
+    const derived = await membersFromRelationships(founderId, executor);
+    const available = await availableContacts(
+      derived.map((member) => member.contactId),
+      null,
+      executor
+    );
+    members = derived.filter(
+      (member) =>
+        member.contactId === founderId || available.has(member.contactId)
+    );
+  }
+
+  const people = await checkMembers(members, null, executor);
+  const head = members.find((member) => member.role === "head") ?? members[0];
+
+  const [after] = await executor
+    .insert(household)
+    .values({
+      name: values.name ?? `The ${people.get(head.contactId)!.lastName} Family`,
+      salutation: values.salutation || null,
+      notes: values.notes ?? null,
+    })
+    .returning();
+
+  const added = await executor
+    .insert(householdMember)
+    .values(members.map((member) => ({ ...member, householdId: after.id })))
+    .returning();
+
+  return { before: null, after, added, removed: [], updated: [] };
+}
+
+// Updates a household; a `members` list replaces the current one. Members
+// who leave lose their share of the payments credited to the household.
+// Returns null when the household does not exist. Run inside a transaction.
+export async function updateHousehold(
+  householdId: number,
+  values: HouseholdPatchValues,
+  executor: DbExecutor
+): Promise<HouseholdChange | null> {
+  const before = await lockHousehold(householdId, executor);
+  if (!before) return null;
+
+  const change: HouseholdChange = {
+    before,
+    after: before,
+    added: [],
+    removed: [],
+    updated: [],
+  };
+
+  if (values.members) {
+    await checkMembers(values.members, householdId, executor);
+    const current = await executor
+      .select()
+      .from(householdMember)
+      .where(eq(householdMember.householdId, householdId));
+    const wanted = new Map(
+      values.members.map((member) => [member.contactId, member.role])
+    );
+
+    change.removed = current.filter((row) => !wanted.has(row.contactId));
+    if (change.removed.length > 0) {
+      const removedIds = change.removed.map((row) => row.contactId);
+      await executor
+        .delete(householdMember)
+        .where(
+          and(
+            eq(householdMember.householdId, householdId),
+            inArray(householdMember.contactId, removedIds)
+          )
+        );
+      await executor
+        .delete(paymentAttribution)
+        .where(
+          and(
+            inArray(paymentAttribution.contactId, removedIds),
+            inArray(
+              paymentAttribution.paymentId,
+              executor
+                .select({ id: payment.id })
+                .from(payment)
+                .where(eq(payment.householdId, householdId))
+            )
+          )
+        );
+    }
+
+    for (const row of current) {
+      const role = wanted.get(row.contactId);
+      if (!role || role === row.role) continue;
+      const [updated] = await executor
+        .update(householdMember)
+        .set({ role })
+        .where(eq(householdMember.id, row.id))
+        .returning();
+      change.updated.push({ before: row, after: updated });
+    }
+
+    const existing = new Set(current.map((row) => row.contactId));
+    const additions = values.members.filter(
+      (member) => !existing.has(member.contactId)
+    );
+    if (additions.length > 0) {
+      change.added = await executor
+        .insert(householdMember)
+        .values(additions.map((member) => ({ ...member, householdId })))
+        .returning();
+    }
+  }
+
+  const { members: _, ...fields } = values;
+  [change.after] = await executor
+    .update(household)
+    .set({
+      ...fields,
+      ...(fields.salutation !== undefined && {
+        salutation: fields.salutation || null,
+      }),
+      updatedAt: new Date(),
+    })
+    .where(eq(household.id, householdId))
+    .returning();
+
+  return change;
+}
+
+// Deletes a household. Its members stay as they are; payments credited to
+// it go back to being credited to their payer only. Returns null when the
+// household does not exist. Run inside a transaction.
+export async function deleteHousehold(
+  householdId: number,
+  executor: DbExecutor
+): Promise<HouseholdChange | null> {
+  const before = await lockHousehold(householdId, executor);
+  if (!before) return null;
+
+  const removed = await executor
+    .select()
+    .from(householdMember)
+    .where(eq(householdMember.householdId, householdId));
+  await executor
+    .delete(paymentAttribution)
+    .where(
+      inArray(
+        paymentAttribution.paymentId,
+        executor
+          .select({ id: payment.id })
+          .from(payment)
+          .where(eq(payment.householdId, householdId))
+      )
+    );
+  await executor.delete(household).where(eq(household.id, householdId));
+
+  return { before, after: null, added: [], removed, updated: [] };
+}
+
+// Household rows have no contact of their own; member rows are filed under
+// the member, so joining and leaving shows in the contact's history.
+export async function auditHouseholdChange(
+  user: SessionUser | null,
+  change: HouseholdChange
+): Promise<void> {
+  const recordId = (change.after ?? change.before)!.id;
+  await recordAudit(user, {
+    table: household,
+    recordId,
+    action: !change.before ? "create" : !change.after ? "delete" : "update",
+    before: change.before,
+    after: change.after,
+    contactId: null,
+  });
+  for (const row of change.added) {
+    await recordAudit(user, {
+      table: householdMember,
+      recordId: row.id,
+      action: "create",
+      after: row,
+      contactId: row.contactId,
+    });
+  }
+  for (const row of change.removed) {
+    await recordAudit(user, {
+      table: householdMember,
+      recordId: row.id,
+      action: "delete",
+      before: row,
+      contactId: row.contactId,
+    });
+  }
+  for (const { before, after } of change.updated) {
+    await recordAudit(user, {
+      table: householdMember,
+      recordId: after.id,
+      action: "update",
+      before,
+      after,
+      contactId: after.contactId,
+    });
+  }
+}
+
+// The contact each payment was made by: its pledge's contact or, for a split
+// payment, the contact of its first allocation's pledge.
+async function paymentPayers(
+  paymentIds: number[],
+  executor: DbExecutor
+): Promise<Map<number, number>> {
+  if (paymentIds.length === 0) return new Map();
+  const direct = await executor
+    .select({ paymentId: payment.id, contactId: pledge.contactId })
+    .from(payment)
+    .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
+    .where(inArray(payment.id, paymentIds));
+  const allocated = await executor
+    .select({
+      paymentId: paymentAllocations.paymentId,
+      contactId: pledge.contactId,
+    })
+    .from(paymentAllocations)
+    .innerJoin(pledge, eq(paymentAllocations.pledgeId, pledge.id))
+    .where(inArray(paymentAllocations.paymentId, paymentIds))
+    .orderBy(paymentAllocations.id);
+
+  const payers = new Map<number, number>();
+  for (const row of [...direct, ...allocated]) {
+    if (!payers.has(row.paymentId)) payers.set(row.paymentId, row.contactId);
+  }
+  return payers;
+}
+
+export interface CreditResult {
+  before: Payment;
+  payment: Payment;
+  attributions: PaymentAttribution[];
+}
+
+async function lockPayment(
+  paymentId: number,
+  executor: DbExecutor
+): Promise<Payment> {
+  const [row] = await executor
+    .select()
+    .from(payment)
+    .where(eq(payment.id, paymentId))
+    .for("update");
+  if (!row || row.deletedAt) {
+    throw new HouseholdStateError(`Payment ${paymentId} does not exist`);
+  }
+  if (row.refundOfPaymentId) {
+    throw new HouseholdStateError(
+      "Refunds follow the payment they refund; credit that payment instead"
+    );
+  }
+  return row;
+}
+
+// Credits a payment, and any refunds of it, to a household and shares its
+// USD amount among the members named in `attributions`. Without them the
+// whole amount goes to the payer when they are a member. Crediting again
+// replaces the shares. Returns null when the household does not exist. Run
+// inside a transaction.
+export async function creditPayment(
+  householdId: number,
+  values: HouseholdCreditValues,
+  executor: DbExecutor
+): Promise<CreditResult | null> {
+  if (!(await lockHousehold(householdId, executor))) return null;
+  const before = await lockPayment(values.paymentId, executor);
+  if (before.householdId && before.householdId !== householdId) {
+    throw new HouseholdStateError(
+      `Payment ${before.id} is credited to household ${before.householdId}; remove that credit first`
+    );
+  }
+
+  const memberIds = (
+    await executor
+      .select({ contactId: householdMember.contactId })
+      .from(householdMember)
+      .where(eq(householdMember.householdId, householdId))
+  ).map((row) => row.contactId);
+
+  const amountUsd = toNumber(before.amountUsd);
+  let shares = values.attributions;
+  if (!shares) {
+    const payerId = (await paymentPayers([before.id], executor)).get(before.id);
+    shares =
+      payerId && memberIds.includes(payerId) && amountUsd > 0
+        ? [{ contactId: payerId, amountUsd }]
+        : [];
+  }
+
+  if (shares.some((share) => !memberIds.includes(share.contactId))) {
+    throw new HouseholdStateError(
+      "Payments can only be attributed to members of the household"
+    );
+  }
+  const total = roundMoney(shares.reduce((sum, s) => sum + s.amountUsd, 0));
+  if (shares.length > 0 && total !== roundMoney(amountUsd)) {
+    throw new HouseholdStateError(
+      `The attributed amounts add up to ${moneyString(total)} USD, not the payment's ${moneyString(amountUsd)} USD`
+    );
+  }
+
+  const credited = await executor
+    .update(payment)
+    .set({ householdId, updatedAt: new Date() })
+    .where(or(eq(payment.id, before.id), eq(payment.refundOfPaymentId, before.id)))
+    .returning();
+
+  await executor
+    .delete(paymentAttribution)
+    .where(eq(paymentAttribution.paymentId, before.id));
+  const attributions =
+    shares.length > 0
+      ? await executor
+          .insert(paymentAttribution)
+          .values(
+            shares.map((share) => ({
+              paymentId: before.id,
+              contactId: share.contactId,
+              amountUsd: moneyString(share.amountUsd),
+            }))
+          )
+          .returning()
+      : [];
+
+  return {
+    before,
+    payment: credited.find((row) => row.id === before.id)!,
+    attributions,
+  };
+}
+
+// Takes a payment, and its refunds, off a household. Returns null when the
+// household does not exist. Run inside a transaction.
+export async function uncreditPayment(
+  householdId: number,
+  paymentId: number,
+  executor: DbExecutor
+): Promise<CreditResult | null> {
+  if (!(await lockHousehold(householdId, executor))) return null;
+  const before = await lockPayment(paymentId, executor);
+  if (before.householdId !== householdId) {
+    throw new HouseholdStateError(
+      `Payment ${paymentId} is not credited to this household`
+    );
+  }
+
+  const uncredited = await executor
+    .update(payment)
+    .set({ householdId: null, updatedAt: new Date() })
+    .where(or(eq(payment.id, paymentId), eq(payment.refundOfPaymentId, paymentId)))
+    .returning();
+  await executor
+    .delete(paymentAttribution)
+    .where(eq(paymentAttribution.paymentId, paymentId));
+
+  return {
+    before,
+    payment: uncredited.find((row) => row.id === paymentId)!,
+    attributions: [],
+  };
+}
+
+export async function auditCredit(
+  user: SessionUser | null,
+  result: CreditResult
+): Promise<void> {
+  await recordAudit(user, {
+    table: payment,
+    recordId: result.payment.id,
+    action: "update",
+    before: result.before,
+    after: result.payment,
+    contactId: await getPaymentContactId(result.payment.id),
+  });
+}
+
+// Folds the merged contact's household membership and payment shares into
+// the survivor (see lib/contact-merge.ts). A survivor already in a household
+// stays in it; shares of the same payment are added together.
+export async function moveHouseholdRecords(
+  survivorId: number,
+  mergedId: number,
+  executor: DbExecutor
+): Promise<number> {
+  let moved = 0;
+
+  const memberships = await executor
+    .select()
+    .from(householdMember)
+    .where(inArray(householdMember.contactId, [survivorId, mergedId]));
+  if (memberships.some((row) => row.contactId === mergedId)) {
+    if (memberships.some((row) => row.contactId === survivorId)) {
+      await executor
+        .delete(householdMember)
+        .where(eq(householdMember.contactId, mergedId));
+    } else {
+      await executor
+        .update(householdMember)
+        .set({ contactId: survivorId })
+        .where(eq(householdMember.contactId, mergedId));
+      moved++;
+    }
+  }
+
+  const shares = await executor
+    .select()
+    .from(paymentAttribution)
+    .where(eq(paymentAttribution.contactId, mergedId));
+  for (const share of shares) {
+    const [combined] = await executor
+      .update(paymentAttribution)
+      .set({
+        amountUsd: sql`${paymentAttribution.amountUsd} + ${share.amountUsd}`,
+      })
+      .where(
+        and(
+          eq(paymentAttribution.paymentId, share.paymentId),
+          eq(paymentAttribution.contactId, survivorId)
+        )
+      )
+      .returning();
+    if (combined) {
+      await executor
+        .delete(paymentAttribution)
+        .where(eq(paymentAttribution.id, share.id));
+    } else {
+      await executor
+        .update(paymentAttribution)
+        .set({ contactId: survivorId })
+        .where(eq(paymentAttribution.id, share.id));
+    }
+    moved++;
+  }
+
+  return moved;
+}
+
+export interface HouseholdMemberSummary {
+  contactId: number;
+  role: HouseholdRole;
+  title: string | null;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  address: string | null;
+  pledgedUsd: number;
+  paidUsd: number;
+  balanceUsd: number;
+  // This member's share of payments credited to the household
+  attributedUsd: number;
+}
+
+export interface HouseholdTotals {
+  pledgedUsd: number;
+  paidUsd: number;
+  balanceUsd: number;
+  // Payments credited to the household, net of their refunds
+  creditedUsd: number;
+  // The part of creditedUsd paid by contacts outside the household
+  outsideUsd: number;
+  // paidUsd plus outsideUsd: everything given by or for the household
+  givenUsd: number;
+}
+
+export interface HouseholdSummary extends Household {
+  // Made from the members; `salutation` wins over it when set
+  jointSalutation: string;
+  members: HouseholdMemberSummary[];
+  totals: HouseholdTotals;
+}
+
+const sum = (values: number[]) =>
+  roundMoney(values.reduce((total, value) => total + value, 0));
+
+async function summarize(
+  households: Household[],
+  executor: DbExecutor
+): Promise<HouseholdSummary[]> {
+  if (households.length === 0) return [];
+  const householdIds = households.map((row) => row.id);
+
+  const memberRows = await executor
+    .select({
+      householdId: householdMember.householdId,
+      contactId: householdMember.contactId,
+      role: householdMember.role,
+      title: contact.title,
+      firstName: contact.firstName,
+      lastName: contact.lastName,
+      email: contact.email,
+      address: contact.address,
+    })
+    .from(householdMember)
+    .innerJoin(contact, eq(householdMember.contactId, contact.id))
+    .where(
+      and(
+        inArray(householdMember.householdId, householdIds),
+        isNull(contact.deletedAt)
+      )
+    )
+    .orderBy(asc(contact.id));
+  const memberIds = memberRows.map((row) => row.contactId);
+
+  const pledged =
+    memberIds.length === 0
+      ? []
+      : await executor
+          .select({
+            contactId: pledge.contactId,
+            pledgedUsd: sql<string>`COALESCE(SUM(${pledge.originalAmountUsd}), 0)`,
+            paidUsd: sql<string>`COALESCE(SUM(${pledge.totalPaidUsd}), 0)`,
+            balanceUsd: sql<string>`COALESCE(SUM(${pledge.balanceUsd}), 0)`,
+          })
+          .from(pledge)
+          .where(
+            and(inArray(pledge.contactId, memberIds), isNull(pledge.deletedAt))
+          )
+          .groupBy(pledge.contactId);
+  const pledgedBy = new Map(pledged.map((row) => [row.contactId, row]));
+
+  const credited = await executor
+    .select({
+      id: payment.id,
+      householdId: payment.householdId,
+      amountUsd: payment.amountUsd,
+    })
+    .from(payment)
+    .where(
+      and(
+        inArray(payment.householdId, householdIds),
+        eq(payment.paymentStatus, PAID_STATUS),
+        isNull(payment.deletedAt)
+      )
+    );
+  const payers = await paymentPayers(
+    credited.map((row) => row.id),
+    executor
+  );
+
+  const attributed =
+    memberIds.length === 0
+      ? []
+      : await executor
+          .select({
+            householdId: payment.householdId,
+            contactId: paymentAttribution.contactId,
+            amountUsd: sql<string>`SUM(${paymentAttribution.amountUsd})`,
+          })
+          .from(paymentAttribution)
+          .innerJoin(payment, eq(paymentAttribution.paymentId, payment.id))
+          .where(
+            and(
+              inArray(payment.householdId, householdIds),
+              eq(payment.paymentStatus, PAID_STATUS),
+              isNull(payment.deletedAt)
+            )
+          )
+          .groupBy(payment.householdId, paymentAttribution.contactId);
+
+  return households.map((row) => {
+    const members: HouseholdMemberSummary[] = memberRows
+      .filter((member) => member.householdId === row.id)
+      .sort((a, b) => ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role))
+      .map(({ householdId: _, ...member }) => {
+        const totals = pledgedBy.get(member.contactId);
+        const share = attributed.find(
+          (entry) =>
+            entry.householdId === row.id &&
+            entry.contactId === member.contactId
+        );
+        return {
+          ...member,
+          pledgedUsd: toNumber(totals?.pledgedUsd),
+          paidUsd: toNumber(totals?.paidUsd),
+          balanceUsd: toNumber(totals?.balanceUsd),
+          attributedUsd: toNumber(share?.amountUsd),
+        };
+      });
+
+    const ids = new Set(members.map((member) => member.contactId));
+    const payments = credited.filter((entry) => entry.householdId === row.id);
+    const paidUsd = sum(members.map((member) => member.paidUsd));
+    const outsideUsd = sum(
+      payments
+        .filter((entry) => !ids.has(payers.get(entry.id) ?? 0))
+        .map((entry) => toNumber(entry.amountUsd))
+    );
+
+    return {
+      ...row,
+      jointSalutation: jointSalutation(members),
+      members,
+      totals: {
+        pledgedUsd: sum(members.map((member) => member.pledgedUsd)),
+        paidUsd,
+        balanceUsd: sum(members.map((member) => member.balanceUsd)),
+        creditedUsd: sum(payments.map((entry) => toNumber(entry.amountUsd))),
+        outsideUsd,
+        givenUsd: roundMoney(paidUsd + outsideUsd),
+      },
+    };
+  });
+}
+
+export interface HouseholdFilters {
+  // Matches the household name or a member's name
+  search?: string;
+  contactId?: number;
+}
+
+export async function listHouseholds(
+  filters: HouseholdFilters = {},
+  executor: DbExecutor = db
+): Promise<HouseholdSummary[]> {
+  const pattern = filters.search ? `%${filters.search}%` : null;
+  const memberWhere = (condition: SQL | undefined) =>
+    exists(
+      executor
+        .select({ id: householdMember.id })
+        .from(householdMember)
+        .innerJoin(contact, eq(householdMember.contactId, contact.id))
+        .where(and(eq(householdMember.householdId, household.id), condition))
+    );
+
+  const rows = await executor
+    .select()
+    .from(household)
+    .where(
+      and(
+        pattern
+          ? or(
+              ilike(household.name, pattern),
+              memberWhere(
+                or(
+                  ilike(contact.firstName, pattern),
+                  ilike(contact.lastName, pattern)
+                )
+              )
+            )
+          : undefined,
+        filters.contactId
+          ? memberWhere(eq(contact.id, filters.contactId))
+          : undefined
+      )
+    )
+    .orderBy(asc(household.name), asc(household.id));
+
+  return summarize(rows, executor);
+}
+
+export interface CreditedPayment {
+  paymentId: number;
+  paymentDate: string;
+  amount: string;
+  currency: Payment["currency"];
+  amountUsd: string | null;
+  paymentMethod: Payment["paymentMethod"];
+  paymentStatus: Payment["paymentStatus"];
+  refundOfPaymentId: number | null;
+  payerId: number | null;
+  payerName: string | null;
+  attributions: { contactId: number; amountUsd: number }[];
+}
+
+export interface SuggestedMember {
+  contactId: number;
+  firstName: string;
+  lastName: string;
+  role: HouseholdRole;
+}
+
+export interface HouseholdDetail extends HouseholdSummary {
+  creditedPayments: CreditedPayment[];
+  // Recent completed payments by members that could be credited
+  creditablePayments: CreditedPayment[];
+  // Spouses, children and parents of members who are in no household yet
+  suggestedMembers: SuggestedMember[];
+}
+
+const CREDITABLE_LIMIT = 50;
+
+async function describePayments(
+  rows: Payment[],
+  executor: DbExecutor
+): Promise<CreditedPayment[]> {
+  const payers = await paymentPayers(
+    rows.map((row) => row.id),
+    executor
+  );
+  const payerIds = [...new Set(payers.values())];
+  const names =
+    payerIds.length === 0
+      ? []
+      : await executor
+          .select({
+            id: contact.id,
+            firstName: contact.firstName,
+            lastName: contact.lastName,
+          })
+          .from(contact)
+          .where(inArray(contact.id, payerIds));
+  const shares =
+    rows.length === 0
+      ? []
+      : await executor
+          .select()
+          .from(paymentAttribution)
+          .where(
+            inArray(
+              paymentAttribution.paymentId,
+              rows.map((row) => row.id)
+            )
+          );
+
+  return rows.map((row) => {
+    const payerId = payers.get(row.id) ?? null;
+    const payer = names.find((name) => name.id === payerId);
+    return {
+      paymentId: row.id,
+      paymentDate: row.paymentDate,
+      amount: row.amount,
+      currency: row.currency,
+      amountUsd: row.amountUsd,
+      paymentMethod: row.paymentMethod,
+      paymentStatus: row.paymentStatus,
+      refundOfPaymentId: row.refundOfPaymentId,
+      payerId,
+      payerName: payer ? `${payer.firstName} ${payer.lastName}` : null,
+      attributions: shares
+        .filter((share) => share.paymentId === row.id)
+        .map((share) => ({
+          contactId: share.contactId,
+          amountUsd: toNumber(share.amountUsd),
+        })),
+    };
+  });
+}
+
+async function suggestMembers(
+  memberIds: number[],
+  executor: DbExecutor
+): Promise<SuggestedMember[]> {
+  if (memberIds.length === 0) return [];
+  const roles = new Map<number, HouseholdRole>();
+  for (const link of await familyLinks(memberIds, executor)) {
+    const fromMember = memberIds.includes(link.contactId);
+    const other = fromMember ? link.relatedContactId : link.contactId;
+    if (memberIds.includes(other) || roles.has(other)) continue;
+    const type = link.relationshipType;
+    if (SPOUSE_TYPES.includes(type)) {
+      roles.set(other, "spouse");
+    } else if (CHILD_TYPES.includes(type) || PARENT_TYPES.includes(type)) {
+      // The other contact is the child when the member is the parent
+      const otherIsChild = fromMember === CHILD_TYPES.includes(type);
+      roles.set(other, otherIsChild ? "child" : "other");
+    }
+  }
+
+  const available = await availableContacts([...roles.keys()], null, executor);
+  return [...available].map(([contactId, person]) => ({
+    contactId,
+    firstName: person.firstName,
+    lastName: person.lastName,
+    role: roles.get(contactId)!,
+  }));
+}
+
+export async function getHousehold(
+  householdId: number,
+  executor: DbExecutor = db
+): Promise<HouseholdDetail | null> {
+  const [row] = await executor
+    .select()
+    .from(household)
+    .where(eq(household.id, householdId));
+  if (!row) return null;
+
+  const [summary] = await summarize([row], executor);
+  const memberIds = summary.members.map((member) => member.contactId);
+
+  const credited = await executor
+    .select()
+    .from(payment)
+    .where(and(eq(payment.householdId, householdId), isNull(payment.deletedAt)))
+    .orderBy(desc(payment.paymentDate), desc(payment.id));
+
+  let creditable: Payment[] = [];
+  if (memberIds.length > 0) {
+    const memberPledges = executor
+      .select({ id: pledge.id })
+      .from(pledge)
+      .where(inArray(pledge.contactId, memberIds));
+    creditable = await executor
+      .select()
+      .from(payment)
+      .where(
+        and(
+          isNull(payment.householdId),
+          isNull(payment.refundOfPaymentId),
+          isNull(payment.deletedAt),
+          eq(payment.paymentStatus, PAID_STATUS),
+          or(
+            inArray(payment.pledgeId, memberPledges),
+            inArray(
+              payment.id,
+              executor
+                .select({ id: paymentAllocations.paymentId })
+                .from(paymentAllocations)
+                .where(inArray(paymentAllocations.pledgeId, memberPledges))
+            )
+          )
+        )
+      )
+      .orderBy(desc(payment.paymentDate), desc(payment.id))
+      .limit(CREDITABLE_LIMIT);
+  }
+
+  return {
+    ...summary,
+    creditedPayments: await describePayments(credited, executor),
+    creditablePayments: await describePayments(creditable, executor),
+    suggestedMembers: await suggestMembers(memberIds, executor),
+  };
+}
+
+// One row per household for a mail merge: the salutation to open letters
+// with, the head's address and the household's giving.
+export function householdsCsv(households: HouseholdSummary[]): string {
+  return toCsv([
+    [
+      "Household ID",
+      "Household",
+      "Salutation",
+      "Members",
+      "Address",
+      "Pledged (USD)",
+      "Paid (USD)",
+      "Balance (USD)",
+      "Credited (USD)",
+      "Given (USD)",
+    ],
+    ...households.map((row) => [
+      row.id,
+      row.name,
+      row.salutation || row.jointSalutation,
+      row.members
+        .map((member) => `${member.firstName} ${member.lastName}`)
+        .join("; "),
+      row.members.find((member) => member.address)?.address ?? null,
+      row.totals.pledgedUsd,
+      row.totals.paidUsd,
+      row.totals.balanceUsd,
+      row.totals.creditedUsd,
+      row.totals.givenUsd,
+    ]),
+  ]);
+}
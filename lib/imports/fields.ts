@@ -0,0 +1,85 @@
+import { importKindEnum } from "@/lib/db/schema";
+
+// The fields each kind of import fills, for mapping spreadsheet columns.
+// Shared with the import page, so nothing server-only belongs here.
+
+export type ImportKind = (typeof importKindEnum.enumValues)[number];
+
+export const IMPORT_KINDS = importKindEnum.enumValues;
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required?: boolean;
+  // Other column headers that mean this field
+  aliases?: string[];
+}
+
+// Column map: field key -> column header in the file
+export type ColumnMap = Record<string, string>;
+
+export const IMPORT_FIELDS: Record<ImportKind, ImportField[]> = {
+  contact: [
+    { key: "firstName", label: "First name", required: true, aliases: ["first", "given name"] },
+    { key: "lastName", label: "Last name", required: true, aliases: ["last", "surname", "family name"] },
+    { key: "title", label: "Title", aliases: ["salutation", "prefix"] },
+    { key: "gender", label: "Gender" },
+    { key: "email", label: "Email", aliases: ["email address", "e-mail"] },
+    { key: "phone", label: "Phone", aliases: ["phone number", "mobile", "telephone"] },
+    { key: "street", label: "Street", aliases: ["address", "address 1", "street address"] },
+    { key: "city", label: "City" },
+    { key: "state", label: "State", aliases: ["province", "region"] },
+    { key: "postalCode", label: "Postal code", aliases: ["zip", "zip code", "postcode"] },
+    { key: "country", label: "Country" },
+    { key: "preferredCurrency", label: "Preferred currency", aliases: ["currency"] },
+  ],
+  pledge: [
+    { key: "contactId", label: "Contact ID" },
+    { key: "contactEmail", label: "Contact email", aliases: ["email", "donor email"] },
+    { key: "pledgeDate", label: "Pledge date", required: true, aliases: ["date"] },
+    { key: "description", label: "Description", required: true },
+    { key: "originalAmount", label: "Amount", required: true, aliases: ["pledge amount", "original amount"] },
+    { key: "currency", label: "Currency" },
+    { key: "exchangeRate", label: "Exchange rate", aliases: ["rate"] },
+    { key: "category", label: "Category" },
+    { key: "campaignCode", label: "Campaign code", aliases: ["campaign"] },
+    { key: "notes", label: "Notes" },
+  ],
+  payment: [
+    { key: "pledgeId", label: "Pledge ID", required: true, aliases: ["pledge"] },
+    { key: "amount", label: "Amount", required: true, aliases: ["payment amount"] },
+    { key: "currency", label: "Currency" },
+    { key: "exchangeRate", label: "Exchange rate", aliases: ["rate"] },
+    { key: "paymentDate", label: "Payment date", required: true, aliases: ["date"] },
+    { key: "receivedDate", label: "Received date" },
+    { key: "paymentMethod", label: "Method", required: true, aliases: ["payment method"] },
+    { key: "methodDetail", label: "Method detail" },
+    { key: "paymentStatus", label: "Status", aliases: ["payment status"] },
+    { key: "referenceNumber", label: "Reference", aliases: ["reference number", "transaction id"] },
+    { key: "checkNumber", label: "Check number", aliases: ["check", "cheque number"] },
+    { key: "notes", label: "Notes" },
+  ],
+};
+
+const normalizeHeader = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Maps each field to the first column whose header matches its key, label
+// or one of its aliases, ignoring case, spaces and punctuation.
+export function matchColumns(fields: ImportField[], headers: string[]): ColumnMap {
+  const byHeader = new Map(
+    headers.map((header) => [normalizeHeader(header), header])
+  );
+  const columnMap: ColumnMap = {};
+  for (const field of fields) {
+    const match = [field.key, field.label, ...(field.aliases ?? [])]
+      .map((name) => byHeader.get(normalizeHeader(name)))
+      .find(Boolean);
+    if (match) columnMap[field.key] = match;
+  }
+  return columnMap;
+}
+
+export function suggestColumnMap(kind: ImportKind, headers: string[]): ColumnMap {
+  return matchColumns(IMPORT_FIELDS[kind], headers);
+}
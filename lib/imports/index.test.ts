@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq, isNull, sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { db, txDb } from "@/lib/db";
+import {
+  contact,
+  importLog,
+  importRecord,
+  payment,
+  pledge,
+  staffUser,
+} from "@/lib/db/schema";
+import type { SessionUser } from "@/lib/auth/guard";
+import {
+  ImportStateError,
+  previewImport,
+  readSheet,
+  rollbackImport,
+  runImport,
+} from ".";
+
+const user: SessionUser = {
+  id: 1,
+  email: "books@example.org",
+  name: "Bookkeeper",
+  role: "bookkeeper",
+  contactId: null,
+  solicitorId: null,
+};
+
+const csv = (text: string) =>
+  readSheet(new TextEncoder().encode(text).buffer as ArrayBuffer);
+
+const rollback = (importId: number) =>
+  txDb.transaction((tx) => rollbackImport(importId, user.id, tx));
+
+let donorId: number;
+
+beforeEach(async () => {
+  await db.execute(
+    sql`TRUNCATE ${contact}, ${pledge}, ${payment}, ${importLog}, ${staffUser} RESTART IDENTITY CASCADE`
+  );
+  await db.insert(staffUser).values({
+    email: user.email,
+    name: user.name,
+    passwordHash: "x",
+    role: user.role,
+  });
+  [{ id: donorId }] = await db
+    .insert(contact)
+    .values({ firstName: "Dana", lastName: "Donor", email: "dana@example.org" })
+    .returning();
+});
+
+describe("previewImport", () => {
+  it("checks every row without writing any", async () => {
+    const preview = await previewImport(
+      "contact",
+      csv(
+        [
+          "First name,Last name,E-mail,Title",
+          "Eli,Cohen,eli@example.org,Mr.",
+          "Dana,Donor,dana@example.org,",
+          "Noa,Levi,ELI@example.org,",
+          "Sam,,,Captain",
+        ].join("\n")
+      )
+    );
+
+    expect(preview.columnMap).toMatchObject({ email: "E-mail", title: "Title" });
+    expect(preview.rows.map(({ status, errors }) => ({ status, errors }))).toEqual([
+      { status: "valid", errors: [] },
+      { status: "invalid", errors: [`Contact ${donorId} already has this email`] },
+      { status: "invalid", errors: ["Row 2 has the same email"] },
+      {
+        status: "invalid",
+        errors: expect.arrayContaining(["Last name is required"]),
+      },
+    ]);
+    expect(preview.counts).toEqual({ valid: 1, invalid: 3, duplicate: 0 });
+    expect(await db.select().from(contact)).toHaveLength(1);
+  });
+
+  it("flags a pledge the donor already has", async () => {
+    await db.insert(pledge).values({
+      contactId: donorId,
+      pledgeDate: "2025-01-01",
+      originalAmount: "500.00",
+      balance: "500.00",
+    });
+    const preview = await previewImport(
+      "pledge",
+      csv(
+        [
+          "Contact email,Date,Description,Amount",
+          "dana@example.org,2025-01-01,Gala,500",
+          "dana@example.org,2025-02-01,Gala,$250.00",
+          "dana@example.org,2025-02-01,Gala,250",
+        ].join("\n")
+      )
+    );
+    expect(preview.rows.map((row) => row.duplicates.map((ref) => ref.label))).toEqual([
+      ["Pledge 1"],
+      [],
+      ["Row 3"],
+    ]);
+  });
+});
+
+describe("runImport", () => {
+  it("writes the valid rows and logs the skipped ones", async () => {
+    const log = await runImport(
+      "pledge",
+      "pledges.csv",
+      csv(
+        [
+          "Contact ID,Date,Description,Amount",
+          `${donorId},2025-01-01,Gala,500`,
+          "999,2025-01-01,Gala,500",
+          `${donorId},1/15/2025,Dinner,250`,
+        ].join("\n")
+      ),
+      undefined,
+      {},
+      user
+    );
+
+    expect(log).toMatchObject({
+      status: "committed",
+      totalRows: 3,
+      importedRows: 2,
+      skippedRows: 1,
+    });
+    expect(JSON.parse(log.rowErrors!)).toEqual([
+      { rowNumber: 3, errors: ["Contact 999 does not exist"] },
+    ]);
+    const pledges = await db.select().from(pledge).orderBy(pledge.id);
+    expect(pledges.map((row) => [row.pledgeDate, row.balance])).toEqual([
+      ["2025-01-01", "500.00"],
+      ["2025-01-15", "250.00"],
+    ]);
+  });
+
+  it("brings the pledge totals up to date with imported payments", async () => {
+    const [open] = await db
+      .insert(pledge)
+      .values({
+        contactId: donorId,
+        pledgeDate: "2025-01-01",
+        originalAmount: "500.00",
+        originalAmountUsd: "500.00",
+        balance: "500.00",
+        balanceUsd: "500.00",
+      })
+      .returning();
+    await runImport(
+      "payment",
+      "payments.csv",
+      csv(`Pledge ID,Amount,Payment date,Method\n${open.id},200,2025-02-01,Check\n`),
+      undefined,
+      {},
+      user
+    );
+
+    const [after] = await db.select().from(pledge).where(eq(pledge.id, open.id));
+    expect(after).toMatchObject({ totalPaid: "200.00", balance: "300.00" });
+  });
+});
+
+describe("rollbackImport", () => {
+  const importContacts = () =>
+    runImport(
+      "contact",
+      "contacts.csv",
+      csv("First name,Last name\nEli,Cohen\nNoa,Levi\n"),
+      undefined,
+      {},
+      user
+    );
+
+  it("moves what the import created to the trash, once", async () => {
+    const log = await importContacts();
+    const result = await rollback(log.id);
+
+    expect(result?.after).toMatchObject({ status: "rolled_back", rolledBackBy: user.id });
+    expect(result?.changes).toHaveLength(2);
+    const live = await db.select().from(contact).where(isNull(contact.deletedAt));
+    expect(live.map((row) => row.id)).toEqual([donorId]);
+    await expect(rollback(log.id)).rejects.toThrow("already been rolled back");
+  });
+
+  it("refuses while later records depend on what it created", async () => {
+    const log = await importContacts();
+    const [{ recordId }] = await db
+      .select()
+      .from(importRecord)
+      .where(eq(importRecord.importId, log.id));
+    await db.insert(pledge).values({
+      contactId: recordId,
+      pledgeDate: "2025-03-01",
+      originalAmount: "100.00",
+      balance: "100.00",
+    });
+
+    await expect(rollback(log.id)).rejects.toBeInstanceOf(ImportStateError);
+    const [after] = await db.select().from(importLog).where(eq(importLog.id, log.id));
+    expect(after.status).toBe("committed");
+  });
+
+  it("is null for an unknown import", async () => {
+    expect(await rollback(404)).toBeNull();
+  });
+});
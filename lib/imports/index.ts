@@ -0,0 +1,350 @@
+import { and, desc, eq, exists, inArray, isNull, or, sql } from "drizzle-orm";
+import { db, txDb, type DbExecutor } from "@/lib/db";
+import {
+  contact,
+  importLog,
+  importRecord,
+  payment,
+  paymentAllocations,
+  pledge,
+  staffUser,
+  type ImportLog,
+} from "@/lib/db/schema";
+import { recordAudit } from "@/lib/audit";
+import { auditBonusSync } from "@/lib/bonus";
+import { moveToTrash, type TrashChange } from "@/lib/trash";
+import type { SessionUser } from "@/lib/auth/guard";
+import { suggestColumnMap, type ColumnMap, type ImportKind } from "./fields";
+import type { Sheet } from "./sheet";
+import {
+  IMPORT_HANDLERS,
+  type CreatedRecord,
+  type PreviewRow,
+} from "./rows";
+
+export { readSheet, SheetError, MAX_IMPORT_ROWS, type Sheet } from "./sheet";
+export type { PreviewRow, DuplicateRef, RowStatus } from "./rows";
+export { IMPORT_HANDLERS, type CreatedRecord } from "./rows";
+
+// Bulk import of contacts, pledges and payments from a spreadsheet. A dry
+// run (previewImport) checks every row without writing anything; the import
+// itself writes the rows in batches and logs what it created, so a whole
+// import can be rolled back to the trash.
+
+export class ImportStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportStateError";
+  }
+}
+
+// Rows written per transaction. A failing batch is rolled back whole and
+// stops the import; the batches before it stay imported.
+const BATCH_SIZE = 100;
+
+export interface ImportPreview {
+  kind: ImportKind;
+  headers: string[];
+  // The map used: the one given, or one suggested from the headers
+  columnMap: ColumnMap;
+  rows: PreviewRow[];
+  counts: Record<PreviewRow["status"], number>;
+}
+
+const tables = { contact, pledge, payment } as const;
+
+function effectiveColumnMap(
+  kind: ImportKind,
+  sheet: Sheet,
+  columnMap?: ColumnMap
+): ColumnMap {
+  if (!columnMap) return suggestColumnMap(kind, sheet.headers);
+  // Drop columns the file does not have, e.g. from a map kept for another file
+  return Object.fromEntries(
+    Object.entries(columnMap).filter(([, header]) =>
+      sheet.headers.includes(header)
+    )
+  );
+}
+
+async function prepareRows(
+  kind: ImportKind,
+  sheet: Sheet,
+  columnMap: ColumnMap,
+  executor: DbExecutor
+) {
+  return IMPORT_HANDLERS[kind].prepare(sheet.rows, columnMap, executor);
+}
+
+export async function previewImport(
+  kind: ImportKind,
+  sheet: Sheet,
+  columnMap?: ColumnMap,
+  executor: DbExecutor = db
+): Promise<ImportPreview> {
+  const effective = effectiveColumnMap(kind, sheet, columnMap);
+  const prepared = await prepareRows(kind, sheet, effective, executor);
+  const rows = prepared.map(({ record: _record, ...row }) => row);
+  const counts = { valid: 0, invalid: 0, duplicate: 0 };
+  for (const row of rows) counts[row.status]++;
+  return { kind, headers: sheet.headers, columnMap: effective, rows, counts };
+}
+
+export interface ImportOptions {
+  // Import rows that look like records already saved instead of skipping them
+  includeDuplicates?: boolean;
+}
+
+async function auditCreated(
+  user: SessionUser,
+  kind: ImportKind,
+  created: CreatedRecord
+) {
+  await recordAudit(user, {
+    table: tables[kind],
+    recordId: created.id,
+    action: "create",
+    after: created.after,
+    contactId: created.contactId,
+  });
+  if (created.bonusSync) {
+    await auditBonusSync(user, created.bonusSync, { paymentFields: false });
+  }
+}
+
+// Checks the rows again and writes every valid one (and the duplicates, if
+// asked). Invalid rows are skipped and kept in the log with their errors.
+export async function runImport(
+  kind: ImportKind,
+  fileName: string,
+  sheet: Sheet,
+  columnMap: ColumnMap | undefined,
+  options: ImportOptions,
+  user: SessionUser
+): Promise<ImportLog> {
+  const effective = effectiveColumnMap(kind, sheet, columnMap);
+  const prepared = await prepareRows(kind, sheet, effective, db);
+  const toImport = prepared.filter(
+    (row) =>
+      row.record !== null &&
+      (row.status === "valid" || options.includeDuplicates)
+  );
+  const skipped = prepared
+    .filter((row) => !toImport.includes(row))
+    .map(({ rowNumber, status, errors, duplicates }) => ({
+      rowNumber,
+      errors:
+        status === "duplicate"
+          ? duplicates.map((duplicate) => `Duplicate of ${duplicate.label}`)
+          : errors,
+    }));
+
+  const [created] = await db
+    .insert(importLog)
+    .values({
+      kind,
+      fileName,
+      status: "committed",
+      columnMap: JSON.stringify(effective),
+      totalRows: prepared.length,
+      skippedRows: skipped.length,
+      rowErrors: skipped.length > 0 ? JSON.stringify(skipped) : null,
+      importedBy: user.id,
+    })
+    .returning();
+
+  const handler = IMPORT_HANDLERS[kind];
+  let importedRows = 0;
+  let errorMessage: string | null = null;
+  for (let start = 0; start < toImport.length; start += BATCH_SIZE) {
+    const batch = toImport.slice(start, start + BATCH_SIZE);
+    try {
+      const records = await txDb.transaction(async (tx) => {
+        const batchRecords: CreatedRecord[] = [];
+        for (const row of batch) {
+          const record = await handler.create(row.record, tx);
+          await tx.insert(importRecord).values({
+            importId: created.id,
+            rowNumber: row.rowNumber,
+            recordId: record.id,
+          });
+          batchRecords.push(record);
+        }
+        return batchRecords;
+      });
+      importedRows += records.length;
+      for (const record of records) await auditCreated(user, kind, record);
+    } catch (error) {
+      console.error("Error importing rows:", error);
+      errorMessage = `Rows ${batch[0].rowNumber} to ${batch[batch.length - 1].rowNumber} failed: ${
+        error instanceof Error ? error.message : "unknown error"
+      }`;
+      break;
+    }
+  }
+
+  const [finished] = await db
+    .update(importLog)
+    .set({
+      importedRows,
+      status: errorMessage ? "failed" : "committed",
+      errorMessage,
+    })
+    .where(eq(importLog.id, created.id))
+    .returning();
+
+  await recordAudit(user, {
+    table: importLog,
+    recordId: finished.id,
+    action: "create",
+    after: finished,
+    contactId: null,
+  });
+  return finished;
+}
+
+export interface ImportRollback {
+  before: ImportLog;
+  after: ImportLog;
+  changes: TrashChange[];
+}
+
+// Anything added to the imported records since, which the rollback would
+// take to the trash with them
+async function laterRecords(
+  kind: ImportKind,
+  recordIds: number[],
+  executor: DbExecutor
+): Promise<string | null> {
+  if (kind === "contact") {
+    const [row] = await executor
+      .select({ contactId: pledge.contactId })
+      .from(pledge)
+      .where(and(inArray(pledge.contactId, recordIds), isNull(pledge.deletedAt)))
+      .limit(1);
+    return row ? `Contact ${row.contactId} has pledges` : null;
+  }
+  if (kind === "pledge") {
+    const [row] = await executor
+      .select({ id: pledge.id })
+      .from(pledge)
+      .where(
+        and(
+          inArray(pledge.id, recordIds),
+          exists(
+            executor
+              .select({ id: payment.id })
+              .from(payment)
+              .where(
+                and(
+                  isNull(payment.deletedAt),
+                  or(
+                    eq(payment.pledgeId, pledge.id),
+                    exists(
+                      executor
+                        .select({ id: paymentAllocations.id })
+                        .from(paymentAllocations)
+                        .where(
+                          and(
+                            eq(paymentAllocations.paymentId, payment.id),
+                            eq(paymentAllocations.pledgeId, pledge.id)
+                          )
+                        )
+                    )
+                  )
+                )
+              )
+          )
+        )
+      )
+      .limit(1);
+    return row ? `Pledge ${row.id} has payments` : null;
+  }
+  return null;
+}
+
+// Moves every record the import created to the trash, newest first, so the
+// rollback can itself be undone from the trash. Records since deleted are
+// left as they are. Throws ImportStateError when the import was rolled back
+// already or records were added to what it created.
+export async function rollbackImport(
+  importId: number,
+  rolledBackBy: number | null,
+  executor: DbExecutor
+): Promise<ImportRollback | null> {
+  const [before] = await executor
+    .select()
+    .from(importLog)
+    .where(eq(importLog.id, importId))
+    .for("update");
+  if (!before) return null;
+  if (before.status === "rolled_back") {
+    throw new ImportStateError("This import has already been rolled back");
+  }
+
+  const table = tables[before.kind];
+  const records = await executor
+    .select({ recordId: importRecord.recordId })
+    .from(importRecord)
+    .innerJoin(table, eq(table.id, importRecord.recordId))
+    .where(and(eq(importRecord.importId, importId), isNull(table.deletedAt)))
+    .orderBy(desc(importRecord.rowNumber));
+  const recordIds = records.map((record) => record.recordId);
+
+  if (recordIds.length > 0) {
+    const blocker = await laterRecords(before.kind, recordIds, executor);
+    if (blocker) {
+      throw new ImportStateError(
+        `${blocker} added after the import; delete them first`
+      );
+    }
+  }
+
+  const changes: TrashChange[] = [];
+  for (const recordId of recordIds) {
+    changes.push(
+      await moveToTrash(before.kind, recordId, rolledBackBy, executor)
+    );
+  }
+
+  const [after] = await executor
+    .update(importLog)
+    .set({
+      status: "rolled_back",
+      rolledBackAt: new Date(),
+      rolledBackBy,
+    })
+    .where(eq(importLog.id, importId))
+    .returning();
+  return { before, after, changes };
+}
+
+export interface ImportLogEntry
+  extends Omit<ImportLog, "columnMap" | "rowErrors"> {
+  columnMap: ColumnMap;
+  rowErrors: { rowNumber: number; errors: string[] }[];
+  importedByName: string | null;
+}
+
+// The latest imports, newest first
+export async function listImports(
+  executor: DbExecutor = db
+): Promise<ImportLogEntry[]> {
+  const rows = await executor
+    .select({
+      log: importLog,
+      importedByName: sql<
+        string | null
+      >`(SELECT ${staffUser.name} FROM ${staffUser} WHERE ${staffUser.id} = ${importLog.importedBy})`,
+    })
+    .from(importLog)
+    .orderBy(desc(importLog.createdAt), desc(importLog.id))
+    .limit(100);
+
+  return rows.map(({ log, importedByName }) => ({
+    ...log,
+    columnMap: JSON.parse(log.columnMap),
+    rowErrors: log.rowErrors ? JSON.parse(log.rowErrors) : [],
+    importedByName,
+  }));
+}
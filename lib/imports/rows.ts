@@ -0,0 +1,654 @@
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/db";
+import {
+  category,
+  contact,
+  contactEmail,
+  currencyEnum,
+  genderEnum,
+  payment,
+  paymentMethodEnum,
+  paymentStatusEnum,
+  pledge,
+  titleEnum,
+  type NewPayment,
+  type NewPledge,
+  type Pledge,
+} from "@/lib/db/schema";
+import { contactFieldsSchema } from "@/lib/form-schemas/contact";
+import {
+  primaryChannels,
+  saveContactChannels,
+  type ContactChannelValues,
+} from "@/lib/contact-channels";
+import { createMatcher, normalizeEmail } from "@/lib/duplicates";
+import { syncPaymentBonus, type BonusSync } from "@/lib/bonus";
+import {
+  convertAmount,
+  moneyString,
+  rateString,
+  toUsd,
+} from "@/lib/currency";
+import { getRate, type Currency } from "@/lib/exchange-rates";
+import {
+  getPaymentLedgerTargets,
+  updateLedgerTotals,
+} from "@/lib/pledge-totals";
+import { parseAmount, parseDate, type SheetRow } from "./sheet";
+import { IMPORT_FIELDS, type ColumnMap, type ImportKind } from "./fields";
+
+// Turns spreadsheet rows into records: each kind reads and checks its rows
+// against the database (prepare) and writes one checked row (create).
+
+export type RowStatus = "valid" | "invalid" | "duplicate";
+
+export interface DuplicateRef {
+  label: string;
+  // The existing record it matches, or the earlier row of the same file
+  recordId: number | null;
+  rowNumber: number | null;
+  score?: number;
+}
+
+export interface PreviewRow {
+  rowNumber: number;
+  status: RowStatus;
+  // A short description of the record, e.g. "Cohen, David"
+  summary: string;
+  errors: string[];
+  duplicates: DuplicateRef[];
+}
+
+export interface PreparedRow<T> extends PreviewRow {
+  record: T | null;
+}
+
+export interface CreatedRecord {
+  id: number;
+  after: Record<string, unknown>;
+  contactId: number | null;
+  bonusSync: BonusSync | null;
+}
+
+export interface ImportHandler<T> {
+  prepare(
+    rows: SheetRow[],
+    columnMap: ColumnMap,
+    executor: DbExecutor
+  ): Promise<PreparedRow<T>[]>;
+  create(record: T, executor: DbExecutor): Promise<CreatedRecord>;
+}
+
+// Reads one row's mapped cells, collecting a message for each bad value
+class RowReader {
+  errors: string[] = [];
+
+  constructor(
+    private row: SheetRow,
+    private columnMap: ColumnMap,
+    private kind: ImportKind
+  ) {}
+
+  private label(key: string) {
+    return IMPORT_FIELDS[this.kind].find((field) => field.key === key)?.label ?? key;
+  }
+
+  text(key: string): string | undefined {
+    const column = this.columnMap[key];
+    const value = column ? this.row.values[column]?.trim() : undefined;
+    if (value) return value;
+    if (IMPORT_FIELDS[this.kind].find((field) => field.key === key)?.required) {
+      this.errors.push(`${this.label(key)} is required`);
+    }
+    return undefined;
+  }
+
+  amount(key: string): number | undefined {
+    const value = this.text(key);
+    if (value === undefined) return undefined;
+    const amount = parseAmount(value);
+    if (amount === null || amount <= 0) {
+      this.errors.push(`${this.label(key)} must be a positive number`);
+      return undefined;
+    }
+    return amount;
+  }
+
+  id(key: string): number | undefined {
+    const value = this.text(key);
+    if (value === undefined) return undefined;
+    const id = Number(value);
+    if (!Number.isInteger(id) || id <= 0) {
+      this.errors.push(`${this.label(key)} must be a whole number`);
+      return undefined;
+    }
+    return id;
+  }
+
+  date(key: string): string | undefined {
+    const value = this.text(key);
+    if (value === undefined) return undefined;
+    const date = parseDate(value);
+    if (!date) {
+      this.errors.push(`${this.label(key)} must be a date like 2024-01-31`);
+      return undefined;
+    }
+    return date;
+  }
+
+  // Matches "Credit Card", "credit-card" and "credit_card" alike, and "Mr."
+  // as "mr"
+  choice<T extends string>(key: string, options: readonly T[]): T | undefined {
+    const value = this.text(key);
+    if (value === undefined) return undefined;
+    const normalized = value.toLowerCase().replace(/\./g, "").replace(/[\s-]+/g, "_");
+    const match = options.find(
+      (option) => option.toLowerCase() === normalized || option === value
+    );
+    if (!match) {
+      this.errors.push(
+        `${this.label(key)} "${value}" is not one of ${options.join(", ")}`
+      );
+    }
+    return match;
+  }
+
+  currency(key: string): Currency | undefined {
+    const value = this.text(key);
+    if (value === undefined) return undefined;
+    const match = currencyEnum.enumValues.find(
+      (currency) => currency === value.toUpperCase()
+    );
+    if (!match) this.errors.push(`Currency "${value}" is not supported`);
+    return match;
+  }
+
+  check(key: string, schema: { safeParse: (value: unknown) => unknown }) {
+    const value = this.text(key);
+    const result = schema.safeParse(value) as {
+      success: boolean;
+      error?: { issues: { message: string }[] };
+    };
+    if (value !== undefined && !result.success) {
+      this.errors.push(...result.error!.issues.map((issue) => issue.message));
+    }
+    return value;
+  }
+}
+
+// A mapped cell read as-is, for looking up what many rows refer to at once
+const cell = (row: SheetRow, columnMap: ColumnMap, key: string) =>
+  row.values[columnMap[key] ?? ""]?.trim() ?? "";
+
+function finish<T>(
+  row: SheetRow,
+  reader: RowReader,
+  summary: string,
+  duplicates: DuplicateRef[],
+  record: T
+): PreparedRow<T> {
+  const invalid = reader.errors.length > 0;
+  return {
+    rowNumber: row.rowNumber,
+    status: invalid ? "invalid" : duplicates.length > 0 ? "duplicate" : "valid",
+    summary,
+    errors: reader.errors,
+    duplicates,
+    record: invalid ? null : record,
+  };
+}
+
+// Exchange rates by currency and date, looked up once per import
+function rateCache() {
+  const rates = new Map<string, Promise<number | null>>();
+  return (currency: Currency, date: string) => {
+    const key = `${currency}|${date}`;
+    if (!rates.has(key)) rates.set(key, getRate(currency, date));
+    return rates.get(key)!;
+  };
+}
+
+async function resolveRate(
+  reader: RowReader,
+  rateFor: ReturnType<typeof rateCache>,
+  currency: Currency,
+  date: string | undefined
+): Promise<number | undefined> {
+  const given = reader.amount("exchangeRate");
+  if (given !== undefined || !date) return given;
+  const rate = await rateFor(currency, date);
+  if (!rate) {
+    reader.errors.push(
+      `No ${currency} exchange rate for ${date}; add an Exchange rate column`
+    );
+    return undefined;
+  }
+  return rate;
+}
+
+type ContactImport = {
+  details: Pick<
+    typeof contact.$inferInsert,
+    "firstName" | "lastName" | "title" | "gender" | "preferredCurrency"
+  >;
+  channels: ContactChannelValues;
+};
+
+const contactHandler: ImportHandler<ContactImport> = {
+  async prepare(rows, columnMap, executor) {
+    const matchesFor = await createMatcher({}, executor);
+    const emails = await executor
+      .select({ id: contact.id, email: contact.email })
+      .from(contact)
+      .where(sql`${contact.email} IS NOT NULL`);
+    // contact.email is unique, so the same primary email is an error, not a
+    // duplicate that could be imported anyway
+    const takenEmails = new Map(
+      emails.map((row) => [normalizeEmail(row.email), row.id])
+    );
+    const fileEmails = new Map<string, number>();
+
+    return rows.map((row) => {
+      const reader = new RowReader(row, columnMap, "contact");
+      const firstName = reader.check("firstName", contactFieldsSchema.shape.firstName);
+      const lastName = reader.check("lastName", contactFieldsSchema.shape.lastName);
+      const email = reader.check("email", contactFieldsSchema.shape.email);
+      const phone = reader.text("phone");
+      const street = reader.text("street");
+      const address = {
+        city: reader.text("city"),
+        state: reader.text("state"),
+        postalCode: reader.text("postalCode"),
+        country: reader.text("country"),
+      };
+      if (!street && Object.values(address).some(Boolean)) {
+        reader.errors.push("Street is required with an address");
+      }
+
+      const record: ContactImport = {
+        details: {
+          firstName: firstName ?? "",
+          lastName: lastName ?? "",
+          title: reader.choice("title", titleEnum.enumValues),
+          gender: reader.choice("gender", genderEnum.enumValues),
+          preferredCurrency: reader.currency("preferredCurrency"),
+        },
+        channels: {
+          email,
+          phone,
+          addresses: street
+            ? [{ type: "home", street, ...address, isPrimary: true }]
+            : undefined,
+        },
+      };
+
+      const duplicates: DuplicateRef[] = [];
+      const emailKey = normalizeEmail(email ?? null);
+      if (emailKey && takenEmails.has(emailKey)) {
+        reader.errors.push(
+          `Contact ${takenEmails.get(emailKey)} already has this email`
+        );
+      } else if (emailKey && fileEmails.has(emailKey)) {
+        reader.errors.push(`Row ${fileEmails.get(emailKey)} has the same email`);
+      } else if (emailKey) {
+        fileEmails.set(emailKey, row.rowNumber);
+      }
+
+      if (firstName && lastName) {
+        for (const match of matchesFor({
+          firstName,
+          lastName,
+          ...primaryChannels(record.channels),
+        })) {
+          duplicates.push({
+            label: `${match.contact.firstName} ${match.contact.lastName}`,
+            recordId: match.contact.contactId,
+            rowNumber: null,
+            score: match.score,
+          });
+        }
+      }
+
+      return finish(
+        row,
+        reader,
+        [lastName, firstName].filter(Boolean).join(", "),
+        duplicates,
+        record
+      );
+    });
+  },
+
+  async create(record, executor) {
+    const [row] = await executor
+      .insert(contact)
+      .values(record.details)
+      .returning();
+    const saved = (await saveContactChannels(row.id, record.channels, executor)) ?? row;
+    return { id: saved.id, after: saved, contactId: saved.id, bonusSync: null };
+  },
+};
+
+const pledgeKey = (
+  contactId: number,
+  date: string,
+  amount: number,
+  currency: string
+) => `${contactId}|${date}|${amount.toFixed(2)}|${currency}`;
+
+const pledgeHandler: ImportHandler<NewPledge> = {
+  async prepare(rows, columnMap, executor) {
+    const contactIds = rows
+      .map((row) => Number(cell(row, columnMap, "contactId")))
+      .filter((id) => Number.isInteger(id) && id > 0);
+    const givenEmails = rows
+      .map((row) => normalizeEmail(cell(row, columnMap, "contactEmail")))
+      .filter(Boolean);
+
+    const liveContacts =
+      contactIds.length === 0
+        ? []
+        : await executor
+            .select({ id: contact.id })
+            .from(contact)
+            .where(and(inArray(contact.id, contactIds), isNull(contact.deletedAt)));
+    const liveContactIds = new Set(liveContacts.map((row) => row.id));
+
+    // Every contact each email belongs to, as primary or other email
+    const owners = new Map<string, Set<number>>();
+    if (givenEmails.length > 0) {
+      const primary = await executor
+        .select({ id: contact.id, email: contact.email })
+        .from(contact)
+        .where(and(sql`${contact.email} IS NOT NULL`, isNull(contact.deletedAt)));
+      const others = await executor
+        .select({ id: contactEmail.contactId, email: contactEmail.email })
+        .from(contactEmail)
+        .innerJoin(contact, eq(contactEmail.contactId, contact.id))
+        .where(isNull(contact.deletedAt));
+      for (const row of [...primary, ...others]) {
+        const key = normalizeEmail(row.email);
+        if (!owners.has(key)) owners.set(key, new Set());
+        owners.get(key)!.add(row.id);
+      }
+    }
+
+    const categories = new Map(
+      (await executor.select({ id: category.id, name: category.name }).from(category)).map(
+        (row) => [row.name.trim().toLowerCase(), row.id]
+      )
+    );
+    const rateFor = rateCache();
+    const prepared: {
+      row: SheetRow;
+      reader: RowReader;
+      record: NewPledge;
+      summary: string;
+    }[] = [];
+
+    for (const row of rows) {
+      const reader = new RowReader(row, columnMap, "pledge");
+      let contactId = reader.id("contactId");
+      const email = reader.text("contactEmail");
+      if (contactId !== undefined) {
+        if (!liveContactIds.has(contactId)) {
+          reader.errors.push(`Contact ${contactId} does not exist`);
+        }
+      } else if (email) {
+        const matches = [...(owners.get(normalizeEmail(email)) ?? [])];
+        if (matches.length === 1) contactId = matches[0];
+        else if (matches.length === 0) {
+          reader.errors.push(`No contact has the email ${email}`);
+        } else {
+          reader.errors.push(
+            `${matches.length} contacts have the email ${email}; give the Contact ID`
+          );
+        }
+      } else if (reader.errors.length === 0) {
+        reader.errors.push("Contact ID or Contact email is required");
+      }
+
+      const pledgeDate = reader.date("pledgeDate");
+      const description = reader.text("description");
+      const originalAmount = reader.amount("originalAmount");
+      const currency = reader.currency("currency") ?? "USD";
+      const exchangeRate = await resolveRate(reader, rateFor, currency, pledgeDate);
+      const categoryName = reader.text("category");
+      const categoryId = categoryName
+        ? categories.get(categoryName.toLowerCase())
+        : undefined;
+      if (categoryName && !categoryId) {
+        reader.errors.push(`Category "${categoryName}" does not exist`);
+      }
+
+      const amount = originalAmount ?? 0;
+      const amountUsd = exchangeRate ? toUsd(amount, exchangeRate) : 0;
+      prepared.push({
+        row,
+        reader,
+        summary: `${pledgeDate ?? "?"} ${amount.toFixed(2)} ${currency}${description ? ` - ${description}` : ""}`,
+        record: {
+          contactId: contactId ?? 0,
+          categoryId: categoryId ?? null,
+          pledgeDate: pledgeDate ?? "",
+          description: description ?? null,
+          originalAmount: moneyString(amount),
+          currency,
+          originalAmountUsd: moneyString(amountUsd),
+          exchangeRate: exchangeRate ? rateString(exchangeRate) : null,
+          campaignCode: reader.text("campaignCode") ?? null,
+          totalPaid: "0",
+          totalPaidUsd: "0",
+          balance: moneyString(amount),
+          balanceUsd: moneyString(amountUsd),
+          isActive: true,
+          notes: reader.text("notes") ?? null,
+        },
+      });
+    }
+
+    // The same contact, date, amount and currency as a pledge already saved
+    // or an earlier row
+    const pledgedContactIds = [
+      ...new Set(prepared.map(({ record }) => record.contactId).filter(Boolean)),
+    ];
+    const existing = new Map<string, number>();
+    if (pledgedContactIds.length > 0) {
+      const saved = await executor
+        .select()
+        .from(pledge)
+        .where(
+          and(inArray(pledge.contactId, pledgedContactIds), isNull(pledge.deletedAt))
+        );
+      for (const row of saved) {
+        existing.set(
+          pledgeKey(row.contactId, row.pledgeDate, Number(row.originalAmount), row.currency),
+          row.id
+        );
+      }
+    }
+    const inFile = new Map<string, number>();
+
+    return prepared.map(({ row, reader, record, summary }) => {
+      const key = pledgeKey(
+        record.contactId,
+        record.pledgeDate,
+        Number(record.originalAmount),
+        record.currency ?? "USD"
+      );
+      const duplicates: DuplicateRef[] = [];
+      if (existing.has(key)) {
+        duplicates.push({
+          label: `Pledge ${existing.get(key)}`,
+          recordId: existing.get(key)!,
+          rowNumber: null,
+        });
+      }
+      if (inFile.has(key)) {
+        duplicates.push({
+          label: `Row ${inFile.get(key)}`,
+          recordId: null,
+          rowNumber: inFile.get(key)!,
+        });
+      } else if (reader.errors.length === 0) {
+        inFile.set(key, row.rowNumber);
+      }
+      return finish(row, reader, summary, duplicates, record);
+    });
+  },
+
+  async create(record, executor) {
+    const [row] = await executor.insert(pledge).values(record).returning();
+    return { id: row.id, after: row, contactId: row.contactId, bonusSync: null };
+  },
+};
+
+const paymentKey = (pledgeId: number, date: string, amount: number) =>
+  `${pledgeId}|${date}|${amount.toFixed(2)}`;
+
+const paymentHandler: ImportHandler<NewPayment> = {
+  async prepare(rows, columnMap, executor) {
+    const pledgeIds = rows
+      .map((row) => Number(cell(row, columnMap, "pledgeId")))
+      .filter((id) => Number.isInteger(id) && id > 0);
+    const pledges = new Map<number, Pledge>(
+      pledgeIds.length === 0
+        ? []
+        : (
+            await executor
+              .select()
+              .from(pledge)
+              .where(and(inArray(pledge.id, pledgeIds), isNull(pledge.deletedAt)))
+          ).map((row) => [row.id, row])
+    );
+
+    const existing = new Map<string, number>();
+    const references = new Map<string, number>();
+    if (pledges.size > 0) {
+      const saved = await executor
+        .select()
+        .from(payment)
+        .where(
+          and(inArray(payment.pledgeId, [...pledges.keys()]), isNull(payment.deletedAt))
+        );
+      for (const row of saved) {
+        existing.set(paymentKey(row.pledgeId!, row.paymentDate, Number(row.amount)), row.id);
+      }
+    }
+    const givenReferences = rows
+      .map((row) => cell(row, columnMap, "referenceNumber"))
+      .filter(Boolean);
+    if (givenReferences.length > 0) {
+      const saved = await executor
+        .select({ id: payment.id, referenceNumber: payment.referenceNumber })
+        .from(payment)
+        .where(
+          and(inArray(payment.referenceNumber, givenReferences), isNull(payment.deletedAt))
+        );
+      for (const row of saved) references.set(row.referenceNumber!, row.id);
+    }
+
+    const rateFor = rateCache();
+    const inFile = new Map<string, number>();
+    const prepared: PreparedRow<NewPayment>[] = [];
+
+    for (const row of rows) {
+      const reader = new RowReader(row, columnMap, "payment");
+      const pledgeId = reader.id("pledgeId");
+      const pledgeData = pledgeId ? pledges.get(pledgeId) : undefined;
+      if (pledgeId && !pledgeData) {
+        reader.errors.push(`Pledge ${pledgeId} does not exist`);
+      }
+
+      const amount = reader.amount("amount") ?? 0;
+      const currency = reader.currency("currency") ?? pledgeData?.currency ?? "USD";
+      const paymentDate = reader.date("paymentDate");
+      const exchangeRate = await resolveRate(reader, rateFor, currency, paymentDate);
+      const referenceNumber = reader.text("referenceNumber");
+
+      const amountInPledgeCurrency =
+        !pledgeData || !exchangeRate
+          ? null
+          : currency === pledgeData.currency
+            ? amount
+            : convertAmount(amount, exchangeRate, pledgeData.exchangeRate);
+
+      const record: NewPayment = {
+        pledgeId: pledgeId ?? null,
+        amount: moneyString(amount),
+        currency,
+        amountUsd: exchangeRate ? moneyString(toUsd(amount, exchangeRate)) : null,
+        amountInPledgeCurrency:
+          amountInPledgeCurrency === null ? null : moneyString(amountInPledgeCurrency),
+        exchangeRate: exchangeRate ? rateString(exchangeRate) : null,
+        paymentDate: paymentDate ?? "",
+        receivedDate: reader.date("receivedDate") ?? paymentDate ?? null,
+        paymentMethod:
+          reader.choice("paymentMethod", paymentMethodEnum.enumValues) ?? "other",
+        methodDetail: reader.text("methodDetail") ?? null,
+        paymentStatus:
+          reader.choice("paymentStatus", paymentStatusEnum.enumValues) ?? "completed",
+        referenceNumber: referenceNumber ?? null,
+        checkNumber: reader.text("checkNumber") ?? null,
+        notes: reader.text("notes") ?? null,
+      };
+
+      const duplicates: DuplicateRef[] = [];
+      const key = paymentKey(pledgeId ?? 0, paymentDate ?? "", amount);
+      const savedId =
+        existing.get(key) ?? (referenceNumber ? references.get(referenceNumber) : undefined);
+      if (savedId) {
+        duplicates.push({ label: `Payment ${savedId}`, recordId: savedId, rowNumber: null });
+      }
+      const fileKeys = [key, referenceNumber && `ref:${referenceNumber}`].filter(
+        (fileKey): fileKey is string => !!fileKey
+      );
+      const earlier = fileKeys.map((fileKey) => inFile.get(fileKey)).find(Boolean);
+      if (earlier) {
+        duplicates.push({ label: `Row ${earlier}`, recordId: null, rowNumber: earlier });
+      } else if (reader.errors.length === 0) {
+        for (const fileKey of fileKeys) inFile.set(fileKey, row.rowNumber);
+      }
+
+      prepared.push(
+        finish(
+          row,
+          reader,
+          `Pledge ${pledgeId ?? "?"}: ${paymentDate ?? "?"} ${amount.toFixed(2)} ${currency}`,
+          duplicates,
+          record
+        )
+      );
+    }
+    return prepared;
+  },
+
+  // As a single payment from the payment form: the bonus and the pledge and
+  // plan totals follow it
+  async create(record, executor) {
+    const [created] = await executor.insert(payment).values(record).returning();
+    const bonusSync = await syncPaymentBonus(created.id, executor);
+    await updateLedgerTotals(
+      await getPaymentLedgerTargets(created.id, executor),
+      executor
+    );
+    const [contactRow] = await executor
+      .select({ contactId: pledge.contactId })
+      .from(pledge)
+      .where(eq(pledge.id, created.pledgeId!));
+    return {
+      id: created.id,
+      after: bonusSync?.payment ?? created,
+      contactId: contactRow?.contactId ?? null,
+      bonusSync,
+    };
+  },
+};
+
+export const IMPORT_HANDLERS: {
+  [K in ImportKind]: ImportHandler<unknown>;
+} = {
+  contact: contactHandler as ImportHandler<unknown>,
+  pledge: pledgeHandler as ImportHandler<unknown>,
+  payment: paymentHandler as ImportHandler<unknown>,
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { parseAmount, parseDate, readSheet, SheetError } from "./sheet";
+
+const csv = (text: string) =>
+  readSheet(new TextEncoder().encode(text).buffer as ArrayBuffer);
+
+describe("parseAmount", () => {
+  it("reads amounts as spreadsheets write them", () => {
+    expect(parseAmount("$1,200.50")).toBe(1200.5);
+    expect(parseAmount(" 1200.5 ")).toBe(1200.5);
+    expect(parseAmount("-25")).toBe(-25);
+  });
+
+  it("is null for anything else", () => {
+    expect(parseAmount("")).toBeNull();
+    expect(parseAmount("twelve")).toBeNull();
+  });
+});
+
+describe("parseDate", () => {
+  it("reads ISO and US dates", () => {
+    expect(parseDate("2024-01-31")).toBe("2024-01-31");
+    expect(parseDate("1/5/2024")).toBe("2024-01-05");
+  });
+
+  it("is null for dates that do not exist", () => {
+    expect(parseDate("2024-02-30")).toBeNull();
+    expect(parseDate("13/1/2024")).toBeNull();
+    expect(parseDate("31.01.2024")).toBeNull();
+  });
+});
+
+describe("readSheet", () => {
+  it("reads rows by header, numbered as in the file", () => {
+    const sheet = csv("First name,Zip,\nDana,07701,\n,,\nEli,10001,x\n");
+    expect(sheet.headers).toEqual(["First name", "Zip"]);
+    expect(sheet.rows).toEqual([
+      { rowNumber: 2, values: { "First name": "Dana", Zip: "07701" } },
+      { rowNumber: 4, values: { "First name": "Eli", Zip: "10001" } },
+    ]);
+  });
+
+  it("needs a header row", () => {
+    expect(() => csv(",,\nDana,Donor\n")).toThrow(SheetError);
+  });
+});
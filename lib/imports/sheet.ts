@@ -0,0 +1,97 @@
+import * as XLSX from "xlsx";
+
+export interface SheetRow {
+  // As numbered in the spreadsheet, the header being row 1
+  rowNumber: number;
+  // Cell text by column header; blank cells are ""
+  values: Record<string, string>;
+}
+
+export interface Sheet {
+  headers: string[];
+  rows: SheetRow[];
+}
+
+export class SheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SheetError";
+  }
+}
+
+// Larger files should be split; every row is validated in one request
+export const MAX_IMPORT_ROWS = 5000;
+
+// "$1,200.50", "1200.5" and "-25" alike; null when it is not a number
+export function parseAmount(value: string): number | null {
+  const amount = Number(value.replace(/[$,\s]/g, ""));
+  return value.trim() && isFinite(amount) ? amount : null;
+}
+
+// YYYY-MM-DD, or M/D/YYYY as US spreadsheets write it; null when it is not
+// a real date
+export function parseDate(value: string): string | null {
+  const us = value.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const iso = us
+    ? `${us[3]}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}`
+    : value.trim();
+  const parsed = new Date(`${iso}T00:00:00Z`);
+  return /^\d{4}-\d{2}-\d{2}$/.test(iso) &&
+    !isNaN(parsed.getTime()) &&
+    parsed.toISOString().slice(0, 10) === iso
+    ? iso
+    : null;
+}
+
+function cellText(value: unknown): string {
+  if (value instanceof Date) {
+    // Spreadsheet dates have no zone; xlsx reads them as local midnight
+    const local = new Date(value.getTime() - value.getTimezoneOffset() * 60000);
+    return local.toISOString().slice(0, 10);
+  }
+  return value === null || value === undefined ? "" : String(value).trim();
+}
+
+// Reads the first sheet of a CSV or XLSX file. The first row holds the
+// column headers; rows with no values are skipped.
+export function readSheet(data: ArrayBuffer): Sheet {
+  let workbook: XLSX.WorkBook;
+  try {
+    // raw: CSV cells stay text, so "07701" keeps its zero; typed XLSX cells
+    // are unaffected
+    workbook = XLSX.read(data, { type: "array", cellDates: true, raw: true });
+  } catch {
+    throw new SheetError("The file is not a readable CSV or XLSX file");
+  }
+
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) throw new SheetError("The file has no sheets");
+  const cells = XLSX.utils.sheet_to_json<unknown[]>(
+    workbook.Sheets[sheetName],
+    { header: 1, defval: "", blankrows: true }
+  );
+
+  const [headerRow, ...body] = cells;
+  const headers = (headerRow ?? []).map(cellText);
+  if (headers.every((header) => !header)) {
+    throw new SheetError("The first row must hold the column headers");
+  }
+  if (body.length > MAX_IMPORT_ROWS) {
+    throw new SheetError(
+      `The file has ${body.length} rows; import at most ${MAX_IMPORT_ROWS} at a time`
+    );
+  }
+
+  const rows = body
+    .map((cellsOfRow, i) => ({
+      rowNumber: i + 2,
+      values: Object.fromEntries(
+        headers
+          .map((header, column) => [header, cellText(cellsOfRow[column])])
+          .filter(([header]) => header)
+      ),
+    }))
+    .filter((row) => Object.values(row.values).some(Boolean));
+
+  return { headers: headers.filter(Boolean), rows };
+}
@@ -0,0 +1,240 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq, sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { db } from "@/lib/db";
+import {
+  contact,
+  installmentSchedule,
+  payment,
+  paymentPlan,
+  pledge,
+} from "@/lib/db/schema";
+import {
+  addFrequency,
+  calculateInstallmentDates,
+  runInstallmentEngine,
+} from "./installments";
+
+let pledgeId: number;
+let planId: number;
+let installmentIds: number[];
+
+async function addPlan(values: Partial<typeof paymentPlan.$inferInsert> = {}) {
+  const [plan] = await db
+    .insert(paymentPlan)
+    .values({
+      pledgeId,
+      frequency: "monthly",
+      totalPlannedAmount: "200.00",
+      currency: "USD",
+      installmentAmount: "100.00",
+      numberOfInstallments: 2,
+      startDate: "2025-01-01",
+      nextPaymentDate: "2025-01-01",
+      remainingAmount: "200.00",
+      ...values,
+    })
+    .returning();
+  const installments = await db
+    .insert(installmentSchedule)
+    .values(
+      ["2025-01-01", "2025-02-01"].map((installmentDate) => ({
+        paymentPlanId: plan.id,
+        installmentDate,
+        installmentAmount: "100.00",
+        currency: "USD" as const,
+      }))
+    )
+    .returning();
+  return { planId: plan.id, installmentIds: installments.map((row) => row.id) };
+}
+
+async function payInstallment(installmentScheduleId: number, paymentDate: string) {
+  await db.insert(payment).values({
+    pledgeId,
+    paymentPlanId: planId,
+    installmentScheduleId,
+    amount: "100.00",
+    amountUsd: "100.00",
+    amountInPledgeCurrency: "100.00",
+    currency: "USD",
+    paymentDate,
+    paymentMethod: "check",
+  });
+}
+
+const statuses = async () =>
+  (
+    await db
+      .select()
+      .from(installmentSchedule)
+      .where(eq(installmentSchedule.paymentPlanId, planId))
+      .orderBy(installmentSchedule.installmentDate)
+  ).map((row) => [row.installmentDate, row.status]);
+
+async function storedPlan() {
+  const [plan] = await db.select().from(paymentPlan).where(eq(paymentPlan.id, planId));
+  return plan;
+}
+
+beforeEach(async () => {
+  await db.execute(sql`TRUNCATE ${contact}, ${pledge} RESTART IDENTITY CASCADE`);
+  const [donor] = await db
+    .insert(contact)
+    .values({ firstName: "Dana", lastName: "Donor" })
+    .returning();
+  [{ id: pledgeId }] = await db
+    .insert(pledge)
+    .values({
+      contactId: donor.id,
+      pledgeDate: "2025-01-01",
+      originalAmount: "200.00",
+      balance: "200.00",
+    })
+    .returning();
+  ({ planId, installmentIds } = await addPlan());
+});
+
+describe("addFrequency", () => {
+  it("steps a date by the plan's period", () => {
+    expect(addFrequency("2025-01-15", "weekly", 2)).toBe("2025-01-29");
+    expect(addFrequency("2025-01-15", "quarterly", 1)).toBe("2025-04-15");
+    expect(addFrequency("2025-01-15", "annual", 1)).toBe("2026-01-15");
+  });
+
+  it("keeps the date of plans without a period", () => {
+    expect(addFrequency("2025-01-15", "one_time", 3)).toBe("2025-01-15");
+    expect(addFrequency("2025-01-15", "custom", 3)).toBe("2025-01-15");
+  });
+
+  it("lays out a plan's installment dates", () => {
+    expect(calculateInstallmentDates("2025-11-01", "monthly", 3)).toEqual([
+      "2025-11-01",
+      "2025-12-01",
+      "2026-01-01",
+    ]);
+  });
+});
+
+describe("runInstallmentEngine", () => {
+  it("flags past-due installments and their plan as overdue", async () => {
+    const report = await runInstallmentEngine({ asOf: "2025-01-15" });
+    expect(report.plans).toEqual([
+      expect.objectContaining({
+        paymentPlanId: planId,
+        planStatus: "overdue",
+        nextPaymentDate: "2025-01-01",
+        installmentsOverdue: [installmentIds[0]],
+      }),
+    ]);
+    expect(await statuses()).toEqual([
+      ["2025-01-01", "overdue"],
+      ["2025-02-01", "pending"],
+    ]);
+    expect((await storedPlan()).planStatus).toBe("overdue");
+  });
+
+  it("settles paid installments and moves the next payment date on", async () => {
+    await runInstallmentEngine({ asOf: "2025-01-15" });
+    await payInstallment(installmentIds[0], "2025-01-20");
+
+    await runInstallmentEngine({ asOf: "2025-01-25" });
+    expect(await statuses()).toEqual([
+      ["2025-01-01", "paid"],
+      ["2025-02-01", "pending"],
+    ]);
+    expect(await storedPlan()).toMatchObject({
+      planStatus: "active",
+      nextPaymentDate: "2025-02-01",
+      installmentsPaid: 1,
+    });
+  });
+
+  it("does not count a pending payment", async () => {
+    await db.insert(payment).values({
+      pledgeId,
+      paymentPlanId: planId,
+      installmentScheduleId: installmentIds[0],
+      amount: "100.00",
+      currency: "USD",
+      paymentDate: "2025-01-01",
+      paymentMethod: "check",
+      paymentStatus: "pending",
+    });
+    await runInstallmentEngine({ asOf: "2025-01-15" });
+    expect((await statuses())[0]).toEqual(["2025-01-01", "overdue"]);
+  });
+
+  it("completes a fully paid plan", async () => {
+    await payInstallment(installmentIds[0], "2025-01-01");
+    await payInstallment(installmentIds[1], "2025-02-01");
+
+    await runInstallmentEngine({ asOf: "2025-02-10" });
+    expect(await storedPlan()).toMatchObject({
+      planStatus: "completed",
+      nextPaymentDate: null,
+      remainingAmount: "0.00",
+    });
+  });
+
+  it("renews a fully paid autoRenew plan for another cycle", async () => {
+    await db
+      .update(paymentPlan)
+      .set({ autoRenew: true })
+      .where(eq(paymentPlan.id, planId));
+    await payInstallment(installmentIds[0], "2025-01-01");
+    await payInstallment(installmentIds[1], "2025-02-01");
+
+    const report = await runInstallmentEngine({ asOf: "2025-02-10" });
+    expect(report.plans[0].renewedInstallments).toBe(2);
+    expect(await statuses()).toEqual([
+      ["2025-01-01", "paid"],
+      ["2025-02-01", "paid"],
+      ["2025-03-01", "pending"],
+      ["2025-04-01", "pending"],
+    ]);
+    expect(await storedPlan()).toMatchObject({
+      planStatus: "active",
+      nextPaymentDate: "2025-03-01",
+      cycleStartDate: "2025-03-01",
+      numberOfInstallments: 4,
+      totalPlannedAmount: "400.00",
+    });
+    const scheduled = await db
+      .select()
+      .from(payment)
+      .where(eq(payment.paymentStatus, "pending"));
+    expect(scheduled.map((row) => row.paymentDate)).toEqual(["2025-03-01", "2025-04-01"]);
+  });
+
+  it("reopens an overdue installment moved to a later date", async () => {
+    await runInstallmentEngine({ asOf: "2025-01-15" });
+    await db
+      .update(installmentSchedule)
+      .set({ installmentDate: "2025-01-20" })
+      .where(eq(installmentSchedule.id, installmentIds[0]));
+
+    const report = await runInstallmentEngine({ asOf: "2025-01-16" });
+    expect(report.plans[0].installmentsReopened).toEqual([installmentIds[0]]);
+    expect((await storedPlan()).planStatus).toBe("active");
+  });
+
+  it("writes nothing on a dry run", async () => {
+    const report = await runInstallmentEngine({ asOf: "2025-01-15", dryRun: true });
+    expect(report.plans[0].planStatus).toBe("overdue");
+    expect((await statuses())[0]).toEqual(["2025-01-01", "pending"]);
+    expect((await storedPlan()).planStatus).toBe("active");
+  });
+
+  it("leaves paused plans alone", async () => {
+    await db
+      .update(paymentPlan)
+      .set({ planStatus: "paused" })
+      .where(eq(paymentPlan.id, planId));
+    const report = await runInstallmentEngine({ asOf: "2025-03-01" });
+    expect(report).toMatchObject({ checkedPlans: 0, plans: [] });
+    expect((await statuses())[0]).toEqual(["2025-01-01", "pending"]);
+  });
+});
@@ -0,0 +1,461 @@
+import { and, desc, eq, inArray, isNull, lt } from "drizzle-orm";
+import { db, txDb, type DbExecutor } from "@/lib/db";
+import {
+  installmentSchedule,
+  payment,
+  paymentAllocations,
+  paymentPlan,
+  type InstallmentSchedule,
+  type NewPayment,
+  type PaymentPlan,
+} from "@/lib/db/schema";
+import { getPaymentPlanContactId, recordAudit } from "@/lib/audit";
+import type { SessionUser } from "@/lib/auth/guard";
+import { moneyString, toNumber, toUsd } from "@/lib/currency";
+import { updatePaymentPlanTotals } from "@/lib/pledge-totals";
+
+export type PlanFrequency = PaymentPlan["frequency"];
+
+// A payment against an installment settles it once completed.
+const PAID_STATUS = "completed";
+
+// Plans the engine maintains; paused, cancelled and completed plans are left
+// alone.
+const RUNNING_PLAN_STATUSES = ["active", "overdue"] as const;
+
+const STEPPED_FREQUENCIES: Partial<
+  Record<PlanFrequency, { months: number; days: number }>
+> = {
+  weekly: { months: 0, days: 7 },
+  monthly: { months: 1, days: 0 },
+  quarterly: { months: 3, days: 0 },
+  biannual: { months: 6, days: 0 },
+  annual: { months: 12, days: 0 },
+};
+
+export function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+// Moves a YYYY-MM-DD date on by `steps` periods of the frequency. One-time
+// and custom plans have no period and keep the date.
+export function addFrequency(
+  date: string,
+  frequency: PlanFrequency,
+  steps: number
+): string {
+  const step = STEPPED_FREQUENCIES[frequency];
+  if (!step) return date;
+
+  const next = new Date(`${date}T00:00:00Z`);
+  if (step.months) next.setUTCMonth(next.getUTCMonth() + step.months * steps);
+  if (step.days) next.setUTCDate(next.getUTCDate() + step.days * steps);
+  return next.toISOString().split("T")[0];
+}
+
+export function calculateInstallmentDates(
+  startDate: string,
+  frequency: PlanFrequency,
+  numberOfInstallments: number
+): string[] {
+  return Array.from({ length: numberOfInstallments }, (_, i) =>
+    addFrequency(startDate, frequency, i)
+  );
+}
+
+export interface PlanRunResult {
+  paymentPlanId: number;
+  planStatus: PaymentPlan["planStatus"];
+  nextPaymentDate: string | null;
+  installmentsPaid: number[];
+  installmentsOverdue: number[];
+  installmentsReopened: number[];
+  renewedInstallments: number;
+  error?: string;
+}
+
+export interface InstallmentRunReport {
+  asOf: string;
+  dryRun: boolean;
+  checkedPlans: number;
+  plans: PlanRunResult[];
+}
+
+export interface InstallmentRunOptions {
+  // Installments dated before this day are overdue. Defaults to today.
+  asOf?: string;
+  paymentPlanId?: number;
+  // Work everything out but roll it back.
+  dryRun?: boolean;
+  // Staff user credited with the changes in the audit log.
+  user?: SessionUser | null;
+}
+
+class DryRunRollback extends Error {
+  constructor(public result: PlanRunResult) {
+    super("Dry run");
+  }
+}
+
+// The earliest completed payment that pays each installment, either directly
+// or through a split-payment allocation. Refunds, fully refunded payments and
+// payments in the trash pay nothing.
+async function getInstallmentPayments(
+  installmentIds: number[],
+  executor: DbExecutor
+): Promise<Map<number, { paymentId: number; paymentDate: string }>> {
+  const paid = new Map<number, { paymentId: number; paymentDate: string }>();
+  if (installmentIds.length === 0) return paid;
+  const notRefunded = and(
+    isNull(payment.refundOfPaymentId),
+    lt(payment.refundedAmount, payment.amount),
+    isNull(payment.deletedAt)
+  );
+
+  const direct = await executor
+    .select({
+      installmentId: payment.installmentScheduleId,
+      paymentId: payment.id,
+      paymentDate: payment.paymentDate,
+    })
+    .from(payment)
+    .where(
+      and(
+        inArray(payment.installmentScheduleId, installmentIds),
+        eq(payment.paymentStatus, PAID_STATUS),
+        notRefunded
+      )
+    );
+
+  const allocated = await executor
+    .select({
+      installmentId: paymentAllocations.installmentScheduleId,
+      paymentId: payment.id,
+      paymentDate: payment.paymentDate,
+    })
+    .from(paymentAllocations)
+    .innerJoin(payment, eq(paymentAllocations.paymentId, payment.id))
+    .where(
+      and(
+        inArray(paymentAllocations.installmentScheduleId, installmentIds),
+        eq(payment.paymentStatus, PAID_STATUS),
+        notRefunded
+      )
+    );
+
+  for (const row of [...direct, ...allocated]) {
+    if (row.installmentId === null) continue;
+    const current = paid.get(row.installmentId);
+    if (!current || row.paymentDate < current.paymentDate) {
+      paid.set(row.installmentId, {
+        paymentId: row.paymentId,
+        paymentDate: row.paymentDate,
+      });
+    }
+  }
+  return paid;
+}
+
+// Appends the next cycle to a fully paid autoRenew plan: the current cycle's
+// installments again, continuing at the plan's frequency (or a year later for
+// one-time and custom plans), each with a pending scheduled payment like the
+// ones created with the plan.
+async function renewPlan(
+  plan: PaymentPlan,
+  installments: InstallmentSchedule[],
+  executor: DbExecutor
+): Promise<InstallmentSchedule[]> {
+  const cycleStart = plan.cycleStartDate ?? plan.startDate;
+  const cycle = installments.filter(
+    (installment) =>
+      installment.installmentDate >= cycleStart &&
+      installment.status !== "cancelled"
+  );
+  if (cycle.length === 0) return [];
+
+  const stepped = plan.frequency in STEPPED_FREQUENCIES;
+  const lastDate = cycle[cycle.length - 1].installmentDate;
+  const dates = cycle.map((installment, i) =>
+    stepped
+      ? addFrequency(lastDate, plan.frequency, i + 1)
+      : addFrequency(installment.installmentDate, "annual", 1)
+  );
+
+  const created = await executor
+    .insert(installmentSchedule)
+    .values(
+      cycle.map((installment, i) => ({
+        paymentPlanId: plan.id,
+        installmentDate: dates[i],
+        installmentAmount: installment.installmentAmount,
+        currency: installment.currency,
+        notes: installment.notes,
+      }))
+    )
+    .returning();
+
+  const [lastScheduled] = await executor
+    .select({
+      paymentMethod: payment.paymentMethod,
+      methodDetail: payment.methodDetail,
+    })
+    .from(payment)
+    .where(eq(payment.paymentPlanId, plan.id))
+    .orderBy(desc(payment.paymentDate))
+    .limit(1);
+
+  await executor.insert(payment).values(
+    created.map(
+      (installment): NewPayment => ({
+        pledgeId: plan.pledgeId,
+        paymentPlanId: plan.id,
+        installmentScheduleId: installment.id,
+        amount: installment.installmentAmount,
+        currency: installment.currency,
+        amountUsd: plan.exchangeRate
+          ? moneyString(toUsd(installment.installmentAmount, plan.exchangeRate))
+          : null,
+        amountInPledgeCurrency: installment.installmentAmount,
+        exchangeRate: plan.exchangeRate,
+        paymentDate: installment.installmentDate,
+        paymentMethod: lastScheduled?.paymentMethod ?? "other",
+        methodDetail: lastScheduled?.methodDetail ?? null,
+        paymentStatus: "pending",
+        receiptIssued: false,
+      })
+    )
+  );
+
+  const cycleTotal = created.reduce(
+    (sum, installment) => sum + toNumber(installment.installmentAmount),
+    0
+  );
+
+  await executor
+    .update(paymentPlan)
+    .set({
+      totalPlannedAmount: moneyString(
+        toNumber(plan.totalPlannedAmount) + cycleTotal
+      ),
+      numberOfInstallments: plan.numberOfInstallments + created.length,
+      cycleStartDate: created[0].installmentDate,
+      endDate: created[created.length - 1].installmentDate,
+      updatedAt: new Date(),
+    })
+    .where(eq(paymentPlan.id, plan.id));
+
+  return created;
+}
+
+// Brings one plan's installments and status in line with its payments and
+// the date. Returns what changed.
+export async function advancePaymentPlan(
+  plan: PaymentPlan,
+  asOf: string,
+  executor: DbExecutor = db
+): Promise<PlanRunResult> {
+  const result: PlanRunResult = {
+    paymentPlanId: plan.id,
+    planStatus: plan.planStatus,
+    nextPaymentDate: plan.nextPaymentDate,
+    installmentsPaid: [],
+    installmentsOverdue: [],
+    installmentsReopened: [],
+    renewedInstallments: 0,
+  };
+
+  const installments = await executor
+    .select()
+    .from(installmentSchedule)
+    .where(eq(installmentSchedule.paymentPlanId, plan.id))
+    .orderBy(installmentSchedule.installmentDate, installmentSchedule.id);
+
+  const open = installments.filter(
+    (installment) =>
+      installment.status === "pending" || installment.status === "overdue"
+  );
+  const paidBy = await getInstallmentPayments(
+    open.map((installment) => installment.id),
+    executor
+  );
+
+  for (const installment of open) {
+    const paid = paidBy.get(installment.id);
+    let change: Partial<InstallmentSchedule> | null = null;
+
+    if (paid) {
+      change = {
+        status: "paid",
+        paidDate: paid.paymentDate,
+        paymentId: paid.paymentId,
+      };
+      result.installmentsPaid.push(installment.id);
+    } else if (
+      installment.status === "pending" &&
+      installment.installmentDate < asOf
+    ) {
+      change = { status: "overdue" };
+      result.installmentsOverdue.push(installment.id);
+    } else if (
+      installment.status === "overdue" &&
+      installment.installmentDate >= asOf
+    ) {
+      // The installment was moved to a later date
+      change = { status: "pending" };
+      result.installmentsReopened.push(installment.id);
+    }
+
+    if (change) {
+      await executor
+        .update(installmentSchedule)
+        .set({ ...change, updatedAt: new Date() })
+        .where(eq(installmentSchedule.id, installment.id));
+      Object.assign(installment, change);
+    }
+  }
+
+  await updatePaymentPlanTotals(plan.id, executor);
+  let [current] = await executor
+    .select()
+    .from(paymentPlan)
+    .where(eq(paymentPlan.id, plan.id))
+    .limit(1);
+
+  let remaining = installments.filter(
+    (installment) =>
+      installment.status === "pending" || installment.status === "overdue"
+  );
+  const fullyPaid =
+    remaining.length === 0 || toNumber(current.remainingAmount) <= 0;
+
+  if (fullyPaid && current.autoRenew) {
+    const created = await renewPlan(current, installments, executor);
+    result.renewedInstallments = created.length;
+    if (created.length > 0) {
+      remaining = created;
+      await updatePaymentPlanTotals(plan.id, executor);
+      [current] = await executor
+        .select()
+        .from(paymentPlan)
+        .where(eq(paymentPlan.id, plan.id))
+        .limit(1);
+    }
+  }
+
+  let planStatus: PaymentPlan["planStatus"];
+  let nextPaymentDate: string | null;
+  if (fullyPaid && result.renewedInstallments === 0) {
+    planStatus = "completed";
+    nextPaymentDate = null;
+  } else {
+    planStatus = remaining.some((installment) => installment.status === "overdue")
+      ? "overdue"
+      : "active";
+    nextPaymentDate = remaining[0]?.installmentDate ?? null;
+  }
+
+  if (
+    planStatus !== current.planStatus ||
+    nextPaymentDate !== current.nextPaymentDate
+  ) {
+    await executor
+      .update(paymentPlan)
+      .set({ planStatus, nextPaymentDate, updatedAt: new Date() })
+      .where(eq(paymentPlan.id, plan.id));
+  }
+
+  result.planStatus = planStatus;
+  result.nextPaymentDate = nextPaymentDate;
+  return result;
+}
+
+function hasChanges(plan: PaymentPlan, result: PlanRunResult) {
+  return (
+    result.planStatus !== plan.planStatus ||
+    result.nextPaymentDate !== plan.nextPaymentDate ||
+    result.installmentsPaid.length > 0 ||
+    result.installmentsOverdue.length > 0 ||
+    result.installmentsReopened.length > 0 ||
+    result.renewedInstallments > 0
+  );
+}
+
+// Advances every running plan (or one plan): settles paid installments, flags
+// overdue ones, moves nextPaymentDate to the earliest open installment,
+// completes fully paid plans and renews autoRenew plans. Each plan runs in its
+// own transaction, so one failure does not hold up the rest.
+export async function runInstallmentEngine(
+  options: InstallmentRunOptions = {}
+): Promise<InstallmentRunReport> {
+  const { paymentPlanId, dryRun = false, user = null } = options;
+  const asOf = options.asOf ?? today();
+
+  const plans = await db
+    .select()
+    .from(paymentPlan)
+    .where(
+      and(
+        inArray(paymentPlan.planStatus, [...RUNNING_PLAN_STATUSES]),
+        eq(paymentPlan.isActive, true),
+        isNull(paymentPlan.deletedAt),
+        paymentPlanId ? eq(paymentPlan.id, paymentPlanId) : undefined
+      )
+    )
+    .orderBy(paymentPlan.id);
+
+  const report: InstallmentRunReport = {
+    asOf,
+    dryRun,
+    checkedPlans: plans.length,
+    plans: [],
+  };
+
+  for (const plan of plans) {
+    let result: PlanRunResult;
+    try {
+      result = await txDb.transaction(async (tx) => {
+        const planResult = await advancePaymentPlan(plan, asOf, tx);
+        if (dryRun) throw new DryRunRollback(planResult);
+        return planResult;
+      });
+    } catch (error) {
+      if (error instanceof DryRunRollback) {
+        result = error.result;
+      } else {
+        console.error(`Error advancing payment plan ${plan.id}:`, error);
+        report.plans.push({
+          paymentPlanId: plan.id,
+          planStatus: plan.planStatus,
+          nextPaymentDate: plan.nextPaymentDate,
+          installmentsPaid: [],
+          installmentsOverdue: [],
+          installmentsReopened: [],
+          renewedInstallments: 0,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+    }
+
+    if (!hasChanges(plan, result)) continue;
+    report.plans.push(result);
+
+    if (!dryRun) {
+      const [updated] = await db
+        .select()
+        .from(paymentPlan)
+        .where(eq(paymentPlan.id, plan.id))
+        .limit(1);
+      await recordAudit(user, {
+        table: paymentPlan,
+        recordId: plan.id,
+        action: "update",
+        before: plan,
+        after: updated,
+        contactId: await getPaymentPlanContactId(plan.id),
+      });
+    }
+  }
+
+  return report;
+}
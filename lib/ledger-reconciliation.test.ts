@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq, sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { db } from "@/lib/db";
+import {
+  auditLog,
+  contact,
+  payment,
+  paymentAllocations,
+  paymentPlan,
+  pledge,
+} from "@/lib/db/schema";
+import { reconcileLedger, type ReconciliationReport } from "./ledger-reconciliation";
+
+let contactId: number;
+let pledgeId: number;
+
+async function addPledge(values: Partial<typeof pledge.$inferInsert> = {}) {
+  const [created] = await db
+    .insert(pledge)
+    .values({
+      contactId,
+      pledgeDate: "2025-01-01",
+      originalAmount: "1000.00",
+      originalAmountUsd: "1000.00",
+      totalPaid: "0",
+      totalPaidUsd: "0",
+      balance: "1000.00",
+      balanceUsd: "1000.00",
+      ...values,
+    })
+    .returning();
+  return created.id;
+}
+
+async function addPayment(values: Partial<typeof payment.$inferInsert> = {}) {
+  const [created] = await db
+    .insert(payment)
+    .values({
+      pledgeId,
+      amount: "100.00",
+      amountUsd: "100.00",
+      amountInPledgeCurrency: "100.00",
+      currency: "USD",
+      paymentDate: "2025-02-01",
+      paymentMethod: "check",
+      ...values,
+    })
+    .returning();
+  return created.id;
+}
+
+const fields = (report: ReconciliationReport) =>
+  report.discrepancies.map(({ table, recordId, field, stored, expected }) => [
+    table,
+    recordId,
+    field,
+    stored,
+    expected,
+  ]);
+
+beforeEach(async () => {
+  await db.execute(
+    sql`TRUNCATE ${contact}, ${pledge}, ${payment}, ${auditLog} RESTART IDENTITY CASCADE`
+  );
+  [{ id: contactId }] = await db
+    .insert(contact)
+    .values({ firstName: "Dana", lastName: "Donor" })
+    .returning();
+  pledgeId = await addPledge();
+});
+
+describe("reconcileLedger", () => {
+  it("reports totals that drifted from the completed payments", async () => {
+    await addPayment();
+    await addPayment({ paymentStatus: "pending" });
+    await addPayment({ deletedAt: new Date() });
+
+    const report = await reconcileLedger();
+    expect(report).toMatchObject({ checkedPledges: 1, repaired: false });
+    expect(fields(report)).toEqual([
+      ["pledge", pledgeId, "totalPaid", "0.00", "100.00"],
+      ["pledge", pledgeId, "totalPaidUsd", "0.00", "100.00"],
+      ["pledge", pledgeId, "balance", "1000.00", "900.00"],
+      ["pledge", pledgeId, "balanceUsd", "1000.00", "900.00"],
+    ]);
+    const [stored] = await db.select().from(pledge).where(eq(pledge.id, pledgeId));
+    expect(stored.totalPaid).toBe("0.00");
+  });
+
+  it("counts what split payments allocate to the pledge", async () => {
+    const other = await addPledge();
+    const split = await addPayment({
+      pledgeId: other,
+      amount: "300.00",
+      amountUsd: "300.00",
+    });
+    await db.insert(paymentAllocations).values({
+      paymentId: split,
+      pledgeId,
+      allocatedAmount: "200.00",
+      allocatedAmountUsd: "200.00",
+      currency: "USD",
+    });
+
+    const report = await reconcileLedger({ pledgeId });
+    expect(report.checkedPledges).toBe(1);
+    expect(fields(report)).toContainEqual([
+      "pledge",
+      pledgeId,
+      "balance",
+      "1000.00",
+      "800.00",
+    ]);
+  });
+
+  it("repairs what differs and audits it", async () => {
+    await addPayment();
+    const repaired = await reconcileLedger({ repair: true });
+    expect(repaired.repaired).toBe(true);
+
+    const [stored] = await db.select().from(pledge).where(eq(pledge.id, pledgeId));
+    expect(stored).toMatchObject({ totalPaid: "100.00", balance: "900.00" });
+    const audits = await db
+      .select()
+      .from(auditLog)
+      .where(eq(auditLog.tableName, "pledge"));
+    expect(audits).not.toEqual([]);
+    expect((await reconcileLedger()).discrepancies).toEqual([]);
+  });
+
+  it("reconciles payment plans with their installments paid", async () => {
+    const [plan] = await db
+      .insert(paymentPlan)
+      .values({
+        pledgeId,
+        frequency: "monthly",
+        totalPlannedAmount: "300.00",
+        currency: "USD",
+        installmentAmount: "100.00",
+        numberOfInstallments: 3,
+        startDate: "2025-01-01",
+        remainingAmount: "300.00",
+      })
+      .returning();
+    await addPayment({ paymentPlanId: plan.id });
+    await addPayment({ paymentPlanId: plan.id, refundedAmount: "100.00" });
+
+    const report = await reconcileLedger({ contactId });
+    expect(report.checkedPaymentPlans).toBe(1);
+    expect(fields(report).filter(([table]) => table === "payment_plan")).toEqual([
+      ["payment_plan", plan.id, "totalPaid", "0.00", "200.00"],
+      ["payment_plan", plan.id, "totalPaidUsd", null, "200.00"],
+      // The refunded payment no longer pays an installment
+      ["payment_plan", plan.id, "installmentsPaid", 0, 1],
+      ["payment_plan", plan.id, "remainingAmount", "300.00", "100.00"],
+    ]);
+  });
+
+  it("checks only the contact it is given", async () => {
+    const [other] = await db
+      .insert(contact)
+      .values({ firstName: "Eli", lastName: "Other" })
+      .returning();
+    const report = await reconcileLedger({ contactId: other.id });
+    expect(report).toMatchObject({ checkedPledges: 0, checkedPaymentPlans: 0 });
+  });
+});
@@ -0,0 +1,147 @@
+import { eq, inArray, type SQL } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { paymentPlan, pledge } from "@/lib/db/schema";
+import { recordAudit } from "@/lib/audit";
+import type { SessionUser } from "@/lib/auth/guard";
+import {
+  computePaymentPlanTotals,
+  computePledgeTotals,
+} from "@/lib/pledge-totals";
+
+export interface LedgerDiscrepancy {
+  table: "pledge" | "payment_plan";
+  recordId: number;
+  contactId: number | null;
+  field: string;
+  stored: string | number | null;
+  expected: string | number;
+}
+
+export interface ReconciliationReport {
+  checkedPledges: number;
+  checkedPaymentPlans: number;
+  discrepancies: LedgerDiscrepancy[];
+  repaired: boolean;
+}
+
+export interface ReconcileOptions {
+  pledgeId?: number;
+  contactId?: number;
+  // Overwrite stored totals with the recomputed values.
+  repair?: boolean;
+  // Staff user credited with repairs in the audit log.
+  user?: SessionUser | null;
+}
+
+function findDifferences(
+  stored: Record<string, unknown>,
+  expected: Record<string, string | number>
+) {
+  return Object.entries(expected)
+    .filter(([field, value]) => {
+      const current = stored[field];
+      return current === null || Number(current) !== Number(value);
+    })
+    .map(([field, value]) => ({
+      field,
+      stored: stored[field] as string | number | null,
+      expected: value,
+    }));
+}
+
+// Recomputes pledge and payment plan totals from completed payments and
+// allocations and compares them with the stored columns. With `repair`, every
+// record that differs is rewritten and the change is audited.
+export async function reconcileLedger(
+  options: ReconcileOptions = {}
+): Promise<ReconciliationReport> {
+  const { pledgeId, contactId, repair = false, user = null } = options;
+
+  let pledgeFilter: SQL | undefined;
+  if (pledgeId) pledgeFilter = eq(pledge.id, pledgeId);
+  else if (contactId) pledgeFilter = eq(pledge.contactId, contactId);
+
+  const pledges = await db.select().from(pledge).where(pledgeFilter);
+  const contactByPledge = new Map(pledges.map((row) => [row.id, row.contactId]));
+  const discrepancies: LedgerDiscrepancy[] = [];
+
+  for (const row of pledges) {
+    const expected = await computePledgeTotals(row);
+    const differences = findDifferences(row, { ...expected });
+    if (differences.length === 0) continue;
+
+    for (const difference of differences) {
+      discrepancies.push({
+        table: "pledge",
+        recordId: row.id,
+        contactId: row.contactId,
+        ...difference,
+      });
+    }
+
+    if (repair) {
+      const [updated] = await db
+        .update(pledge)
+        .set({ ...expected, updatedAt: new Date() })
+        .where(eq(pledge.id, row.id))
+        .returning();
+      await recordAudit(user, {
+        table: pledge,
+        recordId: row.id,
+        action: "update",
+        before: row,
+        after: updated,
+        contactId: row.contactId,
+      });
+    }
+  }
+
+  const plans =
+    pledgeFilter === undefined
+      ? await db.select().from(paymentPlan)
+      : pledges.length > 0
+        ? await db
+            .select()
+            .from(paymentPlan)
+            .where(inArray(paymentPlan.pledgeId, [...contactByPledge.keys()]))
+        : [];
+
+  for (const plan of plans) {
+    const expected = await computePaymentPlanTotals(plan);
+    const differences = findDifferences(plan, { ...expected });
+    if (differences.length === 0) continue;
+
+    const planContactId = contactByPledge.get(plan.pledgeId) ?? null;
+    for (const difference of differences) {
+      discrepancies.push({
+        table: "payment_plan",
+        recordId: plan.id,
+        contactId: planContactId,
+        ...difference,
+      });
+    }
+
+    if (repair) {
+      const [updated] = await db
+        .update(paymentPlan)
+        .set({ ...expected, updatedAt: new Date() })
+        .where(eq(paymentPlan.id, plan.id))
+        .returning();
+      await recordAudit(user, {
+        table: paymentPlan,
+        recordId: plan.id,
+        action: "update",
+        before: plan,
+        after: updated,
+        contactId: planContactId,
+      });
+    }
+  }
+
+  return {
+    checkedPledges: pledges.length,
+    checkedPaymentPlans: plans.length,
+    discrepancies,
+    repaired: repair && discrepancies.length > 0,
+  };
+}
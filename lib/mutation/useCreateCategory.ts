@@ -11,6 +11,7 @@ interface CategoryResponse {
     id: number;
     name: string;
     description?: string;
+    bonusPaymentType: "tuition" | "donation" | null;
     isActive: boolean;
     createdAt: string;
     updatedAt: string;
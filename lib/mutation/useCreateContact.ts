@@ -3,7 +3,10 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { ClientErrorHandler, ApiError } from "@/lib/error-handler";
 
-async function createContact(data: ContactFormValues) {
+// allowDuplicate saves the contact even if it looks like an existing one
+async function createContact(
+  data: ContactFormValues & { allowDuplicate?: boolean }
+) {
   const response = await fetch("/api/contacts", {
     method: "POST",
     headers: {
@@ -29,6 +32,8 @@ export function useCreateContact(
       queryClient.invalidateQueries({ queryKey: ["contacts"] });
     },
     onError: (error: ApiError) => {
+      // The form lists the matches and lets the user decide
+      if (error.type === "POSSIBLE_DUPLICATE") return;
       const errorMessage = ClientErrorHandler.handle(error, setFieldError);
       toast.error(errorMessage);
     },
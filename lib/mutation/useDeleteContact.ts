@@ -0,0 +1,31 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+
+async function deleteContact(contactId: number) {
+  const response = await fetch(`/api/contacts/${contactId}`, {
+    method: "DELETE",
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || error.message || "Failed to delete contact");
+  }
+  return response.json();
+}
+
+// Deleting a contact trashes its pledges and payments too
+export function useDeleteContact() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteContact,
+    onSuccess: () => {
+      toast.success("Contact moved to the trash");
+      queryClient.invalidateQueries({ queryKey: ["contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["pledges"] });
+      queryClient.invalidateQueries({ queryKey: ["payments"] });
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
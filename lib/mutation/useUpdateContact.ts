@@ -0,0 +1,47 @@
+import { ContactFormValues } from "@/components/forms/contact-form";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { FieldPath, UseFormSetError } from "react-hook-form";
+import { toast } from "sonner";
+import { ClientErrorHandler, ApiError } from "@/lib/error-handler";
+
+async function updateContact({
+  contactId,
+  ...data
+}: ContactFormValues & { contactId: number }) {
+  const response = await fetch(`/api/contacts/${contactId}`, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    const error: ApiError = await response.json();
+    throw error;
+  }
+  return response.json();
+}
+
+export function useUpdateContact(
+  setError?: UseFormSetError<ContactFormValues>
+) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: updateContact,
+    onSuccess: (_, { contactId }) => {
+      toast.success("Contact updated successfully!");
+      queryClient.invalidateQueries({ queryKey: ["contact", contactId] });
+      queryClient.invalidateQueries({ queryKey: ["contacts"] });
+    },
+    onError: (error: ApiError) => {
+      // The API names fields by their form path, e.g. "emails.0.email"
+      const errorMessage = ClientErrorHandler.handle(
+        error,
+        setError &&
+          ((field, message) =>
+            setError(field as FieldPath<ContactFormValues>, { message }))
+      );
+      toast.error(errorMessage);
+    },
+  });
+}
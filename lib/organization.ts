@@ -0,0 +1,19 @@
+// The organisation's details as printed on donor-facing documents.
+export interface Organization {
+  name: string;
+  // One entry per line
+  address: string[];
+  taxId: string | null;
+}
+
+// ORGANIZATION_ADDRESS separates lines with "|" or newlines.
+export function getOrganization(): Organization {
+  return {
+    name: process.env.ORGANIZATION_NAME || "Our organization",
+    address: (process.env.ORGANIZATION_ADDRESS ?? "")
+      .split(/\||\\n|\n/)
+      .map((line) => line.trim())
+      .filter(Boolean),
+    taxId: process.env.ORGANIZATION_TAX_ID || null,
+  };
+}
@@ -0,0 +1,110 @@
+// A minimal PDF writer for text documents such as receipts: US Letter pages
+// of Helvetica text and rules, no images or embedded fonts. Text outside
+// Latin-1 is replaced with "?".
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+export interface PdfText {
+  x: number;
+  // Baseline, measured up from the bottom of the page
+  y: number;
+  text: string;
+  size?: number;
+  bold?: boolean;
+  align?: "left" | "right";
+}
+
+export interface PdfRule {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  rules?: PdfRule[];
+}
+
+// Helvetica averages about half an em per character, which is close enough
+// for wrapping and right-aligning short lines.
+export function textWidth(text: string, size: number): number {
+  return text.length * size * 0.5;
+}
+
+export function wrapText(text: string, width: number, size: number): string[] {
+  const maxChars = Math.max(1, Math.floor(width / (size * 0.5)));
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (line && line.length + 1 + word.length > maxChars) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+function contentStream(page: PdfPage): string {
+  const commands: string[] = [];
+  for (const rule of page.rules ?? []) {
+    commands.push(`0.5 w ${rule.x1} ${rule.y1} m ${rule.x2} ${rule.y2} l S`);
+  }
+  for (const item of page.texts) {
+    const size = item.size ?? 10;
+    const x =
+      item.align === "right" ? item.x - textWidth(item.text, size) : item.x;
+    commands.push(
+      `BT /${item.bold ? "F2" : "F1"} ${size} Tf ${x.toFixed(2)} ${item.y} Td (${escapeText(item.text)}) Tj ET`
+    );
+  }
+  return commands.join("\n");
+}
+
+export function renderPdf(pages: PdfPage[]): Buffer {
+  // 1 catalog, 2 page tree, 3-4 fonts, then a page and its content per page
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages
+      .map((_, i) => `${5 + i * 2} 0 R`)
+      .join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ];
+  pages.forEach((page, i) => {
+    const stream = contentStream(page);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`
+    );
+  });
+
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(Buffer.byteLength(output, "latin1"));
+    output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(output, "latin1");
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, "latin1");
+}
@@ -0,0 +1,260 @@
+import { and, eq, isNull, sql } from "drizzle-orm";
+import { db, type DbExecutor } from "@/lib/db";
+import {
+  installmentSchedule,
+  payment,
+  paymentAllocations,
+  paymentPlan,
+  PaymentPlan,
+  pledge,
+  Pledge,
+} from "@/lib/db/schema";
+import { fromUsd, moneyString, toNumber } from "@/lib/currency";
+
+// Only completed payments count toward what has been paid; pending scheduled
+// installments, failed and refunded payments do not. Refunds are completed
+// negative payments, so they net off what their original paid. Payments in
+// the trash count for nothing.
+const PAID_STATUS = "completed";
+
+export interface PledgeTotals {
+  totalPaid: string;
+  totalPaidUsd: string;
+  balance: string;
+  balanceUsd: string;
+}
+
+export interface PaymentPlanTotals {
+  totalPaid: string;
+  totalPaidUsd: string;
+  installmentsPaid: number;
+  remainingAmount: string;
+}
+
+// Derives a pledge's totalPaid, balance and their USD counterparts from its
+// direct payments and split-payment allocations.
+export async function computePledgeTotals(
+  pledgeData: Pledge,
+  executor: DbExecutor = db
+): Promise<PledgeTotals> {
+  const directPayments = await executor
+    .select({
+      totalInPledgeCurrency: sql<number>`COALESCE(SUM(${payment.amountInPledgeCurrency}::numeric), 0)`,
+      totalUsd: sql<number>`COALESCE(SUM(${payment.amountUsd}::numeric), 0)`,
+    })
+    .from(payment)
+    .where(
+      and(
+        eq(payment.pledgeId, pledgeData.id),
+        eq(payment.paymentStatus, PAID_STATUS),
+        isNull(payment.deletedAt)
+      )
+    );
+
+  const allocatedPayments = await executor
+    .select({
+      totalAllocatedUsd: sql<number>`COALESCE(SUM(${paymentAllocations.allocatedAmountUsd}::numeric), 0)`,
+    })
+    .from(paymentAllocations)
+    .innerJoin(payment, eq(paymentAllocations.paymentId, payment.id))
+    .where(
+      and(
+        eq(paymentAllocations.pledgeId, pledgeData.id),
+        eq(payment.paymentStatus, PAID_STATUS),
+        isNull(payment.deletedAt)
+      )
+    );
+
+  const directTotal = Number(directPayments[0].totalInPledgeCurrency || 0);
+  const directTotalUsd = Number(directPayments[0].totalUsd || 0);
+  const allocatedTotalUsd = Number(allocatedPayments[0].totalAllocatedUsd || 0);
+
+  // Allocations are recorded in the payment's currency, so bring them into
+  // the pledge currency through USD
+  const allocatedTotalInPledgeCurrency =
+    pledgeData.currency === "USD"
+      ? allocatedTotalUsd
+      : fromUsd(allocatedTotalUsd, pledgeData.exchangeRate);
+
+  const totalPaid = directTotal + allocatedTotalInPledgeCurrency;
+  const totalPaidUsd = directTotalUsd + allocatedTotalUsd;
+
+  return {
+    totalPaid: moneyString(totalPaid),
+    totalPaidUsd: moneyString(totalPaidUsd),
+    balance: moneyString(
+      Math.max(0, toNumber(pledgeData.originalAmount) - totalPaid)
+    ),
+    balanceUsd: moneyString(
+      Math.max(0, toNumber(pledgeData.originalAmountUsd) - totalPaidUsd)
+    ),
+  };
+}
+
+// Derives a payment plan's totalPaid, installmentsPaid and remainingAmount
+// from the completed payments made against it, either directly or through an
+// allocation to one of its installments.
+export async function computePaymentPlanTotals(
+  plan: PaymentPlan,
+  executor: DbExecutor = db
+): Promise<PaymentPlanTotals> {
+  const directPayments = await executor
+    .select({
+      amount: payment.amount,
+      amountUsd: payment.amountUsd,
+      currency: payment.currency,
+      paymentAmount: payment.amount,
+      refundedAmount: payment.refundedAmount,
+      refundOfPaymentId: payment.refundOfPaymentId,
+    })
+    .from(payment)
+    .where(
+      and(
+        eq(payment.paymentPlanId, plan.id),
+        eq(payment.paymentStatus, PAID_STATUS),
+        isNull(payment.deletedAt)
+      )
+    );
+
+  const allocatedPayments = await executor
+    .select({
+      amount: paymentAllocations.allocatedAmount,
+      amountUsd: paymentAllocations.allocatedAmountUsd,
+      currency: paymentAllocations.currency,
+      paymentAmount: payment.amount,
+      refundedAmount: payment.refundedAmount,
+      refundOfPaymentId: payment.refundOfPaymentId,
+    })
+    .from(paymentAllocations)
+    .innerJoin(
+      installmentSchedule,
+      eq(paymentAllocations.installmentScheduleId, installmentSchedule.id)
+    )
+    .innerJoin(payment, eq(paymentAllocations.paymentId, payment.id))
+    .where(
+      and(
+        eq(installmentSchedule.paymentPlanId, plan.id),
+        eq(payment.paymentStatus, PAID_STATUS),
+        isNull(payment.deletedAt)
+      )
+    );
+
+  const paid = [...directPayments, ...allocatedPayments];
+
+  let totalPaid = 0;
+  let totalPaidUsd = 0;
+  for (const row of paid) {
+    totalPaid +=
+      row.currency === plan.currency
+        ? toNumber(row.amount)
+        : fromUsd(row.amountUsd, plan.exchangeRate);
+    totalPaidUsd += toNumber(row.amountUsd);
+  }
+
+  // A refund does not pay an installment, and a fully refunded payment no
+  // longer does
+  const installmentsPaid = paid.filter(
+    (row) =>
+      row.refundOfPaymentId === null &&
+      toNumber(row.refundedAmount) < toNumber(row.paymentAmount)
+  ).length;
+
+  return {
+    totalPaid: moneyString(totalPaid),
+    totalPaidUsd: moneyString(totalPaidUsd),
+    installmentsPaid,
+    remainingAmount: moneyString(
+      Math.max(0, toNumber(plan.totalPlannedAmount) - totalPaid)
+    ),
+  };
+}
+
+export async function updatePledgeTotals(
+  pledgeId: number,
+  executor: DbExecutor = db
+) {
+  const [pledgeData] = await executor
+    .select()
+    .from(pledge)
+    .where(eq(pledge.id, pledgeId))
+    .limit(1);
+
+  if (!pledgeData) return;
+
+  await executor
+    .update(pledge)
+    .set({ ...(await computePledgeTotals(pledgeData, executor)), updatedAt: new Date() })
+    .where(eq(pledge.id, pledgeId));
+}
+
+export async function updatePaymentPlanTotals(
+  paymentPlanId: number,
+  executor: DbExecutor = db
+) {
+  const [plan] = await executor
+    .select()
+    .from(paymentPlan)
+    .where(eq(paymentPlan.id, paymentPlanId))
+    .limit(1);
+
+  if (!plan) return;
+
+  await executor
+    .update(paymentPlan)
+    .set({ ...(await computePaymentPlanTotals(plan, executor)), updatedAt: new Date() })
+    .where(eq(paymentPlan.id, paymentPlanId));
+}
+
+export interface LedgerTargets {
+  pledgeIds: number[];
+  paymentPlanIds: number[];
+}
+
+// Collects the pledges and plans whose totals depend on a payment. Call it
+// before deleting the payment, since its allocations cascade away with it.
+export async function getPaymentLedgerTargets(
+  paymentId: number,
+  executor: DbExecutor = db
+): Promise<LedgerTargets> {
+  const [paymentData] = await executor
+    .select({
+      pledgeId: payment.pledgeId,
+      paymentPlanId: payment.paymentPlanId,
+    })
+    .from(payment)
+    .where(eq(payment.id, paymentId))
+    .limit(1);
+
+  const allocations = await executor
+    .select({
+      pledgeId: paymentAllocations.pledgeId,
+      paymentPlanId: installmentSchedule.paymentPlanId,
+    })
+    .from(paymentAllocations)
+    .leftJoin(
+      installmentSchedule,
+      eq(paymentAllocations.installmentScheduleId, installmentSchedule.id)
+    )
+    .where(eq(paymentAllocations.paymentId, paymentId));
+
+  const rows = paymentData ? [paymentData, ...allocations] : allocations;
+  const unique = (ids: (number | null)[]) =>
+    [...new Set(ids)].filter((id): id is number => id !== null);
+
+  return {
+    pledgeIds: unique(rows.map((row) => row.pledgeId)),
+    paymentPlanIds: unique(rows.map((row) => row.paymentPlanId)),
+  };
+}
+
+export async function updateLedgerTotals(
+  targets: LedgerTargets,
+  executor: DbExecutor = db
+) {
+  for (const pledgeId of targets.pledgeIds) {
+    await updatePledgeTotals(pledgeId, executor);
+  }
+  for (const paymentPlanId of targets.paymentPlanIds) {
+    await updatePaymentPlanTotals(paymentPlanId, executor);
+  }
+}
@@ -0,0 +1,200 @@
+import { describe, expect, it } from "vitest";
+import { parsePaypalEvent, parseStripeEvent, ProcessorEventError } from "./events";
+
+const stripe = (type: string, object: object) =>
+  parseStripeEvent(JSON.stringify({ id: "evt_1", type, data: { object } }));
+
+const paypal = (eventType: string, resource: object) =>
+  parsePaypalEvent(JSON.stringify({ id: "WH-EV-1", event_type: eventType, resource }));
+
+// 2025-03-01T12:00:00Z
+const created = 1740830400;
+
+describe("parseStripeEvent", () => {
+  const charge = {
+    id: "ch_1",
+    amount: 12550,
+    currency: "usd",
+    created,
+    billing_details: { name: "Dana Lee Donor", email: "dana@example.org" },
+    metadata: { pledge_id: "12", contact_id: "nope" },
+  };
+
+  it("reads a charge as a payment in whole units", () => {
+    expect(stripe("charge.succeeded", charge)).toEqual({
+      eventId: "evt_1",
+      eventType: "charge.succeeded",
+      action: {
+        type: "payment",
+        reference: "ch_1",
+        amount: 125.5,
+        currency: "USD",
+        date: "2025-03-01",
+        status: "completed",
+        donor: {
+          email: "dana@example.org",
+          phone: null,
+          firstName: "Dana Lee",
+          lastName: "Donor",
+        },
+        pledgeId: 12,
+        contactId: null,
+        description: null,
+      },
+    });
+  });
+
+  it("does not divide zero-decimal currencies", () => {
+    const { action } = stripe("charge.pending", { ...charge, currency: "jpy" });
+    expect(action).toMatchObject({ amount: 12550, currency: "JPY", status: "pending" });
+  });
+
+  it("reads the total refunded so far", () => {
+    const { action } = stripe("charge.refunded", {
+      ...charge,
+      amount_refunded: 5000,
+      refunds: { data: [{ id: "re_2", reason: "duplicate", created }] },
+    });
+    expect(action).toEqual({
+      type: "refund",
+      reference: "ch_1",
+      refundReference: "re_2",
+      amount: 50,
+      cumulative: true,
+      date: "2025-03-01",
+      refundType: "refund",
+      reason: "Stripe refund: duplicate",
+    });
+  });
+
+  it("books a dispute only once it is lost", () => {
+    const dispute = { id: "dp_1", charge: "ch_1", amount: 12550, currency: "usd", created };
+    expect(stripe("charge.dispute.created", dispute).action).toMatchObject({
+      type: "dispute",
+      reference: "ch_1",
+      outcome: "opened",
+    });
+    expect(
+      stripe("charge.dispute.closed", { ...dispute, status: "lost" }).action
+    ).toMatchObject({ outcome: "lost", amount: 125.5 });
+    expect(
+      stripe("charge.dispute.closed", { ...dispute, status: "won" }).action
+    ).toMatchObject({ outcome: "won" });
+  });
+
+  it("ignores other events", () => {
+    expect(stripe("customer.created", {}).action).toEqual({
+      type: "ignore",
+      reason: "Stripe customer.created events are not used",
+    });
+  });
+
+  it("refuses what is not a Stripe event", () => {
+    expect(() => parseStripeEvent("not json")).toThrow(ProcessorEventError);
+    expect(() => parseStripeEvent(JSON.stringify({ id: "evt_1" }))).toThrow(
+      "Not a Stripe event"
+    );
+    expect(() => stripe("charge.succeeded", { ...charge, currency: "xyz" })).toThrow(
+      'Unsupported currency "xyz"'
+    );
+  });
+});
+
+describe("parsePaypalEvent", () => {
+  const capture = {
+    id: "CAP-1",
+    amount: { value: "80.00", currency_code: "CAD" },
+    create_time: "2025-03-01T12:00:00Z",
+    custom_id: "pledge_id=7&contact_id=3",
+    invoice_id: "INV-9",
+    payer: {
+      email_address: "dana@example.org",
+      name: { given_name: "Dana", surname: "Donor" },
+    },
+  };
+
+  it("reads a capture as a payment", () => {
+    expect(paypal("PAYMENT.CAPTURE.COMPLETED", capture).action).toEqual({
+      type: "payment",
+      reference: "CAP-1",
+      amount: 80,
+      currency: "CAD",
+      date: "2025-03-01",
+      status: "completed",
+      donor: {
+        email: "dana@example.org",
+        firstName: "Dana",
+        lastName: "Donor",
+        phone: null,
+      },
+      pledgeId: 7,
+      contactId: 3,
+      description: "PayPal invoice INV-9",
+    });
+  });
+
+  it("takes an order's custom id from its purchase unit", () => {
+    const { custom_id, payer, ...bare } = capture;
+    const { action } = paypal("CHECKOUT.ORDER.COMPLETED", {
+      payer,
+      purchase_units: [
+        { custom_id, payments: { captures: [{ ...bare, status: "PENDING" }] } },
+      ],
+    });
+    expect(action).toMatchObject({ status: "pending", pledgeId: 7, contactId: 3 });
+  });
+
+  it("reads a refund against the capture it links up to", () => {
+    const { action } = paypal("PAYMENT.CAPTURE.REVERSED", {
+      id: "REF-1",
+      amount: { value: "-30.00", currency_code: "CAD" },
+      create_time: "2025-03-02T09:00:00Z",
+      links: [{ rel: "up", href: "https://api.paypal.com/v2/payments/captures/CAP-1" }],
+    });
+    expect(action).toEqual({
+      type: "refund",
+      reference: "CAP-1",
+      refundReference: "REF-1",
+      amount: 30,
+      cumulative: false,
+      date: "2025-03-02",
+      refundType: "reversal",
+      reason: "Refunded in PayPal",
+    });
+    expect(() => paypal("PAYMENT.CAPTURE.REFUNDED", { id: "REF-2" })).toThrow(
+      "The refund does not name its capture"
+    );
+  });
+
+  it("counts a dispute resolved for the buyer as lost", () => {
+    const dispute = {
+      dispute_id: "PP-D-1",
+      disputed_transactions: [{ seller_transaction_id: "CAP-1" }],
+      dispute_amount: { value: "80.00" },
+      create_time: "2025-03-05T00:00:00Z",
+      dispute_outcome: { outcome_code: "RESOLVED_BUYER_FAVOUR" },
+    };
+    expect(paypal("CUSTOMER.DISPUTE.RESOLVED", dispute).action).toMatchObject({
+      type: "dispute",
+      reference: "CAP-1",
+      outcome: "lost",
+      date: "2025-03-05",
+    });
+    expect(
+      paypal("CUSTOMER.DISPUTE.RESOLVED", {
+        ...dispute,
+        dispute_outcome: { outcome_code: "RESOLVED_SELLER_FAVOUR" },
+      }).action
+    ).toMatchObject({ outcome: "won" });
+    expect(
+      paypal("CUSTOMER.DISPUTE.CREATED", { ...dispute, disputed_transactions: [] })
+        .action
+    ).toMatchObject({ type: "ignore" });
+  });
+
+  it("refuses what is not a PayPal event", () => {
+    expect(() => parsePaypalEvent(JSON.stringify({ id: "WH-EV-1" }))).toThrow(
+      "Not a PayPal event"
+    );
+  });
+});
@@ -0,0 +1,324 @@
+import { currencyEnum } from "@/lib/db/schema";
+import type { Currency } from "@/lib/exchange-rates";
+
+// Reads Stripe and PayPal webhook events into the few things they can mean
+// for the ledger. Anything else is ignored.
+//
+// A charge or capture names its pledge or donor with metadata: Stripe's
+// `metadata.pledge_id` / `metadata.contact_id`, or PayPal's `custom_id` as
+// "pledge_id=12&contact_id=34".
+
+export type PaymentProcessor = "stripe" | "paypal";
+
+export interface ProcessorDonor {
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  phone: string | null;
+}
+
+export interface ProcessorPayment {
+  type: "payment";
+  // The charge or capture id, kept as payment.referenceNumber
+  reference: string;
+  amount: number;
+  currency: Currency;
+  date: string;
+  status: "completed" | "pending" | "failed";
+  donor: ProcessorDonor;
+  pledgeId: number | null;
+  contactId: number | null;
+  description: string | null;
+}
+
+export interface ProcessorRefund {
+  type: "refund";
+  // The refunded charge or capture
+  reference: string;
+  refundReference: string;
+  amount: number;
+  // Stripe reports the total refunded so far rather than this refund
+  cumulative: boolean;
+  date: string;
+  refundType: "refund" | "reversal" | "chargeback";
+  reason: string;
+}
+
+export interface ProcessorDispute {
+  type: "dispute";
+  reference: string;
+  disputeReference: string;
+  amount: number;
+  date: string;
+  // A lost dispute is booked as a chargeback; until then the payment stands
+  outcome: "opened" | "won" | "lost";
+  reason: string;
+}
+
+export type ProcessorAction =
+  | ProcessorPayment
+  | ProcessorRefund
+  | ProcessorDispute
+  | { type: "ignore"; reason: string };
+
+export interface ParsedEvent {
+  eventId: string;
+  eventType: string;
+  action: ProcessorAction;
+}
+
+export class ProcessorEventError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProcessorEventError";
+  }
+}
+
+type Json = Record<string, unknown>;
+
+// Narrowing for the parts of an event that are read
+const obj = (value: unknown): Json =>
+  value && typeof value === "object" && !Array.isArray(value) ? (value as Json) : {};
+
+const list = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const text = (value: unknown): string | null =>
+  typeof value === "string" && value ? value : null;
+
+// Currencies Stripe counts in whole units rather than cents
+const ZERO_DECIMAL = ["JPY"];
+
+function currencyOf(code: unknown): Currency {
+  const currency = String(code ?? "").toUpperCase();
+  if (!(currencyEnum.enumValues as readonly string[]).includes(currency)) {
+    throw new ProcessorEventError(`Unsupported currency "${code}"`);
+  }
+  return currency as Currency;
+}
+
+const stripeAmount = (minor: unknown, currency: Currency) =>
+  Number(minor) / (ZERO_DECIMAL.includes(currency) ? 1 : 100);
+
+const unixDate = (seconds: unknown) =>
+  new Date(Number(seconds) * 1000).toISOString().slice(0, 10);
+
+const isoDate = (value: unknown) =>
+  text(value)?.slice(0, 10) ?? new Date().toISOString().slice(0, 10);
+
+const positiveId = (value: unknown) => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+function splitName(name: unknown): Pick<ProcessorDonor, "firstName" | "lastName"> {
+  const words = typeof name === "string" ? name.trim().split(/\s+/).filter(Boolean) : [];
+  if (words.length === 0) return { firstName: null, lastName: null };
+  if (words.length === 1) return { firstName: words[0], lastName: null };
+  return { firstName: words.slice(0, -1).join(" "), lastName: words[words.length - 1] };
+}
+
+function parseJson(payload: string): Json {
+  try {
+    const parsed: unknown = JSON.parse(payload);
+    if (parsed && typeof parsed === "object") return parsed as Json;
+  } catch {
+    // fall through
+  }
+  throw new ProcessorEventError("The event is not JSON");
+}
+
+function stripeCharge(charge: Json, status: ProcessorPayment["status"]): ProcessorPayment {
+  const currency = currencyOf(charge.currency);
+  const billing = obj(charge.billing_details);
+  const metadata = obj(charge.metadata);
+  return {
+    type: "payment",
+    reference: String(charge.id),
+    amount: stripeAmount(charge.amount, currency),
+    currency,
+    date: unixDate(charge.created),
+    status,
+    donor: {
+      email: text(billing.email) ?? text(charge.receipt_email),
+      phone: text(billing.phone),
+      ...splitName(billing.name),
+    },
+    pledgeId: positiveId(metadata.pledge_id),
+    contactId: positiveId(metadata.contact_id),
+    description: text(charge.description),
+  };
+}
+
+function stripeAction(type: string, object: Json): ProcessorAction {
+  switch (type) {
+    case "charge.succeeded":
+      return stripeCharge(object, "completed");
+    case "charge.pending":
+      return stripeCharge(object, "pending");
+    case "charge.failed":
+      return stripeCharge(object, "failed");
+    case "charge.refunded": {
+      const currency = currencyOf(object.currency);
+      const latest = obj(list(obj(object.refunds).data)[0]);
+      const reason = text(latest.reason);
+      return {
+        type: "refund",
+        reference: String(object.id),
+        refundReference: text(latest.id) ?? `${object.id}:${object.amount_refunded}`,
+        amount: stripeAmount(object.amount_refunded, currency),
+        cumulative: true,
+        date: unixDate(latest.created ?? object.created),
+        refundType: "refund",
+        reason: reason ? `Stripe refund: ${reason}` : "Refunded in Stripe",
+      };
+    }
+    case "charge.dispute.created":
+    case "charge.dispute.closed": {
+      const currency = currencyOf(object.currency);
+      return {
+        type: "dispute",
+        reference: String(object.charge),
+        disputeReference: String(object.id),
+        amount: stripeAmount(object.amount, currency),
+        date: unixDate(object.created),
+        outcome:
+          type === "charge.dispute.created"
+            ? "opened"
+            : object.status === "lost"
+              ? "lost"
+              : "won",
+        reason: `Stripe dispute: ${text(object.reason) ?? "unknown reason"}`,
+      };
+    }
+    default:
+      return { type: "ignore", reason: `Stripe ${type} events are not used` };
+  }
+}
+
+export function parseStripeEvent(payload: string): ParsedEvent {
+  const event = parseJson(payload);
+  const object = obj(event.data).object;
+  if (!event.id || !event.type || !object) {
+    throw new ProcessorEventError("Not a Stripe event");
+  }
+  return {
+    eventId: String(event.id),
+    eventType: String(event.type),
+    action: stripeAction(String(event.type), obj(object)),
+  };
+}
+
+function customIds(customId: unknown) {
+  const params = new URLSearchParams(text(customId) ?? "");
+  return {
+    pledgeId: positiveId(params.get("pledge_id")),
+    contactId: positiveId(params.get("contact_id")),
+  };
+}
+
+function paypalCapture(
+  capture: Json,
+  payer: Json,
+  status: ProcessorPayment["status"]
+): ProcessorPayment {
+  const amount = obj(capture.amount);
+  const name = obj(payer.name);
+  return {
+    type: "payment",
+    reference: String(capture.id),
+    amount: Number(amount.value),
+    currency: currencyOf(amount.currency_code),
+    date: isoDate(capture.create_time),
+    status,
+    donor: {
+      email: text(payer.email_address),
+      firstName: text(name.given_name),
+      lastName: text(name.surname),
+      phone: text(obj(obj(payer.phone).phone_number).national_number),
+    },
+    ...customIds(capture.custom_id),
+    description: capture.invoice_id ? `PayPal invoice ${capture.invoice_id}` : null,
+  };
+}
+
+// The capture a refund or reversal belongs to, from its "up" link
+function upCapture(resource: Json): string {
+  const link = list(resource.links).map(obj).find((entry) => entry.rel === "up");
+  const id = text(link?.href)?.split("/").pop();
+  if (!id) throw new ProcessorEventError("The refund does not name its capture");
+  return id;
+}
+
+function paypalAction(type: string, resource: Json): ProcessorAction {
+  switch (type) {
+    case "CHECKOUT.ORDER.COMPLETED": {
+      const unit = obj(list(resource.purchase_units)[0]);
+      const captured = list(obj(unit.payments).captures)[0];
+      if (!captured) return { type: "ignore", reason: "The order has no capture" };
+      const capture = obj(captured);
+      return paypalCapture(
+        { ...capture, custom_id: capture.custom_id ?? unit.custom_id },
+        obj(resource.payer),
+        capture.status === "COMPLETED" ? "completed" : "pending"
+      );
+    }
+    case "PAYMENT.CAPTURE.COMPLETED":
+      return paypalCapture(resource, obj(resource.payer), "completed");
+    case "PAYMENT.CAPTURE.PENDING":
+      return paypalCapture(resource, obj(resource.payer), "pending");
+    case "PAYMENT.CAPTURE.DENIED":
+      return paypalCapture(resource, obj(resource.payer), "failed");
+    case "PAYMENT.CAPTURE.REFUNDED":
+    case "PAYMENT.CAPTURE.REVERSED":
+      return {
+        type: "refund",
+        reference: upCapture(resource),
+        refundReference: String(resource.id),
+        amount: Math.abs(Number(obj(resource.amount).value)),
+        cumulative: false,
+        date: isoDate(resource.create_time),
+        refundType: type === "PAYMENT.CAPTURE.REVERSED" ? "reversal" : "refund",
+        reason: text(resource.note_to_payer) ?? "Refunded in PayPal",
+      };
+    case "CUSTOMER.DISPUTE.CREATED":
+    case "CUSTOMER.DISPUTE.RESOLVED": {
+      const reference = obj(list(resource.disputed_transactions)[0]).seller_transaction_id;
+      if (!reference) {
+        return { type: "ignore", reason: "The dispute names no transaction" };
+      }
+      return {
+        type: "dispute",
+        reference: String(reference),
+        disputeReference: String(resource.dispute_id),
+        amount: Number(obj(resource.dispute_amount).value),
+        date: isoDate(resource.update_time ?? resource.create_time),
+        outcome:
+          type === "CUSTOMER.DISPUTE.CREATED"
+            ? "opened"
+            : obj(resource.dispute_outcome).outcome_code === "RESOLVED_BUYER_FAVOUR"
+              ? "lost"
+              : "won",
+        reason: `PayPal dispute: ${text(resource.reason) ?? "unknown reason"}`,
+      };
+    }
+    default:
+      return { type: "ignore", reason: `PayPal ${type} events are not used` };
+  }
+}
+
+export function parsePaypalEvent(payload: string): ParsedEvent {
+  const event = parseJson(payload);
+  if (!event.id || !event.event_type || !event.resource) {
+    throw new ProcessorEventError("Not a PayPal event");
+  }
+  return {
+    eventId: String(event.id),
+    eventType: String(event.event_type),
+    action: paypalAction(String(event.event_type), obj(event.resource)),
+  };
+}
+
+export const EVENT_PARSERS: Record<PaymentProcessor, (payload: string) => ParsedEvent> = {
+  stripe: parseStripeEvent,
+  paypal: parsePaypalEvent,
+};
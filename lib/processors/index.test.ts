@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq, sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { db } from "@/lib/db";
+import { contact, payment, pledge, processorEvent } from "@/lib/db/schema";
+import { receiveProcessorEvent } from ".";
+
+// 2025-03-01T12:00:00Z
+const created = 1740830400;
+
+let eventCount = 0;
+
+const charge = (metadata: object = {}) => ({
+  id: "ch_1",
+  amount: 10000,
+  currency: "usd",
+  created,
+  billing_details: { name: "Dana Donor", email: "Dana@Example.org" },
+  metadata,
+});
+
+const stripe = (type: string, object: object) =>
+  receiveProcessorEvent(
+    "stripe",
+    JSON.stringify({ id: `evt_${++eventCount}`, type, data: { object } })
+  );
+
+const payments = () => db.select().from(payment).orderBy(payment.id);
+
+beforeEach(async () => {
+  await db.execute(
+    sql`TRUNCATE ${contact}, ${pledge}, ${payment}, ${processorEvent} RESTART IDENTITY CASCADE`
+  );
+});
+
+describe("receiveProcessorEvent", () => {
+  it("records a charge from a new donor on a new pledge", async () => {
+    const { event } = await stripe("charge.succeeded", charge());
+
+    expect(event).toMatchObject({ status: "processed", attempts: 1 });
+    const [donor] = await db.select().from(contact);
+    expect(donor).toMatchObject({ firstName: "Dana", lastName: "Donor" });
+    const [created] = await db.select().from(pledge);
+    expect(created).toMatchObject({ contactId: donor.id, originalAmount: "100.00" });
+    const [paid] = await payments();
+    expect(paid).toMatchObject({
+      pledgeId: created.id,
+      amount: "100.00",
+      methodDetail: "stripe",
+      referenceNumber: "ch_1",
+      paymentStatus: "completed",
+    });
+    expect(event.paymentId).toBe(paid.id);
+  });
+
+  it("pays the donor's open pledge when the email matches", async () => {
+    const [donor] = await db
+      .insert(contact)
+      .values({ firstName: "Dana", lastName: "Donor", email: "dana@example.org" })
+      .returning();
+    const [open] = await db
+      .insert(pledge)
+      .values({
+        contactId: donor.id,
+        pledgeDate: "2025-01-01",
+        originalAmount: "500.00",
+        balance: "500.00",
+      })
+      .returning();
+
+    await stripe("charge.succeeded", charge());
+    const [paid] = await payments();
+    expect(paid.pledgeId).toBe(open.id);
+    expect(await db.select().from(contact)).toHaveLength(1);
+  });
+
+  it("applies a redelivered event once", async () => {
+    const payload = JSON.stringify({
+      id: "evt_same",
+      type: "charge.succeeded",
+      data: { object: charge() },
+    });
+    await receiveProcessorEvent("stripe", payload);
+    const again = await receiveProcessorEvent("stripe", payload);
+
+    expect(again.duplicate).toBe(true);
+    expect(await payments()).toHaveLength(1);
+  });
+
+  it("moves a pending payment on but never back", async () => {
+    await stripe("charge.pending", charge());
+    await stripe("charge.succeeded", charge());
+    const { event } = await stripe("charge.pending", charge());
+
+    const [paid] = await payments();
+    expect(paid.paymentStatus).toBe("completed");
+    expect(event).toMatchObject({
+      status: "ignored",
+      result: `Payment ${paid.id} is completed, not pending`,
+    });
+  });
+
+  it("books only what a refund adds to the ones before", async () => {
+    await stripe("charge.succeeded", charge());
+    const refunded = (amount: number, ids: string[]) =>
+      stripe("charge.refunded", {
+        ...charge(),
+        amount_refunded: amount,
+        refunds: { data: ids.map((id) => ({ id, created })) },
+      });
+    await refunded(3000, ["re_1"]);
+    await refunded(5000, ["re_2", "re_1"]);
+
+    const [original, first, second] = await payments();
+    expect(original.refundedAmount).toBe("50.00");
+    expect([first.amount, second.amount]).toEqual(["-30.00", "-20.00"]);
+    expect(second.refundOfPaymentId).toBe(original.id);
+  });
+
+  it("ignores a charge whose payment is in the trash", async () => {
+    await stripe("charge.succeeded", charge());
+    const [paid] = await payments();
+    await db
+      .update(payment)
+      .set({ deletedAt: new Date() })
+      .where(eq(payment.id, paid.id));
+
+    const { event } = await stripe("charge.succeeded", charge());
+    expect(event).toMatchObject({
+      status: "ignored",
+      result: `Payment ${paid.id} is in the trash`,
+    });
+    expect(await payments()).toHaveLength(1);
+
+    const refund = await stripe("charge.refunded", {
+      ...charge(),
+      amount_refunded: 10000,
+    });
+    expect(refund.event).toMatchObject({
+      status: "failed",
+      error: "No Stripe payment ch_1 has been recorded",
+    });
+  });
+
+  it("keeps an event it cannot apply as failed", async () => {
+    const { event } = await stripe("charge.succeeded", {
+      ...charge(),
+      billing_details: {},
+    });
+    expect(event).toMatchObject({
+      status: "failed",
+      error: "The payment matches no contact and has no donor name to create one",
+    });
+    expect(await db.select().from(contact)).toEqual([]);
+  });
+});
@@ -0,0 +1,724 @@
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  getTableColumns,
+  gt,
+  inArray,
+  isNotNull,
+  isNull,
+  or,
+  sql,
+} from "drizzle-orm";
+import { db, txDb, type DbExecutor } from "@/lib/db";
+import {
+  contact,
+  contactEmail,
+  installmentSchedule,
+  payment,
+  paymentPlan,
+  pledge,
+  processorEvent,
+  type Contact,
+  type Payment,
+  type Pledge,
+  type ProcessorEvent,
+} from "@/lib/db/schema";
+import { recordAudit } from "@/lib/audit";
+import {
+  auditBonusSync,
+  BonusAlreadyPaidError,
+  syncPaymentBonus,
+  type BonusSync,
+} from "@/lib/bonus";
+import { saveContactChannels } from "@/lib/contact-channels";
+import {
+  convertAmount,
+  moneyString,
+  rateString,
+  roundMoney,
+  toNumber,
+  toUsd,
+} from "@/lib/currency";
+import { getRate } from "@/lib/exchange-rates";
+import {
+  getPaymentLedgerTargets,
+  updateLedgerTotals,
+} from "@/lib/pledge-totals";
+import {
+  auditRefund,
+  getRefunds,
+  refundPayment,
+  RefundStateError,
+  type RefundResult,
+} from "@/lib/refunds";
+import {
+  EVENT_PARSERS,
+  ProcessorEventError,
+  type PaymentProcessor,
+  type ProcessorAction,
+  type ProcessorDispute,
+  type ProcessorPayment,
+  type ProcessorRefund,
+} from "./events";
+
+// Card payments pushed by Stripe and PayPal. Every event is stored as
+// received, then applied in a transaction:
+//
+// - a charge or capture creates or updates the payment whose
+//   referenceNumber is its id (methodDetail "stripe" or "paypal"), for a
+//   donor matched by metadata or email or else created, on the installment
+//   or open pledge it pays or else a new pledge;
+// - a refund, reversal or lost dispute is booked through refundPayment.
+//
+// A redelivered event is not applied twice. One that fails is kept with its
+// error and can be replayed once the cause is fixed.
+
+export {
+  ProcessorEventError,
+  type PaymentProcessor,
+  type ProcessorAction,
+} from "./events";
+
+export const PROCESSOR_LABELS: Record<PaymentProcessor, string> = {
+  stripe: "Stripe",
+  paypal: "PayPal",
+};
+
+// Errors in the event itself or the ledger's state rather than in this
+// code; the event is kept as failed and the processor is told not to retry
+const EXPECTED_ERRORS = [ProcessorEventError, RefundStateError, BonusAlreadyPaidError];
+
+const isExpected = (error: unknown) =>
+  EXPECTED_ERRORS.some((type) => error instanceof type);
+
+interface ProcessorChange {
+  status: "processed" | "ignored";
+  result: string;
+  paymentId: number | null;
+  contactId: number | null;
+  createdContact: Contact | null;
+  createdPledge: Pledge | null;
+  paymentBefore: Payment | null;
+  paymentAfter: Payment | null;
+  bonusSync: BonusSync | null;
+  refund: RefundResult | null;
+}
+
+const change = (
+  status: ProcessorChange["status"],
+  result: string,
+  values: Partial<ProcessorChange> = {}
+): ProcessorChange => ({
+  status,
+  result,
+  paymentId: null,
+  contactId: null,
+  createdContact: null,
+  createdPledge: null,
+  paymentBefore: null,
+  paymentAfter: null,
+  bonusSync: null,
+  refund: null,
+  ...values,
+});
+
+// The payment recorded for a charge or capture. Events only ever apply to a
+// live one; `trashed` finds one in the trash instead, which has to be
+// restored before they do.
+async function findProcessorPayment(
+  processor: PaymentProcessor,
+  reference: string,
+  executor: DbExecutor,
+  { trashed = false }: { trashed?: boolean } = {}
+): Promise<Payment | null> {
+  const [row] = await executor
+    .select()
+    .from(payment)
+    .where(
+      and(
+        eq(payment.methodDetail, processor),
+        eq(payment.referenceNumber, reference),
+        isNull(payment.refundOfPaymentId),
+        trashed ? isNotNull(payment.deletedAt) : isNull(payment.deletedAt)
+      )
+    )
+    .orderBy(asc(payment.id))
+    .limit(1)
+    .for("update");
+  return row ?? null;
+}
+
+// Processor payments are never split, so the pledge's contact is the donor
+async function paymentContactId(
+  paymentId: number,
+  executor: DbExecutor
+): Promise<number | null> {
+  const [row] = await executor
+    .select({ contactId: pledge.contactId })
+    .from(payment)
+    .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
+    .where(eq(payment.id, paymentId));
+  return row?.contactId ?? null;
+}
+
+async function liveContact(id: number, executor: DbExecutor) {
+  const [row] = await executor
+    .select()
+    .from(contact)
+    .where(and(eq(contact.id, id), isNull(contact.deletedAt)));
+  return row ?? null;
+}
+
+async function livePledge(id: number, executor: DbExecutor) {
+  const [row] = await executor
+    .select()
+    .from(pledge)
+    .where(and(eq(pledge.id, id), isNull(pledge.deletedAt)));
+  return row ?? null;
+}
+
+// The donor named in the metadata, the one whose pledge it names, a contact
+// with the payer's email, or a new contact
+async function resolveContact(
+  action: ProcessorPayment,
+  given: Pledge | null,
+  executor: DbExecutor
+): Promise<{ contact: Contact; created: boolean }> {
+  const contactId = given?.contactId ?? action.contactId;
+  const named = contactId ? await liveContact(contactId, executor) : null;
+  if (named) return { contact: named, created: false };
+
+  const email = action.donor.email?.trim().toLowerCase() || null;
+  if (email) {
+    const [match] = await executor
+      .select()
+      .from(contact)
+      .where(
+        and(
+          isNull(contact.deletedAt),
+          or(
+            sql`lower(${contact.email}) = ${email}`,
+            inArray(
+              contact.id,
+              executor
+                .select({ id: contactEmail.contactId })
+                .from(contactEmail)
+                .where(sql`lower(${contactEmail.email}) = ${email}`)
+            )
+          )
+        )
+      )
+      .orderBy(asc(contact.id))
+      .limit(1);
+    if (match) return { contact: match, created: false };
+  }
+
+  const firstName = action.donor.firstName?.trim();
+  const lastName = action.donor.lastName?.trim() ?? "";
+  if (!firstName) {
+    throw new ProcessorEventError(
+      "The payment matches no contact and has no donor name to create one"
+    );
+  }
+  const [row] = await executor
+    .insert(contact)
+    .values({ firstName, lastName })
+    .returning();
+  const saved = await saveContactChannels(
+    row.id,
+    { email: action.donor.email, phone: action.donor.phone },
+    executor
+  );
+  return { contact: saved ?? row, created: true };
+}
+
+// An open installment of the same amount on the named pledge or one of the
+// donor's, else the named pledge, else the donor's oldest pledge with a
+// balance
+async function resolveTarget(
+  action: ProcessorPayment,
+  contactId: number,
+  given: Pledge | null,
+  executor: DbExecutor
+) {
+  const [installment] = await executor
+    .select({ installment: installmentSchedule, pledge })
+    .from(installmentSchedule)
+    .innerJoin(paymentPlan, eq(installmentSchedule.paymentPlanId, paymentPlan.id))
+    .innerJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+    .where(
+      and(
+        given ? eq(pledge.id, given.id) : eq(pledge.contactId, contactId),
+        isNull(pledge.deletedAt),
+        inArray(installmentSchedule.status, ["pending", "overdue"]),
+        eq(installmentSchedule.currency, action.currency),
+        eq(installmentSchedule.installmentAmount, moneyString(action.amount))
+      )
+    )
+    .orderBy(asc(installmentSchedule.installmentDate), asc(installmentSchedule.id))
+    .limit(1);
+  if (installment) {
+    return { pledge: installment.pledge, installment: installment.installment };
+  }
+  if (given) return { pledge: given, installment: null };
+
+  const [open] = await executor
+    .select()
+    .from(pledge)
+    .where(
+      and(
+        eq(pledge.contactId, contactId),
+        isNull(pledge.deletedAt),
+        eq(pledge.isActive, true),
+        gt(pledge.balance, "0")
+      )
+    )
+    .orderBy(asc(pledge.pledgeDate), asc(pledge.id))
+    .limit(1);
+  return { pledge: open ?? null, installment: null };
+}
+
+async function markInstallmentPaid(paid: Payment, executor: DbExecutor) {
+  if (!paid.installmentScheduleId || paid.paymentStatus !== "completed") return;
+  await executor
+    .update(installmentSchedule)
+    .set({
+      status: "paid",
+      paidDate: paid.paymentDate,
+      paymentId: paid.id,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(installmentSchedule.id, paid.installmentScheduleId),
+        inArray(installmentSchedule.status, ["pending", "overdue"])
+      )
+    );
+}
+
+async function refreshPayment(paymentId: number, executor: DbExecutor) {
+  const bonusSync = await syncPaymentBonus(paymentId, executor);
+  await updateLedgerTotals(
+    await getPaymentLedgerTargets(paymentId, executor),
+    executor
+  );
+  return bonusSync;
+}
+
+async function applyPayment(
+  processor: PaymentProcessor,
+  action: ProcessorPayment,
+  executor: DbExecutor
+): Promise<ProcessorChange> {
+  const label = PROCESSOR_LABELS[processor];
+  const existing = await findProcessorPayment(processor, action.reference, executor);
+
+  if (existing) {
+    const contactId = await paymentContactId(existing.id, executor);
+    const ids = { paymentId: existing.id, contactId };
+    if (existing.paymentStatus === action.status) {
+      return change("ignored", `Payment ${existing.id} is already ${action.status}`, ids);
+    }
+    // Events can arrive out of order; a settled payment does not go back
+    if (existing.paymentStatus !== "pending" && existing.paymentStatus !== "processing") {
+      return change(
+        "ignored",
+        `Payment ${existing.id} is ${existing.paymentStatus}, not ${action.status}`,
+        ids
+      );
+    }
+    const [updated] = await executor
+      .update(payment)
+      .set({ paymentStatus: action.status, updatedAt: new Date() })
+      .where(eq(payment.id, existing.id))
+      .returning();
+    await markInstallmentPaid(updated, executor);
+    const bonusSync = await refreshPayment(updated.id, executor);
+    return change("processed", `Payment ${existing.id} is now ${action.status}`, {
+      ...ids,
+      paymentBefore: existing,
+      paymentAfter: bonusSync?.payment ?? updated,
+      bonusSync,
+    });
+  }
+
+  // Deleting the payment does not mean the charge should be recorded again
+  const trashed = await findProcessorPayment(processor, action.reference, executor, {
+    trashed: true,
+  });
+  if (trashed) {
+    return change("ignored", `Payment ${trashed.id} is in the trash`, {
+      paymentId: trashed.id,
+      contactId: await paymentContactId(trashed.id, executor),
+    });
+  }
+
+  const given = action.pledgeId ? await livePledge(action.pledgeId, executor) : null;
+  const donor = await resolveContact(action, given, executor);
+  const target = await resolveTarget(action, donor.contact.id, given, executor);
+
+  const rate = await getRate(action.currency, action.date);
+  if (!rate) {
+    throw new ProcessorEventError(
+      `No ${action.currency} exchange rate for ${action.date}`
+    );
+  }
+
+  let createdPledge: Pledge | null = null;
+  let pledgeRow = target.pledge;
+  if (!pledgeRow) {
+    const amountUsd = toUsd(action.amount, rate);
+    [createdPledge] = await executor
+      .insert(pledge)
+      .values({
+        contactId: donor.contact.id,
+        pledgeDate: action.date,
+        description: `${label} donation`,
+        originalAmount: moneyString(action.amount),
+        currency: action.currency,
+        originalAmountUsd: moneyString(amountUsd),
+        exchangeRate: rateString(rate),
+        totalPaid: "0",
+        totalPaidUsd: "0",
+        balance: moneyString(action.amount),
+        balanceUsd: moneyString(amountUsd),
+        isActive: true,
+      })
+      .returning();
+    pledgeRow = createdPledge;
+  }
+
+  const amountInPledgeCurrency =
+    action.currency === pledgeRow.currency
+      ? action.amount
+      : convertAmount(action.amount, rate, pledgeRow.exchangeRate);
+  const [created] = await executor
+    .insert(payment)
+    .values({
+      pledgeId: pledgeRow.id,
+      paymentPlanId: target.installment?.paymentPlanId ?? null,
+      installmentScheduleId: target.installment?.id ?? null,
+      amount: moneyString(action.amount),
+      currency: action.currency,
+      amountUsd: moneyString(toUsd(action.amount, rate)),
+      amountInPledgeCurrency: moneyString(amountInPledgeCurrency),
+      exchangeRate: rateString(rate),
+      paymentDate: action.date,
+      receivedDate: action.date,
+      paymentMethod: "credit_card",
+      methodDetail: processor,
+      paymentStatus: action.status,
+      referenceNumber: action.reference,
+      notes: action.description,
+    })
+    .returning();
+  await markInstallmentPaid(created, executor);
+  const bonusSync = await refreshPayment(created.id, executor);
+
+  return change(
+    "processed",
+    `Payment ${created.id} recorded on pledge ${pledgeRow.id}${
+      target.installment ? ` for installment ${target.installment.id}` : ""
+    }`,
+    {
+      paymentId: created.id,
+      contactId: donor.contact.id,
+      createdContact: donor.created ? donor.contact : null,
+      createdPledge,
+      paymentAfter: bonusSync?.payment ?? created,
+      bonusSync,
+    }
+  );
+}
+
+async function originalPayment(
+  processor: PaymentProcessor,
+  reference: string,
+  executor: DbExecutor
+): Promise<Payment> {
+  const original = await findProcessorPayment(processor, reference, executor);
+  if (!original) {
+    // Replayable once the charge itself has been received
+    throw new ProcessorEventError(
+      `No ${PROCESSOR_LABELS[processor]} payment ${reference} has been recorded`
+    );
+  }
+  return original;
+}
+
+async function bookRefund(
+  original: Payment,
+  amount: number,
+  options: {
+    refundType: ProcessorRefund["refundType"];
+    reference: string;
+    date: string;
+    reason: string;
+    label: string;
+  },
+  executor: DbExecutor
+): Promise<ProcessorChange> {
+  const contactId = await paymentContactId(original.id, executor);
+  const ids = { paymentId: original.id, contactId };
+  const refunds = await getRefunds(original.id, executor);
+  const recorded = refunds.find((refund) => refund.referenceNumber === options.reference);
+  if (recorded) {
+    return change("ignored", `Already recorded as refund ${recorded.id}`, ids);
+  }
+  if (amount <= 0) {
+    return change("ignored", "Nothing left to refund", ids);
+  }
+
+  const refund = await refundPayment(
+    original.id,
+    {
+      amount,
+      refundType: options.refundType,
+      reason: options.reason,
+      // A refund is never dated before its payment, even across time zones
+      refundDate: options.date < original.paymentDate ? original.paymentDate : options.date,
+      referenceNumber: options.reference,
+      notes: `From ${options.label}`,
+    },
+    executor
+  );
+  return change(
+    "processed",
+    `Refund ${refund.refund.id} of ${moneyString(amount)} ${original.currency} on payment ${original.id}`,
+    { ...ids, refund }
+  );
+}
+
+async function applyRefund(
+  processor: PaymentProcessor,
+  action: ProcessorRefund,
+  executor: DbExecutor
+): Promise<ProcessorChange> {
+  const original = await originalPayment(processor, action.reference, executor);
+  let amount = action.amount;
+  if (action.cumulative) {
+    // Less what earlier refunds (not chargebacks) already gave back
+    const refunded = (await getRefunds(original.id, executor))
+      .filter((refund) => refund.refundType === action.refundType)
+      .reduce((sum, refund) => sum + Math.abs(toNumber(refund.amount)), 0);
+    amount = roundMoney(action.amount - refunded);
+  }
+  return bookRefund(
+    original,
+    amount,
+    {
+      refundType: action.refundType,
+      reference: action.refundReference,
+      date: action.date,
+      reason: action.reason,
+      label: PROCESSOR_LABELS[processor],
+    },
+    executor
+  );
+}
+
+async function applyDispute(
+  processor: PaymentProcessor,
+  action: ProcessorDispute,
+  executor: DbExecutor
+): Promise<ProcessorChange> {
+  const original = await originalPayment(processor, action.reference, executor);
+  if (action.outcome !== "lost") {
+    return change(
+      "ignored",
+      `Dispute ${action.disputeReference} ${action.outcome}; payment ${original.id} stands`,
+      {
+        paymentId: original.id,
+        contactId: await paymentContactId(original.id, executor),
+      }
+    );
+  }
+  const refundable = roundMoney(
+    toNumber(original.amount) - toNumber(original.refundedAmount)
+  );
+  return bookRefund(
+    original,
+    Math.min(action.amount, refundable),
+    {
+      refundType: "chargeback",
+      reference: action.disputeReference,
+      date: action.date,
+      reason: action.reason,
+      label: PROCESSOR_LABELS[processor],
+    },
+    executor
+  );
+}
+
+function applyAction(
+  processor: PaymentProcessor,
+  action: ProcessorAction,
+  executor: DbExecutor
+): Promise<ProcessorChange> {
+  switch (action.type) {
+    case "payment":
+      return applyPayment(processor, action, executor);
+    case "refund":
+      return applyRefund(processor, action, executor);
+    case "dispute":
+      return applyDispute(processor, action, executor);
+    case "ignore":
+      return Promise.resolve(change("ignored", action.reason));
+  }
+}
+
+// System changes, so no user
+async function auditProcessorChange(result: ProcessorChange): Promise<void> {
+  if (result.createdContact) {
+    await recordAudit(null, {
+      table: contact,
+      recordId: result.createdContact.id,
+      action: "create",
+      after: result.createdContact,
+      contactId: result.createdContact.id,
+    });
+  }
+  if (result.createdPledge) {
+    await recordAudit(null, {
+      table: pledge,
+      recordId: result.createdPledge.id,
+      action: "create",
+      after: result.createdPledge,
+      contactId: result.createdPledge.contactId,
+    });
+  }
+  if (result.paymentAfter) {
+    await recordAudit(null, {
+      table: payment,
+      recordId: result.paymentAfter.id,
+      action: result.paymentBefore ? "update" : "create",
+      before: result.paymentBefore,
+      after: result.paymentAfter,
+      contactId: result.contactId,
+    });
+  }
+  await auditBonusSync(null, result.bonusSync, { paymentFields: false });
+  if (result.refund) await auditRefund(null, result.refund);
+}
+
+const DONE_STATUSES: ProcessorEvent["status"][] = ["processed", "ignored"];
+
+// Applies a stored event unless it already was. A failure is recorded on
+// the event; expected ones (see EXPECTED_ERRORS) are returned that way,
+// anything else is rethrown so the processor retries.
+export async function processProcessorEvent(
+  eventId: number
+): Promise<ProcessorEvent | null> {
+  let outcome: { event: ProcessorEvent; change: ProcessorChange | null } | null;
+  try {
+    outcome = await txDb.transaction(async (tx) => {
+      const [event] = await tx
+        .select()
+        .from(processorEvent)
+        .where(eq(processorEvent.id, eventId))
+        .for("update");
+      if (!event) return null;
+      if (DONE_STATUSES.includes(event.status)) return { event, change: null };
+
+      const { action } = EVENT_PARSERS[event.processor](event.payload);
+      const result = await applyAction(event.processor, action, tx);
+      const [saved] = await tx
+        .update(processorEvent)
+        .set({
+          status: result.status,
+          result: result.result,
+          error: null,
+          attempts: sql`${processorEvent.attempts} + 1`,
+          paymentId: result.paymentId,
+          contactId: result.contactId,
+          processedAt: new Date(),
+        })
+        .where(eq(processorEvent.id, event.id))
+        .returning();
+      return { event: saved, change: result };
+    });
+  } catch (error) {
+    const [failed] = await db
+      .update(processorEvent)
+      .set({
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        attempts: sql`${processorEvent.attempts} + 1`,
+        processedAt: new Date(),
+      })
+      .where(eq(processorEvent.id, eventId))
+      .returning();
+    if (!isExpected(error)) throw error;
+    return failed ?? null;
+  }
+
+  if (outcome?.change) await auditProcessorChange(outcome.change);
+  return outcome?.event ?? null;
+}
+
+export interface ReceivedEvent {
+  event: ProcessorEvent;
+  // Delivered before and already applied
+  duplicate: boolean;
+}
+
+// Stores a verified webhook body and applies it. Throws ProcessorEventError
+// when the body is not an event of this processor.
+export async function receiveProcessorEvent(
+  processor: PaymentProcessor,
+  payload: string
+): Promise<ReceivedEvent> {
+  const parsed = EVENT_PARSERS[processor](payload);
+  await db
+    .insert(processorEvent)
+    .values({
+      processor,
+      eventId: parsed.eventId,
+      eventType: parsed.eventType,
+      payload,
+    })
+    .onConflictDoNothing();
+  const [stored] = await db
+    .select()
+    .from(processorEvent)
+    .where(
+      and(
+        eq(processorEvent.processor, processor),
+        eq(processorEvent.eventId, parsed.eventId)
+      )
+    );
+  if (DONE_STATUSES.includes(stored.status)) {
+    return { event: stored, duplicate: true };
+  }
+  const event = await processProcessorEvent(stored.id);
+  return { event: event ?? stored, duplicate: false };
+}
+
+export interface ProcessorEventFilters {
+  processor?: PaymentProcessor;
+  status?: ProcessorEvent["status"];
+  limit?: number;
+}
+
+export type ProcessorEventSummary = Omit<ProcessorEvent, "payload">;
+
+// The latest events, newest first, without their payloads
+export async function listProcessorEvents(
+  filters: ProcessorEventFilters = {},
+  executor: DbExecutor = db
+): Promise<ProcessorEventSummary[]> {
+  const { payload: _, ...columns } = getTableColumns(processorEvent);
+  return executor
+    .select(columns)
+    .from(processorEvent)
+    .where(
+      and(
+        filters.processor ? eq(processorEvent.processor, filters.processor) : undefined,
+        filters.status ? eq(processorEvent.status, filters.status) : undefined
+      )
+    )
+    .orderBy(desc(processorEvent.receivedAt), desc(processorEvent.id))
+    .limit(filters.limit ?? 100);
+}
@@ -0,0 +1,115 @@
+import { generateKeyPairSync } from "crypto";
+import { describe, expect, it } from "vitest";
+import {
+  paypalHeaders,
+  signPaypalPayload,
+  signStripePayload,
+  verifyPaypalSignature,
+  verifyStripeSignature,
+} from "./signatures";
+
+const payload = JSON.stringify({ id: "evt_1", type: "charge.succeeded" });
+
+describe("Stripe signatures", () => {
+  const secret = "whsec_test";
+  const now = Date.UTC(2025, 2, 1);
+  const timestamp = now / 1000;
+
+  it("accepts what it signs", () => {
+    const header = signStripePayload(payload, secret, timestamp);
+    expect(verifyStripeSignature(payload, header, secret, now)).toBe(true);
+  });
+
+  it("accepts any of several v1 signatures", () => {
+    const header = signStripePayload(payload, secret, timestamp);
+    const rolled = header.replace("v1=", "v1=00ff, v1=");
+    expect(verifyStripeSignature(payload, rolled, secret, now)).toBe(true);
+  });
+
+  it("rejects another secret or a changed body", () => {
+    const header = signStripePayload(payload, secret, timestamp);
+    expect(verifyStripeSignature(payload, header, "whsec_other", now)).toBe(false);
+    expect(verifyStripeSignature(`${payload} `, header, secret, now)).toBe(false);
+  });
+
+  it("rejects an old event", () => {
+    const header = signStripePayload(payload, secret, timestamp - 301);
+    expect(verifyStripeSignature(payload, header, secret, now)).toBe(false);
+  });
+
+  it("rejects a missing or malformed header", () => {
+    expect(verifyStripeSignature(payload, null, secret, now)).toBe(false);
+    expect(verifyStripeSignature(payload, "v1=abc", secret, now)).toBe(false);
+    expect(verifyStripeSignature(payload, `t=${timestamp}`, secret, now)).toBe(false);
+  });
+});
+
+describe("PayPal signatures", () => {
+  const webhookId = "WH-1";
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: "pkcs8", format: "pem" },
+    publicKeyEncoding: { type: "spki", format: "pem" },
+  });
+  const signed = () =>
+    paypalHeaders(new Headers(signPaypalPayload(payload, webhookId, privateKey)));
+
+  it("accepts what it signs with the matching key", async () => {
+    expect(await verifyPaypalSignature(payload, signed(), webhookId, publicKey)).toBe(
+      true
+    );
+  });
+
+  it("rejects another webhook or a changed body", async () => {
+    const headers = signed();
+    expect(await verifyPaypalSignature(payload, headers, "WH-2", publicKey)).toBe(false);
+    expect(
+      await verifyPaypalSignature(`${payload} `, headers, webhookId, publicKey)
+    ).toBe(false);
+  });
+
+  it("rejects other algorithms and missing headers", async () => {
+    const headers = signed();
+    expect(
+      await verifyPaypalSignature(
+        payload,
+        { ...headers, authAlgo: "SHA1withRSA" },
+        webhookId,
+        publicKey
+      )
+    ).toBe(false);
+    expect(
+      await verifyPaypalSignature(
+        payload,
+        { ...headers, transmissionSig: null },
+        webhookId,
+        publicKey
+      )
+    ).toBe(false);
+  });
+
+  it("rejects a transmission sent outside the tolerance", async () => {
+    const sentAt = new Date(Date.UTC(2025, 2, 1));
+    const headers = paypalHeaders(
+      new Headers(signPaypalPayload(payload, webhookId, privateKey, sentAt))
+    );
+    const verify = (now: number) =>
+      verifyPaypalSignature(payload, headers, webhookId, publicKey, now);
+    expect(await verify(sentAt.getTime() + 300_000)).toBe(true);
+    expect(await verify(sentAt.getTime() + 301_000)).toBe(false);
+    expect(await verify(sentAt.getTime() - 301_000)).toBe(false);
+    expect(
+      await verifyPaypalSignature(
+        payload,
+        { ...headers, transmissionTime: "yesterday" },
+        webhookId,
+        publicKey
+      )
+    ).toBe(false);
+  });
+
+  it("only fetches certificates from PayPal", async () => {
+    const headers = { ...signed(), certUrl: "https://example.com/cert.pem" };
+    expect(await verifyPaypalSignature(payload, headers, webhookId)).toBe(false);
+  });
+});
@@ -0,0 +1,165 @@
+import { createHmac, createSign, createVerify, randomUUID, timingSafeEqual } from "crypto";
+
+// Webhook signatures as Stripe and PayPal send them, with the matching
+// signers so events can be generated and sent locally (see
+// scripts/sign-webhook.ts).
+
+// Stripe rejects events older than this to stop replays; so do we, for
+// PayPal's transmission time too
+const TOLERANCE_SECONDS = 300;
+
+const withinTolerance = (seconds: number, now: number) =>
+  Math.abs(now / 1000 - seconds) <= TOLERANCE_SECONDS;
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+const stripeDigest = (payload: string, secret: string, timestamp: number) =>
+  createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex");
+
+// Checks a Stripe-Signature header ("t=<unix time>,v1=<hmac>,...") against
+// the endpoint's signing secret
+export function verifyStripeSignature(
+  payload: string,
+  header: string | null,
+  secret: string,
+  now = Date.now()
+): boolean {
+  if (!header) return false;
+  const parts = header.split(",").map((part) => part.trim().split("="));
+  const timestamp = Number(parts.find(([key]) => key === "t")?.[1]);
+  const signatures = parts
+    .filter(([key, value]) => key === "v1" && value)
+    .map(([, value]) => value);
+  if (!Number.isInteger(timestamp) || signatures.length === 0) return false;
+  if (!withinTolerance(timestamp, now)) return false;
+
+  const expected = stripeDigest(payload, secret, timestamp);
+  return signatures.some((signature) => safeEqual(signature, expected));
+}
+
+export function signStripePayload(
+  payload: string,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${stripeDigest(payload, secret, timestamp)}`;
+}
+
+export interface PaypalSignatureHeaders {
+  transmissionId: string | null;
+  transmissionTime: string | null;
+  transmissionSig: string | null;
+  certUrl: string | null;
+  authAlgo: string | null;
+}
+
+export function paypalHeaders(headers: Headers): PaypalSignatureHeaders {
+  return {
+    transmissionId: headers.get("paypal-transmission-id"),
+    transmissionTime: headers.get("paypal-transmission-time"),
+    transmissionSig: headers.get("paypal-transmission-sig"),
+    certUrl: headers.get("paypal-cert-url"),
+    authAlgo: headers.get("paypal-auth-algo"),
+  };
+}
+
+let crcTable: number[] | null = null;
+
+function crc32(text: string): number {
+  if (!crcTable) {
+    crcTable = Array.from({ length: 256 }, (_, n) => {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      return c >>> 0;
+    });
+  }
+  let crc = 0xffffffff;
+  for (const byte of Buffer.from(text)) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// PayPal signs "<transmission id>|<time>|<webhook id>|<crc32 of the body>"
+const paypalMessage = (
+  payload: string,
+  transmissionId: string,
+  transmissionTime: string,
+  webhookId: string
+) => `${transmissionId}|${transmissionTime}|${webhookId}|${crc32(payload)}`;
+
+const certificates = new Map<string, string>();
+
+// PayPal's signing certificate, only ever from PayPal's own hosts
+async function paypalCertificate(url: string): Promise<string | null> {
+  const cached = certificates.get(url);
+  if (cached) return cached;
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== "https:" || !parsed.hostname.endsWith(".paypal.com")) {
+    return null;
+  }
+  const response = await fetch(parsed);
+  if (!response.ok) return null;
+  const certificate = await response.text();
+  certificates.set(url, certificate);
+  return certificate;
+}
+
+// Checks PayPal's transmission signature with the certificate it names, or
+// with `certificate` (a PEM certificate or public key) when given
+export async function verifyPaypalSignature(
+  payload: string,
+  headers: PaypalSignatureHeaders,
+  webhookId: string,
+  certificate?: string,
+  now = Date.now()
+): Promise<boolean> {
+  const { transmissionId, transmissionTime, transmissionSig, certUrl, authAlgo } =
+    headers;
+  if (!transmissionId || !transmissionTime || !transmissionSig) return false;
+  if (authAlgo !== "SHA256withRSA") return false;
+  // The time is signed, so a captured transmission cannot be re-dated
+  const sentAt = Date.parse(transmissionTime);
+  if (Number.isNaN(sentAt) || !withinTolerance(sentAt / 1000, now)) return false;
+
+  const key = certificate ?? (certUrl ? await paypalCertificate(certUrl) : null);
+  if (!key) return false;
+  try {
+    return createVerify("RSA-SHA256")
+      .update(paypalMessage(payload, transmissionId, transmissionTime, webhookId))
+      .verify(key, transmissionSig, "base64");
+  } catch {
+    return false;
+  }
+}
+
+// The headers PayPal would send, signed with a local private key whose
+// certificate or public key is configured instead of PayPal's
+export function signPaypalPayload(
+  payload: string,
+  webhookId: string,
+  privateKey: string,
+  sentAt = new Date()
+): Record<string, string> {
+  const transmissionId = randomUUID();
+  const transmissionTime = sentAt.toISOString();
+  const signature = createSign("RSA-SHA256")
+    .update(paypalMessage(payload, transmissionId, transmissionTime, webhookId))
+    .sign(privateKey, "base64");
+  return {
+    "paypal-transmission-id": transmissionId,
+    "paypal-transmission-time": transmissionTime,
+    "paypal-transmission-sig": signature,
+    "paypal-auth-algo": "SHA256withRSA",
+    "paypal-cert-url": "local",
+  };
+}
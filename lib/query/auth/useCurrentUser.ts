@@ -0,0 +1,25 @@
+import { useQuery } from "@tanstack/react-query";
+import type { StaffRole } from "@/lib/auth/roles";
+
+export interface CurrentUser {
+  id: number;
+  email: string;
+  name: string;
+  role: StaffRole;
+  contactId: number | null;
+  solicitorId: number | null;
+}
+
+export const useCurrentUser = () => {
+  return useQuery<CurrentUser | null, Error>({
+    queryKey: ["current-user"],
+    queryFn: async () => {
+      const response = await fetch("/api/auth/me");
+      if (response.status === 401) return null;
+      if (!response.ok) throw new Error("Failed to fetch current user");
+      const data = await response.json();
+      return data.user;
+    },
+    retry: false,
+  });
+};
@@ -0,0 +1,218 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  DepositBatchDetail,
+  DepositBatchSummary,
+  DepositLinePreview,
+} from "@/lib/deposits";
+import type { EntryMethod } from "@/lib/deposits/fields";
+import type { ColumnMap } from "@/lib/imports/fields";
+import type {
+  DepositBatchUpdateValues,
+  DepositLineAction,
+} from "@/lib/form-schemas/deposit";
+
+export type {
+  DepositBatchDetail,
+  DepositBatchSummary,
+  DepositLineDetail,
+  DepositLinePreview,
+  DepositPayment,
+} from "@/lib/deposits";
+
+export const depositKeys = {
+  all: ["deposits"] as const,
+  list: () => [...depositKeys.all, "list"] as const,
+  detail: (id: number) => [...depositKeys.all, "detail", id] as const,
+};
+
+export interface DepositFileValues {
+  file: File;
+  source: string;
+  depositDate: string;
+  currency: string;
+  notes?: string;
+  // Left out to have the server suggest one from the headers
+  columnMap?: ColumnMap;
+}
+
+export interface EntryDepositValues {
+  depositDate: string;
+  currency: string;
+  expectedTotal?: number | null;
+  expectedCount?: number | null;
+  notes?: string;
+}
+
+export interface DepositPreview {
+  headers: string[];
+  columnMap: ColumnMap;
+  lines: DepositLinePreview[];
+}
+
+async function send(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    const detail = error.details?.[0];
+    throw new Error(
+      detail
+        ? `${detail.field}: ${detail.message}`
+        : error.error || `Request failed with ${response.status}`
+    );
+  }
+  return response.json();
+}
+
+async function sendFile(values: DepositFileValues, dryRun: boolean) {
+  const form = new FormData();
+  form.set("file", values.file);
+  form.set("source", values.source);
+  form.set("depositDate", values.depositDate);
+  form.set("currency", values.currency);
+  if (values.notes) form.set("notes", values.notes);
+  if (values.columnMap) form.set("columnMap", JSON.stringify(values.columnMap));
+  form.set("dryRun", String(dryRun));
+
+  const response = await fetch("/api/deposits", { method: "POST", body: form });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    const detail = error.details?.[0];
+    throw new Error(
+      detail
+        ? `${detail.field}: ${detail.message}`
+        : error.error || `Request failed with ${response.status}`
+    );
+  }
+  return response.json();
+}
+
+export const useDeposits = (enabled = true) => {
+  return useQuery<DepositBatchSummary[], Error>({
+    queryKey: depositKeys.list(),
+    queryFn: async () => {
+      const response = await fetch("/api/deposits");
+      if (!response.ok) throw new Error("Failed to fetch deposits");
+      const data = await response.json();
+      return data.deposits;
+    },
+    enabled,
+  });
+};
+
+export const useDeposit = (id: number) => {
+  return useQuery<DepositBatchDetail, Error>({
+    queryKey: depositKeys.detail(id),
+    queryFn: async () => {
+      const response = await fetch(`/api/deposits/${id}`);
+      if (!response.ok) throw new Error("Failed to fetch deposit");
+      const data = await response.json();
+      return data.deposit;
+    },
+    enabled: id > 0,
+  });
+};
+
+// Reads the file's lines without creating the deposit
+export const usePreviewDeposit = () => {
+  return useMutation<DepositPreview, Error, DepositFileValues>({
+    mutationFn: async (values) => (await sendFile(values, true)).preview,
+  });
+};
+
+export const useCreateDeposit = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<DepositBatchDetail, Error, DepositFileValues>({
+    mutationFn: async (values) => (await sendFile(values, false)).deposit,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: depositKeys.all });
+    },
+  });
+};
+
+// Opens a deposit of checks and cash to key in
+export const useCreateEntryDeposit = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<DepositBatchDetail, Error, EntryDepositValues>({
+    mutationFn: async (values) =>
+      (await send("/api/deposits/checks", "POST", values)).deposit,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: depositKeys.all });
+    },
+  });
+};
+
+// Every change to a deposit returns it whole, and payments change with it
+function useDepositMutation<T>(
+  id: number,
+  request: (variables: T) => Promise<{ deposit: DepositBatchDetail }>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation<DepositBatchDetail, Error, T>({
+    mutationFn: async (variables) => (await request(variables)).deposit,
+    onSuccess: (deposit) => {
+      queryClient.setQueryData(depositKeys.detail(id), deposit);
+      queryClient.invalidateQueries({ queryKey: depositKeys.list() });
+      queryClient.invalidateQueries({ queryKey: ["payments"] });
+    },
+  });
+}
+
+export const useUpdateDepositLine = (id: number) =>
+  useDepositMutation<{ lineId: number } & DepositLineAction>(
+    id,
+    ({ lineId, ...action }) =>
+      send(`/api/deposits/${id}/lines/${lineId}`, "PATCH", action)
+  );
+
+export const useConfirmSuggested = (id: number) =>
+  useDepositMutation<void>(id, () =>
+    send(`/api/deposits/${id}/confirm`, "POST")
+  );
+
+export const useMatchDeposit = (id: number) =>
+  useDepositMutation<void>(id, () => send(`/api/deposits/${id}/match`, "POST"));
+
+export const useCloseDeposit = (id: number) =>
+  useDepositMutation<void>(id, () => send(`/api/deposits/${id}/close`, "POST"));
+
+export const useUpdateDeposit = (id: number) =>
+  useDepositMutation<DepositBatchUpdateValues>(id, (values) =>
+    send(`/api/deposits/${id}`, "PATCH", values)
+  );
+
+export interface DepositEntryInput {
+  pledgeId: number;
+  amount: number;
+  paymentMethod: EntryMethod;
+  checkNumber?: string;
+  paymentDate?: string;
+}
+
+export const useAddDepositEntry = (id: number) =>
+  useDepositMutation<DepositEntryInput>(id, (values) =>
+    send(`/api/deposits/${id}/entries`, "POST", values)
+  );
+
+export const useRemoveDepositEntry = (id: number) =>
+  useDepositMutation<number>(id, (lineId) =>
+    send(`/api/deposits/${id}/entries/${lineId}`, "DELETE")
+  );
+
+export const useDeleteDeposit = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<unknown, Error, number>({
+    mutationFn: (id) => send(`/api/deposits/${id}`, "DELETE"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: depositKeys.all });
+      queryClient.invalidateQueries({ queryKey: ["payments"] });
+    },
+  });
+};
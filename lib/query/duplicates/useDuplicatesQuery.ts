@@ -0,0 +1,78 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { MergeField } from "@/lib/form-schemas/contact-merge";
+
+export type DuplicateReason =
+  | "email"
+  | "phone"
+  | "name"
+  | "similarName"
+  | "address";
+
+export interface DuplicateCandidate {
+  contactId: number;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+}
+
+export interface DuplicateMatch {
+  contact: DuplicateCandidate;
+  duplicate: DuplicateCandidate;
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+export interface MergeContactsInput {
+  survivorId: number;
+  mergedContactId: number;
+  take?: MergeField[];
+}
+
+export const duplicateKeys = {
+  all: ["duplicates"] as const,
+  list: (minScore: number) => [...duplicateKeys.all, minScore] as const,
+};
+
+export const useDuplicates = (minScore: number, enabled = true) => {
+  return useQuery<DuplicateMatch[], Error>({
+    queryKey: duplicateKeys.list(minScore),
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/contacts/duplicates?minScore=${minScore}`
+      );
+      if (!response.ok) throw new Error("Failed to find duplicate contacts");
+      const data = await response.json();
+      return data.duplicates;
+    },
+    enabled,
+  });
+};
+
+// A merge moves pledges and payments between contacts, so every contact and
+// pledge list is stale afterwards
+export const useMergeContacts = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: MergeContactsInput) => {
+      const response = await fetch("/api/contacts/merge", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || "Failed to merge contacts");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: duplicateKeys.all });
+      queryClient.invalidateQueries({ queryKey: ["contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["pledges"] });
+      queryClient.invalidateQueries({ queryKey: ["payments"] });
+    },
+  });
+};
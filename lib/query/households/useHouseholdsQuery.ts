@@ -0,0 +1,148 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  HouseholdDetail,
+  HouseholdSummary,
+} from "@/lib/households";
+import type {
+  HouseholdCreditValues,
+  HouseholdPatchValues,
+  HouseholdValues,
+} from "@/lib/form-schemas/household";
+
+export type {
+  CreditedPayment,
+  HouseholdDetail,
+  HouseholdMemberSummary,
+  HouseholdSummary,
+} from "@/lib/households";
+
+export const householdKeys = {
+  all: ["households"] as const,
+  list: (search: string) => [...householdKeys.all, "list", search] as const,
+  contact: (contactId: number) =>
+    [...householdKeys.all, "contact", contactId] as const,
+  detail: (id: number) => [...householdKeys.all, "detail", id] as const,
+};
+
+async function send(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || `Request failed with ${response.status}`);
+  }
+  return response.json();
+}
+
+export const householdsCsvUrl = (search: string) =>
+  `/api/households?format=csv${search ? `&search=${encodeURIComponent(search)}` : ""}`;
+
+export const useHouseholds = (search: string, enabled = true) => {
+  return useQuery<HouseholdSummary[], Error>({
+    queryKey: householdKeys.list(search),
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (search) params.set("search", search);
+      const response = await fetch(`/api/households?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch households");
+      const data = await response.json();
+      return data.households;
+    },
+    enabled,
+  });
+};
+
+// The household a contact belongs to, or null
+export const useContactHousehold = (contactId: number, enabled = true) => {
+  return useQuery<HouseholdSummary | null, Error>({
+    queryKey: householdKeys.contact(contactId),
+    queryFn: async () => {
+      const response = await fetch(`/api/households?contactId=${contactId}`);
+      if (!response.ok) throw new Error("Failed to fetch household");
+      const data = await response.json();
+      return data.households[0] ?? null;
+    },
+    enabled: enabled && contactId > 0,
+  });
+};
+
+export const useHousehold = (id: number) => {
+  return useQuery<HouseholdDetail, Error>({
+    queryKey: householdKeys.detail(id),
+    queryFn: async () => {
+      const response = await fetch(`/api/households/${id}`);
+      if (!response.ok) throw new Error("Failed to fetch household");
+      const data = await response.json();
+      return data.household;
+    },
+    enabled: id > 0,
+  });
+};
+
+export const useCreateHousehold = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<HouseholdDetail, Error, HouseholdValues>({
+    mutationFn: async (values) =>
+      (await send("/api/households", "POST", values)).household,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: householdKeys.all });
+    },
+  });
+};
+
+export const useUpdateHousehold = (id: number) => {
+  const queryClient = useQueryClient();
+
+  return useMutation<HouseholdDetail, Error, HouseholdPatchValues>({
+    mutationFn: async (values) =>
+      (await send(`/api/households/${id}`, "PATCH", values)).household,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: householdKeys.all });
+    },
+  });
+};
+
+export const useDeleteHousehold = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<unknown, Error, number>({
+    mutationFn: (id) => send(`/api/households/${id}`, "DELETE"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: householdKeys.all });
+    },
+  });
+};
+
+// Crediting changes payments, so payment lists are stale afterwards too
+export const useCreditPayment = (householdId: number) => {
+  const queryClient = useQueryClient();
+
+  return useMutation<unknown, Error, HouseholdCreditValues>({
+    mutationFn: (values) =>
+      send(`/api/households/${householdId}/credits`, "POST", values),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: householdKeys.all });
+      queryClient.invalidateQueries({ queryKey: ["payments"] });
+    },
+  });
+};
+
+export const useUncreditPayment = (householdId: number) => {
+  const queryClient = useQueryClient();
+
+  return useMutation<unknown, Error, number>({
+    mutationFn: (paymentId) =>
+      send(
+        `/api/households/${householdId}/credits?paymentId=${paymentId}`,
+        "DELETE"
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: householdKeys.all });
+      queryClient.invalidateQueries({ queryKey: ["payments"] });
+    },
+  });
+};
@@ -0,0 +1,90 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ImportLogEntry, ImportPreview } from "@/lib/imports";
+import type { ColumnMap, ImportKind } from "@/lib/imports/fields";
+
+export type { ImportLogEntry, ImportPreview, PreviewRow } from "@/lib/imports";
+
+export const importKeys = {
+  all: ["imports"] as const,
+  list: () => [...importKeys.all, "list"] as const,
+};
+
+export interface ImportFileValues {
+  file: File;
+  kind: ImportKind;
+  // Left out to have the server suggest one from the headers
+  columnMap?: ColumnMap;
+  includeDuplicates?: boolean;
+}
+
+async function sendFile(values: ImportFileValues, dryRun: boolean) {
+  const form = new FormData();
+  form.set("file", values.file);
+  form.set("kind", values.kind);
+  if (values.columnMap) form.set("columnMap", JSON.stringify(values.columnMap));
+  form.set("dryRun", String(dryRun));
+  form.set("includeDuplicates", String(!!values.includeDuplicates));
+
+  const response = await fetch("/api/imports", { method: "POST", body: form });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(
+      error.details?.[0]?.message ||
+        error.error ||
+        `Request failed with ${response.status}`
+    );
+  }
+  return response.json();
+}
+
+export const useImports = (enabled = true) => {
+  return useQuery<ImportLogEntry[], Error>({
+    queryKey: importKeys.list(),
+    queryFn: async () => {
+      const response = await fetch("/api/imports");
+      if (!response.ok) throw new Error("Failed to fetch imports");
+      const data = await response.json();
+      return data.imports;
+    },
+    enabled,
+  });
+};
+
+// The dry run: nothing is written
+export const usePreviewImport = () => {
+  return useMutation<ImportPreview, Error, ImportFileValues>({
+    mutationFn: async (values) => (await sendFile(values, true)).preview,
+  });
+};
+
+export const useRunImport = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<ImportLogEntry, Error, ImportFileValues>({
+    mutationFn: async (values) => (await sendFile(values, false)).import,
+    onSuccess: () => {
+      // The imported records show up everywhere
+      queryClient.invalidateQueries();
+    },
+  });
+};
+
+export const useRollbackImport = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<ImportLogEntry, Error, number>({
+    mutationFn: async (id) => {
+      const response = await fetch(`/api/imports/${id}/rollback`, {
+        method: "POST",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || "Failed to roll back import");
+      }
+      return (await response.json()).import;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+    },
+  });
+};
@@ -20,6 +20,7 @@ export interface PaymentPlanFormData {
   endDate?: string;
   nextPaymentDate?: string;
   autoRenew: boolean;
+  remindersOptOut?: boolean;
   notes?: string;
   internalNotes?: string;
   customInstallments?: Array<{
@@ -69,6 +70,9 @@ export interface PaymentPlan {
   remainingAmount: number;
   planStatus: "active" | "completed" | "cancelled" | "paused" | "overdue";
   autoRenew: boolean;
+  remindersSent?: number;
+  lastReminderDate?: string | null;
+  remindersOptOut?: boolean;
   isActive: boolean;
   notes?: string;
   internalNotes?: string;
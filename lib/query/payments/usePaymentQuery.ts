@@ -65,6 +65,10 @@ export interface Payment {
   bonusAmount: string | null;
   bonusRuleId: number | null;
   notes: string | null;
+  refundOfPaymentId: number | null;
+  refundType: "refund" | "reversal" | "chargeback" | null;
+  refundReason: string | null;
+  refundedAmount: string;
   createdAt: string;
   updatedAt: string;
   pledgeDescription?: string | null;
@@ -157,9 +161,7 @@ export interface CreatePaymentData {
     | "processing";
   referenceNumber?: string;
   checkNumber?: string;
-  receiptNumber?: string;
   receiptType?: "invoice" | "confirmation" | "receipt" | "other";
-  receiptIssued?: boolean;
   solicitorId?: number;
   bonusPercentage?: number;
   bonusAmount?: number;
@@ -169,6 +171,8 @@ export interface CreatePaymentData {
   amountInPledgeCurrency?: string | null;
   isSplitPayment?: boolean;
   allocations?: PaymentAllocation[];
+  // Sent as the Idempotency-Key header; reuse it when retrying a submission.
+  idempotencyKey?: string;
 }
 
 export interface CreatePaymentResponse {
@@ -213,9 +217,7 @@ export interface UpdatePaymentData {
     | "processing";
   referenceNumber?: string;
   checkNumber?: string;
-  receiptNumber?: string;
   receiptType?: "invoice" | "confirmation" | "receipt" | "other";
-  receiptIssued?: boolean;
   solicitorId?: number;
   bonusPercentage?: number;
   bonusAmount?: number;
@@ -264,13 +266,15 @@ const fetchPayments = async (
   return response.json();
 };
 
-const createPayment = async (
-  data: CreatePaymentData
-): Promise<CreatePaymentResponse> => {
+const createPayment = async ({
+  idempotencyKey,
+  ...data
+}: CreatePaymentData): Promise<CreatePaymentResponse> => {
   const response = await fetch("/api/payments", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
+      ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
     },
     body: JSON.stringify(data),
   });
@@ -18,8 +18,6 @@ export interface CreatePaymentData {
     | "processing";
   referenceNumber?: string;
   checkNumber?: string;
-  receiptNumber?: string;
-  receiptIssued?: boolean;
   notes?: string;
   paymentPlanId?: number;
 }
@@ -422,11 +420,6 @@ interface DeletePledgeResponse {
   success: boolean;
   message: string;
   deletedPledgeId: number;
-  deletedRecords: {
-    bonusCalculations: number;
-    payments: number;
-    paymentPlans: number;
-  };
 }
 
 export const useDeletePledge = () => {
@@ -439,6 +432,7 @@ export const useDeletePledge = () => {
       queryClient.removeQueries({ queryKey: ["pledge", pledgeId] });
       queryClient.invalidateQueries({ queryKey: ["payments"] });
       queryClient.invalidateQueries({ queryKey: ["paymentPlans"] });
+      queryClient.invalidateQueries({ queryKey: ["trash"] });
     },
   });
 };
\ No newline at end of file
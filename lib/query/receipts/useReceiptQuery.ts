@@ -0,0 +1,81 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+export interface Receipt {
+  id: number;
+  receiptNumber: string;
+  fiscalYear: number;
+  paymentId: number | null;
+  contactId: number | null;
+  receiptType: "invoice" | "confirmation" | "receipt" | "other";
+  status: "issued" | "void";
+  donorName: string;
+  amount: string;
+  currency: string;
+  paymentDate: string;
+  issuedAt: string;
+  voidedAt: string | null;
+  voidReason: string | null;
+  replacesReceiptId: number | null;
+}
+
+export const receiptKeys = {
+  all: ["receipts"] as const,
+  payment: (paymentId: number) => [...receiptKeys.all, "payment", paymentId] as const,
+};
+
+export const receiptPdfUrl = (receiptId: number) => `/api/receipts/${receiptId}`;
+
+export const usePaymentReceipts = (paymentId: number, enabled = true) => {
+  return useQuery<Receipt[], Error>({
+    queryKey: receiptKeys.payment(paymentId),
+    queryFn: async () => {
+      const response = await fetch(`/api/receipts?paymentId=${paymentId}`);
+      if (!response.ok) throw new Error("Failed to fetch receipts");
+      const data = await response.json();
+      return data.receipts;
+    },
+    enabled,
+  });
+};
+
+async function postReceipt(url: string, body: object, failure: string) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || failure);
+  }
+  return response.json();
+}
+
+export const useReceiptAction = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      action,
+      paymentId,
+      receiptId,
+      reason,
+    }: {
+      action: "issue" | "void" | "reissue";
+      paymentId: number;
+      receiptId?: number;
+      reason?: string;
+    }) =>
+      action === "issue"
+        ? postReceipt("/api/receipts", { paymentId }, "Failed to issue receipt")
+        : postReceipt(
+            `/api/receipts/${receiptId}/${action}`,
+            { reason },
+            `Failed to ${action} receipt`
+          ),
+    onSuccess: (_, { paymentId }) => {
+      queryClient.invalidateQueries({ queryKey: receiptKeys.payment(paymentId) });
+      queryClient.invalidateQueries({ queryKey: ["payments"] });
+    },
+  });
+};
@@ -0,0 +1,68 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+export type RefundType = "refund" | "reversal" | "chargeback";
+
+export interface Refund {
+  id: number;
+  refundOfPaymentId: number;
+  refundType: RefundType;
+  refundReason: string | null;
+  amount: string;
+  currency: string;
+  amountUsd: string | null;
+  paymentDate: string;
+  referenceNumber: string | null;
+  bonusAmount: string | null;
+  createdAt: string;
+}
+
+export interface RefundInput {
+  paymentId: number;
+  amount: number;
+  refundType: RefundType;
+  reason: string;
+  refundDate?: string;
+  referenceNumber?: string;
+}
+
+export const refundKeys = {
+  all: ["refunds"] as const,
+  payment: (paymentId: number) => [...refundKeys.all, "payment", paymentId] as const,
+};
+
+export const usePaymentRefunds = (paymentId: number, enabled = true) => {
+  return useQuery<Refund[], Error>({
+    queryKey: refundKeys.payment(paymentId),
+    queryFn: async () => {
+      const response = await fetch(`/api/refunds?paymentId=${paymentId}`);
+      if (!response.ok) throw new Error("Failed to fetch refunds");
+      const data = await response.json();
+      return data.refunds;
+    },
+    enabled,
+  });
+};
+
+export const useRefundPayment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: RefundInput) => {
+      const response = await fetch("/api/refunds", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || "Failed to refund payment");
+      }
+      return response.json();
+    },
+    onSuccess: (_, { paymentId }) => {
+      queryClient.invalidateQueries({ queryKey: refundKeys.payment(paymentId) });
+      queryClient.invalidateQueries({ queryKey: ["payments"] });
+      queryClient.invalidateQueries({ queryKey: ["pledges"] });
+    },
+  });
+};
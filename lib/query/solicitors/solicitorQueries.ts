@@ -332,7 +332,7 @@ export const useRecalculateBonus = () => {
   });
 };
 
-export const useDashboardStats = () => {
+export const useDashboardStats = (enabled: boolean = true) => {
   return useQuery({
     queryKey: ["dashboard-stats"],
     queryFn: async () => {
@@ -341,6 +341,7 @@ export const useDashboardStats = () => {
       return response.json();
     },
     refetchInterval: 5 * 60 * 1000,
+    enabled,
   });
 };
 
@@ -364,3 +365,87 @@ export const useTopPerformers = (
     },
   });
 };
+
+interface PayoutBatchesParams {
+  solicitorId?: number;
+  status?: string;
+}
+
+export const usePayoutBatches = (params: PayoutBatchesParams = {}) => {
+  return useQuery({
+    queryKey: ["payout-batches", params],
+    queryFn: async () => {
+      const searchParams = new URLSearchParams();
+      if (params.solicitorId)
+        searchParams.set("solicitorId", params.solicitorId.toString());
+      if (params.status) searchParams.set("status", params.status);
+
+      const response = await fetch(`/api/payout-batches?${searchParams}`);
+      if (!response.ok) throw new Error("Failed to fetch payout batches");
+      return response.json();
+    },
+  });
+};
+
+export const useCreatePayoutBatches = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: {
+      periodStart: string;
+      periodEnd: string;
+      solicitorIds?: number[];
+      notes?: string;
+    }) => {
+      const response = await fetch("/api/payout-batches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) throw new Error("Failed to create payout batches");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["payout-batches"] });
+      queryClient.invalidateQueries({ queryKey: ["bonus-calculations"] });
+    },
+  });
+};
+
+// Approves, pays or cancels a payout batch
+export const usePayoutBatchAction = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      batchId,
+      action,
+      paymentReference,
+    }: {
+      batchId: number;
+      action: "approve" | "pay" | "cancel";
+      paymentReference?: string;
+    }) => {
+      const response = await fetch(
+        `/api/payout-batches/${batchId}/${action}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            action === "pay" ? { paymentReference: paymentReference || null } : {}
+          ),
+        }
+      );
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || `Failed to ${action} payout batch`);
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["payout-batches"] });
+      queryClient.invalidateQueries({ queryKey: ["bonus-calculations"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+    },
+  });
+};
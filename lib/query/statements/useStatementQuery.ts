@@ -0,0 +1,58 @@
+import { useQuery } from "@tanstack/react-query";
+
+export type StatementBasis = "calendar" | "fiscal";
+export type StatementFormat = "pdf" | "csv" | "json";
+
+export interface StatementParams {
+  year: number;
+  basis: StatementBasis;
+}
+
+export interface GivingStatementSummary {
+  contactId: number;
+  donorName: string;
+  currency: string;
+  period: { year: number; basis: StatementBasis; start: string; end: string };
+  lines: { paymentId: number; allocationId: number | null }[];
+  totalUsd: number;
+  total: number;
+}
+
+export const statementKeys = {
+  all: ["statements"] as const,
+  contact: (contactId: number, params: StatementParams) =>
+    [...statementKeys.all, "contact", contactId, params] as const,
+};
+
+const query = ({ year, basis }: StatementParams, format: StatementFormat) =>
+  new URLSearchParams({ year: String(year), basis, format }).toString();
+
+export const contactStatementUrl = (
+  contactId: number,
+  params: StatementParams,
+  format: StatementFormat
+) => `/api/contacts/${contactId}/statement?${query(params, format)}`;
+
+export const bulkStatementsUrl = (
+  params: StatementParams,
+  format: StatementFormat
+) => `/api/statements?${query(params, format)}`;
+
+export const useContactStatement = (
+  contactId: number,
+  params: StatementParams,
+  enabled = true
+) => {
+  return useQuery<GivingStatementSummary, Error>({
+    queryKey: statementKeys.contact(contactId, params),
+    queryFn: async () => {
+      const response = await fetch(
+        contactStatementUrl(contactId, params, "json")
+      );
+      if (!response.ok) throw new Error("Failed to fetch statement");
+      const data = await response.json();
+      return data.statement;
+    },
+    enabled,
+  });
+};
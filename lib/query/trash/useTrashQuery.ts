@@ -0,0 +1,67 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+export type TrashKind = "contact" | "pledge" | "payment";
+
+export interface TrashItem {
+  kind: TrashKind;
+  id: number;
+  label: string;
+  contactId: number | null;
+  deletedAt: string;
+  deletedByName: string | null;
+}
+
+export const trashKeys = {
+  all: ["trash"] as const,
+  list: (kind?: TrashKind) => [...trashKeys.all, kind ?? "all"] as const,
+};
+
+async function trashRequest(url: string, method: string, fallback: string) {
+  const response = await fetch(url, { method });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || fallback);
+  }
+  return response.json();
+}
+
+export const useTrash = (kind?: TrashKind, enabled = true) => {
+  return useQuery<TrashItem[], Error>({
+    queryKey: trashKeys.list(kind),
+    queryFn: async () => {
+      const response = await fetch(kind ? `/api/trash?kind=${kind}` : "/api/trash");
+      if (!response.ok) throw new Error("Failed to fetch trash");
+      const data = await response.json();
+      return data.items;
+    },
+    enabled,
+  });
+};
+
+// Restoring or purging changes what every list and total shows
+const useTrashMutation = (
+  request: (item: Pick<TrashItem, "kind" | "id">) => Promise<unknown>
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: request,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: trashKeys.all });
+      queryClient.invalidateQueries({ queryKey: ["contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["pledges"] });
+      queryClient.invalidateQueries({ queryKey: ["payments"] });
+      queryClient.invalidateQueries({ queryKey: ["paymentPlans"] });
+    },
+  });
+};
+
+export const useRestoreFromTrash = () =>
+  useTrashMutation(({ kind, id }) =>
+    trashRequest(`/api/trash/${kind}/${id}/restore`, "POST", "Failed to restore")
+  );
+
+export const usePurgeFromTrash = () =>
+  useTrashMutation(({ kind, id }) =>
+    trashRequest(`/api/trash/${kind}/${id}`, "DELETE", "Failed to delete permanently")
+  );
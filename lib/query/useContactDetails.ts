@@ -1,10 +1,21 @@
 import { useQuery } from "@tanstack/react-query";
-import { Contact, ContactRole, StudentRole } from "@/lib/db/schema";
+import {
+  Contact,
+  ContactAddress,
+  ContactEmail,
+  ContactPhone,
+  ContactRole,
+  StudentRole,
+} from "@/lib/db/schema";
 
 interface ContactResponse {
   contact: Contact & {
     contactRoles: ContactRole[];
     studentRoles: StudentRole[];
+    // Primary first
+    addresses: Omit<ContactAddress, "id">[];
+    phones: Omit<ContactPhone, "id">[];
+    emails: Omit<ContactEmail, "id">[];
   };
   financialSummary: {
     totalPledgedUsd: number;
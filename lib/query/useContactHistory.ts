@@ -0,0 +1,68 @@
+import { useQuery } from "@tanstack/react-query";
+import axios, { AxiosError } from "axios";
+
+export type AuditAction = "create" | "update" | "delete";
+
+export interface HistoryEntry {
+  id: number;
+  tableName: string;
+  recordId: number;
+  action: AuditAction;
+  fieldName: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+  changedAt: string;
+  ipAddress: string | null;
+  changedByName: string | null;
+  changedByEmail: string | null;
+}
+
+interface ContactHistoryResponse {
+  history: HistoryEntry[];
+  pagination: {
+    page: number;
+    limit: number;
+    totalCount: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+  };
+}
+
+interface ErrorResponse {
+  error: string;
+  details?: { field: string; message: string }[];
+}
+
+interface ContactHistoryParams {
+  contactId: number;
+  page?: number;
+  limit?: number;
+  tableName?: string;
+}
+
+const fetchContactHistory = async ({
+  contactId,
+  ...params
+}: ContactHistoryParams): Promise<ContactHistoryResponse> => {
+  const response = await axios.get<ContactHistoryResponse>(
+    `/api/contacts/${contactId}/history`,
+    { params }
+  );
+  return response.data;
+};
+
+export const useContactHistory = (params: ContactHistoryParams) => {
+  return useQuery<ContactHistoryResponse, AxiosError<ErrorResponse>>({
+    queryKey: [
+      "contact-history",
+      params.contactId,
+      params.page,
+      params.limit,
+      params.tableName,
+    ],
+    queryFn: () => fetchContactHistory(params),
+    enabled: !!params.contactId,
+    staleTime: 30 * 1000,
+  });
+};
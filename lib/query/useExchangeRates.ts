@@ -4,33 +4,38 @@ import axios from "axios";
 interface ExchangeRateData {
   data: {
     currency: string;
+    date: string;
+    source: string;
+    // Units of each currency per one US dollar (see lib/currency.ts).
     rates: Record<string, string>;
   };
 }
 
-const fetchExchangeRates = async (date?: string): Promise<ExchangeRateData> => {
-  const ACCESS_KEY =
-    process.env.NEXT_PUBLIC_EXCHANGERATE_API_KEY || "YOUR_ACCESS_KEY";
-  const targetDate = date || new Date().toISOString().split("T")[0];
+interface ExchangeRatesResponse {
+  base: string;
+  date: string;
+  source: string;
+  // Units of each currency per one US dollar.
+  rates: Record<string, number>;
+}
 
-  const response = await axios.get(
-    `https://api.exchangerate.host/historical?access_key=${ACCESS_KEY}&date=${targetDate}&currencies=USD,ILS,EUR,JPY,GBP,AUD,CAD,ZAR&format=1`
+const fetchExchangeRates = async (date?: string): Promise<ExchangeRateData> => {
+  const response = await axios.get<ExchangeRatesResponse>(
+    "/api/exchange-rates",
+    { params: date ? { date } : undefined }
   );
-  const transformedRates: Record<string, string> = {};
 
-  if (response.data.quotes) {
-    Object.entries(response.data.quotes).forEach(([key, value]) => {
-      if (key.startsWith("USD")) {
-        const currency = key.replace("USD", "");
-        transformedRates[currency] = (1 / Number(value)).toString();
-      }
-    });
-    transformedRates["USD"] = "1.0";
-  }
+  const transformedRates: Record<string, string> = {};
+  Object.entries(response.data.rates).forEach(([currency, value]) => {
+    transformedRates[currency] = value.toString();
+  });
+  transformedRates["USD"] = "1";
 
   return {
     data: {
       currency: "USD",
+      date: response.data.date,
+      source: response.data.source,
       rates: transformedRates,
     },
   };
@@ -0,0 +1,147 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type {
+  DeliveryEntry,
+  SourceWithSecret,
+  WebhookSourceSummary,
+  WebhookSourceView,
+} from "@/lib/webhooks";
+import type { WebhookDelivery } from "@/lib/db/schema";
+import type { ColumnMap, ImportKind } from "@/lib/imports/fields";
+
+export type {
+  DeliveryEntry,
+  SourceWithSecret,
+  WebhookSourceSummary,
+} from "@/lib/webhooks";
+
+export const webhookKeys = {
+  all: ["webhooks"] as const,
+  sources: () => [...webhookKeys.all, "sources"] as const,
+  deliveries: (sourceId: number, status?: string) =>
+    [...webhookKeys.all, "deliveries", sourceId, status ?? "all"] as const,
+};
+
+export interface WebhookSourceInput {
+  name: string;
+  slug: string;
+  target: ImportKind;
+  fieldMap: ColumnMap;
+  isActive?: boolean;
+}
+
+async function send(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    const detail = error.details?.[0];
+    throw new Error(
+      detail
+        ? `${detail.field}: ${detail.message}`
+        : error.error || `Request failed with ${response.status}`
+    );
+  }
+  return response.json();
+}
+
+export const useWebhookSources = (enabled = true) => {
+  return useQuery<WebhookSourceSummary[], Error>({
+    queryKey: webhookKeys.sources(),
+    queryFn: async () => {
+      const response = await fetch("/api/webhook-sources");
+      if (!response.ok) throw new Error("Failed to fetch webhook sources");
+      const data = await response.json();
+      return data.sources;
+    },
+    enabled,
+  });
+};
+
+export const useWebhookDeliveries = (
+  sourceId: number | null,
+  status?: WebhookDelivery["status"]
+) => {
+  return useQuery<DeliveryEntry[], Error>({
+    queryKey: webhookKeys.deliveries(sourceId ?? 0, status),
+    queryFn: async () => {
+      const query = status ? `?status=${status}` : "";
+      const response = await fetch(
+        `/api/webhook-sources/${sourceId}/deliveries${query}`
+      );
+      if (!response.ok) throw new Error("Failed to fetch deliveries");
+      const data = await response.json();
+      return data.deliveries;
+    },
+    enabled: !!sourceId,
+  });
+};
+
+// The secret comes back with the new source, once
+export const useCreateWebhookSource = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<SourceWithSecret, Error, WebhookSourceInput>({
+    mutationFn: (values) => send("/api/webhook-sources", "POST", values),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.sources() });
+    },
+  });
+};
+
+export const useUpdateWebhookSource = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    WebhookSourceView,
+    Error,
+    { id: number } & Partial<WebhookSourceInput>
+  >({
+    mutationFn: async ({ id, ...values }) =>
+      (await send(`/api/webhook-sources/${id}`, "PATCH", values)).source,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.sources() });
+    },
+  });
+};
+
+export const useRotateWebhookSecret = () => {
+  return useMutation<SourceWithSecret, Error, number>({
+    mutationFn: (id) => send(`/api/webhook-sources/${id}/secret`, "POST"),
+  });
+};
+
+export const useDeleteWebhookSource = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<WebhookSourceView, Error, number>({
+    mutationFn: async (id) =>
+      (await send(`/api/webhook-sources/${id}`, "DELETE")).source,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.all });
+    },
+  });
+};
+
+export const useReplayDelivery = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<
+    WebhookDelivery,
+    Error,
+    { id: number; includeDuplicates?: boolean }
+  >({
+    mutationFn: async ({ id, includeDuplicates }) =>
+      (
+        await send(`/api/webhook-deliveries/${id}/replay`, "POST", {
+          includeDuplicates,
+        })
+      ).delivery,
+    onSuccess: () => {
+      // A replay can create a contact, pledge or payment anywhere
+      queryClient.invalidateQueries();
+    },
+  });
+};
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq, sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { txDb } from "@/lib/db";
+import { contact, payment, pledge, receipt } from "@/lib/db/schema";
+import {
+  fiscalYearOf,
+  fiscalYearRange,
+  formatReceiptNumber,
+  issueReceipt,
+  reissueReceipt,
+  ReceiptStateError,
+  voidReceipt,
+} from "./receipts";
+
+let pledgeId: number;
+
+async function addPayment(
+  values: Partial<typeof payment.$inferInsert> = {}
+) {
+  const [created] = await txDb
+    .insert(payment)
+    .values({
+      pledgeId,
+      amount: "100.00",
+      amountUsd: "100.00",
+      currency: "USD",
+      paymentDate: "2025-03-01",
+      paymentMethod: "check",
+      ...values,
+    })
+    .returning();
+  return created.id;
+}
+
+const issue = (paymentId: number) =>
+  txDb.transaction((tx) => issueReceipt(paymentId, {}, tx));
+
+beforeEach(async () => {
+  await txDb.execute(
+    sql`TRUNCATE ${contact}, ${pledge}, ${payment}, ${receipt}, receipt_sequence RESTART IDENTITY CASCADE`
+  );
+  const [donor] = await txDb
+    .insert(contact)
+    .values({ firstName: "Dana", lastName: "Donor", address: "1 Main St" })
+    .returning();
+  [{ id: pledgeId }] = await txDb
+    .insert(pledge)
+    .values({
+      contactId: donor.id,
+      pledgeDate: "2025-01-01",
+      originalAmount: "1000.00",
+      balance: "1000.00",
+    })
+    .returning();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("fiscal years", () => {
+  it("are calendar years by default", () => {
+    expect(fiscalYearOf("2025-07-15")).toBe(2025);
+    expect(fiscalYearRange(2025)).toEqual({ start: "2025-01-01", end: "2025-12-31" });
+  });
+
+  it("are named after the year they end in", () => {
+    vi.stubEnv("FISCAL_YEAR_START_MONTH", "7");
+    expect(fiscalYearOf("2024-07-01")).toBe(2025);
+    expect(fiscalYearOf("2025-06-30")).toBe(2025);
+    expect(fiscalYearRange(2025)).toEqual({ start: "2024-07-01", end: "2025-06-30" });
+  });
+
+  it("number receipts within the year", () => {
+    expect(formatReceiptNumber(2025, 42)).toBe("2025-000042");
+  });
+});
+
+describe("issueReceipt", () => {
+  it("numbers receipts one after another in each fiscal year", async () => {
+    const numbers = [];
+    for (const paymentDate of ["2025-01-10", "2025-02-10", "2026-01-10"]) {
+      const { receipt: issued } = await issue(await addPayment({ paymentDate }));
+      numbers.push(issued.receiptNumber);
+    }
+    expect(numbers).toEqual(["2025-000001", "2025-000002", "2026-000001"]);
+  });
+
+  it("gives the number back when the transaction rolls back", async () => {
+    const first = await addPayment();
+    await expect(
+      txDb.transaction(async (tx) => {
+        await issueReceipt(first, {}, tx);
+        throw new Error("Audit failed");
+      })
+    ).rejects.toThrow("Audit failed");
+
+    const { receipt: issued } = await issue(await addPayment());
+    expect(issued.receiptNumber).toBe("2025-000001");
+  });
+
+  it("snapshots the donor and marks the payment receipted", async () => {
+    const paymentId = await addPayment({ amount: "100.00", refundedAmount: "40.00" });
+    const { receipt: issued, paymentAfter } = await issue(paymentId);
+
+    expect(issued).toMatchObject({
+      donorName: "Dana Donor",
+      donorAddress: "1 Main St",
+      amount: "60.00",
+      amountUsd: "60.00",
+    });
+    expect(paymentAfter).toMatchObject({
+      receiptNumber: issued.receiptNumber,
+      receiptIssued: true,
+    });
+  });
+
+  it("refuses payments that cannot be receipted", async () => {
+    const pending = await addPayment({ paymentStatus: "pending" });
+    await expect(issue(pending)).rejects.toBeInstanceOf(ReceiptStateError);
+
+    const receipted = await addPayment();
+    await issue(receipted);
+    await expect(issue(receipted)).rejects.toThrow("already has receipt");
+  });
+});
+
+describe("voiding and reissuing", () => {
+  it("keeps a voided number used", async () => {
+    const paymentId = await addPayment();
+    const { receipt: first } = await issue(paymentId);
+
+    const { voided, issued } = await txDb.transaction((tx) =>
+      reissueReceipt(first, "Wrong name", {}, tx)
+    );
+    expect(voided.receipt.status).toBe("void");
+    expect(issued.receipt).toMatchObject({
+      receiptNumber: "2025-000002",
+      replacesReceiptId: first.id,
+    });
+  });
+
+  it("marks the payment unreceipted", async () => {
+    const paymentId = await addPayment();
+    const { receipt: issued } = await issue(paymentId);
+    await txDb.transaction((tx) => voidReceipt(issued, "Duplicate", null, tx));
+
+    const [row] = await txDb.select().from(payment).where(eq(payment.id, paymentId));
+    expect(row).toMatchObject({ receiptNumber: null, receiptIssued: false });
+    await expect(
+      txDb.transaction((tx) => voidReceipt(issued, "Again", null, tx))
+    ).rejects.toBeInstanceOf(ReceiptStateError);
+  });
+});
@@ -0,0 +1,459 @@
+import { and, eq, sql } from "drizzle-orm";
+import { db, type DbExecutor } from "@/lib/db";
+import {
+  contact,
+  payment,
+  receipt,
+  receiptSequence,
+  type Payment,
+  type Receipt,
+} from "@/lib/db/schema";
+import { getPaymentContactId, recordAudit } from "@/lib/audit";
+import type { SessionUser } from "@/lib/auth/guard";
+import { moneyString, toNumber } from "@/lib/currency";
+import { getOrganization } from "@/lib/organization";
+import {
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  renderPdf,
+  wrapText,
+  type PdfText,
+} from "@/lib/pdf";
+
+export class ReceiptStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReceiptStateError";
+  }
+}
+
+export type ReceiptType = Receipt["receiptType"];
+
+export interface IssueReceiptOptions {
+  receiptType?: ReceiptType;
+  issuedBy?: number | null;
+  replacesReceiptId?: number | null;
+}
+
+export interface ReceiptChange {
+  receipt: Receipt;
+  paymentBefore: Payment | null;
+  paymentAfter: Payment | null;
+}
+
+// Only money actually received can be receipted.
+const RECEIPTABLE_STATUS = "completed";
+
+const DEFAULT_TAX_STATEMENT =
+  "No goods or services were provided in exchange for this contribution. " +
+  "It is tax-deductible to the extent allowed by law.";
+
+// FISCAL_YEAR_START_MONTH (1-12, default 1) is the first month of the fiscal
+// year. A fiscal year is named after the calendar year it ends in, so with a
+// July start, July 2024 to June 2025 is fiscal 2025.
+function fiscalYearStartMonth(): number {
+  const startMonth = parseInt(process.env.FISCAL_YEAR_START_MONTH ?? "1", 10);
+  return startMonth >= 1 && startMonth <= 12 ? startMonth : 1;
+}
+
+export function fiscalYearOf(date: string): number {
+  const startMonth = fiscalYearStartMonth();
+  const [year, month] = date.split("-").map(Number);
+  return startMonth > 1 && month >= startMonth ? year + 1 : year;
+}
+
+// First and last day (YYYY-MM-DD) of a fiscal year.
+export function fiscalYearRange(fiscalYear: number): {
+  start: string;
+  end: string;
+} {
+  const startMonth = fiscalYearStartMonth();
+  if (startMonth === 1) {
+    return { start: `${fiscalYear}-01-01`, end: `${fiscalYear}-12-31` };
+  }
+  const start = `${fiscalYear - 1}-${String(startMonth).padStart(2, "0")}-01`;
+  const end = new Date(Date.UTC(fiscalYear, startMonth - 1, 0));
+  return { start, end: end.toISOString().split("T")[0] };
+}
+
+export function formatReceiptNumber(fiscalYear: number, sequence: number) {
+  return `${fiscalYear}-${String(sequence).padStart(6, "0")}`;
+}
+
+export async function getReceipt(
+  receiptId: number,
+  executor: DbExecutor = db
+): Promise<Receipt | null> {
+  const [row] = await executor
+    .select()
+    .from(receipt)
+    .where(eq(receipt.id, receiptId))
+    .limit(1);
+  return row ?? null;
+}
+
+// The payment's live (not voided) receipt, if any.
+export async function getIssuedReceipt(
+  paymentId: number,
+  executor: DbExecutor = db
+): Promise<Receipt | null> {
+  const [row] = await executor
+    .select()
+    .from(receipt)
+    .where(and(eq(receipt.paymentId, paymentId), eq(receipt.status, "issued")))
+    .limit(1);
+  return row ?? null;
+}
+
+// Takes the fiscal year's next number. The sequence row stays locked until
+// the transaction ends, so concurrent issues queue up and a rollback gives
+// the number back.
+async function nextSequence(
+  fiscalYear: number,
+  executor: DbExecutor
+): Promise<number> {
+  const [row] = await executor
+    .insert(receiptSequence)
+    .values({ fiscalYear, lastNumber: 1 })
+    .onConflictDoUpdate({
+      target: receiptSequence.fiscalYear,
+      set: {
+        lastNumber: sql`${receiptSequence.lastNumber} + 1`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+  return row.lastNumber;
+}
+
+// Issues the next receipt number for a completed payment, snapshots the donor
+// and amount, and marks the payment receipted. Must run in a transaction so
+// the number is only used if the receipt is saved.
+export async function issueReceipt(
+  paymentId: number,
+  options: IssueReceiptOptions,
+  executor: DbExecutor
+): Promise<ReceiptChange> {
+  const [current] = await executor
+    .select()
+    .from(payment)
+    .where(eq(payment.id, paymentId))
+    .for("update");
+  if (!current || current.deletedAt) {
+    throw new ReceiptStateError(`Payment ${paymentId} does not exist`);
+  }
+  if (current.paymentStatus !== RECEIPTABLE_STATUS) {
+    throw new ReceiptStateError(
+      `Cannot issue a receipt for a ${current.paymentStatus} payment`
+    );
+  }
+  if (current.refundOfPaymentId) {
+    throw new ReceiptStateError("Refunds do not get receipts");
+  }
+  // A receipt states what the donor actually gave, net of refunds
+  const amount = toNumber(current.amount) - toNumber(current.refundedAmount);
+  if (amount <= 0) {
+    throw new ReceiptStateError(
+      `Payment ${paymentId} has been refunded in full`
+    );
+  }
+  const netShare = amount / toNumber(current.amount);
+
+  const existing = await getIssuedReceipt(paymentId, executor);
+  if (existing) {
+    throw new ReceiptStateError(
+      `Payment ${paymentId} already has receipt ${existing.receiptNumber}; void or reissue it instead`
+    );
+  }
+
+  const contactId = await getPaymentContactId(paymentId, executor);
+  const [donor] = contactId
+    ? await executor
+        .select({
+          firstName: contact.firstName,
+          lastName: contact.lastName,
+          address: contact.address,
+        })
+        .from(contact)
+        .where(eq(contact.id, contactId))
+        .limit(1)
+    : [];
+
+  const fiscalYear = fiscalYearOf(current.paymentDate);
+  const sequence = await nextSequence(fiscalYear, executor);
+  const receiptType = options.receiptType ?? current.receiptType ?? "receipt";
+
+  const [created] = await executor
+    .insert(receipt)
+    .values({
+      receiptNumber: formatReceiptNumber(fiscalYear, sequence),
+      fiscalYear,
+      sequence,
+      paymentId,
+      contactId,
+      receiptType,
+      donorName: donor
+        ? `${donor.firstName} ${donor.lastName}`.trim()
+        : "Anonymous donor",
+      donorAddress: donor?.address ?? null,
+      amount: moneyString(amount),
+      currency: current.currency,
+      amountUsd:
+        current.amountUsd === null
+          ? null
+          : moneyString(toNumber(current.amountUsd) * netShare),
+      paymentDate: current.paymentDate,
+      paymentMethod: current.paymentMethod,
+      issuedBy: options.issuedBy ?? null,
+      replacesReceiptId: options.replacesReceiptId ?? null,
+    })
+    .returning();
+
+  const [updated] = await executor
+    .update(payment)
+    .set({
+      receiptNumber: created.receiptNumber,
+      receiptType,
+      receiptIssued: true,
+      updatedAt: new Date(),
+    })
+    .where(eq(payment.id, paymentId))
+    .returning();
+
+  return { receipt: created, paymentBefore: current, paymentAfter: updated };
+}
+
+// Voids an issued receipt. Its number stays used; the payment is marked
+// unreceipted until a new receipt is issued.
+export async function voidReceipt(
+  target: Receipt,
+  reason: string,
+  voidedBy: number | null,
+  executor: DbExecutor
+): Promise<ReceiptChange> {
+  if (target.status !== "issued") {
+    throw new ReceiptStateError(
+      `Receipt ${target.receiptNumber} has already been voided`
+    );
+  }
+
+  const [voided] = await executor
+    .update(receipt)
+    .set({
+      status: "void",
+      voidedBy,
+      voidedAt: new Date(),
+      voidReason: reason,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(receipt.id, target.id), eq(receipt.status, "issued")))
+    .returning();
+  if (!voided) {
+    throw new ReceiptStateError(
+      `Receipt ${target.receiptNumber} has already been voided`
+    );
+  }
+
+  if (target.paymentId === null) {
+    return { receipt: voided, paymentBefore: null, paymentAfter: null };
+  }
+
+  const [paymentBefore] = await executor
+    .select()
+    .from(payment)
+    .where(eq(payment.id, target.paymentId))
+    .limit(1);
+  const [paymentAfter] = await executor
+    .update(payment)
+    .set({ receiptNumber: null, receiptIssued: false, updatedAt: new Date() })
+    .where(eq(payment.id, target.paymentId))
+    .returning();
+
+  return {
+    receipt: voided,
+    paymentBefore: paymentBefore ?? null,
+    paymentAfter: paymentAfter ?? null,
+  };
+}
+
+// Voids a receipt and issues its payment a new one, under a new number, from
+// the payment as it stands now.
+export async function reissueReceipt(
+  target: Receipt,
+  reason: string,
+  options: Omit<IssueReceiptOptions, "replacesReceiptId">,
+  executor: DbExecutor
+): Promise<{ voided: ReceiptChange; issued: ReceiptChange }> {
+  if (target.paymentId === null) {
+    throw new ReceiptStateError(
+      `Receipt ${target.receiptNumber} cannot be reissued because its payment was deleted`
+    );
+  }
+
+  const voided = await voidReceipt(
+    target,
+    reason,
+    options.issuedBy ?? null,
+    executor
+  );
+  const issued = await issueReceipt(
+    target.paymentId,
+    {
+      receiptType: options.receiptType ?? target.receiptType,
+      issuedBy: options.issuedBy,
+      replacesReceiptId: target.id,
+    },
+    executor
+  );
+  return { voided, issued };
+}
+
+// Writes the audit entries for an issue or void once its transaction has
+// committed: the receipt itself and the payment's receipt fields.
+export async function auditReceiptChange(
+  user: SessionUser | null,
+  change: ReceiptChange,
+  before: Receipt | null = null
+): Promise<void> {
+  await recordAudit(user, {
+    table: receipt,
+    recordId: change.receipt.id,
+    action: before ? "update" : "create",
+    before,
+    after: change.receipt,
+    contactId: change.receipt.contactId,
+  });
+
+  if (change.paymentBefore && change.paymentAfter) {
+    await recordAudit(user, {
+      table: payment,
+      recordId: change.paymentAfter.id,
+      action: "update",
+      before: change.paymentBefore,
+      after: change.paymentAfter,
+      contactId: change.receipt.contactId,
+    });
+  }
+}
+
+function formatMoney(amount: string | number, currency: string): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(
+    toNumber(amount)
+  );
+}
+
+function formatLongDate(date: string | Date): string {
+  return new Intl.DateTimeFormat("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  }).format(typeof date === "string" ? new Date(`${date}T00:00:00Z`) : date);
+}
+
+const RECEIPT_TITLES: Record<ReceiptType, string> = {
+  receipt: "Official Donation Receipt",
+  confirmation: "Donation Confirmation",
+  invoice: "Invoice",
+  other: "Receipt",
+};
+
+// One-page PDF with the organisation's details, the donor, the payment and
+// the tax-deductible statement (RECEIPT_TAX_STATEMENT). Voided receipts are
+// marked VOID.
+export function renderReceiptPdf(
+  target: Receipt,
+  replacesReceiptNumber: string | null = null
+): Buffer {
+  const organization = getOrganization();
+  const margin = 56;
+  const right = PAGE_WIDTH - margin;
+  const texts: PdfText[] = [];
+  let y = PAGE_HEIGHT - margin - 10;
+
+  texts.push({ x: margin, y, text: organization.name, size: 16, bold: true });
+  for (const line of organization.address) {
+    y -= 14;
+    texts.push({ x: margin, y, text: line });
+  }
+  if (organization.taxId) {
+    y -= 14;
+    texts.push({ x: margin, y, text: `Tax ID: ${organization.taxId}` });
+  }
+
+  y -= 40;
+  texts.push({
+    x: margin,
+    y,
+    text: RECEIPT_TITLES[target.receiptType],
+    size: 14,
+    bold: true,
+  });
+  texts.push({
+    x: right,
+    y,
+    text: `No. ${target.receiptNumber}`,
+    size: 12,
+    bold: true,
+    align: "right",
+  });
+  y -= 16;
+  texts.push({
+    x: right,
+    y,
+    text: `Issued ${formatLongDate(target.issuedAt)}`,
+    align: "right",
+  });
+  if (replacesReceiptNumber) {
+    y -= 14;
+    texts.push({
+      x: right,
+      y,
+      text: `Replaces receipt No. ${replacesReceiptNumber}`,
+      align: "right",
+    });
+  }
+  const rules = [{ x1: margin, y1: y - 10, x2: right, y2: y - 10 }];
+
+  y -= 36;
+  texts.push({ x: margin, y, text: "Received from", bold: true });
+  y -= 16;
+  texts.push({ x: margin, y, text: target.donorName, size: 12 });
+  for (const line of (target.donorAddress ?? "").split(/\r?\n/).filter(Boolean)) {
+    y -= 14;
+    texts.push({ x: margin, y, text: line });
+  }
+
+  const details: [string, string][] = [
+    ["Amount", formatMoney(target.amount, target.currency)],
+    ...(target.currency !== "USD" && target.amountUsd
+      ? [["Amount (USD)", formatMoney(target.amountUsd, "USD")] as [string, string]]
+      : []),
+    ["Date received", formatLongDate(target.paymentDate)],
+    ["Payment method", target.paymentMethod.replace(/_/g, " ")],
+  ];
+  y -= 30;
+  for (const [label, value] of details) {
+    texts.push({ x: margin, y, text: label, bold: true });
+    texts.push({ x: margin + 140, y, text: value });
+    y -= 18;
+  }
+
+  y -= 16;
+  const statement = process.env.RECEIPT_TAX_STATEMENT || DEFAULT_TAX_STATEMENT;
+  for (const line of wrapText(statement, right - margin, 10)) {
+    texts.push({ x: margin, y, text: line });
+    y -= 14;
+  }
+
+  if (target.status === "void") {
+    y -= 24;
+    texts.push({ x: margin, y, text: "VOID", size: 28, bold: true });
+    if (target.voidReason) {
+      y -= 18;
+      texts.push({ x: margin, y, text: `Reason: ${target.voidReason}` });
+    }
+  }
+
+  return renderPdf([{ texts, rules }]);
+}
@@ -0,0 +1,243 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq, sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { db, txDb } from "@/lib/db";
+import {
+  bonusCalculation,
+  bonusRule,
+  contact,
+  installmentSchedule,
+  payment,
+  paymentAllocations,
+  paymentPlan,
+  pledge,
+  solicitor,
+} from "@/lib/db/schema";
+import { syncPaymentBonus } from "@/lib/bonus";
+import { refundPayment, RefundStateError, type RefundOptions } from "./refunds";
+
+let donorId: number;
+let pledgeId: number;
+let paymentId: number;
+
+const refund = (id: number, options: Partial<RefundOptions> = {}) =>
+  txDb.transaction((tx) =>
+    refundPayment(
+      id,
+      {
+        amount: 100,
+        reason: "Donor request",
+        refundDate: "2025-04-01",
+        ...options,
+      },
+      tx
+    )
+  );
+
+async function addPledge() {
+  const [created] = await db
+    .insert(pledge)
+    .values({
+      contactId: donorId,
+      pledgeDate: "2025-01-01",
+      originalAmount: "1000.00",
+      originalAmountUsd: "1000.00",
+      balance: "1000.00",
+      balanceUsd: "1000.00",
+    })
+    .returning();
+  return created.id;
+}
+
+async function storedPledge(id = pledgeId) {
+  const [row] = await db.select().from(pledge).where(eq(pledge.id, id));
+  return row;
+}
+
+const bonuses = async () =>
+  (
+    await db
+      .select({ bonusAmount: bonusCalculation.bonusAmount })
+      .from(bonusCalculation)
+      .orderBy(bonusCalculation.id)
+  ).map((row) => row.bonusAmount);
+
+beforeEach(async () => {
+  await db.execute(
+    sql`TRUNCATE ${contact}, ${solicitor}, ${pledge}, ${payment}, ${bonusRule}
+      RESTART IDENTITY CASCADE`
+  );
+  [{ id: donorId }] = await db
+    .insert(contact)
+    .values({ firstName: "Dana", lastName: "Donor" })
+    .returning();
+  const [person] = await db
+    .insert(contact)
+    .values({ firstName: "Sam", lastName: "Solicitor" })
+    .returning();
+  const [credited] = await db
+    .insert(solicitor)
+    .values({ contactId: person.id })
+    .returning();
+  await db.insert(bonusRule).values({
+    solicitorId: credited.id,
+    ruleName: "Ten percent",
+    bonusPercentage: "10.00",
+    effectiveFrom: "2025-01-01",
+  });
+  pledgeId = await addPledge();
+  [{ id: paymentId }] = await db
+    .insert(payment)
+    .values({
+      pledgeId,
+      solicitorId: credited.id,
+      amount: "300.00",
+      amountUsd: "300.00",
+      amountInPledgeCurrency: "300.00",
+      currency: "USD",
+      paymentDate: "2025-03-01",
+      paymentMethod: "check",
+    })
+    .returning();
+  await syncPaymentBonus(paymentId);
+});
+
+describe("refundPayment", () => {
+  it("books a partial refund as a linked negative payment", async () => {
+    const result = await refund(paymentId);
+    expect(result.refund).toMatchObject({
+      refundOfPaymentId: paymentId,
+      amount: "-100.00",
+      amountUsd: "-100.00",
+      paymentMethod: "refund",
+      methodDetail: "check",
+      refundReason: "Donor request",
+      bonusAmount: "-10.00",
+    });
+    expect(result.originalAfter.refundedAmount).toBe("100.00");
+    expect(await storedPledge()).toMatchObject({
+      totalPaid: "200.00",
+      balance: "800.00",
+    });
+    expect(await bonuses()).toEqual(["30.00", "-10.00"]);
+  });
+
+  it("nets a payment refunded in full to zero", async () => {
+    await refund(paymentId, { amount: 100 });
+    await refund(paymentId, { amount: 200 });
+
+    const refunds = await db
+      .select()
+      .from(payment)
+      .where(eq(payment.refundOfPaymentId, paymentId));
+    expect(refunds.map((row) => row.amount)).toEqual(["-100.00", "-200.00"]);
+    expect(await storedPledge()).toMatchObject({
+      totalPaid: "0.00",
+      balance: "1000.00",
+    });
+    expect(await bonuses()).toEqual(["30.00", "-10.00", "-20.00"]);
+    await expect(refund(paymentId, { amount: 1 })).rejects.toThrow(
+      `Payment ${paymentId} has already been refunded in full`
+    );
+  });
+
+  it("reopens the installment of a payment refunded in full", async () => {
+    const [plan] = await db
+      .insert(paymentPlan)
+      .values({
+        pledgeId,
+        frequency: "monthly",
+        totalPlannedAmount: "300.00",
+        currency: "USD",
+        installmentAmount: "300.00",
+        numberOfInstallments: 1,
+        startDate: "2025-03-01",
+        remainingAmount: "0.00",
+        planStatus: "completed",
+      })
+      .returning();
+    const [installment] = await db
+      .insert(installmentSchedule)
+      .values({
+        paymentPlanId: plan.id,
+        installmentDate: "2025-03-01",
+        installmentAmount: "300.00",
+        currency: "USD",
+        status: "paid",
+        paidDate: "2025-03-01",
+        paymentId,
+      })
+      .returning();
+    await db
+      .update(payment)
+      .set({ paymentPlanId: plan.id, installmentScheduleId: installment.id })
+      .where(eq(payment.id, paymentId));
+
+    const partial = await refund(paymentId, { amount: 299 });
+    expect(partial.reopenedInstallmentIds).toEqual([]);
+    const result = await refund(paymentId, { amount: 1 });
+    expect(result.reopenedInstallmentIds).toEqual([installment.id]);
+    expect(result.plans[0].after).toMatchObject({
+      planStatus: "overdue",
+      remainingAmount: "300.00",
+    });
+  });
+
+  it("reverses a split payment's allocations in proportion", async () => {
+    const otherPledgeId = await addPledge();
+    const [split] = await db
+      .insert(payment)
+      .values({
+        amount: "300.00",
+        amountUsd: "300.00",
+        currency: "USD",
+        paymentDate: "2025-03-01",
+        paymentMethod: "wire",
+      })
+      .returning();
+    const allocate = (allocatedTo: number, allocatedAmount: string) => ({
+      paymentId: split.id,
+      pledgeId: allocatedTo,
+      allocatedAmount,
+      allocatedAmountUsd: allocatedAmount,
+      currency: "USD" as const,
+    });
+    await db
+      .insert(paymentAllocations)
+      .values([allocate(pledgeId, "200.00"), allocate(otherPledgeId, "100.00")]);
+
+    const result = await refund(split.id, { amount: 150 });
+    expect(
+      result.allocations.map((row) => [row.pledgeId, row.allocatedAmount])
+    ).toEqual([
+      [pledgeId, "-100.00"],
+      [otherPledgeId, "-50.00"],
+    ]);
+    expect((await storedPledge(otherPledgeId)).totalPaid).toBe("50.00");
+  });
+
+  it("refuses what cannot be refunded", async () => {
+    await expect(refund(paymentId, { amount: 300.01 })).rejects.toThrow(
+      "The refund must be more than 0 and at most 300.00 USD"
+    );
+    await expect(refund(paymentId, { refundDate: "2025-02-28" })).rejects.toThrow(
+      "A refund cannot be dated before its payment"
+    );
+    const { refund: first } = await refund(paymentId);
+    await expect(refund(first.id)).rejects.toThrow(
+      "A refund cannot itself be refunded"
+    );
+
+    await db
+      .update(payment)
+      .set({ paymentStatus: "pending" })
+      .where(eq(payment.id, paymentId));
+    await expect(refund(paymentId)).rejects.toBeInstanceOf(RefundStateError);
+    // Nothing of the refused refunds was written
+    expect(
+      await db.select().from(payment).where(eq(payment.refundOfPaymentId, paymentId))
+    ).toHaveLength(1);
+  });
+});
@@ -0,0 +1,352 @@
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { db, type DbExecutor } from "@/lib/db";
+import {
+  installmentSchedule,
+  payment,
+  paymentAllocations,
+  paymentPlan,
+  type Payment,
+  type PaymentAllocation,
+  type PaymentPlan,
+} from "@/lib/db/schema";
+import {
+  getPaymentContactId,
+  getPaymentPlanContactId,
+  getPledgeContactId,
+  recordAudit,
+} from "@/lib/audit";
+import type { SessionUser } from "@/lib/auth/guard";
+import { auditBonusSync, clawBackBonus, type BonusSync } from "@/lib/bonus";
+import { moneyString, roundMoney, toNumber } from "@/lib/currency";
+import { advancePaymentPlan, today } from "@/lib/installments";
+import {
+  getPaymentLedgerTargets,
+  updateLedgerTotals,
+} from "@/lib/pledge-totals";
+
+export class RefundStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RefundStateError";
+  }
+}
+
+export type RefundType = NonNullable<Payment["refundType"]>;
+
+export interface RefundOptions {
+  // In the original payment's currency; at most what has not been refunded yet
+  amount: number;
+  refundType?: RefundType;
+  reason: string;
+  // Defaults to today.
+  refundDate?: string;
+  referenceNumber?: string | null;
+  notes?: string | null;
+}
+
+export interface RefundResult {
+  refund: Payment;
+  allocations: PaymentAllocation[];
+  originalBefore: Payment;
+  originalAfter: Payment;
+  // Installments the original paid that are open again after a full refund
+  reopenedInstallmentIds: number[];
+  plans: { before: PaymentPlan; after: PaymentPlan }[];
+  bonusSync: BonusSync | null;
+}
+
+// Only money actually received can be given back.
+const REFUNDABLE_STATUS = "completed";
+
+// Plans whose status follows their installments; paused and cancelled plans
+// are left alone.
+const ADVANCED_PLAN_STATUSES = ["active", "overdue", "completed"] as const;
+
+export async function getRefunds(
+  paymentId: number,
+  executor: DbExecutor = db
+): Promise<Payment[]> {
+  return executor
+    .select()
+    .from(payment)
+    .where(eq(payment.refundOfPaymentId, paymentId))
+    .orderBy(desc(payment.paymentDate), desc(payment.id));
+}
+
+function sumOf(values: (string | null)[]): number {
+  return values.reduce((sum, value) => sum + toNumber(value), 0);
+}
+
+// Gives back part or all of a completed payment as a linked negative payment
+// on the same pledge, plan and solicitor. A split payment's allocations are
+// reversed in proportion to what each still holds, so a payment refunded in
+// full nets to exactly zero everywhere. Pledge and plan totals are then
+// recomputed; after a full refund the installments the payment paid are
+// reopened and their plans advanced. The solicitor's bonus is clawed back
+// through clawBackBonus.
+export async function refundPayment(
+  paymentId: number,
+  options: RefundOptions,
+  executor: DbExecutor
+): Promise<RefundResult> {
+  const [original] = await executor
+    .select()
+    .from(payment)
+    .where(eq(payment.id, paymentId))
+    .for("update");
+  if (!original || original.deletedAt) {
+    throw new RefundStateError(`Payment ${paymentId} does not exist`);
+  }
+  if (original.refundOfPaymentId) {
+    throw new RefundStateError("A refund cannot itself be refunded");
+  }
+  if (original.paymentStatus !== REFUNDABLE_STATUS) {
+    throw new RefundStateError(
+      `Cannot refund a ${original.paymentStatus} payment`
+    );
+  }
+
+  const refundable = roundMoney(
+    toNumber(original.amount) - toNumber(original.refundedAmount)
+  );
+  const amount = roundMoney(options.amount);
+  if (amount <= 0 || amount > refundable) {
+    throw new RefundStateError(
+      refundable <= 0
+        ? `Payment ${paymentId} has already been refunded in full`
+        : `The refund must be more than 0 and at most ${moneyString(refundable)} ${original.currency}`
+    );
+  }
+  const refundDate = options.refundDate ?? today();
+  if (refundDate < original.paymentDate) {
+    throw new RefundStateError("A refund cannot be dated before its payment");
+  }
+
+  // Each figure is refunded in proportion to what is left of it after
+  // earlier refunds
+  const share = amount / refundable;
+  const refundOf = (remaining: number) => -roundMoney(remaining * share);
+
+  const priorRefunds = await getRefunds(paymentId, executor);
+  const refundUsd =
+    original.amountUsd === null
+      ? null
+      : refundOf(
+          toNumber(original.amountUsd) +
+            sumOf(priorRefunds.map((prior) => prior.amountUsd))
+        );
+  const refundInPledgeCurrency =
+    original.amountInPledgeCurrency === null
+      ? null
+      : refundOf(
+          toNumber(original.amountInPledgeCurrency) +
+            sumOf(priorRefunds.map((prior) => prior.amountInPledgeCurrency))
+        );
+
+  const [refund] = await executor
+    .insert(payment)
+    .values({
+      pledgeId: original.pledgeId,
+      paymentPlanId: original.paymentPlanId,
+      amount: moneyString(-amount),
+      currency: original.currency,
+      amountUsd: refundUsd === null ? null : moneyString(refundUsd),
+      amountInPledgeCurrency:
+        refundInPledgeCurrency === null
+          ? null
+          : moneyString(refundInPledgeCurrency),
+      exchangeRate: original.exchangeRate,
+      paymentDate: refundDate,
+      receivedDate: refundDate,
+      paymentMethod: "refund",
+      methodDetail: original.paymentMethod,
+      paymentStatus: "completed",
+      referenceNumber: options.referenceNumber || null,
+      solicitorId: original.solicitorId,
+      householdId: original.householdId,
+      notes: options.notes || null,
+      refundOfPaymentId: original.id,
+      refundType: options.refundType ?? "refund",
+      refundReason: options.reason,
+    })
+    .returning();
+
+  const originalAllocations = await executor
+    .select()
+    .from(paymentAllocations)
+    .where(eq(paymentAllocations.paymentId, paymentId))
+    .orderBy(paymentAllocations.id);
+
+  const allocations: PaymentAllocation[] = [];
+  if (originalAllocations.length > 0) {
+    const priorAllocations = priorRefunds.length
+      ? await executor
+          .select()
+          .from(paymentAllocations)
+          .where(
+            inArray(
+              paymentAllocations.paymentId,
+              priorRefunds.map((prior) => prior.id)
+            )
+          )
+      : [];
+
+    for (const allocation of originalAllocations) {
+      const prior = priorAllocations.filter(
+        (row) =>
+          row.pledgeId === allocation.pledgeId &&
+          row.installmentScheduleId === allocation.installmentScheduleId
+      );
+      const [created] = await executor
+        .insert(paymentAllocations)
+        .values({
+          paymentId: refund.id,
+          pledgeId: allocation.pledgeId,
+          installmentScheduleId: allocation.installmentScheduleId,
+          allocatedAmount: moneyString(
+            refundOf(
+              toNumber(allocation.allocatedAmount) +
+                sumOf(prior.map((row) => row.allocatedAmount))
+            )
+          ),
+          currency: allocation.currency,
+          allocatedAmountUsd:
+            allocation.allocatedAmountUsd === null
+              ? null
+              : moneyString(
+                  refundOf(
+                    toNumber(allocation.allocatedAmountUsd) +
+                      sumOf(prior.map((row) => row.allocatedAmountUsd))
+                  )
+                ),
+          notes: `Refund of allocation ${allocation.id}`,
+        })
+        .returning();
+      allocations.push(created);
+    }
+  }
+
+  const [originalAfter] = await executor
+    .update(payment)
+    .set({
+      refundedAmount: moneyString(toNumber(original.refundedAmount) + amount),
+      updatedAt: new Date(),
+    })
+    .where(eq(payment.id, paymentId))
+    .returning();
+
+  // A partly refunded payment still pays its installments; one refunded in
+  // full no longer does
+  let reopenedInstallmentIds: number[] = [];
+  let reopenedPlanIds: number[] = [];
+  if (amount === refundable) {
+    const reopened = await executor
+      .update(installmentSchedule)
+      .set({
+        status: "pending",
+        paidDate: null,
+        paymentId: null,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(installmentSchedule.paymentId, paymentId),
+          eq(installmentSchedule.status, "paid")
+        )
+      )
+      .returning();
+    reopenedInstallmentIds = reopened.map((installment) => installment.id);
+    reopenedPlanIds = [
+      ...new Set(reopened.map((installment) => installment.paymentPlanId)),
+    ];
+  }
+
+  const targets = await getPaymentLedgerTargets(refund.id, executor);
+  await updateLedgerTotals(targets, executor);
+
+  const plans: RefundResult["plans"] = [];
+  if (reopenedPlanIds.length > 0) {
+    const affected = await executor
+      .select()
+      .from(paymentPlan)
+      .where(
+        and(
+          inArray(paymentPlan.id, reopenedPlanIds),
+          inArray(paymentPlan.planStatus, [...ADVANCED_PLAN_STATUSES])
+        )
+      );
+    for (const plan of affected) {
+      await advancePaymentPlan(plan, today(), executor);
+      const [after] = await executor
+        .select()
+        .from(paymentPlan)
+        .where(eq(paymentPlan.id, plan.id))
+        .limit(1);
+      plans.push({ before: plan, after });
+    }
+  }
+
+  const bonusSync = await clawBackBonus(refund.id, executor);
+
+  return {
+    refund: bonusSync?.payment ?? refund,
+    allocations,
+    originalBefore: original,
+    originalAfter,
+    reopenedInstallmentIds,
+    plans,
+    bonusSync,
+  };
+}
+
+// Writes the audit entries for a refund once its transaction has committed.
+export async function auditRefund(
+  user: SessionUser | null,
+  result: RefundResult
+): Promise<void> {
+  const { refund, allocations, originalBefore, originalAfter } = result;
+
+  // A split payment can cover pledges of several contacts; record the refund
+  // on each of their histories.
+  const contactIds = new Set<number | null>();
+  if (allocations.length > 0) {
+    for (const allocation of allocations) {
+      contactIds.add(await getPledgeContactId(allocation.pledgeId));
+    }
+  } else {
+    contactIds.add(await getPaymentContactId(refund.id));
+  }
+
+  for (const contactId of contactIds) {
+    await recordAudit(user, {
+      table: payment,
+      recordId: refund.id,
+      action: "create",
+      after: { ...refund, allocations },
+      contactId,
+    });
+  }
+
+  await recordAudit(user, {
+    table: payment,
+    recordId: originalAfter.id,
+    action: "update",
+    before: originalBefore,
+    after: originalAfter,
+    contactId: await getPaymentContactId(originalAfter.id),
+  });
+
+  for (const plan of result.plans) {
+    await recordAudit(user, {
+      table: paymentPlan,
+      recordId: plan.after.id,
+      action: "update",
+      before: plan.before,
+      after: plan.after,
+      contactId: await getPaymentPlanContactId(plan.after.id),
+    });
+  }
+
+  // The create entry above already holds the clawback on the refund
+  await auditBonusSync(user, result.bonusSync, { paymentFields: false });
+}
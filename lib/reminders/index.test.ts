@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq, sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { db } from "@/lib/db";
+import {
+  contact,
+  installmentSchedule,
+  paymentPlan,
+  pledge,
+  reminderLog,
+} from "@/lib/db/schema";
+import {
+  renderReminder,
+  sendPaymentReminders,
+  type ReminderMessage,
+  type ReminderTransport,
+} from ".";
+
+let contactId: number;
+let planId: number;
+let sent: ReminderMessage[];
+let transport: ReminderTransport;
+
+async function addInstallment(installmentDate: string, status: "pending" | "overdue") {
+  await db.insert(installmentSchedule).values({
+    paymentPlanId: planId,
+    installmentDate,
+    installmentAmount: "180.00",
+    currency: "USD",
+    status,
+  });
+}
+
+const remind = (asOf: string) =>
+  sendPaymentReminders({ asOf, daysBefore: 3, minDaysBetween: 7, transport });
+
+async function storedPlan() {
+  const [plan] = await db.select().from(paymentPlan).where(eq(paymentPlan.id, planId));
+  return plan;
+}
+
+beforeEach(async () => {
+  vi.stubEnv("ORGANIZATION_NAME", "Levhatora");
+  await db.execute(sql`TRUNCATE ${contact}, ${pledge} RESTART IDENTITY CASCADE`);
+  [{ id: contactId }] = await db
+    .insert(contact)
+    .values({ firstName: "Dana", lastName: "Donor", email: "dana@example.org" })
+    .returning();
+  const [created] = await db
+    .insert(pledge)
+    .values({
+      contactId,
+      pledgeDate: "2025-01-01",
+      originalAmount: "2160.00",
+      balance: "2160.00",
+      description: "Building fund",
+    })
+    .returning();
+  [{ id: planId }] = await db
+    .insert(paymentPlan)
+    .values({
+      pledgeId: created.id,
+      frequency: "monthly",
+      totalPlannedAmount: "2160.00",
+      currency: "USD",
+      installmentAmount: "180.00",
+      numberOfInstallments: 12,
+      startDate: "2025-01-10",
+      remainingAmount: "1980.00",
+    })
+    .returning();
+  sent = [];
+  transport = {
+    name: "memory",
+    send: async (message) => {
+      sent.push(message);
+    },
+  };
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("sendPaymentReminders", () => {
+  it("emails a donor about an installment coming due", async () => {
+    await addInstallment("2025-02-10", "pending");
+
+    const report = await remind("2025-02-08");
+    expect(report).toMatchObject({ checkedPlans: 1, sent: 1, failed: 0 });
+    expect(sent).toEqual([
+      expect.objectContaining({
+        channel: "email",
+        to: "dana@example.org",
+        subject: "Upcoming payment of $180.00 on February 10, 2025",
+      }),
+    ]);
+    expect(sent[0].body).toContain("toward Building fund");
+    expect(sent[0].body).toContain("Remaining on your plan: $1,980.00.");
+
+    const [log] = await db.select().from(reminderLog);
+    expect(log).toMatchObject({
+      kind: "upcoming",
+      status: "sent",
+      transport: "memory",
+      contactId,
+    });
+    expect(await storedPlan()).toMatchObject({
+      remindersSent: 1,
+      lastReminderDate: "2025-02-08",
+    });
+  });
+
+  it("reminds about the earliest overdue installment first", async () => {
+    await addInstallment("2025-01-10", "overdue");
+    await addInstallment("2025-02-10", "pending");
+
+    await remind("2025-02-08");
+    expect(sent).toHaveLength(1);
+    expect(sent[0].subject).toBe("Payment of $180.00 was due on January 10, 2025");
+    expect(sent[0].body).toContain("(29 days ago)");
+  });
+
+  it("waits until an installment is within the window", async () => {
+    await addInstallment("2025-02-10", "pending");
+    expect((await remind("2025-02-01")).reminders).toEqual([]);
+    expect(sent).toEqual([]);
+  });
+
+  it("does not remind a plan again too soon", async () => {
+    await addInstallment("2025-01-10", "overdue");
+    await remind("2025-02-01");
+    expect((await remind("2025-02-05")).checkedPlans).toBe(0);
+    expect((await remind("2025-02-08")).sent).toBe(1);
+    expect((await storedPlan()).remindersSent).toBe(2);
+  });
+
+  it("skips plans that opted out", async () => {
+    await addInstallment("2025-01-10", "overdue");
+    await db
+      .update(paymentPlan)
+      .set({ remindersOptOut: true })
+      .where(eq(paymentPlan.id, planId));
+    expect((await remind("2025-02-08")).checkedPlans).toBe(0);
+  });
+
+  it("texts a donor without an email address", async () => {
+    await addInstallment("2025-02-10", "pending");
+    await db
+      .update(contact)
+      .set({ email: null, phone: "+15555550100" })
+      .where(eq(contact.id, contactId));
+
+    await remind("2025-02-08");
+    expect(sent).toEqual([
+      expect.objectContaining({ channel: "sms", to: "+15555550100", subject: null }),
+    ]);
+  });
+
+  it("skips a donor it cannot reach", async () => {
+    await addInstallment("2025-02-10", "pending");
+    await db.update(contact).set({ email: null }).where(eq(contact.id, contactId));
+
+    const { reminders } = await remind("2025-02-08");
+    expect(reminders).toEqual([
+      expect.objectContaining({
+        status: "skipped",
+        reason: "Contact has no email address or phone number",
+      }),
+    ]);
+  });
+
+  it("logs a failed send without counting it on the plan", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    await addInstallment("2025-02-10", "pending");
+    transport.send = async () => {
+      throw new Error("Mailbox unavailable");
+    };
+
+    const report = await remind("2025-02-08");
+    expect(report).toMatchObject({ sent: 0, failed: 1 });
+    const [log] = await db.select().from(reminderLog);
+    expect(log).toMatchObject({ status: "failed", error: "Mailbox unavailable" });
+    expect(await storedPlan()).toMatchObject({
+      remindersSent: 0,
+      lastReminderDate: null,
+    });
+    error.mockRestore();
+  });
+
+  it("previews reminders on a dry run", async () => {
+    await addInstallment("2025-02-10", "pending");
+    const { reminders } = await sendPaymentReminders({
+      asOf: "2025-02-08",
+      dryRun: true,
+      transport,
+    });
+    expect(reminders[0]).toMatchObject({ status: "preview", kind: "upcoming" });
+    expect(sent).toEqual([]);
+    expect(await db.select().from(reminderLog)).toEqual([]);
+  });
+});
+
+describe("renderReminder", () => {
+  it("fills in the donor's details", () => {
+    const { subject, body } = renderReminder("upcoming", "sms", {
+      firstName: "Dana",
+      lastName: "Donor",
+      planName: "Building fund",
+      amount: "$180.00",
+      dueDate: "February 10, 2025",
+      daysOverdue: "0",
+      remainingAmount: "$1,980.00",
+      organization: "Levhatora",
+    });
+    expect(subject).toBeNull();
+    expect(body).toBe(
+      "Levhatora: Hi Dana, your payment of $180.00 for Building fund is due " +
+        "February 10, 2025. Thank you!"
+    );
+  });
+});
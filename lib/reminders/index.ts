@@ -0,0 +1,295 @@
+import { and, eq, inArray, isNull, lte, or, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+  contact,
+  installmentSchedule,
+  paymentPlan,
+  pledge,
+  reminderLog,
+  type InstallmentSchedule,
+  type PaymentPlan,
+} from "@/lib/db/schema";
+import { toNumber } from "@/lib/currency";
+import { today } from "@/lib/installments";
+import { getOrganization } from "@/lib/organization";
+import { renderReminder, type ReminderKind } from "./templates";
+import {
+  getReminderTransport,
+  type ReminderChannel,
+  type ReminderTransport,
+} from "./transports";
+
+export * from "./templates";
+export * from "./transports";
+
+// Plans whose donors are reminded; the same plans the installment engine runs.
+const REMINDER_PLAN_STATUSES = ["active", "overdue"] as const;
+
+const DEFAULT_DAYS_BEFORE = 3;
+const DEFAULT_MIN_DAYS_BETWEEN = 7;
+
+export interface ReminderResult {
+  paymentPlanId: number;
+  installmentScheduleId: number | null;
+  contactId: number | null;
+  kind: ReminderKind | null;
+  channel: ReminderChannel | null;
+  recipient: string | null;
+  status: "sent" | "failed" | "skipped" | "preview";
+  reason?: string;
+  subject?: string | null;
+  body?: string;
+}
+
+export interface ReminderRunReport {
+  asOf: string;
+  dryRun: boolean;
+  transport: string;
+  checkedPlans: number;
+  sent: number;
+  failed: number;
+  reminders: ReminderResult[];
+}
+
+export interface ReminderRunOptions {
+  // Defaults to today.
+  asOf?: string;
+  paymentPlanId?: number;
+  // Render the reminders without sending or recording them.
+  dryRun?: boolean;
+  // Remind about pending installments due within this many days.
+  // REMINDER_DAYS_BEFORE, default 3.
+  daysBefore?: number;
+  // Never remind about a plan more often than this.
+  // REMINDER_MIN_INTERVAL_DAYS, default 7.
+  minDaysBetween?: number;
+  transport?: ReminderTransport;
+}
+
+function envDays(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? "", 10);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split("T")[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) /
+      86_400_000
+  );
+}
+
+function formatAmount(amount: string | number, currency: string): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(
+    toNumber(amount)
+  );
+}
+
+function formatDueDate(date: string): string {
+  return new Intl.DateTimeFormat("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  }).format(new Date(`${date}T00:00:00Z`));
+}
+
+// The installment a plan's reminder is about: the earliest overdue one, or
+// else the earliest pending one due within the window.
+function pickInstallment(
+  installments: InstallmentSchedule[],
+  asOf: string,
+  windowEnd: string
+): { installment: InstallmentSchedule; kind: ReminderKind } | null {
+  const overdue = installments.find(
+    (installment) =>
+      installment.status === "overdue" ||
+      (installment.status === "pending" && installment.installmentDate < asOf)
+  );
+  if (overdue) return { installment: overdue, kind: "overdue" };
+
+  const upcoming = installments.find(
+    (installment) =>
+      installment.status === "pending" &&
+      installment.installmentDate >= asOf &&
+      installment.installmentDate <= windowEnd
+  );
+  return upcoming ? { installment: upcoming, kind: "upcoming" } : null;
+}
+
+// Sends at most one reminder per plan: about its earliest overdue
+// installment, or about a pending one falling due within `daysBefore` days.
+// Plans that opted out, or were reminded within `minDaysBetween` days, are
+// skipped. Donors are emailed when they have an address and texted otherwise.
+// Every send is written to reminder_log, and successful ones bump the plan's
+// remindersSent and lastReminderDate.
+export async function sendPaymentReminders(
+  options: ReminderRunOptions = {}
+): Promise<ReminderRunReport> {
+  const { paymentPlanId, dryRun = false } = options;
+  const asOf = options.asOf ?? today();
+  const daysBefore =
+    options.daysBefore ?? envDays("REMINDER_DAYS_BEFORE", DEFAULT_DAYS_BEFORE);
+  const minDaysBetween =
+    options.minDaysBetween ??
+    envDays("REMINDER_MIN_INTERVAL_DAYS", DEFAULT_MIN_DAYS_BETWEEN);
+  const transport = options.transport ?? getReminderTransport();
+  const windowEnd = addDays(asOf, daysBefore);
+  const remindedBefore = addDays(asOf, -minDaysBetween);
+
+  const plans = await db
+    .select({
+      plan: paymentPlan,
+      contactId: contact.id,
+      firstName: contact.firstName,
+      lastName: contact.lastName,
+      email: contact.email,
+      phone: contact.phone,
+      pledgeDescription: pledge.description,
+    })
+    .from(paymentPlan)
+    .innerJoin(pledge, eq(paymentPlan.pledgeId, pledge.id))
+    .innerJoin(contact, eq(pledge.contactId, contact.id))
+    .where(
+      and(
+        inArray(paymentPlan.planStatus, [...REMINDER_PLAN_STATUSES]),
+        eq(paymentPlan.isActive, true),
+        eq(paymentPlan.remindersOptOut, false),
+        isNull(paymentPlan.deletedAt),
+        or(
+          isNull(paymentPlan.lastReminderDate),
+          lte(paymentPlan.lastReminderDate, remindedBefore)
+        ),
+        paymentPlanId ? eq(paymentPlan.id, paymentPlanId) : undefined
+      )
+    )
+    .orderBy(paymentPlan.id);
+
+  const installments = plans.length
+    ? await db
+        .select()
+        .from(installmentSchedule)
+        .where(
+          and(
+            inArray(
+              installmentSchedule.paymentPlanId,
+              plans.map(({ plan }) => plan.id)
+            ),
+            inArray(installmentSchedule.status, ["pending", "overdue"])
+          )
+        )
+        .orderBy(installmentSchedule.installmentDate, installmentSchedule.id)
+    : [];
+
+  const report: ReminderRunReport = {
+    asOf,
+    dryRun,
+    transport: transport.name,
+    checkedPlans: plans.length,
+    sent: 0,
+    failed: 0,
+    reminders: [],
+  };
+
+  for (const row of plans) {
+    const plan: PaymentPlan = row.plan;
+    const picked = pickInstallment(
+      installments.filter((i) => i.paymentPlanId === plan.id),
+      asOf,
+      windowEnd
+    );
+    if (!picked) continue;
+    const { installment, kind } = picked;
+
+    const channel: ReminderChannel | null = row.email
+      ? "email"
+      : row.phone
+        ? "sms"
+        : null;
+    const recipient = row.email || row.phone || null;
+    const result: ReminderResult = {
+      paymentPlanId: plan.id,
+      installmentScheduleId: installment.id,
+      contactId: row.contactId,
+      kind,
+      channel,
+      recipient,
+      status: "skipped",
+    };
+
+    if (!channel || !recipient) {
+      result.reason = "Contact has no email address or phone number";
+      report.reminders.push(result);
+      continue;
+    }
+
+    const message = renderReminder(kind, channel, {
+      firstName: row.firstName,
+      lastName: row.lastName,
+      planName:
+        plan.planName || row.pledgeDescription || `payment plan #${plan.id}`,
+      amount: formatAmount(installment.installmentAmount, installment.currency),
+      dueDate: formatDueDate(installment.installmentDate),
+      daysOverdue: String(
+        Math.max(0, daysBetween(installment.installmentDate, asOf))
+      ),
+      remainingAmount: formatAmount(plan.remainingAmount ?? 0, plan.currency),
+      organization: getOrganization().name,
+    });
+    result.subject = message.subject;
+    result.body = message.body;
+
+    if (dryRun) {
+      result.status = "preview";
+      report.reminders.push(result);
+      continue;
+    }
+
+    let error: string | null = null;
+    try {
+      await transport.send({ channel, to: recipient, ...message });
+    } catch (sendError) {
+      console.error(`Error sending reminder for payment plan ${plan.id}:`, sendError);
+      error = sendError instanceof Error ? sendError.message : String(sendError);
+    }
+
+    await db.insert(reminderLog).values({
+      paymentPlanId: plan.id,
+      installmentScheduleId: installment.id,
+      contactId: row.contactId,
+      kind,
+      channel,
+      recipient,
+      subject: message.subject,
+      body: message.body,
+      transport: transport.name,
+      status: error ? "failed" : "sent",
+      error,
+    });
+
+    if (error) {
+      result.status = "failed";
+      result.reason = error;
+      report.failed++;
+    } else {
+      await db
+        .update(paymentPlan)
+        .set({
+          remindersSent: sql`${paymentPlan.remindersSent} + 1`,
+          lastReminderDate: asOf,
+          updatedAt: new Date(),
+        })
+        .where(eq(paymentPlan.id, plan.id));
+      result.status = "sent";
+      report.sent++;
+    }
+    report.reminders.push(result);
+  }
+
+  return report;
+}
@@ -0,0 +1,83 @@
+import type { ReminderChannel } from "./transports";
+
+export type ReminderKind = "upcoming" | "overdue";
+
+export interface ReminderTemplate {
+  subject: string | null;
+  body: string;
+}
+
+// Values available to templates as {{name}}.
+export interface ReminderVariables {
+  firstName: string;
+  lastName: string;
+  planName: string;
+  amount: string;
+  dueDate: string;
+  daysOverdue: string;
+  remainingAmount: string;
+  organization: string;
+}
+
+const TEMPLATES: Record<ReminderKind, Record<ReminderChannel, ReminderTemplate>> = {
+  upcoming: {
+    email: {
+      subject: "Upcoming payment of {{amount}} on {{dueDate}}",
+      body: [
+        "Dear {{firstName}},",
+        "",
+        "This is a friendly reminder that your next payment of {{amount}} toward {{planName}} is scheduled for {{dueDate}}.",
+        "",
+        "Remaining on your plan: {{remainingAmount}}.",
+        "",
+        "Thank you for your support,",
+        "{{organization}}",
+      ].join("\n"),
+    },
+    sms: {
+      subject: null,
+      body: "{{organization}}: Hi {{firstName}}, your payment of {{amount}} for {{planName}} is due {{dueDate}}. Thank you!",
+    },
+  },
+  overdue: {
+    email: {
+      subject: "Payment of {{amount}} was due on {{dueDate}}",
+      body: [
+        "Dear {{firstName}},",
+        "",
+        "Our records show that your payment of {{amount}} toward {{planName}}, due on {{dueDate}}, has not yet been received ({{daysOverdue}} days ago).",
+        "",
+        "If you have already paid, please disregard this message. Otherwise, please contact us to arrange payment.",
+        "",
+        "Remaining on your plan: {{remainingAmount}}.",
+        "",
+        "Thank you,",
+        "{{organization}}",
+      ].join("\n"),
+    },
+    sms: {
+      subject: null,
+      body: "{{organization}}: Hi {{firstName}}, your payment of {{amount}} for {{planName}} was due {{dueDate}}. Please contact us if you need help.",
+    },
+  },
+};
+
+function fill(template: string, variables: ReminderVariables): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) =>
+    name in variables
+      ? variables[name as keyof ReminderVariables]
+      : placeholder
+  );
+}
+
+export function renderReminder(
+  kind: ReminderKind,
+  channel: ReminderChannel,
+  variables: ReminderVariables
+): ReminderTemplate {
+  const template = TEMPLATES[kind][channel];
+  return {
+    subject: template.subject ? fill(template.subject, variables) : null,
+    body: fill(template.body, variables),
+  };
+}
@@ -0,0 +1,53 @@
+import { mkdtemp, readdir, readFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  fileTransport,
+  getReminderTransport,
+  ReminderTransportError,
+  smtpTransport,
+} from "./transports";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("fileTransport", () => {
+  it("writes each message to the outbox", async () => {
+    const outbox = await mkdtemp(path.join(tmpdir(), "outbox-"));
+    vi.stubEnv("REMINDER_OUTBOX_DIR", outbox);
+
+    await fileTransport.send({
+      channel: "email",
+      to: "dana@example.org",
+      subject: "Upcoming payment",
+      body: "Dear Dana,",
+    });
+
+    const [file] = await readdir(outbox);
+    expect(file).toMatch(/-email-dana@example\.org\.txt$/);
+    expect(await readFile(path.join(outbox, file), "utf8")).toBe(
+      "Channel: email\nTo: dana@example.org\nSubject: Upcoming payment\n\nDear Dana,"
+    );
+  });
+});
+
+describe("smtpTransport", () => {
+  it("only sends email", async () => {
+    await expect(
+      smtpTransport.send({ channel: "sms", to: "+15555550100", subject: null, body: "" })
+    ).rejects.toThrow("The SMTP transport only sends email");
+  });
+});
+
+describe("getReminderTransport", () => {
+  it("writes to the outbox unless configured otherwise", () => {
+    vi.stubEnv("REMINDER_TRANSPORT", "");
+    expect(getReminderTransport()).toBe(fileTransport);
+    vi.stubEnv("REMINDER_TRANSPORT", "smtp");
+    expect(getReminderTransport()).toBe(smtpTransport);
+    vi.stubEnv("REMINDER_TRANSPORT", "pigeon");
+    expect(() => getReminderTransport()).toThrow(ReminderTransportError);
+  });
+});
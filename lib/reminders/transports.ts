@@ -0,0 +1,171 @@
+import { mkdir, writeFile } from "fs/promises";
+import { connect, type Socket } from "net";
+import { hostname } from "os";
+import path from "path";
+
+export type ReminderChannel = "email" | "sms";
+
+export interface ReminderMessage {
+  channel: ReminderChannel;
+  // Email address or phone number
+  to: string;
+  subject: string | null;
+  body: string;
+}
+
+export interface ReminderTransport {
+  name: string;
+  send(message: ReminderMessage): Promise<void>;
+}
+
+export class ReminderTransportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReminderTransportError";
+  }
+}
+
+// Writes each message to its own file in REMINDER_OUTBOX_DIR (default
+// data/outbox) instead of delivering it. For development and testing.
+export const fileTransport: ReminderTransport = {
+  name: "file",
+  async send(message) {
+    const directory =
+      process.env.REMINDER_OUTBOX_DIR ||
+      path.join(process.cwd(), "data", "outbox");
+    await mkdir(directory, { recursive: true });
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const recipient = message.to.replace(/[^a-zA-Z0-9@.+-]/g, "_");
+    const lines = [
+      `Channel: ${message.channel}`,
+      `To: ${message.to}`,
+      ...(message.subject ? [`Subject: ${message.subject}`] : []),
+      "",
+      message.body,
+    ];
+
+    await writeFile(
+      path.join(directory, `${stamp}-${message.channel}-${recipient}.txt`),
+      lines.join("\n"),
+      "utf8"
+    );
+  },
+};
+
+// Reads SMTP replies, which may span several "250-" lines ending in "250 ".
+function replyReader(socket: Socket) {
+  let buffer = "";
+  const waiting: ((reply: string) => void)[] = [];
+  const replies: string[] = [];
+
+  socket.on("data", (chunk) => {
+    buffer += chunk.toString("utf8");
+    let end: number;
+    while ((end = buffer.search(/^\d{3} .*\r\n/m)) !== -1) {
+      const lineEnd = buffer.indexOf("\r\n", end) + 2;
+      const reply = buffer.slice(0, lineEnd);
+      buffer = buffer.slice(lineEnd);
+      const resolve = waiting.shift();
+      if (resolve) resolve(reply);
+      else replies.push(reply);
+    }
+  });
+
+  return () =>
+    new Promise<string>((resolve) => {
+      const reply = replies.shift();
+      if (reply !== undefined) resolve(reply);
+      else waiting.push(resolve);
+    });
+}
+
+// Plain, unauthenticated SMTP for local mail catchers such as Mailpit or
+// MailHog (SMTP_HOST, SMTP_PORT default 1025). Email only; SMS needs a
+// provider transport.
+export const smtpTransport: ReminderTransport = {
+  name: "smtp",
+  async send(message) {
+    if (message.channel !== "email") {
+      throw new ReminderTransportError("The SMTP transport only sends email");
+    }
+
+    const host = process.env.SMTP_HOST || "localhost";
+    const port = parseInt(process.env.SMTP_PORT || "1025", 10);
+    const from = process.env.REMINDER_FROM || "reminders@localhost";
+
+    const socket = connect({ host, port });
+    socket.setTimeout(15000, () =>
+      socket.destroy(new ReminderTransportError("SMTP connection timed out"))
+    );
+
+    const failure = new Promise<never>((_, reject) => {
+      socket.once("error", (error) =>
+        reject(
+          error instanceof ReminderTransportError
+            ? error
+            : new ReminderTransportError(`SMTP error: ${error.message}`)
+        )
+      );
+    });
+    const nextReply = replyReader(socket);
+
+    const expect = async (code: string, command?: string) => {
+      if (command !== undefined) socket.write(`${command}\r\n`);
+      const reply = await Promise.race([nextReply(), failure]);
+      if (!reply.startsWith(code)) {
+        throw new ReminderTransportError(
+          `SMTP ${command?.split(" ")[0] ?? "greeting"} failed: ${reply.trim()}`
+        );
+      }
+    };
+
+    // Lines starting with "." are doubled so they are not read as the end
+    const body = message.body
+      .replace(/\r?\n/g, "\r\n")
+      .replace(/^\./gm, "..");
+
+    try {
+      await expect("220");
+      await expect("250", `EHLO ${hostname()}`);
+      await expect("250", `MAIL FROM:<${from}>`);
+      await expect("250", `RCPT TO:<${message.to}>`);
+      await expect("354", "DATA");
+      await expect(
+        "250",
+        [
+          `From: ${from}`,
+          `To: ${message.to}`,
+          `Subject: ${message.subject ?? ""}`,
+          `Date: ${new Date().toUTCString()}`,
+          "MIME-Version: 1.0",
+          "Content-Type: text/plain; charset=utf-8",
+          "",
+          body,
+          ".",
+        ].join("\r\n")
+      );
+      await expect("221", "QUIT");
+    } finally {
+      socket.destroy();
+    }
+  },
+};
+
+const transports: Record<string, ReminderTransport> = {
+  file: fileTransport,
+  smtp: smtpTransport,
+};
+
+// REMINDER_TRANSPORT picks the transport; the file outbox is the default so
+// nothing is delivered until a transport is configured.
+export function getReminderTransport(): ReminderTransport {
+  const configured = process.env.REMINDER_TRANSPORT || "file";
+  const transport = transports[configured];
+  if (!transport) {
+    throw new ReminderTransportError(
+      `Unknown REMINDER_TRANSPORT "${configured}"`
+    );
+  }
+  return transport;
+}
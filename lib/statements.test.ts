@@ -0,0 +1,217 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq, sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { db } from "@/lib/db";
+import {
+  category,
+  contact,
+  exchangeRate,
+  payment,
+  paymentAllocations,
+  pledge,
+} from "@/lib/db/schema";
+import {
+  getGivingStatement,
+  getGivingStatements,
+  givingStatementCsv,
+  renderGivingStatementsPdf,
+  statementPeriod,
+} from "./statements";
+
+const year2025 = statementPeriod(2025, "calendar");
+
+let dana: number;
+let eli: number;
+let danaPledge: number;
+let eliPledge: number;
+
+async function addDonor(firstName: string, lastName: string) {
+  const [created] = await db
+    .insert(contact)
+    .values({ firstName, lastName })
+    .returning();
+  return created.id;
+}
+
+async function addPledge(
+  contactId: number,
+  values: Partial<typeof pledge.$inferInsert> = {}
+) {
+  const [created] = await db
+    .insert(pledge)
+    .values({
+      contactId,
+      pledgeDate: "2025-01-01",
+      originalAmount: "1000.00",
+      balance: "1000.00",
+      ...values,
+    })
+    .returning();
+  return created.id;
+}
+
+async function pay(values: Partial<typeof payment.$inferInsert>) {
+  const [created] = await db
+    .insert(payment)
+    .values({
+      pledgeId: danaPledge,
+      amount: "100.00",
+      amountUsd: "100.00",
+      currency: "USD",
+      paymentDate: "2025-03-01",
+      paymentMethod: "check",
+      ...values,
+    })
+    .returning();
+  return created.id;
+}
+
+beforeEach(async () => {
+  await db.execute(
+    sql`TRUNCATE ${contact}, ${pledge}, ${payment}, ${category}, ${exchangeRate}
+      RESTART IDENTITY CASCADE`
+  );
+  const [building] = await db
+    .insert(category)
+    .values({ name: "Building fund" })
+    .returning();
+  dana = await addDonor("Dana", "Donor");
+  eli = await addDonor("Eli", "Giver");
+  danaPledge = await addPledge(dana, {
+    categoryId: building.id,
+    description: "New wing",
+  });
+  eliPledge = await addPledge(eli);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("statementPeriod", () => {
+  it("covers a fiscal year ending in the named year", () => {
+    vi.stubEnv("FISCAL_YEAR_START_MONTH", "7");
+    expect(statementPeriod(2025, "fiscal")).toEqual({
+      year: 2025,
+      basis: "fiscal",
+      start: "2024-07-01",
+      end: "2025-06-30",
+    });
+    expect(statementPeriod(2025, "calendar")).toMatchObject({
+      start: "2025-01-01",
+      end: "2025-12-31",
+    });
+  });
+});
+
+describe("getGivingStatements", () => {
+  it("lists only completed payments in the period", async () => {
+    const march = await pay({ paymentDate: "2025-03-01" });
+    const january = await pay({
+      paymentDate: "2025-01-15",
+      amount: "50.00",
+      amountUsd: "50.00",
+    });
+    await pay({ paymentStatus: "pending" });
+    await pay({ deletedAt: new Date() });
+    await pay({ paymentDate: "2024-12-31" });
+
+    const statement = await getGivingStatement(dana, year2025);
+    expect(statement?.lines.map((line) => line.paymentId)).toEqual([january, march]);
+    expect(statement).toMatchObject({ currency: "USD", total: 150, totalUsd: 150 });
+    expect(statement?.lines[0]).toMatchObject({
+      categoryName: "Building fund",
+      description: "New wing",
+      allocationId: null,
+    });
+  });
+
+  it("gives each donor their share of a split payment", async () => {
+    const split = await pay({ pledgeId: null, amount: "300.00", amountUsd: "300.00" });
+    await db.insert(paymentAllocations).values([
+      {
+        paymentId: split,
+        pledgeId: danaPledge,
+        allocatedAmount: "200.00",
+        allocatedAmountUsd: "200.00",
+        currency: "USD",
+      },
+      {
+        paymentId: split,
+        pledgeId: eliPledge,
+        allocatedAmount: "100.00",
+        allocatedAmountUsd: "100.00",
+        currency: "USD",
+      },
+    ]);
+
+    const statements = await getGivingStatements(year2025);
+    expect(
+      statements.map(({ donorName, total, lines }) => [donorName, total, lines.length])
+    ).toEqual([
+      ["Dana Donor", 200, 1],
+      ["Eli Giver", 100, 1],
+    ]);
+  });
+
+  it("converts into the donor's preferred currency at each payment's rate", async () => {
+    await db
+      .update(contact)
+      .set({ preferredCurrency: "ILS" })
+      .where(eq(contact.id, dana));
+    await db.insert(exchangeRate).values([
+      { date: "2025-03-01", currency: "ILS", rate: "3.5", source: "manual" },
+      { date: "2025-04-01", currency: "ILS", rate: "3.6", source: "manual" },
+    ]);
+    await pay({ paymentDate: "2025-03-01" });
+    await pay({
+      paymentDate: "2025-04-01",
+      amount: "360.00",
+      amountUsd: "100.00",
+      currency: "ILS",
+      exchangeRate: "3.6",
+    });
+
+    const statement = await getGivingStatement(dana, year2025);
+    expect(statement?.lines.map((line) => line.convertedAmount)).toEqual([350, 360]);
+    expect(statement).toMatchObject({ currency: "ILS", total: 710, totalUsd: 200 });
+
+    const inDollars = await getGivingStatement(dana, year2025, { currency: "USD" });
+    expect(inDollars?.total).toBe(200);
+  });
+
+  it("gives a donor asked for by id an empty statement", async () => {
+    await pay({});
+    expect((await getGivingStatements(year2025)).map((s) => s.contactId)).toEqual([dana]);
+    expect(await getGivingStatement(eli, year2025)).toMatchObject({
+      lines: [],
+      total: 0,
+    });
+    expect(await getGivingStatement(404, year2025)).toBeNull();
+  });
+});
+
+describe("exports", () => {
+  it("totals a donor's CSV", async () => {
+    await pay({ referenceNumber: "CHK 100" });
+    const csv = givingStatementCsv((await getGivingStatement(dana, year2025))!);
+    const rows = csv.trim().split(/\r?\n/);
+    expect(rows.slice(0, 3)).toEqual([
+      "Donor,Dana Donor",
+      "Period,Calendar year 2025",
+      "Currency,USD",
+    ]);
+    expect(rows).toContain(
+      "2025-03-01,1,Building fund - New wing,check,CHK 100,,100.00,USD,100.00,100.00"
+    );
+    expect(rows.at(-1)).toBe("Total,,,,,,,,100.00,100.00");
+  });
+
+  it("renders a PDF", async () => {
+    await pay({});
+    const pdf = renderGivingStatementsPdf(await getGivingStatements(year2025));
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+  });
+});
@@ -0,0 +1,517 @@
+import { and, eq, gte, inArray, isNull, lte, sql } from "drizzle-orm";
+import { db, type DbExecutor } from "@/lib/db";
+import {
+  category,
+  contact,
+  payment,
+  paymentAllocations,
+  pledge,
+} from "@/lib/db/schema";
+import { toCsv, type CsvValue } from "@/lib/csv";
+import { fromUsd, roundMoney, toNumber, toUsd } from "@/lib/currency";
+import { getRate, type Currency } from "@/lib/exchange-rates";
+import { getOrganization } from "@/lib/organization";
+import {
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  renderPdf,
+  type PdfPage,
+  type PdfText,
+} from "@/lib/pdf";
+import { fiscalYearRange } from "@/lib/receipts";
+
+export type StatementBasis = "calendar" | "fiscal";
+
+export interface StatementPeriod {
+  year: number;
+  basis: StatementBasis;
+  start: string;
+  end: string;
+}
+
+export interface StatementLine {
+  paymentId: number;
+  // Set when the line is one pledge's share of a split payment
+  allocationId: number | null;
+  paymentDate: string;
+  pledgeId: number;
+  description: string | null;
+  categoryName: string | null;
+  paymentMethod: string;
+  referenceNumber: string | null;
+  receiptNumber: string | null;
+  amount: number;
+  currency: Currency;
+  amountUsd: number;
+  // In the statement's currency, at the rate for the payment date
+  convertedAmount: number;
+}
+
+export interface GivingStatement {
+  contactId: number;
+  donorName: string;
+  donorAddress: string | null;
+  currency: Currency;
+  period: StatementPeriod;
+  lines: StatementLine[];
+  totalUsd: number;
+  total: number;
+}
+
+export interface StatementOptions {
+  // Overrides each donor's preferred currency
+  currency?: Currency;
+}
+
+// Only money actually received belongs on a statement.
+const STATEMENT_STATUS = "completed";
+
+export function statementPeriod(
+  year: number,
+  basis: StatementBasis
+): StatementPeriod {
+  const range =
+    basis === "fiscal"
+      ? fiscalYearRange(year)
+      : { start: `${year}-01-01`, end: `${year}-12-31` };
+  return { year, basis, ...range };
+}
+
+type RawLine = Omit<StatementLine, "amountUsd" | "convertedAmount"> & {
+  contactId: number;
+  amountUsd: string | null;
+  exchangeRate: string | null;
+};
+
+// Completed payments in the period for the given donors (every donor when
+// omitted). A payment split across pledges contributes one line per
+// allocation; any other payment contributes one line through its pledge.
+async function getRawLines(
+  period: StatementPeriod,
+  contactIds: number[] | undefined,
+  executor: DbExecutor
+): Promise<RawLine[]> {
+  const inPeriod = and(
+    eq(payment.paymentStatus, STATEMENT_STATUS),
+    isNull(payment.deletedAt),
+    isNull(pledge.deletedAt),
+    gte(payment.paymentDate, period.start),
+    lte(payment.paymentDate, period.end),
+    contactIds ? inArray(pledge.contactId, contactIds) : undefined
+  );
+
+  const direct = await executor
+    .select({
+      contactId: pledge.contactId,
+      paymentId: payment.id,
+      paymentDate: payment.paymentDate,
+      pledgeId: pledge.id,
+      description: pledge.description,
+      categoryName: category.name,
+      paymentMethod: payment.paymentMethod,
+      referenceNumber: payment.referenceNumber,
+      receiptNumber: payment.receiptNumber,
+      amount: payment.amount,
+      currency: payment.currency,
+      amountUsd: payment.amountUsd,
+      exchangeRate: payment.exchangeRate,
+    })
+    .from(payment)
+    .innerJoin(pledge, eq(payment.pledgeId, pledge.id))
+    .leftJoin(category, eq(pledge.categoryId, category.id))
+    .where(
+      and(
+        inPeriod,
+        sql`NOT EXISTS (SELECT 1 FROM ${paymentAllocations} WHERE ${paymentAllocations.paymentId} = ${payment.id})`
+      )
+    );
+
+  const allocated = await executor
+    .select({
+      contactId: pledge.contactId,
+      paymentId: payment.id,
+      allocationId: paymentAllocations.id,
+      paymentDate: payment.paymentDate,
+      pledgeId: pledge.id,
+      description: pledge.description,
+      categoryName: category.name,
+      paymentMethod: payment.paymentMethod,
+      referenceNumber: payment.referenceNumber,
+      receiptNumber: payment.receiptNumber,
+      amount: paymentAllocations.allocatedAmount,
+      currency: paymentAllocations.currency,
+      amountUsd: paymentAllocations.allocatedAmountUsd,
+      exchangeRate: payment.exchangeRate,
+    })
+    .from(paymentAllocations)
+    .innerJoin(payment, eq(paymentAllocations.paymentId, payment.id))
+    .innerJoin(pledge, eq(paymentAllocations.pledgeId, pledge.id))
+    .leftJoin(category, eq(pledge.categoryId, category.id))
+    .where(inPeriod);
+
+  return [
+    ...direct.map((row) => ({
+      ...row,
+      allocationId: null,
+      amount: toNumber(row.amount),
+    })),
+    ...allocated.map((row) => ({ ...row, amount: toNumber(row.amount) })),
+  ].sort(
+    (a, b) =>
+      a.paymentDate.localeCompare(b.paymentDate) || a.paymentId - b.paymentId
+  );
+}
+
+// Converts lines into a statement currency at each payment date's rate,
+// looking every rate up once.
+function createConverter() {
+  const rates = new Map<string, Promise<number | null>>();
+  const rateFor = (currency: Currency, date: string) => {
+    const key = `${currency}:${date}`;
+    if (!rates.has(key)) rates.set(key, getRate(currency, date));
+    return rates.get(key)!;
+  };
+
+  return async (
+    line: RawLine,
+    target: Currency
+  ): Promise<{ amountUsd: number; convertedAmount: number }> => {
+    let amountUsd: number;
+    if (line.amountUsd !== null) {
+      amountUsd = toNumber(line.amountUsd);
+    } else if (line.currency === "USD") {
+      amountUsd = line.amount;
+    } else {
+      const rate =
+        line.exchangeRate ?? (await rateFor(line.currency, line.paymentDate));
+      if (!rate) {
+        throw new Error(`No ${line.currency} rate for ${line.paymentDate}`);
+      }
+      amountUsd = toUsd(line.amount, rate);
+    }
+
+    if (line.currency === target) {
+      return { amountUsd, convertedAmount: line.amount };
+    }
+    const targetRate = await rateFor(target, line.paymentDate);
+    if (!targetRate) {
+      throw new Error(`No ${target} rate for ${line.paymentDate}`);
+    }
+    return { amountUsd, convertedAmount: fromUsd(amountUsd, targetRate) };
+  };
+}
+
+// Year-end statements for the given donors, or for every donor who gave in
+// the period when `contactIds` is omitted. Donors asked for by id get a
+// statement even when they gave nothing in the period.
+export async function getGivingStatements(
+  period: StatementPeriod,
+  contactIds?: number[],
+  options: StatementOptions = {},
+  executor: DbExecutor = db
+): Promise<GivingStatement[]> {
+  const rawLines = await getRawLines(period, contactIds, executor);
+  const ids =
+    contactIds ?? [...new Set(rawLines.map((line) => line.contactId))];
+  if (ids.length === 0) return [];
+
+  const donors = await executor
+    .select({
+      id: contact.id,
+      firstName: contact.firstName,
+      lastName: contact.lastName,
+      address: contact.address,
+      preferredCurrency: contact.preferredCurrency,
+    })
+    .from(contact)
+    .where(and(inArray(contact.id, ids), isNull(contact.deletedAt)))
+    .orderBy(contact.lastName, contact.firstName, contact.id);
+
+  const convert = createConverter();
+  const statements: GivingStatement[] = [];
+
+  for (const donor of donors) {
+    const currency = options.currency ?? donor.preferredCurrency ?? "USD";
+    const lines: StatementLine[] = [];
+    for (const raw of rawLines) {
+      if (raw.contactId !== donor.id) continue;
+      const { contactId: _, exchangeRate: __, ...line } = raw;
+      lines.push({ ...line, ...(await convert(raw, currency)) });
+    }
+
+    statements.push({
+      contactId: donor.id,
+      donorName: `${donor.firstName} ${donor.lastName}`.trim(),
+      donorAddress: donor.address,
+      currency,
+      period,
+      lines,
+      totalUsd: roundMoney(lines.reduce((sum, line) => sum + line.amountUsd, 0)),
+      total: roundMoney(
+        lines.reduce((sum, line) => sum + line.convertedAmount, 0)
+      ),
+    });
+  }
+  return statements;
+}
+
+// One donor's statement, or null when the contact does not exist.
+export async function getGivingStatement(
+  contactId: number,
+  period: StatementPeriod,
+  options: StatementOptions = {},
+  executor: DbExecutor = db
+): Promise<GivingStatement | null> {
+  const [statement] = await getGivingStatements(
+    period,
+    [contactId],
+    options,
+    executor
+  );
+  return statement ?? null;
+}
+
+export function describePeriod(period: StatementPeriod): string {
+  return period.basis === "fiscal"
+    ? `Fiscal year ${period.year} (${period.start} to ${period.end})`
+    : `Calendar year ${period.year}`;
+}
+
+function lineDescription(line: StatementLine): string {
+  return [line.categoryName, line.description].filter(Boolean).join(" - ");
+}
+
+// One donor's statement: a summary block, then one row per line.
+export function givingStatementCsv(statement: GivingStatement): string {
+  return toCsv([
+    ["Donor", statement.donorName],
+    ["Period", describePeriod(statement.period)],
+    ["Currency", statement.currency],
+    [],
+    [
+      "Date",
+      "Payment ID",
+      "Description",
+      "Method",
+      "Reference",
+      "Receipt",
+      "Amount",
+      "Currency",
+      "Amount (USD)",
+      `Amount (${statement.currency})`,
+    ],
+    ...statement.lines.map((line) => [
+      line.paymentDate,
+      line.paymentId,
+      lineDescription(line),
+      line.paymentMethod,
+      line.referenceNumber,
+      line.receiptNumber,
+      line.amount.toFixed(2),
+      line.currency,
+      line.amountUsd.toFixed(2),
+      line.convertedAmount.toFixed(2),
+    ]),
+    [
+      "Total",
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+      statement.totalUsd.toFixed(2),
+      statement.total.toFixed(2),
+    ],
+  ]);
+}
+
+// Every donor's lines in one table, for bulk exports.
+export function givingStatementsCsv(statements: GivingStatement[]): string {
+  const rows: CsvValue[][] = [
+    [
+      "Contact ID",
+      "Donor",
+      "Date",
+      "Payment ID",
+      "Description",
+      "Method",
+      "Reference",
+      "Receipt",
+      "Amount",
+      "Currency",
+      "Amount (USD)",
+      "Statement Amount",
+      "Statement Currency",
+    ],
+  ];
+  for (const statement of statements) {
+    for (const line of statement.lines) {
+      rows.push([
+        statement.contactId,
+        statement.donorName,
+        line.paymentDate,
+        line.paymentId,
+        lineDescription(line),
+        line.paymentMethod,
+        line.referenceNumber,
+        line.receiptNumber,
+        line.amount.toFixed(2),
+        line.currency,
+        line.amountUsd.toFixed(2),
+        line.convertedAmount.toFixed(2),
+        statement.currency,
+      ]);
+    }
+  }
+  return toCsv(rows);
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(
+    amount
+  );
+}
+
+const MARGIN = 56;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const ROW_HEIGHT = 14;
+const COLUMNS = {
+  date: MARGIN,
+  description: MARGIN + 70,
+  receipt: MARGIN + 280,
+  original: MARGIN + 420,
+  converted: RIGHT,
+};
+
+function statementPages(statement: GivingStatement): PdfPage[] {
+  const organization = getOrganization();
+  const pages: PdfPage[] = [];
+  let texts: PdfText[] = [];
+  let rules: PdfPage["rules"] = [];
+  let y = 0;
+
+  const tableHeader = () => {
+    texts.push(
+      { x: COLUMNS.date, y, text: "Date", bold: true, size: 9 },
+      { x: COLUMNS.description, y, text: "Description", bold: true, size: 9 },
+      { x: COLUMNS.receipt, y, text: "Receipt", bold: true, size: 9 },
+      { x: COLUMNS.original, y, text: "Amount", bold: true, size: 9, align: "right" },
+      {
+        x: COLUMNS.converted,
+        y,
+        text: `Amount (${statement.currency})`,
+        bold: true,
+        size: 9,
+        align: "right",
+      }
+    );
+    rules!.push({ x1: MARGIN, y1: y - 4, x2: RIGHT, y2: y - 4 });
+    y -= ROW_HEIGHT + 4;
+  };
+
+  const newPage = (first: boolean) => {
+    if (!first) pages.push({ texts, rules });
+    texts = [];
+    rules = [];
+    y = PAGE_HEIGHT - MARGIN - 10;
+    if (!first) {
+      texts.push({
+        x: MARGIN,
+        y,
+        text: `${statement.donorName} - ${describePeriod(statement.period)} (continued)`,
+        size: 9,
+      });
+      y -= 24;
+      tableHeader();
+    }
+  };
+
+  newPage(true);
+  texts.push({ x: MARGIN, y, text: organization.name, size: 16, bold: true });
+  for (const line of organization.address) {
+    y -= 14;
+    texts.push({ x: MARGIN, y, text: line });
+  }
+  if (organization.taxId) {
+    y -= 14;
+    texts.push({ x: MARGIN, y, text: `Tax ID: ${organization.taxId}` });
+  }
+
+  y -= 36;
+  texts.push({ x: MARGIN, y, text: "Year-End Giving Statement", size: 14, bold: true });
+  texts.push({ x: RIGHT, y, text: describePeriod(statement.period), align: "right" });
+  y -= 28;
+  texts.push({ x: MARGIN, y, text: statement.donorName, size: 12 });
+  for (const line of (statement.donorAddress ?? "").split(/\r?\n/).filter(Boolean)) {
+    y -= 14;
+    texts.push({ x: MARGIN, y, text: line });
+  }
+  y -= 30;
+  tableHeader();
+
+  for (const line of statement.lines) {
+    if (y < MARGIN + 60) newPage(false);
+    texts.push(
+      { x: COLUMNS.date, y, text: line.paymentDate, size: 9 },
+      { x: COLUMNS.description, y, text: lineDescription(line).slice(0, 40), size: 9 },
+      { x: COLUMNS.receipt, y, text: line.receiptNumber ?? "", size: 9 },
+      {
+        x: COLUMNS.original,
+        y,
+        text: formatMoney(line.amount, line.currency),
+        size: 9,
+        align: "right",
+      },
+      {
+        x: COLUMNS.converted,
+        y,
+        text: formatMoney(line.convertedAmount, statement.currency),
+        size: 9,
+        align: "right",
+      }
+    );
+    y -= ROW_HEIGHT;
+  }
+
+  if (y < MARGIN + 80) newPage(false);
+  rules.push({ x1: MARGIN, y1: y + 8, x2: RIGHT, y2: y + 8 });
+  y -= 6;
+  texts.push(
+    { x: COLUMNS.description, y, text: "Total", bold: true },
+    {
+      x: COLUMNS.converted,
+      y,
+      text: formatMoney(statement.total, statement.currency),
+      bold: true,
+      align: "right",
+    }
+  );
+  y -= 28;
+  texts.push({
+    x: MARGIN,
+    y,
+    text: "Amounts in other currencies are converted at the exchange rate for each payment date.",
+    size: 8,
+  });
+  y -= 12;
+  texts.push({
+    x: MARGIN,
+    y,
+    text:
+      process.env.RECEIPT_TAX_STATEMENT ||
+      "No goods or services were provided in exchange for these contributions.",
+    size: 8,
+  });
+
+  pages.push({ texts, rules });
+  return pages;
+}
+
+// One or more pages per donor, each donor starting on a new page.
+export function renderGivingStatementsPdf(
+  statements: GivingStatement[]
+): Buffer {
+  return renderPdf(statements.flatMap(statementPages));
+}
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq, sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { db, txDb } from "@/lib/db";
+import { contact, payment, paymentAllocations, pledge } from "@/lib/db/schema";
+import {
+  moveToTrash,
+  purgeFromTrash,
+  restoreFromTrash,
+  TrashStateError,
+  type TrashKind,
+} from "./trash";
+
+let donorId: number;
+let pledgeId: number;
+let otherPledgeId: number;
+let splitId: number;
+
+const trash = (kind: TrashKind, id: number) =>
+  txDb.transaction((tx) => moveToTrash(kind, id, null, tx));
+const restore = (kind: TrashKind, id: number) =>
+  txDb.transaction((tx) => restoreFromTrash(kind, id, tx));
+const purge = (kind: TrashKind, id: number) =>
+  txDb.transaction((tx) => purgeFromTrash(kind, id, tx));
+
+async function addPledge() {
+  const [created] = await db
+    .insert(pledge)
+    .values({
+      contactId: donorId,
+      pledgeDate: "2025-01-01",
+      originalAmount: "1000.00",
+      originalAmountUsd: "1000.00",
+      balance: "1000.00",
+      balanceUsd: "1000.00",
+    })
+    .returning();
+  return created.id;
+}
+
+const allocations = async () =>
+  (await db.select().from(paymentAllocations)).map((row) => row.pledgeId);
+
+beforeEach(async () => {
+  await db.execute(
+    sql`TRUNCATE ${contact}, ${pledge}, ${payment} RESTART IDENTITY CASCADE`
+  );
+  [{ id: donorId }] = await db
+    .insert(contact)
+    .values({ firstName: "Dana", lastName: "Donor" })
+    .returning();
+  pledgeId = await addPledge();
+  otherPledgeId = await addPledge();
+  [{ id: splitId }] = await db
+    .insert(payment)
+    .values({
+      amount: "300.00",
+      amountUsd: "300.00",
+      currency: "USD",
+      paymentDate: "2025-03-01",
+      paymentMethod: "wire",
+    })
+    .returning();
+  await db.insert(paymentAllocations).values(
+    [pledgeId, otherPledgeId].map((allocatedTo) => ({
+      paymentId: splitId,
+      pledgeId: allocatedTo,
+      allocatedAmount: "150.00",
+      allocatedAmountUsd: "150.00",
+      currency: "USD" as const,
+    }))
+  );
+});
+
+describe("split payments in the trash", () => {
+  it("keeps a pledge holding part of a live split payment", async () => {
+    await expect(trash("pledge", pledgeId)).rejects.toThrow(
+      new TrashStateError(
+        `Pledge ${pledgeId} has part of split payment ${splitId}; delete that payment first`
+      )
+    );
+    await expect(trash("contact", donorId)).rejects.toThrow(TrashStateError);
+    const [kept] = await db.select().from(pledge).where(eq(pledge.id, pledgeId));
+    expect(kept.deletedAt).toBeNull();
+  });
+
+  it("purges such a pledge only once the split payment is gone", async () => {
+    await trash("payment", splitId);
+    await trash("pledge", pledgeId);
+    await expect(purge("pledge", pledgeId)).rejects.toThrow(
+      `Pledge ${pledgeId} has part of split payment ${splitId}; purge that payment first`
+    );
+    expect(await allocations()).toEqual([pledgeId, otherPledgeId]);
+
+    // Restored, the split payment still sums to its amount
+    await restore("pledge", pledgeId);
+    await restore("payment", splitId);
+    const [restored] = await db.select().from(pledge).where(eq(pledge.id, pledgeId));
+    expect(restored.totalPaid).toBe("150.00");
+
+    await trash("payment", splitId);
+    await purge("payment", splitId);
+    await trash("pledge", pledgeId);
+    await purge("pledge", pledgeId);
+    expect(await db.select().from(pledge).where(eq(pledge.id, pledgeId))).toEqual([]);
+  });
+});
@@ -0,0 +1,559 @@
+import {
+  and,
+  eq,
+  inArray,
+  isNotNull,
+  isNull,
+  sql,
+  type AnyColumn,
+} from "drizzle-orm";
+import { db, type DbExecutor } from "@/lib/db";
+import {
+  contact,
+  payment,
+  paymentAllocations,
+  paymentPlan,
+  pledge,
+  staffUser,
+  type Contact,
+  type Payment,
+  type Pledge,
+} from "@/lib/db/schema";
+import { getPaymentContactId, recordAudit } from "@/lib/audit";
+import type { SessionUser } from "@/lib/auth/guard";
+import { auditBonusSync, syncPaymentBonus, type BonusSync } from "@/lib/bonus";
+import { toNumber } from "@/lib/currency";
+import {
+  getPaymentLedgerTargets,
+  updateLedgerTotals,
+  type LedgerTargets,
+} from "@/lib/pledge-totals";
+import { getIssuedReceipt } from "@/lib/receipts";
+
+// Deleting a contact, pledge or payment moves it to the trash: the row keeps
+// its data, gets a deletedAt, and drops out of every list and total. What is
+// deleted along with it (a contact's pledges; a pledge's payment plans and
+// payments) gets the same deletedAt, which is how a restore finds it again.
+// Only a purge removes rows for good.
+
+export type TrashKind = "contact" | "pledge" | "payment";
+
+export const TRASH_KINDS = ["contact", "pledge", "payment"] as const;
+
+export function isTrashKind(value: string): value is TrashKind {
+  return (TRASH_KINDS as readonly string[]).includes(value);
+}
+
+export class TrashStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrashStateError";
+  }
+}
+
+export interface TrashItem {
+  kind: TrashKind;
+  id: number;
+  label: string;
+  contactId: number | null;
+  deletedAt: Date;
+  deletedByName: string | null;
+}
+
+type TrashRecord = Contact | Pledge | Payment;
+
+export interface TrashChange {
+  kind: TrashKind;
+  id: number;
+  before: TrashRecord;
+  // Null after a purge
+  after: TrashRecord | null;
+  contactId: number | null;
+  // Bonus calculations removed or recalculated for the payments involved
+  bonusSyncs: BonusSync[];
+}
+
+const tables = { contact, pledge, payment } as const;
+
+async function lockRecord(
+  kind: TrashKind,
+  id: number,
+  executor: DbExecutor
+): Promise<TrashRecord> {
+  const table = tables[kind];
+  const [record] = await executor
+    .select()
+    .from(table)
+    .where(eq(table.id, id))
+    .for("update");
+  if (!record) throw new TrashStateError(`The ${kind} ${id} does not exist`);
+  return record;
+}
+
+function mergeTargets(into: LedgerTargets, targets: LedgerTargets) {
+  into.pledgeIds = [...new Set([...into.pledgeIds, ...targets.pledgeIds])];
+  into.paymentPlanIds = [
+    ...new Set([...into.paymentPlanIds, ...targets.paymentPlanIds]),
+  ];
+}
+
+// Sets or clears deletedAt on payments and brings their bonuses in line. A
+// refund goes with the payment it refunds and neither can be deleted, as
+// outside the trash; nor can a payment with an issued receipt, one in a
+// deposit or one whose bonus has been paid out (BonusAlreadyPaidError).
+async function setPaymentsDeleted(
+  payments: Payment[],
+  deleted: { deletedAt: Date; deletedBy: number | null } | null,
+  targets: LedgerTargets,
+  executor: DbExecutor
+): Promise<BonusSync[]> {
+  const bonusSyncs: BonusSync[] = [];
+  for (const current of payments) {
+    if (deleted) {
+      if (current.refundOfPaymentId || toNumber(current.refundedAmount) > 0) {
+        throw new TrashStateError(
+          `Payment ${current.id} has been refunded and cannot be deleted`
+        );
+      }
+      const issuedReceipt = await getIssuedReceipt(current.id, executor);
+      if (issuedReceipt) {
+        throw new TrashStateError(
+          `Void receipt ${issuedReceipt.receiptNumber} before deleting payment ${current.id}`
+        );
+      }
+      if (current.depositBatchId) {
+        throw new TrashStateError(
+          `Payment ${current.id} is in deposit ${current.depositBatchId}; take it out of the deposit first`
+        );
+      }
+    }
+    mergeTargets(targets, await getPaymentLedgerTargets(current.id, executor));
+    await executor
+      .update(payment)
+      .set({
+        deletedAt: deleted?.deletedAt ?? null,
+        deletedBy: deleted?.deletedBy ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(payment.id, current.id));
+    const sync = await syncPaymentBonus(current.id, executor);
+    if (sync) bonusSyncs.push(sync);
+  }
+  return bonusSyncs;
+}
+
+// Allocations carry no deletedAt, so a pledge that holds part of a split
+// payment stays out of the trash while that payment is live, and out of a
+// purge while the payment exists at all: its allocations must keep summing
+// to its amount.
+async function assertNoSplitAllocations(
+  pledgeIds: number[],
+  includeTrashedPayments: boolean,
+  executor: DbExecutor
+): Promise<void> {
+  if (pledgeIds.length === 0) return;
+  const [split] = await executor
+    .select({
+      pledgeId: paymentAllocations.pledgeId,
+      paymentId: paymentAllocations.paymentId,
+    })
+    .from(paymentAllocations)
+    .innerJoin(payment, eq(paymentAllocations.paymentId, payment.id))
+    .where(
+      and(
+        inArray(paymentAllocations.pledgeId, pledgeIds),
+        includeTrashedPayments ? undefined : isNull(payment.deletedAt)
+      )
+    )
+    .limit(1);
+  if (split) {
+    throw new TrashStateError(
+      `Pledge ${split.pledgeId} has part of split payment ${split.paymentId}; ${
+        includeTrashedPayments ? "purge" : "delete"
+      } that payment first`
+    );
+  }
+}
+
+async function setPledgesDeleted(
+  pledges: Pledge[],
+  deleted: { deletedAt: Date; deletedBy: number | null } | null,
+  targets: LedgerTargets,
+  executor: DbExecutor
+): Promise<BonusSync[]> {
+  if (deleted) {
+    await assertNoSplitAllocations(
+      pledges.map((row) => row.id),
+      false,
+      executor
+    );
+  }
+  const bonusSyncs: BonusSync[] = [];
+  for (const current of pledges) {
+    // Restoring brings back only what was deleted along with the pledge
+    const sameDeletion = deleted
+      ? isNull(paymentPlan.deletedAt)
+      : eq(paymentPlan.deletedAt, current.deletedAt!);
+    const plans = await executor
+      .update(paymentPlan)
+      .set({ deletedAt: deleted?.deletedAt ?? null, updatedAt: new Date() })
+      .where(and(eq(paymentPlan.pledgeId, current.id), sameDeletion))
+      .returning({ id: paymentPlan.id });
+
+    const payments = await executor
+      .select()
+      .from(payment)
+      .where(
+        and(
+          eq(payment.pledgeId, current.id),
+          deleted
+            ? isNull(payment.deletedAt)
+            : eq(payment.deletedAt, current.deletedAt!)
+        )
+      );
+    bonusSyncs.push(
+      ...(await setPaymentsDeleted(payments, deleted, targets, executor))
+    );
+
+    await executor
+      .update(pledge)
+      .set({
+        deletedAt: deleted?.deletedAt ?? null,
+        deletedBy: deleted?.deletedBy ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(pledge.id, current.id));
+    mergeTargets(targets, {
+      pledgeIds: [current.id],
+      paymentPlanIds: plans.map((plan) => plan.id),
+    });
+  }
+  return bonusSyncs;
+}
+
+// Moves a record to the trash with everything that belongs to it, and
+// recomputes the pledge and plan totals its payments fed.
+export async function moveToTrash(
+  kind: TrashKind,
+  id: number,
+  deletedBy: number | null,
+  executor: DbExecutor
+): Promise<TrashChange> {
+  const before = await lockRecord(kind, id, executor);
+  if (before.deletedAt) {
+    throw new TrashStateError(`The ${kind} ${id} is already in the trash`);
+  }
+  const deleted = { deletedAt: new Date(), deletedBy };
+  const targets: LedgerTargets = { pledgeIds: [], paymentPlanIds: [] };
+
+  let bonusSyncs: BonusSync[];
+  if (kind === "payment") {
+    bonusSyncs = await setPaymentsDeleted(
+      [before as Payment],
+      deleted,
+      targets,
+      executor
+    );
+  } else if (kind === "pledge") {
+    bonusSyncs = await setPledgesDeleted(
+      [before as Pledge],
+      deleted,
+      targets,
+      executor
+    );
+  } else {
+    const pledges = await executor
+      .select()
+      .from(pledge)
+      .where(and(eq(pledge.contactId, id), isNull(pledge.deletedAt)));
+    bonusSyncs = await setPledgesDeleted(pledges, deleted, targets, executor);
+    await executor
+      .update(contact)
+      .set({ ...deleted, updatedAt: new Date() })
+      .where(eq(contact.id, id));
+  }
+
+  await updateLedgerTotals(targets, executor);
+  return {
+    kind,
+    id,
+    before,
+    after: await lockRecord(kind, id, executor),
+    contactId: await getContactId(kind, before, executor),
+    bonusSyncs,
+  };
+}
+
+// Brings a record back from the trash with everything that was deleted along
+// with it, and recomputes the pledge and plan balances. A pledge or payment
+// cannot come back while its contact or pledge is still in the trash.
+export async function restoreFromTrash(
+  kind: TrashKind,
+  id: number,
+  executor: DbExecutor
+): Promise<TrashChange> {
+  const before = await lockRecord(kind, id, executor);
+  if (!before.deletedAt) {
+    throw new TrashStateError(`The ${kind} ${id} is not in the trash`);
+  }
+  const targets: LedgerTargets = { pledgeIds: [], paymentPlanIds: [] };
+
+  let bonusSyncs: BonusSync[];
+  if (kind === "payment") {
+    const { pledgeId } = before as Payment;
+    if (pledgeId && (await isDeleted("pledge", pledgeId, executor))) {
+      throw new TrashStateError(
+        `Restore pledge ${pledgeId} before this payment`
+      );
+    }
+    bonusSyncs = await setPaymentsDeleted(
+      [before as Payment],
+      null,
+      targets,
+      executor
+    );
+  } else if (kind === "pledge") {
+    const { contactId } = before as Pledge;
+    if (await isDeleted("contact", contactId, executor)) {
+      throw new TrashStateError(
+        `Restore contact ${contactId} before this pledge`
+      );
+    }
+    bonusSyncs = await setPledgesDeleted(
+      [before as Pledge],
+      null,
+      targets,
+      executor
+    );
+  } else {
+    const pledges = await executor
+      .select()
+      .from(pledge)
+      .where(
+        and(eq(pledge.contactId, id), eq(pledge.deletedAt, before.deletedAt))
+      );
+    bonusSyncs = await setPledgesDeleted(pledges, null, targets, executor);
+    await executor
+      .update(contact)
+      .set({ deletedAt: null, deletedBy: null, updatedAt: new Date() })
+      .where(eq(contact.id, id));
+  }
+
+  await updateLedgerTotals(targets, executor);
+  return {
+    kind,
+    id,
+    before,
+    after: await lockRecord(kind, id, executor),
+    contactId: await getContactId(kind, before, executor),
+    bonusSyncs,
+  };
+}
+
+// Permanently deletes a record that is in the trash, with the payments that
+// were trashed along with it. Payment plans and the contact's other records
+// cascade away with their parent row.
+export async function purgeFromTrash(
+  kind: TrashKind,
+  id: number,
+  executor: DbExecutor
+): Promise<TrashChange> {
+  const before = await lockRecord(kind, id, executor);
+  if (!before.deletedAt) {
+    throw new TrashStateError(`The ${kind} ${id} is not in the trash`);
+  }
+  // A purged contact's history goes with it
+  const contactId =
+    kind === "contact" ? null : await getContactId(kind, before, executor);
+
+  if (kind === "payment") {
+    await executor.delete(payment).where(eq(payment.id, id));
+  } else {
+    const pledges =
+      kind === "pledge"
+        ? [before as Pledge]
+        : await executor.select().from(pledge).where(eq(pledge.contactId, id));
+    if (pledges.some((row) => !row.deletedAt)) {
+      throw new TrashStateError(
+        `Contact ${id} has pledges outside the trash`
+      );
+    }
+    const pledgeIds = pledges.map((row) => row.id);
+    await assertNoSplitAllocations(pledgeIds, true, executor);
+    if (pledgeIds.length > 0) {
+      // Payments outlive a deleted pledge (its id is set null), so remove
+      // the ones trashed with it first
+      await executor
+        .delete(payment)
+        .where(
+          and(
+            inArray(payment.pledgeId, pledgeIds),
+            isNotNull(payment.deletedAt)
+          )
+        );
+      await executor.delete(pledge).where(inArray(pledge.id, pledgeIds));
+    }
+    if (kind === "contact") {
+      await executor.delete(contact).where(eq(contact.id, id));
+    }
+  }
+
+  return { kind, id, before, after: null, contactId, bonusSyncs: [] };
+}
+
+async function isDeleted(
+  kind: "contact" | "pledge",
+  id: number,
+  executor: DbExecutor
+): Promise<boolean> {
+  const table = tables[kind];
+  const [row] = await executor
+    .select({ deletedAt: table.deletedAt })
+    .from(table)
+    .where(eq(table.id, id))
+    .limit(1);
+  return !!row?.deletedAt;
+}
+
+async function getContactId(
+  kind: TrashKind,
+  record: TrashRecord,
+  executor: DbExecutor
+): Promise<number | null> {
+  if (kind === "contact") return record.id;
+  if (kind === "pledge") return (record as Pledge).contactId;
+  const { pledgeId } = record as Payment;
+  if (!pledgeId) return getPaymentContactId(record.id, executor);
+  const [row] = await executor
+    .select({ contactId: pledge.contactId })
+    .from(pledge)
+    .where(eq(pledge.id, pledgeId))
+    .limit(1);
+  return row?.contactId ?? null;
+}
+
+// Writes the audit entries for a trash operation once it has committed.
+// Moving to and from the trash are updates of deletedAt; a purge is the
+// delete.
+export async function auditTrashChange(
+  user: SessionUser | null,
+  change: TrashChange
+): Promise<void> {
+  await recordAudit(user, {
+    table: tables[change.kind],
+    recordId: change.id,
+    action: change.after ? "update" : "delete",
+    before: change.before,
+    after: change.after ?? undefined,
+    contactId: change.contactId,
+  });
+
+  for (const sync of change.bonusSyncs) {
+    await auditBonusSync(user, sync);
+  }
+}
+
+const deletedByName = (column: AnyColumn) =>
+  sql<string | null>`(SELECT ${staffUser.name} FROM ${staffUser} WHERE ${staffUser.id} = ${column})`;
+
+// What is in the trash, most recently deleted first. Records deleted along
+// with their contact or pledge are left out: restoring it brings them back.
+export async function listTrash(
+  kind?: TrashKind,
+  executor: DbExecutor = db
+): Promise<TrashItem[]> {
+  const items: TrashItem[] = [];
+
+  if (!kind || kind === "contact") {
+    const rows = await executor
+      .select({
+        id: contact.id,
+        firstName: contact.firstName,
+        lastName: contact.lastName,
+        deletedAt: contact.deletedAt,
+        deletedByName: deletedByName(contact.deletedBy),
+      })
+      .from(contact)
+      .where(isNotNull(contact.deletedAt));
+    for (const row of rows) {
+      items.push({
+        kind: "contact",
+        id: row.id,
+        label: `${row.firstName} ${row.lastName}`,
+        contactId: row.id,
+        deletedAt: row.deletedAt!,
+        deletedByName: row.deletedByName,
+      });
+    }
+  }
+
+  if (!kind || kind === "pledge") {
+    const rows = await executor
+      .select({
+        id: pledge.id,
+        description: pledge.description,
+        originalAmount: pledge.originalAmount,
+        currency: pledge.currency,
+        contactId: pledge.contactId,
+        firstName: contact.firstName,
+        lastName: contact.lastName,
+        deletedAt: pledge.deletedAt,
+        deletedByName: deletedByName(pledge.deletedBy),
+      })
+      .from(pledge)
+      .innerJoin(contact, eq(pledge.contactId, contact.id))
+      .where(
+        and(
+          isNotNull(pledge.deletedAt),
+          sql`${contact.deletedAt} IS DISTINCT FROM ${pledge.deletedAt}`
+        )
+      );
+    for (const row of rows) {
+      items.push({
+        kind: "pledge",
+        id: row.id,
+        label: `${row.description ?? "Pledge"}: ${row.originalAmount} ${row.currency} (${row.firstName} ${row.lastName})`,
+        contactId: row.contactId,
+        deletedAt: row.deletedAt!,
+        deletedByName: row.deletedByName,
+      });
+    }
+  }
+
+  if (!kind || kind === "payment") {
+    const rows = await executor
+      .select({
+        id: payment.id,
+        amount: payment.amount,
+        currency: payment.currency,
+        paymentDate: payment.paymentDate,
+        contactId: pledge.contactId,
+        firstName: contact.firstName,
+        lastName: contact.lastName,
+        deletedAt: payment.deletedAt,
+        deletedByName: deletedByName(payment.deletedBy),
+      })
+      .from(payment)
+      .leftJoin(pledge, eq(payment.pledgeId, pledge.id))
+      .leftJoin(contact, eq(pledge.contactId, contact.id))
+      .where(
+        and(
+          isNotNull(payment.deletedAt),
+          sql`${pledge.deletedAt} IS DISTINCT FROM ${payment.deletedAt}`
+        )
+      );
+    for (const row of rows) {
+      const donor = row.firstName ? ` (${row.firstName} ${row.lastName})` : "";
+      items.push({
+        kind: "payment",
+        id: row.id,
+        label: `Payment of ${row.amount} ${row.currency} on ${row.paymentDate}${donor}`,
+        contactId: row.contactId,
+        deletedAt: row.deletedAt!,
+        deletedByName: row.deletedByName,
+      });
+    }
+  }
+
+  return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+}
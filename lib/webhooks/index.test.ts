@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { eq, sql } from "drizzle-orm";
+
+vi.mock("@/lib/db", () => import("@/lib/db/testing").then((m) => m.testDb()));
+
+import { db } from "@/lib/db";
+import { auditLog, contact, pledge, webhookSource } from "@/lib/db/schema";
+import {
+  createWebhookSource,
+  listDeliveries,
+  listWebhookSources,
+  processDelivery,
+  receiveDelivery,
+  rotateWebhookSecret,
+  updateWebhookSource,
+  verifySourceSecret,
+  WebhookSourceError,
+  type WebhookSourceValues,
+} from ".";
+
+const contactSource: WebhookSourceValues = {
+  name: "CRM",
+  slug: "crm",
+  target: "contact",
+  fieldMap: { firstName: "first_name", lastName: "last_name", email: "email" },
+};
+
+async function create(values: Partial<WebhookSourceValues> = {}) {
+  const { source, secret } = await createWebhookSource(
+    { ...contactSource, ...values },
+    null,
+    db
+  );
+  return { source, secret };
+}
+
+async function storedSource(id: number) {
+  const [row] = await db.select().from(webhookSource).where(eq(webhookSource.id, id));
+  return row;
+}
+
+beforeEach(async () => {
+  await db.execute(
+    sql`TRUNCATE ${webhookSource}, ${contact}, ${pledge}, ${auditLog}
+      RESTART IDENTITY CASCADE`
+  );
+});
+
+describe("webhook sources", () => {
+  it("checks the secret, which rotating replaces", async () => {
+    const { source, secret } = await create();
+    expect(source).not.toHaveProperty("secretHash");
+    expect(source.fieldMap).toEqual(contactSource.fieldMap);
+
+    const row = await storedSource(source.id);
+    expect(verifySourceSecret(row, secret)).toBe(true);
+    expect(verifySourceSecret(row, "guess")).toBe(false);
+    expect(verifySourceSecret(row, null)).toBe(false);
+
+    const rotated = await rotateWebhookSecret(source.id, db);
+    const after = await storedSource(source.id);
+    expect(verifySourceSecret(after, secret)).toBe(false);
+    expect(verifySourceSecret(after, rotated!.secret)).toBe(true);
+  });
+
+  it("keeps slugs unique and off the processors' routes", async () => {
+    const { source } = await create();
+    await expect(create({ slug: "stripe" })).rejects.toThrow('"stripe" is reserved');
+    await expect(create({ name: "Forms" })).rejects.toThrow(
+      new WebhookSourceError('Source "CRM" already uses "crm"')
+    );
+    const change = await updateWebhookSource(source.id, { slug: "crm", name: "HL" }, db);
+    expect(change?.after).toMatchObject({ slug: "crm", name: "HL" });
+    expect(await updateWebhookSource(404, { name: "Nobody" }, db)).toBeNull();
+  });
+});
+
+describe("receiveDelivery", () => {
+  it("creates the mapped record and audits it", async () => {
+    const { source } = await create();
+    const delivery = await receiveDelivery(await storedSource(source.id), {
+      first_name: "Dana",
+      last_name: "Donor",
+      email: "dana@example.org",
+      utm_source: "newsletter",
+    });
+
+    const [created] = await db.select().from(contact);
+    expect(created).toMatchObject({ firstName: "Dana", email: "dana@example.org" });
+    expect(delivery).toMatchObject({
+      status: "processed",
+      recordId: created.id,
+      contactId: created.id,
+      attempts: 1,
+    });
+    expect(delivery.result).toMatch(`Created contact ${created.id}: `);
+    const [entry] = await db.select().from(auditLog);
+    expect(entry).toMatchObject({
+      tableName: "contact",
+      action: "create",
+      staffUserId: null,
+    });
+  });
+
+  it("can replay a failed delivery once the field map is fixed", async () => {
+    const { source } = await create({ fieldMap: { firstName: "first_name" } });
+    const failed = await receiveDelivery(await storedSource(source.id), {
+      first_name: "Dana",
+      surname: "Donor",
+    });
+    expect(failed.status).toBe("failed");
+    expect(failed.error).toContain("Last name is required");
+    expect(await db.select().from(contact)).toEqual([]);
+
+    await updateWebhookSource(
+      source.id,
+      { fieldMap: { firstName: "first_name", lastName: "surname" } },
+      db
+    );
+    const replayed = await processDelivery(failed.id);
+    expect(replayed).toMatchObject({ status: "processed", error: null, attempts: 2 });
+    // A processed delivery is not applied twice
+    expect(await processDelivery(failed.id)).toMatchObject({ attempts: 2 });
+    expect(await db.select().from(contact)).toHaveLength(1);
+
+    const [summary] = await listWebhookSources();
+    expect(summary).toMatchObject({ deliveryCount: 1, failedCount: 0 });
+  });
+
+  it("holds back a delivery that repeats a saved record", async () => {
+    const [donor] = await db
+      .insert(contact)
+      .values({ firstName: "Dana", lastName: "Donor", email: "dana@example.org" })
+      .returning();
+    const { source } = await create({
+      slug: "pledges",
+      target: "pledge",
+      fieldMap: {
+        contactEmail: "email",
+        pledgeDate: "date",
+        description: "for",
+        originalAmount: "amount",
+      },
+    });
+    const values = {
+      email: "dana@example.org",
+      date: "2025-01-01",
+      for: "Gala",
+      amount: "500",
+    };
+
+    const first = await receiveDelivery(await storedSource(source.id), values);
+    expect(first).toMatchObject({ status: "processed", contactId: donor.id });
+    const second = await receiveDelivery(await storedSource(source.id), values);
+    expect(second).toMatchObject({
+      status: "duplicate",
+      result: `Matches Pledge ${first.recordId}`,
+      recordId: first.recordId,
+    });
+
+    const forced = await processDelivery(second.id, { includeDuplicates: true });
+    expect(forced?.status).toBe("processed");
+    expect(await db.select().from(pledge)).toHaveLength(2);
+    expect(
+      (await listDeliveries(source.id, { status: "processed" })).map(
+        (entry) => entry.payload.for
+      )
+    ).toEqual(["Gala", "Gala"]);
+  });
+});
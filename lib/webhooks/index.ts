@@ -0,0 +1,412 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { and, desc, eq, sql } from "drizzle-orm";
+import { db, txDb, type DbExecutor } from "@/lib/db";
+import {
+  contact,
+  payment,
+  pledge,
+  webhookDelivery,
+  webhookSource,
+  type WebhookDelivery,
+  type WebhookSource,
+} from "@/lib/db/schema";
+import { recordAudit, type AuditAction } from "@/lib/audit";
+import { auditBonusSync } from "@/lib/bonus";
+import type { SessionUser } from "@/lib/auth/guard";
+import { IMPORT_HANDLERS, type CreatedRecord } from "@/lib/imports";
+import type { ColumnMap, ImportKind } from "@/lib/imports/fields";
+import type { DeliveryValues } from "./payload";
+
+export { readDeliveryValues, type DeliveryValues } from "./payload";
+
+// Inbound webhooks set up by admins. Each source has its own URL
+// (/api/webhook/<slug>), shared secret and field map from what the sender
+// posts to a contact, pledge or payment. A delivery is read like a one-row
+// import of that kind, so it is checked and written exactly as an imported
+// row would be. Every delivery is stored with its outcome; a failed one can
+// be replayed, e.g. after the field map is corrected.
+
+export class WebhookSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookSourceError";
+  }
+}
+
+// Served by their own routes under /api/webhook
+export const RESERVED_SLUGS = ["stripe", "paypal"];
+
+const tables = { contact, pledge, payment } as const;
+
+export const hashSecret = (secret: string) =>
+  createHash("sha256").update(secret).digest("hex");
+
+const newSecret = () => randomBytes(24).toString("base64url");
+
+export function verifySourceSecret(
+  source: WebhookSource,
+  provided: string | null
+): boolean {
+  if (!provided) return false;
+  const expected = Buffer.from(source.secretHash, "hex");
+  const actual = Buffer.from(hashSecret(provided), "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// The source without its secret hash, for responses and the audit log
+export type WebhookSourceView = Omit<WebhookSource, "secretHash" | "fieldMap"> & {
+  fieldMap: ColumnMap;
+};
+
+function toView({ secretHash: _, fieldMap, ...source }: WebhookSource): WebhookSourceView {
+  return { ...source, fieldMap: JSON.parse(fieldMap) };
+}
+
+export interface WebhookSourceSummary extends WebhookSourceView {
+  deliveryCount: number;
+  failedCount: number;
+  lastDeliveryAt: Date | null;
+}
+
+export async function listWebhookSources(
+  executor: DbExecutor = db
+): Promise<WebhookSourceSummary[]> {
+  const rows = await executor
+    .select({
+      source: webhookSource,
+      deliveryCount: sql<number>`(SELECT count(*)::int FROM ${webhookDelivery} WHERE ${webhookDelivery.sourceId} = ${webhookSource.id})`,
+      failedCount: sql<number>`(SELECT count(*)::int FROM ${webhookDelivery} WHERE ${webhookDelivery.sourceId} = ${webhookSource.id} AND ${webhookDelivery.status} = 'failed')`,
+      lastDeliveryAt: sql<string | null>`(SELECT max(${webhookDelivery.receivedAt}) FROM ${webhookDelivery} WHERE ${webhookDelivery.sourceId} = ${webhookSource.id})`,
+    })
+    .from(webhookSource)
+    .orderBy(webhookSource.name, webhookSource.id);
+
+  return rows.map(({ source, deliveryCount, failedCount, lastDeliveryAt }) => ({
+    ...toView(source),
+    deliveryCount,
+    failedCount,
+    lastDeliveryAt: lastDeliveryAt ? new Date(lastDeliveryAt) : null,
+  }));
+}
+
+export async function getWebhookSourceBySlug(
+  slug: string,
+  executor: DbExecutor = db
+): Promise<WebhookSource | null> {
+  const [source] = await executor
+    .select()
+    .from(webhookSource)
+    .where(eq(webhookSource.slug, slug));
+  return source ?? null;
+}
+
+export interface WebhookSourceValues {
+  name: string;
+  slug: string;
+  target: ImportKind;
+  fieldMap: ColumnMap;
+  isActive?: boolean;
+}
+
+async function assertSlugFree(
+  slug: string,
+  sourceId: number | null,
+  executor: DbExecutor
+) {
+  if (RESERVED_SLUGS.includes(slug)) {
+    throw new WebhookSourceError(`"${slug}" is reserved`);
+  }
+  const taken = await getWebhookSourceBySlug(slug, executor);
+  if (taken && taken.id !== sourceId) {
+    throw new WebhookSourceError(`Source "${taken.name}" already uses "${slug}"`);
+  }
+}
+
+// The old hard-coded /api/webhook/contact, kept for the senders already set
+// up with it: a contacts source with the keys GoHighLevel sends and
+// CONTACT_WEBHOOK_SECRET as its secret. Admins change it like any other.
+export const LEGACY_CONTACT_SOURCE: WebhookSourceValues = {
+  name: "Contact webhook",
+  slug: "contact",
+  target: "contact",
+  fieldMap: {
+    firstName: "first_name",
+    lastName: "last_name",
+    email: "email",
+    phone: "phone",
+    street: "full_address",
+  },
+};
+
+// Made on the first delivery to the old URL, unless a source already has its
+// slug; nothing is made without CONTACT_WEBHOOK_SECRET
+export async function ensureLegacyContactSource(
+  executor: DbExecutor = db
+): Promise<void> {
+  const secret = process.env.CONTACT_WEBHOOK_SECRET;
+  if (!secret) return;
+  const { fieldMap, ...values } = LEGACY_CONTACT_SOURCE;
+  await executor
+    .insert(webhookSource)
+    .values({
+      ...values,
+      fieldMap: JSON.stringify(fieldMap),
+      secretHash: hashSecret(secret),
+      createdBy: null,
+    })
+    .onConflictDoNothing({ target: webhookSource.slug });
+}
+
+export interface SourceWithSecret {
+  source: WebhookSourceView;
+  // Only ever returned here; the sender must be given it now
+  secret: string;
+}
+
+export async function createWebhookSource(
+  values: WebhookSourceValues,
+  createdBy: number | null,
+  executor: DbExecutor
+): Promise<SourceWithSecret> {
+  await assertSlugFree(values.slug, null, executor);
+  const secret = newSecret();
+  const [source] = await executor
+    .insert(webhookSource)
+    .values({
+      name: values.name,
+      slug: values.slug,
+      target: values.target,
+      fieldMap: JSON.stringify(values.fieldMap),
+      isActive: values.isActive ?? true,
+      secretHash: hashSecret(secret),
+      createdBy,
+    })
+    .returning();
+  return { source: toView(source), secret };
+}
+
+export interface SourceChange {
+  before: WebhookSourceView;
+  after: WebhookSourceView;
+}
+
+// Returns null when the source does not exist
+export async function updateWebhookSource(
+  sourceId: number,
+  values: Partial<WebhookSourceValues>,
+  executor: DbExecutor
+): Promise<SourceChange | null> {
+  const [before] = await executor
+    .select()
+    .from(webhookSource)
+    .where(eq(webhookSource.id, sourceId))
+    .for("update");
+  if (!before) return null;
+  if (values.slug !== undefined) {
+    await assertSlugFree(values.slug, sourceId, executor);
+  }
+
+  const { fieldMap, ...fields } = values;
+  const [after] = await executor
+    .update(webhookSource)
+    .set({
+      ...fields,
+      ...(fieldMap ? { fieldMap: JSON.stringify(fieldMap) } : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(webhookSource.id, sourceId))
+    .returning();
+  return { before: toView(before), after: toView(after) };
+}
+
+// A new secret for the source; the old one stops working at once
+export async function rotateWebhookSecret(
+  sourceId: number,
+  executor: DbExecutor
+): Promise<SourceWithSecret | null> {
+  const secret = newSecret();
+  const [source] = await executor
+    .update(webhookSource)
+    .set({ secretHash: hashSecret(secret), updatedAt: new Date() })
+    .where(eq(webhookSource.id, sourceId))
+    .returning();
+  return source ? { source: toView(source), secret } : null;
+}
+
+// Deletes the source with its deliveries; the records they created stay
+export async function deleteWebhookSource(
+  sourceId: number,
+  executor: DbExecutor
+): Promise<WebhookSourceView | null> {
+  const [deleted] = await executor
+    .delete(webhookSource)
+    .where(eq(webhookSource.id, sourceId))
+    .returning();
+  return deleted ? toView(deleted) : null;
+}
+
+export async function auditWebhookSource(
+  user: SessionUser,
+  action: AuditAction,
+  before: WebhookSourceView | null,
+  after: WebhookSourceView | null
+): Promise<void> {
+  await recordAudit(user, {
+    table: webhookSource,
+    recordId: (after ?? before)!.id,
+    action,
+    before,
+    after,
+    contactId: null,
+  });
+}
+
+// Written by the webhook itself, so no user
+async function auditCreated(kind: ImportKind, created: CreatedRecord) {
+  await recordAudit(null, {
+    table: tables[kind],
+    recordId: created.id,
+    action: "create",
+    after: created.after,
+    contactId: created.contactId,
+  });
+  if (created.bonusSync) {
+    await auditBonusSync(null, created.bonusSync, { paymentFields: false });
+  }
+}
+
+export interface ProcessOptions {
+  // Create the record even though it looks like one already saved
+  includeDuplicates?: boolean;
+}
+
+// Applies a stored delivery with its source's current field map. A
+// processed delivery is returned unchanged, as is a duplicate unless
+// `includeDuplicates`. Bad values leave it failed with the errors; anything
+// unexpected also marks it failed and is rethrown.
+export async function processDelivery(
+  deliveryId: number,
+  options: ProcessOptions = {}
+): Promise<WebhookDelivery | null> {
+  let created: { kind: ImportKind; record: CreatedRecord } | null = null;
+  let processed: WebhookDelivery | null;
+  try {
+    processed = await txDb.transaction(async (tx) => {
+      const [row] = await tx
+        .select({ delivery: webhookDelivery, source: webhookSource })
+        .from(webhookDelivery)
+        .innerJoin(webhookSource, eq(webhookDelivery.sourceId, webhookSource.id))
+        .where(eq(webhookDelivery.id, deliveryId))
+        .for("update", { of: webhookDelivery });
+      if (!row) return null;
+      const { delivery, source } = row;
+      if (
+        delivery.status === "processed" ||
+        (delivery.status === "duplicate" && !options.includeDuplicates)
+      ) {
+        return delivery;
+      }
+
+      const handler = IMPORT_HANDLERS[source.target];
+      const values: DeliveryValues = JSON.parse(delivery.payload);
+      const [prepared] = await handler.prepare(
+        [{ rowNumber: 1, values }],
+        JSON.parse(source.fieldMap),
+        tx
+      );
+
+      let outcome: Partial<WebhookDelivery>;
+      if (prepared.status === "invalid") {
+        outcome = { status: "failed", result: null, error: prepared.errors.join("; ") };
+      } else if (prepared.status === "duplicate" && !options.includeDuplicates) {
+        const [match] = prepared.duplicates;
+        outcome = {
+          status: "duplicate",
+          result: `Matches ${prepared.duplicates.map((duplicate) => duplicate.label).join(", ")}`,
+          error: null,
+          recordId: match.recordId,
+          contactId: source.target === "contact" ? match.recordId : null,
+        };
+      } else {
+        const record = await handler.create(prepared.record, tx);
+        created = { kind: source.target, record };
+        outcome = {
+          status: "processed",
+          result: `Created ${source.target} ${record.id}: ${prepared.summary}`,
+          error: null,
+          recordId: record.id,
+          contactId: record.contactId,
+        };
+      }
+
+      const [saved] = await tx
+        .update(webhookDelivery)
+        .set({
+          ...outcome,
+          attempts: sql`${webhookDelivery.attempts} + 1`,
+          processedAt: new Date(),
+        })
+        .where(eq(webhookDelivery.id, delivery.id))
+        .returning();
+      return saved;
+    });
+  } catch (error) {
+    await db
+      .update(webhookDelivery)
+      .set({
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        attempts: sql`${webhookDelivery.attempts} + 1`,
+        processedAt: new Date(),
+      })
+      .where(eq(webhookDelivery.id, deliveryId));
+    throw error;
+  }
+
+  if (created) {
+    const { kind, record } = created;
+    await auditCreated(kind, record);
+  }
+  return processed;
+}
+
+// Stores what a delivery sent, then applies it
+export async function receiveDelivery(
+  source: WebhookSource,
+  values: DeliveryValues
+): Promise<WebhookDelivery> {
+  const [delivery] = await db
+    .insert(webhookDelivery)
+    .values({ sourceId: source.id, payload: JSON.stringify(values) })
+    .returning();
+  return (await processDelivery(delivery.id)) ?? delivery;
+}
+
+export interface DeliveryFilters {
+  status?: WebhookDelivery["status"];
+  limit?: number;
+}
+
+export interface DeliveryEntry extends Omit<WebhookDelivery, "payload"> {
+  payload: DeliveryValues;
+}
+
+// A source's latest deliveries, newest first
+export async function listDeliveries(
+  sourceId: number,
+  filters: DeliveryFilters = {},
+  executor: DbExecutor = db
+): Promise<DeliveryEntry[]> {
+  const rows = await executor
+    .select()
+    .from(webhookDelivery)
+    .where(
+      and(
+        eq(webhookDelivery.sourceId, sourceId),
+        filters.status ? eq(webhookDelivery.status, filters.status) : undefined
+      )
+    )
+    .orderBy(desc(webhookDelivery.receivedAt), desc(webhookDelivery.id))
+    .limit(filters.limit ?? 100);
+  return rows.map((row) => ({ ...row, payload: JSON.parse(row.payload) }));
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { readDeliveryValues } from "./payload";
+
+const post = (url: string, body: BodyInit, contentType?: string) =>
+  readDeliveryValues(
+    new Request(`http://localhost/api/webhook/crm${url}`, {
+      method: "POST",
+      body,
+      headers: contentType ? { "content-type": contentType } : {},
+    })
+  );
+
+describe("readDeliveryValues", () => {
+  it("flattens a JSON body", async () => {
+    const values = await post(
+      "",
+      JSON.stringify({
+        contact: { first_name: "Dana", email: null },
+        tags: ["donor", "gala"],
+        items: [{ amount: 18 }, { amount: 36 }],
+        paid: true,
+      }),
+      "application/json"
+    );
+    expect(values).toEqual({
+      "contact.first_name": "Dana",
+      tags: "donor, gala",
+      "items.0.amount": "18",
+      "items.1.amount": "36",
+      paid: "true",
+    });
+  });
+
+  it("reads the query string, letting the body win", async () => {
+    const values = await post(
+      "?first_name=Dana&full_address=12%20Main%20St",
+      "first_name=Dina&phone=555-0100",
+      "application/x-www-form-urlencoded"
+    );
+    expect(values).toEqual({
+      first_name: "Dina",
+      full_address: "12 Main St",
+      phone: "555-0100",
+    });
+  });
+
+  it("reads a multipart form and a body that is not JSON", async () => {
+    const form = new FormData();
+    form.set("email", "dana@example.org");
+    expect(await post("?source=crm", form)).toEqual({
+      source: "crm",
+      email: "dana@example.org",
+    });
+    expect(await post("", "first_name=Dana", "text/plain")).toEqual({
+      first_name: "Dana",
+    });
+  });
+});
@@ -0,0 +1,61 @@
+// What a webhook sent, as one flat map of key -> text for the field map to
+// pick from. Senders differ: GoHighLevel puts a contact in the query string
+// (?first_name=...&full_address=...), others post JSON or a form. Both are
+// read, the body winning on a clash.
+
+export type DeliveryValues = Record<string, string>;
+
+// Nested JSON keys join with dots ("contact.email"); lists of plain values
+// become one comma-separated value, lists of objects are numbered
+// ("items.0.amount")
+function flatten(value: unknown, prefix: string, into: DeliveryValues) {
+  if (value === null || value === undefined) return;
+  if (Array.isArray(value)) {
+    if (value.every((item) => item === null || typeof item !== "object")) {
+      into[prefix] = value.filter((item) => item !== null).join(", ");
+      return;
+    }
+    value.forEach((item, index) => flatten(item, `${prefix}.${index}`, into));
+    return;
+  }
+  if (typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) {
+      flatten(item, prefix ? `${prefix}.${key}` : key, into);
+    }
+    return;
+  }
+  into[prefix] = String(value);
+}
+
+function bodyValues(text: string, contentType: string): DeliveryValues {
+  const values: DeliveryValues = {};
+  if (!text.trim()) return values;
+  if (!contentType.includes("application/x-www-form-urlencoded")) {
+    try {
+      const json = JSON.parse(text);
+      if (json && typeof json === "object") {
+        flatten(json, "", values);
+        return values;
+      }
+    } catch {
+      // Not JSON; try it as a form below
+    }
+  }
+  for (const [key, value] of new URLSearchParams(text)) values[key] = value;
+  return values;
+}
+
+export async function readDeliveryValues(request: Request): Promise<DeliveryValues> {
+  const contentType = request.headers.get("content-type") ?? "";
+  const values: DeliveryValues = Object.fromEntries(
+    new URL(request.url).searchParams
+  );
+
+  if (contentType.includes("multipart/form-data")) {
+    for (const [key, value] of await request.formData()) {
+      if (typeof value === "string") values[key] = value;
+    }
+    return values;
+  }
+  return { ...values, ...bodyValues(await request.text(), contentType) };
+}
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { SESSION_COOKIE, signSession } from "@/lib/auth/session";
+import type { StaffRole } from "@/lib/auth/roles";
+import { middleware } from "./middleware";
+
+async function request(
+  path: string,
+  { method = "GET", role }: { method?: string; role?: StaffRole } = {}
+) {
+  const headers: Record<string, string> = {};
+  if (role) {
+    headers.cookie = `${SESSION_COOKIE}=${await signSession({ sub: 1, role })}`;
+  }
+  return middleware(new NextRequest(`http://localhost${path}`, { method, headers }));
+}
+
+// NextResponse.next() marks the request to go on to the route
+const passes = (response: Response) =>
+  response.headers.get("x-middleware-next") === "1";
+
+beforeEach(() => {
+  vi.stubEnv("AUTH_SECRET", "test-secret");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("middleware", () => {
+  it("sends a signed-out visitor to the login page", async () => {
+    const response = await request("/contacts?page=2");
+    expect(response.status).toBe(307);
+    expect(response.headers.get("location")).toBe(
+      "http://localhost/login?next=%2Fcontacts%3Fpage%3D2"
+    );
+  });
+
+  it("answers a signed-out API call with a 401", async () => {
+    const response = await request("/api/contacts");
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({ error: "Authentication required" });
+  });
+
+  it("leaves login and API key endpoints to their handlers", async () => {
+    expect(passes(await request("/login"))).toBe(true);
+    expect(passes(await request("/api/auth/login", { method: "POST" }))).toBe(true);
+    expect(passes(await request("/api/webhook/stripe", { method: "POST" }))).toBe(true);
+    expect(passes(await request("/api/cron/installments", { method: "POST" }))).toBe(
+      true
+    );
+  });
+
+  it("lets a read-only user read but not write", async () => {
+    const readOnly = { role: "read_only" as const };
+    expect(passes(await request("/api/payments", readOnly))).toBe(true);
+
+    const response = await request("/api/payments", { ...readOnly, method: "POST" });
+    expect(response.status).toBe(403);
+    expect(
+      (await request("/api/contacts/1", { ...readOnly, method: "DELETE" })).status
+    ).toBe(403);
+  });
+
+  it("lets a read-only user run previews", async () => {
+    for (const path of ["/api/bonus-rules/preview", "/api/imports", "/api/deposits"]) {
+      expect(passes(await request(path, { role: "read_only", method: "POST" }))).toBe(
+        true
+      );
+    }
+  });
+
+  it("leaves finer checks to the handlers for other roles", async () => {
+    expect(
+      passes(await request("/api/payments", { role: "solicitor", method: "POST" }))
+    ).toBe(true);
+  });
+});
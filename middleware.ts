@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, verifySession } from "@/lib/auth/session";
+
+const PUBLIC_PATHS = ["/login", "/api/auth/login"];
+
+// Machine-to-machine endpoints authenticate with API keys in their handlers
+const API_KEY_PREFIXES = ["/api/zapier/", "/api/webhook/", "/api/cron/"];
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+// POSTs that only compute a preview. The import and deposit uploads write
+// unless `dryRun` is set, which their handlers check.
+const READ_ONLY_POSTS = [
+  "/api/auth/logout",
+  "/api/bonus-rules/preview",
+  "/api/imports",
+  "/api/deposits",
+];
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const isApi = pathname.startsWith("/api/");
+
+  if (
+    PUBLIC_PATHS.includes(pathname) ||
+    API_KEY_PREFIXES.some((prefix) => pathname.startsWith(prefix))
+  ) {
+    return NextResponse.next();
+  }
+
+  const session = await verifySession(
+    request.cookies.get(SESSION_COOKIE)?.value
+  );
+
+  if (!session) {
+    if (isApi) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+    const loginUrl = new URL("/login", request.url);
+    loginUrl.searchParams.set("next", `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  // Read-only accounts never write; handlers apply the finer-grained checks
+  if (
+    isApi &&
+    session.role === "read_only" &&
+    !READ_METHODS.includes(request.method) &&
+    !(request.method === "POST" && READ_ONLY_POSTS.includes(pathname))
+  ) {
+    return NextResponse.json(
+      { error: "You do not have permission to perform this action" },
+      { status: 403 }
+    );
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|.*\\.svg$).*)"],
+};
@@ -0,0 +1,213 @@
+import "dotenv/config";
+import { eq } from "drizzle-orm";
+import { db } from "../lib/db";
+import {
+  payment,
+  paymentAllocations,
+  paymentPlan,
+  pledge,
+} from "../lib/db/schema";
+import {
+  convertAmount,
+  moneyString,
+  rateString,
+  toNumber,
+  toUsd,
+} from "../lib/currency";
+import { getRatesForDate, type Currency } from "../lib/exchange-rates";
+import { updatePledgeTotals } from "../lib/pledge-totals";
+
+// Usage: pnpm currency:backfill [--dry-run] [--refresh-rates]
+//
+// Recomputes every *_usd column from the stored exchange rates, normalizing
+// each rate to units of currency per US dollar (see lib/currency.ts). Rates
+// saved by older forms in the opposite direction are detected from the USD
+// amount stored next to them and inverted. --refresh-rates replaces non-USD
+// rates with the rate-service rate for the record's date instead, which also
+// repairs rates that were truncated to two decimals.
+const dryRun = process.argv.includes("--dry-run");
+const refreshRates = process.argv.includes("--refresh-rates");
+
+const ratesByDate = new Map<string, Awaited<ReturnType<typeof getRatesForDate>>>();
+
+async function serviceRate(currency: Currency, date: string | null) {
+  const key = date ?? "latest";
+  if (!ratesByDate.has(key)) {
+    ratesByDate.set(key, await getRatesForDate(date ?? undefined));
+  }
+  return ratesByDate.get(key)!.rates[currency] ?? null;
+}
+
+async function resolveRate(
+  currency: Currency,
+  storedRate: string | null,
+  amount: string | null,
+  storedUsd: string | null,
+  date: string | null
+): Promise<number> {
+  if (currency === "USD") return 1;
+
+  const rate = toNumber(storedRate);
+  if (refreshRates || rate <= 0) {
+    return (await serviceRate(currency, date)) ?? (rate > 0 ? rate : 1);
+  }
+
+  const value = toNumber(amount);
+  const usd = toNumber(storedUsd);
+  if (value > 0 && usd > 0) {
+    const asUnitsPerUsd = Math.abs(value / rate - usd);
+    const asUsdPerUnit = Math.abs(value * rate - usd);
+    if (asUsdPerUnit < asUnitsPerUsd) return 1 / rate;
+  }
+  return rate;
+}
+
+let changed = 0;
+
+async function apply(label: string, id: number, update: () => Promise<unknown>) {
+  changed++;
+  console.log(`${dryRun ? "[dry-run] " : ""}${label} #${id}`);
+  if (!dryRun) await update();
+}
+
+function differs(before: string | null, after: string | null) {
+  if (before === null || after === null) return before !== after;
+  return Number(before) !== Number(after);
+}
+
+async function main() {
+  const pledgeRates = new Map<number, { currency: Currency; rate: number }>();
+
+  const pledges = await db.select().from(pledge);
+  for (const row of pledges) {
+    const rate = await resolveRate(
+      row.currency,
+      row.exchangeRate,
+      row.originalAmount,
+      row.originalAmountUsd,
+      row.pledgeDate
+    );
+    pledgeRates.set(row.id, { currency: row.currency, rate });
+
+    const exchangeRate = rateString(rate);
+    const originalAmountUsd = moneyString(toUsd(row.originalAmount, rate));
+    if (
+      differs(row.exchangeRate, exchangeRate) ||
+      differs(row.originalAmountUsd, originalAmountUsd)
+    ) {
+      await apply("pledge", row.id, () =>
+        db
+          .update(pledge)
+          .set({ exchangeRate, originalAmountUsd, updatedAt: new Date() })
+          .where(eq(pledge.id, row.id))
+      );
+    }
+  }
+
+  const paymentRates = new Map<number, number>();
+
+  const payments = await db.select().from(payment);
+  for (const row of payments) {
+    const rate = await resolveRate(
+      row.currency,
+      row.exchangeRate,
+      row.amount,
+      row.amountUsd,
+      row.paymentDate
+    );
+    paymentRates.set(row.id, rate);
+
+    const exchangeRate = rateString(rate);
+    const amountUsd = moneyString(toUsd(row.amount, rate));
+    const target = row.pledgeId ? pledgeRates.get(row.pledgeId) : undefined;
+    const amountInPledgeCurrency = !target
+      ? row.amountInPledgeCurrency
+      : moneyString(
+          target.currency === row.currency
+            ? toNumber(row.amount)
+            : convertAmount(row.amount, rate, target.rate)
+        );
+
+    if (
+      differs(row.exchangeRate, exchangeRate) ||
+      differs(row.amountUsd, amountUsd) ||
+      differs(row.amountInPledgeCurrency, amountInPledgeCurrency)
+    ) {
+      await apply("payment", row.id, () =>
+        db
+          .update(payment)
+          .set({
+            exchangeRate,
+            amountUsd,
+            amountInPledgeCurrency,
+            updatedAt: new Date(),
+          })
+          .where(eq(payment.id, row.id))
+      );
+    }
+  }
+
+  const allocations = await db.select().from(paymentAllocations);
+  for (const row of allocations) {
+    const allocatedAmountUsd = moneyString(
+      toUsd(row.allocatedAmount, paymentRates.get(row.paymentId) ?? 1)
+    );
+    if (differs(row.allocatedAmountUsd, allocatedAmountUsd)) {
+      await apply("allocation", row.id, () =>
+        db
+          .update(paymentAllocations)
+          .set({ allocatedAmountUsd, updatedAt: new Date() })
+          .where(eq(paymentAllocations.id, row.id))
+      );
+    }
+  }
+
+  const plans = await db.select().from(paymentPlan);
+  for (const row of plans) {
+    // Plans copy their pledge's rate, so reuse the already-resolved one
+    const planPledge = pledgeRates.get(row.pledgeId);
+    const rate =
+      planPledge && planPledge.currency === row.currency
+        ? planPledge.rate
+        : await resolveRate(
+            row.currency,
+            row.exchangeRate,
+            row.totalPaid,
+            row.totalPaidUsd,
+            row.startDate
+          );
+    const exchangeRate = rateString(rate);
+    const totalPaidUsd = moneyString(toUsd(row.totalPaid, rate));
+    if (
+      differs(row.exchangeRate, exchangeRate) ||
+      differs(row.totalPaidUsd, totalPaidUsd)
+    ) {
+      await apply("payment plan", row.id, () =>
+        db
+          .update(paymentPlan)
+          .set({ exchangeRate, totalPaidUsd, updatedAt: new Date() })
+          .where(eq(paymentPlan.id, row.id))
+      );
+    }
+  }
+
+  // Pledge totals and balances are derived from the payments fixed above
+  if (!dryRun) {
+    for (const row of pledges) {
+      await updatePledgeTotals(row.id);
+    }
+  }
+
+  if (dryRun) {
+    console.log(`${changed} record(s) would be updated`);
+  } else {
+    console.log(
+      `Updated ${changed} record(s); recomputed totals for ${pledges.length} pledge(s)`
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
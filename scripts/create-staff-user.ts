@@ -0,0 +1,54 @@
+import "dotenv/config";
+import { eq } from "drizzle-orm";
+import { db } from "../lib/db";
+import { staffUser } from "../lib/db/schema";
+import { hashPassword } from "../lib/auth/password";
+import { staffRoles, type StaffRole } from "../lib/auth/roles";
+
+// Usage: STAFF_USER_PASSWORD=... pnpm auth:create-user <email> <name> [role] [contactId]
+async function main() {
+  const [email, name, role = "admin", contactId] = process.argv.slice(2);
+  const password = process.env.STAFF_USER_PASSWORD;
+
+  if (!email || !name || !password) {
+    console.error(
+      "Usage: STAFF_USER_PASSWORD=... pnpm auth:create-user <email> <name> [role] [contactId]"
+    );
+    process.exit(1);
+  }
+
+  if (!staffRoles.includes(role as StaffRole)) {
+    console.error(`Role must be one of: ${staffRoles.join(", ")}`);
+    process.exit(1);
+  }
+
+  const normalizedEmail = email.toLowerCase().trim();
+  const existing = await db
+    .select({ id: staffUser.id })
+    .from(staffUser)
+    .where(eq(staffUser.email, normalizedEmail))
+    .limit(1);
+
+  if (existing.length > 0) {
+    console.error(`A staff user with email ${normalizedEmail} already exists`);
+    process.exit(1);
+  }
+
+  const [created] = await db
+    .insert(staffUser)
+    .values({
+      email: normalizedEmail,
+      name,
+      passwordHash: await hashPassword(password),
+      role: role as StaffRole,
+      contactId: contactId ? parseInt(contactId, 10) : null,
+    })
+    .returning({ id: staffUser.id });
+
+  console.log(`Created ${role} user #${created.id} (${normalizedEmail})`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,62 @@
+import "dotenv/config";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  describePeriod,
+  getGivingStatements,
+  givingStatementsCsv,
+  renderGivingStatementsPdf,
+  statementPeriod,
+} from "../lib/statements";
+
+// Usage: pnpm statements:export [--year YYYY] [--fiscal] [--out <dir>]
+//
+// Writes a year-end giving statement PDF for every donor who gave in the
+// period, plus one CSV of every line, to --out (default data/statements).
+// The year defaults to last year.
+const args = process.argv.slice(2);
+const fiscal = args.includes("--fiscal");
+
+function flagValue(flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function main() {
+  const yearFlag = flagValue("--year");
+  const year =
+    yearFlag === undefined
+      ? new Date().getUTCFullYear() - 1
+      : parseInt(yearFlag, 10);
+  if (isNaN(year) || year < 1900 || year > 2100) {
+    throw new Error("--year expects a four-digit year");
+  }
+
+  const period = statementPeriod(year, fiscal ? "fiscal" : "calendar");
+  const statements = await getGivingStatements(period);
+  const outDir = path.resolve(flagValue("--out") ?? "data/statements");
+  const prefix = `statements-${year}${fiscal ? "-fiscal" : ""}`;
+  await mkdir(outDir, { recursive: true });
+
+  for (const statement of statements) {
+    const file = path.join(outDir, `${prefix}-${statement.contactId}.pdf`);
+    await writeFile(file, renderGivingStatementsPdf([statement]));
+    console.log(
+      `contact #${statement.contactId} ${statement.donorName}: ` +
+        `${statement.lines.length} line(s), ${statement.total.toFixed(2)} ${statement.currency}`
+    );
+  }
+  await writeFile(
+    path.join(outDir, `${prefix}.csv`),
+    givingStatementsCsv(statements)
+  );
+
+  console.log(
+    `${describePeriod(period)}: wrote ${statements.length} statement(s) to ${outDir}`
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
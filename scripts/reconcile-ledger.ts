@@ -0,0 +1,46 @@
+import "dotenv/config";
+import { reconcileLedger } from "../lib/ledger-reconciliation";
+
+// Usage: pnpm ledger:reconcile [--repair] [--pledge <id>] [--contact <id>]
+//
+// Recomputes pledge and payment plan totals from completed payments and
+// allocations and lists every stored value that disagrees. --repair writes
+// the recomputed values back; without it nothing is changed.
+const args = process.argv.slice(2);
+const repair = args.includes("--repair");
+
+function numericFlag(flag: string): number | undefined {
+  const index = args.indexOf(flag);
+  if (index === -1) return undefined;
+  const value = parseInt(args[index + 1], 10);
+  if (isNaN(value) || value <= 0) {
+    throw new Error(`${flag} expects a positive id`);
+  }
+  return value;
+}
+
+async function main() {
+  const report = await reconcileLedger({
+    repair,
+    pledgeId: numericFlag("--pledge"),
+    contactId: numericFlag("--contact"),
+  });
+
+  for (const discrepancy of report.discrepancies) {
+    console.log(
+      `${discrepancy.table} #${discrepancy.recordId} ${discrepancy.field}: ` +
+        `stored ${discrepancy.stored ?? "null"}, expected ${discrepancy.expected}`
+    );
+  }
+
+  console.log(
+    `Checked ${report.checkedPledges} pledge(s) and ${report.checkedPaymentPlans} payment plan(s); ` +
+      `${report.discrepancies.length} discrepanc${report.discrepancies.length === 1 ? "y" : "ies"}` +
+      (repair ? " repaired" : " found")
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
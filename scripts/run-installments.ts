@@ -0,0 +1,57 @@
+import "dotenv/config";
+import { runInstallmentEngine } from "../lib/installments";
+
+// Usage: pnpm installments:run [--dry-run] [--as-of YYYY-MM-DD] [--plan <id>]
+//
+// Settles paid installments, flags overdue ones, advances nextPaymentDate,
+// completes fully paid plans and renews autoRenew plans. --dry-run reports
+// the changes and rolls them back.
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+
+function flagValue(flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function main() {
+  const asOf = flagValue("--as-of");
+  if (asOf !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+    throw new Error("--as-of expects a YYYY-MM-DD date");
+  }
+
+  const plan = flagValue("--plan");
+  const paymentPlanId = plan === undefined ? undefined : parseInt(plan, 10);
+  if (paymentPlanId !== undefined && (isNaN(paymentPlanId) || paymentPlanId <= 0)) {
+    throw new Error("--plan expects a positive id");
+  }
+
+  const report = await runInstallmentEngine({ asOf, paymentPlanId, dryRun });
+
+  for (const result of report.plans) {
+    if (result.error) {
+      console.log(`payment_plan #${result.paymentPlanId}: failed: ${result.error}`);
+      continue;
+    }
+    const parts = [
+      `status ${result.planStatus}`,
+      `next ${result.nextPaymentDate ?? "none"}`,
+    ];
+    if (result.installmentsPaid.length) parts.push(`${result.installmentsPaid.length} paid`);
+    if (result.installmentsOverdue.length) parts.push(`${result.installmentsOverdue.length} overdue`);
+    if (result.installmentsReopened.length) parts.push(`${result.installmentsReopened.length} reopened`);
+    if (result.renewedInstallments) parts.push(`renewed with ${result.renewedInstallments} installment(s)`);
+    console.log(`payment_plan #${result.paymentPlanId}: ${parts.join(", ")}`);
+  }
+
+  console.log(
+    `Checked ${report.checkedPlans} plan(s) as of ${report.asOf}; ` +
+      `${report.plans.length} changed` +
+      (dryRun ? " (dry run, nothing written)" : "")
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,54 @@
+import "dotenv/config";
+import { sendPaymentReminders } from "../lib/reminders";
+
+// Usage: pnpm reminders:send [--dry-run] [--as-of YYYY-MM-DD] [--plan <id>]
+//
+// Sends donor reminders for overdue and upcoming installments through the
+// REMINDER_TRANSPORT transport. --dry-run prints the messages instead.
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+
+function flagValue(flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function main() {
+  const asOf = flagValue("--as-of");
+  if (asOf !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+    throw new Error("--as-of expects a YYYY-MM-DD date");
+  }
+
+  const plan = flagValue("--plan");
+  const paymentPlanId = plan === undefined ? undefined : parseInt(plan, 10);
+  if (paymentPlanId !== undefined && (isNaN(paymentPlanId) || paymentPlanId <= 0)) {
+    throw new Error("--plan expects a positive id");
+  }
+
+  const report = await sendPaymentReminders({ asOf, paymentPlanId, dryRun });
+
+  for (const reminder of report.reminders) {
+    const target = reminder.recipient
+      ? `${reminder.kind} ${reminder.channel} to ${reminder.recipient}`
+      : `${reminder.kind}`;
+    console.log(
+      `payment_plan #${reminder.paymentPlanId}: ${reminder.status} ${target}` +
+        (reminder.reason ? `: ${reminder.reason}` : "")
+    );
+    if (dryRun && reminder.body) {
+      if (reminder.subject) console.log(`  Subject: ${reminder.subject}`);
+      console.log(reminder.body.replace(/^/gm, "  "));
+    }
+  }
+
+  console.log(
+    `Checked ${report.checkedPlans} plan(s) as of ${report.asOf} via ${report.transport}; ` +
+      `${report.sent} sent, ${report.failed} failed` +
+      (dryRun ? " (dry run, nothing sent)" : "")
+  );
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
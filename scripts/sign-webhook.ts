@@ -0,0 +1,91 @@
+import "dotenv/config";
+import { generateKeyPairSync } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import {
+  signPaypalPayload,
+  signStripePayload,
+} from "../lib/processors/signatures";
+
+// Usage: pnpm webhook:sign <stripe|paypal> <event.json> [--send <url>]
+//        pnpm webhook:sign paypal --keygen
+//
+// Signs a Stripe or PayPal event the way the processor would, to test the
+// webhook endpoints without either. Stripe events are signed with
+// STRIPE_WEBHOOK_SECRET. PayPal events are signed with the private key in
+// PAYPAL_SIGNING_KEY (a PEM, or a path to one) for PAYPAL_WEBHOOK_ID; the
+// server then needs the matching public key in PAYPAL_WEBHOOK_CERT, and
+// --keygen prints a pair. Without --send the headers are printed.
+const args = process.argv.slice(2);
+
+function flagValue(flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} is not set`);
+  return value.replace(/\\n/g, "\n");
+}
+
+async function signingKey(): Promise<string> {
+  const key = requireEnv("PAYPAL_SIGNING_KEY");
+  return key.includes("BEGIN") ? key : readFile(key, "utf8");
+}
+
+async function main() {
+  const [processor, file] = args;
+  if (processor === "paypal" && args.includes("--keygen")) {
+    const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: "pkcs8", format: "pem" },
+      publicKeyEncoding: { type: "spki", format: "pem" },
+    });
+    console.log(`# Signing key for PAYPAL_SIGNING_KEY\n${privateKey}`);
+    console.log(`# Public key for the server's PAYPAL_WEBHOOK_CERT\n${publicKey}`);
+    return;
+  }
+  if ((processor !== "stripe" && processor !== "paypal") || !file) {
+    throw new Error(
+      "Usage: pnpm webhook:sign <stripe|paypal> <event.json> [--send <url>]"
+    );
+  }
+
+  // Signed exactly as read, as the processor would send it
+  const payload = await readFile(file, "utf8");
+  JSON.parse(payload);
+  const headers: Record<string, string> =
+    processor === "stripe"
+      ? {
+          "stripe-signature": signStripePayload(
+            payload,
+            requireEnv("STRIPE_WEBHOOK_SECRET")
+          ),
+        }
+      : signPaypalPayload(
+          payload,
+          requireEnv("PAYPAL_WEBHOOK_ID"),
+          await signingKey()
+        );
+
+  const url = flagValue("--send");
+  if (!url) {
+    for (const [name, value] of Object.entries(headers)) {
+      console.log(`${name}: ${value}`);
+    }
+    return;
+  }
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: payload,
+  });
+  console.log(`${response.status} ${response.statusText}`);
+  console.log(await response.text());
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});